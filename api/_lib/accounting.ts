@@ -0,0 +1,278 @@
+import { createHash } from "crypto"
+import { z } from "zod"
+import { centsToDollars, type CsvCell } from "./csv.js"
+
+/*
+ * Double-entry journal export of transaction_logs.
+ *
+ * Every transaction becomes one balanced journal entry between its method's clearing account
+ * (where the money physically went: cash box, undeposited checks, card processor...) and its
+ * type's income or expense account:
+ *
+ *   Payment        debit clearing         credit income
+ *   Refund         debit refunds (income) credit clearing
+ *   Expense        debit expense          credit clearing
+ *   Reimbursement  debit reimbursements   credit clearing
+ *
+ * The account names default to DEFAULT_ACCOUNTS, can be overridden for the deployment with the
+ * ACCOUNTING_ACCOUNTS environment variable (JSON, same shape, partial) and per export.
+ */
+
+const TRANSACTION_TYPES = ["Payment", "Refund", "Expense", "Reimbursement"] as const
+const TRANSACTION_METHODS = ["Cash", "Check", "Credit", "Debit", "Transfer", "Other"] as const
+
+type TransactionType = (typeof TRANSACTION_TYPES)[number]
+type TransactionMethod = (typeof TRANSACTION_METHODS)[number]
+
+export const AccountMapSchema = z.object({
+  types: z.record(z.enum(TRANSACTION_TYPES), z.string().min(1).max(200)).optional(),
+  methods: z.record(z.enum(TRANSACTION_METHODS), z.string().min(1).max(200)).optional(),
+})
+
+export interface AccountMap {
+  types: Record<TransactionType, string>
+  methods: Record<TransactionMethod, string>
+}
+
+export const DEFAULT_ACCOUNTS: AccountMap = {
+  types: {
+    Payment: "Event Income",
+    Refund: "Event Income:Refunds",
+    Expense: "Event Expenses",
+    Reimbursement: "Event Expenses:Reimbursements",
+  },
+  methods: {
+    Cash: "Undeposited Funds:Cash",
+    Check: "Undeposited Funds:Checks",
+    Credit: "Credit Card Clearing",
+    Debit: "Debit Card Clearing",
+    Transfer: "Bank Transfer Clearing",
+    Other: "Other Clearing",
+  },
+}
+
+const mergeAccounts = (base: AccountMap, override: z.infer<typeof AccountMapSchema> | null | undefined): AccountMap => ({
+  types: { ...base.types, ...override?.types },
+  methods: { ...base.methods, ...override?.methods },
+})
+
+const configuredAccounts = (): AccountMap => {
+  if (!process.env.ACCOUNTING_ACCOUNTS) {
+    return DEFAULT_ACCOUNTS
+  }
+  try {
+    return mergeAccounts(DEFAULT_ACCOUNTS, AccountMapSchema.parse(JSON.parse(process.env.ACCOUNTING_ACCOUNTS)))
+  } catch (error) {
+    console.error("[v0] Ignoring invalid ACCOUNTING_ACCOUNTS:", error)
+    return DEFAULT_ACCOUNTS
+  }
+}
+
+export const resolveAccounts = (override?: z.infer<typeof AccountMapSchema> | null): AccountMap =>
+  mergeAccounts(configuredAccounts(), override)
+
+export interface JournalTransaction {
+  id: string
+  log_id: string
+  type: TransactionType
+  method: TransactionMethod
+  name: string
+  details: string | null
+  amount: number
+  payor_name: string | null
+  payee_name: string | null
+  happened_at: string | null
+  created_at: string | null
+}
+
+export interface JournalLine {
+  account: string
+  debit: number // cents
+  credit: number // cents
+}
+
+export interface JournalEntry {
+  transaction_id: string
+  log_id: string
+  date: string // YYYY-MM-DD
+  type: TransactionType
+  name: string // the counterparty: payor for money in, payee for money out
+  memo: string
+  lines: JournalLine[]
+}
+
+export const buildJournal = (transactions: JournalTransaction[], accounts: AccountMap): JournalEntry[] =>
+  transactions.map((tx) => {
+    const clearing = accounts.methods[tx.method] || accounts.methods.Other
+    const category = accounts.types[tx.type]
+    const moneyIn = tx.type === "Payment"
+    const [debitAccount, creditAccount] = moneyIn ? [clearing, category] : [category, clearing]
+
+    return {
+      transaction_id: tx.id,
+      log_id: tx.log_id,
+      date: (tx.happened_at || tx.created_at || new Date().toISOString()).slice(0, 10),
+      type: tx.type,
+      name: (moneyIn ? tx.payor_name : tx.payee_name) || "",
+      memo: [tx.name, tx.details].filter(Boolean).join(" - "),
+      lines: [
+        { account: debitAccount, debit: tx.amount, credit: 0 },
+        { account: creditAccount, debit: 0, credit: tx.amount },
+      ],
+    }
+  })
+
+export const journalCsvRows = (entries: JournalEntry[]): CsvCell[][] => [
+  ["Date", "Entry", "Account", "Debit", "Credit", "Name", "Memo", "Type", "Transaction ID", "Log ID"],
+  ...entries.flatMap((entry, index) =>
+    entry.lines.map(
+      (line): CsvCell[] => [
+        entry.date,
+        index + 1,
+        line.account,
+        line.debit ? centsToDollars(line.debit) : null,
+        line.credit ? centsToDollars(line.credit) : null,
+        entry.name,
+        entry.memo,
+        entry.type,
+        entry.transaction_id,
+        entry.log_id,
+      ],
+    ),
+  ),
+]
+
+// IIF is tab separated with no quoting, so tabs and line breaks can't appear inside a field
+const iifField = (value: string) => value.replace(/[\t\r\n]+/g, " ")
+
+const iifDate = (date: string) => {
+  const [year, month, day] = date.split("-")
+  return `${month}/${day}/${year}`
+}
+
+/*
+ * QuickBooks IIF general journal entries: a TRNS line for the first split, SPL lines for the rest,
+ * debits positive and credits negative.
+ */
+export const journalIif = (entries: JournalEntry[]): string => {
+  const rows = [
+    ["!TRNS", "TRNSID", "TRNSTYPE", "DATE", "ACCNT", "NAME", "AMOUNT", "DOCNUM", "MEMO"],
+    ["!SPL", "SPLID", "TRNSTYPE", "DATE", "ACCNT", "NAME", "AMOUNT", "DOCNUM", "MEMO"],
+    ["!ENDTRNS"],
+  ]
+
+  entries.forEach((entry, index) => {
+    entry.lines.forEach((line, lineIndex) => {
+      rows.push([
+        lineIndex === 0 ? "TRNS" : "SPL",
+        "",
+        "GENERAL JOURNAL",
+        iifDate(entry.date),
+        iifField(line.account),
+        iifField(entry.name),
+        centsToDollars(line.debit - line.credit),
+        String(index + 1),
+        iifField(entry.memo),
+      ])
+    })
+    rows.push(["ENDTRNS"])
+  })
+
+  return rows.map((row) => row.join("\t")).join("\r\n") + "\r\n"
+}
+
+const xmlEscape = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+
+const ofxDate = (date: string) => date.replace(/-/g, "")
+
+const OFX_ACCTID_LENGTH = 22
+
+// ACCTID holds at most 22 characters. Longer account names keep a readable prefix and add a hash of
+// the full name, so names sharing a prefix still get their own statements.
+const ofxAccountId = (account: string): string => {
+  if (account.length <= OFX_ACCTID_LENGTH) {
+    return account
+  }
+  const hash = createHash("sha256").update(account).digest("hex").slice(0, 8)
+  return `${account.slice(0, OFX_ACCTID_LENGTH - hash.length - 1)}~${hash}`
+}
+
+/*
+ * OFX 2 bank statements, one per clearing account, so each account reconciles against its own
+ * bank or processor statement. Money into a clearing account is a CREDIT transaction.
+ */
+export const journalOfx = (entries: JournalEntry[], accounts: AccountMap, generatedAt = new Date()): string => {
+  const clearingAccounts = new Set(Object.values(accounts.methods))
+  const byAccount = new Map<string, Array<{ entry: JournalEntry; amount: number }>>()
+
+  for (const entry of entries) {
+    for (const line of entry.lines) {
+      if (!clearingAccounts.has(line.account)) {
+        continue
+      }
+      const statement = byAccount.get(line.account) || []
+      statement.push({ entry, amount: line.debit - line.credit })
+      byAccount.set(line.account, statement)
+    }
+  }
+
+  const now = generatedAt.toISOString().replace(/[-:T]/g, "").slice(0, 14)
+  const dates = entries.map((entry) => entry.date).sort()
+  const start = ofxDate(dates[0] || generatedAt.toISOString().slice(0, 10))
+  const end = ofxDate(dates[dates.length - 1] || generatedAt.toISOString().slice(0, 10))
+
+  const statements = [...byAccount.entries()].map(([account, lines], index) => {
+    const balance = lines.reduce((sum, line) => sum + line.amount, 0)
+    const transactions = lines
+      .map(
+        ({ entry, amount }) => `          <STMTTRN>
+            <TRNTYPE>${amount >= 0 ? "CREDIT" : "DEBIT"}</TRNTYPE>
+            <DTPOSTED>${ofxDate(entry.date)}</DTPOSTED>
+            <TRNAMT>${centsToDollars(amount)}</TRNAMT>
+            <FITID>${entry.transaction_id}</FITID>
+            <NAME>${xmlEscape(entry.name.slice(0, 32))}</NAME>
+            <MEMO>${xmlEscape(entry.memo.slice(0, 255))}</MEMO>
+          </STMTTRN>`,
+      )
+      .join("\n")
+
+    return `    <STMTTRNRS>
+      <TRNUID>${index + 1}</TRNUID>
+      <STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>
+      <STMTRS>
+        <CURDEF>USD</CURDEF>
+        <BANKACCTFROM>
+          <BANKID>EMMA</BANKID>
+          <ACCTID>${xmlEscape(ofxAccountId(account))}</ACCTID>
+          <ACCTTYPE>CHECKING</ACCTTYPE>
+        </BANKACCTFROM>
+        <BANKTRANLIST>
+          <DTSTART>${start}</DTSTART>
+          <DTEND>${end}</DTEND>
+${transactions}
+        </BANKTRANLIST>
+        <LEDGERBAL>
+          <BALAMT>${centsToDollars(balance)}</BALAMT>
+          <DTASOF>${end}</DTASOF>
+        </LEDGERBAL>
+      </STMTRS>
+    </STMTTRNRS>`
+  })
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="no"?>
+<?OFX OFXHEADER="200" VERSION="220" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>
+<OFX>
+  <SIGNONMSGSRSV1>
+    <SONRS>
+      <STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>
+      <DTSERVER>${now}</DTSERVER>
+      <LANGUAGE>ENG</LANGUAGE>
+    </SONRS>
+  </SIGNONMSGSRSV1>
+  <BANKMSGSRSV1>
+${statements.join("\n")}
+  </BANKMSGSRSV1>
+</OFX>
+`
+}
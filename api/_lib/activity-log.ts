@@ -0,0 +1,221 @@
+import { supabase } from "./supabase.js"
+import type { AuthContext } from "./auth.js"
+
+/*
+ * Per-record audit trail.
+ *
+ * Every audited record carries a log_id; its history is the set of activity_logs rows sharing that
+ * log_id, ordered by `ordering`. Handlers snapshot the row before a write and call
+ * recordRecordChange() afterwards, which stores a field-level diff in `data`:
+ *
+ *   { action: "updated", changes: { name: { from: "Old", to: "New" } } }
+ *
+ * Audit writes never fail the request they describe; errors are logged and swallowed (recordActivity
+ * returns the stored entry's id, or null, for callers that do care).
+ */
+
+export type ActivityAction = "created" | "updated" | "archived" | "restored" | "membership" | "deleted"
+
+export type FieldChanges = Record<string, { from: unknown; to: unknown }>
+
+export interface ActivityEntry {
+  name: string
+  summary: string
+  details?: string | null
+  data?: Record<string, unknown> | null
+}
+
+type RecordRow = Record<string, any>
+
+// Roster columns whose changes are recorded as membership changes rather than plain updates
+export const EVENT_MEMBERSHIP_FIELDS = [
+  "potential_staff",
+  "committed_staff",
+  "alternate_staff",
+  "potential_participants",
+  "committed_participants",
+  "waitlist_participants",
+  "leaders",
+  "rookies",
+  "elders",
+  "mos",
+]
+
+export const GROUP_MEMBERSHIP_FIELDS = ["members", "facilitators"]
+
+const IGNORED_FIELDS = ["id", "log_id", "created_at", "updated_at"]
+
+const ACTION_NAMES: Record<ActivityAction, string> = {
+  created: "Created",
+  updated: "Updated",
+  archived: "Archived",
+  restored: "Restored",
+  membership: "Membership Changed",
+  deleted: "Deleted",
+}
+
+const recordLabel = (row: RecordRow | null): string =>
+  row ? row.name || [row.first_name, row.last_name].filter(Boolean).join(" ") : ""
+
+const isEmbeddedRelation = (value: unknown): boolean =>
+  value !== null && typeof value === "object" && !Array.isArray(value)
+
+/*
+ * Field-level diff between two rows. Only the columns present on `before` are compared, so `after`
+ * may be a row returned with embedded relations. For creates (no `before`) every column of `after`
+ * that isn't an embedded relation is recorded.
+ */
+export const diffFields = (before: RecordRow | null, after: RecordRow | null): FieldChanges => {
+  const changes: FieldChanges = {}
+  const source = before || after || {}
+  const keys = Object.keys(source).filter(
+    (key) => !IGNORED_FIELDS.includes(key) && (before !== null || !isEmbeddedRelation(source[key])),
+  )
+
+  for (const key of keys) {
+    const from = before ? (before[key] ?? null) : null
+    const to = after ? (after[key] ?? null) : null
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[key] = { from, to }
+    }
+  }
+
+  return changes
+}
+
+/*
+ * Works out what kind of update a diff represents: toggling is_active is an archive/restore and a
+ * diff touching only roster columns is a membership change.
+ */
+const classifyUpdate = (changes: FieldChanges, membershipFields: string[]): ActivityAction => {
+  if (changes.is_active) {
+    return changes.is_active.to === false ? "archived" : "restored"
+  }
+  if (changes.deleted_at) {
+    return changes.deleted_at.to ? "archived" : "restored"
+  }
+
+  const fields = Object.keys(changes)
+  if (fields.length > 0 && fields.every((field) => membershipFields.includes(field))) {
+    return "membership"
+  }
+
+  return "updated"
+}
+
+export const snapshotRecord = async (table: string, id: string): Promise<RecordRow | null> => {
+  const { data, error } = await supabase.from(table).select("*").eq("id", id).maybeSingle()
+
+  if (error) {
+    console.error(`[v0] Database error snapshotting ${table}/${id} for the activity log:`, error)
+    return null
+  }
+
+  return data
+}
+
+/*
+ * Warriors, registrants and prospects share their id with a people row; the snapshot merges the
+ * person's columns in so name/contact changes show up in the role record's history too.
+ */
+export const snapshotPersonRecord = async (table: string, id: string): Promise<RecordRow | null> => {
+  const role = await snapshotRecord(table, id)
+  if (!role) {
+    return null
+  }
+  const person = await snapshotRecord("people", id)
+  return { ...person, ...role }
+}
+
+/*
+ * I-Groups and F-Groups extend a groups row; the snapshot merges the two so the diff covers both.
+ * The subtype's own columns (including its log_id, where it has one) take precedence.
+ */
+export const snapshotGroupRecord = async (table: string, id: string): Promise<RecordRow | null> => {
+  const group = await snapshotRecord("groups", id)
+  if (!group) {
+    return null
+  }
+  const subtype = await snapshotRecord(table, id)
+  return { ...group, ...subtype }
+}
+
+export const recordActivity = async (
+  auth: AuthContext,
+  logId: string | null | undefined,
+  entry: ActivityEntry,
+): Promise<string | null> => {
+  if (!logId) {
+    return null
+  }
+
+  try {
+    const { data: last, error: lastError } = await supabase
+      .from("activity_logs")
+      .select("ordering")
+      .eq("log_id", logId)
+      .order("ordering", { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (lastError) {
+      throw lastError
+    }
+
+    const { data: stored, error } = await supabase
+      .from("activity_logs")
+      .insert({
+        log_id: logId,
+        by_id: auth.person_id,
+        name: entry.name,
+        summary: entry.summary,
+        details: entry.details ?? null,
+        data: entry.data ?? null,
+        ordering: (last?.ordering || 0) + 1,
+      })
+      .select("id")
+      .single()
+
+    if (error) {
+      throw error
+    }
+    return stored.id
+  } catch (error) {
+    console.error(`[v0] Failed to record activity on log ${logId}:`, error)
+    return null
+  }
+}
+
+/*
+ * Records a create/update/delete of an audited record. `entity` is the human label used in the
+ * summary ("Event", "Warrior", ...). Updates that change nothing are not recorded.
+ */
+export const recordRecordChange = async (
+  auth: AuthContext,
+  options: {
+    logId: string | null | undefined
+    entity: string
+    action: "created" | "updated" | "deleted"
+    before?: RecordRow | null
+    after?: RecordRow | null
+    membershipFields?: string[]
+  },
+): Promise<void> => {
+  const { logId, entity, before = null, after = null, membershipFields = [] } = options
+  const changes = options.action === "deleted" ? {} : diffFields(before, after)
+
+  if (options.action === "updated" && Object.keys(changes).length === 0) {
+    return
+  }
+
+  const action = options.action === "updated" ? classifyUpdate(changes, membershipFields) : options.action
+  const changedFields = Object.keys(changes)
+  const label = recordLabel(after) || recordLabel(before)
+
+  await recordActivity(auth, logId, {
+    name: ACTION_NAMES[action],
+    summary: `${entity}${label ? ` "${label}"` : ""} ${ACTION_NAMES[action].toLowerCase()}`,
+    details: action === "updated" || action === "membership" ? `Changed ${changedFields.join(", ")}` : null,
+    data: { action, changes },
+  })
+}
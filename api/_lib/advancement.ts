@@ -0,0 +1,353 @@
+import { z } from "zod"
+import { supabase } from "./supabase.js"
+import type { AuthContext } from "./auth.js"
+import { recordActivity } from "./activity-log.js"
+import { areaScopeFilter, type AreaScope } from "./area-scope.js"
+import type {
+  AdvancementCriteria,
+  AdvancementProgress,
+  RequirementProgress,
+  WarriorAdvancement,
+} from "../../src/types/advancement"
+
+/*
+ * Leader-track advancement.
+ *
+ * Each advancement_criteria row says what a warrior at from_status must have done to be promoted
+ * to status. A warrior's record is measured as:
+ *
+ *   - staffed:     distinct NWTAs in staffed_events or with an nwta_roles assignment
+ *   - role types:  distinct NWTAs with an assignment to a role of that nwta_role_type
+ *   - lead:        distinct NWTAs in lead_events or where the warrior was a role's lead_warrior_id
+ *   - training:    training_events attended of each event_type
+ *   - months:      whole months since initiation_on
+ *
+ * Promotion stays a person's decision: eligibility is only reported, and every status change,
+ * whichever route makes it, is recorded on the warrior's activity log with its justification.
+ */
+
+const CountRequirementSchema = z.number().int().min(1)
+
+export const AdvancementCriteriaSchema = z.object({
+  status: z.string().min(1, "Status is required").max(50),
+  from_status: z.string().min(1, "From status is required").max(50),
+  summary: z.string().optional().nullable(),
+  min_staffed: z.number().int().min(0).default(0),
+  role_type_requirements: z
+    .array(z.object({ role_type_id: z.string().uuid(), count: CountRequirementSchema }))
+    .default([]),
+  min_lead: z.number().int().min(0).default(0),
+  training_requirements: z
+    .array(z.object({ event_type_id: z.string().uuid(), count: CountRequirementSchema }))
+    .default([]),
+  min_months_initiated: z.number().int().min(0).default(0),
+  is_active: z.boolean().default(true),
+})
+
+export const StatusChangeSchema = z.object({
+  status: z.string().min(1, "Status is required").max(50),
+  justification: z.string().trim().min(1, "A justification is required to change a warrior's status"),
+})
+
+interface AdvancementWarrior {
+  id: string
+  status: string | null
+  initiation_on: string | null
+  training_events: string[] | null
+  staffed_events: string[] | null
+  lead_events: string[] | null
+  people: { first_name: string; last_name: string }
+}
+
+interface WarriorRecord {
+  staffed: number
+  lead: number
+  months: number
+  role_types: Map<string, number>
+  trainings: Map<string, number>
+}
+
+interface RequirementNames {
+  role_types: Map<string, string>
+  event_types: Map<string, string>
+}
+
+const WARRIOR_COLUMNS =
+  "id, status, initiation_on, training_events, staffed_events, lead_events, people!inner(first_name, last_name)"
+
+export const monthsSince = (date: string | null, now = new Date()): number => {
+  if (!date) {
+    return 0
+  }
+  const start = new Date(date)
+  const months = (now.getFullYear() - start.getFullYear()) * 12 + now.getMonth() - start.getMonth()
+  return Math.max(0, now.getDate() < start.getDate() ? months - 1 : months)
+}
+
+export const fetchAdvancementCriteria = async (activeOnly = true): Promise<AdvancementCriteria[]> => {
+  let query = supabase.from("advancement_criteria").select("*").is("deleted_at", null).order("min_staffed")
+  if (activeOnly) {
+    query = query.eq("is_active", true)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    console.error("[v0] Database error fetching advancement criteria:", error)
+    throw error
+  }
+
+  return data || []
+}
+
+const fetchRequirementNames = async (criteria: AdvancementCriteria[]): Promise<RequirementNames> => {
+  const roleTypeIds = [...new Set(criteria.flatMap((c) => c.role_type_requirements.map((r) => r.role_type_id)))]
+  const eventTypeIds = [...new Set(criteria.flatMap((c) => c.training_requirements.map((r) => r.event_type_id)))]
+
+  const [roleTypes, eventTypes] = await Promise.all([
+    roleTypeIds.length
+      ? supabase.from("nwta_role_types").select("id, name").in("id", roleTypeIds)
+      : Promise.resolve({ data: [], error: null }),
+    eventTypeIds.length
+      ? supabase.from("event_types").select("id, name").in("id", eventTypeIds)
+      : Promise.resolve({ data: [], error: null }),
+  ])
+
+  if (roleTypes.error || eventTypes.error) {
+    const error = roleTypes.error || eventTypes.error
+    console.error("[v0] Database error fetching advancement requirement names:", error)
+    throw error
+  }
+
+  return {
+    role_types: new Map((roleTypes.data || []).map((row: { id: string; name: string }) => [row.id, row.name])),
+    event_types: new Map((eventTypes.data || []).map((row: { id: string; name: string }) => [row.id, row.name])),
+  }
+}
+
+const fetchWarriorRecords = async (
+  warriors: AdvancementWarrior[],
+  now: Date,
+): Promise<Map<string, WarriorRecord>> => {
+  const warriorIds = new Set(warriors.map((warrior) => warrior.id))
+  const trainingIds = [...new Set(warriors.flatMap((warrior) => warrior.training_events || []))]
+
+  let rolesQuery = supabase
+    .from("nwta_roles")
+    .select("nwta_event_id, role_type_id, lead_warrior_id, warriors")
+    .eq("is_active", true)
+    .is("deleted_at", null)
+
+  if (warriors.length === 1) {
+    const id = warriors[0].id
+    rolesQuery = rolesQuery.or(`lead_warrior_id.eq.${id},warriors.cs.${JSON.stringify([id])}`)
+  }
+
+  const [rolesResult, trainingsResult] = await Promise.all([
+    rolesQuery,
+    trainingIds.length
+      ? supabase.from("events").select("id, event_type_id").in("id", trainingIds)
+      : Promise.resolve({ data: [], error: null }),
+  ])
+
+  if (rolesResult.error || trainingsResult.error) {
+    const error = rolesResult.error || trainingsResult.error
+    console.error("[v0] Database error fetching advancement records:", error)
+    throw error
+  }
+
+  const trainingTypes = new Map(
+    (trainingsResult.data || []).map((event: { id: string; event_type_id: string | null }) => [
+      event.id,
+      event.event_type_id,
+    ]),
+  )
+  const roles = (rolesResult.data || []).filter(
+    (role: any) =>
+      role.nwta_event_id &&
+      ((role.lead_warrior_id && warriorIds.has(role.lead_warrior_id)) ||
+        (role.warriors || []).some((id: string) => warriorIds.has(id))),
+  )
+
+  const records = new Map<string, WarriorRecord>()
+
+  for (const warrior of warriors) {
+    const held = roles.filter(
+      (role: any) => role.lead_warrior_id === warrior.id || (role.warriors || []).includes(warrior.id),
+    )
+    const led = held.filter((role: any) => role.lead_warrior_id === warrior.id)
+
+    const roleTypeEvents = new Map<string, Set<string>>()
+    for (const role of held) {
+      if (role.role_type_id) {
+        const events = roleTypeEvents.get(role.role_type_id) || new Set<string>()
+        events.add(role.nwta_event_id)
+        roleTypeEvents.set(role.role_type_id, events)
+      }
+    }
+
+    const trainings = new Map<string, number>()
+    for (const eventId of new Set(warrior.training_events || [])) {
+      const eventTypeId = trainingTypes.get(eventId)
+      if (eventTypeId) {
+        trainings.set(eventTypeId, (trainings.get(eventTypeId) || 0) + 1)
+      }
+    }
+
+    records.set(warrior.id, {
+      staffed: new Set([...(warrior.staffed_events || []), ...held.map((role: any) => role.nwta_event_id)]).size,
+      lead: new Set([...(warrior.lead_events || []), ...led.map((role: any) => role.nwta_event_id)]).size,
+      months: monthsSince(warrior.initiation_on, now),
+      role_types: new Map([...roleTypeEvents.entries()].map(([id, events]) => [id, events.size])),
+      trainings,
+    })
+  }
+
+  return records
+}
+
+const evaluateCriteria = (
+  criteria: AdvancementCriteria,
+  record: WarriorRecord,
+  names: RequirementNames,
+): AdvancementProgress => {
+  const requirement = (key: string, label: string, required: number, actual: number): RequirementProgress => ({
+    key,
+    label,
+    required,
+    actual,
+    met: actual >= required,
+  })
+
+  const requirements: RequirementProgress[] = [
+    ...(criteria.min_staffed > 0 ? [requirement("staffed", "NWTAs staffed", criteria.min_staffed, record.staffed)] : []),
+    ...criteria.role_type_requirements.map((r) =>
+      requirement(
+        `role_type:${r.role_type_id}`,
+        `NWTAs staffed as ${names.role_types.get(r.role_type_id) || "an unknown role"}`,
+        r.count,
+        record.role_types.get(r.role_type_id) || 0,
+      ),
+    ),
+    ...(criteria.min_lead > 0 ? [requirement("lead", "Lead assignments", criteria.min_lead, record.lead)] : []),
+    ...criteria.training_requirements.map((r) =>
+      requirement(
+        `training:${r.event_type_id}`,
+        `${names.event_types.get(r.event_type_id) || "Unknown"} trainings`,
+        r.count,
+        record.trainings.get(r.event_type_id) || 0,
+      ),
+    ),
+    ...(criteria.min_months_initiated > 0
+      ? [requirement("months", "Months since initiation", criteria.min_months_initiated, record.months)]
+      : []),
+  ]
+
+  return {
+    criteria_id: criteria.id,
+    status: criteria.status,
+    from_status: criteria.from_status,
+    summary: criteria.summary,
+    eligible: requirements.every((r) => r.met),
+    requirements,
+  }
+}
+
+const buildAdvancements = async (
+  warriors: AdvancementWarrior[],
+  criteria: AdvancementCriteria[],
+  now: Date,
+): Promise<WarriorAdvancement[]> => {
+  const [records, names] = await Promise.all([fetchWarriorRecords(warriors, now), fetchRequirementNames(criteria)])
+
+  return warriors.map((warrior) => {
+    const record = records.get(warrior.id) as WarriorRecord
+    const ladder = criteria.map((c) => evaluateCriteria(c, record, names))
+
+    return {
+      warrior_id: warrior.id,
+      first_name: warrior.people.first_name,
+      last_name: warrior.people.last_name,
+      status: warrior.status,
+      initiation_on: warrior.initiation_on,
+      next: ladder.find((progress) => progress.from_status === warrior.status) || null,
+      ladder,
+    }
+  })
+}
+
+export const fetchWarriorAdvancement = async (warriorId: string, now = new Date()): Promise<WarriorAdvancement | null> => {
+  const { data: warrior, error } = await supabase.from("warriors").select(WARRIOR_COLUMNS).eq("id", warriorId).maybeSingle()
+
+  if (error) {
+    console.error(`[v0] Database error fetching warrior ${warriorId} for advancement:`, error)
+    throw error
+  }
+
+  if (!warrior) {
+    return null
+  }
+
+  const criteria = await fetchAdvancementCriteria()
+  const [advancement] = await buildAdvancements([warrior as unknown as AdvancementWarrior], criteria, now)
+  return advancement
+}
+
+// Active warriors, within the caller's area scope, who meet every requirement for their next status
+export const fetchEligibleWarriors = async (scope: AreaScope | null, now = new Date()): Promise<WarriorAdvancement[]> => {
+  const criteria = await fetchAdvancementCriteria()
+  const fromStatuses = [...new Set(criteria.map((c) => c.from_status))]
+
+  if (fromStatuses.length === 0) {
+    return []
+  }
+
+  let query = supabase
+    .from("warriors")
+    .select(WARRIOR_COLUMNS)
+    .eq("is_active", true)
+    .is("deleted_at", null)
+    .in("status", fromStatuses)
+
+  if (scope) {
+    query = query.or(areaScopeFilter(scope))
+  }
+
+  const { data: warriors, error } = await query
+
+  if (error) {
+    console.error("[v0] Database error fetching warriors for advancement:", error)
+    throw error
+  }
+
+  const advancements = await buildAdvancements((warriors || []) as unknown as AdvancementWarrior[], criteria, now)
+
+  return advancements
+    .filter((advancement) => advancement.next?.eligible)
+    .sort((a, b) => `${a.last_name} ${a.first_name}`.localeCompare(`${b.last_name} ${b.first_name}`))
+}
+
+/*
+ * Records a status change on the warrior's log. `progress` is the warrior's standing against the
+ * criteria for the new status at the time, kept so the decision can be reviewed later.
+ */
+export const recordStatusChange = async (
+  auth: AuthContext,
+  warrior: { log_id?: string | null; status?: string | null },
+  status: string,
+  justification: string,
+  progress: AdvancementProgress | null = null,
+) =>
+  recordActivity(auth, warrior.log_id, {
+    name: "Status Changed",
+    summary: `Status changed from ${warrior.status || "none"} to ${status}`,
+    details: justification,
+    data: {
+      from: warrior.status ?? null,
+      to: status,
+      justification,
+      criteria_id: progress?.criteria_id ?? null,
+      eligible: progress?.eligible ?? null,
+      requirements: progress?.requirements ?? null,
+    },
+  })
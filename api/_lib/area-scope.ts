@@ -0,0 +1,286 @@
+import type { VercelResponse } from "@vercel/node"
+import { supabase } from "./supabase.js"
+import { hasAccessLevel, type AuthContext } from "./auth.js"
+
+/*
+ * Area-scoped administration.
+ *
+ * Area admins (area_admins mapping) may only see and edit records tied to one of their areas,
+ * either directly through area_id or through a community_id belonging to one of those areas.
+ * National admins are unrestricted, which is represented by a null scope throughout.
+ *
+ * List handlers apply the scope with .or(areaScopeFilter(scope)); single-record handlers check
+ * the existing row (and the incoming area_id/community_id on writes) with isInAreaScope().
+ * Routes that are readable by the public take a `managed=true` query parameter so the admin
+ * pages can ask for only the records the caller administers.
+ */
+
+export interface AreaScope {
+  area_ids: string[]
+  community_ids: string[]
+}
+
+interface AreaScopedRecord {
+  area_id?: string | null
+  community_id?: string | null
+}
+
+export const getAreaScope = async (auth: AuthContext): Promise<AreaScope | null> => {
+  if (auth.is_national_admin) {
+    return null
+  }
+
+  if (auth.admin_area_ids.length === 0) {
+    return { area_ids: [], community_ids: [] }
+  }
+
+  const { data, error } = await supabase.from("communities").select("id").in("area_id", auth.admin_area_ids)
+
+  if (error) {
+    console.error("[v0] Database error resolving area scope:", error)
+    throw error
+  }
+
+  return {
+    area_ids: auth.admin_area_ids,
+    community_ids: (data || []).map((community: { id: string }) => community.id),
+  }
+}
+
+/*
+ * The scope to apply to a list query, or null when nothing should be filtered. Handlers whose
+ * reads are restricted to admins always pass managed=true; public routes pass the query flag.
+ */
+export const getListScope = async (auth: AuthContext, managed: boolean): Promise<AreaScope | null> => {
+  if (!managed || !hasAccessLevel(auth, "area_admin")) {
+    return null
+  }
+  return getAreaScope(auth)
+}
+
+export const areaScopeFilter = (scope: AreaScope, areaColumn = "area_id", communityColumn = "community_id"): string => {
+  // An area admin always has at least one area, but guard against an empty in.() list anyway
+  const filters = [`${areaColumn}.in.(${scope.area_ids.length > 0 ? scope.area_ids.join(",") : "null"})`]
+  if (scope.community_ids.length > 0) {
+    filters.push(`${communityColumn}.in.(${scope.community_ids.join(",")})`)
+  }
+  return filters.join(",")
+}
+
+export const isInAreaScope = (scope: AreaScope | null, record: AreaScopedRecord | null | undefined): boolean => {
+  if (!scope) {
+    return true
+  }
+  if (!record) {
+    return false
+  }
+  return (
+    (!!record.area_id && scope.area_ids.includes(record.area_id)) ||
+    (!!record.community_id && scope.community_ids.includes(record.community_id))
+  )
+}
+
+/*
+ * Writes must keep a record inside the caller's scope: a partial update that doesn't touch
+ * area_id/community_id is checked against the existing row's values.
+ */
+export const mergeScopedFields = (existing: AreaScopedRecord | null, update: AreaScopedRecord): AreaScopedRecord => ({
+  area_id: update.area_id !== undefined ? update.area_id : existing?.area_id,
+  community_id: update.community_id !== undefined ? update.community_id : existing?.community_id,
+})
+
+export const fetchAreaScopedRecord = async (table: string, id: string): Promise<AreaScopedRecord | null> => {
+  const { data, error } = await supabase.from(table).select("area_id, community_id").eq("id", id).maybeSingle()
+
+  if (error) {
+    console.error(`[v0] Database error checking area scope on ${table}:`, error)
+    throw error
+  }
+
+  return data
+}
+
+/*
+ * Checks a single-record read or write against the caller's scope. Pass id = null for creates.
+ * Returns false after sending a 403 when the record (or the area/community it is being moved to)
+ * is outside the caller's areas. Missing records are let through so the handler can 404 as usual.
+ */
+export const authorizeAreaScope = async (
+  res: VercelResponse,
+  auth: AuthContext,
+  table: string,
+  id: string | null,
+  update: AreaScopedRecord = {},
+): Promise<boolean> => {
+  const scope = await getAreaScope(auth)
+  if (!scope) {
+    return true
+  }
+
+  const existing = id ? await fetchAreaScopedRecord(table, id) : null
+  if (id && !existing) {
+    return true
+  }
+
+  if (existing && !isInAreaScope(scope, existing)) {
+    sendOutOfScope(res)
+    return false
+  }
+
+  if (!isInAreaScope(scope, mergeScopedFields(existing, update))) {
+    sendOutOfScope(res)
+    return false
+  }
+
+  return true
+}
+
+/*
+ * Areas and communities are scoped by area alone: an area admin may edit their own areas and the
+ * communities in them, but not move a community into an area they don't administer.
+ */
+export const authorizeAreaIds = (res: VercelResponse, auth: AuthContext, areaIds: Array<string | null | undefined>): boolean => {
+  if (auth.is_national_admin) {
+    return true
+  }
+
+  if (!areaIds.every((areaId) => !!areaId && auth.admin_area_ids.includes(areaId))) {
+    sendOutOfScope(res)
+    return false
+  }
+
+  return true
+}
+
+export const authorizeCommunity = async (
+  res: VercelResponse,
+  auth: AuthContext,
+  id: string | null,
+  update: { area_id?: string | null } = {},
+): Promise<boolean> => {
+  if (auth.is_national_admin) {
+    return true
+  }
+
+  const areaIds: Array<string | null | undefined> = []
+
+  if (id) {
+    const { data: existing, error } = await supabase.from("communities").select("area_id").eq("id", id).maybeSingle()
+
+    if (error) {
+      console.error("[v0] Database error checking area scope on communities:", error)
+      throw error
+    }
+
+    if (!existing) {
+      return true
+    }
+    areaIds.push(existing.area_id)
+  }
+
+  if (!id || update.area_id !== undefined) {
+    areaIds.push(update.area_id)
+  }
+
+  return authorizeAreaIds(res, auth, areaIds)
+}
+
+/*
+ * Transactions carry no area of their own; they belong to whichever event owns their log_id, or
+ * to the registrant whose payments they record (registrants.transaction_log) and so to that
+ * registrant's event.
+ */
+export const getScopedTransactionLogIds = async (scope: AreaScope): Promise<string[]> => {
+  const { data, error } = await supabase.from("events").select("id, transaction_log_id").or(areaScopeFilter(scope))
+
+  if (error) {
+    console.error("[v0] Database error resolving scoped transaction logs:", error)
+    throw error
+  }
+
+  const events = (data || []) as { id: string; transaction_log_id: string | null }[]
+  let registrantLogIds: Array<string | null> = []
+
+  if (events.length > 0) {
+    const { data: registrants, error: registrantsError } = await supabase
+      .from("registrants")
+      .select("transaction_log")
+      .in("event_id", events.map((event) => event.id))
+
+    if (registrantsError) {
+      console.error("[v0] Database error resolving scoped registrant transaction logs:", registrantsError)
+      throw registrantsError
+    }
+    registrantLogIds = (registrants || []).map((registrant: { transaction_log: string | null }) => registrant.transaction_log)
+  }
+
+  return [...events.map((event) => event.transaction_log_id), ...registrantLogIds].filter(
+    (logId): logId is string => !!logId,
+  )
+}
+
+const isLogInScope = (scopedLogIds: string[], logIds: Array<string | null | undefined>): boolean =>
+  logIds.every((logId) => !!logId && scopedLogIds.includes(logId))
+
+/*
+ * Checks that every given transaction log belongs to an event in the caller's areas, sending a
+ * 403 and returning false when one doesn't.
+ */
+export const authorizeTransactionLogs = async (
+  res: VercelResponse,
+  auth: AuthContext,
+  logIds: Array<string | null | undefined>,
+): Promise<boolean> => {
+  const scope = await getAreaScope(auth)
+  if (!scope) {
+    return true
+  }
+
+  if (!isLogInScope(await getScopedTransactionLogIds(scope), logIds)) {
+    sendOutOfScope(res)
+    return false
+  }
+
+  return true
+}
+
+/*
+ * Single-transaction variant: checks the log the transaction currently belongs to, plus the log it
+ * is being moved to on updates. Missing transactions are let through so the handler can 404.
+ */
+export const authorizeTransaction = async (
+  res: VercelResponse,
+  auth: AuthContext,
+  id: string,
+  update: { log_id?: string | null } = {},
+): Promise<boolean> => {
+  const scope = await getAreaScope(auth)
+  if (!scope) {
+    return true
+  }
+
+  const { data: existing, error } = await supabase.from("transaction_logs").select("log_id").eq("id", id).maybeSingle()
+
+  if (error) {
+    console.error("[v0] Database error checking area scope on transaction_logs:", error)
+    throw error
+  }
+
+  if (!existing) {
+    return true
+  }
+
+  const logIds = update.log_id !== undefined ? [existing.log_id, update.log_id] : [existing.log_id]
+  if (!isLogInScope(await getScopedTransactionLogIds(scope), logIds)) {
+    sendOutOfScope(res)
+    return false
+  }
+
+  return true
+}
+
+export const sendOutOfScope = (res: VercelResponse) =>
+  res.status(403).json({
+    success: false,
+    error: "This record is outside the areas you administer",
+  })
@@ -0,0 +1,263 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node"
+import { createLocalJWKSet, createRemoteJWKSet, jwtVerify, type JWTPayload, type JWTVerifyGetKey } from "jose"
+import { supabase, isSupabaseConfigured } from "./supabase.js"
+
+/*
+ * Request guard shared by every handler under /api.
+ *
+ * A handler declares the minimum access level needed for each HTTP method it supports, e.g.
+ *
+ *   const auth = await authorizeRequest(req, res, { GET: "public", POST: "area_admin" })
+ *   if (!auth) return
+ *
+ * authorizeRequest() verifies the Auth0 bearer token (if any), resolves the caller to an
+ * emma_users row, works out their access level and either returns the resulting AuthContext
+ * or writes a 401/403 response and returns null.
+ *
+ * Access levels, lowest to highest:
+ *   public         - no token required
+ *   authenticated  - any valid Auth0 token, even without an emma_users row (the /join flow)
+ *   warrior        - an approved emma_users row
+ *   area_admin     - listed in area_admins for at least one area
+ *   national_admin - emma_users.is_national_admin
+ *
+ * Tokens are verified against the Auth0 tenant's JWKS. For local development and testing set
+ * AUTH0_JWKS to a JSON Web Key Set (see scripts/create-dev-token.ts) and tokens signed with the
+ * matching private key will be accepted instead.
+ */
+
+export const ACCESS_LEVELS = ["public", "authenticated", "warrior", "area_admin", "national_admin"] as const
+export type AccessLevel = (typeof ACCESS_LEVELS)[number]
+
+export type RoutePolicy = Partial<Record<"GET" | "POST" | "PUT" | "PATCH" | "DELETE", AccessLevel>>
+
+export interface AuthContext {
+  level: AccessLevel
+  claims: JWTPayload | null
+  user_id: string | null // emma_users.id
+  person_id: string | null // emma_users.person->>id
+  email: string | null
+  admin_area_ids: string[]
+  is_national_admin: boolean
+}
+
+export class AuthError extends Error {
+  status: number
+
+  constructor(status: number, message: string) {
+    super(message)
+    this.name = "AuthError"
+    this.status = status
+  }
+}
+
+const auth0Domain = process.env.AUTH0_DOMAIN || process.env.VITE_AUTH0_DOMAIN
+const auth0Audience = process.env.AUTH0_AUDIENCE
+const auth0Issuer = process.env.AUTH0_ISSUER || (auth0Domain ? `https://${auth0Domain}/` : undefined)
+
+let jwks: JWTVerifyGetKey | null = null
+
+const getJwks = (): JWTVerifyGetKey => {
+  if (jwks) {
+    return jwks
+  }
+
+  if (process.env.AUTH0_JWKS) {
+    jwks = createLocalJWKSet(JSON.parse(process.env.AUTH0_JWKS))
+  } else if (auth0Domain && auth0Audience) {
+    // Every API in the Auth0 tenant is signed by the same keys, so the audience is what ties a token
+    // to this one
+    jwks = createRemoteJWKSet(new URL(`https://${auth0Domain}/.well-known/jwks.json`))
+  } else {
+    throw new AuthError(500, "Authentication is not configured")
+  }
+
+  return jwks
+}
+
+const anonymousContext = (): AuthContext => ({
+  level: "public",
+  claims: null,
+  user_id: null,
+  person_id: null,
+  email: null,
+  admin_area_ids: [],
+  is_national_admin: false,
+})
+
+// Acts for scheduled jobs (Vercel Cron), which have no user; activity they record has no by_id
+export const systemContext = (): AuthContext => ({
+  ...anonymousContext(),
+  level: "national_admin",
+  is_national_admin: true,
+})
+
+// Vercel Cron calls scheduled handlers with "Authorization: Bearer $CRON_SECRET"; without the secret nothing is a cron call
+export const isCronRequest = (req: VercelRequest): boolean =>
+  !!process.env.CRON_SECRET && req.headers.authorization === `Bearer ${process.env.CRON_SECRET}`
+
+export const hasAccessLevel = (auth: AuthContext, required: AccessLevel): boolean =>
+  ACCESS_LEVELS.indexOf(auth.level) >= ACCESS_LEVELS.indexOf(required)
+
+const getBearerToken = (req: VercelRequest): string | null => {
+  const header = req.headers.authorization
+  if (!header || typeof header !== "string") {
+    return null
+  }
+
+  const [scheme, token] = header.split(" ")
+  if (scheme?.toLowerCase() !== "bearer" || !token) {
+    return null
+  }
+
+  return token
+}
+
+export const verifyAccessToken = async (token: string): Promise<JWTPayload> => {
+  try {
+    const { payload } = await jwtVerify(token, getJwks(), {
+      issuer: auth0Issuer,
+      audience: auth0Audience,
+    })
+    return payload
+  } catch (error) {
+    if (error instanceof AuthError) {
+      throw error
+    }
+    console.error("[v0] Token verification failed:", error)
+    throw new AuthError(401, "Invalid or expired access token")
+  }
+}
+
+/*
+ * Resolves the verified token to an emma_users row (matched on auth0_user->>sub) and collects
+ * the areas the linked person administers.
+ */
+const resolveAuthContext = async (claims: JWTPayload): Promise<AuthContext> => {
+  const context: AuthContext = {
+    ...anonymousContext(),
+    level: "authenticated",
+    claims,
+    email: typeof claims.email === "string" ? claims.email : null,
+  }
+
+  if (!claims.sub || !isSupabaseConfigured) {
+    return context
+  }
+
+  const { data: user, error: userError } = await supabase
+    .from("emma_users")
+    .select("id, person, auth0_user, approved_at, is_national_admin")
+    .eq("auth0_user->>sub", claims.sub)
+    .is("deleted_at", null)
+    .maybeSingle()
+
+  if (userError) {
+    console.error("[v0] Database error resolving user:", userError)
+    throw new AuthError(500, "Failed to resolve user")
+  }
+
+  if (!user) {
+    return context
+  }
+
+  context.user_id = user.id
+  context.person_id = user.person?.id || null
+  context.email = context.email || user.auth0_user?.email || null
+
+  if (!user.approved_at) {
+    return context
+  }
+
+  context.level = "warrior"
+
+  if (context.person_id) {
+    const { data: adminRows, error: adminError } = await supabase
+      .from("area_admins")
+      .select("area_id")
+      .eq("person_id", context.person_id)
+
+    if (adminError) {
+      console.error("[v0] Database error resolving area admins:", adminError)
+      throw new AuthError(500, "Failed to resolve user")
+    }
+
+    context.admin_area_ids = (adminRows || []).map((row: { area_id: string }) => row.area_id)
+    if (context.admin_area_ids.length > 0) {
+      context.level = "area_admin"
+    }
+  }
+
+  if (user.is_national_admin) {
+    context.is_national_admin = true
+    context.level = "national_admin"
+  }
+
+  return context
+}
+
+export const authenticate = async (req: VercelRequest): Promise<AuthContext> => {
+  const token = getBearerToken(req)
+  if (!token) {
+    return anonymousContext()
+  }
+
+  const claims = await verifyAccessToken(token)
+  return resolveAuthContext(claims)
+}
+
+export async function authorizeRequest(
+  req: VercelRequest,
+  res: VercelResponse,
+  policy: RoutePolicy,
+): Promise<AuthContext | null> {
+  const method = (req.method || "GET").toUpperCase() as keyof RoutePolicy
+  // Methods not named in the policy are limited to national admins so nothing is left open by omission.
+  const required = policy[method] || "national_admin"
+
+  try {
+    let auth: AuthContext
+    try {
+      auth = await authenticate(req)
+    } catch (error) {
+      // A stale token shouldn't lock anyone out of public routes, treat the caller as anonymous
+      if (required === "public" && error instanceof AuthError && error.status === 401) {
+        auth = anonymousContext()
+      } else {
+        throw error
+      }
+    }
+
+    if (hasAccessLevel(auth, required)) {
+      return auth
+    }
+
+    if (auth.level === "public") {
+      res.status(401).json({
+        success: false,
+        error: "Authentication required",
+      })
+    } else {
+      res.status(403).json({
+        success: false,
+        error: "Insufficient permissions",
+      })
+    }
+    return null
+  } catch (error) {
+    if (error instanceof AuthError) {
+      res.status(error.status).json({
+        success: false,
+        error: error.message,
+      })
+      return null
+    }
+
+    console.error("[v0] Authorization error:", error)
+    res.status(500).json({
+      success: false,
+      error: "Internal server error",
+    })
+    return null
+  }
+}
@@ -0,0 +1,279 @@
+import { z } from "zod"
+import { supabase } from "./supabase.js"
+import { fromWallClock } from "./timezones.js"
+import { sessionSpans } from "./session-spans.js"
+import { DEFAULT_MEETING_MINUTES, meetingTimezone } from "./meeting-schedule.js"
+import type { CalendarEntry, CalendarFeed } from "./ical.js"
+
+/*
+ * Data behind the iCalendar feeds: published events (optionally one area, community or event type),
+ * one I-Group's meetings, and a person's own commitments. Each entry carries the venue's address as
+ * its LOCATION and the venue's timezone, which ical.ts turns into TZIDs.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const MINUTE_MS = 60 * 1000
+
+// Feeds keep recent history so a weekend just past doesn't vanish from calendars overnight
+const FEED_HISTORY_DAYS = 90
+const FEED_LIMIT = 500
+
+const UID_DOMAIN = "emma"
+
+const VENUE_COLUMNS = `
+  venue:venues(
+    id,
+    name,
+    timezone,
+    physical_address:addresses!physical_address_id(address_1, address_2, city, state, postal_code, country)
+  )`
+
+const FEED_EVENT_COLUMNS = `
+  id,
+  name,
+  description,
+  start_at,
+  end_at,
+  participant_schedule,
+  staff_schedule,
+  primary_leader_id,
+  leaders,
+  committed_staff,
+  committed_participants,
+  is_published,
+  updated_at,
+  event_type:event_types!event_type_id(name, code),
+  area:areas(name),
+  community:communities(name),
+  ${VENUE_COLUMNS}`
+
+export const EventFeedQuerySchema = z.object({
+  area_id: z.string().uuid().optional(),
+  community_id: z.string().uuid().optional(),
+  event_type_id: z.string().uuid().optional(),
+})
+
+export const PersonalFeedQuerySchema = z.object({
+  token: z.string().min(20, "A calendar token is required").max(100),
+})
+
+interface FeedVenue {
+  name: string | null
+  timezone: string | null
+  physical_address?: {
+    address_1: string | null
+    address_2: string | null
+    city: string | null
+    state: string | null
+    postal_code: string | null
+    country: string | null
+  } | null
+}
+
+type Role = "staff" | "leader" | "participant"
+
+const ROLE_LABELS: Record<Role, string> = {
+  staff: "Staff",
+  leader: "Leader",
+  participant: "Participant",
+}
+
+// "Camp Hope, 12 Lake Rd, Salem, OR 97301"
+export const venueLocation = (venue: FeedVenue | null | undefined): string | null => {
+  if (!venue) {
+    return null
+  }
+  const address = venue.physical_address
+  const cityLine = address ? [address.city, [address.state, address.postal_code].filter(Boolean).join(" ")] : []
+  const parts = [
+    venue.name,
+    address?.address_1,
+    address?.address_2,
+    ...cityLine,
+    address?.country && address.country !== "United States" ? address.country : null,
+  ]
+  return parts.filter(Boolean).join(", ") || null
+}
+
+/*
+ * One entry per session of the schedule the person keeps: staff and leaders arrive on the staff
+ * schedule, everyone else on the participant one. Events without sessions use start_at/end_at.
+ */
+const eventEntries = (event: any, role: Role | null): CalendarEntry[] => {
+  const staffSide = role === "staff" || role === "leader"
+  let times = sessionSpans(staffSide ? event.staff_schedule : event.participant_schedule)
+  if (times.length === 0 && staffSide) {
+    times = sessionSpans(event.participant_schedule)
+  }
+  if (times.length === 0 && event.start_at) {
+    const start = new Date(event.start_at).getTime()
+    times = [{ start, end: event.end_at ? new Date(event.end_at).getTime() : start }]
+  }
+
+  const summary = role && role !== "participant" ? `${event.name} (${ROLE_LABELS[role]})` : event.name
+  const categories = [event.event_type?.name, event.area?.name].filter(Boolean) as string[]
+
+  return times.map((time, index) => ({
+    uid: `${event.id}-${role || "event"}-${index}@${UID_DOMAIN}`,
+    summary: times.length > 1 ? `${summary} – session ${index + 1} of ${times.length}` : summary,
+    description: event.description,
+    location: venueLocation(event.venue),
+    start: time.start,
+    end: time.end,
+    timeZone: event.venue?.timezone || null,
+    status: event.is_published ? "CONFIRMED" : "TENTATIVE",
+    categories,
+    updatedAt: event.updated_at,
+  }))
+}
+
+const feedCutoff = () => new Date(Date.now() - FEED_HISTORY_DAYS * DAY_MS).toISOString()
+
+// The zone most of the entries are in, for X-WR-TIMEZONE
+const commonZone = (entries: CalendarEntry[]) => {
+  const counts = new Map<string, number>()
+  for (const entry of entries) {
+    if (entry.timeZone) {
+      counts.set(entry.timeZone, (counts.get(entry.timeZone) || 0) + 1)
+    }
+  }
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] || null
+}
+
+export const buildEventsFeed = async (filters: z.infer<typeof EventFeedQuerySchema>): Promise<CalendarFeed> => {
+  let query = supabase
+    .from("events")
+    .select(FEED_EVENT_COLUMNS)
+    .eq("is_published", true)
+    .eq("is_active", true)
+    .is("deleted_at", null)
+    .gte("end_at", feedCutoff())
+    .order("start_at", { ascending: true })
+    .limit(FEED_LIMIT)
+
+  if (filters.area_id) {
+    query = query.eq("area_id", filters.area_id)
+  }
+  if (filters.community_id) {
+    query = query.eq("community_id", filters.community_id)
+  }
+  if (filters.event_type_id) {
+    query = query.eq("event_type_id", filters.event_type_id)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    console.error("[v0] Database error fetching events for the calendar feed:", error)
+    throw error
+  }
+
+  const events = data || []
+  const entries = events.flatMap((event) => eventEntries(event, null))
+  const first = events[0] as any
+  const scope = [
+    filters.event_type_id ? first?.event_type?.name : null,
+    filters.community_id ? first?.community?.name : filters.area_id ? first?.area?.name : null,
+  ]
+    .filter(Boolean)
+    .join(", ")
+
+  return {
+    name: scope ? `MKP Events – ${scope}` : "MKP Events",
+    description: "Published ManKind Project events",
+    timeZone: commonZone(entries),
+    entries,
+  }
+}
+
+/*
+ * Every event the person has committed to, as staff, leader or participant. A person who is both a
+ * leader and on the staff roster only gets the leader entries.
+ */
+export const buildPersonalFeed = async (personId: string, name: string): Promise<CalendarFeed> => {
+  const member = JSON.stringify([personId])
+  const { data, error } = await supabase
+    .from("events")
+    .select(FEED_EVENT_COLUMNS)
+    .eq("is_active", true)
+    .is("deleted_at", null)
+    .or(
+      `primary_leader_id.eq.${personId},leaders.cs.${member},committed_staff.cs.${member},committed_participants.cs.${member}`,
+    )
+    .gte("end_at", feedCutoff())
+    .order("start_at", { ascending: true })
+    .limit(FEED_LIMIT)
+
+  if (error) {
+    console.error(`[v0] Database error fetching events for person ${personId}'s calendar feed:`, error)
+    throw error
+  }
+
+  const entries = (data || []).flatMap((event: any) => {
+    const role: Role =
+      event.primary_leader_id === personId || (event.leaders || []).includes(personId)
+        ? "leader"
+        : (event.committed_staff || []).includes(personId)
+          ? "staff"
+          : "participant"
+    return eventEntries(event, role)
+  })
+
+  return {
+    name: `${name} – MKP Commitments`,
+    description: "Events you are leading, staffing or attending",
+    timeZone: commonZone(entries),
+    entries,
+  }
+}
+
+const wallFromLocal = (value: string) => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::(\d{2}))?/.exec(value)
+  return match ? Date.UTC(+match[1], +match[2] - 1, +match[3], +match[4], +match[5], +(match[6] || 0)) : null
+}
+
+/*
+ * An I-Group's meetings: one recurring entry when the group has an RRULE (calendar apps expand it
+ * themselves, skipped dates and all), otherwise its listed meeting times.
+ */
+export const iGroupFeedEntries = (group: any, venue: FeedVenue | null, link: string): CalendarEntry[] => {
+  const timeZone = meetingTimezone(group, venue?.timezone)
+  const notes = [
+    group.schedule_description,
+    group.is_requiring_contact_before_visiting ? "Please contact the group before visiting." : null,
+    link,
+  ]
+  const base = {
+    summary: `${group.name} I-Group`,
+    description: notes.filter(Boolean).join("\n\n"),
+    location: venueLocation(venue),
+    url: link,
+    timeZone,
+    status: "CONFIRMED" as const,
+    updatedAt: group.updated_at,
+  }
+
+  const anchor = group.schedule_rrule && group.schedule_dtstart ? wallFromLocal(group.schedule_dtstart) : null
+  if (anchor !== null) {
+    const duration = (group.schedule_duration_minutes || DEFAULT_MEETING_MINUTES) * MINUTE_MS
+    // Without a zone the rule is a floating local time, which calendar apps keep at 7pm wherever they are
+    return [
+      {
+        ...base,
+        uid: `${group.id}-meetings@${UID_DOMAIN}`,
+        start: timeZone ? fromWallClock(timeZone, anchor) : anchor,
+        end: timeZone ? fromWallClock(timeZone, anchor + duration) : anchor + duration,
+        floating: !timeZone,
+        rrule: group.schedule_rrule,
+        exdates: Array.isArray(group.schedule_exdates) ? group.schedule_exdates : [],
+      },
+    ]
+  }
+
+  return sessionSpans(group.schedule_events).map((time, index) => ({
+    ...base,
+    uid: `${group.id}-meeting-${index}@${UID_DOMAIN}`,
+    start: time.start,
+    end: time.end,
+  }))
+}
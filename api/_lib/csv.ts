@@ -0,0 +1,35 @@
+import type { VercelResponse } from "@vercel/node"
+
+/*
+ * Minimal RFC 4180 CSV writer for report downloads. Cells holding commas, quotes or line breaks
+ * are quoted; null and undefined become empty cells. Text a spreadsheet would read as a formula
+ * (starting with =, +, -, @, tab or carriage return) is prefixed with a single quote; plain numbers
+ * such as negative amounts are left alone.
+ */
+
+export type CsvCell = string | number | boolean | null | undefined
+
+const escapeCell = (cell: CsvCell): string => {
+  if (cell === null || cell === undefined) {
+    return ""
+  }
+  let text = String(cell)
+  if (typeof cell === "string" && /^[=+\-@\t\r]/.test(text) && !/^-?\d+(\.\d+)?$/.test(text)) {
+    text = `'${text}`
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export const toCsv = (rows: CsvCell[][]): string => rows.map((row) => row.map(escapeCell).join(",")).join("\r\n") + "\r\n"
+
+// Amounts are stored in cents; reports show dollars
+export const centsToDollars = (cents: number): string => (cents / 100).toFixed(2)
+
+export const sendDownload = (res: VercelResponse, filename: string, contentType: string, body: string) => {
+  res.setHeader("Content-Type", contentType)
+  res.setHeader("Content-Disposition", `attachment; filename="${filename.replace(/[^\w.-]+/g, "-")}"`)
+  return res.status(200).send(body)
+}
+
+export const sendCsv = (res: VercelResponse, filename: string, rows: CsvCell[][]) =>
+  sendDownload(res, filename, "text/csv; charset=utf-8", toCsv(rows))
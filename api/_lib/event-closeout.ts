@@ -0,0 +1,355 @@
+import { supabase } from "./supabase.js"
+import type { AuthContext } from "./auth.js"
+import { recordActivity, recordRecordChange } from "./activity-log.js"
+import { removeUntouchedIntegrations, startIntegrations } from "./rookie-integration.js"
+import { markProspectsInitiated, revertProspectsInitiated } from "./prospect-funnel.js"
+import type { CloseoutPlan, EventCloseout, HistoryAddition, HistoryField } from "../../src/types/event-closeout"
+
+/*
+ * Event close-out.
+ *
+ * Closing an event copies its roster into the warriors' histories:
+ *
+ *   committed_participants        -> training_events  (not for NWTAs, whose participants are rookies)
+ *   committed_staff               -> staffed_events
+ *   primary_leader_id and leaders -> lead_events
+ *   nwta_events.mos               -> mos_events
+ *
+ * and, for an NWTA, turns every nwta_events.rookies entry into a warriors row (status "rookie",
+ * initiation_id/initiation_on from the event) or fills in the initiation fields of an existing
+ * warrior who had none. Those rookies are then put into the integration pipeline
+ * (see rookie-integration.ts), and any who came in as prospects move to the "initiated" stage of
+ * the enrollment funnel (prospect-funnel.ts). People on the roster without a warrior record are reported and skipped.
+ * Rookies still on waitlist_participants when the NWTA is closed never got a place, so they are left out.
+ *
+ * Only what is missing is added, so closing an event again after its roster changed just catches
+ * the histories up. Everything a close-out changed is kept in events.closeout, and reopening the
+ * event undoes exactly that: rookie warriors it created are deleted again unless they have since
+ * gained history of their own, in which case only their initiation fields are cleared.
+ */
+
+const HISTORY_FIELDS: HistoryField[] = ["training_events", "staffed_events", "lead_events", "mos_events"]
+
+const WARRIOR_COLUMNS = "id, log_id, initiation_id, initiation_on, " + HISTORY_FIELDS.join(", ")
+
+interface CloseoutEvent {
+  id: string
+  name: string
+  log_id: string | null
+  area_id: string | null
+  community_id: string | null
+  start_at: string | null
+  end_at: string | null
+  primary_leader_id: string | null
+  leaders: string[] | null
+  committed_staff: string[] | null
+  committed_participants: string[] | null
+  waitlist_participants: string[] | null
+  closed_at: string | null
+  closeout: EventCloseout | null
+}
+
+interface CloseoutNwta {
+  rookies: string[] | null
+  mos: string[] | null
+}
+
+interface HistoryWarrior {
+  id: string
+  log_id: string | null
+  initiation_id: string | null
+  initiation_on: string | null
+  training_events: string[] | null
+  staffed_events: string[] | null
+  lead_events: string[] | null
+  mos_events: string[] | null
+}
+
+export const fetchCloseoutEvent = async (
+  eventId: string,
+): Promise<{ event: CloseoutEvent; nwta: CloseoutNwta | null } | null> => {
+  const [eventResult, nwtaResult] = await Promise.all([
+    supabase
+      .from("events")
+      .select(
+        "id, name, log_id, area_id, community_id, start_at, end_at, primary_leader_id, leaders, committed_staff, committed_participants, waitlist_participants, closed_at, closeout",
+      )
+      .eq("id", eventId)
+      .maybeSingle(),
+    supabase.from("nwta_events").select("rookies, mos").eq("id", eventId).is("deleted_at", null).maybeSingle(),
+  ])
+
+  if (eventResult.error || nwtaResult.error) {
+    const error = eventResult.error || nwtaResult.error
+    console.error(`[v0] Database error fetching event ${eventId} for close-out:`, error)
+    throw error
+  }
+
+  if (!eventResult.data) {
+    return null
+  }
+
+  return { event: eventResult.data as CloseoutEvent, nwta: nwtaResult.data as CloseoutNwta | null }
+}
+
+const fetchWarriors = async (personIds: string[]): Promise<Map<string, HistoryWarrior>> => {
+  if (personIds.length === 0) {
+    return new Map()
+  }
+
+  const { data, error } = await supabase.from("warriors").select(WARRIOR_COLUMNS).in("id", personIds)
+
+  if (error) {
+    console.error("[v0] Database error fetching warriors for close-out:", error)
+    throw error
+  }
+
+  return new Map(((data || []) as unknown as HistoryWarrior[]).map((warrior) => [warrior.id, warrior]))
+}
+
+// Who belongs in which history field for this event
+const rosterHistory = (event: CloseoutEvent, nwta: CloseoutNwta | null): HistoryAddition[] => {
+  const entries: HistoryAddition[] = [
+    ...(nwta ? [] : (event.committed_participants || []).map((id) => ({ person_id: id, field: "training_events" as const }))),
+    ...(event.committed_staff || []).map((id) => ({ person_id: id, field: "staffed_events" as const })),
+    ...[event.primary_leader_id, ...(event.leaders || [])]
+      .filter((id): id is string => !!id)
+      .map((id) => ({ person_id: id, field: "lead_events" as const })),
+    ...(nwta?.mos || []).map((id) => ({ person_id: id, field: "mos_events" as const })),
+  ]
+
+  const seen = new Set<string>()
+  return entries.filter((entry) => {
+    const key = `${entry.person_id}:${entry.field}`
+    return seen.has(key) ? false : (seen.add(key), true)
+  })
+}
+
+const planFor = async (event: CloseoutEvent, nwta: CloseoutNwta | null) => {
+  const roster = rosterHistory(event, nwta)
+  const waitlisted = event.waitlist_participants || []
+  const rookies = [...new Set(nwta?.rookies || [])].filter((id) => !waitlisted.includes(id))
+  const warriors = await fetchWarriors([...new Set([...roster.map((entry) => entry.person_id), ...rookies])])
+
+  return {
+    warriors,
+    history: roster.filter((entry) => {
+      const warrior = warriors.get(entry.person_id)
+      return warrior && !(warrior[entry.field] || []).includes(event.id)
+    }),
+    rookies_to_create: rookies.filter((id) => !warriors.has(id)),
+    rookies_to_initiate: rookies.filter((id) => warriors.has(id) && !warriors.get(id)?.initiation_id),
+    skipped: [...new Set(roster.map((entry) => entry.person_id))].filter((id) => !warriors.has(id) && !rookies.includes(id)),
+  }
+}
+
+export const planCloseout = async (eventId: string): Promise<CloseoutPlan | null> => {
+  const found = await fetchCloseoutEvent(eventId)
+  if (!found) {
+    return null
+  }
+
+  const { event, nwta } = found
+  const plan = await planFor(event, nwta)
+
+  return {
+    event_id: event.id,
+    event_name: event.name,
+    is_nwta: !!nwta,
+    closed_at: event.closed_at,
+    closeout: event.closeout,
+    history: plan.history,
+    rookies_to_create: plan.rookies_to_create,
+    rookies_to_initiate: plan.rookies_to_initiate,
+    skipped: plan.skipped,
+  }
+}
+
+const updateWarrior = async (id: string, fields: Record<string, unknown>) => {
+  const { error } = await supabase
+    .from("warriors")
+    .update({ ...fields, updated_at: new Date().toISOString() })
+    .eq("id", id)
+
+  if (error) {
+    console.error(`[v0] Database error updating warrior ${id} during close-out:`, error)
+    throw error
+  }
+}
+
+export const closeEvent = async (auth: AuthContext, eventId: string): Promise<CloseoutPlan | null> => {
+  const found = await fetchCloseoutEvent(eventId)
+  if (!found) {
+    return null
+  }
+
+  const { event, nwta } = found
+  const plan = await planFor(event, nwta)
+  const initiationOn = (event.end_at || event.start_at || new Date().toISOString()).slice(0, 10)
+
+  // Append to each warrior's history, one update per warrior
+  const byWarrior = new Map<string, HistoryField[]>()
+  for (const entry of plan.history) {
+    byWarrior.set(entry.person_id, [...(byWarrior.get(entry.person_id) || []), entry.field])
+  }
+  for (const [personId, fields] of byWarrior) {
+    const warrior = plan.warriors.get(personId) as HistoryWarrior
+    await updateWarrior(
+      personId,
+      Object.fromEntries(fields.map((field) => [field, [...(warrior[field] || []), event.id]])),
+    )
+  }
+
+  for (const personId of plan.rookies_to_initiate) {
+    await updateWarrior(personId, { initiation_id: event.id, initiation_on: initiationOn })
+  }
+
+  if (plan.rookies_to_create.length > 0) {
+    const { data: created, error: createError } = await supabase
+      .from("warriors")
+      .insert(
+        plan.rookies_to_create.map((personId) => ({
+          id: personId,
+          status: "rookie",
+          initiation_id: event.id,
+          initiation_on: initiationOn,
+          area_id: event.area_id,
+          community_id: event.community_id,
+          is_active: true,
+        })),
+      )
+      .select()
+
+    if (createError) {
+      console.error("[v0] Database error creating rookie warriors:", createError)
+      throw createError
+    }
+
+    for (const warrior of created || []) {
+      await recordRecordChange(auth, { logId: warrior.log_id, entity: "Warrior", action: "created", after: warrior })
+    }
+  }
+
+  await startIntegrations([...plan.rookies_to_create, ...plan.rookies_to_initiate], event.id)
+  const initiatedProspects = await markProspectsInitiated(auth, [...plan.rookies_to_create, ...plan.rookies_to_initiate])
+
+  const previous = event.closeout
+  const closeout: EventCloseout = {
+    closed_at: previous?.closed_at || new Date().toISOString(),
+    closed_by: previous?.closed_by || auth.person_id,
+    history: [...(previous?.history || []), ...plan.history],
+    created_warriors: [...(previous?.created_warriors || []), ...plan.rookies_to_create],
+    initiated_warriors: [...(previous?.initiated_warriors || []), ...plan.rookies_to_initiate],
+    initiated_prospects: [...(previous?.initiated_prospects || []), ...initiatedProspects],
+  }
+
+  const { error: closeError } = await supabase
+    .from("events")
+    .update({ closed_at: closeout.closed_at, closeout })
+    .eq("id", event.id)
+
+  if (closeError) {
+    console.error(`[v0] Database error closing event ${event.id}:`, closeError)
+    throw closeError
+  }
+
+  await recordActivity(auth, event.log_id, {
+    name: previous ? "Close-out Synced" : "Closed Out",
+    summary: `Added ${plan.history.length} history entries and ${plan.rookies_to_create.length} new warriors`,
+    data: {
+      history: plan.history,
+      created_warriors: plan.rookies_to_create,
+      initiated_warriors: plan.rookies_to_initiate,
+      skipped: plan.skipped,
+    },
+  })
+
+  return planCloseout(event.id)
+}
+
+export const reopenEvent = async (auth: AuthContext, eventId: string): Promise<CloseoutPlan | null> => {
+  const found = await fetchCloseoutEvent(eventId)
+  if (!found) {
+    return null
+  }
+
+  const { event } = found
+  const closeout = event.closeout
+  if (!closeout) {
+    return planCloseout(event.id)
+  }
+
+  const warriors = await fetchWarriors([
+    ...new Set([
+      ...closeout.history.map((entry) => entry.person_id),
+      ...closeout.created_warriors,
+      ...closeout.initiated_warriors,
+    ]),
+  ])
+
+  // Take the event back out of the histories the close-out added it to
+  for (const warrior of warriors.values()) {
+    const fields = closeout.history.filter((entry) => entry.person_id === warrior.id).map((entry) => entry.field)
+    if (fields.length === 0) {
+      continue
+    }
+    const removed = Object.fromEntries(
+      fields.map((field) => [field, (warrior[field] || []).filter((id) => id !== event.id)]),
+    )
+    Object.assign(warrior, removed)
+    await updateWarrior(warrior.id, removed)
+  }
+
+  await removeUntouchedIntegrations(event.id)
+  await revertProspectsInitiated(auth, closeout.initiated_prospects || [])
+
+  const clearInitiation = async (warrior: HistoryWarrior) => {
+    if (warrior.initiation_id === event.id) {
+      await updateWarrior(warrior.id, { initiation_id: null, initiation_on: null })
+    }
+  }
+
+  const deleted: string[] = []
+  for (const personId of closeout.created_warriors) {
+    const warrior = warriors.get(personId)
+    if (!warrior) {
+      continue
+    }
+    if (HISTORY_FIELDS.some((field) => (warrior[field] || []).length > 0)) {
+      await clearInitiation(warrior)
+      continue
+    }
+
+    const { error: deleteError } = await supabase.from("warriors").delete().eq("id", personId)
+    if (deleteError) {
+      console.error(`[v0] Database error deleting rookie warrior ${personId}:`, deleteError)
+      throw deleteError
+    }
+    deleted.push(personId)
+  }
+
+  for (const personId of closeout.initiated_warriors) {
+    const warrior = warriors.get(personId)
+    if (warrior) {
+      await clearInitiation(warrior)
+    }
+  }
+
+  const { error: reopenError } = await supabase
+    .from("events")
+    .update({ closed_at: null, closeout: null })
+    .eq("id", event.id)
+
+  if (reopenError) {
+    console.error(`[v0] Database error reopening event ${event.id}:`, reopenError)
+    throw reopenError
+  }
+
+  await recordActivity(auth, event.log_id, {
+    name: "Reopened",
+    summary: `Removed ${closeout.history.length} history entries and ${deleted.length} rookie warriors`,
+    data: { closeout, deleted_warriors: deleted },
+  })
+
+  return planCloseout(event.id)
+}
@@ -0,0 +1,369 @@
+import { supabase } from "./supabase.js"
+import { hasAccessLevel, type AuthContext } from "./auth.js"
+import { areaScopeFilter, getAreaScope, isInAreaScope } from "./area-scope.js"
+import { centsToDollars, type CsvCell } from "./csv.js"
+import type { AreaFinanceRollup, EventFinanceReport, PersonReceivable } from "../../src/types/finance"
+
+/*
+ * Event financial reports: budget against actual.
+ *
+ * The budget is what the committed roster should bring in (staff_cost per committed staff member
+ * and participant_cost per committed participant). The actuals are every transaction on the
+ * event's own log plus the logs of its registrants (see payment-plans.ts). Refunds come off
+ * payments to give net revenue; expenses and reimbursements come off that to give net income.
+ *
+ * Receivables are per committed person: payments and refunds on a registrant's own log count
+ * towards that registrant, and those on the event log count towards their payor_person_id.
+ */
+
+const FINANCE_EVENT_COLUMNS =
+  "id, name, area_id, community_id, transaction_log_id, staff_cost, participant_cost, committed_staff, committed_participants, participant_schedule"
+
+interface FinanceEvent {
+  id: string
+  name: string
+  area_id: string | null
+  community_id: string | null
+  transaction_log_id: string | null
+  staff_cost: number | null
+  participant_cost: number | null
+  committed_staff: string[] | null
+  committed_participants: string[] | null
+  participant_schedule: Array<{ start: string; end: string }> | null
+}
+
+interface FinanceTransaction {
+  log_id: string
+  type: "Payment" | "Refund" | "Expense" | "Reimbursement"
+  amount: number
+  payor_person_id: string | null
+}
+
+const sumOf = (transactions: FinanceTransaction[], type: FinanceTransaction["type"]): number =>
+  transactions.filter((tx) => tx.type === type).reduce((sum, tx) => sum + tx.amount, 0)
+
+const netPaid = (transactions: FinanceTransaction[]): number => sumOf(transactions, "Payment") - sumOf(transactions, "Refund")
+
+const buildReport = (
+  event: FinanceEvent,
+  transactions: FinanceTransaction[],
+  registrantLogs: Map<string, string>,
+  people: Map<string, { first_name: string | null; last_name: string | null }>,
+): EventFinanceReport => {
+  const committedStaff = event.committed_staff || []
+  const committedParticipants = event.committed_participants || []
+  const staffCost = event.staff_cost || 0
+  const participantCost = event.participant_cost || 0
+
+  const receivableFor = (personId: string, role: PersonReceivable["role"], expected: number): PersonReceivable => {
+    const registrantLog = registrantLogs.get(personId)
+    const paid = netPaid(
+      transactions.filter(
+        (tx) =>
+          tx.log_id === registrantLog || (tx.log_id === event.transaction_log_id && tx.payor_person_id === personId),
+      ),
+    )
+    const person = people.get(personId)
+
+    return {
+      person_id: personId,
+      first_name: person?.first_name ?? null,
+      last_name: person?.last_name ?? null,
+      role,
+      expected,
+      paid,
+      outstanding: Math.max(0, expected - paid),
+    }
+  }
+
+  const receivables = [
+    ...committedStaff.map((id) => receivableFor(id, "staff", staffCost)),
+    ...committedParticipants.map((id) => receivableFor(id, "participant", participantCost)),
+  ]
+
+  const expectedStaffRevenue = staffCost * committedStaff.length
+  const expectedParticipantRevenue = participantCost * committedParticipants.length
+  const expectedRevenue = expectedStaffRevenue + expectedParticipantRevenue
+  const payments = sumOf(transactions, "Payment")
+  const refunds = sumOf(transactions, "Refund")
+  const expenses = sumOf(transactions, "Expense")
+  const reimbursements = sumOf(transactions, "Reimbursement")
+  const netRevenue = payments - refunds
+  const startsAt = (event.participant_schedule || []).map((session) => session.start).sort()[0] || null
+
+  return {
+    event_id: event.id,
+    event_name: event.name,
+    area_id: event.area_id,
+    starts_at: startsAt,
+    committed_staff: committedStaff.length,
+    committed_participants: committedParticipants.length,
+    expected_staff_revenue: expectedStaffRevenue,
+    expected_participant_revenue: expectedParticipantRevenue,
+    expected_revenue: expectedRevenue,
+    payments,
+    refunds,
+    expenses,
+    reimbursements,
+    net_revenue: netRevenue,
+    net_income: netRevenue - expenses - reimbursements,
+    variance: netRevenue - expectedRevenue,
+    outstanding: receivables.reduce((sum, receivable) => sum + receivable.outstanding, 0),
+    receivables: receivables.filter((receivable) => receivable.expected > 0 || receivable.paid !== 0),
+  }
+}
+
+/*
+ * Reports for a batch of events in four queries regardless of the batch size.
+ */
+const buildReports = async (events: FinanceEvent[]): Promise<EventFinanceReport[]> => {
+  if (events.length === 0) {
+    return []
+  }
+
+  const { data: registrants, error: registrantsError } = await supabase
+    .from("registrants")
+    .select("id, event_id, transaction_log")
+    .in("event_id", events.map((event) => event.id))
+
+  if (registrantsError) {
+    console.error("[v0] Database error fetching registrant logs:", registrantsError)
+    throw registrantsError
+  }
+
+  const logIds = [
+    ...events.map((event) => event.transaction_log_id),
+    ...(registrants || []).map((registrant: { transaction_log: string | null }) => registrant.transaction_log),
+  ].filter((id): id is string => !!id)
+
+  let transactions: FinanceTransaction[] = []
+  if (logIds.length > 0) {
+    const { data, error } = await supabase
+      .from("transaction_logs")
+      .select("log_id, type, amount, payor_person_id")
+      .in("log_id", logIds)
+      .is("deleted_at", null)
+
+    if (error) {
+      console.error("[v0] Database error fetching event transactions:", error)
+      throw error
+    }
+    transactions = (data || []) as FinanceTransaction[]
+  }
+
+  const personIds = [
+    ...new Set(events.flatMap((event) => [...(event.committed_staff || []), ...(event.committed_participants || [])])),
+  ]
+  const people = new Map<string, { first_name: string | null; last_name: string | null }>()
+  if (personIds.length > 0) {
+    const { data, error } = await supabase.from("people").select("id, first_name, last_name").in("id", personIds)
+
+    if (error) {
+      console.error("[v0] Database error fetching people for receivables:", error)
+      throw error
+    }
+    for (const person of data || []) {
+      people.set(person.id, person)
+    }
+  }
+
+  return events.map((event) => {
+    const registrantLogs = new Map<string, string>()
+    for (const registrant of registrants || []) {
+      if (registrant.event_id === event.id && registrant.transaction_log) {
+        registrantLogs.set(registrant.id, registrant.transaction_log)
+      }
+    }
+    const eventLogIds = [event.transaction_log_id, ...registrantLogs.values()]
+
+    return buildReport(
+      event,
+      transactions.filter((tx) => eventLogIds.includes(tx.log_id)),
+      registrantLogs,
+      people,
+    )
+  })
+}
+
+export const fetchFinanceEvent = async (id: string): Promise<FinanceEvent | null> => {
+  const { data, error } = await supabase.from("events").select(FINANCE_EVENT_COLUMNS).eq("id", id).maybeSingle()
+
+  if (error) {
+    console.error(`[v0] Database error fetching event ${id} for its financial report:`, error)
+    throw error
+  }
+
+  return data as FinanceEvent | null
+}
+
+export const fetchEventFinanceReport = async (event: FinanceEvent): Promise<EventFinanceReport> =>
+  (await buildReports([event]))[0]
+
+/*
+ * Rolls up every event held in the area, directly or through one of its communities. `from` and
+ * `to` (YYYY-MM-DD) limit the rollup to events whose first participant session falls between them.
+ */
+export const fetchAreaFinanceRollup = async (
+  area: { id: string; name: string; finance_coordinator_id: string | null },
+  range: { from?: string; to?: string } = {},
+): Promise<AreaFinanceRollup> => {
+  const { data: communities, error: communitiesError } = await supabase
+    .from("communities")
+    .select("id")
+    .eq("area_id", area.id)
+
+  if (communitiesError) {
+    console.error("[v0] Database error fetching area communities:", communitiesError)
+    throw communitiesError
+  }
+
+  const { data, error } = await supabase
+    .from("events")
+    .select(FINANCE_EVENT_COLUMNS)
+    .or(
+      areaScopeFilter({
+        area_ids: [area.id],
+        community_ids: (communities || []).map((community: { id: string }) => community.id),
+      }),
+    )
+    .is("deleted_at", null)
+
+  if (error) {
+    console.error("[v0] Database error fetching area events:", error)
+    throw error
+  }
+
+  const reports = (await buildReports((data || []) as FinanceEvent[]))
+    .filter((report) => {
+      const day = report.starts_at?.slice(0, 10)
+      if (!range.from && !range.to) {
+        return true
+      }
+      return !!day && (!range.from || day >= range.from) && (!range.to || day <= range.to)
+    })
+    .sort((a, b) => (a.starts_at || "").localeCompare(b.starts_at || ""))
+
+  const total = (field: keyof EventFinanceReport) =>
+    reports.reduce((sum, report) => sum + (report[field] as number), 0)
+
+  return {
+    area_id: area.id,
+    area_name: area.name,
+    finance_coordinator_id: area.finance_coordinator_id,
+    event_count: reports.length,
+    expected_revenue: total("expected_revenue"),
+    payments: total("payments"),
+    refunds: total("refunds"),
+    expenses: total("expenses"),
+    reimbursements: total("reimbursements"),
+    net_revenue: total("net_revenue"),
+    net_income: total("net_income"),
+    variance: total("variance"),
+    outstanding: total("outstanding"),
+    events: reports,
+  }
+}
+
+/*
+ * Financial reports are open to national admins, the admins of the area, and the area's finance
+ * coordinator, who need not be an admin at all.
+ */
+export const canViewFinances = async (
+  auth: AuthContext,
+  record: { area_id?: string | null; community_id?: string | null },
+): Promise<boolean> => {
+  if (hasAccessLevel(auth, "area_admin") && isInAreaScope(await getAreaScope(auth), record)) {
+    return true
+  }
+  if (!auth.person_id) {
+    return false
+  }
+
+  let areaId = record.area_id
+  if (!areaId && record.community_id) {
+    const { data } = await supabase.from("communities").select("area_id").eq("id", record.community_id).maybeSingle()
+    areaId = data?.area_id
+  }
+  if (!areaId) {
+    return false
+  }
+
+  const { data: area, error } = await supabase
+    .from("areas")
+    .select("finance_coordinator_id")
+    .eq("id", areaId)
+    .maybeSingle()
+
+  if (error) {
+    console.error("[v0] Database error checking finance coordinator:", error)
+    throw error
+  }
+
+  return !!area && area.finance_coordinator_id === auth.person_id
+}
+
+const REPORT_HEADER = [
+  "Event",
+  "Starts",
+  "Committed Staff",
+  "Committed Participants",
+  "Expected Revenue",
+  "Payments",
+  "Refunds",
+  "Net Revenue",
+  "Expenses",
+  "Reimbursements",
+  "Net Income",
+  "Variance",
+  "Outstanding",
+]
+
+const reportRow = (report: EventFinanceReport): CsvCell[] => [
+  report.event_name,
+  report.starts_at?.slice(0, 10),
+  report.committed_staff,
+  report.committed_participants,
+  centsToDollars(report.expected_revenue),
+  centsToDollars(report.payments),
+  centsToDollars(report.refunds),
+  centsToDollars(report.net_revenue),
+  centsToDollars(report.expenses),
+  centsToDollars(report.reimbursements),
+  centsToDollars(report.net_income),
+  centsToDollars(report.variance),
+  centsToDollars(report.outstanding),
+]
+
+export const eventReportCsv = (report: EventFinanceReport): CsvCell[][] => [
+  REPORT_HEADER,
+  reportRow(report),
+  [],
+  ["Person", "Role", "Expected", "Paid", "Outstanding"],
+  ...report.receivables.map((receivable) => [
+    [receivable.first_name, receivable.last_name].filter(Boolean).join(" ") || receivable.person_id,
+    receivable.role,
+    centsToDollars(receivable.expected),
+    centsToDollars(receivable.paid),
+    centsToDollars(receivable.outstanding),
+  ]),
+]
+
+export const areaRollupCsv = (rollup: AreaFinanceRollup): CsvCell[][] => [
+  REPORT_HEADER,
+  ...rollup.events.map(reportRow),
+  [
+    `Total (${rollup.event_count} events)`,
+    null,
+    null,
+    null,
+    centsToDollars(rollup.expected_revenue),
+    centsToDollars(rollup.payments),
+    centsToDollars(rollup.refunds),
+    centsToDollars(rollup.net_revenue),
+    centsToDollars(rollup.expenses),
+    centsToDollars(rollup.reimbursements),
+    centsToDollars(rollup.net_income),
+    centsToDollars(rollup.variance),
+    centsToDollars(rollup.outstanding),
+  ],
+]
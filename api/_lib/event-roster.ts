@@ -0,0 +1,220 @@
+import { supabase } from "./supabase.js"
+import { hasAccessLevel, type AuthContext } from "./auth.js"
+import { getAreaScope, isInAreaScope } from "./area-scope.js"
+import { recordActivity } from "./activity-log.js"
+import type { Event, EventTime } from "../../src/types/event"
+import type { RosterChanges, RosterField, RosterPromotion, RosterRole } from "./roster-plan.js"
+
+export { planRosterUpdate } from "./roster-plan.js"
+export type { RosterChanges, RosterField, RosterPromotion, RosterRole, RosterState } from "./roster-plan.js"
+
+/*
+ * Event rosters.
+ *
+ * An event's roster is a set of jsonb arrays of person ids on the events row. People apply
+ * themselves (staff land in potential_staff, participants in potential_participants, or in
+ * waitlist_participants once committed_participants has reached participant_capacity) while the
+ * event's staff_published_time / participant_published_time window is open. The event's leaders
+ * and the area admins for its area then approve them into committed_staff / committed_participants.
+ *
+ * Capacity is enforced on every roster write: committing people beyond staff_capacity or
+ * participant_capacity is rejected, and when a committed person is removed the head of
+ * alternate_staff / waitlist_participants is promoted into the opening (see planRosterUpdate()).
+ * A capacity of 0 means unlimited, so nobody is waitlisted or promoted.
+ *
+ * Roster writes are read-modify-write on the arrays, so saveRoster() only applies a change if the
+ * row is unchanged since it was read (by updated_at) and reports a conflict otherwise.
+ */
+
+export type RosterEvent = Pick<
+  Event,
+  | "id"
+  | "name"
+  | "log_id"
+  | "area_id"
+  | "community_id"
+  | "is_active"
+  | "staff_capacity"
+  | "participant_capacity"
+  | "primary_leader_id"
+  | "leaders"
+  | "staff_published_time"
+  | "participant_published_time"
+  | "updated_at"
+  | RosterField
+>
+
+export const ROSTER_FIELDS: Record<RosterRole, RosterField[]> = {
+  staff: ["potential_staff", "committed_staff", "alternate_staff"],
+  participant: ["potential_participants", "committed_participants", "waitlist_participants"],
+}
+
+// Lists a person is still waiting on, which they may withdraw from and leaders may approve from
+export const PENDING_FIELDS: Record<RosterRole, RosterField[]> = {
+  staff: ["potential_staff", "alternate_staff"],
+  participant: ["potential_participants", "waitlist_participants"],
+}
+
+const ROSTER_EVENT_COLUMNS = [
+  "id",
+  "name",
+  "log_id",
+  "area_id",
+  "community_id",
+  "is_active",
+  "staff_capacity",
+  "participant_capacity",
+  "primary_leader_id",
+  "leaders",
+  "staff_published_time",
+  "participant_published_time",
+  "updated_at",
+  ...ROSTER_FIELDS.staff,
+  ...ROSTER_FIELDS.participant,
+].join(", ")
+
+export const fetchRosterEvent = async (id: string): Promise<RosterEvent | null> => {
+  const { data, error } = await supabase.from("events").select(ROSTER_EVENT_COLUMNS).eq("id", id).maybeSingle()
+
+  if (error) {
+    console.error(`[v0] Database error fetching roster for event ${id}:`, error)
+    throw error
+  }
+
+  return data as RosterEvent | null
+}
+
+export const signupWindow = (event: RosterEvent, role: RosterRole): EventTime | null =>
+  role === "staff" ? event.staff_published_time : event.participant_published_time
+
+export const isSignupOpen = (event: RosterEvent, role: RosterRole, now = new Date()): boolean => {
+  const window = signupWindow(event, role)
+  if (!event.is_active || !window) {
+    return false
+  }
+  return new Date(window.start) <= now && now <= new Date(window.end)
+}
+
+export const findRosterField = (event: RosterEvent, role: RosterRole, personId: string): RosterField | null =>
+  ROSTER_FIELDS[role].find((field) => (event[field] || []).includes(personId)) || null
+
+export const isAtCapacity = (event: RosterEvent, role: RosterRole): boolean => {
+  const capacity = role === "staff" ? event.staff_capacity : event.participant_capacity
+  const committed = role === "staff" ? event.committed_staff : event.committed_participants
+  // A capacity of 0 means unlimited
+  return capacity > 0 && (committed || []).length >= capacity
+}
+
+const ROSTER_FIELD_LABELS: Record<RosterField, string> = {
+  potential_staff: "potential staff",
+  committed_staff: "committed staff",
+  alternate_staff: "alternate staff",
+  potential_participants: "potential participants",
+  committed_participants: "committed participants",
+  waitlist_participants: "the waitlist",
+}
+
+/*
+ * Writes one activity entry per promotion to the event's history.
+ */
+export const recordPromotions = async (
+  auth: AuthContext,
+  logId: string | null | undefined,
+  promotions: RosterPromotion[],
+): Promise<void> => {
+  if (!logId || promotions.length === 0) {
+    return
+  }
+
+  const { data: people, error } = await supabase
+    .from("people")
+    .select("id, first_name, last_name")
+    .in("id", promotions.map((promotion) => promotion.person_id))
+
+  if (error) {
+    console.error("[v0] Database error fetching promoted people:", error)
+  }
+
+  for (const promotion of promotions) {
+    const person = (people || []).find((p: { id: string }) => p.id === promotion.person_id)
+    const name = person ? `${person.first_name} ${person.last_name}` : "Someone"
+
+    await recordActivity(auth, logId, {
+      name: "Promoted",
+      summary: `${name} promoted from ${ROSTER_FIELD_LABELS[promotion.from]} to ${ROSTER_FIELD_LABELS[promotion.to]}`,
+      data: { action: "promoted", ...promotion },
+    })
+  }
+}
+
+// Where a self-signup lands: potential staff, or potential/waitlisted participant depending on capacity
+export const signupField = (event: RosterEvent, role: RosterRole): RosterField => {
+  if (role === "staff") {
+    return "potential_staff"
+  }
+  return isAtCapacity(event, "participant") ? "waitlist_participants" : "potential_participants"
+}
+
+/*
+ * Leaders of the event and the admins of its area may approve and decline applications.
+ */
+export const canManageRoster = async (auth: AuthContext, event: RosterEvent): Promise<boolean> => {
+  if (auth.person_id && (event.primary_leader_id === auth.person_id || (event.leaders || []).includes(auth.person_id))) {
+    return true
+  }
+  if (!hasAccessLevel(auth, "area_admin")) {
+    return false
+  }
+  return isInAreaScope(await getAreaScope(auth), event)
+}
+
+/*
+ * Moves a person between roster lists: removes them from every list of the role and, unless `to`
+ * is null, appends them to `to`. Returns only the fields that change.
+ */
+export const moveOnRoster = (
+  event: RosterEvent,
+  role: RosterRole,
+  personId: string,
+  to: RosterField | null,
+): RosterChanges => {
+  const changes: RosterChanges = {}
+
+  for (const field of ROSTER_FIELDS[role]) {
+    const current = event[field] || []
+    const next = current.filter((id) => id !== personId)
+    if (field === to) {
+      next.push(personId)
+    }
+    if (JSON.stringify(next) !== JSON.stringify(current)) {
+      changes[field] = next
+    }
+  }
+
+  return changes
+}
+
+/*
+ * Writes roster changes if the event hasn't been modified since `event` was read. Returns the
+ * updated row, or null on a conflict so the caller can ask the client to retry.
+ */
+export const saveRoster = async (
+  event: RosterEvent,
+  changes: RosterChanges,
+): Promise<RosterEvent | null> => {
+  let query = supabase
+    .from("events")
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq("id", event.id)
+
+  query = event.updated_at === null ? query.is("updated_at", null) : query.eq("updated_at", event.updated_at)
+
+  const { data, error } = await query.select(ROSTER_EVENT_COLUMNS).maybeSingle()
+
+  if (error) {
+    console.error(`[v0] Database error saving roster for event ${event.id}:`, error)
+    throw error
+  }
+
+  return data as RosterEvent | null
+}
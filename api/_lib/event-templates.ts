@@ -0,0 +1,386 @@
+import { z } from "zod"
+import { supabase } from "./supabase.js"
+import type { AuthContext } from "./auth.js"
+import { recordActivity, recordRecordChange } from "./activity-log.js"
+import { areaScopeFilter, isInAreaScope, type AreaScope } from "./area-scope.js"
+import { checkVenueConflicts } from "./venue-availability.js"
+import { fromWallClock, toWallClock } from "./timezones.js"
+import { readSessionSpan, sessionSpans, type SessionSpan } from "./session-spans.js"
+import type { CreatedFromTemplate, EventTemplate, ScheduleOffset, TemplateRole } from "../../src/types/event-template"
+
+/*
+ * Event duplication and templates.
+ *
+ * Areas run the same NWTA and training formats several times a year, so an event can be copied onto
+ * a new date, and its format can be saved as an event_templates row for its event type. Both go
+ * through the same shape: the event's schedules and sign-up windows become minute offsets from its
+ * start, which are then laid down again from the new start. Offsets are taken in the venue's local
+ * time, so a Friday 6pm start stays a Friday 6pm start across a daylight saving change.
+ *
+ * Costs, capacities, venue and the NWTA role set (names and role types) are carried over; people
+ * never are. The copy starts with empty rosters, no leaders and no warriors in its roles, and is
+ * left unpublished for the leaders to review.
+ */
+
+const MINUTE_MS = 60 * 1000
+
+export const TEMPLATE_SELECT = `
+  *,
+  event_type:event_types(id, name, code, color),
+  area:areas(id, name, code),
+  venue:venues(id, name, timezone)
+`
+
+export const ScheduleOffsetSchema = z
+  .object({
+    start_offset: z.number().int(),
+    end_offset: z.number().int(),
+  })
+  .refine((offset) => offset.end_offset >= offset.start_offset, "A time slot cannot end before it starts")
+
+const TemplateRoleSchema = z.object({
+  name: z.string().min(1, "Role name is required"),
+  summary: z.string().nullable().optional(),
+  role_type_id: z.string().uuid().nullable().optional(),
+})
+
+export const TemplateSchema = z.object({
+  event_type_id: z.string().uuid("An event type is required"),
+  name: z.string().min(1, "Name is required"),
+  description: z.string().nullable().optional(),
+  area_id: z.string().uuid().nullable().optional(),
+  community_id: z.string().uuid().nullable().optional(),
+  venue_id: z.string().uuid().nullable().optional(),
+  is_nwta: z.boolean().default(false),
+  staff_cost: z.number().int().min(0).default(0),
+  staff_capacity: z.number().int().min(0).default(0),
+  participant_cost: z.number().int().min(0).default(0),
+  participant_capacity: z.number().int().min(0).default(0),
+  participant_schedule: z.array(ScheduleOffsetSchema).default([]),
+  staff_schedule: z.array(ScheduleOffsetSchema).default([]),
+  participant_published_time: ScheduleOffsetSchema.nullable().optional(),
+  staff_published_time: ScheduleOffsetSchema.nullable().optional(),
+  roles: z.array(TemplateRoleSchema).default([]),
+  is_active: z.boolean().default(true),
+})
+
+export const TemplateUpdateSchema = TemplateSchema.partial()
+
+// Where to put a duplicated event or a template instance. area/community/venue override the source's.
+export const ScheduleOnSchema = z.object({
+  start_at: z.string().datetime({ offset: true, message: "Start must be a valid ISO datetime" }),
+  name: z.string().min(1).optional(),
+  area_id: z.string().uuid().nullable().optional(),
+  community_id: z.string().uuid().nullable().optional(),
+  venue_id: z.string().uuid().nullable().optional(),
+})
+
+export const SaveAsTemplateSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  description: z.string().nullable().optional(),
+  // Shared templates have no area and are open to every area; only national admins may share one
+  shared: z.boolean().default(false),
+})
+
+export type TemplateFields = Omit<EventTemplate, "id" | "log_id" | "is_active" | "created_at" | "updated_at">
+
+const toOffset = (span: SessionSpan, anchorWall: number, timeZone: string | null): ScheduleOffset => ({
+  start_offset: Math.round((toWallClock(timeZone, span.start) - anchorWall) / MINUTE_MS),
+  end_offset: Math.round((toWallClock(timeZone, span.end) - anchorWall) / MINUTE_MS),
+})
+
+const fromOffset = (offset: ScheduleOffset, startWall: number, timeZone: string | null) => ({
+  start: new Date(fromWallClock(timeZone, startWall + offset.start_offset * MINUTE_MS)).toISOString(),
+  end: new Date(fromWallClock(timeZone, startWall + offset.end_offset * MINUTE_MS)).toISOString(),
+})
+
+export const fetchVenueTimezone = async (venueId: string | null | undefined): Promise<string | null> => {
+  if (!venueId) {
+    return null
+  }
+
+  const { data, error } = await supabase.from("venues").select("timezone").eq("id", venueId).maybeSingle()
+
+  if (error) {
+    console.error(`[v0] Database error fetching timezone of venue ${venueId}:`, error)
+    throw error
+  }
+
+  return data?.timezone || null
+}
+
+const fetchRoles = async (eventId: string): Promise<TemplateRole[]> => {
+  const { data, error } = await supabase
+    .from("nwta_roles")
+    .select("name, summary, role_type_id")
+    .eq("nwta_event_id", eventId)
+    .eq("is_active", true)
+    .is("deleted_at", null)
+    .order("name")
+
+  if (error) {
+    console.error(`[v0] Database error fetching roles of event ${eventId}:`, error)
+    throw error
+  }
+
+  return (data || []).map((role: TemplateRole) => ({
+    name: role.name,
+    summary: role.summary || null,
+    role_type_id: role.role_type_id || null,
+  }))
+}
+
+export interface SourceEvent {
+  id: string
+  log_id: string | null
+  name: string
+  area_id: string | null
+  community_id: string | null
+  template: TemplateFields
+}
+
+/*
+ * Reads an event as template fields. The anchor the offsets are measured from is the start of its
+ * first participant session, falling back to start_at and then to the first staff session.
+ */
+export const fetchSourceEvent = async (eventId: string): Promise<SourceEvent | null> => {
+  const [eventResult, nwtaResult] = await Promise.all([
+    supabase.from("events").select("*").eq("id", eventId).is("deleted_at", null).maybeSingle(),
+    supabase.from("nwta_events").select("id").eq("id", eventId).is("deleted_at", null).maybeSingle(),
+  ])
+
+  if (eventResult.error || nwtaResult.error) {
+    const error = eventResult.error || nwtaResult.error
+    console.error(`[v0] Database error fetching event ${eventId} to copy:`, error)
+    throw error
+  }
+
+  const event = eventResult.data
+  if (!event) {
+    return null
+  }
+
+  const isNwta = !!nwtaResult.data
+  const [timeZone, roles] = await Promise.all([
+    fetchVenueTimezone(event.venue_id),
+    isNwta ? fetchRoles(eventId) : Promise.resolve([]),
+  ])
+
+  const participantSpans = sessionSpans(event.participant_schedule)
+  const staffSpans = sessionSpans(event.staff_schedule)
+  const anchor =
+    participantSpans.length > 0
+      ? Math.min(...participantSpans.map((span) => span.start))
+      : event.start_at
+        ? new Date(event.start_at).getTime()
+        : staffSpans.length > 0
+          ? Math.min(...staffSpans.map((span) => span.start))
+          : null
+  const anchorWall = anchor === null ? 0 : toWallClock(timeZone, anchor)
+  const offsetOf = (time: unknown) => {
+    const span = anchor === null ? null : readSessionSpan(time)
+    return span ? toOffset(span, anchorWall, timeZone) : null
+  }
+
+  return {
+    id: event.id,
+    log_id: event.log_id,
+    name: event.name,
+    area_id: event.area_id,
+    community_id: event.community_id,
+    template: {
+      event_type_id: event.event_type_id,
+      name: event.name,
+      description: event.description,
+      area_id: event.area_id,
+      community_id: event.community_id,
+      venue_id: event.venue_id,
+      is_nwta: isNwta,
+      staff_cost: event.staff_cost || 0,
+      staff_capacity: event.staff_capacity || 0,
+      participant_cost: event.participant_cost || 0,
+      participant_capacity: event.participant_capacity || 0,
+      participant_schedule: participantSpans.map((span) => toOffset(span, anchorWall, timeZone)),
+      staff_schedule: staffSpans.map((span) => toOffset(span, anchorWall, timeZone)),
+      participant_published_time: offsetOf(event.participant_published_time),
+      staff_published_time: offsetOf(event.staff_published_time),
+      roles,
+    },
+  }
+}
+
+export const fetchTemplate = async (id: string): Promise<EventTemplate | null> => {
+  const { data, error } = await supabase.from("event_templates").select("*").eq("id", id).maybeSingle()
+
+  if (error) {
+    console.error(`[v0] Database error fetching event template ${id}:`, error)
+    throw error
+  }
+
+  return data
+}
+
+// Templates with no area are shared, so anyone who can plan events may use them
+export const isTemplateVisible = (scope: AreaScope | null, template: Pick<EventTemplate, "area_id" | "community_id">) =>
+  (!template.area_id && !template.community_id) || isInAreaScope(scope, template)
+
+export const templateScopeFilter = (scope: AreaScope) => `${areaScopeFilter(scope)},and(area_id.is.null,community_id.is.null)`
+
+/*
+ * Creates an event (plus its nwta_events row and roles for an NWTA) from template fields, with the
+ * first participant session starting at start_at. Everything is removed again if any step fails.
+ */
+export const createEventFromTemplate = async (
+  auth: AuthContext,
+  template: TemplateFields,
+  placement: z.infer<typeof ScheduleOnSchema>,
+  origin: { summary: string; data: Record<string, unknown> },
+): Promise<CreatedFromTemplate> => {
+  const venueId = placement.venue_id !== undefined ? placement.venue_id : template.venue_id
+  const timeZone = await fetchVenueTimezone(venueId)
+  const startWall = toWallClock(timeZone, new Date(placement.start_at).getTime())
+  const lay = (offset: ScheduleOffset) => fromOffset(offset, startWall, timeZone)
+
+  const participantSchedule = template.participant_schedule.map(lay)
+  const staffSchedule = template.staff_schedule.map(lay)
+  const start_at =
+    participantSchedule.length > 0
+      ? participantSchedule.map((time) => time.start).sort()[0]
+      : new Date(placement.start_at).toISOString()
+  const end_at =
+    participantSchedule.length > 0 ? participantSchedule.map((time) => time.end).sort()[participantSchedule.length - 1] : null
+
+  const { data: created, error: eventError } = await supabase
+    .from("events")
+    .insert({
+      event_type_id: template.event_type_id,
+      name: placement.name || template.name,
+      description: template.description,
+      area_id: placement.area_id !== undefined ? placement.area_id : template.area_id,
+      community_id: placement.community_id !== undefined ? placement.community_id : template.community_id,
+      venue_id: venueId,
+      staff_cost: template.staff_cost,
+      staff_capacity: template.staff_capacity,
+      participant_cost: template.participant_cost,
+      participant_capacity: template.participant_capacity,
+      participant_schedule: participantSchedule,
+      staff_schedule: staffSchedule,
+      participant_published_time: template.participant_published_time ? lay(template.participant_published_time) : null,
+      staff_published_time: template.staff_published_time ? lay(template.staff_published_time) : null,
+      start_at,
+      end_at,
+      is_published: false,
+      is_active: true,
+    })
+    .select()
+    .single()
+
+  if (eventError) {
+    console.error("[v0] Database error creating event from template:", eventError)
+    throw eventError
+  }
+
+  try {
+    if (template.is_nwta) {
+      const { error: nwtaError } = await supabase
+        .from("nwta_events")
+        .insert({ id: created.id, rookies: [], elders: [], mos: [] })
+
+      if (nwtaError) {
+        throw nwtaError
+      }
+
+      if (template.roles.length > 0) {
+        const { error: rolesError } = await supabase.from("nwta_roles").insert(
+          template.roles.map((role) => ({
+            nwta_event_id: created.id,
+            name: role.name,
+            summary: role.summary,
+            role_type_id: role.role_type_id,
+            warriors: [],
+            is_active: true,
+          })),
+        )
+
+        if (rolesError) {
+          throw rolesError
+        }
+      }
+    }
+  } catch (error) {
+    // nwta_events and nwta_roles both cascade from the event
+    console.error(`[v0] Failed to set up NWTA ${created.id}; removing it:`, error)
+    await supabase.from("events").delete().eq("id", created.id)
+    throw error
+  }
+
+  await recordRecordChange(auth, { logId: created.log_id, entity: "Event", action: "created", after: created })
+  await recordActivity(auth, created.log_id, {
+    name: "Created From Template",
+    summary: origin.summary,
+    data: origin.data,
+  })
+
+  return {
+    event_id: created.id,
+    name: created.name,
+    start_at: created.start_at,
+    end_at: created.end_at,
+    is_nwta: template.is_nwta,
+    roles_copied: template.is_nwta ? template.roles.length : 0,
+    conflicts: await checkVenueConflicts(created),
+  }
+}
+
+export const duplicateEvent = async (
+  auth: AuthContext,
+  source: SourceEvent,
+  placement: z.infer<typeof ScheduleOnSchema>,
+): Promise<CreatedFromTemplate> => {
+  const created = await createEventFromTemplate(auth, source.template, placement, {
+    summary: `Duplicated from "${source.name}"`,
+    data: { source_event_id: source.id },
+  })
+
+  await recordActivity(auth, source.log_id, {
+    name: "Duplicated",
+    summary: `Copied to "${created.name}" starting ${created.start_at}`,
+    data: { event_id: created.event_id },
+  })
+
+  return created
+}
+
+export const saveEventAsTemplate = async (
+  auth: AuthContext,
+  source: SourceEvent,
+  input: z.infer<typeof SaveAsTemplateSchema>,
+): Promise<EventTemplate> => {
+  const shared = input.shared
+  const { data, error } = await supabase
+    .from("event_templates")
+    .insert({
+      ...source.template,
+      name: input.name,
+      description: input.description ?? source.template.description,
+      area_id: shared ? null : source.area_id,
+      community_id: shared ? null : source.community_id,
+      is_active: true,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error(`[v0] Database error saving event ${source.id} as a template:`, error)
+    throw error
+  }
+
+  await recordRecordChange(auth, { logId: data.log_id, entity: "Event template", action: "created", after: data })
+  await recordActivity(auth, source.log_id, {
+    name: "Saved As Template",
+    summary: `Saved as the template "${data.name}"`,
+    data: { template_id: data.id },
+  })
+
+  return data
+}
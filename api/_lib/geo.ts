@@ -0,0 +1,78 @@
+import { supabase } from "./supabase.js"
+
+export interface Coordinates {
+  lat: number
+  lon: number
+}
+
+export const METERS_PER_MILE = 1609.34
+
+/**
+ * Parse radius parameter which may have "mi" suffix (e.g., "25mi", "25.00mi")
+ * Returns radius in miles as a number, or null if invalid
+ */
+export function parseRadius(radiusParam: string | string[] | undefined): number | null {
+  if (!radiusParam) return null
+  const radiusStr = Array.isArray(radiusParam) ? radiusParam[0] : radiusParam
+  // Remove "mi" suffix if present
+  const cleanRadius = radiusStr.replace(/mi$/i, "").trim()
+  const radius = parseFloat(cleanRadius)
+  return isNaN(radius) ? null : radius
+}
+
+// Coordinates of a US city from the geography tables, or null when it isn't listed
+export const lookupCityCoordinates = async (city: string, state: string): Promise<Coordinates | null> => {
+  const { data, error } = await supabase
+    .from("geography_us_cities")
+    .select("lat, lng")
+    .ilike("city", city.trim())
+    .ilike("state_id", state.trim())
+    .limit(1)
+    .single()
+
+  if (error || !data) {
+    console.log(`[v0] City not found in geography database:`, error?.message || "No results")
+    return null
+  }
+
+  return { lat: Number(data.lat), lon: Number(data.lng) }
+}
+
+// Coordinates of a US zipcode; ZIP+4 codes are looked up by their first five digits
+export const lookupZipcodeCoordinates = async (zipcode: string): Promise<Coordinates | null> => {
+  const { data, error } = await supabase
+    .from("geography_us_zipcodes")
+    .select("lat, lng")
+    .eq("zip", zipcode.trim().slice(0, 5))
+    .limit(1)
+    .single()
+
+  if (error || !data) {
+    console.log(`[v0] Zipcode not found in geography database:`, error?.message || "No results")
+    return null
+  }
+
+  return { lat: Number(data.lat), lon: Number(data.lng) }
+}
+
+/**
+ * I-Groups within radiusMiles of a point, as a map of group id to distance in meters.
+ * Returns null when the radius search itself fails, so callers can fall back to an unfiltered list.
+ */
+export const findIGroupsWithinRadius = async (
+  point: Coordinates,
+  radiusMiles: number,
+): Promise<Map<string, number> | null> => {
+  const { data, error } = await supabase.rpc("find_igroups_within_radius", {
+    point_lon: point.lon,
+    point_lat: point.lat,
+    radius_meters: radiusMiles * METERS_PER_MILE,
+  })
+
+  if (error) {
+    console.error("[v0] RPC error:", error)
+    return null
+  }
+
+  return new Map((data || []).map((group: any) => [group.id as string, group.distance_meters as number]))
+}
@@ -0,0 +1,404 @@
+import { z } from "zod"
+import { supabase } from "./supabase.js"
+import { hasAccessLevel, type AuthContext } from "./auth.js"
+import { areaScopeFilter, type AreaScope } from "./area-scope.js"
+import { recordActivity } from "./activity-log.js"
+import type { VisitorGroup } from "./visitor-requests.js"
+import type {
+  CheckInAlert,
+  CheckInRollup,
+  CheckInRollupRow,
+  GroupCheckIn,
+} from "../../src/types/group-check-in"
+
+/*
+ * Monthly I-Group check-ins.
+ *
+ * Each month a group's contact reports how many times the group met, average attendance, visitors,
+ * open seats and whether it needs support. A month's check-in is due by CHECK_IN_DUE_DAY of the
+ * following month. Check-ins roll up by area and community for /api/i-groups/stats, and
+ * checkInAlerts turns a group's history into alerts for its community coordinator: check-ins
+ * missed, attendance falling away, no meetings, or a request for support.
+ */
+
+export const CHECK_IN_DUE_DAY = 10
+
+// Consecutive months without a check-in before the coordinator hears about it
+export const MISSED_ALERT_AFTER = 2
+
+// Share by which recent attendance must fall below the months before to count as declining
+export const DECLINE_THRESHOLD = 0.25
+
+const TREND_MONTHS = 3
+
+export const CheckInSchema = z.object({
+  period: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Period must be YYYY-MM"),
+  meetings_held: z.number().int().min(0).max(31),
+  average_attendance: z.number().min(0).max(100),
+  visitors: z.number().int().min(0).default(0),
+  open_seats: z.number().int().min(0).default(0),
+  needs_support: z.boolean().default(false),
+  support_note: z.string().max(2000).optional().nullable(),
+})
+
+export const periodOf = (date: Date) =>
+  `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, "0")}-01`
+
+export const addMonths = (period: string, months: number) => {
+  const [year, month] = period.split("-").map(Number)
+  return periodOf(new Date(Date.UTC(year, month - 1 + months, 1)))
+}
+
+// The latest month whose check-in should be in by now
+export const duePeriod = (now = new Date()) =>
+  addMonths(periodOf(now), now.getUTCDate() > CHECK_IN_DUE_DAY ? -1 : -2)
+
+const monthLabel = (period: string) =>
+  new Date(`${period}T00:00:00Z`).toLocaleString("en-US", { month: "long", year: "numeric", timeZone: "UTC" })
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length
+
+export const saveCheckIn = async (
+  auth: AuthContext,
+  group: VisitorGroup,
+  input: z.infer<typeof CheckInSchema>,
+): Promise<GroupCheckIn> => {
+  const period = `${input.period}-01`
+
+  const { data, error } = await supabase
+    .from("group_check_ins")
+    .upsert(
+      {
+        i_group_id: group.id,
+        period,
+        meetings_held: input.meetings_held,
+        average_attendance: input.average_attendance,
+        visitors: input.visitors,
+        open_seats: input.open_seats,
+        needs_support: input.needs_support,
+        support_note: input.support_note || null,
+        submitted_by_id: auth.person_id,
+        area_id: group.area_id,
+        community_id: group.community_id,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "i_group_id,period" },
+    )
+    .select()
+    .single()
+
+  if (error) {
+    console.error(`[v0] Database error saving check-in for I-Group ${group.id}:`, error)
+    throw error
+  }
+
+  await recordActivity(auth, group.log_id, {
+    name: "Check-in Submitted",
+    summary: `${monthLabel(period)}: ${input.meetings_held} meetings, ${input.average_attendance} attending on average`,
+    details: input.needs_support ? input.support_note || "The group asked for support" : null,
+    data: { check_in_id: data.id, period },
+  })
+
+  return data as GroupCheckIn
+}
+
+export const fetchCheckIns = async (groupIds: string[], since?: string): Promise<GroupCheckIn[]> => {
+  if (groupIds.length === 0) {
+    return []
+  }
+
+  let query = supabase.from("group_check_ins").select("*").in("i_group_id", groupIds)
+  if (since) {
+    query = query.gte("period", since)
+  }
+
+  const { data, error } = await query.order("period", { ascending: false })
+
+  if (error) {
+    console.error("[v0] Database error fetching group check-ins:", error)
+    throw error
+  }
+
+  return (data || []) as GroupCheckIn[]
+}
+
+export interface AlertGroup {
+  id: string
+  name: string
+  community_id: string | null
+  community_name: string | null
+  coordinator_id: string | null
+  started: string | null // first month the group could have checked in
+}
+
+/*
+ * Alerts for one group from its check-ins, most recent first. Months before the group started
+ * don't count as missed. The attendance trend compares calendar months ending at the due month (or
+ * a later month already reported), averaging only the months in each window that have a check-in:
+ * an unreported month is a missed check-in, not a month nobody came, and no older check-in stands
+ * in for it. Windows with fewer than two reported months aren't compared.
+ */
+export const checkInAlerts = (group: AlertGroup, checkIns: GroupCheckIn[], now = new Date()): CheckInAlert[] => {
+  const latest = checkIns[0] || null
+  const alert = (kind: CheckInAlert["kind"], detail: string): CheckInAlert => ({
+    i_group_id: group.id,
+    i_group_name: group.name,
+    community_id: group.community_id,
+    community_name: group.community_name,
+    coordinator_id: group.coordinator_id,
+    kind,
+    detail,
+    last_period: latest?.period ?? null,
+  })
+
+  const alerts: CheckInAlert[] = []
+  const byPeriod = new Map(checkIns.map((checkIn) => [checkIn.period, checkIn]))
+  const hasStarted = (period: string) => !group.started || period >= group.started
+
+  let missed = 0
+  for (let period = duePeriod(now); missed < 12 && !byPeriod.has(period); period = addMonths(period, -1)) {
+    if (!hasStarted(period)) {
+      break
+    }
+    missed++
+  }
+  if (missed >= MISSED_ALERT_AFTER) {
+    alerts.push(
+      alert(
+        "missed_check_ins",
+        latest ? `No check-in since ${monthLabel(latest.period)}` : `No check-ins in the last ${missed} months`,
+      ),
+    )
+  }
+
+  const trendEnd = latest && latest.period > duePeriod(now) ? latest.period : duePeriod(now)
+  const attendanceFor = (offset: number) =>
+    Array.from({ length: TREND_MONTHS }, (_, index) => byPeriod.get(addMonths(trendEnd, -(offset + index))))
+      .filter((checkIn): checkIn is GroupCheckIn => !!checkIn)
+      .map((checkIn) => Number(checkIn.average_attendance))
+  const recent = attendanceFor(0)
+  const earlier = attendanceFor(TREND_MONTHS)
+  if (recent.length >= 2 && earlier.length >= 2) {
+    const before = mean(earlier)
+    const after = mean(recent)
+    if (before > 0 && (before - after) / before >= DECLINE_THRESHOLD) {
+      alerts.push(
+        alert("declining_attendance", `Average attendance down from ${before.toFixed(1)} to ${after.toFixed(1)}`),
+      )
+    }
+  }
+
+  if (latest && latest.meetings_held === 0) {
+    alerts.push(alert("not_meeting", `No meetings in ${monthLabel(latest.period)}`))
+  }
+
+  if (latest?.needs_support) {
+    alerts.push(alert("needs_support", latest.support_note || `Asked for support in ${monthLabel(latest.period)}`))
+  }
+
+  return alerts
+}
+
+const toAlertGroup = (row: any): AlertGroup => {
+  const started = row.group?.established_on || row.created_at
+  return {
+    id: row.id,
+    name: row.group?.name || "Unknown I-Group",
+    community_id: row.community_id,
+    community_name: row.community?.name ?? null,
+    coordinator_id: row.community?.coordinator_id ?? null,
+    started: started ? periodOf(new Date(started)) : null,
+  }
+}
+
+export const fetchAlertGroups = async (filter: string | null): Promise<AlertGroup[]> => {
+  let query = supabase
+    .from("i_groups")
+    .select(`
+      id,
+      community_id,
+      created_at,
+      group:groups!inner(name, established_on, is_active, deleted_at),
+      community:communities(name, coordinator_id)
+    `)
+    .eq("is_active", true)
+  if (filter) {
+    query = query.or(filter)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    console.error("[v0] Database error fetching I-Groups for check-in alerts:", error)
+    throw error
+  }
+
+  return (data || [])
+    .filter((row: any) => row.group && !row.group.deleted_at && row.group.is_active !== false)
+    .map(toAlertGroup)
+}
+
+/*
+ * The .or() filter for the groups whose alerts reach the caller: those in communities they
+ * coordinate, those they are the contact for, and, for area admins, every group in their areas.
+ * null means every group (national admins).
+ */
+export const checkInAlertFilter = async (auth: AuthContext, scope: AreaScope | null): Promise<string | null> => {
+  if (auth.is_national_admin) {
+    return null
+  }
+
+  const filters: string[] = []
+  const personId = auth.person_id
+
+  if (personId) {
+    const [groupsResult, communitiesResult] = await Promise.all([
+      supabase.from("groups").select("id").eq("primary_contact_id", personId).is("deleted_at", null),
+      supabase.from("communities").select("id").eq("coordinator_id", personId),
+    ])
+
+    if (groupsResult.error || communitiesResult.error) {
+      const error = groupsResult.error || communitiesResult.error
+      console.error(`[v0] Database error resolving check-in alerts for ${personId}:`, error)
+      throw error
+    }
+
+    const groupIds = (groupsResult.data || []).map((group: { id: string }) => group.id)
+    const communityIds = (communitiesResult.data || []).map((community: { id: string }) => community.id)
+    if (groupIds.length > 0) {
+      filters.push(`id.in.(${groupIds.join(",")})`)
+    }
+    if (communityIds.length > 0) {
+      filters.push(`community_id.in.(${communityIds.join(",")})`)
+    }
+  }
+
+  if (scope && hasAccessLevel(auth, "area_admin")) {
+    filters.push(areaScopeFilter(scope))
+  }
+
+  return filters.length > 0 ? filters.join(",") : "id.is.null"
+}
+
+export const buildCheckInAlerts = async (filter: string | null, now = new Date()): Promise<CheckInAlert[]> => {
+  const groups = await fetchAlertGroups(filter)
+  // Enough months for the missed-check-in count and both halves of the attendance trend
+  const checkIns = await fetchCheckIns(
+    groups.map((group) => group.id),
+    addMonths(duePeriod(now), -12),
+  )
+
+  return groups
+    .flatMap((group) =>
+      checkInAlerts(
+        group,
+        checkIns.filter((checkIn) => checkIn.i_group_id === group.id),
+        now,
+      ),
+    )
+    .sort((a, b) => a.i_group_name.localeCompare(b.i_group_name) || a.kind.localeCompare(b.kind))
+}
+
+interface RollupAccumulator extends CheckInRollupRow {
+  attendees: number
+  reporting: Set<string>
+}
+
+const emptyRow = (key: string | null, label: string): RollupAccumulator => ({
+  key,
+  label,
+  groups_active: 0,
+  groups_reporting: 0,
+  meetings_held: 0,
+  average_attendance: 0,
+  visitors: 0,
+  open_seats: 0,
+  needs_support: 0,
+  attendees: 0,
+  reporting: new Set(),
+})
+
+const finishRow = ({ attendees, reporting, ...row }: RollupAccumulator): CheckInRollupRow => ({
+  ...row,
+  groups_reporting: reporting.size,
+  average_attendance: row.meetings_held > 0 ? Math.round((attendees / row.meetings_held) * 10) / 10 : 0,
+})
+
+/*
+ * Check-ins for the last `months` completed months, totalled and grouped by area and community.
+ * Check-ins count toward the area and community the group had when they were submitted; active
+ * groups are counted where they are now.
+ */
+export const buildCheckInRollup = async (months = TREND_MONTHS, now = new Date()): Promise<CheckInRollup> => {
+  const until = addMonths(periodOf(now), -1)
+  const since = addMonths(until, -(months - 1))
+
+  const [groupsResult, checkInsResult, areasResult, communitiesResult] = await Promise.all([
+    supabase.from("i_groups").select("id, area_id, community_id").eq("is_active", true),
+    supabase.from("group_check_ins").select("*").gte("period", since).lte("period", until).order("period", { ascending: false }),
+    supabase.from("areas").select("id, name"),
+    supabase.from("communities").select("id, name"),
+  ])
+
+  const loadError = groupsResult.error || checkInsResult.error || areasResult.error || communitiesResult.error
+  if (loadError) {
+    console.error("[v0] Database error building the check-in roll-up:", loadError)
+    throw loadError
+  }
+
+  const areaNames = new Map((areasResult.data || []).map((area: any) => [area.id as string, area.name as string]))
+  const communityNames = new Map(
+    (communitiesResult.data || []).map((community: any) => [community.id as string, community.name as string]),
+  )
+
+  const totals = emptyRow(null, "All I-Groups")
+  const byArea = new Map<string | null, RollupAccumulator>()
+  const byCommunity = new Map<string | null, RollupAccumulator>()
+
+  const rowsFor = (areaId: string | null, communityId: string | null) => {
+    if (!byArea.has(areaId)) {
+      byArea.set(areaId, emptyRow(areaId, (areaId && areaNames.get(areaId)) || "No area"))
+    }
+    if (!byCommunity.has(communityId)) {
+      byCommunity.set(communityId, emptyRow(communityId, (communityId && communityNames.get(communityId)) || "No community"))
+    }
+    return [totals, byArea.get(areaId), byCommunity.get(communityId)] as RollupAccumulator[]
+  }
+
+  for (const group of groupsResult.data || []) {
+    for (const row of rowsFor(group.area_id, group.community_id)) {
+      row.groups_active++
+    }
+  }
+
+  const latestSeen = new Set<string>()
+  for (const checkIn of (checkInsResult.data || []) as GroupCheckIn[]) {
+    const isLatest = !latestSeen.has(checkIn.i_group_id)
+    latestSeen.add(checkIn.i_group_id)
+
+    for (const row of rowsFor(checkIn.area_id, checkIn.community_id)) {
+      row.reporting.add(checkIn.i_group_id)
+      row.meetings_held += checkIn.meetings_held
+      row.attendees += Number(checkIn.average_attendance) * checkIn.meetings_held
+      row.visitors += checkIn.visitors
+      if (isLatest) {
+        row.open_seats += checkIn.open_seats
+        if (checkIn.needs_support) {
+          row.needs_support++
+        }
+      }
+    }
+  }
+
+  const finishRows = (rows: Map<string | null, RollupAccumulator>) =>
+    [...rows.values()].map(finishRow).sort((a, b) => a.label.localeCompare(b.label))
+
+  return {
+    months,
+    since,
+    until,
+    totals: finishRow(totals),
+    by_area: finishRows(byArea),
+    by_community: finishRows(byCommunity),
+  }
+}
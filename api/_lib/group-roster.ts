@@ -0,0 +1,579 @@
+import { z } from "zod"
+import { supabase } from "./supabase.js"
+import type { AuthContext } from "./auth.js"
+import { areaScopeFilter, type AreaScope } from "./area-scope.js"
+import { recordActivity } from "./activity-log.js"
+import type { CsvCell } from "./csv.js"
+import type { VisitorGroup } from "./visitor-requests.js"
+import type {
+  GroupHealthFlag,
+  GroupHealthReport,
+  GroupHealthRow,
+  GroupHistoryEntry,
+  GroupMemberRole,
+  GroupMembership,
+  GroupRoster,
+  MembershipEndReason,
+  RosterMember,
+} from "../../src/types/group-roster"
+
+/*
+ * I-Group rosters with dated history.
+ *
+ * groups.members stays the current roster that the rest of the app reads. group_memberships adds one
+ * row per stretch of membership (joined_on to left_on) carrying the member's role. addMember,
+ * removeMember, transferMember and changeRole write both together; syncMembershipHistory catches the
+ * history up when a roster is replaced wholesale through the I-Group form.
+ *
+ * The "contact" role and groups.primary_contact_id move together: giving someone the role makes them
+ * the primary contact and returns the previous contact to plain membership.
+ */
+
+export const HEALTH_WINDOW_DAYS = 180
+
+// Below this a group struggles to hold a circle
+export const MINIMUM_MEMBERS = 4
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const ROLE_ORDER: GroupMemberRole[] = ["contact", "facilitator", "member"]
+
+const PERSON_FIELDS = "id, first_name, last_name, email, phone"
+
+const HEALTH_FLAG_LABELS: Record<GroupHealthFlag, string> = {
+  shrinking: "Shrinking",
+  below_minimum: "Below minimum",
+  no_contact: "No contact",
+  contact_left: "Contact left",
+  contact_unreachable: "Contact unreachable",
+}
+
+// The parts of an I-Group the roster code reads; fetchVisitorGroup loads them
+export type RosterGroup = Pick<VisitorGroup, "id" | "name" | "log_id" | "members" | "primary_contact_id">
+
+const dateField = z.string().date("Dates must be YYYY-MM-DD").optional()
+const personIdField = z.string().uuid("Invalid person ID")
+
+export const MemberRoleSchema = z.enum(["member", "facilitator", "contact"])
+
+export const AddMemberSchema = z.object({
+  person_id: personIdField,
+  role: MemberRoleSchema.default("member"),
+  joined_on: dateField,
+  notes: z.string().optional().nullable(),
+})
+
+export const UpdateMemberSchema = z.object({
+  person_id: personIdField,
+  role: MemberRoleSchema.optional(),
+  joined_on: dateField,
+  notes: z.string().optional().nullable(),
+})
+
+export const RemoveMemberSchema = z.object({
+  person_id: personIdField,
+  left_on: dateField,
+  reason: z.enum(["left", "removed"]).default("left"),
+  notes: z.string().optional().nullable(),
+})
+
+export const TransferMemberSchema = z.object({
+  person_id: personIdField,
+  to_i_group_id: z.string().uuid("Invalid I-Group ID"),
+  transferred_on: dateField,
+  notes: z.string().optional().nullable(),
+})
+
+const today = (now = new Date()) => now.toISOString().slice(0, 10)
+
+const personName = async (personId: string): Promise<string> => {
+  const { data } = await supabase.from("people").select("first_name, last_name").eq("id", personId).maybeSingle()
+  return data ? [data.first_name, data.last_name].filter(Boolean).join(" ") : "Unknown person"
+}
+
+export const fetchOpenMembership = async (groupId: string, personId: string): Promise<GroupMembership | null> => {
+  const { data, error } = await supabase
+    .from("group_memberships")
+    .select("*")
+    .eq("i_group_id", groupId)
+    .eq("person_id", personId)
+    .is("left_on", null)
+    .maybeSingle()
+
+  if (error) {
+    console.error(`[v0] Database error fetching membership of ${personId} in I-Group ${groupId}:`, error)
+    throw error
+  }
+
+  return data as GroupMembership | null
+}
+
+const saveGroup = async (groupId: string, fields: { members?: string[]; primary_contact_id?: string | null }) => {
+  const { error } = await supabase
+    .from("groups")
+    .update({ ...fields, updated_at: new Date().toISOString() })
+    .eq("id", groupId)
+
+  if (error) {
+    console.error(`[v0] Database error saving roster of I-Group ${groupId}:`, error)
+    throw error
+  }
+}
+
+const insertMembership = async (fields: Partial<GroupMembership>): Promise<GroupMembership> => {
+  const { data, error } = await supabase.from("group_memberships").insert(fields).select().single()
+
+  if (error) {
+    console.error("[v0] Database error opening group membership:", error)
+    throw error
+  }
+
+  return data as GroupMembership
+}
+
+const updateMembership = async (id: string, fields: Partial<GroupMembership>): Promise<GroupMembership> => {
+  const { data, error } = await supabase
+    .from("group_memberships")
+    .update({ ...fields, updated_at: new Date().toISOString() })
+    .eq("id", id)
+    .select()
+    .single()
+
+  if (error) {
+    console.error(`[v0] Database error updating group membership ${id}:`, error)
+    throw error
+  }
+
+  return data as GroupMembership
+}
+
+// Hands the contact role to personId (or nobody), demoting whoever held it before
+const setContact = async (group: RosterGroup, personId: string | null) => {
+  let demote = supabase
+    .from("group_memberships")
+    .update({ role: "member", updated_at: new Date().toISOString() })
+    .eq("i_group_id", group.id)
+    .eq("role", "contact")
+    .is("left_on", null)
+  if (personId) {
+    demote = demote.neq("person_id", personId)
+  }
+
+  const { error } = await demote
+  if (error) {
+    console.error(`[v0] Database error demoting the previous contact of I-Group ${group.id}:`, error)
+    throw error
+  }
+
+  if (group.primary_contact_id !== personId) {
+    await saveGroup(group.id, { primary_contact_id: personId })
+  }
+}
+
+export const addMember = async (
+  auth: AuthContext,
+  group: RosterGroup,
+  input: z.infer<typeof AddMemberSchema>,
+  now = new Date(),
+): Promise<GroupMembership> => {
+  const membership = await insertMembership({
+    i_group_id: group.id,
+    person_id: input.person_id,
+    role: input.role,
+    joined_on: input.joined_on || today(now),
+    notes: input.notes || null,
+    recorded_by_id: auth.person_id,
+  })
+
+  if (!group.members.includes(input.person_id)) {
+    await saveGroup(group.id, { members: [...group.members, input.person_id] })
+  }
+  if (input.role === "contact") {
+    await setContact(group, input.person_id)
+  }
+
+  await recordActivity(auth, group.log_id, {
+    name: "Member Added",
+    summary: `${await personName(input.person_id)} joined as ${input.role} on ${membership.joined_on}`,
+    details: input.notes || null,
+    data: { membership_id: membership.id, person_id: input.person_id, role: input.role },
+  })
+
+  return membership
+}
+
+/*
+ * Changes a current member's role, corrects their join date or notes. A contact who steps down
+ * leaves the group without a primary contact until someone else takes the role.
+ */
+export const changeRole = async (
+  auth: AuthContext,
+  group: RosterGroup,
+  membership: GroupMembership,
+  update: z.infer<typeof UpdateMemberSchema>,
+): Promise<GroupMembership> => {
+  const fields: Partial<GroupMembership> = {}
+  if (update.role !== undefined) {
+    fields.role = update.role
+  }
+  if (update.joined_on !== undefined) {
+    fields.joined_on = update.joined_on
+  }
+  if (update.notes !== undefined) {
+    fields.notes = update.notes
+  }
+
+  const updated = await updateMembership(membership.id, fields)
+
+  if (update.role === "contact") {
+    await setContact(group, membership.person_id)
+  } else if (update.role && group.primary_contact_id === membership.person_id) {
+    await setContact(group, null)
+  }
+
+  if (update.role && update.role !== membership.role) {
+    await recordActivity(auth, group.log_id, {
+      name: "Role Changed",
+      summary: `${await personName(membership.person_id)}: ${membership.role} → ${update.role}`,
+      data: { membership_id: membership.id, person_id: membership.person_id, from: membership.role, to: update.role },
+    })
+  }
+
+  return updated
+}
+
+const closeMembership = async (
+  group: RosterGroup,
+  membership: GroupMembership,
+  fields: { left_on: string; left_reason: MembershipEndReason; transferred_to_id?: string | null; notes?: string | null },
+): Promise<GroupMembership> => {
+  const closed = await updateMembership(membership.id, {
+    left_on: fields.left_on,
+    left_reason: fields.left_reason,
+    transferred_to_id: fields.transferred_to_id ?? null,
+    notes: fields.notes ?? membership.notes,
+  })
+
+  await saveGroup(group.id, { members: group.members.filter((id) => id !== membership.person_id) })
+  return closed
+}
+
+export const removeMember = async (
+  auth: AuthContext,
+  group: RosterGroup,
+  membership: GroupMembership,
+  input: z.infer<typeof RemoveMemberSchema>,
+  now = new Date(),
+): Promise<GroupMembership> => {
+  const closed = await closeMembership(group, membership, {
+    left_on: input.left_on || today(now),
+    left_reason: input.reason,
+    notes: input.notes,
+  })
+
+  await recordActivity(auth, group.log_id, {
+    name: input.reason === "removed" ? "Member Removed" : "Member Left",
+    summary: `${await personName(membership.person_id)} left on ${closed.left_on}`,
+    details: input.notes || null,
+    data: { membership_id: membership.id, person_id: membership.person_id, reason: input.reason },
+  })
+
+  return closed
+}
+
+/*
+ * Moves a member to another I-Group: closes their membership here as "transferred" and opens one in
+ * the destination from the same date, as a plain member. Someone already on the destination's roster
+ * keeps their existing membership there.
+ */
+export const transferMember = async (
+  auth: AuthContext,
+  from: RosterGroup,
+  to: RosterGroup,
+  membership: GroupMembership,
+  input: z.infer<typeof TransferMemberSchema>,
+  now = new Date(),
+): Promise<{ left: GroupMembership; joined: GroupMembership }> => {
+  const on = input.transferred_on || today(now)
+  const left = await closeMembership(from, membership, {
+    left_on: on,
+    left_reason: "transferred",
+    transferred_to_id: to.id,
+    notes: input.notes,
+  })
+
+  let joined = await fetchOpenMembership(to.id, membership.person_id)
+  if (!joined) {
+    joined = await insertMembership({
+      i_group_id: to.id,
+      person_id: membership.person_id,
+      role: "member",
+      joined_on: on,
+      notes: input.notes || null,
+      recorded_by_id: auth.person_id,
+    })
+  }
+  if (!to.members.includes(membership.person_id)) {
+    await saveGroup(to.id, { members: [...to.members, membership.person_id] })
+  }
+
+  const name = await personName(membership.person_id)
+  const data = { person_id: membership.person_id, from_i_group_id: from.id, to_i_group_id: to.id }
+  await recordActivity(auth, from.log_id, {
+    name: "Member Transferred",
+    summary: `${name} moved to ${to.name} on ${on}`,
+    details: input.notes || null,
+    data: { ...data, membership_id: left.id },
+  })
+  await recordActivity(auth, to.log_id, {
+    name: "Member Transferred",
+    summary: `${name} joined from ${from.name} on ${on}`,
+    details: input.notes || null,
+    data: { ...data, membership_id: joined.id },
+  })
+
+  return { left, joined }
+}
+
+/*
+ * Brings the history in line after groups.members was replaced outright (the I-Group create and
+ * edit forms): people no longer listed have their memberships closed as removed, and newcomers get
+ * one opened, both dated today.
+ */
+export const syncMembershipHistory = async (
+  auth: AuthContext,
+  groupId: string,
+  before: string[],
+  after: string[],
+  now = new Date(),
+): Promise<void> => {
+  const removed = before.filter((id) => !after.includes(id))
+  const added = [...new Set(after.filter((id) => !before.includes(id)))]
+  const on = today(now)
+
+  if (removed.length > 0) {
+    const { error } = await supabase
+      .from("group_memberships")
+      .update({ left_on: on, left_reason: "removed", updated_at: now.toISOString() })
+      .eq("i_group_id", groupId)
+      .in("person_id", removed)
+      .is("left_on", null)
+
+    if (error) {
+      console.error(`[v0] Database error closing memberships of I-Group ${groupId}:`, error)
+      throw error
+    }
+  }
+
+  if (added.length > 0) {
+    const { error } = await supabase.from("group_memberships").upsert(
+      added.map((personId) => ({
+        i_group_id: groupId,
+        person_id: personId,
+        role: "member",
+        joined_on: on,
+        recorded_by_id: auth.person_id,
+      })),
+      { onConflict: "i_group_id,person_id", ignoreDuplicates: true },
+    )
+
+    if (error) {
+      console.error(`[v0] Database error opening memberships of I-Group ${groupId}:`, error)
+      throw error
+    }
+  }
+}
+
+const byRoleThenName = (a: RosterMember, b: RosterMember) =>
+  ROLE_ORDER.indexOf(a.role) - ROLE_ORDER.indexOf(b.role) ||
+  (a.person?.last_name || "").localeCompare(b.person?.last_name || "") ||
+  (a.person?.first_name || "").localeCompare(b.person?.first_name || "")
+
+export const fetchRoster = async (groupId: string): Promise<Omit<GroupRoster, "can_manage">> => {
+  const { data, error } = await supabase
+    .from("group_memberships")
+    .select(`*, person:people!person_id(${PERSON_FIELDS})`)
+    .eq("i_group_id", groupId)
+
+  if (error) {
+    console.error(`[v0] Database error fetching roster of I-Group ${groupId}:`, error)
+    throw error
+  }
+
+  const rows = (data || []) as RosterMember[]
+  return {
+    i_group_id: groupId,
+    current: rows.filter((row) => !row.left_on).sort(byRoleThenName),
+    past: rows.filter((row) => !!row.left_on).sort((a, b) => (b.left_on || "").localeCompare(a.left_on || "")),
+  }
+}
+
+// Every group a person has belonged to, current memberships first and then most recently left
+export const fetchGroupHistory = async (personId: string): Promise<GroupHistoryEntry[]> => {
+  const { data, error } = await supabase.from("group_memberships").select("*").eq("person_id", personId)
+
+  if (error) {
+    console.error(`[v0] Database error fetching group history of ${personId}:`, error)
+    throw error
+  }
+
+  const memberships = (data || []) as GroupMembership[]
+  const groupIds = [
+    ...new Set(memberships.flatMap((row) => [row.i_group_id, row.transferred_to_id]).filter((id): id is string => !!id)),
+  ]
+  const { data: groups, error: groupsError } = groupIds.length
+    ? await supabase.from("groups").select("id, name, is_active").in("id", groupIds)
+    : { data: [], error: null }
+
+  if (groupsError) {
+    console.error(`[v0] Database error fetching groups for the history of ${personId}:`, groupsError)
+    throw groupsError
+  }
+
+  const groupsById = new Map((groups || []).map((group: any) => [group.id as string, group]))
+
+  return memberships
+    .map((row) => {
+      const group = groupsById.get(row.i_group_id)
+      const transferredTo = row.transferred_to_id ? groupsById.get(row.transferred_to_id) : null
+      return {
+        ...row,
+        i_group: group ? { id: group.id, name: group.name, is_active: group.is_active !== false } : null,
+        transferred_to: transferredTo ? { id: transferredTo.id, name: transferredTo.name } : null,
+      }
+    })
+    .sort(
+      (a, b) =>
+        Number(!!a.left_on) - Number(!!b.left_on) ||
+        (b.left_on || "").localeCompare(a.left_on || "") ||
+        b.joined_on.localeCompare(a.joined_on),
+    )
+}
+
+const onRosterAt = (row: GroupMembership, date: string) => row.joined_on <= date && (!row.left_on || row.left_on > date)
+
+/*
+ * Roster health for the active I-Groups in scope. Counts come from the membership history: how many
+ * were on the roster at the start of the window against now, and who joined or left in between.
+ */
+export const buildGroupHealth = async (
+  scope: AreaScope | null,
+  filters: { community_id?: string; window_days?: number } = {},
+  now = new Date(),
+): Promise<GroupHealthReport> => {
+  const windowDays = filters.window_days || HEALTH_WINDOW_DAYS
+  const since = today(new Date(now.getTime() - windowDays * DAY_MS))
+
+  let query = supabase
+    .from("i_groups")
+    .select(`
+      id,
+      contact_email,
+      community_id,
+      group:groups!inner(name, primary_contact_id, is_active, deleted_at),
+      community:communities(name)
+    `)
+    .eq("is_active", true)
+  if (scope) {
+    query = query.or(areaScopeFilter(scope))
+  }
+  if (filters.community_id) {
+    query = query.eq("community_id", filters.community_id)
+  }
+
+  const { data: groups, error } = await query
+  if (error) {
+    console.error("[v0] Database error fetching I-Groups for the health report:", error)
+    throw error
+  }
+
+  const rows = (groups || []).filter((row: any) => row.group && !row.group.deleted_at && row.group.is_active !== false)
+  const groupIds = rows.map((row: any) => row.id as string)
+  const contactIds = [...new Set(rows.map((row: any) => row.group.primary_contact_id).filter(Boolean))] as string[]
+
+  const [membershipsResult, contactsResult] = await Promise.all([
+    groupIds.length
+      ? supabase.from("group_memberships").select("*").in("i_group_id", groupIds)
+      : Promise.resolve({ data: [], error: null }),
+    contactIds.length
+      ? supabase.from("people").select(PERSON_FIELDS).in("id", contactIds)
+      : Promise.resolve({ data: [], error: null }),
+  ])
+
+  if (membershipsResult.error || contactsResult.error) {
+    const loadError = membershipsResult.error || contactsResult.error
+    console.error("[v0] Database error building the group health report:", loadError)
+    throw loadError
+  }
+
+  const memberships = (membershipsResult.data || []) as GroupMembership[]
+  const contacts = new Map((contactsResult.data || []).map((person: any) => [person.id as string, person]))
+
+  const report: GroupHealthRow[] = rows.map((row: any) => {
+    const history = memberships.filter((membership) => membership.i_group_id === row.id)
+    const current = history.filter((membership) => !membership.left_on)
+    const contactId: string | null = row.group.primary_contact_id
+    const contact = contactId ? contacts.get(contactId) : null
+    const members = current.length
+    const membersBefore = history.filter((membership) => onRosterAt(membership, since)).length
+    const changes = history.flatMap((membership) => [membership.joined_on, membership.left_on]).filter(Boolean) as string[]
+
+    const flags: GroupHealthFlag[] = []
+    if (members < membersBefore) {
+      flags.push("shrinking")
+    }
+    if (members < MINIMUM_MEMBERS) {
+      flags.push("below_minimum")
+    }
+    if (!contactId && !row.contact_email) {
+      flags.push("no_contact")
+    }
+    if (contactId && !current.some((membership) => membership.person_id === contactId)) {
+      flags.push("contact_left")
+    }
+    if (contactId && !row.contact_email && (!contact || (!contact.email && !contact.phone))) {
+      flags.push("contact_unreachable")
+    }
+
+    return {
+      i_group_id: row.id,
+      name: row.group.name,
+      community_id: row.community_id,
+      community_name: row.community?.name ?? null,
+      members,
+      members_before: membersBefore,
+      joined: history.filter((membership) => membership.joined_on > since).length,
+      left: history.filter((membership) => !!membership.left_on && membership.left_on > since).length,
+      contact: contact
+        ? { id: contact.id, name: [contact.first_name, contact.last_name].filter(Boolean).join(" ") }
+        : null,
+      last_roster_change: changes.length ? changes.sort()[changes.length - 1] : null,
+      flags,
+    }
+  })
+
+  report.sort((a, b) => b.flags.length - a.flags.length || a.name.localeCompare(b.name))
+
+  return {
+    window_days: windowDays,
+    minimum_members: MINIMUM_MEMBERS,
+    since,
+    flagged: report.filter((row) => row.flags.length > 0).length,
+    groups: report,
+  }
+}
+
+export const groupHealthCsv = (report: GroupHealthReport): CsvCell[][] => [
+  ["I-Group", "Community", "Members", `Members on ${report.since}`, "Joined", "Left", "Contact", "Last Change", "Flags"],
+  ...report.groups.map((row) => [
+    row.name,
+    row.community_name,
+    row.members,
+    row.members_before,
+    row.joined,
+    row.left,
+    row.contact?.name ?? null,
+    row.last_roster_change,
+    row.flags.map((flag) => HEALTH_FLAG_LABELS[flag]).join("; "),
+  ]),
+]
@@ -0,0 +1,255 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node"
+import { toWallClock, zoneOffset } from "./timezones.js"
+
+/*
+ * Minimal RFC 5545 writer for the calendar feeds.
+ *
+ * Entries carry real instants plus the IANA zone they happen in; the writer emits DTSTART/DTEND as
+ * local times with a TZID and adds a VTIMEZONE for every zone used, so calendar apps show a 7pm
+ * Tuesday meeting at 7pm Tuesday in the venue's zone. Entries without a zone are written in UTC,
+ * except floating ones (an I-Group rule with no known zone), which are written as bare local times.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const MINUTE_MS = 60 * 1000
+
+const PRODID = "-//ManKind Project//EMMA//EN"
+
+export interface CalendarEntry {
+  uid: string
+  summary: string
+  description?: string | null
+  location?: string | null
+  url?: string | null
+  start: number // instant, or local wall time when floating
+  end: number
+  timeZone: string | null
+  floating?: boolean
+  rrule?: string | null
+  exdates?: string[] // local dates (YYYY-MM-DD), skipped at the entry's start time
+  status?: "CONFIRMED" | "TENTATIVE" | "CANCELLED"
+  categories?: string[]
+  updatedAt?: string | null
+}
+
+export interface CalendarFeed {
+  name: string
+  description?: string | null
+  timeZone?: string | null // the feed's main zone, for apps that read X-WR-TIMEZONE
+  entries: CalendarEntry[]
+}
+
+const escapeText = (text: string) =>
+  text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n")
+
+// Content lines are folded at 75 octets, continuing with a single space
+const foldLine = (line: string): string => {
+  const parts: string[] = []
+  let current = ""
+  let bytes = 0
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char)
+    if (bytes + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current)
+      current = ""
+      bytes = 0
+    }
+    current += char
+    bytes += size
+  }
+  parts.push(current)
+
+  return parts.join("\r\n ")
+}
+
+const formatWall = (wall: number) =>
+  new Date(wall)
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .slice(0, 15)
+
+const formatUtc = (instant: number) => `${formatWall(instant)}Z`
+
+const formatOffset = (offsetMs: number) => {
+  const minutes = Math.round(Math.abs(offsetMs) / MINUTE_MS)
+  const sign = offsetMs < 0 ? "-" : "+"
+  return `${sign}${String(Math.floor(minutes / 60)).padStart(2, "0")}${String(minutes % 60).padStart(2, "0")}`
+}
+
+const dateTime = (name: string, instant: number, entry: CalendarEntry) => {
+  if (entry.floating) {
+    return `${name}:${formatWall(instant)}`
+  }
+  if (entry.timeZone) {
+    return `${name};TZID=${entry.timeZone}:${formatWall(toWallClock(entry.timeZone, instant))}`
+  }
+  return `${name}:${formatUtc(instant)}`
+}
+
+interface Transition {
+  at: number // instant the offset changes
+  before: number
+  after: number
+}
+
+const transitionsIn = (timeZone: string, year: number): Transition[] => {
+  const transitions: Transition[] = []
+  const end = Date.UTC(year + 1, 0, 1)
+
+  for (let day = Date.UTC(year, 0, 1); day < end; day += DAY_MS) {
+    const before = zoneOffset(timeZone, day)
+    const after = zoneOffset(timeZone, day + DAY_MS)
+    if (before === after) {
+      continue
+    }
+
+    // Narrow the day down to the minute the clocks change
+    let low = day
+    let high = day + DAY_MS
+    while (high - low > MINUTE_MS) {
+      const middle = low + Math.floor((high - low) / 2 / MINUTE_MS) * MINUTE_MS
+      if (zoneOffset(timeZone, middle) === before) {
+        low = middle
+      } else {
+        high = middle
+      }
+    }
+    transitions.push({ at: high, before, after })
+  }
+
+  return transitions
+}
+
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"]
+
+// The nth (or, with -1, last) given weekday of a month, as a UTC day
+const nthWeekday = (year: number, month: number, weekday: number, ordinal: number) => {
+  if (ordinal > 0) {
+    const first = new Date(Date.UTC(year, month, 1)).getUTCDay()
+    return Date.UTC(year, month, 1 + ((weekday - first + 7) % 7) + (ordinal - 1) * 7)
+  }
+  const lastDate = new Date(Date.UTC(year, month + 1, 0))
+  return Date.UTC(year, month, lastDate.getUTCDate() - ((lastDate.getUTCDay() - weekday + 7) % 7))
+}
+
+/*
+ * A VTIMEZONE for the zone, with yearly rules read off this year's daylight saving changes (e.g.
+ * "second Sunday in March"). Zones that don't change get a single fixed observance.
+ */
+const vtimezone = (timeZone: string): string[] => {
+  const now = Date.now()
+  const transitions = transitionsIn(timeZone, new Date(now).getUTCFullYear())
+  const lines = ["BEGIN:VTIMEZONE", `TZID:${timeZone}`]
+
+  if (transitions.length === 0) {
+    const offset = formatOffset(zoneOffset(timeZone, now))
+    lines.push("BEGIN:STANDARD", "DTSTART:19700101T000000", `TZOFFSETFROM:${offset}`, `TZOFFSETTO:${offset}`, "END:STANDARD")
+  }
+
+  for (const transition of transitions) {
+    const wall = new Date(transition.at + transition.before)
+    const month = wall.getUTCMonth()
+    const weekday = wall.getUTCDay()
+    const lastDay = new Date(Date.UTC(wall.getUTCFullYear(), month + 1, 0)).getUTCDate()
+    const ordinal = wall.getUTCDate() + 7 > lastDay ? -1 : Math.ceil(wall.getUTCDate() / 7)
+    const kind = transition.after > transition.before ? "DAYLIGHT" : "STANDARD"
+    const timeOfDay = (transition.at + transition.before) % DAY_MS
+
+    lines.push(
+      `BEGIN:${kind}`,
+      `DTSTART:${formatWall(nthWeekday(1970, month, weekday, ordinal) + timeOfDay)}`,
+      `RRULE:FREQ=YEARLY;BYMONTH=${month + 1};BYDAY=${ordinal}${WEEKDAY_CODES[weekday]}`,
+      `TZOFFSETFROM:${formatOffset(transition.before)}`,
+      `TZOFFSETTO:${formatOffset(transition.after)}`,
+      `END:${kind}`,
+    )
+  }
+
+  lines.push("END:VTIMEZONE")
+  return lines
+}
+
+const eventLines = (entry: CalendarEntry, stamp: string): string[] => {
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${entry.uid}`,
+    `DTSTAMP:${stamp}`,
+    dateTime("DTSTART", entry.start, entry),
+    dateTime("DTEND", entry.end, entry),
+    `SUMMARY:${escapeText(entry.summary)}`,
+  ]
+
+  if (entry.rrule) {
+    lines.push(`RRULE:${entry.rrule.replace(/^RRULE:/i, "")}`)
+    const startTime = entry.floating ? entry.start : toWallClock(entry.timeZone, entry.start)
+    for (const date of entry.exdates || []) {
+      const skipped = Date.parse(`${date}T00:00:00Z`) + (startTime % DAY_MS)
+      if (!Number.isNaN(skipped)) {
+        lines.push(
+          entry.floating || !entry.timeZone
+            ? `EXDATE:${formatWall(skipped)}`
+            : `EXDATE;TZID=${entry.timeZone}:${formatWall(skipped)}`,
+        )
+      }
+    }
+  }
+  if (entry.description) {
+    lines.push(`DESCRIPTION:${escapeText(entry.description)}`)
+  }
+  if (entry.location) {
+    lines.push(`LOCATION:${escapeText(entry.location)}`)
+  }
+  if (entry.url) {
+    lines.push(`URL:${entry.url}`)
+  }
+  if (entry.status) {
+    lines.push(`STATUS:${entry.status}`)
+  }
+  if (entry.categories?.length) {
+    lines.push(`CATEGORIES:${entry.categories.map(escapeText).join(",")}`)
+  }
+  if (entry.updatedAt) {
+    lines.push(`LAST-MODIFIED:${formatUtc(new Date(entry.updatedAt).getTime())}`)
+  }
+
+  lines.push("END:VEVENT")
+  return lines
+}
+
+export const buildCalendar = (feed: CalendarFeed): string => {
+  const stamp = formatUtc(Date.now())
+  const zones = [
+    ...new Set(feed.entries.filter((entry) => !entry.floating && entry.timeZone).map((entry) => entry.timeZone as string)),
+  ]
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(feed.name)}`,
+    ...(feed.description ? [`X-WR-CALDESC:${escapeText(feed.description)}`] : []),
+    ...(feed.timeZone ? [`X-WR-TIMEZONE:${feed.timeZone}`] : []),
+    ...zones.flatMap(vtimezone),
+    ...feed.entries.flatMap((entry) => eventLines(entry, stamp)),
+    "END:VCALENDAR",
+  ]
+
+  return lines.map(foldLine).join("\r\n") + "\r\n"
+}
+
+// Served inline so calendar apps can subscribe; browsers still offer the file for download
+export const sendCalendar = (res: VercelResponse, filename: string, feed: CalendarFeed, isPrivate = false) => {
+  res.setHeader("Content-Type", "text/calendar; charset=utf-8")
+  res.setHeader("Content-Disposition", `inline; filename="${filename.replace(/[^\w.-]+/g, "-")}.ics"`)
+  res.setHeader("Cache-Control", isPrivate ? "private, no-store" : "public, max-age=900")
+  return res.status(200).send(buildCalendar(feed))
+}
+
+// Absolute links back into the app, for the URL of each entry
+export const requestOrigin = (req: VercelRequest) => {
+  const protocol = (req.headers["x-forwarded-proto"] as string | undefined)?.split(",")[0] || "https"
+  return req.headers.host ? `${protocol}://${req.headers.host}` : ""
+}
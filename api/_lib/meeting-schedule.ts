@@ -0,0 +1,424 @@
+import { z } from "zod"
+import { fromWallClock, toWallClock } from "./timezones.js"
+import type { EventTime } from "../../src/types/event"
+
+/*
+ * Recurring I-Group meetings.
+ *
+ * A group's schedule is an RFC 5545 RRULE (schedule_rrule) anchored at schedule_dtstart, the first
+ * meeting's local date and time, with EXDATE-style skipped local dates in schedule_exdates. Times are
+ * worked out in the group's timezone (schedule_timezone, else its venue's), so a 7pm Tuesday group
+ * stays at 7pm Tuesday local time across daylight saving changes and wherever the server runs.
+ *
+ * The supported subset is what meeting schedules need: FREQ, INTERVAL, COUNT, UNTIL, WKST, BYDAY
+ * (with ordinals such as 1TU or -1FR under MONTHLY and YEARLY), BYMONTHDAY, BYMONTH and BYSETPOS.
+ * The meeting time always comes from DTSTART, so BYHOUR and friends are rejected. Groups without a
+ * rule fall back to their concrete schedule_events.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const MINUTE_MS = 60 * 1000
+
+// Stops rules that can never match (e.g. BYMONTH=2;BYMONTHDAY=30) from looping forever
+const MAX_PERIODS = 5000
+
+export const DEFAULT_MEETING_MINUTES = 150
+export const DEFAULT_NEXT_MEETINGS = 4
+export const MAX_NEXT_MEETINGS = 26
+
+const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"]
+const FREQUENCIES = ["DAILY", "WEEKLY", "MONTHLY", "YEARLY"] as const
+
+type Frequency = (typeof FREQUENCIES)[number]
+
+interface WeekdayRule {
+  weekday: number // 0 = Sunday, as Date#getUTCDay
+  ordinal: number | null // 2 for "2TU", -1 for "-1FR"
+}
+
+export interface RecurrenceRule {
+  freq: Frequency
+  interval: number
+  count: number | null
+  until: string | null
+  weekStart: number
+  byDay: WeekdayRule[]
+  byMonthDay: number[]
+  byMonth: number[]
+  bySetPos: number[]
+}
+
+// The schedule columns of an i_groups row
+export interface MeetingSchedule {
+  schedule_rrule?: string | null
+  schedule_dtstart?: string | null
+  schedule_duration_minutes?: number | null
+  schedule_timezone?: string | null
+  schedule_exdates?: unknown
+  schedule_events?: unknown
+}
+
+const parseNumberList = (key: string, value: string, min: number, max: number) =>
+  value.split(",").map((part) => {
+    const number = Number(part)
+    if (!Number.isInteger(number) || number === 0 || Math.abs(number) < min || Math.abs(number) > max) {
+      throw new Error(`${key} has an invalid value "${part}"`)
+    }
+    return number
+  })
+
+const parseWeekday = (value: string) => {
+  const weekday = WEEKDAYS.indexOf(value)
+  if (weekday === -1) {
+    throw new Error(`"${value}" is not a weekday (use SU, MO, TU, WE, TH, FR or SA)`)
+  }
+  return weekday
+}
+
+// Throws an Error describing the first problem with the rule
+export const parseRecurrenceRule = (text: string): RecurrenceRule => {
+  const rule: RecurrenceRule = {
+    freq: "WEEKLY",
+    interval: 1,
+    count: null,
+    until: null,
+    weekStart: 1,
+    byDay: [],
+    byMonthDay: [],
+    byMonth: [],
+    bySetPos: [],
+  }
+  let hasFreq = false
+
+  for (const part of text.trim().replace(/^RRULE:/i, "").split(";").filter(Boolean)) {
+    const [key, value = ""] = part.toUpperCase().split("=")
+
+    switch (key) {
+      case "FREQ":
+        if (!FREQUENCIES.includes(value as Frequency)) {
+          throw new Error(`FREQ must be one of ${FREQUENCIES.join(", ")}`)
+        }
+        rule.freq = value as Frequency
+        hasFreq = true
+        break
+      case "INTERVAL":
+        rule.interval = Number(value)
+        if (!Number.isInteger(rule.interval) || rule.interval < 1) {
+          throw new Error("INTERVAL must be a positive whole number")
+        }
+        break
+      case "COUNT":
+        rule.count = Number(value)
+        if (!Number.isInteger(rule.count) || rule.count < 1) {
+          throw new Error("COUNT must be a positive whole number")
+        }
+        break
+      case "UNTIL":
+        if (!/^\d{8}(T\d{6}Z?)?$/.test(value)) {
+          throw new Error("UNTIL must look like 20261231 or 20261231T235959Z")
+        }
+        rule.until = value
+        break
+      case "WKST":
+        rule.weekStart = parseWeekday(value)
+        break
+      case "BYDAY":
+        rule.byDay = value.split(",").map((day) => {
+          const match = /^([+-]?\d{1,2})?([A-Z]{2})$/.exec(day)
+          if (!match) {
+            throw new Error(`BYDAY has an invalid value "${day}"`)
+          }
+          const ordinal = match[1] ? Number(match[1]) : null
+          if (ordinal !== null && (ordinal === 0 || Math.abs(ordinal) > 5)) {
+            throw new Error(`BYDAY ordinal in "${day}" must be between 1 and 5, or -1 and -5`)
+          }
+          return { weekday: parseWeekday(match[2]), ordinal }
+        })
+        break
+      case "BYMONTHDAY":
+        rule.byMonthDay = parseNumberList(key, value, 1, 31)
+        break
+      case "BYMONTH":
+        rule.byMonth = parseNumberList(key, value, 1, 12)
+        if (rule.byMonth.some((month) => month < 0)) {
+          throw new Error("BYMONTH values must be between 1 and 12")
+        }
+        break
+      case "BYSETPOS":
+        rule.bySetPos = parseNumberList(key, value, 1, 366)
+        break
+      default:
+        throw new Error(`${key} is not supported in meeting schedules`)
+    }
+  }
+
+  if (!hasFreq) {
+    throw new Error("The rule needs a FREQ")
+  }
+  if (rule.count !== null && rule.until !== null) {
+    throw new Error("A rule can have COUNT or UNTIL, not both")
+  }
+  if (rule.byDay.some((day) => day.ordinal !== null) && (rule.freq === "DAILY" || rule.freq === "WEEKLY")) {
+    throw new Error("Numbered weekdays such as 1TU only work with FREQ=MONTHLY or FREQ=YEARLY")
+  }
+
+  return rule
+}
+
+const ruleProblem = (text: string): string | null => {
+  try {
+    parseRecurrenceRule(text)
+    return null
+  } catch (error) {
+    return error instanceof Error ? error.message : "Invalid recurrence rule"
+  }
+}
+
+const isTimezone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Spread into the I-Group create and update schemas
+export const meetingScheduleFields = {
+  schedule_rrule: z
+    .string()
+    .trim()
+    .max(500)
+    .nullable()
+    .optional()
+    .superRefine((value, ctx) => {
+      const problem = value ? ruleProblem(value) : null
+      if (problem) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: problem })
+      }
+    }),
+  schedule_dtstart: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2})?$/, "The first meeting must be a local date and time")
+    .nullable()
+    .optional(),
+  schedule_duration_minutes: z.number().int().min(15).max(24 * 60).optional(),
+  schedule_timezone: z
+    .string()
+    .refine(isTimezone, "Unknown timezone")
+    .nullable()
+    .optional(),
+  schedule_exdates: z.array(z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Skipped dates must be YYYY-MM-DD")).optional(),
+}
+
+export const hasScheduleAnchor = (schedule: MeetingSchedule) => !schedule.schedule_rrule || !!schedule.schedule_dtstart
+
+export const MEETING_ANCHOR_MESSAGE = "A recurring schedule needs the date and time of its first meeting"
+
+// Local date and time written as UTC milliseconds (see timezones.ts)
+const parseWall = (value: string): number | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::(\d{2}))?/.exec(value)
+  return match ? Date.UTC(+match[1], +match[2] - 1, +match[3], +match[4], +match[5], +(match[6] || 0)) : null
+}
+
+const wallDate = (wall: number) => new Date(wall).toISOString().slice(0, 10)
+
+const untilWall = (until: string, timeZone: string | null) => {
+  const [, year, month, day, hour = "23", minute = "59", second = "59", utc] =
+    /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(until) || []
+  const wall = Date.UTC(+year, +month - 1, +day, +hour, +minute, +second)
+  return utc ? toWallClock(timeZone, wall) : wall
+}
+
+const monthDays = (rule: RecurrenceRule, year: number, month: number, anchorDay: number): number[] => {
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate()
+  const first = Date.UTC(year, month, 1)
+
+  const fromMonthDays = rule.byMonthDay
+    .map((day) => (day > 0 ? day : lastDay + day + 1))
+    .filter((day) => day >= 1 && day <= lastDay)
+
+  const fromWeekdays = rule.byDay.flatMap(({ weekday, ordinal }) => {
+    const offset = (weekday - new Date(first).getUTCDay() + 7) % 7
+    const matches: number[] = []
+    for (let day = 1 + offset; day <= lastDay; day += 7) {
+      matches.push(day)
+    }
+    if (ordinal === null) {
+      return matches
+    }
+    const pick = ordinal > 0 ? matches[ordinal - 1] : matches[matches.length + ordinal]
+    return pick === undefined ? [] : [pick]
+  })
+
+  let days: number[]
+  if (rule.byMonthDay.length > 0 && rule.byDay.length > 0) {
+    days = fromMonthDays.filter((day) => fromWeekdays.includes(day))
+  } else if (rule.byMonthDay.length > 0) {
+    days = fromMonthDays
+  } else if (rule.byDay.length > 0) {
+    days = fromWeekdays
+  } else {
+    // Months without the anchor's day (the 31st in June) are skipped, as RFC 5545 has it
+    days = anchorDay <= lastDay ? [anchorDay] : []
+  }
+
+  return [...new Set(days)].map((day) => first + (day - 1) * DAY_MS)
+}
+
+const yearMonth = (day: number): [number, number] => {
+  const date = new Date(day)
+  return [date.getUTCFullYear(), date.getUTCMonth()]
+}
+
+// Candidate days (local midnights) in the rule's nth period after the anchor day
+const periodDays = (rule: RecurrenceRule, anchor: number, period: number): number[] => {
+  const anchorDate = new Date(anchor)
+  const step = period * rule.interval
+  let days: number[]
+
+  switch (rule.freq) {
+    case "DAILY":
+      days = [anchor + step * DAY_MS]
+      if (rule.byDay.length > 0) {
+        days = days.filter((day) => rule.byDay.some(({ weekday }) => weekday === new Date(day).getUTCDay()))
+      }
+      if (rule.byMonthDay.length > 0) {
+        days = days.filter((day) => monthDays(rule, ...yearMonth(day), 0).includes(day))
+      }
+      break
+    case "WEEKLY": {
+      const weekStart = anchor - ((anchorDate.getUTCDay() - rule.weekStart + 7) % 7) * DAY_MS + step * 7 * DAY_MS
+      const weekdays = rule.byDay.length > 0 ? rule.byDay.map(({ weekday }) => weekday) : [anchorDate.getUTCDay()]
+      days = weekdays.map((weekday) => weekStart + ((weekday - rule.weekStart + 7) % 7) * DAY_MS)
+      break
+    }
+    case "MONTHLY": {
+      const month = anchorDate.getUTCMonth() + step
+      days = monthDays(rule, anchorDate.getUTCFullYear() + Math.floor(month / 12), month % 12, anchorDate.getUTCDate())
+      break
+    }
+    case "YEARLY": {
+      // Numbered weekdays count within each month here, which is how meeting schedules use them
+      const year = anchorDate.getUTCFullYear() + step
+      const months = rule.byMonth.length > 0 ? rule.byMonth.map((month) => month - 1) : [anchorDate.getUTCMonth()]
+      days = months.flatMap((month) => monthDays(rule, year, month, anchorDate.getUTCDate()))
+      break
+    }
+  }
+
+  if (rule.byMonth.length > 0) {
+    days = days.filter((day) => rule.byMonth.includes(new Date(day).getUTCMonth() + 1))
+  }
+
+  days = [...new Set(days)].sort((a, b) => a - b)
+
+  if (rule.bySetPos.length > 0) {
+    days = rule.bySetPos
+      .map((position) => (position > 0 ? days[position - 1] : days[days.length + position]))
+      .filter((day): day is number => day !== undefined)
+      .sort((a, b) => a - b)
+  }
+
+  return days
+}
+
+const readExdates = (exdates: unknown) =>
+  new Set((Array.isArray(exdates) ? exdates : []).filter((date): date is string => typeof date === "string"))
+
+// Concrete schedule_events, for groups that haven't been given a rule
+const listedMeetings = (events: unknown): EventTime[] =>
+  (Array.isArray(events) ? events : [])
+    .filter((event): event is EventTime => !!event?.start)
+    .map((event) => ({ start: event.start, end: event.end || event.start }))
+    .sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime())
+
+interface MeetingWindow {
+  from?: Date
+  to?: Date
+  limit?: number
+}
+
+/*
+ * Meetings ending after `from` (default now), up to `limit` of them and starting no later than `to`.
+ * COUNT counts every occurrence the rule generates, skipped dates included, as RFC 5545 does.
+ */
+export const upcomingMeetings = (
+  schedule: MeetingSchedule,
+  timeZone: string | null,
+  { from = new Date(), to, limit = DEFAULT_NEXT_MEETINGS }: MeetingWindow = {},
+): EventTime[] => {
+  const fromTime = from.getTime()
+  const toTime = to ? to.getTime() : Infinity
+
+  if (!schedule.schedule_rrule) {
+    return listedMeetings(schedule.schedule_events)
+      .filter((meeting) => new Date(meeting.end).getTime() > fromTime && new Date(meeting.start).getTime() <= toTime)
+      .slice(0, limit)
+  }
+
+  const anchorWall = schedule.schedule_dtstart ? parseWall(schedule.schedule_dtstart) : null
+  if (anchorWall === null) {
+    return []
+  }
+
+  let rule: RecurrenceRule
+  try {
+    rule = parseRecurrenceRule(schedule.schedule_rrule)
+  } catch (error) {
+    console.error(`[v0] Ignoring invalid meeting rule "${schedule.schedule_rrule}":`, error)
+    return []
+  }
+
+  const anchorDay = anchorWall - (anchorWall % DAY_MS)
+  const timeOfDay = anchorWall - anchorDay
+  const durationMs = (schedule.schedule_duration_minutes || DEFAULT_MEETING_MINUTES) * MINUTE_MS
+  const lastWall = rule.until ? untilWall(rule.until, timeZone) : Infinity
+  const skipped = readExdates(schedule.schedule_exdates)
+
+  const meetings: EventTime[] = []
+  let generated = 0
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    for (const day of periodDays(rule, anchorDay, period)) {
+      const startWall = day + timeOfDay
+      if (startWall < anchorWall) {
+        continue
+      }
+      if (startWall > lastWall || (rule.count !== null && generated >= rule.count)) {
+        return meetings
+      }
+      generated++
+
+      const start = fromWallClock(timeZone, startWall)
+      if (start > toTime) {
+        return meetings
+      }
+
+      const end = fromWallClock(timeZone, startWall + durationMs)
+      if (end <= fromTime || skipped.has(wallDate(startWall))) {
+        continue
+      }
+
+      meetings.push({ start: new Date(start).toISOString(), end: new Date(end).toISOString() })
+      if (meetings.length >= limit) {
+        return meetings
+      }
+    }
+  }
+
+  return meetings
+}
+
+export const meetingTimezone = (schedule: MeetingSchedule, venueTimezone?: string | null) =>
+  schedule.schedule_timezone || venueTimezone || null
+
+// Day of the week (0 = Sunday) a meeting falls on where the group meets, not where the server runs
+export const localWeekday = (instant: string, timeZone: string | null) =>
+  new Date(toWallClock(timeZone, new Date(instant).getTime())).getUTCDay()
+
+// Minutes after local midnight a meeting starts
+export const localMinuteOfDay = (instant: string, timeZone: string | null) => {
+  const wall = toWallClock(timeZone, new Date(instant).getTime())
+  return Math.floor((wall % DAY_MS) / MINUTE_MS)
+}
@@ -0,0 +1,437 @@
+import { z } from "zod"
+import { supabase } from "./supabase.js"
+import type { AuthContext } from "./auth.js"
+import { EVENT_MEMBERSHIP_FIELDS, recordActivity, recordRecordChange } from "./activity-log.js"
+import {
+  fetchRosterEvent,
+  isAtCapacity,
+  isSignupOpen,
+  moveOnRoster,
+  planRosterUpdate,
+  saveRoster,
+  type RosterEvent,
+  type RosterField,
+} from "./event-roster.js"
+import { escapeLikePattern } from "./pagination.js"
+import { intakePath, newIntakeToken } from "./rookie-intake.js"
+import type { PaymentProvider } from "./payments.js"
+import type { NwtaRegistrationInfo, NwtaRegistrationResult } from "../../src/types/nwta-registration"
+
+/*
+ * NWTA registration.
+ *
+ * Every NWTA registrant, whether they register from the public NWTA page or an enroller converts
+ * them from a prospect (prospect-funnel.ts), joins the NWTA through joinNwta(): they take a place in
+ * committed_participants while the capacity rules (planRosterUpdate()) allow it and go on
+ * waitlist_participants otherwise, and either way they are added to nwta_events.rookies, which
+ * close-out, rookie intake and the funnel work from.
+ *
+ * A public registrant is matched to an existing person by email address, or becomes a new people
+ * row, and is made a prospect at the "registered" stage and a registrant on the NWTA. One who gets a
+ * place pays the deposit by card through the configured payment provider (payments.ts) and it is
+ * recorded as a Payment on their transaction log, so it counts towards their balance; waitlisted
+ * registrants pay nothing until a place opens. Everything is undone if the card is declined. The
+ * result carries the registrant's intake link (rookie-intake.ts), since they may have no account.
+ */
+
+// Deposit taken online, in cents, never more than the NWTA's participant_cost. NWTA_DEPOSIT_CENTS overrides it.
+export const DEFAULT_DEPOSIT_CENTS = 15000
+
+const ROSTER_ATTEMPTS = 3
+
+export const RegistrationSchema = z.object({
+  first_name: z.string().trim().min(1, "First name is required"),
+  last_name: z.string().trim().min(1, "Last name is required"),
+  email: z.string().trim().email("A valid email address is required"),
+  phone: z.string().trim().min(7, "A phone number is required"),
+  notes: z.string().max(2000).optional().nullable(),
+  payment_token: z.string().min(1).optional().nullable(),
+})
+
+export interface RegistrationEvent {
+  roster: RosterEvent
+  is_published: boolean
+  participant_cost: number
+  start_at: string | null
+}
+
+export const depositFor = (event: Pick<RegistrationEvent, "participant_cost">): number => {
+  const configured = Number.parseInt(process.env.NWTA_DEPOSIT_CENTS || "", 10)
+  const deposit = Number.isFinite(configured) && configured >= 0 ? configured : DEFAULT_DEPOSIT_CENTS
+  return Math.min(deposit, event.participant_cost || 0)
+}
+
+export const fetchRegistrationEvent = async (eventId: string): Promise<RegistrationEvent | null> => {
+  const [roster, eventResult, nwtaResult] = await Promise.all([
+    fetchRosterEvent(eventId),
+    supabase
+      .from("events")
+      .select("is_published, participant_cost, start_at")
+      .eq("id", eventId)
+      .is("deleted_at", null)
+      .maybeSingle(),
+    supabase.from("nwta_events").select("id").eq("id", eventId).is("deleted_at", null).maybeSingle(),
+  ])
+
+  if (eventResult.error || nwtaResult.error) {
+    const error = eventResult.error || nwtaResult.error
+    console.error(`[v0] Database error fetching NWTA ${eventId} for registration:`, error)
+    throw error
+  }
+
+  if (!roster || !eventResult.data || !nwtaResult.data) {
+    return null
+  }
+
+  return {
+    roster,
+    is_published: !!eventResult.data.is_published,
+    participant_cost: eventResult.data.participant_cost || 0,
+    start_at: eventResult.data.start_at,
+  }
+}
+
+export const registrationInfo = (event: RegistrationEvent, provider: PaymentProvider | null): NwtaRegistrationInfo => {
+  const deposit = depositFor(event)
+  return {
+    event_id: event.roster.id,
+    event_name: event.roster.name,
+    is_open: event.is_published && isSignupOpen(event.roster, "participant"),
+    is_full: isAtCapacity(event.roster, "participant"),
+    cost: event.participant_cost,
+    deposit,
+    payments: provider ? { provider: provider.name, test_mode: provider.test_mode } : null,
+    can_pay_online: deposit === 0 || !!provider,
+  }
+}
+
+// Whether someone with this email address is already registered for the NWTA
+export const isAlreadyRegistered = async (eventId: string, email: string): Promise<boolean> => {
+  const { data, error } = await supabase
+    .from("registrants")
+    .select("id, people!inner(email)")
+    .eq("event_id", eventId)
+    .eq("is_active", true)
+    .ilike("people.email", escapeLikePattern(email))
+    .limit(1)
+
+  if (error) {
+    console.error(`[v0] Database error checking registrations for ${eventId}:`, error)
+    throw error
+  }
+
+  return (data || []).length > 0
+}
+
+// Adds the person to, or takes them off, the NWTA's rookies
+const setRookie = async (eventId: string, personId: string, isRookie: boolean) => {
+  const { data, error } = await supabase.from("nwta_events").select("rookies").eq("id", eventId).maybeSingle()
+
+  if (error) {
+    console.error(`[v0] Database error fetching the rookies of NWTA ${eventId}:`, error)
+    throw error
+  }
+
+  const current: string[] = data?.rookies || []
+  if (current.includes(personId) === isRookie) {
+    return
+  }
+
+  const rookies = isRookie ? [...current, personId] : current.filter((id) => id !== personId)
+  const { error: updateError } = await supabase.from("nwta_events").update({ rookies }).eq("id", eventId)
+
+  if (updateError) {
+    console.error(`[v0] Database error updating the rookies of NWTA ${eventId}:`, updateError)
+    throw updateError
+  }
+}
+
+// Gives the person a participant place, or a waitlist spot once the NWTA is full, re-reading the event if someone else wrote it meanwhile
+const joinRoster = async (auth: AuthContext, eventId: string, personId: string): Promise<RosterField> => {
+  for (let attempt = 0; attempt < ROSTER_ATTEMPTS; attempt++) {
+    const event = await fetchRosterEvent(eventId)
+    if (!event) {
+      throw new Error(`Event ${eventId} disappeared during registration`)
+    }
+
+    const place = moveOnRoster(event, "participant", personId, "committed_participants")
+    const list: RosterField = planRosterUpdate(event, place).error ? "waitlist_participants" : "committed_participants"
+    const updated = await saveRoster(event, moveOnRoster(event, "participant", personId, list))
+    if (updated) {
+      await recordRecordChange(auth, {
+        logId: updated.log_id,
+        entity: "Event",
+        action: "updated",
+        before: event,
+        after: updated,
+        membershipFields: EVENT_MEMBERSHIP_FIELDS,
+      })
+      return list
+    }
+  }
+
+  throw new Error(`Could not update the roster of event ${eventId}`)
+}
+
+const leaveRoster = async (eventId: string, personId: string) => {
+  for (let attempt = 0; attempt < ROSTER_ATTEMPTS; attempt++) {
+    const event = await fetchRosterEvent(eventId)
+    if (!event) {
+      return
+    }
+    if (await saveRoster(event, moveOnRoster(event, "participant", personId, null))) {
+      return
+    }
+  }
+  console.error(`[v0] Could not take ${personId} back off the roster of event ${eventId}`)
+}
+
+/*
+ * Puts a registrant on the NWTA: onto the participant roster under the capacity rules and into
+ * nwta_events.rookies. Returns the roster list they landed on.
+ */
+export const joinNwta = async (auth: AuthContext, eventId: string, personId: string): Promise<RosterField> => {
+  const list = await joinRoster(auth, eventId, personId)
+  try {
+    await setRookie(eventId, personId, true)
+  } catch (error) {
+    await leaveRoster(eventId, personId)
+    throw error
+  }
+  return list
+}
+
+// Undoes joinNwta() for a registration that didn't go through
+export const leaveNwta = async (eventId: string, personId: string) => {
+  await leaveRoster(eventId, personId)
+  try {
+    await setRookie(eventId, personId, false)
+  } catch {
+    console.error(`[v0] Could not take ${personId} back off the rookies of NWTA ${eventId}`)
+  }
+}
+
+// Deleting the person takes their prospect and registrant rows with them
+const discardPerson = async (personId: string) => {
+  const { error } = await supabase.from("people").delete().eq("id", personId)
+  if (error) {
+    console.error(`[v0] Failed to discard registration for ${personId}:`, error)
+  }
+}
+
+interface ProspectBefore {
+  log_id: string | null
+  stage: string | null
+  stage_changed_at: string | null
+  registered_event_id: string | null
+  registered_at: string | null
+}
+
+const PROSPECT_BEFORE_COLUMNS = "log_id, stage, stage_changed_at, registered_event_id, registered_at"
+
+const fetchProspectBefore = async (personId: string): Promise<ProspectBefore | null> => {
+  const { data, error } = await supabase.from("prospects").select(PROSPECT_BEFORE_COLUMNS).eq("id", personId).maybeSingle()
+
+  if (error) {
+    console.error(`[v0] Database error fetching prospect ${personId} for registration:`, error)
+    throw error
+  }
+
+  return data as ProspectBefore | null
+}
+
+/*
+ * Backs out a registration that didn't complete. A person created for it is deleted outright; an
+ * existing person loses the registrant row and gets their prospect back as it was.
+ */
+const undoRegistration = async (personId: string, createdPerson: boolean, prospectBefore: ProspectBefore | null) => {
+  if (createdPerson) {
+    await discardPerson(personId)
+    return
+  }
+
+  const { error: registrantError } = await supabase.from("registrants").delete().eq("id", personId)
+  const { error: prospectError } = prospectBefore
+    ? await supabase
+        .from("prospects")
+        .update({
+          stage: prospectBefore.stage,
+          stage_changed_at: prospectBefore.stage_changed_at,
+          registered_event_id: prospectBefore.registered_event_id,
+          registered_at: prospectBefore.registered_at,
+        })
+        .eq("id", personId)
+    : await supabase.from("prospects").delete().eq("id", personId)
+
+  if (registrantError || prospectError) {
+    console.error(`[v0] Failed to undo registration for ${personId}:`, registrantError || prospectError)
+  }
+}
+
+const createPerson = async (input: z.infer<typeof RegistrationSchema>): Promise<string> => {
+  const { data: person, error } = await supabase
+    .from("people")
+    .insert({
+      first_name: input.first_name,
+      last_name: input.last_name,
+      email: input.email,
+      phone: input.phone,
+      notes: input.notes || null,
+      is_active: true,
+    })
+    .select("id")
+    .single()
+
+  if (error) {
+    console.error("[v0] Person creation error during registration:", error)
+    throw error
+  }
+
+  return person.id as string
+}
+
+/*
+ * Registers someone from the public form. `existingPersonId` is the person their email address
+ * already belongs to (see findPersonByEmail()); the caller has checked they hold no registration.
+ */
+export const registerForNwta = async (
+  auth: AuthContext,
+  event: RegistrationEvent,
+  input: z.infer<typeof RegistrationSchema>,
+  provider: PaymentProvider | null,
+  existingPersonId: string | null,
+): Promise<NwtaRegistrationResult> => {
+  const roster = event.roster
+  const name = `${input.first_name} ${input.last_name}`
+  const now = new Date().toISOString()
+  const intakeToken = newIntakeToken()
+
+  const createdPerson = !existingPersonId
+  const personId = existingPersonId || (await createPerson(input))
+  const prospectBefore = existingPersonId ? await fetchProspectBefore(personId) : null
+  let joined = false
+
+  try {
+    const registeredFields = {
+      stage: "registered",
+      stage_changed_at: prospectBefore?.stage === "registered" ? prospectBefore.stage_changed_at : now,
+      registered_event_id: roster.id,
+      registered_at: now,
+    }
+    const { data: prospect, error: prospectError } = prospectBefore
+      ? await supabase
+          .from("prospects")
+          .update({ ...registeredFields, updated_at: now })
+          .eq("id", personId)
+          .select("id, log_id")
+          .single()
+      : await supabase
+          .from("prospects")
+          .insert({
+            id: personId,
+            area_id: roster.area_id,
+            community_id: roster.community_id,
+            is_active: true,
+            ...registeredFields,
+          })
+          .select("id, log_id")
+          .single()
+
+    if (prospectError) {
+      throw prospectError
+    }
+
+    const { data: registrant, error: registrantError } = await supabase
+      .from("registrants")
+      .insert({ id: personId, event_id: roster.id, is_active: true, intake_token: intakeToken })
+      .select()
+      .single()
+
+    if (registrantError) {
+      throw registrantError
+    }
+
+    const list = await joinNwta(auth, roster.id, personId)
+    joined = true
+    const waitlisted = list === "waitlist_participants"
+    const deposit = waitlisted ? 0 : depositFor(event)
+
+    let payment: { amount: number; reference: string } | null = null
+    if (deposit > 0) {
+      if (!provider || !input.payment_token) {
+        await leaveNwta(roster.id, personId)
+        await undoRegistration(personId, createdPerson, prospectBefore)
+        return { status: "payment_required", message: "A card is needed to pay the deposit" }
+      }
+
+      const charge = await provider.charge({
+        amount: deposit,
+        description: `${roster.name} deposit`,
+        token: input.payment_token,
+        payer: { name, email: input.email },
+        idempotency_key: `nwta-deposit-${registrant.id}`,
+        metadata: { event_id: roster.id, person_id: personId },
+      })
+
+      if (charge.status === "declined") {
+        await leaveNwta(roster.id, personId)
+        await undoRegistration(personId, createdPerson, prospectBefore)
+        return { status: "declined", message: charge.message }
+      }
+
+      const { error: paymentError } = await supabase.from("transaction_logs").insert({
+        log_id: registrant.transaction_log,
+        payor_person_id: personId,
+        payor_name: name,
+        payee_name: roster.name,
+        type: "Payment",
+        name: "NWTA deposit",
+        details: `Online registration deposit (${provider.name})`,
+        data: { provider: provider.name, reference: charge.reference, event_id: roster.id },
+        amount: deposit,
+        method: charge.method,
+        ordering: 1,
+        happened_at: now,
+      })
+
+      if (paymentError) {
+        // The card was charged but we couldn't record it: give the money back rather than lose track of it
+        console.error(`[v0] Failed to record deposit ${charge.reference}; refunding:`, paymentError)
+        await provider.refund(charge.reference, deposit)
+        throw paymentError
+      }
+
+      payment = { amount: deposit, reference: charge.reference }
+    }
+
+    await recordRecordChange(auth, {
+      logId: registrant.log_id,
+      entity: "Registrant",
+      action: "created",
+      after: { ...registrant, first_name: input.first_name, last_name: input.last_name },
+    })
+    await recordActivity(auth, roster.log_id, {
+      name: "Membership Changed",
+      summary: `Registrant "${name}" registered online${waitlisted ? " (waitlisted)" : ""}`,
+      data: { action: "membership", registrant_id: personId, list },
+    })
+    await recordActivity(auth, prospect.log_id, {
+      name: "Registered",
+      summary: `Registered online for ${roster.name}${waitlisted ? " and placed on the waitlist" : ""}`,
+      data: { event_id: roster.id, list, deposit: payment?.amount ?? 0 },
+    })
+
+    return {
+      status: waitlisted ? "waitlisted" : "registered",
+      person_id: personId,
+      payment,
+      intake_path: intakePath(roster.id, intakeToken),
+    }
+  } catch (error) {
+    if (joined) {
+      await leaveNwta(roster.id, personId)
+    }
+    await undoRegistration(personId, createdPerson, prospectBefore)
+    throw error
+  }
+}
@@ -0,0 +1,214 @@
+import { supabase } from "./supabase.js"
+import type {
+  NwtaRoleType,
+  RoleFit,
+  StaffPoolList,
+  StaffingBoard,
+  StaffingCandidate,
+  StaffingRole,
+} from "../../src/types/nwta-staffing"
+
+/*
+ * NWTA staffing board.
+ *
+ * The board's columns are the event's nwta_roles; its candidates are everyone on the event's
+ * potential_staff, committed_staff and alternate_staff lists. Each candidate is scored against each
+ * role from their warrior record:
+ *
+ *   - staffed_events: 4 points per NWTA staffed, up to 40
+ *   - lead_events:    4 points per team led, up to 20
+ *   - mos_events:     2 points per NWTA served as a man of service, up to 10
+ *   - status:         up to 30 (STATUS_POINTS)
+ *
+ * A role type's experience_level is the number of NWTAs a warrior must have staffed to fill it,
+ * and needs_experience is free text that may also name "lead", "leader" or "MOS" experience.
+ * Candidates who fall short of a role's requirement score half and the role shows a warning
+ * for anyone assigned to it who does.
+ */
+
+const STATUS_POINTS: Record<string, number> = {
+  rookie: 0,
+  initiated: 5,
+  staff: 10,
+  leader_track: 20,
+  full_leader: 30,
+}
+
+const LEADER_STATUSES = ["leader_track", "full_leader"]
+
+const POOL_LISTS: StaffPoolList[] = ["committed_staff", "potential_staff", "alternate_staff"]
+
+interface CandidateHistory {
+  status: string | null
+  staffed_count: number
+  lead_count: number
+  mos_count: number
+}
+
+export const requirementShortfalls = (roleType: NwtaRoleType | null, candidate: CandidateHistory): string[] => {
+  if (!roleType) {
+    return []
+  }
+
+  const shortfalls: string[] = []
+  const needs = (roleType.needs_experience || "").toLowerCase()
+
+  if (candidate.staffed_count < (roleType.experience_level || 0)) {
+    shortfalls.push(`has staffed ${candidate.staffed_count} of the ${roleType.experience_level} NWTAs this role needs`)
+  }
+  if (/\bleader\b/.test(needs) && !LEADER_STATUSES.includes(candidate.status || "")) {
+    shortfalls.push("is not on the leader track")
+  }
+  if (/\blead\b/.test(needs) && candidate.lead_count === 0) {
+    shortfalls.push("has not led a team")
+  }
+  if (/\bmos\b/.test(needs) && candidate.mos_count === 0) {
+    shortfalls.push("has not served as a man of service")
+  }
+
+  return shortfalls
+}
+
+export const scoreFit = (roleType: NwtaRoleType | null, candidate: CandidateHistory): RoleFit => {
+  const base =
+    Math.min(candidate.staffed_count, 10) * 4 +
+    Math.min(candidate.lead_count, 5) * 4 +
+    Math.min(candidate.mos_count, 5) * 2 +
+    (STATUS_POINTS[candidate.status || ""] || 0)
+  const shortfalls = requirementShortfalls(roleType, candidate)
+
+  return {
+    score: shortfalls.length > 0 ? Math.round(base / 2) : base,
+    meets_requirement: shortfalls.length === 0,
+    shortfalls,
+  }
+}
+
+const countOf = (value: unknown) => (Array.isArray(value) ? value.length : 0)
+
+export const fetchStaffingBoard = async (eventId: string): Promise<StaffingBoard | null> => {
+  const { data: event, error: eventError } = await supabase
+    .from("events")
+    .select("id, name, updated_at, potential_staff, committed_staff, alternate_staff")
+    .eq("id", eventId)
+    .maybeSingle()
+
+  if (eventError) {
+    console.error(`[v0] Database error fetching event ${eventId} for its staffing board:`, eventError)
+    throw eventError
+  }
+
+  if (!event) {
+    return null
+  }
+
+  const { data: roleRows, error: rolesError } = await supabase
+    .from("nwta_roles")
+    .select(`
+      id,
+      name,
+      summary,
+      lead_warrior_id,
+      warriors,
+      nwta_role_types(id, name, summary, needs_experience, experience_level, work_points, preparation_points)
+    `)
+    .eq("nwta_event_id", eventId)
+    .eq("is_active", true)
+    .is("deleted_at", null)
+    .order("name")
+
+  if (rolesError) {
+    console.error("[v0] Database error fetching NWTA roles:", rolesError)
+    throw rolesError
+  }
+
+  const listOf = new Map<string, StaffPoolList>()
+  for (const list of POOL_LISTS) {
+    for (const personId of (event[list] as string[] | null) || []) {
+      if (!listOf.has(personId)) {
+        listOf.set(personId, list)
+      }
+    }
+  }
+
+  const assigned = (roleRows || []).flatMap((role: any) => [role.lead_warrior_id, ...(role.warriors || [])])
+  const personIds = [...new Set([...listOf.keys(), ...assigned.filter((id): id is string => !!id)])]
+
+  const [peopleResult, warriorsResult] = personIds.length
+    ? await Promise.all([
+        supabase.from("people").select("id, first_name, last_name, photo_url").in("id", personIds),
+        supabase.from("warriors").select("id, status, staffed_events, lead_events, mos_events").in("id", personIds),
+      ])
+    : [{ data: [], error: null }, { data: [], error: null }]
+
+  if (peopleResult.error || warriorsResult.error) {
+    const error = peopleResult.error || warriorsResult.error
+    console.error("[v0] Database error fetching staffing candidates:", error)
+    throw error
+  }
+
+  const roleTypes = new Map<string, NwtaRoleType | null>()
+  for (const role of roleRows || []) {
+    roleTypes.set(role.id, (role.nwta_role_types as unknown as NwtaRoleType | null) || null)
+  }
+
+  const candidates: StaffingCandidate[] = (peopleResult.data || []).map((person: any) => {
+    const warrior = (warriorsResult.data || []).find((w: any) => w.id === person.id)
+    const history: CandidateHistory = {
+      status: warrior?.status || null,
+      staffed_count: countOf(warrior?.staffed_events),
+      lead_count: countOf(warrior?.lead_events),
+      mos_count: countOf(warrior?.mos_events),
+    }
+
+    return {
+      person_id: person.id,
+      first_name: person.first_name,
+      last_name: person.last_name,
+      photo_url: person.photo_url,
+      list: listOf.get(person.id) || null,
+      ...history,
+      fits: Object.fromEntries(
+        [...roleTypes.entries()].map(([roleId, roleType]) => [roleId, scoreFit(roleType, history)]),
+      ),
+    }
+  })
+
+  const candidateById = new Map(candidates.map((candidate) => [candidate.person_id, candidate]))
+
+  const roles: StaffingRole[] = (roleRows || []).map((role: any) => {
+    const warnings: string[] = []
+    if (!role.lead_warrior_id) {
+      warnings.push("No lead assigned")
+    }
+
+    for (const personId of [role.lead_warrior_id, ...(role.warriors || [])].filter(Boolean)) {
+      const candidate = candidateById.get(personId)
+      const name = candidate ? `${candidate.first_name} ${candidate.last_name}` : "Unknown person"
+      for (const shortfall of candidate?.fits[role.id]?.shortfalls || []) {
+        warnings.push(`${name} ${shortfall}`)
+      }
+      if (candidate && candidate.list !== "committed_staff") {
+        warnings.push(`${name} is not committed staff`)
+      }
+    }
+
+    return {
+      id: role.id,
+      name: role.name,
+      summary: role.summary,
+      role_type: roleTypes.get(role.id) || null,
+      lead_warrior_id: role.lead_warrior_id,
+      warriors: role.warriors || [],
+      warnings,
+    }
+  })
+
+  return {
+    event_id: event.id,
+    event_name: event.name,
+    updated_at: event.updated_at,
+    roles,
+    candidates: candidates.sort((a, b) => `${a.last_name} ${a.first_name}`.localeCompare(`${b.last_name} ${b.first_name}`)),
+  }
+}
@@ -0,0 +1,237 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node"
+
+/*
+ * Shared list contract for collection routes.
+ *
+ *   ?page=2&pageSize=50   offset paging; pages are 1-based and pageSize is capped at MAX_PAGE_SIZE
+ *   ?cursor=<nextCursor>  keyset paging that continues from a previous page (takes precedence over page)
+ *   ?sort=last_name       sort by one of the route's sortable columns; prefix with "-" for descending
+ *   ?q=smith              case-insensitive search across the route's search columns
+ *
+ * Requests without page, pageSize or cursor still get every matching row, so callers that load a
+ * whole collection (pickers, dropdowns) keep working. List responses add `total` (matching rows
+ * before paging), `page`, `pageSize` and `nextCursor` next to the usual `count` of rows in `data`.
+ */
+
+export const DEFAULT_PAGE_SIZE = 25
+export const MAX_PAGE_SIZE = 200
+
+export interface ListCursor {
+  value: unknown
+  id: string
+}
+
+export interface ListParams {
+  paged: boolean
+  page: number
+  pageSize: number
+  sort: string
+  ascending: boolean
+  q: string | null
+  cursor: ListCursor | null
+}
+
+export interface ListOptions {
+  // Columns clients may sort by, on the table the query selects from
+  sortable: string[]
+  // e.g. "-created_at"
+  defaultSort: string
+}
+
+export interface ListMeta {
+  total: number
+  page: number | null
+  pageSize: number | null
+  nextCursor: string | null
+}
+
+// The subset of the PostgREST builder the helpers need, so they work on any table's query
+interface ListQuery<Q> {
+  order(column: string, options?: { ascending?: boolean; nullsFirst?: boolean }): Q
+  range(from: number, to: number): Q
+  limit(count: number): Q
+  or(filters: string): Q
+}
+
+type ListRow = Record<string, any>
+
+const firstValue = (value: string | string[] | undefined): string | undefined =>
+  Array.isArray(value) ? value[0] : value
+
+const parsePositiveInt = (value: string | undefined): number | null => {
+  if (value === undefined) {
+    return null
+  }
+  const parsed = Number(value)
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : NaN
+}
+
+const parseSort = (sort: string): { column: string; ascending: boolean } =>
+  sort.startsWith("-") ? { column: sort.slice(1), ascending: false } : { column: sort, ascending: true }
+
+export const encodeCursor = (cursor: ListCursor): string =>
+  Buffer.from(JSON.stringify(cursor)).toString("base64url")
+
+const decodeCursor = (cursor: string): ListCursor | null => {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"))
+    return decoded && typeof decoded.id === "string" && "value" in decoded ? decoded : null
+  } catch {
+    return null
+  }
+}
+
+const sendInvalidListParam = (res: VercelResponse, error: string) => {
+  res.status(400).json({
+    success: false,
+    error,
+  })
+  return null
+}
+
+/*
+ * Reads page/pageSize/cursor/sort/q from the query string. Returns null after sending a 400 when
+ * one of them is malformed, in the same way authorizeRequest() does for auth failures. The older
+ * `search` parameter is still accepted as an alias for q.
+ */
+export const parseListParams = (req: VercelRequest, res: VercelResponse, options: ListOptions): ListParams | null => {
+  const page = parsePositiveInt(firstValue(req.query.page))
+  const pageSize = parsePositiveInt(firstValue(req.query.pageSize))
+  const cursorParam = firstValue(req.query.cursor)
+  const sortParam = firstValue(req.query.sort) || options.defaultSort
+  const q = (firstValue(req.query.q) ?? firstValue(req.query.search))?.trim()
+
+  if (Number.isNaN(page)) {
+    return sendInvalidListParam(res, "Invalid page parameter. It must be a positive integer.")
+  }
+
+  if (Number.isNaN(pageSize)) {
+    return sendInvalidListParam(res, "Invalid pageSize parameter. It must be a positive integer.")
+  }
+
+  const { column, ascending } = parseSort(sortParam)
+  if (!options.sortable.includes(column)) {
+    return sendInvalidListParam(res, `Invalid sort parameter. Sortable fields are: ${options.sortable.join(", ")}`)
+  }
+
+  const cursor = cursorParam ? decodeCursor(cursorParam) : null
+  if (cursorParam && !cursor) {
+    return sendInvalidListParam(res, "Invalid cursor parameter")
+  }
+
+  return {
+    paged: page !== null || pageSize !== null || cursor !== null,
+    page: page || 1,
+    pageSize: Math.min(pageSize || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE),
+    sort: column,
+    ascending,
+    q: q || null,
+    cursor,
+  }
+}
+
+// Values inside or=() filters are double-quoted so commas, dots and parentheses in them are literal
+const quoteFilterValue = (value: unknown): string => `"${String(value).replace(/["\\]/g, "\\$&")}"`
+
+// Escapes LIKE wildcards so user input passed to .ilike() only ever matches itself, case-insensitively
+export const escapeLikePattern = (value: string): string => value.replace(/[\\%_]/g, "\\$&")
+
+export const searchFilter = (columns: string[], q: string): string =>
+  columns.map((column) => `${column}.ilike.${quoteFilterValue(`%${q}%`)}`).join(",")
+
+/*
+ * Keyset condition for "rows after the cursor" under ORDER BY sort (NULLS LAST), id. Rows with a
+ * null sort value come after every non-null one in both directions.
+ */
+const cursorFilter = (params: ListParams, cursor: ListCursor, idColumn: string): string => {
+  const after = params.ascending ? "gt" : "lt"
+  const id = quoteFilterValue(cursor.id)
+
+  if (cursor.value === null || cursor.value === undefined) {
+    return `and(${params.sort}.is.null,${idColumn}.${after}.${id})`
+  }
+
+  const value = quoteFilterValue(cursor.value)
+  return [
+    `${params.sort}.${after}.${value}`,
+    `and(${params.sort}.eq.${value},${idColumn}.${after}.${id})`,
+    `${params.sort}.is.null`,
+  ].join(",")
+}
+
+/*
+ * Applies sorting and paging to a list query. Filters (including q) must already be applied; the
+ * query should be selected with { count: "exact" } so listMeta() can report the total.
+ */
+export const applyListParams = <Q extends ListQuery<Q>>(query: Q, params: ListParams, idColumn = "id"): Q => {
+  let listQuery = query
+
+  if (params.cursor) {
+    listQuery = listQuery.or(cursorFilter(params, params.cursor, idColumn))
+  }
+
+  listQuery = listQuery
+    .order(params.sort, { ascending: params.ascending, nullsFirst: false })
+    .order(idColumn, { ascending: params.ascending })
+
+  if (!params.paged) {
+    return listQuery
+  }
+
+  if (params.cursor) {
+    return listQuery.limit(params.pageSize)
+  }
+
+  const from = (params.page - 1) * params.pageSize
+  return listQuery.range(from, from + params.pageSize - 1)
+}
+
+/*
+ * Paging metadata for a list response. `rows` are the raw database rows (before any transform) so
+ * the next cursor can be taken from the last row's sort column.
+ */
+export const listMeta = (params: ListParams, rows: ListRow[], total: number | null, idColumn = "id"): ListMeta => {
+  if (!params.paged) {
+    return { total: total ?? rows.length, page: null, pageSize: null, nextCursor: null }
+  }
+
+  const last = rows[rows.length - 1]
+  const hasMore = rows.length === params.pageSize && !!last
+
+  return {
+    total: total ?? rows.length,
+    page: params.cursor ? null : params.page,
+    pageSize: params.pageSize,
+    nextCursor: hasMore ? encodeCursor({ value: last[params.sort] ?? null, id: last[idColumn] }) : null,
+  }
+}
+
+/*
+ * In-memory paging for routes that filter or sort rows after fetching them (distance sorting,
+ * schedule filters), where a database range would page before those steps run. `rows` must
+ * already be filtered and in sort order; a cursor whose row is no longer in the list ends paging.
+ */
+export const pageRows = <T extends ListRow>(
+  params: ListParams,
+  rows: T[],
+  idColumn = "id",
+): { rows: T[]; meta: ListMeta } => {
+  if (!params.paged) {
+    return { rows, meta: listMeta(params, rows, rows.length, idColumn) }
+  }
+
+  let start = (params.page - 1) * params.pageSize
+  if (params.cursor) {
+    const cursorId = params.cursor.id
+    const index = rows.findIndex((row) => row[idColumn] === cursorId)
+    start = index >= 0 ? index + 1 : rows.length
+  }
+
+  const page = rows.slice(start, start + params.pageSize)
+  const meta = listMeta(params, page, rows.length, idColumn)
+
+  return {
+    rows: page,
+    meta: { ...meta, nextCursor: start + page.length < rows.length ? meta.nextCursor : null },
+  }
+}
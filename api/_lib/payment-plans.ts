@@ -0,0 +1,161 @@
+import { z } from "zod"
+import { supabase } from "./supabase.js"
+import type { PaymentPlan, PaymentPlanInstallment, RegistrantBalance } from "../../src/types/payment-plan"
+
+/*
+ * Registrant payment plans and balances.
+ *
+ * A registrant's plan is stored as an activity_logs entry on the registrant's own log (name
+ * "Payment Plan", the plan in `data.plan`) and registrants.payment_plan points at the current one,
+ * so every revision of the plan stays in the registrant's history. Money received is recorded as
+ * transaction_logs rows whose log_id is registrants.transaction_log; the balance is the event's
+ * participant_cost less payments net of refunds.
+ */
+
+const InstallmentSchema = z.object({
+  amount: z.number().int().min(0, "Amounts must not be negative"),
+  due_on: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Due dates must be YYYY-MM-DD"),
+})
+
+export const PaymentPlanSchema = z.object({
+  deposit: InstallmentSchema,
+  installments: z.array(InstallmentSchema).max(36, "A plan can have at most 36 installments"),
+})
+
+export interface BalanceSource {
+  id: string
+  payment_plan: string | null
+  transaction_log: string | null
+  cost: number
+}
+
+interface LedgerRow {
+  log_id: string
+  type: string
+  amount: number
+}
+
+const today = (): string => new Date().toISOString().slice(0, 10)
+
+export const planSchedule = (plan: PaymentPlan): PaymentPlanInstallment[] =>
+  [plan.deposit, ...plan.installments].sort((a, b) => a.due_on.localeCompare(b.due_on))
+
+export const computeBalance = (
+  plan: PaymentPlan | null,
+  cost: number,
+  transactions: LedgerRow[],
+  asOf = today(),
+): RegistrantBalance => {
+  const paid = transactions.reduce((sum, tx) => {
+    if (tx.type === "Payment") {
+      return sum + tx.amount
+    }
+    if (tx.type === "Refund") {
+      return sum - tx.amount
+    }
+    return sum
+  }, 0)
+  const balance = cost - paid
+
+  if (!plan) {
+    return {
+      cost,
+      paid,
+      balance,
+      due_to_date: 0,
+      overdue: 0,
+      next_due: null,
+      status: balance <= 0 ? "paid_in_full" : "no_plan",
+    }
+  }
+
+  let scheduled = 0
+  let dueToDate = 0
+  let nextDue: PaymentPlanInstallment | null = null
+
+  for (const installment of planSchedule(plan)) {
+    // Never expect more than the event costs, whatever the plan adds up to
+    const amount = Math.max(0, Math.min(installment.amount, cost - scheduled))
+    scheduled += amount
+
+    if (installment.due_on <= asOf) {
+      dueToDate = scheduled
+    }
+    if (!nextDue && scheduled > paid) {
+      nextDue = { amount: Math.min(amount, scheduled - paid), due_on: installment.due_on }
+    }
+  }
+
+  const overdue = Math.max(0, dueToDate - paid)
+
+  return {
+    cost,
+    paid,
+    balance,
+    due_to_date: dueToDate,
+    overdue,
+    next_due: balance > 0 ? nextDue : null,
+    status: balance <= 0 ? "paid_in_full" : overdue > 0 ? "overdue" : "on_track",
+  }
+}
+
+export const fetchPaymentPlans = async (planIds: string[]): Promise<Map<string, PaymentPlan>> => {
+  const plans = new Map<string, PaymentPlan>()
+  if (planIds.length === 0) {
+    return plans
+  }
+
+  const { data, error } = await supabase.from("activity_logs").select("id, data").in("id", planIds)
+
+  if (error) {
+    console.error("[v0] Database error fetching payment plans:", error)
+    throw error
+  }
+
+  for (const entry of data || []) {
+    const parsed = PaymentPlanSchema.safeParse(entry.data?.plan)
+    if (parsed.success) {
+      plans.set(entry.id, parsed.data)
+    }
+  }
+
+  return plans
+}
+
+/*
+ * Plans and balances for a batch of registrants, in two queries regardless of the batch size.
+ */
+export const fetchRegistrantBalances = async (
+  registrants: BalanceSource[],
+): Promise<Map<string, { plan: PaymentPlan | null; balance: RegistrantBalance }>> => {
+  const planIds = registrants.map((r) => r.payment_plan).filter((id): id is string => !!id)
+  const logIds = registrants.map((r) => r.transaction_log).filter((id): id is string => !!id)
+
+  const plans = await fetchPaymentPlans(planIds)
+
+  let ledger: LedgerRow[] = []
+  if (logIds.length > 0) {
+    const { data, error } = await supabase
+      .from("transaction_logs")
+      .select("log_id, type, amount")
+      .in("log_id", logIds)
+      .is("deleted_at", null)
+
+    if (error) {
+      console.error("[v0] Database error fetching registrant transactions:", error)
+      throw error
+    }
+    ledger = data || []
+  }
+
+  const balances = new Map<string, { plan: PaymentPlan | null; balance: RegistrantBalance }>()
+  for (const registrant of registrants) {
+    const plan = (registrant.payment_plan && plans.get(registrant.payment_plan)) || null
+    const transactions = registrant.transaction_log
+      ? ledger.filter((tx) => tx.log_id === registrant.transaction_log)
+      : []
+    balances.set(registrant.id, { plan, balance: computeBalance(plan, registrant.cost, transactions) })
+  }
+
+  return balances
+}
@@ -0,0 +1,78 @@
+import { randomUUID } from "crypto"
+
+/*
+ * Online payments.
+ *
+ * Card payments go through a PaymentProvider so that the processor can be swapped without touching
+ * registration. The browser never sends card details to us: it hands the provider's client widget
+ * the card and sends us the resulting one-time `token`, which the provider's charge() redeems.
+ *
+ * The provider is chosen by the PAYMENT_PROVIDER environment variable. "fake" is a local stand-in
+ * that approves every charge except those made with FAKE_DECLINE_TOKEN; like any other provider it has
+ * to be named explicitly, in every environment. With PAYMENT_PROVIDER unset or unknown,
+ * getPaymentProvider() returns null and registrations that owe a deposit are refused.
+ */
+
+export interface ChargeRequest {
+  amount: number // cents
+  description: string
+  token: string
+  payer: { name: string; email: string | null }
+  idempotency_key: string // the same key never charges twice
+  metadata?: Record<string, string>
+}
+
+export type ChargeResult =
+  | { status: "succeeded"; reference: string; method: "Credit" | "Debit" }
+  | { status: "declined"; message: string }
+
+export interface PaymentProvider {
+  name: string
+  test_mode: boolean
+  charge(request: ChargeRequest): Promise<ChargeResult>
+  refund(reference: string, amount: number): Promise<void>
+}
+
+export const FAKE_DECLINE_TOKEN = "tok_fake_decline"
+
+export const FAKE_APPROVE_TOKEN = "tok_fake_approve"
+
+const fakeCharges = new Map<string, ChargeResult>()
+
+export const fakePaymentProvider: PaymentProvider = {
+  name: "fake",
+  test_mode: true,
+  async charge(request) {
+    const previous = fakeCharges.get(request.idempotency_key)
+    if (previous) {
+      return previous
+    }
+
+    const result: ChargeResult =
+      request.token === FAKE_DECLINE_TOKEN
+        ? { status: "declined", message: "The card was declined (test token)" }
+        : { status: "succeeded", reference: `fake_${randomUUID()}`, method: "Credit" }
+
+    console.log(`[v0] Fake payment provider: ${result.status} ${request.amount} cents for "${request.description}"`)
+    fakeCharges.set(request.idempotency_key, result)
+    return result
+  },
+  async refund(reference, amount) {
+    console.log(`[v0] Fake payment provider: refunded ${amount} cents of ${reference}`)
+  },
+}
+
+const PROVIDERS: Record<string, PaymentProvider> = {
+  fake: fakePaymentProvider,
+}
+
+export const getPaymentProvider = (): PaymentProvider | null => {
+  const name = process.env.PAYMENT_PROVIDER || ""
+  const provider = PROVIDERS[name]
+
+  if (name && !provider) {
+    console.error(`[v0] Unknown PAYMENT_PROVIDER "${name}"`)
+  }
+
+  return provider || null
+}
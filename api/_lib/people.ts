@@ -0,0 +1,21 @@
+import { supabase } from "./supabase.js"
+import { escapeLikePattern } from "./pagination.js"
+
+/*
+ * The person an email address belongs to, matched case-insensitively. Only an unambiguous match
+ * counts: null when nobody or more than one person has the address.
+ */
+export const findPersonByEmail = async (email: string | null | undefined): Promise<string | null> => {
+  if (!email) {
+    return null
+  }
+
+  const { data, error } = await supabase.from("people").select("id").ilike("email", escapeLikePattern(email)).limit(2)
+
+  if (error) {
+    console.error("[v0] Database error matching an email address to a person:", error)
+    throw error
+  }
+
+  return data && data.length === 1 ? data[0].id : null
+}
@@ -0,0 +1,438 @@
+import { z } from "zod"
+import { supabase } from "./supabase.js"
+import type { AuthContext } from "./auth.js"
+import { areaScopeFilter, type AreaScope } from "./area-scope.js"
+import { recordActivity, recordRecordChange } from "./activity-log.js"
+import { joinNwta } from "./nwta-registration.js"
+import { newIntakeToken } from "./rookie-intake.js"
+import type { RosterField } from "./roster-plan.js"
+import type { FunnelReport, FunnelRow, ProspectStage } from "../../src/types/prospect-funnel"
+
+/*
+ * Prospect enrollment funnel.
+ *
+ * A prospect moves from inquiry through an intro call and an open event to registering for an NWTA
+ * and, once that NWTA is closed out, being initiated. Enrollers record each conversation on the
+ * prospect's activity log, which also stamps last_contact_at; a prospect who hasn't registered and
+ * hasn't been spoken to for COLD_AFTER_DAYS is a cold lead.
+ */
+
+export const COLD_AFTER_DAYS = 21
+
+export const PROSPECT_STAGES: ProspectStage[] = [
+  "inquiry",
+  "intro_call",
+  "attended_open_event",
+  "registered",
+  "initiated",
+]
+
+const STAGE_LABELS: Record<ProspectStage, string> = {
+  inquiry: "Inquiry",
+  intro_call: "Intro Call",
+  attended_open_event: "Attended Open Event",
+  registered: "Registered",
+  initiated: "Initiated",
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const ProspectStageSchema = z.enum(["inquiry", "intro_call", "attended_open_event", "registered", "initiated"])
+
+export const ConversationSchema = z.object({
+  channel: z.enum(["phone", "in_person", "email", "text", "video", "other"]).default("phone"),
+  summary: z.string().trim().min(1, "Summarize the conversation"),
+  details: z.string().optional().nullable(),
+  next_step_on: z.string().date("Dates must be YYYY-MM-DD").optional().nullable(),
+  stage: ProspectStageSchema.optional().nullable(),
+})
+
+export const ConvertSchema = z.object({
+  event_id: z.string().uuid("Invalid event ID"),
+})
+
+export interface FunnelProspect {
+  id: string
+  log_id: string | null
+  stage: ProspectStage
+  stage_changed_at: string | null
+  last_contact_at: string | null
+  enroller_id: string | null
+  referred_by_id: string | null
+  registered_event_id: string | null
+  registered_at: string | null
+  area_id: string | null
+  community_id: string | null
+  is_active: boolean
+  created_at: string | null
+}
+
+const FUNNEL_PROSPECT_COLUMNS =
+  "id, log_id, stage, stage_changed_at, last_contact_at, enroller_id, referred_by_id, registered_event_id, registered_at, area_id, community_id, is_active, created_at"
+
+const hasRegistered = (stage: ProspectStage) =>
+  PROSPECT_STAGES.indexOf(stage) >= PROSPECT_STAGES.indexOf("registered")
+
+export const isCold = (prospect: Omit<FunnelProspect, "log_id">, now = new Date()): boolean => {
+  if (!prospect.is_active || hasRegistered(prospect.stage || "inquiry")) {
+    return false
+  }
+  const touched = [prospect.last_contact_at, prospect.stage_changed_at, prospect.created_at]
+    .filter((at): at is string => !!at)
+    .map((at) => new Date(at).getTime())
+  return touched.length > 0 && now.getTime() - Math.max(...touched) > COLD_AFTER_DAYS * DAY_MS
+}
+
+// The funnel columns of a prospects row as the prospects API returns them
+export const funnelFields = (row: any, now = new Date()) => ({
+  stage: (row.stage || "inquiry") as ProspectStage,
+  stage_changed_at: row.stage_changed_at ?? null,
+  last_contact_at: row.last_contact_at ?? null,
+  enroller_id: row.enroller_id ?? null,
+  referred_by_id: row.referred_by_id ?? null,
+  registered_event_id: row.registered_event_id ?? null,
+  registered_at: row.registered_at ?? null,
+  is_cold: isCold(row, now),
+})
+
+// Columns to write when a prospect's stage is set; nothing when it isn't actually changing
+export const stageUpdate = (current: ProspectStage | null | undefined, next: ProspectStage | null | undefined) =>
+  next && next !== current ? { stage: next, stage_changed_at: new Date().toISOString() } : {}
+
+export const recordStageChange = async (
+  auth: AuthContext,
+  prospect: Pick<FunnelProspect, "log_id" | "stage">,
+  next: ProspectStage,
+) => {
+  if (next === prospect.stage) {
+    return
+  }
+  await recordActivity(auth, prospect.log_id, {
+    name: "Stage Changed",
+    summary: `${STAGE_LABELS[prospect.stage || "inquiry"]} → ${STAGE_LABELS[next]}`,
+    data: { from: prospect.stage, to: next },
+  })
+}
+
+export const fetchFunnelProspect = async (id: string): Promise<FunnelProspect | null> => {
+  const { data, error } = await supabase.from("prospects").select(FUNNEL_PROSPECT_COLUMNS).eq("id", id).maybeSingle()
+
+  if (error) {
+    console.error(`[v0] Database error fetching prospect ${id}:`, error)
+    throw error
+  }
+
+  return data as FunnelProspect | null
+}
+
+const updateProspect = async (id: string, fields: Record<string, unknown>) => {
+  const { error } = await supabase
+    .from("prospects")
+    .update({ ...fields, updated_at: new Date().toISOString() })
+    .eq("id", id)
+
+  if (error) {
+    console.error(`[v0] Database error updating prospect ${id}:`, error)
+    throw error
+  }
+}
+
+/*
+ * Records an enrollment conversation on the prospect's log and marks them as contacted now.
+ * A conversation may also move them to a new stage (an intro call that just happened, say).
+ */
+export const recordConversation = async (
+  auth: AuthContext,
+  prospect: FunnelProspect,
+  conversation: z.infer<typeof ConversationSchema>,
+): Promise<string | null> => {
+  const contactedAt = new Date().toISOString()
+  await updateProspect(prospect.id, { last_contact_at: contactedAt, ...stageUpdate(prospect.stage, conversation.stage) })
+
+  const entryId = await recordActivity(auth, prospect.log_id, {
+    name: "Enrollment Conversation",
+    summary: conversation.summary,
+    details: conversation.details ?? null,
+    data: {
+      channel: conversation.channel,
+      next_step_on: conversation.next_step_on ?? null,
+      stage: conversation.stage ?? null,
+    },
+  })
+
+  if (conversation.stage) {
+    await recordStageChange(auth, prospect, conversation.stage)
+  }
+
+  return entryId
+}
+
+export interface ConversionEvent {
+  id: string
+  name: string
+  log_id: string | null
+  area_id: string | null
+  community_id: string | null
+  start_at: string | null
+}
+
+// The NWTA a prospect is being registered for; null when the event doesn't exist or isn't an NWTA
+export const fetchConversionEvent = async (eventId: string): Promise<ConversionEvent | null> => {
+  const [eventResult, nwtaResult] = await Promise.all([
+    supabase
+      .from("events")
+      .select("id, name, log_id, area_id, community_id, start_at")
+      .eq("id", eventId)
+      .is("deleted_at", null)
+      .maybeSingle(),
+    supabase.from("nwta_events").select("id").eq("id", eventId).is("deleted_at", null).maybeSingle(),
+  ])
+
+  if (eventResult.error || nwtaResult.error) {
+    const error = eventResult.error || nwtaResult.error
+    console.error(`[v0] Database error fetching NWTA ${eventId} for conversion:`, error)
+    throw error
+  }
+
+  if (!eventResult.data || !nwtaResult.data) {
+    return null
+  }
+
+  return eventResult.data as ConversionEvent
+}
+
+// The event a person is already registered for, if any (a person holds at most one registration)
+export const fetchRegistration = async (personId: string): Promise<{ id: string; event_id: string } | null> => {
+  const { data, error } = await supabase.from("registrants").select("id, event_id").eq("id", personId).maybeSingle()
+
+  if (error) {
+    console.error(`[v0] Database error fetching registration for ${personId}:`, error)
+    throw error
+  }
+
+  return data
+}
+
+/*
+ * Registers the prospect for the NWTA: creates their registrant row, puts them on the NWTA the way
+ * public registration does (joinNwta(): a participant place or the waitlist, and the rookies) and
+ * moves them to the "registered" stage. The caller checks they aren't registered yet.
+ */
+export const convertToRegistrant = async (auth: AuthContext, prospect: FunnelProspect, event: ConversionEvent) => {
+  const { data: registrant, error: registrantError } = await supabase
+    .from("registrants")
+    .insert({ id: prospect.id, event_id: event.id, is_active: true, intake_token: newIntakeToken() })
+    .select("*, people!inner(first_name, last_name)")
+    .single()
+
+  if (registrantError) {
+    console.error(`[v0] Database error registering prospect ${prospect.id}:`, registrantError)
+    throw registrantError
+  }
+
+  let list: RosterField
+  try {
+    list = await joinNwta(auth, event.id, prospect.id)
+  } catch (error) {
+    console.error(`[v0] Could not add prospect ${prospect.id} to NWTA ${event.id}:`, error)
+    await supabase.from("registrants").delete().eq("id", prospect.id)
+    throw error
+  }
+  const waitlisted = list === "waitlist_participants"
+
+  const registeredAt = new Date().toISOString()
+  await updateProspect(prospect.id, {
+    ...stageUpdate(prospect.stage, "registered"),
+    registered_event_id: event.id,
+    registered_at: registeredAt,
+  })
+
+  const person = registrant.people as any
+  const name = `${person.first_name} ${person.last_name}`
+
+  // The embedded people row is left out of the diff; the names are only there to label the entry
+  await recordRecordChange(auth, {
+    logId: registrant.log_id,
+    entity: "Registrant",
+    action: "created",
+    after: { ...registrant, first_name: person.first_name, last_name: person.last_name },
+  })
+  await recordActivity(auth, event.log_id, {
+    name: "Membership Changed",
+    summary: `Registrant "${name}" added from prospects${waitlisted ? " (waitlisted)" : ""}`,
+    data: { action: "membership", registrant_id: prospect.id, list },
+  })
+  await recordActivity(auth, prospect.log_id, {
+    name: "Registered",
+    summary: `Registered for ${event.name}${waitlisted ? " and placed on the waitlist" : ""}`,
+    data: { event_id: event.id, list },
+  })
+  await recordStageChange(auth, prospect, "registered")
+
+  return { registrant_id: prospect.id, event_id: event.id, registered_at: registeredAt, waitlisted }
+}
+
+/*
+ * Moves the given people who are prospects at the registered stage or earlier to "initiated".
+ * Called by an NWTA's close-out; returns who moved so that reopening the NWTA can move them back.
+ */
+export const markProspectsInitiated = async (auth: AuthContext, personIds: string[]): Promise<string[]> => {
+  if (personIds.length === 0) {
+    return []
+  }
+
+  const { data, error } = await supabase
+    .from("prospects")
+    .select(FUNNEL_PROSPECT_COLUMNS)
+    .in("id", personIds)
+    .neq("stage", "initiated")
+
+  if (error) {
+    console.error("[v0] Database error fetching prospects to initiate:", error)
+    throw error
+  }
+
+  const prospects = (data || []) as FunnelProspect[]
+  for (const prospect of prospects) {
+    await updateProspect(prospect.id, stageUpdate(prospect.stage, "initiated"))
+    await recordStageChange(auth, prospect, "initiated")
+  }
+
+  return prospects.map((prospect) => prospect.id)
+}
+
+export const revertProspectsInitiated = async (auth: AuthContext, personIds: string[]) => {
+  for (const personId of personIds) {
+    const prospect = await fetchFunnelProspect(personId)
+    if (prospect?.stage === "initiated") {
+      await updateProspect(personId, stageUpdate(prospect.stage, "registered"))
+      await recordStageChange(auth, prospect, "registered")
+    }
+  }
+}
+
+const emptyRow = (key: string | null, label: string): FunnelRow => ({
+  key,
+  label,
+  total: 0,
+  reached: Object.fromEntries(PROSPECT_STAGES.map((stage) => [stage, 0])) as Record<ProspectStage, number>,
+  cold: 0,
+  conversion_rate: 0,
+})
+
+const addToRow = (row: FunnelRow, prospect: FunnelProspect, now: Date) => {
+  const index = PROSPECT_STAGES.indexOf(prospect.stage || "inquiry")
+  row.total += 1
+  PROSPECT_STAGES.slice(0, index + 1).forEach((stage) => (row.reached[stage] += 1))
+  if (isCold(prospect, now)) {
+    row.cold += 1
+  }
+}
+
+const finishRows = (rows: Map<string | null, FunnelRow>): FunnelRow[] =>
+  [...rows.values()]
+    .map((row) => ({ ...row, conversion_rate: row.total > 0 ? row.reached.registered / row.total : 0 }))
+    .sort((a, b) => b.total - a.total || a.label.localeCompare(b.label))
+
+/*
+ * Conversion report: for every area and every referring warrior, how many prospects reached each
+ * stage, how many have gone cold and what share registered. `from`/`to` limit it to prospects
+ * created in that window.
+ */
+export const buildFunnelReport = async (
+  scope: AreaScope | null,
+  filters: { area_id?: string; from?: string; to?: string } = {},
+  now = new Date(),
+): Promise<FunnelReport> => {
+  let query = supabase.from("prospects").select(FUNNEL_PROSPECT_COLUMNS)
+
+  if (filters.area_id) {
+    query = query.eq("area_id", filters.area_id)
+  }
+  if (filters.from) {
+    query = query.gte("created_at", filters.from)
+  }
+  if (filters.to) {
+    query = query.lte("created_at", `${filters.to}T23:59:59.999Z`)
+  }
+  if (scope) {
+    query = query.or(areaScopeFilter(scope))
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    console.error("[v0] Database error fetching prospects for funnel report:", error)
+    throw error
+  }
+
+  const prospects = (data || []) as FunnelProspect[]
+  const areaIds = [...new Set(prospects.map((prospect) => prospect.area_id).filter((id): id is string => !!id))]
+  const referrerIds = [
+    ...new Set(prospects.map((prospect) => prospect.referred_by_id).filter((id): id is string => !!id)),
+  ]
+
+  const [areasResult, peopleResult] = await Promise.all([
+    areaIds.length > 0
+      ? supabase.from("areas").select("id, name").in("id", areaIds)
+      : Promise.resolve({ data: [], error: null }),
+    referrerIds.length > 0
+      ? supabase.from("people").select("id, first_name, last_name").in("id", referrerIds)
+      : Promise.resolve({ data: [], error: null }),
+  ])
+
+  if (areasResult.error || peopleResult.error) {
+    const lookupError = areasResult.error || peopleResult.error
+    console.error("[v0] Database error fetching funnel report labels:", lookupError)
+    throw lookupError
+  }
+
+  const areaNames = new Map((areasResult.data || []).map((area: any) => [area.id, area.name as string]))
+  const referrerNames = new Map(
+    (peopleResult.data || []).map((person: any) => [person.id, `${person.first_name} ${person.last_name}`]),
+  )
+
+  const totals = emptyRow(null, "All prospects")
+  const byArea = new Map<string | null, FunnelRow>()
+  const byReferrer = new Map<string | null, FunnelRow>()
+
+  for (const prospect of prospects) {
+    const areaKey = prospect.area_id
+    const referrerKey = prospect.referred_by_id
+    if (!byArea.has(areaKey)) {
+      byArea.set(areaKey, emptyRow(areaKey, (areaKey && areaNames.get(areaKey)) || "No area"))
+    }
+    if (!byReferrer.has(referrerKey)) {
+      byReferrer.set(referrerKey, emptyRow(referrerKey, (referrerKey && referrerNames.get(referrerKey)) || "No referrer"))
+    }
+    addToRow(totals, prospect, now)
+    addToRow(byArea.get(areaKey) as FunnelRow, prospect, now)
+    addToRow(byReferrer.get(referrerKey) as FunnelRow, prospect, now)
+  }
+
+  return {
+    cold_after_days: COLD_AFTER_DAYS,
+    totals: finishRows(new Map([[null, totals]]))[0],
+    by_area: finishRows(byArea),
+    by_referrer: finishRows(byReferrer),
+  }
+}
+
+export const funnelReportCsv = (report: FunnelReport) => {
+  const header = ["Group", "Name", "Prospects", ...PROSPECT_STAGES.map((stage) => STAGE_LABELS[stage]), "Cold", "Conversion %"]
+  const line = (group: string, row: FunnelRow) => [
+    group,
+    row.label,
+    row.total,
+    ...PROSPECT_STAGES.map((stage) => row.reached[stage]),
+    row.cold,
+    (row.conversion_rate * 100).toFixed(1),
+  ]
+
+  return [
+    header,
+    line("Total", report.totals),
+    ...report.by_area.map((row) => line("Area", row)),
+    ...report.by_referrer.map((row) => line("Referrer", row)),
+  ]
+}
@@ -0,0 +1,311 @@
+import { randomBytes } from "crypto"
+import { z } from "zod"
+import { supabase } from "./supabase.js"
+import type { AuthContext } from "./auth.js"
+import { recordActivity } from "./activity-log.js"
+import type { NwtaIntakes, RookieIntake, RookieIntakeStatus } from "../../src/types/rookie-intake"
+
+/*
+ * NWTA rookie intake: emergency contacts, medical and dietary information and the waiver.
+ *
+ * This is the most sensitive data we hold, so access is narrower than anywhere else: only the
+ * NWTA's leaders and staff holding a medical role (nwta_role_types.is_medical) see the whole
+ * event's intake, a rookie sees and fills in their own, and admins get nothing by virtue of being
+ * admins. A rookie without an account (most who register online) uses the intake link issued with
+ * their registration instead: its token stands in for signing in, for their own intake only.
+ * None of it is copied into activity logs. Intake rows are deleted INTAKE_RETENTION_DAYS
+ * after the NWTA ends by purgeExpiredIntakes, which runs daily (api/rookie-intakes/purge.ts). An
+ * NWTA without an end date is treated as ending when it starts, and an intake for one with neither
+ * date is kept INTAKE_RETENTION_DAYS from when it was filled in.
+ */
+
+export const INTAKE_RETENTION_DAYS = 30
+
+// Bump when the waiver text changes; rookies who signed an older version are asked to sign again
+export const WAIVER_VERSION = "2026-01"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const EmergencyContactSchema = z.object({
+  name: z.string().trim().min(1, "Contact name is required"),
+  relationship: z.string().optional().nullable(),
+  phone: z.string().trim().min(1, "Contact phone is required"),
+  email: z.string().email().optional().nullable().or(z.literal("")),
+})
+
+const MedicationSchema = z.object({
+  name: z.string().trim().min(1, "Medication name is required"),
+  dosage: z.string().optional().nullable(),
+  schedule: z.string().optional().nullable(),
+  notes: z.string().optional().nullable(),
+})
+
+export const IntakeSchema = z
+  .object({
+    person_id: z.string().uuid("Invalid person ID"),
+    emergency_contacts: z.array(EmergencyContactSchema).max(5).default([]),
+    medical_conditions: z.string().optional().nullable(),
+    allergies: z.string().optional().nullable(),
+    dietary_needs: z.string().optional().nullable(),
+    medications: z.array(MedicationSchema).max(50).default([]),
+    medical_notes: z.string().optional().nullable(),
+    // Signing: accept_waiver with the name typed as a signature
+    accept_waiver: z.boolean().optional(),
+    waiver_signed_name: z.string().trim().optional().nullable(),
+  })
+  .refine((intake) => !intake.accept_waiver || !!intake.waiver_signed_name, {
+    message: "Type your full name to sign the waiver",
+    path: ["waiver_signed_name"],
+  })
+
+export interface IntakeEvent {
+  id: string
+  name: string
+  log_id: string | null
+  primary_leader_id: string | null
+  leaders: string[] | null
+  start_at: string | null
+  end_at: string | null
+  rookies: string[]
+}
+
+// Secret in a rookie's intake link, stored on their registrants row when they register
+export const newIntakeToken = (): string => randomBytes(24).toString("base64url")
+
+export const intakePath = (eventId: string, token: string) => `/nwta/${eventId}?intake=${token}`
+
+// Who is looking at an NWTA's intake: the access they have and the person they are
+export interface IntakeCaller {
+  access: NwtaIntakes["access"]
+  person_id: string
+}
+
+export const fetchIntakeEvent = async (eventId: string): Promise<IntakeEvent | null> => {
+  const [eventResult, nwtaResult] = await Promise.all([
+    supabase
+      .from("events")
+      .select("id, name, log_id, primary_leader_id, leaders, start_at, end_at")
+      .eq("id", eventId)
+      .is("deleted_at", null)
+      .maybeSingle(),
+    supabase.from("nwta_events").select("rookies").eq("id", eventId).is("deleted_at", null).maybeSingle(),
+  ])
+
+  if (eventResult.error || nwtaResult.error) {
+    const error = eventResult.error || nwtaResult.error
+    console.error(`[v0] Database error fetching NWTA ${eventId} for intake:`, error)
+    throw error
+  }
+
+  if (!eventResult.data || !nwtaResult.data) {
+    return null
+  }
+
+  return { ...eventResult.data, rookies: nwtaResult.data.rookies || [] } as IntakeEvent
+}
+
+// Whether the caller holds a medical role, as lead or team member, on this NWTA
+const holdsMedicalRole = async (personId: string, eventId: string): Promise<boolean> => {
+  const { data, error } = await supabase
+    .from("nwta_roles")
+    .select("lead_warrior_id, warriors, nwta_role_types!inner(is_medical)")
+    .eq("nwta_event_id", eventId)
+    .eq("nwta_role_types.is_medical", true)
+
+  if (error) {
+    console.error(`[v0] Database error checking medical roles on ${eventId}:`, error)
+    throw error
+  }
+
+  return (data || []).some((role) => role.lead_warrior_id === personId || (role.warriors || []).includes(personId))
+}
+
+// The rookie an intake link was issued to, while they are still a rookie on this NWTA
+const fetchTokenHolder = async (event: IntakeEvent, token: string): Promise<string | null> => {
+  const { data, error } = await supabase
+    .from("registrants")
+    .select("id")
+    .eq("intake_token", token)
+    .eq("event_id", event.id)
+    .is("deleted_at", null)
+    .maybeSingle()
+
+  if (error) {
+    console.error(`[v0] Database error checking an intake link for ${event.id}:`, error)
+    throw error
+  }
+
+  return data && event.rookies.includes(data.id) ? data.id : null
+}
+
+export const intakeAccess = async (
+  auth: AuthContext,
+  event: IntakeEvent,
+  token?: string | null,
+): Promise<IntakeCaller | null> => {
+  const personId = auth.person_id
+  if (personId) {
+    if (event.primary_leader_id === personId || (event.leaders || []).includes(personId)) {
+      return { access: "staff", person_id: personId }
+    }
+
+    if (await holdsMedicalRole(personId, event.id)) {
+      return { access: "staff", person_id: personId }
+    }
+
+    if (event.rookies.includes(personId)) {
+      return { access: "self", person_id: personId }
+    }
+  }
+
+  const holder = token ? await fetchTokenHolder(event, token) : null
+  return holder ? { access: "self", person_id: holder } : null
+}
+
+// When the NWTA counts as over for retention: its end, or its start when no end was set
+const retentionFrom = (event: Pick<IntakeEvent, "start_at" | "end_at">): string | null => event.end_at || event.start_at
+
+export const intakePurgeOn = (event: Pick<IntakeEvent, "start_at" | "end_at">): string | null => {
+  const from = retentionFrom(event)
+  return from ? new Date(new Date(from).getTime() + INTAKE_RETENTION_DAYS * DAY_MS).toISOString().slice(0, 10) : null
+}
+
+export const isWaiverCurrent = (intake: RookieIntake | null): boolean =>
+  !!intake?.waiver_signed_at && intake.waiver_version === WAIVER_VERSION
+
+export const fetchIntakes = async (
+  event: IntakeEvent,
+  access: NwtaIntakes["access"],
+  personId: string,
+): Promise<NwtaIntakes> => {
+  const rookieIds = access === "staff" ? event.rookies : event.rookies.filter((id) => id === personId)
+
+  const [intakesResult, peopleResult, registrantsResult] = await Promise.all([
+    rookieIds.length > 0
+      ? supabase.from("rookie_intakes").select("*").eq("nwta_event_id", event.id).in("person_id", rookieIds)
+      : Promise.resolve({ data: [], error: null }),
+    rookieIds.length > 0
+      ? supabase.from("people").select("id, first_name, last_name").in("id", rookieIds)
+      : Promise.resolve({ data: [], error: null }),
+    // Staff hand out the intake links; a rookie already has their own
+    access === "staff" && rookieIds.length > 0
+      ? supabase.from("registrants").select("id, intake_token").eq("event_id", event.id).in("id", rookieIds)
+      : Promise.resolve({ data: [], error: null }),
+  ])
+
+  if (intakesResult.error || peopleResult.error || registrantsResult.error) {
+    const error = intakesResult.error || peopleResult.error || registrantsResult.error
+    console.error(`[v0] Database error fetching intakes for ${event.id}:`, error)
+    throw error
+  }
+
+  const intakes = new Map(((intakesResult.data || []) as RookieIntake[]).map((intake) => [intake.person_id, intake]))
+  const people = new Map((peopleResult.data || []).map((person: any) => [person.id, person]))
+  const tokens = new Map(
+    (registrantsResult.data || []).map((registrant: any) => [registrant.id, registrant.intake_token as string | null]),
+  )
+
+  const rookies: RookieIntakeStatus[] = rookieIds.map((id) => {
+    const intake = intakes.get(id) || null
+    const token = tokens.get(id)
+    return {
+      person_id: id,
+      first_name: people.get(id)?.first_name || "",
+      last_name: people.get(id)?.last_name || "",
+      intake,
+      has_emergency_contact: (intake?.emergency_contacts || []).length > 0,
+      waiver_signed: isWaiverCurrent(intake),
+      intake_path: token ? intakePath(event.id, token) : null,
+    }
+  })
+
+  return {
+    event_id: event.id,
+    access,
+    waiver_version: WAIVER_VERSION,
+    purge_on: intakePurgeOn(event),
+    rookies: rookies.sort((a, b) => `${a.last_name} ${a.first_name}`.localeCompare(`${b.last_name} ${b.first_name}`)),
+  }
+}
+
+export const saveIntake = async (
+  auth: AuthContext,
+  event: IntakeEvent,
+  input: z.infer<typeof IntakeSchema>,
+): Promise<RookieIntake> => {
+  const { accept_waiver, waiver_signed_name, ...fields } = input
+  const now = new Date().toISOString()
+
+  const { data, error } = await supabase
+    .from("rookie_intakes")
+    .upsert(
+      {
+        ...fields,
+        nwta_event_id: event.id,
+        emergency_contacts: fields.emergency_contacts.map((contact) => ({ ...contact, email: contact.email || null })),
+        updated_at: now,
+        // A waiver is only ever signed, never unsigned, by saving the form
+        ...(accept_waiver
+          ? {
+              waiver_version: WAIVER_VERSION,
+              waiver_signed_name,
+              waiver_signed_at: now,
+              waiver_recorded_by: auth.person_id,
+            }
+          : {}),
+      },
+      { onConflict: "nwta_event_id,person_id" },
+    )
+    .select()
+    .single()
+
+  if (error) {
+    console.error(`[v0] Database error saving intake for ${input.person_id}:`, error)
+    throw error
+  }
+
+  // Who and when only: the intake itself stays out of the activity log
+  await recordActivity(auth, event.log_id, {
+    name: accept_waiver ? "Waiver Signed" : "Intake Updated",
+    summary: accept_waiver ? `Waiver ${WAIVER_VERSION} signed for a rookie` : "Rookie intake updated",
+    data: { person_id: input.person_id },
+  })
+
+  return data as RookieIntake
+}
+
+/*
+ * Deletes the intake of every NWTA that ended more than INTAKE_RETENTION_DAYS ago, falling back to
+ * its start and then to the intake's own created_at when the dates are missing. Returns how many went.
+ */
+export const purgeExpiredIntakes = async (now = new Date()): Promise<number> => {
+  const cutoff = now.getTime() - INTAKE_RETENTION_DAYS * DAY_MS
+
+  const { data: intakes, error: expiredError } = await supabase
+    .from("rookie_intakes")
+    .select("id, created_at, event:events(start_at, end_at)")
+
+  if (expiredError) {
+    console.error("[v0] Database error finding expired intakes:", expiredError)
+    throw expiredError
+  }
+
+  const ids = (intakes || [])
+    .filter((intake: any) => {
+      const from = (intake.event && retentionFrom(intake.event)) || intake.created_at
+      return !!from && new Date(from).getTime() < cutoff
+    })
+    .map((intake: any) => intake.id as string)
+  if (ids.length === 0) {
+    return 0
+  }
+
+  const { error } = await supabase.from("rookie_intakes").delete().in("id", ids)
+
+  if (error) {
+    console.error("[v0] Database error purging expired intakes:", error)
+    throw error
+  }
+
+  return ids.length
+}
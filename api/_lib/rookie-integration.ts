@@ -0,0 +1,335 @@
+import { z } from "zod"
+import { supabase } from "./supabase.js"
+import { areaScopeFilter, type AreaScope } from "./area-scope.js"
+import { findIGroupsWithinRadius, lookupCityCoordinates, lookupZipcodeCoordinates, METERS_PER_MILE } from "./geo.js"
+import type {
+  IGroupSuggestion,
+  IntegrationFlag,
+  IntegrationStage,
+  RookieIntegration,
+  RookieIntegrationWithProgress,
+} from "../../src/types/rookie-integration"
+
+/*
+ * Rookie integration pipeline.
+ *
+ * Every rookie coming out of an NWTA gets a rookie_integrations row (started by the NWTA's close-out,
+ * or by hand) owned by their community's coordinator. The row records the date each stage was
+ * reached: contacted, attended an open I-Group, joined an I-Group, completed integration training.
+ * A rookie with no owner, or who has sat in the same stage for longer than STALLED_AFTER_DAYS, is
+ * flagged so area stewards can see who is falling through the cracks.
+ */
+
+export const STALLED_AFTER_DAYS = 30
+
+export const SUGGESTION_RADIUS_MILES = 25
+
+const SUGGESTION_LIMIT = 5
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Pipeline stages after "initiated", in order, with the column recording when each was reached
+export const INTEGRATION_STAGES: Array<{ stage: Exclude<IntegrationStage, "initiated">; field: keyof RookieIntegration }> =
+  [
+    { stage: "contacted", field: "contacted_on" },
+    { stage: "attended", field: "attended_on" },
+    { stage: "joined", field: "joined_on" },
+    { stage: "completed", field: "completed_on" },
+  ]
+
+const dateField = z.string().date("Dates must be YYYY-MM-DD").optional().nullable()
+
+export const StartIntegrationSchema = z.object({
+  warrior_id: z.string().uuid("Invalid warrior ID"),
+  nwta_event_id: z.string().uuid().optional().nullable(),
+  owner_id: z.string().uuid().optional().nullable(),
+})
+
+export const IntegrationUpdateSchema = z.object({
+  owner_id: z.string().uuid().optional().nullable(),
+  contacted_on: dateField,
+  attended_on: dateField,
+  attended_i_group_id: z.string().uuid().optional().nullable(),
+  joined_on: dateField,
+  joined_i_group_id: z.string().uuid().optional().nullable(),
+  completed_on: dateField,
+  notes: z.string().optional().nullable(),
+})
+
+export const withProgress = (
+  integration: RookieIntegration,
+  related: Pick<RookieIntegrationWithProgress, "warrior" | "nwta_event">,
+  stalledAfterDays = STALLED_AFTER_DAYS,
+  now = new Date(),
+): RookieIntegrationWithProgress => {
+  const reached = INTEGRATION_STAGES.filter(({ field }) => !!integration[field])
+  const current = reached[reached.length - 1]
+  const stage: IntegrationStage = current?.stage || "initiated"
+  const stageSince =
+    (current && (integration[current.field] as string)) ||
+    related.nwta_event?.end_at ||
+    integration.created_at ||
+    now.toISOString()
+  const daysInStage = Math.max(0, Math.floor((now.getTime() - new Date(stageSince).getTime()) / DAY_MS))
+
+  const flags: IntegrationFlag[] = []
+  if (stage !== "completed") {
+    if (!integration.owner_id) {
+      flags.push("no_owner")
+    }
+    if (daysInStage > stalledAfterDays) {
+      flags.push("stalled")
+    }
+  }
+
+  return {
+    ...integration,
+    ...related,
+    stage,
+    stage_since: stageSince.slice(0, 10),
+    days_in_stage: daysInStage,
+    flags,
+  }
+}
+
+// Adds the warrior's name and NWTA to each row and works out where they stand
+export const attachProgress = async (
+  integrations: RookieIntegration[],
+  stalledAfterDays = STALLED_AFTER_DAYS,
+  now = new Date(),
+): Promise<RookieIntegrationWithProgress[]> => {
+  const warriorIds = [...new Set(integrations.map((integration) => integration.warrior_id))]
+  const eventIds = [
+    ...new Set(integrations.map((integration) => integration.nwta_event_id).filter((id): id is string => !!id)),
+  ]
+
+  const [peopleResult, eventsResult] = await Promise.all([
+    warriorIds.length > 0
+      ? supabase.from("people").select("id, first_name, last_name, email, phone").in("id", warriorIds)
+      : Promise.resolve({ data: [], error: null }),
+    eventIds.length > 0
+      ? supabase.from("events").select("id, name, end_at").in("id", eventIds)
+      : Promise.resolve({ data: [], error: null }),
+  ])
+
+  if (peopleResult.error || eventsResult.error) {
+    const error = peopleResult.error || eventsResult.error
+    console.error("[v0] Database error fetching rookie integration details:", error)
+    throw error
+  }
+
+  const people = new Map((peopleResult.data || []).map((person: any) => [person.id, person]))
+  const events = new Map((eventsResult.data || []).map((event: any) => [event.id, event]))
+
+  return integrations.map((integration) =>
+    withProgress(
+      integration,
+      {
+        warrior: people.get(integration.warrior_id) || null,
+        nwta_event: (integration.nwta_event_id && events.get(integration.nwta_event_id)) || null,
+      },
+      stalledAfterDays,
+      now,
+    ),
+  )
+}
+
+export const fetchIntegrations = async (
+  scope: AreaScope | null,
+  filters: { area_id?: string; owner_id?: string; nwta_event_id?: string } = {},
+): Promise<RookieIntegration[]> => {
+  let query = supabase.from("rookie_integrations").select("*")
+
+  if (filters.area_id) {
+    query = query.eq("area_id", filters.area_id)
+  }
+  if (filters.owner_id) {
+    query = query.eq("owner_id", filters.owner_id)
+  }
+  if (filters.nwta_event_id) {
+    query = query.eq("nwta_event_id", filters.nwta_event_id)
+  }
+
+  if (scope) {
+    query = query.or(areaScopeFilter(scope))
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    console.error("[v0] Database error fetching rookie integrations:", error)
+    throw error
+  }
+
+  return (data || []) as RookieIntegration[]
+}
+
+export const fetchIntegration = async (id: string): Promise<RookieIntegration | null> => {
+  const { data, error } = await supabase.from("rookie_integrations").select("*").eq("id", id).maybeSingle()
+
+  if (error) {
+    console.error(`[v0] Database error fetching rookie integration ${id}:`, error)
+    throw error
+  }
+
+  return data as RookieIntegration | null
+}
+
+const fetchCoordinators = async (communityIds: string[]): Promise<Map<string, string | null>> => {
+  if (communityIds.length === 0) {
+    return new Map()
+  }
+
+  const { data, error } = await supabase.from("communities").select("id, coordinator_id").in("id", communityIds)
+
+  if (error) {
+    console.error("[v0] Database error fetching community coordinators:", error)
+    throw error
+  }
+
+  return new Map((data || []).map((community) => [community.id, community.coordinator_id]))
+}
+
+/*
+ * Starts the pipeline for warriors who don't have one yet, owned by their community's coordinator.
+ * Warriors already in the pipeline are left alone, so this is safe to call again. Returns the new rows.
+ */
+export const startIntegrations = async (
+  warriorIds: string[],
+  nwtaEventId: string | null,
+  ownerId: string | null = null,
+): Promise<RookieIntegration[]> => {
+  if (warriorIds.length === 0) {
+    return []
+  }
+
+  const { data: warriors, error: warriorsError } = await supabase
+    .from("warriors")
+    .select("id, area_id, community_id")
+    .in("id", warriorIds)
+
+  if (warriorsError) {
+    console.error("[v0] Database error fetching warriors for integration:", warriorsError)
+    throw warriorsError
+  }
+
+  const coordinators = await fetchCoordinators([
+    ...new Set((warriors || []).map((warrior) => warrior.community_id).filter((id): id is string => !!id)),
+  ])
+
+  const { data, error } = await supabase
+    .from("rookie_integrations")
+    .upsert(
+      (warriors || []).map((warrior) => ({
+        warrior_id: warrior.id,
+        nwta_event_id: nwtaEventId,
+        owner_id: ownerId || (warrior.community_id && coordinators.get(warrior.community_id)) || null,
+        area_id: warrior.area_id,
+        community_id: warrior.community_id,
+      })),
+      { onConflict: "warrior_id", ignoreDuplicates: true },
+    )
+    .select()
+
+  if (error) {
+    console.error("[v0] Database error starting rookie integrations:", error)
+    throw error
+  }
+
+  return (data || []) as RookieIntegration[]
+}
+
+// Drops the pipelines an NWTA started that nobody has made progress on yet (used when it is reopened)
+export const removeUntouchedIntegrations = async (nwtaEventId: string) => {
+  let query = supabase.from("rookie_integrations").delete().eq("nwta_event_id", nwtaEventId)
+  for (const { field } of INTEGRATION_STAGES) {
+    query = query.is(field, null)
+  }
+
+  const { error } = await query
+
+  if (error) {
+    console.error(`[v0] Database error removing integrations for event ${nwtaEventId}:`, error)
+    throw error
+  }
+}
+
+const personCoordinates = async (personId: string) => {
+  const { data: person, error } = await supabase
+    .from("people")
+    .select("physical_address:addresses!people_physical_address_id_fkey(city, state, postal_code)")
+    .eq("id", personId)
+    .maybeSingle()
+
+  if (error) {
+    console.error(`[v0] Database error fetching address for ${personId}:`, error)
+    throw error
+  }
+
+  const address = person?.physical_address as unknown as { city: string; state: string; postal_code: string } | null
+  if (!address) {
+    return null
+  }
+
+  return (
+    (address.postal_code && (await lookupZipcodeCoordinates(address.postal_code))) ||
+    (address.city && address.state ? await lookupCityCoordinates(address.city, address.state) : null)
+  )
+}
+
+/*
+ * Open I-Groups to send a new warrior to: the nearest groups accepting initiated visitors within
+ * radiusMiles of their home address, or, when we don't know where they live, the groups in their
+ * community that accept initiated visitors.
+ */
+export const suggestIGroups = async (
+  integration: RookieIntegration,
+  radiusMiles = SUGGESTION_RADIUS_MILES,
+): Promise<IGroupSuggestion[]> => {
+  const coordinates = await personCoordinates(integration.warrior_id)
+  const distances = coordinates ? await findIGroupsWithinRadius(coordinates, radiusMiles) : null
+
+  if (distances && distances.size === 0) {
+    return []
+  }
+
+  let query = supabase
+    .from("i_groups")
+    .select(
+      "id, community_id, schedule_description, is_requiring_contact_before_visiting, group:groups!inner(name, is_active, deleted_at)",
+    )
+    .eq("is_accepting_initiated_visitors", true)
+    .eq("is_active", true)
+    .is("deleted_at", null)
+
+  if (distances) {
+    query = query.in("id", [...distances.keys()])
+  } else if (integration.community_id) {
+    query = query.eq("community_id", integration.community_id)
+  } else {
+    return []
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    console.error("[v0] Database error fetching I-Group suggestions:", error)
+    throw error
+  }
+
+  return ((data || []) as any[])
+    .filter((iGroup) => iGroup.group?.is_active && !iGroup.group?.deleted_at)
+    .map((iGroup) => {
+      const meters = distances?.get(iGroup.id)
+      return {
+        id: iGroup.id,
+        name: iGroup.group.name,
+        community_id: iGroup.community_id,
+        schedule_description: iGroup.schedule_description,
+        is_requiring_contact_before_visiting: iGroup.is_requiring_contact_before_visiting,
+        distance_miles: meters === undefined ? null : Math.round((meters / METERS_PER_MILE) * 10) / 10,
+      }
+    })
+    .sort((a, b) => (a.distance_miles ?? Infinity) - (b.distance_miles ?? Infinity) || a.name.localeCompare(b.name))
+    .slice(0, SUGGESTION_LIMIT)
+}
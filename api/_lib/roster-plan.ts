@@ -0,0 +1,89 @@
+import type { Event } from "../../src/types/event"
+
+/*
+ * Capacity planning for event rosters, kept free of database access so the admin event editor can
+ * preview a save with exactly the rules the API applies (see event-roster.ts).
+ */
+
+export type RosterRole = "staff" | "participant"
+
+export type RosterField =
+  | "potential_staff"
+  | "committed_staff"
+  | "alternate_staff"
+  | "potential_participants"
+  | "committed_participants"
+  | "waitlist_participants"
+
+export type RosterChanges = Partial<Record<RosterField, string[]>>
+
+export type RosterState = Pick<Event, RosterField | "staff_capacity" | "participant_capacity">
+
+export interface RosterPromotion {
+  person_id: string
+  role: RosterRole
+  from: RosterField
+  to: RosterField
+}
+
+// The committed list of each role and the ordered list its openings are filled from
+const PROMOTION_LISTS: Record<
+  RosterRole,
+  { committed: RosterField; waiting: RosterField; capacity: "staff_capacity" | "participant_capacity" }
+> = {
+  staff: { committed: "committed_staff", waiting: "alternate_staff", capacity: "staff_capacity" },
+  participant: { committed: "committed_participants", waiting: "waitlist_participants", capacity: "participant_capacity" },
+}
+
+/*
+ * Applies the capacity rules to an update of an event's roster. `update` holds the fields being
+ * written; anything missing keeps its value from `before`. Returns an error when the update
+ * commits more people than the capacity allows, otherwise the extra changes needed to fill the
+ * openings left by removed committed people from the head of the waiting list. People who were
+ * just moved off the committed list are never promoted straight back onto it.
+ */
+export const planRosterUpdate = (
+  before: RosterState,
+  update: Partial<RosterState>,
+): { error: string | null; changes: RosterChanges; promotions: RosterPromotion[] } => {
+  const changes: RosterChanges = {}
+  const promotions: RosterPromotion[] = []
+
+  for (const role of ["staff", "participant"] as RosterRole[]) {
+    const lists = PROMOTION_LISTS[role]
+    const capacity = update[lists.capacity] ?? before[lists.capacity] ?? 0
+    const committedBefore = before[lists.committed] || []
+    const committed = update[lists.committed] ?? committedBefore
+    const waiting = update[lists.waiting] ?? before[lists.waiting] ?? []
+
+    if (capacity <= 0) {
+      continue
+    }
+
+    const added = committed.filter((id) => !committedBefore.includes(id))
+    if (added.length > 0 && committed.length > capacity) {
+      return {
+        error: `Cannot commit ${committed.length} ${role === "staff" ? "staff" : "participants"}; the ${role} capacity is ${capacity}`,
+        changes: {},
+        promotions: [],
+      }
+    }
+
+    const removed = committedBefore.filter((id) => !committed.includes(id))
+    const openings = Math.min(removed.length, capacity - committed.length)
+    if (openings <= 0) {
+      continue
+    }
+
+    const promoted = waiting.filter((id) => !removed.includes(id) && !committed.includes(id)).slice(0, openings)
+    if (promoted.length === 0) {
+      continue
+    }
+
+    changes[lists.committed] = [...committed, ...promoted]
+    changes[lists.waiting] = waiting.filter((id) => !promoted.includes(id))
+    promoted.forEach((id) => promotions.push({ person_id: id, role, from: lists.waiting, to: lists.committed }))
+  }
+
+  return { error: null, changes, promotions }
+}
@@ -0,0 +1,21 @@
+/*
+ * Session times on events (participant_schedule, staff_schedule) and I-Groups (schedule_events).
+ *
+ * Times are stored as {start, end}; a few older rows carry {start_at, end_at}. A span is the pair as
+ * epoch milliseconds, and a time that doesn't parse has no span.
+ */
+
+export interface SessionSpan {
+  start: number
+  end: number
+}
+
+export const readSessionSpan = (time: unknown): SessionSpan | null => {
+  const record = (time || {}) as Record<string, string | undefined>
+  const start = new Date(record.start || record.start_at || "").getTime()
+  const end = new Date(record.end || record.end_at || "").getTime()
+  return Number.isNaN(start) || Number.isNaN(end) ? null : { start, end }
+}
+
+export const sessionSpans = (times: unknown): SessionSpan[] =>
+  (Array.isArray(times) ? times : []).map(readSessionSpan).filter((span): span is SessionSpan => !!span)
@@ -0,0 +1,44 @@
+/*
+ * Wall-clock arithmetic in IANA timezones.
+ *
+ * A "wall" value is the local date and time in the zone written as if it were UTC milliseconds, so
+ * calendar math (add a day, keep 7pm) can be done with plain Date.UTC arithmetic and converted back
+ * to a real instant afterwards. A missing or unknown zone behaves as UTC.
+ */
+
+// Milliseconds the zone is ahead of UTC at the given instant; 0 for a missing or unknown zone
+export const zoneOffset = (timeZone: string | null, instant: number): number => {
+  if (!timeZone) {
+    return 0
+  }
+
+  try {
+    const parts = Object.fromEntries(
+      new Intl.DateTimeFormat("en-US", {
+        timeZone,
+        hourCycle: "h23",
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+        hour: "2-digit",
+        minute: "2-digit",
+        second: "2-digit",
+      })
+        .formatToParts(new Date(instant))
+        .map((part) => [part.type, part.value]),
+    )
+    const wall = Date.UTC(+parts.year, +parts.month - 1, +parts.day, +parts.hour, +parts.minute, +parts.second)
+    return wall - (instant - (instant % 1000))
+  } catch {
+    console.error(`[v0] Unknown timezone "${timeZone}", treating times as UTC`)
+    return 0
+  }
+}
+
+export const toWallClock = (timeZone: string | null, instant: number) => instant + zoneOffset(timeZone, instant)
+
+export const fromWallClock = (timeZone: string | null, wall: number) => {
+  // Second pass picks up the zone's offset on the far side of a daylight saving change
+  const guess = wall - zoneOffset(timeZone, wall)
+  return wall - zoneOffset(timeZone, guess)
+}
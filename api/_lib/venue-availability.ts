@@ -0,0 +1,211 @@
+import { z } from "zod"
+import { supabase } from "./supabase.js"
+import { sessionSpans, type SessionSpan } from "./session-spans.js"
+import type { VenueAvailability, VenueBooking, VenueConflict, VenuePeriod } from "../../src/types/venue-availability"
+
+/*
+ * Venue availability.
+ *
+ * A venue is occupied by the events booked there (events.venue_id) and by venue_periods: blackouts
+ * when the venue isn't available to us and holds we've placed ahead of an event. An event occupies
+ * the venue from its earliest staff or participant session to its latest one, since the staff arrive
+ * before start_at; that is the span conflicts are checked on.
+ *
+ * Conflicts never block a save. The event save endpoints return them as `conflicts` alongside the
+ * saved event so the admin pages can warn, because a tentative overlap is sometimes deliberate.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// How far staff sessions may start before start_at (or run past end_at) and still be found by the query
+const SESSION_MARGIN_DAYS = 7
+
+export const PeriodSchema = z
+  .object({
+    kind: z.enum(["blackout", "hold"]),
+    start_at: z.string().datetime({ offset: true, message: "Start must be a valid ISO datetime" }),
+    end_at: z.string().datetime({ offset: true, message: "End must be a valid ISO datetime" }),
+    reason: z.string().max(500).nullable().optional(),
+    event_id: z.string().uuid().nullable().optional(),
+  })
+  .refine((period) => new Date(period.end_at) > new Date(period.start_at), "A period has to end after it starts")
+
+export const AvailabilityQuerySchema = z.object({
+  from: z.string().datetime({ offset: true }).optional(),
+  to: z.string().datetime({ offset: true }).optional(),
+})
+
+// What an events row needs for its occupancy to be worked out
+export interface VenueEventRow {
+  id?: string
+  name?: string
+  venue_id?: string | null
+  start_at?: string | null
+  end_at?: string | null
+  participant_schedule?: unknown
+  staff_schedule?: unknown
+  is_active?: boolean | null
+  is_published?: boolean | null
+  event_type?: { color?: string | null } | null
+}
+
+const EVENT_COLUMNS =
+  "id, name, venue_id, start_at, end_at, participant_schedule, staff_schedule, is_active, is_published, event_type:event_types(color)"
+
+const overlaps = (a: SessionSpan, b: SessionSpan) => a.start < b.end && b.start < a.end
+
+export const eventOccupancy = (event: VenueEventRow): SessionSpan | null => {
+  const spans = [...sessionSpans(event.participant_schedule), ...sessionSpans(event.staff_schedule)]
+  if (event.start_at) {
+    const start = new Date(event.start_at).getTime()
+    spans.push({ start, end: event.end_at ? new Date(event.end_at).getTime() : start })
+  }
+
+  if (spans.length === 0) {
+    return null
+  }
+
+  return {
+    start: Math.min(...spans.map((span) => span.start)),
+    end: Math.max(...spans.map((span) => span.end)),
+  }
+}
+
+const fetchVenueEvents = async (venueId: string, window: SessionSpan): Promise<VenueEventRow[]> => {
+  const margin = SESSION_MARGIN_DAYS * DAY_MS
+  const from = new Date(window.start - margin).toISOString()
+  const to = new Date(window.end + margin).toISOString()
+
+  const { data, error } = await supabase
+    .from("events")
+    .select(EVENT_COLUMNS)
+    .eq("venue_id", venueId)
+    .eq("is_active", true)
+    .is("deleted_at", null)
+    .lt("start_at", to)
+    .or(`end_at.gt.${from},and(end_at.is.null,start_at.gte.${from})`)
+
+  if (error) {
+    console.error(`[v0] Database error fetching events at venue ${venueId}:`, error)
+    throw error
+  }
+
+  return (data || []) as VenueEventRow[]
+}
+
+const fetchVenuePeriods = async (venueId: string, window: SessionSpan): Promise<VenuePeriod[]> => {
+  const { data, error } = await supabase
+    .from("venue_periods")
+    .select("*")
+    .eq("venue_id", venueId)
+    .lt("start_at", new Date(window.end).toISOString())
+    .gt("end_at", new Date(window.start).toISOString())
+    .order("start_at")
+
+  if (error) {
+    console.error(`[v0] Database error fetching periods at venue ${venueId}:`, error)
+    throw error
+  }
+
+  return data || []
+}
+
+const toConflict = (row: VenueEventRow, span: SessionSpan): VenueConflict => ({
+  kind: "event",
+  id: row.id as string,
+  name: row.name || "Untitled event",
+  start_at: new Date(span.start).toISOString(),
+  end_at: new Date(span.end).toISOString(),
+})
+
+const periodConflict = (period: VenuePeriod): VenueConflict => ({
+  kind: period.kind,
+  id: period.id,
+  name: period.reason || (period.kind === "blackout" ? "Venue unavailable" : "Held"),
+  start_at: period.start_at,
+  end_at: period.end_at,
+})
+
+const periodSpan = (period: Pick<VenuePeriod, "start_at" | "end_at">): SessionSpan => ({
+  start: new Date(period.start_at).getTime(),
+  end: new Date(period.end_at).getTime(),
+})
+
+/*
+ * Other events, blackouts and holds overlapping the event's occupancy of its venue. A hold placed
+ * for this very event is its own reservation, not a conflict.
+ */
+export const findVenueConflicts = async (event: VenueEventRow): Promise<VenueConflict[]> => {
+  const span = eventOccupancy(event)
+  if (!event.venue_id || !span || event.is_active === false) {
+    return []
+  }
+
+  const [events, periods] = await Promise.all([
+    fetchVenueEvents(event.venue_id, span),
+    fetchVenuePeriods(event.venue_id, span),
+  ])
+
+  const eventConflicts = events
+    .filter((other) => other.id !== event.id)
+    .map((other) => ({ other, otherSpan: eventOccupancy(other) }))
+    .filter(({ otherSpan }) => !!otherSpan && overlaps(span, otherSpan))
+    .map(({ other, otherSpan }) => toConflict(other, otherSpan as SessionSpan))
+
+  const periodConflicts = periods
+    .filter((period) => !event.id || period.event_id !== event.id)
+    .map(periodConflict)
+
+  return [...eventConflicts, ...periodConflicts]
+}
+
+// Conflict checks must never cost the caller their save, so failures are logged and treated as none
+export const checkVenueConflicts = async (event: VenueEventRow): Promise<VenueConflict[]> => {
+  try {
+    return await findVenueConflicts(event)
+  } catch (error) {
+    console.error(`[v0] Failed to check venue conflicts for event ${event.id}:`, error)
+    return []
+  }
+}
+
+export const buildVenueAvailability = async (
+  venue: { id: string; timezone: string | null },
+  from: Date,
+  to: Date,
+): Promise<VenueAvailability> => {
+  const window = { start: from.getTime(), end: to.getTime() }
+  const [rows, periods] = await Promise.all([fetchVenueEvents(venue.id, window), fetchVenuePeriods(venue.id, window)])
+
+  const occupied = rows
+    .map((row) => ({ row, span: eventOccupancy(row) }))
+    .filter((entry): entry is { row: VenueEventRow; span: SessionSpan } => !!entry.span && overlaps(entry.span, window))
+
+  const events: VenueBooking[] = occupied
+    .map(({ row, span }) => ({
+      id: row.id as string,
+      name: row.name || "Untitled event",
+      start_at: new Date(span.start).toISOString(),
+      end_at: new Date(span.end).toISOString(),
+      color: row.event_type?.color || null,
+      is_published: !!row.is_published,
+      conflicts: [
+        ...occupied
+          .filter((other) => other.row.id !== row.id && overlaps(span, other.span))
+          .map((other) => toConflict(other.row, other.span)),
+        ...periods
+          .filter((period) => period.event_id !== row.id && overlaps(span, periodSpan(period)))
+          .map(periodConflict),
+      ],
+    }))
+    .sort((a, b) => a.start_at.localeCompare(b.start_at))
+
+  return {
+    venue_id: venue.id,
+    timezone: venue.timezone,
+    from: from.toISOString(),
+    to: to.toISOString(),
+    events,
+    periods,
+  }
+}
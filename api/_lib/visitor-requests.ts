@@ -0,0 +1,662 @@
+import { z } from "zod"
+import { supabase } from "./supabase.js"
+import { hasAccessLevel, systemContext, type AuthContext } from "./auth.js"
+import { areaScopeFilter, getAreaScope, isInAreaScope, type AreaScope } from "./area-scope.js"
+import { recordActivity, recordRecordChange } from "./activity-log.js"
+import type { CsvCell } from "./csv.js"
+import { escapeLikePattern } from "./pagination.js"
+import { findPersonByEmail } from "./people.js"
+import type {
+  VisitorReport,
+  VisitorReportRow,
+  VisitorRequest,
+  VisitorRequestStatus,
+  VisitorRequestWithGroup,
+} from "../../src/types/visitor-request"
+
+/*
+ * I-Group visitor requests.
+ *
+ * A visitor asks to attend from the group's public page. The request is routed to the group's
+ * primary contact (or, for groups without one, recorded against its contact_email) and shows up in
+ * their visitor inbox, where they accept or decline it and later mark the visitor as having
+ * attended. A request nobody has answered within the escalation period is escalated to the
+ * community's coordinator by escalateOverdueRequests, which runs daily
+ * (api/visitor-requests/escalate.ts). Groups can also record guests who simply turned up.
+ *
+ * A visitor becomes a member when their person record is in the group's members, which is what the
+ * conversion report counts. An anonymous request isn't linked to a person from the email the
+ * visitor typed; the link is made when the contact records them as attended or sets it by hand.
+ */
+
+export const ESCALATE_AFTER_DAYS = 3
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const VISITOR_STATUSES: VisitorRequestStatus[] = ["pending", "accepted", "declined", "attended"]
+
+const STATUS_LABELS: Record<VisitorRequestStatus, string> = {
+  pending: "Pending",
+  accepted: "Accepted",
+  declined: "Declined",
+  attended: "Attended",
+}
+
+// VISITOR_ESCALATION_DAYS overrides the default for the whole deployment
+export const escalationDays = (): number => {
+  const configured = Number.parseInt(process.env.VISITOR_ESCALATION_DAYS || "", 10)
+  return Number.isFinite(configured) && configured > 0 ? configured : ESCALATE_AFTER_DAYS
+}
+
+const optionalEmail = z.string().trim().email("A valid email address is required").optional().nullable().or(z.literal(""))
+const dateField = z.string().date("Dates must be YYYY-MM-DD").optional().nullable()
+
+export const VisitorStatusSchema = z.enum(["pending", "accepted", "declined", "attended"])
+
+export const VisitorRequestSchema = z
+  .object({
+    i_group_id: z.string().uuid("Invalid I-Group ID"),
+    first_name: z.string().trim().min(1, "First name is required"),
+    last_name: z.string().trim().min(1, "Last name is required"),
+    email: optionalEmail,
+    phone: z.string().trim().optional().nullable(),
+    is_initiated: z.boolean().default(false),
+    message: z.string().max(2000).optional().nullable(),
+    preferred_date: dateField,
+  })
+  .refine((request) => !!request.email || !!request.phone, {
+    message: "Leave an email address or phone number so the group can reach you",
+    path: ["email"],
+  })
+
+export const GuestSchema = z.object({
+  person_id: z.string().uuid("Invalid person ID").optional().nullable(),
+  first_name: z.string().trim().min(1, "First name is required"),
+  last_name: z.string().trim().min(1, "Last name is required"),
+  email: optionalEmail,
+  phone: z.string().trim().optional().nullable(),
+  is_initiated: z.boolean().default(false),
+  attended_on: z.string().date("Dates must be YYYY-MM-DD"),
+  response_note: z.string().optional().nullable(),
+})
+
+export const VisitorUpdateSchema = z.object({
+  status: VisitorStatusSchema.optional(),
+  response_note: z.string().optional().nullable(),
+  attended_on: dateField,
+  person_id: z.string().uuid("Invalid person ID").optional().nullable(),
+  routed_to_id: z.string().uuid("Invalid person ID").optional().nullable(),
+})
+
+export interface VisitorGroup {
+  id: string
+  name: string
+  log_id: string | null
+  primary_contact_id: string | null
+  contact_email: string | null
+  members: string[]
+  is_accepting_initiated_visitors: boolean
+  is_accepting_uninitiated_visitors: boolean
+  is_active: boolean
+  area_id: string | null
+  community_id: string | null
+  coordinator_id: string | null
+}
+
+export const fetchVisitorGroup = async (iGroupId: string): Promise<VisitorGroup | null> => {
+  const { data, error } = await supabase
+    .from("i_groups")
+    .select(`
+      id,
+      log_id,
+      contact_email,
+      is_accepting_initiated_visitors,
+      is_accepting_uninitiated_visitors,
+      is_active,
+      area_id,
+      community_id,
+      deleted_at,
+      group:groups!inner(name, primary_contact_id, members, is_active, deleted_at),
+      community:communities(coordinator_id)
+    `)
+    .eq("id", iGroupId)
+    .maybeSingle()
+
+  if (error) {
+    console.error(`[v0] Database error fetching I-Group ${iGroupId} for visitors:`, error)
+    throw error
+  }
+
+  const group = data?.group as any
+  if (!data || data.deleted_at || !group || group.deleted_at) {
+    return null
+  }
+
+  return {
+    id: data.id,
+    name: group.name,
+    log_id: data.log_id,
+    primary_contact_id: group.primary_contact_id,
+    contact_email: data.contact_email,
+    members: group.members || [],
+    is_accepting_initiated_visitors: data.is_accepting_initiated_visitors,
+    is_accepting_uninitiated_visitors: data.is_accepting_uninitiated_visitors,
+    is_active: data.is_active && group.is_active !== false,
+    area_id: data.area_id,
+    community_id: data.community_id,
+    coordinator_id: (data.community as any)?.coordinator_id ?? null,
+  }
+}
+
+// Why the group can't take this visitor, or null when it can
+export const visitorRefusal = (group: VisitorGroup, isInitiated: boolean): string | null => {
+  if (!group.is_active) {
+    return "This I-Group is not meeting at the moment"
+  }
+  if (isInitiated && !group.is_accepting_initiated_visitors) {
+    return "This I-Group is not accepting initiated visitors right now"
+  }
+  if (!isInitiated && !group.is_accepting_uninitiated_visitors) {
+    return "This I-Group is only open to men who have done the New Warrior Training Adventure"
+  }
+  return null
+}
+
+/*
+ * Group contacts, the community's coordinator and the admins of the group's area may work with its
+ * visitors.
+ */
+export const managesVisitorGroup = async (auth: AuthContext, group: VisitorGroup): Promise<boolean> => {
+  if (auth.is_national_admin) {
+    return true
+  }
+  if (auth.person_id && (auth.person_id === group.primary_contact_id || auth.person_id === group.coordinator_id)) {
+    return true
+  }
+  return hasAccessLevel(auth, "area_admin") && isInAreaScope(await getAreaScope(auth), group)
+}
+
+export const managesVisitorRequest = async (
+  auth: AuthContext,
+  request: VisitorRequest,
+  group: VisitorGroup | null,
+): Promise<boolean> => {
+  if (auth.person_id && (auth.person_id === request.routed_to_id || auth.person_id === request.escalated_to_id)) {
+    return true
+  }
+  if (group) {
+    return managesVisitorGroup(auth, group)
+  }
+  return auth.is_national_admin || (hasAccessLevel(auth, "area_admin") && isInAreaScope(await getAreaScope(auth), request))
+}
+
+/*
+ * The .or() filter limiting a visitor request list to the caller's inbox: requests routed or
+ * escalated to them, requests for groups they are the contact of or whose community they coordinate,
+ * and, for area admins, everything in their areas. null means no filter (national admins).
+ */
+export const visitorInboxFilter = async (auth: AuthContext, scope: AreaScope | null): Promise<string | null> => {
+  if (auth.is_national_admin) {
+    return null
+  }
+
+  const filters: string[] = []
+  const personId = auth.person_id
+
+  if (personId) {
+    const [groupsResult, communitiesResult] = await Promise.all([
+      supabase.from("groups").select("id").eq("primary_contact_id", personId).is("deleted_at", null),
+      supabase.from("communities").select("id").eq("coordinator_id", personId),
+    ])
+
+    if (groupsResult.error || communitiesResult.error) {
+      const error = groupsResult.error || communitiesResult.error
+      console.error(`[v0] Database error resolving visitor inbox for ${personId}:`, error)
+      throw error
+    }
+
+    filters.push(`routed_to_id.eq.${personId}`, `escalated_to_id.eq.${personId}`)
+    const groupIds = (groupsResult.data || []).map((group: { id: string }) => group.id)
+    const communityIds = (communitiesResult.data || []).map((community: { id: string }) => community.id)
+    if (groupIds.length > 0) {
+      filters.push(`i_group_id.in.(${groupIds.join(",")})`)
+    }
+    if (communityIds.length > 0) {
+      filters.push(`community_id.in.(${communityIds.join(",")})`)
+    }
+  }
+
+  if (scope && hasAccessLevel(auth, "area_admin")) {
+    filters.push(areaScopeFilter(scope))
+  }
+
+  // Nobody to match on: an id that can't exist keeps the list empty rather than unfiltered
+  return filters.length > 0 ? filters.join(",") : "id.is.null"
+}
+
+const fetchPersonEmail = async (personId: string | null): Promise<string | null> => {
+  if (!personId) {
+    return null
+  }
+
+  const { data, error } = await supabase.from("people").select("email").eq("id", personId).maybeSingle()
+
+  if (error) {
+    console.error(`[v0] Database error fetching email for ${personId}:`, error)
+    throw error
+  }
+
+  return data?.email || null
+}
+
+export const fetchVisitorRequest = async (id: string): Promise<VisitorRequest | null> => {
+  const { data, error } = await supabase.from("visitor_requests").select("*").eq("id", id).maybeSingle()
+
+  if (error) {
+    console.error(`[v0] Database error fetching visitor request ${id}:`, error)
+    throw error
+  }
+
+  return data as VisitorRequest | null
+}
+
+// Whether this email address already has an open request with the group
+export const hasOpenRequest = async (iGroupId: string, email: string | null | undefined): Promise<boolean> => {
+  if (!email) {
+    return false
+  }
+
+  const { data, error } = await supabase
+    .from("visitor_requests")
+    .select("id")
+    .eq("i_group_id", iGroupId)
+    .ilike("email", escapeLikePattern(email))
+    .in("status", ["pending", "accepted"])
+    .limit(1)
+
+  if (error) {
+    console.error("[v0] Database error checking for an open visitor request:", error)
+    throw error
+  }
+
+  return (data || []).length > 0
+}
+
+const insertVisitorRequest = async (
+  auth: AuthContext,
+  group: VisitorGroup,
+  fields: Partial<VisitorRequest>,
+): Promise<VisitorRequest> => {
+  const routedToEmail = (await fetchPersonEmail(group.primary_contact_id)) || group.contact_email
+
+  const { data: created, error } = await supabase
+    .from("visitor_requests")
+    .insert({
+      ...fields,
+      i_group_id: group.id,
+      routed_to_id: group.primary_contact_id,
+      routed_to_email: routedToEmail,
+      area_id: group.area_id,
+      community_id: group.community_id,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error(`[v0] Database error saving visitor request for ${group.id}:`, error)
+    throw error
+  }
+
+  await recordRecordChange(auth, { logId: created.log_id, entity: "Visitor request", action: "created", after: created })
+
+  return created as VisitorRequest
+}
+
+export const createVisitorRequest = async (
+  auth: AuthContext,
+  group: VisitorGroup,
+  request: z.infer<typeof VisitorRequestSchema>,
+): Promise<VisitorRequest> => {
+  const email = request.email || null
+  const created = await insertVisitorRequest(auth, group, {
+    person_id: auth.person_id,
+    first_name: request.first_name,
+    last_name: request.last_name,
+    email,
+    phone: request.phone || null,
+    is_initiated: request.is_initiated,
+    message: request.message || null,
+    preferred_date: request.preferred_date || null,
+    source: "request",
+    status: "pending",
+  })
+
+  await recordActivity(auth, group.log_id, {
+    name: "Visitor Request",
+    summary: `${request.first_name} ${request.last_name} asked to visit`,
+    data: { visitor_request_id: created.id, is_initiated: request.is_initiated },
+  })
+
+  return created
+}
+
+export const recordGuest = async (
+  auth: AuthContext,
+  group: VisitorGroup,
+  guest: z.infer<typeof GuestSchema>,
+): Promise<VisitorRequest> => {
+  const email = guest.email || null
+  const created = await insertVisitorRequest(auth, group, {
+    person_id: guest.person_id || (await findPersonByEmail(email)),
+    first_name: guest.first_name,
+    last_name: guest.last_name,
+    email,
+    phone: guest.phone || null,
+    is_initiated: guest.is_initiated,
+    source: "guest",
+    status: "attended",
+    attended_on: guest.attended_on,
+    response_note: guest.response_note || null,
+    responded_at: new Date().toISOString(),
+    responded_by_id: auth.person_id,
+  })
+
+  await recordActivity(auth, group.log_id, {
+    name: "Guest Attended",
+    summary: `${guest.first_name} ${guest.last_name} attended as a guest on ${guest.attended_on}`,
+    data: { visitor_request_id: created.id },
+  })
+
+  return created
+}
+
+/*
+ * Applies a response. Answering a pending request stamps who answered and when; marking a visitor
+ * attended defaults the date to today and links them to a person by email if nobody is linked yet.
+ */
+export const updateVisitorRequest = async (
+  auth: AuthContext,
+  request: VisitorRequest,
+  update: z.infer<typeof VisitorUpdateSchema>,
+  now = new Date(),
+): Promise<VisitorRequest> => {
+  const fields: Record<string, unknown> = { ...update }
+  const next = update.status
+
+  if (next && next !== request.status) {
+    if (request.status === "pending") {
+      fields.responded_at = now.toISOString()
+      fields.responded_by_id = auth.person_id
+    }
+    if (next === "attended" && update.attended_on === undefined && !request.attended_on) {
+      fields.attended_on = now.toISOString().slice(0, 10)
+    }
+    if (request.status === "attended" && update.attended_on === undefined) {
+      fields.attended_on = null
+    }
+  }
+
+  if ((next || request.status) === "attended" && update.person_id === undefined && !request.person_id) {
+    fields.person_id = await findPersonByEmail(request.email)
+  }
+
+  const { data: updated, error } = await supabase
+    .from("visitor_requests")
+    .update({ ...fields, updated_at: now.toISOString() })
+    .eq("id", request.id)
+    .select()
+    .single()
+
+  if (error) {
+    console.error(`[v0] Database error updating visitor request ${request.id}:`, error)
+    throw error
+  }
+
+  await recordRecordChange(auth, {
+    logId: updated.log_id,
+    entity: "Visitor request",
+    action: "updated",
+    before: request,
+    after: updated,
+  })
+
+  if (next && next !== request.status) {
+    await recordActivity(auth, updated.log_id, {
+      name: "Status Changed",
+      summary: `${STATUS_LABELS[request.status]} → ${STATUS_LABELS[next]}`,
+      details: update.response_note || null,
+      data: { from: request.status, to: next },
+    })
+  }
+
+  return updated as VisitorRequest
+}
+
+export const isOverdue = (request: Pick<VisitorRequest, "status" | "created_at">, days = escalationDays(), now = new Date()) =>
+  request.status === "pending" && !!request.created_at && now.getTime() - new Date(request.created_at).getTime() > days * DAY_MS
+
+/*
+ * Escalates pending requests older than the escalation period that haven't been escalated yet to
+ * their community's coordinator. Requests in communities without a coordinator are still marked
+ * escalated, which puts them on the area admins' overdue list. Returns how many were escalated.
+ */
+export const escalateOverdueRequests = async (now = new Date()): Promise<number> => {
+  const cutoff = new Date(now.getTime() - escalationDays() * DAY_MS).toISOString()
+
+  const { data, error } = await supabase
+    .from("visitor_requests")
+    .select("*, community:communities(coordinator_id)")
+    .eq("status", "pending")
+    .is("escalated_at", null)
+    .lt("created_at", cutoff)
+
+  if (error) {
+    console.error("[v0] Database error fetching overdue visitor requests:", error)
+    throw error
+  }
+
+  const auth = systemContext()
+  const requests = (data || []) as Array<VisitorRequest & { community: { coordinator_id: string | null } | null }>
+
+  for (const { community, ...request } of requests) {
+    const coordinatorId = community?.coordinator_id || null
+
+    const { error: updateError } = await supabase
+      .from("visitor_requests")
+      .update({ escalated_at: now.toISOString(), escalated_to_id: coordinatorId, updated_at: now.toISOString() })
+      .eq("id", request.id)
+      .eq("status", "pending")
+
+    if (updateError) {
+      console.error(`[v0] Database error escalating visitor request ${request.id}:`, updateError)
+      throw updateError
+    }
+
+    await recordActivity(auth, request.log_id, {
+      name: "Escalated",
+      summary: coordinatorId
+        ? `Unanswered after ${escalationDays()} days; escalated to the community coordinator`
+        : `Unanswered after ${escalationDays()} days; the community has no coordinator`,
+      data: { escalated_to_id: coordinatorId },
+    })
+  }
+
+  return requests.length
+}
+
+// Adds each request's I-Group and whether the visitor has since joined it
+export const attachGroups = async (
+  requests: VisitorRequest[],
+  now = new Date(),
+): Promise<VisitorRequestWithGroup[]> => {
+  const groupIds = [...new Set(requests.map((request) => request.i_group_id))]
+
+  const { data, error } = groupIds.length
+    ? await supabase.from("groups").select("id, name, members").in("id", groupIds)
+    : { data: [], error: null }
+
+  if (error) {
+    console.error("[v0] Database error fetching groups for visitor requests:", error)
+    throw error
+  }
+
+  const groups = new Map((data || []).map((group: any) => [group.id, group]))
+  const days = escalationDays()
+
+  return requests.map((request) => {
+    const group = groups.get(request.i_group_id)
+    const waiting =
+      request.status === "pending" && request.created_at
+        ? Math.floor((now.getTime() - new Date(request.created_at).getTime()) / DAY_MS)
+        : null
+    return {
+      ...request,
+      i_group: group ? { id: group.id, name: group.name } : null,
+      days_waiting: waiting,
+      is_overdue: isOverdue(request, days, now),
+      is_member: !!request.person_id && ((group?.members as string[]) || []).includes(request.person_id),
+    }
+  })
+}
+
+export const fetchVisitorRequests = async (
+  inboxFilter: string | null,
+  filters: { i_group_id?: string; community_id?: string; status?: VisitorRequestStatus; from?: string; to?: string } = {},
+): Promise<VisitorRequest[]> => {
+  let query = supabase.from("visitor_requests").select("*")
+
+  if (filters.i_group_id) {
+    query = query.eq("i_group_id", filters.i_group_id)
+  }
+  if (filters.community_id) {
+    query = query.eq("community_id", filters.community_id)
+  }
+  if (filters.status) {
+    query = query.eq("status", filters.status)
+  }
+  if (filters.from) {
+    query = query.gte("created_at", filters.from)
+  }
+  if (filters.to) {
+    query = query.lte("created_at", `${filters.to}T23:59:59.999Z`)
+  }
+  if (inboxFilter) {
+    query = query.or(inboxFilter)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    console.error("[v0] Database error fetching visitor requests:", error)
+    throw error
+  }
+
+  return (data || []) as VisitorRequest[]
+}
+
+const emptyRow = (key: string | null, label: string): VisitorReportRow => ({
+  key,
+  label,
+  requests: 0,
+  accepted: 0,
+  declined: 0,
+  attended: 0,
+  members: 0,
+  overdue: 0,
+  conversion_rate: 0,
+})
+
+const addToRow = (row: VisitorReportRow, request: VisitorRequestWithGroup) => {
+  row.requests += 1
+  if (request.status === "accepted" || request.status === "attended") {
+    row.accepted += 1
+  }
+  if (request.status === "declined") {
+    row.declined += 1
+  }
+  if (request.status === "attended") {
+    row.attended += 1
+  }
+  if (request.is_member) {
+    row.members += 1
+  }
+  if (request.is_overdue) {
+    row.overdue += 1
+  }
+}
+
+const finishRows = (rows: Map<string | null, VisitorReportRow>): VisitorReportRow[] =>
+  [...rows.values()]
+    .map((row) => ({ ...row, conversion_rate: row.requests > 0 ? row.members / row.requests : 0 }))
+    .sort((a, b) => b.requests - a.requests || a.label.localeCompare(b.label))
+
+/*
+ * Visitor conversion report: for each community and each I-Group, how many visitors asked or turned
+ * up, how many were accepted, attended and went on to join, and how many requests are overdue.
+ * `from`/`to` limit it to requests made in that window.
+ */
+export const buildVisitorReport = async (
+  scope: AreaScope | null,
+  filters: { community_id?: string; from?: string; to?: string } = {},
+  now = new Date(),
+): Promise<VisitorReport> => {
+  const requests = await attachGroups(await fetchVisitorRequests(scope ? areaScopeFilter(scope) : null, filters), now)
+
+  const communityIds = [...new Set(requests.map((request) => request.community_id).filter((id): id is string => !!id))]
+  const { data: communities, error } = communityIds.length
+    ? await supabase.from("communities").select("id, name").in("id", communityIds)
+    : { data: [], error: null }
+
+  if (error) {
+    console.error("[v0] Database error fetching visitor report labels:", error)
+    throw error
+  }
+
+  const communityNames = new Map((communities || []).map((community: any) => [community.id, community.name as string]))
+
+  const totals = emptyRow(null, "All visitors")
+  const byCommunity = new Map<string | null, VisitorReportRow>()
+  const byGroup = new Map<string | null, VisitorReportRow>()
+
+  for (const request of requests) {
+    const communityKey = request.community_id
+    if (!byCommunity.has(communityKey)) {
+      byCommunity.set(communityKey, emptyRow(communityKey, (communityKey && communityNames.get(communityKey)) || "No community"))
+    }
+    if (!byGroup.has(request.i_group_id)) {
+      byGroup.set(request.i_group_id, emptyRow(request.i_group_id, request.i_group?.name || "Unknown I-Group"))
+    }
+    addToRow(totals, request)
+    addToRow(byCommunity.get(communityKey) as VisitorReportRow, request)
+    addToRow(byGroup.get(request.i_group_id) as VisitorReportRow, request)
+  }
+
+  return {
+    escalate_after_days: escalationDays(),
+    totals: { ...totals, conversion_rate: totals.requests > 0 ? totals.members / totals.requests : 0 },
+    by_community: finishRows(byCommunity),
+    by_i_group: finishRows(byGroup),
+  }
+}
+
+export const visitorReportCsv = (report: VisitorReport): CsvCell[][] => {
+  const header = ["Group", "Name", "Visitors", "Accepted", "Declined", "Attended", "Joined", "Overdue", "Conversion %"]
+  const line = (group: string, row: VisitorReportRow) => [
+    group,
+    row.label,
+    row.requests,
+    row.accepted,
+    row.declined,
+    row.attended,
+    row.members,
+    row.overdue,
+    (row.conversion_rate * 100).toFixed(1),
+  ]
+
+  return [
+    header,
+    line("Total", report.totals),
+    ...report.by_community.map((row) => line("Community", row)),
+    ...report.by_i_group.map((row) => line("I-Group", row)),
+  ]
+}
@@ -0,0 +1,277 @@
+import { z } from "zod"
+import { supabase } from "./supabase.js"
+import type { CsvCell } from "./csv.js"
+import type {
+  LeaderboardRow,
+  PointsEntry,
+  PointsLeaderboard,
+  PointsTotals,
+  WarriorPoints,
+} from "../../src/types/warrior-points"
+
+/*
+ * Warrior work and preparation points.
+ *
+ * Nothing is stored: the ledger is rebuilt from the records that already say who served where.
+ *
+ *   - every nwta_roles row a warrior leads or is on earns its role type's work_points and
+ *     preparation_points
+ *   - every staffed_events entry for an NWTA where the warrior held no role earns STAFFED_POINTS,
+ *     so staffing recorded before roles were tracked still counts
+ *   - every lead_events entry earns LEAD_POINTS on top of any role held at that NWTA
+ *
+ * Entries for NWTAs that haven't started yet are listed as pending and left out of the totals.
+ */
+
+export const STAFFED_POINTS = { work_points: 5, preparation_points: 0 }
+export const LEAD_POINTS = { work_points: 10, preparation_points: 10 }
+
+export const DEFAULT_WINDOW_MONTHS = 24
+
+// The rolling window, as it arrives in a ?months= query parameter
+export const WindowMonthsSchema = z.coerce.number().int().min(1).max(240).default(DEFAULT_WINDOW_MONTHS)
+
+interface PointsWarrior {
+  id: string
+  staffed_events: string[] | null
+  lead_events: string[] | null
+}
+
+interface RoleAssignment {
+  id: string
+  name: string
+  nwta_event_id: string | null
+  lead_warrior_id: string | null
+  warriors: string[] | null
+  nwta_role_types: { work_points: number | null; preparation_points: number | null } | null
+}
+
+interface PointsEvent {
+  id: string
+  name: string | null
+  start_at: string | null
+}
+
+export const windowStart = (months: number, now = new Date()): Date => {
+  const start = new Date(now)
+  start.setMonth(start.getMonth() - months)
+  return start
+}
+
+const fetchRoleAssignments = async (warriorId?: string): Promise<RoleAssignment[]> => {
+  let query = supabase
+    .from("nwta_roles")
+    .select("id, name, nwta_event_id, lead_warrior_id, warriors, nwta_role_types(work_points, preparation_points)")
+    .eq("is_active", true)
+    .is("deleted_at", null)
+
+  if (warriorId) {
+    query = query.or(`lead_warrior_id.eq.${warriorId},warriors.cs.${JSON.stringify([warriorId])}`)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    console.error("[v0] Database error fetching NWTA role assignments:", error)
+    throw error
+  }
+
+  return (data || []) as unknown as RoleAssignment[]
+}
+
+const fetchEvents = async (eventIds: string[]): Promise<Map<string, PointsEvent>> => {
+  if (eventIds.length === 0) {
+    return new Map()
+  }
+
+  const { data, error } = await supabase.from("events").select("id, name, start_at").in("id", eventIds)
+
+  if (error) {
+    console.error("[v0] Database error fetching events for points:", error)
+    throw error
+  }
+
+  return new Map((data || []).map((event: PointsEvent) => [event.id, event]))
+}
+
+const buildLedgers = (
+  warriors: PointsWarrior[],
+  roles: RoleAssignment[],
+  events: Map<string, PointsEvent>,
+  now: Date,
+): Map<string, PointsEntry[]> => {
+  const entry = (
+    eventId: string,
+    source: PointsEntry["source"],
+    points: { work_points: number | null; preparation_points: number | null },
+    role: RoleAssignment | null = null,
+  ): PointsEntry => {
+    const event = events.get(eventId)
+    return {
+      event_id: eventId,
+      event_name: event?.name ?? null,
+      date: event?.start_at ?? null,
+      source,
+      role_id: role?.id ?? null,
+      role_name: role?.name ?? null,
+      work_points: points.work_points || 0,
+      preparation_points: points.preparation_points || 0,
+      pending: !!event?.start_at && new Date(event.start_at) > now,
+    }
+  }
+
+  const ledgers = new Map<string, PointsEntry[]>()
+
+  for (const warrior of warriors) {
+    const held = roles.filter(
+      (role) => role.nwta_event_id && (role.lead_warrior_id === warrior.id || (role.warriors || []).includes(warrior.id)),
+    )
+    const eventsWithRoles = new Set(held.map((role) => role.nwta_event_id))
+
+    const entries = [
+      ...held.map((role) => entry(role.nwta_event_id as string, "role", role.nwta_role_types || STAFFED_POINTS, role)),
+      ...[...new Set(warrior.staffed_events || [])]
+        .filter((eventId) => !eventsWithRoles.has(eventId))
+        .map((eventId) => entry(eventId, "staffed", STAFFED_POINTS)),
+      ...[...new Set(warrior.lead_events || [])].map((eventId) => entry(eventId, "lead", LEAD_POINTS)),
+    ]
+
+    ledgers.set(warrior.id, entries.sort((a, b) => (b.date || "").localeCompare(a.date || "")))
+  }
+
+  return ledgers
+}
+
+export const totalPoints = (entries: PointsEntry[], since?: Date): PointsTotals => {
+  const earned = entries.filter((entry) => !entry.pending && (!since || (entry.date && new Date(entry.date) >= since)))
+  const work = earned.reduce((sum, entry) => sum + entry.work_points, 0)
+  const preparation = earned.reduce((sum, entry) => sum + entry.preparation_points, 0)
+
+  return {
+    work_points: work,
+    preparation_points: preparation,
+    total: work + preparation,
+    events: new Set(earned.map((entry) => entry.event_id)).size,
+  }
+}
+
+const referencedEvents = (warriors: PointsWarrior[], roles: RoleAssignment[]): string[] => [
+  ...new Set([
+    ...roles.map((role) => role.nwta_event_id).filter((id): id is string => !!id),
+    ...warriors.flatMap((warrior) => [...(warrior.staffed_events || []), ...(warrior.lead_events || [])]),
+  ]),
+]
+
+export const fetchWarriorPoints = async (
+  warriorId: string,
+  months = DEFAULT_WINDOW_MONTHS,
+  now = new Date(),
+): Promise<WarriorPoints | null> => {
+  const { data: warrior, error } = await supabase
+    .from("warriors")
+    .select("id, staffed_events, lead_events")
+    .eq("id", warriorId)
+    .maybeSingle()
+
+  if (error) {
+    console.error(`[v0] Database error fetching warrior ${warriorId} for points:`, error)
+    throw error
+  }
+
+  if (!warrior) {
+    return null
+  }
+
+  const roles = await fetchRoleAssignments(warriorId)
+  const events = await fetchEvents(referencedEvents([warrior], roles))
+  const entries = buildLedgers([warrior], roles, events, now).get(warriorId) || []
+  const since = windowStart(months, now)
+
+  return {
+    warrior_id: warriorId,
+    window_months: months,
+    window_start: since.toISOString(),
+    lifetime: totalPoints(entries),
+    window: totalPoints(entries, since),
+    entries,
+  }
+}
+
+export const fetchPointsLeaderboard = async (
+  area: { id: string; name: string },
+  months = DEFAULT_WINDOW_MONTHS,
+  now = new Date(),
+): Promise<PointsLeaderboard> => {
+  const { data: warriors, error } = await supabase
+    .from("warriors")
+    .select("id, status, staffed_events, lead_events, people!inner(first_name, last_name)")
+    .eq("area_id", area.id)
+    .eq("is_active", true)
+    .is("deleted_at", null)
+
+  if (error) {
+    console.error(`[v0] Database error fetching warriors of area ${area.id} for points:`, error)
+    throw error
+  }
+
+  const warriorIds = new Set((warriors || []).map((warrior) => warrior.id))
+  const roles = (await fetchRoleAssignments()).filter(
+    (role) =>
+      (role.lead_warrior_id && warriorIds.has(role.lead_warrior_id)) ||
+      (role.warriors || []).some((id) => warriorIds.has(id)),
+  )
+  const events = await fetchEvents(referencedEvents(warriors || [], roles))
+  const ledgers = buildLedgers(warriors || [], roles, events, now)
+  const since = windowStart(months, now)
+
+  const rows: LeaderboardRow[] = (warriors || []).map((warrior: any) => {
+    const entries = ledgers.get(warrior.id) || []
+    return {
+      warrior_id: warrior.id,
+      first_name: warrior.people.first_name,
+      last_name: warrior.people.last_name,
+      status: warrior.status,
+      lifetime: totalPoints(entries),
+      window: totalPoints(entries, since),
+    }
+  })
+
+  return {
+    area_id: area.id,
+    area_name: area.name,
+    window_months: months,
+    window_start: since.toISOString(),
+    rows: rows
+      .filter((row) => row.lifetime.total > 0)
+      .sort((a, b) => b.window.total - a.window.total || b.lifetime.total - a.lifetime.total),
+  }
+}
+
+export const leaderboardCsv = (leaderboard: PointsLeaderboard): CsvCell[][] => [
+  [
+    "Rank",
+    "First Name",
+    "Last Name",
+    "Status",
+    `Work (${leaderboard.window_months} mo)`,
+    `Preparation (${leaderboard.window_months} mo)`,
+    `Total (${leaderboard.window_months} mo)`,
+    "Lifetime Work",
+    "Lifetime Preparation",
+    "Lifetime Total",
+    "Lifetime NWTAs",
+  ],
+  ...leaderboard.rows.map((row, index) => [
+    index + 1,
+    row.first_name,
+    row.last_name,
+    row.status,
+    row.window.work_points,
+    row.window.preparation_points,
+    row.window.total,
+    row.lifetime.work_points,
+    row.lifetime.preparation_points,
+    row.lifetime.total,
+    row.lifetime.events,
+  ]),
+]
@@ -0,0 +1,217 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node"
+import { z } from "zod"
+import { supabase, isSupabaseConfigured } from "./_lib/supabase.js"
+import { authorizeRequest, type AuthContext } from "./_lib/auth.js"
+import { recordActivity } from "./_lib/activity-log.js"
+import { getAreaScope, isInAreaScope } from "./_lib/area-scope.js"
+import type { ActivityLogEntry } from "../src/types/activity-log"
+
+const ActivityLogSchema = z.object({
+  log_id: z.string().uuid(),
+  name: z.string().min(1, "Name is required"),
+  summary: z.string().min(1, "Summary is required"),
+  details: z.string().optional().nullable(),
+  data: z.record(z.any()).optional().nullable(),
+})
+
+type LogOwner = { area_id: string | null; community_id: string | null }
+
+// Records whose histories area admins work with; a log owned by anything else is national-admin only
+const AREA_SCOPED_LOG_TABLES = [
+  "events",
+  "prospects",
+  "warriors",
+  "i_groups",
+  "rookie_integrations",
+  "visitor_requests",
+  "event_templates",
+]
+
+// Registrants carry no area of their own: theirs is their event's
+const fetchRegistrantLogOwner = async (logId: string): Promise<LogOwner | null> => {
+  const { data, error } = await supabase
+    .from("registrants")
+    .select("event:events(area_id, community_id)")
+    .eq("log_id", logId)
+    .limit(1)
+    .maybeSingle()
+
+  if (error) {
+    console.error(`[v0] Database error resolving the owner of log ${logId} on registrants:`, error)
+    throw error
+  }
+
+  return ((data as any)?.event as LogOwner | null) ?? null
+}
+
+const fetchLogOwner = async (logId: string): Promise<LogOwner | null> => {
+  for (const table of AREA_SCOPED_LOG_TABLES) {
+    const { data, error } = await supabase
+      .from(table)
+      .select("area_id, community_id")
+      .eq("log_id", logId)
+      .limit(1)
+      .maybeSingle()
+
+    if (error) {
+      console.error(`[v0] Database error resolving the owner of log ${logId} on ${table}:`, error)
+      throw error
+    }
+    if (data) {
+      return data
+    }
+  }
+
+  return fetchRegistrantLogOwner(logId)
+}
+
+const canAccessLog = async (auth: AuthContext, logId: string): Promise<boolean> => {
+  const scope = await getAreaScope(auth)
+  if (!scope) {
+    return true
+  }
+  return isInAreaScope(scope, await fetchLogOwner(logId))
+}
+
+export type ActivityLogApiResponse = {
+  success: boolean
+  data: ActivityLogEntry | ActivityLogEntry[]
+  count: number
+  error?: string
+  message?: string
+  details?: z.ZodError[]
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Access-Control-Allow-Origin", "*")
+  res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS")
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization")
+
+  if (req.method === "OPTIONS") {
+    return res.status(200).end()
+  }
+
+  if (!isSupabaseConfigured) {
+    return res.status(500).json({
+      success: false,
+      error: "Database not configured",
+    })
+  }
+
+  const auth = await authorizeRequest(req, res, { GET: "area_admin", POST: "area_admin" })
+  if (!auth) {
+    return
+  }
+
+  const { method, query } = req
+
+  try {
+    switch (method) {
+      case "GET":
+        // GET /api/activity-logs?log=<log_id> - Retrieve the history of one record
+        const { log } = query
+
+        if (!log || typeof log !== "string" || !z.string().uuid().safeParse(log).success) {
+          return res.status(400).json({
+            success: false,
+            error: "A valid log parameter is required",
+          })
+        }
+
+        console.log(`[v0] GET /api/activity-logs - Fetching activity for log ${log}`)
+
+        if (!(await canAccessLog(auth, log))) {
+          return res.status(403).json({
+            success: false,
+            error: "This record is outside the areas you administer",
+          })
+        }
+
+        const { data, error } = await supabase
+          .from("activity_logs")
+          .select(`
+            id,
+            log_id,
+            by_id,
+            name,
+            summary,
+            details,
+            data,
+            ordering,
+            created_at,
+            updated_at,
+            by:people!by_id(id, first_name, middle_name, last_name, photo_url)
+          `)
+          .eq("log_id", log)
+          .is("deleted_at", null)
+          .order("ordering", { ascending: true })
+
+        if (error) {
+          console.error("[v0] Database error:", error)
+          return res.status(500).json({
+            success: false,
+            error: "Failed to fetch activity log",
+          })
+        }
+
+        return res.json({
+          success: true,
+          data: data || [],
+          count: data?.length || 0,
+        })
+
+      case "POST":
+        // POST /api/activity-logs - Add a manual entry (e.g. a note) to a record's history
+        console.log("[v0] POST /api/activity-logs - Adding activity entry")
+
+        const validatedData = ActivityLogSchema.parse(req.body)
+
+        if (!(await canAccessLog(auth, validatedData.log_id))) {
+          return res.status(403).json({
+            success: false,
+            error: "This record is outside the areas you administer",
+          })
+        }
+
+        const recorded = await recordActivity(auth, validatedData.log_id, {
+          name: validatedData.name,
+          summary: validatedData.summary,
+          details: validatedData.details,
+          data: validatedData.data,
+        })
+
+        if (!recorded) {
+          return res.status(500).json({
+            success: false,
+            error: "Failed to record activity",
+          })
+        }
+
+        return res.status(201).json({
+          success: true,
+          message: "Activity recorded successfully",
+        })
+
+      default:
+        res.setHeader("Allow", ["GET", "POST"])
+        return res.status(405).json({
+          success: false,
+          error: `Method ${method} not allowed`,
+        })
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: "Validation error",
+        details: error.errors,
+      })
+    }
+
+    console.error("[v0] Server error:", error)
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+    })
+  }
+}
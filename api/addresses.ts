@@ -1,6 +1,8 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node"
 import { z } from "zod"
 import { supabase, isSupabaseConfigured } from "./_lib/supabase.js"
+import { authorizeRequest } from "./_lib/auth.js"
+import { applyListParams, listMeta, parseListParams, searchFilter } from "./_lib/pagination.js"
 
 interface Address {
   id: string
@@ -49,6 +51,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     })
   }
 
+  const auth = await authorizeRequest(req, res, { GET: "warrior", POST: "area_admin" })
+  if (!auth) {
+    return
+  }
+
   const { method, query } = req
 
   try {
@@ -57,17 +64,36 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         // GET /api/addresses - Retrieve all addresses
         console.log("[v0] GET /api/addresses - Fetching all addresses")
 
-        const { search } = query
-        let dbQuery = supabase.from("addresses").select("*")
+        const listParams = parseListParams(req, res, {
+          sortable: ["address_1", "city", "state", "postal_code", "country", "created_at", "updated_at"],
+          defaultSort: "-created_at",
+        })
+        if (!listParams) {
+          return
+        }
+
+        const { ids } = query
+        let dbQuery = supabase.from("addresses").select("*", { count: "exact" })
+
+        // ?ids=a,b,c - fetch just the addresses referenced by a page of people
+        if (ids && typeof ids === "string") {
+          const addressIds = ids.split(",").filter(Boolean)
+          if (!addressIds.every((id) => z.string().uuid().safeParse(id).success)) {
+            return res.status(400).json({
+              success: false,
+              error: "Invalid ids parameter. It must be a comma-separated list of address IDs.",
+            })
+          }
+          dbQuery = dbQuery.in("id", addressIds)
+        }
 
-        if (search && typeof search === "string") {
-          const searchTerm = `%${search}%`
+        if (listParams.q) {
           dbQuery = dbQuery.or(
-            `address_1.ilike.${searchTerm},address_2.ilike.${searchTerm},city.ilike.${searchTerm},state.ilike.${searchTerm},postal_code.ilike.${searchTerm},country.ilike.${searchTerm}`,
+            searchFilter(["address_1", "address_2", "city", "state", "postal_code", "country"], listParams.q),
           )
         }
 
-        const { data, error } = await dbQuery.order("created_at", { ascending: false })
+        const { data, error, count: total } = await applyListParams(dbQuery, listParams)
 
         if (error) {
           console.error("[v0] Database error:", error)
@@ -81,6 +107,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           success: true,
           data: data || [],
           count: data?.length || 0,
+          ...listMeta(listParams, data || [], total),
         })
 
       case "POST":
@@ -1,6 +1,7 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node"
 import { z } from "zod"
 import { supabase, isSupabaseConfigured } from "../_lib/supabase.js"
+import { authorizeRequest } from "../_lib/auth.js"
 
 interface Address {
   id: string
@@ -49,6 +50,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     })
   }
 
+  const auth = await authorizeRequest(req, res, { GET: "warrior", PUT: "area_admin", DELETE: "area_admin" })
+  if (!auth) {
+    return
+  }
+
   const { method, query } = req
   const id = query.id as string
 
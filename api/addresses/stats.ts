@@ -1,5 +1,6 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node"
 import { supabase, isSupabaseConfigured } from "../_lib/supabase.js"
+import { authorizeRequest } from "../_lib/auth.js"
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   res.setHeader("Access-Control-Allow-Origin", "*")
@@ -17,6 +18,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     })
   }
 
+  const auth = await authorizeRequest(req, res, { GET: "area_admin" })
+  if (!auth) {
+    return
+  }
+
   if (req.method !== "GET") {
     res.setHeader("Allow", ["GET"])
     return res.status(405).json({
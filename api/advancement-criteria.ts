@@ -0,0 +1,98 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node"
+import { z } from "zod"
+import { supabase, isSupabaseConfigured } from "./_lib/supabase.js"
+import { authorizeRequest } from "./_lib/auth.js"
+import { AdvancementCriteriaSchema, fetchAdvancementCriteria } from "./_lib/advancement.js"
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Access-Control-Allow-Origin", "*")
+  res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS")
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization")
+
+  if (req.method === "OPTIONS") {
+    return res.status(200).end()
+  }
+
+  if (!isSupabaseConfigured) {
+    return res.status(500).json({
+      success: false,
+      error: "Database not configured",
+    })
+  }
+
+  const auth = await authorizeRequest(req, res, { GET: "warrior", POST: "national_admin" })
+  if (!auth) {
+    return
+  }
+
+  const { method, query } = req
+
+  try {
+    switch (method) {
+      case "GET":
+        // GET /api/advancement-criteria[?active=false] - The advancement criteria, active ones only by default
+        console.log("[v0] GET /api/advancement-criteria - Fetching advancement criteria")
+
+        const criteria = await fetchAdvancementCriteria(query.active !== "false")
+
+        return res.json({
+          success: true,
+          data: criteria,
+          count: criteria.length,
+        })
+
+      case "POST":
+        // POST /api/advancement-criteria - Create the criteria for promotion to a status
+        console.log("[v0] POST /api/advancement-criteria - Creating advancement criteria")
+
+        const validatedData = AdvancementCriteriaSchema.parse(req.body)
+
+        const { data: newData, error: createError } = await supabase
+          .from("advancement_criteria")
+          .insert({ ...validatedData, summary: validatedData.summary || null })
+          .select()
+          .single()
+
+        if (createError) {
+          if (createError.code === "23505") {
+            return res.status(400).json({
+              success: false,
+              error: `Criteria for ${validatedData.status} already exist`,
+            })
+          }
+          console.error("[v0] Database error:", createError)
+          return res.status(500).json({
+            success: false,
+            error: "Failed to create advancement criteria",
+          })
+        }
+
+        return res.status(201).json({
+          success: true,
+          data: newData,
+          message: "Advancement criteria created successfully",
+        })
+
+      default:
+        res.setHeader("Allow", ["GET", "POST"])
+        return res.status(405).json({
+          success: false,
+          error: `Method ${method} not allowed`,
+        })
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: "Validation error",
+        details: error.errors,
+      })
+    }
+
+    console.error("[v0] Server error:", error)
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+    })
+  }
+}
@@ -0,0 +1,136 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node"
+import { z } from "zod"
+import { supabase, isSupabaseConfigured } from "../_lib/supabase.js"
+import { authorizeRequest } from "../_lib/auth.js"
+import { AdvancementCriteriaSchema } from "../_lib/advancement.js"
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Access-Control-Allow-Origin", "*")
+  res.setHeader("Access-Control-Allow-Methods", "PUT, DELETE, OPTIONS")
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization")
+
+  if (req.method === "OPTIONS") {
+    return res.status(200).end()
+  }
+
+  if (!isSupabaseConfigured) {
+    return res.status(500).json({
+      success: false,
+      error: "Database not configured",
+    })
+  }
+
+  const auth = await authorizeRequest(req, res, { PUT: "national_admin", DELETE: "national_admin" })
+  if (!auth) {
+    return
+  }
+
+  const { method, query } = req
+  const id = query.id as string
+
+  if (!id || !z.string().uuid().safeParse(id).success) {
+    return res.status(400).json({
+      success: false,
+      error: "Invalid advancement criteria ID format",
+    })
+  }
+
+  try {
+    switch (method) {
+      case "PUT":
+        // PUT /api/advancement-criteria/[id] - Update advancement criteria
+        console.log(`[v0] PUT /api/advancement-criteria/${id} - Updating advancement criteria`)
+
+        const updateData = AdvancementCriteriaSchema.parse(req.body)
+
+        const { data: updatedData, error: updateError } = await supabase
+          .from("advancement_criteria")
+          .update({
+            ...updateData,
+            summary: updateData.summary || null,
+            updated_at: new Date().toISOString(),
+          })
+          .eq("id", id)
+          .select()
+          .single()
+
+        if (updateError) {
+          if (updateError.code === "PGRST116") {
+            return res.status(404).json({
+              success: false,
+              error: "Advancement criteria not found",
+            })
+          }
+          if (updateError.code === "23505") {
+            return res.status(400).json({
+              success: false,
+              error: `Criteria for ${updateData.status} already exist`,
+            })
+          }
+          console.error("[v0] Database error:", updateError)
+          return res.status(500).json({
+            success: false,
+            error: "Failed to update advancement criteria",
+          })
+        }
+
+        return res.json({
+          success: true,
+          data: updatedData,
+          message: "Advancement criteria updated successfully",
+        })
+
+      case "DELETE":
+        // DELETE /api/advancement-criteria/[id] - Delete advancement criteria
+        console.log(`[v0] DELETE /api/advancement-criteria/${id} - Deleting advancement criteria`)
+
+        const { data: deletedData, error: deleteError } = await supabase
+          .from("advancement_criteria")
+          .delete()
+          .eq("id", id)
+          .select()
+          .single()
+
+        if (deleteError) {
+          if (deleteError.code === "PGRST116") {
+            return res.status(404).json({
+              success: false,
+              error: "Advancement criteria not found",
+            })
+          }
+          console.error("[v0] Database error:", deleteError)
+          return res.status(500).json({
+            success: false,
+            error: "Failed to delete advancement criteria",
+          })
+        }
+
+        return res.json({
+          success: true,
+          data: deletedData,
+          message: "Advancement criteria deleted successfully",
+        })
+
+      default:
+        res.setHeader("Allow", ["PUT", "DELETE"])
+        return res.status(405).json({
+          success: false,
+          error: `Method ${method} not allowed`,
+        })
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: "Validation error",
+        details: error.errors,
+      })
+    }
+
+    console.error("[v0] Server error:", error)
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+    })
+  }
+}
@@ -1,6 +1,8 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node"
 import { z } from "zod"
 import { supabase, isSupabaseConfigured } from "./_lib/supabase.js"
+import { authorizeRequest } from "./_lib/auth.js"
+import { applyListParams, listMeta, parseListParams, searchFilter } from "./_lib/pagination.js"
 import type { Area } from "../src/types/area"
 
 const AreaSchema = z.object({
@@ -40,6 +42,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     })
   }
 
+  const auth = await authorizeRequest(req, res, { GET: "public", POST: "national_admin" })
+  if (!auth) {
+    return
+  }
+
   const { method, query } = req
 
   try {
@@ -48,7 +55,15 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         // GET /api/areas - Retrieve all areas
         console.log("[v0] GET /api/areas - Fetching all areas")
 
-        const { active, search } = query
+        const listParams = parseListParams(req, res, {
+          sortable: ["name", "code", "created_at", "updated_at"],
+          defaultSort: "-created_at",
+        })
+        if (!listParams) {
+          return
+        }
+
+        const { active } = query
 
         let dbQuery = supabase.from("areas").select(`
             *,
@@ -62,18 +77,18 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
                 photo_url
               )
             )
-          `)
+          `, { count: "exact" })
 
         if (active !== undefined) {
           const isActive = active === "true"
           dbQuery = dbQuery.eq("is_active", isActive)
         }
 
-        if (search && typeof search === "string") {
-          dbQuery = dbQuery.or(`name.ilike.%${search}%,code.ilike.%${search}%`)
+        if (listParams.q) {
+          dbQuery = dbQuery.or(searchFilter(["name", "code"], listParams.q))
         }
 
-        const { data, error } = await dbQuery.order("created_at", { ascending: false })
+        const { data, error, count: total } = await applyListParams(dbQuery, listParams)
 
         if (error) {
           console.error("[v0] Database error:", error)
@@ -98,6 +113,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           success: true,
           data: transformedData,
           count: transformedData.length,
+          ...listMeta(listParams, data || [], total),
         })
 
       case "POST":
@@ -1,6 +1,8 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node"
 import { z } from "zod"
 import { supabase, isSupabaseConfigured } from "../_lib/supabase.js"
+import { authorizeRequest } from "../_lib/auth.js"
+import { authorizeAreaIds } from "../_lib/area-scope.js"
 import type { Area } from "../../src/types/area"
 
 const AreaSchema = z.object({
@@ -40,6 +42,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     })
   }
 
+  const auth = await authorizeRequest(req, res, { GET: "public", PUT: "area_admin", DELETE: "national_admin" })
+  if (!auth) {
+    return
+  }
+
   const { method, query } = req
   const id = query.id as string
 
@@ -112,6 +119,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
         const updateData = AreaSchema.parse(req.body)
 
+        if (!authorizeAreaIds(res, auth, [id])) {
+          return
+        }
+
         const { data: updatedData, error: updateError } = await supabase
           .from("areas")
           .update({
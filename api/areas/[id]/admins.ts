@@ -1,6 +1,7 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node"
 import { z } from "zod"
 import { supabase, isSupabaseConfigured } from "../../_lib/supabase.js"
+import { authorizeRequest } from "../../_lib/auth.js"
 
 const AdminSchema = z.object({
   person_id: z.string().uuid("Invalid person ID"),
@@ -26,6 +27,15 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     })
   }
 
+  const auth = await authorizeRequest(req, res, {
+    POST: "national_admin",
+    PUT: "national_admin",
+    DELETE: "national_admin",
+  })
+  if (!auth) {
+    return
+  }
+
   const { method, query } = req
   const areaId = query.id as string
 
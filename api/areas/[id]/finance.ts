@@ -0,0 +1,110 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node"
+import { z } from "zod"
+import { supabase, isSupabaseConfigured } from "../../_lib/supabase.js"
+import { authorizeRequest } from "../../_lib/auth.js"
+import { sendOutOfScope } from "../../_lib/area-scope.js"
+import { sendCsv } from "../../_lib/csv.js"
+import { areaRollupCsv, canViewFinances, fetchAreaFinanceRollup } from "../../_lib/event-finance.js"
+
+const DateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD")
+  .optional()
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Access-Control-Allow-Origin", "*")
+  res.setHeader("Access-Control-Allow-Methods", "GET, OPTIONS")
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization")
+
+  if (req.method === "OPTIONS") {
+    return res.status(200).end()
+  }
+
+  if (!isSupabaseConfigured) {
+    return res.status(500).json({
+      success: false,
+      error: "Database not configured",
+    })
+  }
+
+  // The area's finance coordinator need not be an admin; canViewFinances() checks who may see it
+  const auth = await authorizeRequest(req, res, { GET: "warrior" })
+  if (!auth) {
+    return
+  }
+
+  if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET"])
+    return res.status(405).json({
+      success: false,
+      error: `Method ${req.method} not allowed`,
+    })
+  }
+
+  const areaId = req.query.id as string
+
+  if (!areaId || !z.string().uuid().safeParse(areaId).success) {
+    return res.status(400).json({
+      success: false,
+      error: "Invalid area ID format",
+    })
+  }
+
+  try {
+    // GET /api/areas/[id]/finance[?from=&to=&format=csv] - Financial rollup of the area's events
+    console.log(`[v0] GET /api/areas/${areaId}/finance - Building area financial rollup`)
+
+    const from = DateSchema.parse(req.query.from)
+    const to = DateSchema.parse(req.query.to)
+
+    const { data: area, error: areaError } = await supabase
+      .from("areas")
+      .select("id, name, finance_coordinator_id")
+      .eq("id", areaId)
+      .maybeSingle()
+
+    if (areaError) {
+      console.error("[v0] Database error:", areaError)
+      return res.status(500).json({
+        success: false,
+        error: "Failed to fetch area",
+      })
+    }
+
+    if (!area) {
+      return res.status(404).json({
+        success: false,
+        error: "Area not found",
+      })
+    }
+
+    if (!(await canViewFinances(auth, { area_id: area.id }))) {
+      return sendOutOfScope(res)
+    }
+
+    const rollup = await fetchAreaFinanceRollup(area, { from, to })
+
+    if (req.query.format === "csv") {
+      return sendCsv(res, `${area.name}-finance.csv`, areaRollupCsv(rollup))
+    }
+
+    return res.json({
+      success: true,
+      data: rollup,
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: "Validation error",
+        details: error.errors,
+      })
+    }
+
+    console.error("[v0] Server error:", error)
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+    })
+  }
+}
@@ -1,5 +1,6 @@
 import { put, del } from "@vercel/blob"
 import { supabase, isSupabaseConfigured } from "../../_lib/supabase.js"
+import { authorizeRequest } from "../../_lib/auth.js"
 import type { VercelRequest, VercelResponse } from "@vercel/node"
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
@@ -19,6 +20,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     })
   }
 
+  const auth = await authorizeRequest(req, res, { POST: "area_admin", PUT: "area_admin", DELETE: "area_admin" })
+  if (!auth) {
+    return
+  }
+
   const { id } = req.query
 
   if (!id || typeof id !== "string") {
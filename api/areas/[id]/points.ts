@@ -0,0 +1,99 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node"
+import { z } from "zod"
+import { supabase, isSupabaseConfigured } from "../../_lib/supabase.js"
+import { authorizeRequest } from "../../_lib/auth.js"
+import { sendCsv } from "../../_lib/csv.js"
+import { WindowMonthsSchema, fetchPointsLeaderboard, leaderboardCsv } from "../../_lib/warrior-points.js"
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Access-Control-Allow-Origin", "*")
+  res.setHeader("Access-Control-Allow-Methods", "GET, OPTIONS")
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization")
+
+  if (req.method === "OPTIONS") {
+    return res.status(200).end()
+  }
+
+  if (!isSupabaseConfigured) {
+    return res.status(500).json({
+      success: false,
+      error: "Database not configured",
+    })
+  }
+
+  const auth = await authorizeRequest(req, res, { GET: "warrior" })
+  if (!auth) {
+    return
+  }
+
+  if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET"])
+    return res.status(405).json({
+      success: false,
+      error: `Method ${req.method} not allowed`,
+    })
+  }
+
+  const areaId = req.query.id as string
+
+  if (!areaId || !z.string().uuid().safeParse(areaId).success) {
+    return res.status(400).json({
+      success: false,
+      error: "Invalid area ID format",
+    })
+  }
+
+  try {
+    // GET /api/areas/[id]/points[?months=24&format=csv] - Points leaderboard of the area's warriors
+    console.log(`[v0] GET /api/areas/${areaId}/points - Building points leaderboard`)
+
+    const months = WindowMonthsSchema.parse(req.query.months)
+
+    const { data: area, error: areaError } = await supabase
+      .from("areas")
+      .select("id, name")
+      .eq("id", areaId)
+      .maybeSingle()
+
+    if (areaError) {
+      console.error("[v0] Database error:", areaError)
+      return res.status(500).json({
+        success: false,
+        error: "Failed to fetch area",
+      })
+    }
+
+    if (!area) {
+      return res.status(404).json({
+        success: false,
+        error: "Area not found",
+      })
+    }
+
+    const leaderboard = await fetchPointsLeaderboard(area, months)
+
+    if (req.query.format === "csv") {
+      return sendCsv(res, `${area.name}-points.csv`, leaderboardCsv(leaderboard))
+    }
+
+    return res.json({
+      success: true,
+      data: leaderboard,
+      count: leaderboard.rows.length,
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: "Validation error",
+        details: error.errors,
+      })
+    }
+
+    console.error("[v0] Server error:", error)
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+    })
+  }
+}
@@ -1,6 +1,9 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node"
 import { z } from "zod"
 import { supabase, isSupabaseConfigured } from "./_lib/supabase.js"
+import { authorizeRequest } from "./_lib/auth.js"
+import { applyListParams, listMeta, parseListParams, searchFilter } from "./_lib/pagination.js"
+import { authorizeCommunity } from "./_lib/area-scope.js"
 import type { Community } from "../src/types/community"
 
 const CommunitySchema = z.object({
@@ -41,6 +44,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     })
   }
 
+  const auth = await authorizeRequest(req, res, { GET: "public", POST: "area_admin" })
+  if (!auth) {
+    return
+  }
+
   const { method, query } = req
 
   try {
@@ -49,20 +57,28 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         // GET /api/communities - Retrieve all communities
         console.log("[v0] GET /api/communities - Fetching all communities")
 
-        const { active, search } = query
+        const listParams = parseListParams(req, res, {
+          sortable: ["name", "code", "created_at", "updated_at"],
+          defaultSort: "-created_at",
+        })
+        if (!listParams) {
+          return
+        }
 
-        let dbQuery = supabase.from("communities").select("*")
+        const { active } = query
+
+        let dbQuery = supabase.from("communities").select("*", { count: "exact" })
 
         if (active !== undefined) {
           const isActive = active === "true"
           dbQuery = dbQuery.eq("is_active", isActive)
         }
 
-        if (search && typeof search === "string") {
-          dbQuery = dbQuery.or(`name.ilike.%${search}%,code.ilike.%${search}%`)
+        if (listParams.q) {
+          dbQuery = dbQuery.or(searchFilter(["name", "code"], listParams.q))
         }
 
-        const { data, error } = await dbQuery.order("created_at", { ascending: false })
+        const { data, error, count: total } = await applyListParams(dbQuery, listParams)
 
         if (error) {
           console.error("[v0] Database error:", error)
@@ -76,6 +92,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           success: true,
           data: data || [],
           count: data?.length || 0,
+          ...listMeta(listParams, data || [], total),
         })
 
       case "POST":
@@ -84,6 +101,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
         const validatedData = CommunitySchema.parse(req.body)
 
+        if (!(await authorizeCommunity(res, auth, null, validatedData))) {
+          return
+        }
+
         const { data: newData, error: createError } = await supabase
           .from("communities")
           .insert({
@@ -1,6 +1,8 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node"
 import { z } from "zod"
 import { supabase, isSupabaseConfigured } from "../_lib/supabase.js"
+import { authorizeRequest } from "../_lib/auth.js"
+import { authorizeCommunity } from "../_lib/area-scope.js"
 import type { Community } from "../../src/types/community"
 
 const CommunitySchema = z.object({
@@ -41,6 +43,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     })
   }
 
+  const auth = await authorizeRequest(req, res, { GET: "public", PUT: "area_admin", DELETE: "area_admin" })
+  if (!auth) {
+    return
+  }
+
   const { method, query } = req
   const id = query.id as string
 
@@ -95,6 +102,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
         const updateData = CommunitySchema.parse(req.body)
 
+        if (!(await authorizeCommunity(res, auth, id, { area_id: updateData.area_id || null }))) {
+          return
+        }
+
         const { data: updatedData, error: updateError } = await supabase
           .from("communities")
           .update({
@@ -143,6 +154,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         // DELETE /api/communities/[id] - Archive a community (set is_active to false)
         console.log(`[v0] DELETE /api/communities/${id} - Archiving community`)
 
+        if (!(await authorizeCommunity(res, auth, id))) {
+          return
+        }
+
         const { data: archivedData, error: archiveError } = await supabase
           .from("communities")
           .update({
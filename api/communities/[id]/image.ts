@@ -1,6 +1,7 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node"
 import { put, del } from "@vercel/blob"
 import { supabase, isSupabaseConfigured } from "../../_lib/supabase.js"
+import { authorizeRequest } from "../../_lib/auth.js"
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   res.setHeader("Access-Control-Allow-Origin", "*")
@@ -18,6 +19,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     })
   }
 
+  const auth = await authorizeRequest(req, res, { POST: "area_admin", DELETE: "area_admin" })
+  if (!auth) {
+    return
+  }
+
   const { method, query } = req
   const communityId = query.id as string
 
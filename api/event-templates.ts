@@ -0,0 +1,137 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node"
+import { z } from "zod"
+import { supabase, isSupabaseConfigured } from "./_lib/supabase.js"
+import { authorizeRequest } from "./_lib/auth.js"
+import { recordRecordChange } from "./_lib/activity-log.js"
+import { authorizeAreaScope, getAreaScope } from "./_lib/area-scope.js"
+import { applyListParams, listMeta, parseListParams, searchFilter } from "./_lib/pagination.js"
+import { TEMPLATE_SELECT, TemplateSchema, templateScopeFilter } from "./_lib/event-templates.js"
+
+const ListQuerySchema = z.object({
+  event_type_id: z.string().uuid().optional(),
+  is_nwta: z.enum(["true", "false"]).optional(),
+  active: z.enum(["true", "false"]).optional(),
+})
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Access-Control-Allow-Origin", "*")
+  res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS")
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization")
+
+  if (req.method === "OPTIONS") {
+    return res.status(200).end()
+  }
+
+  if (!isSupabaseConfigured) {
+    return res.status(500).json({
+      success: false,
+      error: "Database not configured",
+    })
+  }
+
+  const auth = await authorizeRequest(req, res, { GET: "area_admin", POST: "area_admin" })
+  if (!auth) {
+    return
+  }
+
+  const { method } = req
+
+  try {
+    switch (method) {
+      case "GET": {
+        // GET /api/event-templates - Templates for the caller's areas plus the shared ones
+        console.log("[v0] GET /api/event-templates - Fetching event templates")
+
+        const filters = ListQuerySchema.parse(req.query)
+        const listParams = parseListParams(req, res, {
+          sortable: ["name", "created_at", "updated_at"],
+          defaultSort: "name",
+        })
+        if (!listParams) {
+          return
+        }
+
+        let dbQuery = supabase.from("event_templates").select(TEMPLATE_SELECT, { count: "exact" })
+
+        const scope = await getAreaScope(auth)
+        if (scope) {
+          dbQuery = dbQuery.or(templateScopeFilter(scope))
+        }
+        if (filters.event_type_id) {
+          dbQuery = dbQuery.eq("event_type_id", filters.event_type_id)
+        }
+        if (filters.is_nwta) {
+          dbQuery = dbQuery.eq("is_nwta", filters.is_nwta === "true")
+        }
+        if (filters.active) {
+          dbQuery = dbQuery.eq("is_active", filters.active === "true")
+        }
+        if (listParams.q) {
+          dbQuery = dbQuery.or(searchFilter(["name", "description"], listParams.q))
+        }
+
+        const { data, error, count: total } = await applyListParams(dbQuery, listParams)
+
+        if (error) {
+          console.error("[v0] Database error fetching event templates:", error)
+          throw error
+        }
+
+        return res.json({
+          success: true,
+          data: data || [],
+          count: data?.length || 0,
+          ...listMeta(listParams, data || [], total),
+        })
+      }
+
+      case "POST": {
+        // POST /api/event-templates - Create a template from scratch (see /api/events/[id]/template to save an event's)
+        console.log("[v0] POST /api/event-templates - Creating event template")
+
+        const templateData = TemplateSchema.parse(req.body)
+
+        // Only national admins may create shared templates, which have no area
+        if (!(await authorizeAreaScope(res, auth, "event_templates", null, templateData))) {
+          return
+        }
+
+        const { data, error } = await supabase.from("event_templates").insert(templateData).select(TEMPLATE_SELECT).single()
+
+        if (error) {
+          console.error("[v0] Database error creating event template:", error)
+          throw error
+        }
+
+        await recordRecordChange(auth, { logId: data.log_id, entity: "Event template", action: "created", after: data })
+
+        return res.status(201).json({
+          success: true,
+          data,
+          message: "Template created",
+        })
+      }
+
+      default:
+        res.setHeader("Allow", ["GET", "POST"])
+        return res.status(405).json({
+          success: false,
+          error: `Method ${method} not allowed`,
+        })
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: "Validation error",
+        details: error.errors,
+      })
+    }
+
+    console.error("[v0] Server error:", error)
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+    })
+  }
+}
@@ -0,0 +1,158 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node"
+import { z } from "zod"
+import { supabase, isSupabaseConfigured } from "../_lib/supabase.js"
+import { authorizeRequest } from "../_lib/auth.js"
+import { recordRecordChange } from "../_lib/activity-log.js"
+import { authorizeAreaScope, getAreaScope, sendOutOfScope } from "../_lib/area-scope.js"
+import { TEMPLATE_SELECT, TemplateUpdateSchema, fetchTemplate, isTemplateVisible } from "../_lib/event-templates.js"
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Access-Control-Allow-Origin", "*")
+  res.setHeader("Access-Control-Allow-Methods", "GET, PUT, DELETE, OPTIONS")
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization")
+
+  if (req.method === "OPTIONS") {
+    return res.status(200).end()
+  }
+
+  if (!isSupabaseConfigured) {
+    return res.status(500).json({
+      success: false,
+      error: "Database not configured",
+    })
+  }
+
+  const auth = await authorizeRequest(req, res, { GET: "area_admin", PUT: "area_admin", DELETE: "area_admin" })
+  if (!auth) {
+    return
+  }
+
+  const { method, query } = req
+  const id = query.id as string
+
+  if (!id || !z.string().uuid().safeParse(id).success) {
+    return res.status(400).json({
+      success: false,
+      error: "Invalid template ID format",
+    })
+  }
+
+  try {
+    const template = await fetchTemplate(id)
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        error: "Template not found",
+      })
+    }
+
+    switch (method) {
+      case "GET": {
+        // GET /api/event-templates/[id] - One template, if it is shared or in the caller's areas
+        console.log(`[v0] GET /api/event-templates/${id} - Fetching event template`)
+
+        if (!isTemplateVisible(await getAreaScope(auth), template)) {
+          return sendOutOfScope(res)
+        }
+
+        const { data, error } = await supabase.from("event_templates").select(TEMPLATE_SELECT).eq("id", id).single()
+
+        if (error) {
+          console.error("[v0] Database error fetching event template:", error)
+          throw error
+        }
+
+        return res.json({
+          success: true,
+          data,
+        })
+      }
+
+      case "PUT": {
+        // PUT /api/event-templates/[id] - Update a template; shared templates are national admins' to edit
+        console.log(`[v0] PUT /api/event-templates/${id} - Updating event template`)
+
+        const updateData = TemplateUpdateSchema.parse(req.body)
+
+        if (!(await authorizeAreaScope(res, auth, "event_templates", id, updateData))) {
+          return
+        }
+
+        const { data: updated, error } = await supabase
+          .from("event_templates")
+          .update({ ...updateData, updated_at: new Date().toISOString() })
+          .eq("id", id)
+          .select(TEMPLATE_SELECT)
+          .single()
+
+        if (error) {
+          console.error("[v0] Database error updating event template:", error)
+          throw error
+        }
+
+        await recordRecordChange(auth, {
+          logId: updated.log_id,
+          entity: "Event template",
+          action: "updated",
+          before: template,
+          after: updated,
+        })
+
+        return res.json({
+          success: true,
+          data: updated,
+          message: "Template updated",
+        })
+      }
+
+      case "DELETE": {
+        // DELETE /api/event-templates/[id] - Delete a template; events made from it are unaffected
+        console.log(`[v0] DELETE /api/event-templates/${id} - Deleting event template`)
+
+        if (!(await authorizeAreaScope(res, auth, "event_templates", id))) {
+          return
+        }
+
+        const { error } = await supabase.from("event_templates").delete().eq("id", id)
+
+        if (error) {
+          console.error("[v0] Database error deleting event template:", error)
+          throw error
+        }
+
+        await recordRecordChange(auth, {
+          logId: template.log_id,
+          entity: "Event template",
+          action: "deleted",
+          before: template,
+        })
+
+        return res.json({
+          success: true,
+          message: "Template deleted",
+        })
+      }
+
+      default:
+        res.setHeader("Allow", ["GET", "PUT", "DELETE"])
+        return res.status(405).json({
+          success: false,
+          error: `Method ${method} not allowed`,
+        })
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: "Validation error",
+        details: error.errors,
+      })
+    }
+
+    console.error("[v0] Server error:", error)
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+    })
+  }
+}
@@ -0,0 +1,108 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node"
+import { z } from "zod"
+import { isSupabaseConfigured } from "../../_lib/supabase.js"
+import { authorizeRequest } from "../../_lib/auth.js"
+import { authorizeAreaScope, getAreaScope, sendOutOfScope } from "../../_lib/area-scope.js"
+import {
+  ScheduleOnSchema,
+  createEventFromTemplate,
+  fetchTemplate,
+  isTemplateVisible,
+} from "../../_lib/event-templates.js"
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Access-Control-Allow-Origin", "*")
+  res.setHeader("Access-Control-Allow-Methods", "POST, OPTIONS")
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization")
+
+  if (req.method === "OPTIONS") {
+    return res.status(200).end()
+  }
+
+  if (!isSupabaseConfigured) {
+    return res.status(500).json({
+      success: false,
+      error: "Database not configured",
+    })
+  }
+
+  const auth = await authorizeRequest(req, res, { POST: "area_admin" })
+  if (!auth) {
+    return
+  }
+
+  const { method, query } = req
+  const id = query.id as string
+
+  if (!id || !z.string().uuid().safeParse(id).success) {
+    return res.status(400).json({
+      success: false,
+      error: "Invalid template ID format",
+    })
+  }
+
+  try {
+    switch (method) {
+      case "POST": {
+        // POST /api/event-templates/[id]/events - Create an event from the template starting at start_at
+        console.log(`[v0] POST /api/event-templates/${id}/events - Creating event from template`)
+
+        const placement = ScheduleOnSchema.parse(req.body)
+
+        const template = await fetchTemplate(id)
+        if (!template || !template.is_active) {
+          return res.status(404).json({
+            success: false,
+            error: "Template not found",
+          })
+        }
+
+        if (!isTemplateVisible(await getAreaScope(auth), template)) {
+          return sendOutOfScope(res)
+        }
+
+        // The new event has to land in one of the caller's areas, which a shared template alone doesn't give it
+        if (
+          !(await authorizeAreaScope(res, auth, "events", null, {
+            area_id: placement.area_id !== undefined ? placement.area_id : template.area_id,
+            community_id: placement.community_id !== undefined ? placement.community_id : template.community_id,
+          }))
+        ) {
+          return
+        }
+
+        const data = await createEventFromTemplate(auth, template, placement, {
+          summary: `Created from the template "${template.name}"`,
+          data: { template_id: template.id },
+        })
+
+        return res.status(201).json({
+          success: true,
+          data,
+          message: "Event created from template",
+        })
+      }
+
+      default:
+        res.setHeader("Allow", ["POST"])
+        return res.status(405).json({
+          success: false,
+          error: `Method ${method} not allowed`,
+        })
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: "Validation error",
+        details: error.errors,
+      })
+    }
+
+    console.error("[v0] Server error:", error)
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+    })
+  }
+}
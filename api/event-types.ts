@@ -1,6 +1,8 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node"
 import { z } from "zod"
 import { supabase, isSupabaseConfigured } from "./_lib/supabase.js"
+import { authorizeRequest } from "./_lib/auth.js"
+import { applyListParams, listMeta, parseListParams, searchFilter } from "./_lib/pagination.js"
 import type { EventType } from "../src/types/event"
 
 const EventTypeSchema = z.object({
@@ -38,6 +40,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     })
   }
 
+  const auth = await authorizeRequest(req, res, { GET: "public", POST: "national_admin" })
+  if (!auth) {
+    return
+  }
+
   const { method, query } = req
 
   try {
@@ -46,15 +53,27 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         // GET /api/event-types - Retrieve all event types
         console.log("[v0] GET /api/event-types - Fetching all event types")
 
+        const listParams = parseListParams(req, res, {
+          sortable: ["name", "code", "created_at", "updated_at"],
+          defaultSort: "-created_at",
+        })
+        if (!listParams) {
+          return
+        }
+
         const { active } = query
-        let dbQuery = supabase?.from("event_types").select("*")
+        let dbQuery = supabase?.from("event_types").select("*", { count: "exact" })
 
         if (active !== undefined) {
           const isActive = active === "true"
           dbQuery = dbQuery.eq("is_active", isActive)
         }
 
-        const { data, error } = await dbQuery.order("created_at", { ascending: false })
+        if (listParams.q) {
+          dbQuery = dbQuery.or(searchFilter(["name", "code"], listParams.q))
+        }
+
+        const { data, error, count: total } = await applyListParams(dbQuery, listParams)
 
         if (error) {
           console.error("[v0] Database error:", error)
@@ -68,6 +87,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           success: true,
           data: data || [],
           count: data?.length || 0,
+          ...listMeta(listParams, data || [], total),
         })
 
       case "POST":
@@ -1,6 +1,7 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node"
 import { z } from "zod"
 import { supabase, isSupabaseConfigured } from "../_lib/supabase.js"
+import { authorizeRequest } from "../_lib/auth.js"
 import { EventType } from "../../src/types/event"
 
 const EventTypeSchema = z.object({
@@ -38,6 +39,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     })
   }
 
+  const auth = await authorizeRequest(req, res, { GET: "public", PUT: "national_admin", DELETE: "national_admin" })
+  if (!auth) {
+    return
+  }
+
   const { method, query } = req
   const id = query.id as string
 
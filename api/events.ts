@@ -1,6 +1,11 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node"
 import { z } from "zod"
 import { supabase, isSupabaseConfigured } from "./_lib/supabase.js"
+import { authorizeRequest } from "./_lib/auth.js"
+import { recordRecordChange } from "./_lib/activity-log.js"
+import { areaScopeFilter, authorizeAreaScope, getListScope } from "./_lib/area-scope.js"
+import { applyListParams, listMeta, parseListParams, searchFilter } from "./_lib/pagination.js"
+import { checkVenueConflicts } from "./_lib/venue-availability.js"
 import type { EventWithRelations } from "../src/types/event"
 import type { Transaction } from "../src/types/transaction"
 
@@ -75,11 +80,24 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     })
   }
 
+  const auth = await authorizeRequest(req, res, { GET: "public", POST: "area_admin" })
+  if (!auth) {
+    return
+  }
+
   try {
     if (req.method === "GET") {
-      const { active, search, published, nwta } = req.query
+      const { active, published, nwta, managed } = req.query
       console.log("[v0] GET /api/events — req.query: ", JSON.stringify(req.query))
 
+      const listParams = parseListParams(req, res, {
+        sortable: ["name", "start_at", "end_at", "created_at", "updated_at"],
+        defaultSort: "-created_at",
+      })
+      if (!listParams) {
+        return
+      }
+
       let query = supabase
         .from("events")
         .select(`
@@ -105,8 +123,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
             )
           ),
           primary_leader:people!primary_leader_id(id, first_name, last_name)
-        `)
-        .order("created_at", { ascending: false })
+        `, { count: "exact" })
 
       /* Get the list of event types (which can change) */
       let etQuery = supabase.from("event_types").select("*")
@@ -147,11 +164,17 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       query = query.in("event_type_id", etIds || [])
 
       // Search functionality
-      if (search && typeof search === "string") {
-        query = query.or(`name.ilike.%${search}%,description.ilike.%${search}%`)
+      if (listParams.q) {
+        query = query.or(searchFilter(["name", "description"], listParams.q))
       }
 
-      const { data, error, count } = await query
+      // Area admins asking for the events they manage only get their own areas' events
+      const scope = await getListScope(auth, managed === "true")
+      if (scope) {
+        query = query.or(areaScopeFilter(scope))
+      }
+
+      const { data, error, count: total } = await applyListParams(query, listParams)
 
       if (error) {
         console.error("Database error:", error)
@@ -189,7 +212,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       return res.status(200).json({
         success: true,
         data: data || [],
-        count: count || 0,
+        count: data?.length || 0,
+        ...listMeta(listParams, data || [], total),
       })
     } else if (req.method === "POST") {
       const validation = CreateEventSchema.safeParse(req.body)
@@ -204,6 +228,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
       const eventData = validation.data
 
+      if (!(await authorizeAreaScope(res, auth, "events", null, eventData))) {
+        return
+      }
+
       if (eventData.participant_schedule && eventData.participant_schedule.length > 0) {
         eventData.participant_schedule = eventData.participant_schedule.map((time) => ({
           start_at: normalizeDateTime(time.start_at),
@@ -277,9 +305,12 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         })
       }
 
+      await recordRecordChange(auth, { logId: data.log_id, entity: "Event", action: "created", after: data })
+
       return res.status(201).json({
         success: true,
         data,
+        conflicts: await checkVenueConflicts(data),
         message: "Event created successfully",
       })
     } else {
@@ -1,6 +1,11 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node"
 import { z } from "zod"
 import { supabase, isSupabaseConfigured } from "../_lib/supabase.js"
+import { authorizeRequest } from "../_lib/auth.js"
+import { EVENT_MEMBERSHIP_FIELDS, recordRecordChange, snapshotRecord } from "../_lib/activity-log.js"
+import { authorizeAreaScope } from "../_lib/area-scope.js"
+import { planRosterUpdate, recordPromotions, type RosterPromotion, type RosterState } from "../_lib/event-roster.js"
+import { checkVenueConflicts } from "../_lib/venue-availability.js"
 import type { Transaction } from "../../src/types/transaction"
 
 const EventTimeSchema = z.object({
@@ -78,6 +83,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     })
   }
 
+  const auth = await authorizeRequest(req, res, { GET: "public", PUT: "area_admin", DELETE: "area_admin" })
+  if (!auth) {
+    return
+  }
+
   const { id } = req.query
 
   if (!id || typeof id !== "string") {
@@ -202,6 +212,26 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
       const updateData = validation.data
 
+      if (!(await authorizeAreaScope(res, auth, "events", id, updateData))) {
+        return
+      }
+
+      const eventBefore = await snapshotRecord("events", id)
+
+      // Reject commits beyond capacity and fill any openings from the waitlist / alternates
+      let promotions: RosterPromotion[] = []
+      if (eventBefore) {
+        const rosterPlan = planRosterUpdate(eventBefore as RosterState, updateData)
+        if (rosterPlan.error) {
+          return res.status(409).json({
+            success: false,
+            error: rosterPlan.error,
+          })
+        }
+        Object.assign(updateData, rosterPlan.changes)
+        promotions = rosterPlan.promotions
+      }
+
       if (updateData.participant_schedule && updateData.participant_schedule.length > 0) {
         const originalSchedule = updateData.participant_schedule.map((time: { start: string; end: string }) => ({
           start: normalizeDateTime(time.start),
@@ -254,7 +284,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
       const { data, error } = await supabase
         .from("events")
-        .update(updateData)
+        .update({ ...updateData, updated_at: new Date().toISOString() })
         .eq("id", id)
         .select(`
           *,
@@ -297,12 +327,30 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         })
       }
 
+      await recordRecordChange(auth, {
+        logId: data.log_id,
+        entity: "Event",
+        action: "updated",
+        before: eventBefore,
+        after: data,
+        membershipFields: EVENT_MEMBERSHIP_FIELDS,
+      })
+      await recordPromotions(auth, data.log_id, promotions)
+
       return res.status(200).json({
         success: true,
         data,
+        promotions,
+        conflicts: await checkVenueConflicts(data),
         message: "Event updated successfully",
       })
     } else if (req.method === "DELETE") {
+      if (!(await authorizeAreaScope(res, auth, "events", id))) {
+        return
+      }
+
+      const eventBefore = await snapshotRecord("events", id)
+
       // Soft delete by setting is_active to false
       const { data, error } = await supabase.from("events").update({ is_active: false }).eq("id", id).select().single()
 
@@ -321,6 +369,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         })
       }
 
+      await recordRecordChange(auth, { logId: data.log_id, entity: "Event", action: "updated", before: eventBefore, after: data })
+
       return res.status(200).json({
         success: true,
         data,
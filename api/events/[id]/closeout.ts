@@ -0,0 +1,115 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node"
+import { z } from "zod"
+import { isSupabaseConfigured } from "../../_lib/supabase.js"
+import { authorizeRequest } from "../../_lib/auth.js"
+import { authorizeAreaScope } from "../../_lib/area-scope.js"
+import { closeEvent, planCloseout, reopenEvent } from "../../_lib/event-closeout.js"
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Access-Control-Allow-Origin", "*")
+  res.setHeader("Access-Control-Allow-Methods", "GET, POST, DELETE, OPTIONS")
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization")
+
+  if (req.method === "OPTIONS") {
+    return res.status(200).end()
+  }
+
+  if (!isSupabaseConfigured) {
+    return res.status(500).json({
+      success: false,
+      error: "Database not configured",
+    })
+  }
+
+  const auth = await authorizeRequest(req, res, { GET: "area_admin", POST: "area_admin", DELETE: "area_admin" })
+  if (!auth) {
+    return
+  }
+
+  const { method, query } = req
+  const eventId = query.id as string
+
+  if (!eventId || !z.string().uuid().safeParse(eventId).success) {
+    return res.status(400).json({
+      success: false,
+      error: "Invalid event ID format",
+    })
+  }
+
+  try {
+    if (!(await authorizeAreaScope(res, auth, "events", eventId))) {
+      return
+    }
+
+    switch (method) {
+      case "GET": {
+        // GET /api/events/[id]/closeout - Preview what closing the event would change
+        console.log(`[v0] GET /api/events/${eventId}/closeout - Planning close-out`)
+
+        const plan = await planCloseout(eventId)
+        if (!plan) {
+          return res.status(404).json({
+            success: false,
+            error: "Event not found",
+          })
+        }
+
+        return res.json({
+          success: true,
+          data: plan,
+        })
+      }
+
+      case "POST": {
+        // POST /api/events/[id]/closeout - Close the event, or catch up an already closed one
+        console.log(`[v0] POST /api/events/${eventId}/closeout - Closing event`)
+
+        const plan = await closeEvent(auth, eventId)
+        if (!plan) {
+          return res.status(404).json({
+            success: false,
+            error: "Event not found",
+          })
+        }
+
+        return res.json({
+          success: true,
+          data: plan,
+          message: "Event closed out and warrior histories updated",
+        })
+      }
+
+      case "DELETE": {
+        // DELETE /api/events/[id]/closeout - Reopen the event and undo its close-out
+        console.log(`[v0] DELETE /api/events/${eventId}/closeout - Reopening event`)
+
+        const plan = await reopenEvent(auth, eventId)
+        if (!plan) {
+          return res.status(404).json({
+            success: false,
+            error: "Event not found",
+          })
+        }
+
+        return res.json({
+          success: true,
+          data: plan,
+          message: "Event reopened and its close-out undone",
+        })
+      }
+
+      default:
+        res.setHeader("Allow", ["GET", "POST", "DELETE"])
+        return res.status(405).json({
+          success: false,
+          error: `Method ${method} not allowed`,
+        })
+    }
+  } catch (error) {
+    console.error("[v0] Server error:", error)
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+    })
+  }
+}
@@ -0,0 +1,99 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node"
+import { z } from "zod"
+import { isSupabaseConfigured } from "../../_lib/supabase.js"
+import { authorizeRequest } from "../../_lib/auth.js"
+import { authorizeAreaScope } from "../../_lib/area-scope.js"
+import { ScheduleOnSchema, duplicateEvent, fetchSourceEvent } from "../../_lib/event-templates.js"
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Access-Control-Allow-Origin", "*")
+  res.setHeader("Access-Control-Allow-Methods", "POST, OPTIONS")
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization")
+
+  if (req.method === "OPTIONS") {
+    return res.status(200).end()
+  }
+
+  if (!isSupabaseConfigured) {
+    return res.status(500).json({
+      success: false,
+      error: "Database not configured",
+    })
+  }
+
+  const auth = await authorizeRequest(req, res, { POST: "area_admin" })
+  if (!auth) {
+    return
+  }
+
+  const { method, query } = req
+  const eventId = query.id as string
+
+  if (!eventId || !z.string().uuid().safeParse(eventId).success) {
+    return res.status(400).json({
+      success: false,
+      error: "Invalid event ID format",
+    })
+  }
+
+  try {
+    switch (method) {
+      case "POST": {
+        // POST /api/events/[id]/duplicate - Copy the event onto a new start date, schedule and roles included
+        console.log(`[v0] POST /api/events/${eventId}/duplicate - Duplicating event`)
+
+        const placement = ScheduleOnSchema.parse(req.body)
+
+        const source = await fetchSourceEvent(eventId)
+        if (!source) {
+          return res.status(404).json({
+            success: false,
+            error: "Event not found",
+          })
+        }
+
+        if (!(await authorizeAreaScope(res, auth, "events", eventId))) {
+          return
+        }
+        if (
+          (placement.area_id !== undefined || placement.community_id !== undefined) &&
+          !(await authorizeAreaScope(res, auth, "events", null, {
+            area_id: placement.area_id !== undefined ? placement.area_id : source.area_id,
+            community_id: placement.community_id !== undefined ? placement.community_id : source.community_id,
+          }))
+        ) {
+          return
+        }
+
+        const data = await duplicateEvent(auth, source, placement)
+
+        return res.status(201).json({
+          success: true,
+          data,
+          message: `Event duplicated${data.roles_copied > 0 ? ` with ${data.roles_copied} roles` : ""}`,
+        })
+      }
+
+      default:
+        res.setHeader("Allow", ["POST"])
+        return res.status(405).json({
+          success: false,
+          error: `Method ${method} not allowed`,
+        })
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: "Validation error",
+        details: error.errors,
+      })
+    }
+
+    console.error("[v0] Server error:", error)
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+    })
+  }
+}
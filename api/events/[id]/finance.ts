@@ -0,0 +1,86 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node"
+import { z } from "zod"
+import { isSupabaseConfigured } from "../../_lib/supabase.js"
+import { authorizeRequest } from "../../_lib/auth.js"
+import { sendOutOfScope } from "../../_lib/area-scope.js"
+import { sendCsv } from "../../_lib/csv.js"
+import {
+  canViewFinances,
+  eventReportCsv,
+  fetchEventFinanceReport,
+  fetchFinanceEvent,
+} from "../../_lib/event-finance.js"
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Access-Control-Allow-Origin", "*")
+  res.setHeader("Access-Control-Allow-Methods", "GET, OPTIONS")
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization")
+
+  if (req.method === "OPTIONS") {
+    return res.status(200).end()
+  }
+
+  if (!isSupabaseConfigured) {
+    return res.status(500).json({
+      success: false,
+      error: "Database not configured",
+    })
+  }
+
+  // Area finance coordinators need not be admins; canViewFinances() checks who may see the report
+  const auth = await authorizeRequest(req, res, { GET: "warrior" })
+  if (!auth) {
+    return
+  }
+
+  if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET"])
+    return res.status(405).json({
+      success: false,
+      error: `Method ${req.method} not allowed`,
+    })
+  }
+
+  const eventId = req.query.id as string
+
+  if (!eventId || !z.string().uuid().safeParse(eventId).success) {
+    return res.status(400).json({
+      success: false,
+      error: "Invalid event ID format",
+    })
+  }
+
+  try {
+    // GET /api/events/[id]/finance[?format=csv] - Budget vs actual, receivables
+    console.log(`[v0] GET /api/events/${eventId}/finance - Building financial report`)
+
+    const event = await fetchFinanceEvent(eventId)
+    if (!event) {
+      return res.status(404).json({
+        success: false,
+        error: "Event not found",
+      })
+    }
+
+    if (!(await canViewFinances(auth, event))) {
+      return sendOutOfScope(res)
+    }
+
+    const report = await fetchEventFinanceReport(event)
+
+    if (req.query.format === "csv") {
+      return sendCsv(res, `${event.name}-finance.csv`, eventReportCsv(report))
+    }
+
+    return res.json({
+      success: true,
+      data: report,
+    })
+  } catch (error) {
+    console.error("[v0] Server error:", error)
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+    })
+  }
+}
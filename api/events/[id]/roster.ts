@@ -0,0 +1,233 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node"
+import { z } from "zod"
+import { isSupabaseConfigured } from "../../_lib/supabase.js"
+import { authorizeRequest } from "../../_lib/auth.js"
+import { EVENT_MEMBERSHIP_FIELDS, recordRecordChange } from "../../_lib/activity-log.js"
+import {
+  PENDING_FIELDS,
+  canManageRoster,
+  fetchRosterEvent,
+  findRosterField,
+  isAtCapacity,
+  isSignupOpen,
+  moveOnRoster,
+  saveRoster,
+  signupField,
+  type RosterEvent,
+  type RosterField,
+} from "../../_lib/event-roster.js"
+
+const RoleSchema = z.enum(["staff", "participant"])
+
+const SignupSchema = z.object({
+  role: RoleSchema,
+})
+
+const DecisionSchema = z.object({
+  person_id: z.string().uuid("Invalid person ID"),
+  role: RoleSchema,
+  action: z.enum(["approve", "decline"]),
+})
+
+const sendRosterConflict = (res: VercelResponse) =>
+  res.status(409).json({
+    success: false,
+    error: "The event roster changed while saving. Please reload and try again.",
+  })
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Access-Control-Allow-Origin", "*")
+  res.setHeader("Access-Control-Allow-Methods", "POST, PUT, DELETE, OPTIONS")
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization")
+
+  if (req.method === "OPTIONS") {
+    return res.status(200).end()
+  }
+
+  if (!isSupabaseConfigured) {
+    return res.status(500).json({
+      success: false,
+      error: "Database not configured",
+    })
+  }
+
+  // Approvals are further limited to the event's leaders and area admins below
+  const auth = await authorizeRequest(req, res, { POST: "warrior", PUT: "warrior", DELETE: "warrior" })
+  if (!auth) {
+    return
+  }
+
+  const { method, query } = req
+  const eventId = query.id as string
+
+  if (!eventId || !z.string().uuid().safeParse(eventId).success) {
+    return res.status(400).json({
+      success: false,
+      error: "Invalid event ID format",
+    })
+  }
+
+  try {
+    const event = await fetchRosterEvent(eventId)
+    if (!event) {
+      return res.status(404).json({
+        success: false,
+        error: "Event not found",
+      })
+    }
+
+    const recordRosterChange = (after: RosterEvent) =>
+      recordRecordChange(auth, {
+        logId: after.log_id,
+        entity: "Event",
+        action: "updated",
+        before: event,
+        after,
+        membershipFields: EVENT_MEMBERSHIP_FIELDS,
+      })
+
+    switch (method) {
+      case "POST": {
+        // POST /api/events/[id]/roster - Apply to staff or register as a participant
+        const { role } = SignupSchema.parse(req.body)
+        console.log(`[v0] POST /api/events/${eventId}/roster - Signing up as ${role}`)
+
+        if (!auth.person_id) {
+          return res.status(403).json({
+            success: false,
+            error: "Your account is not linked to a person record",
+          })
+        }
+
+        if (!isSignupOpen(event, role)) {
+          return res.status(400).json({
+            success: false,
+            error: role === "staff" ? "Staff applications are not open" : "Participant registration is not open",
+          })
+        }
+
+        const existing = findRosterField(event, role, auth.person_id)
+        if (existing) {
+          return res.status(409).json({
+            success: false,
+            error: "You are already on this event's roster",
+            data: { role, list: existing },
+          })
+        }
+
+        const list = signupField(event, role)
+        const updated = await saveRoster(event, moveOnRoster(event, role, auth.person_id, list))
+        if (!updated) {
+          return sendRosterConflict(res)
+        }
+
+        await recordRosterChange(updated)
+
+        return res.status(201).json({
+          success: true,
+          data: { role, list },
+          message: list === "waitlist_participants" ? "Added to the waitlist" : "Application received",
+        })
+      }
+
+      case "DELETE": {
+        // DELETE /api/events/[id]/roster?role=staff|participant - Withdraw your own pending application
+        const role = RoleSchema.parse(query.role)
+        console.log(`[v0] DELETE /api/events/${eventId}/roster - Withdrawing ${role} application`)
+
+        const existing = auth.person_id ? findRosterField(event, role, auth.person_id) : null
+        if (!auth.person_id || !existing) {
+          return res.status(404).json({
+            success: false,
+            error: "You have not applied to this event",
+          })
+        }
+
+        if (!PENDING_FIELDS[role].includes(existing)) {
+          return res.status(400).json({
+            success: false,
+            error: "You are already committed to this event; please contact its leaders to withdraw",
+          })
+        }
+
+        const updated = await saveRoster(event, moveOnRoster(event, role, auth.person_id, null))
+        if (!updated) {
+          return sendRosterConflict(res)
+        }
+
+        await recordRosterChange(updated)
+
+        return res.json({
+          success: true,
+          message: "Application withdrawn",
+        })
+      }
+
+      case "PUT": {
+        // PUT /api/events/[id]/roster - Approve or decline a pending application
+        const { person_id, role, action } = DecisionSchema.parse(req.body)
+        console.log(`[v0] PUT /api/events/${eventId}/roster - ${action} ${role} ${person_id}`)
+
+        if (!(await canManageRoster(auth, event))) {
+          return res.status(403).json({
+            success: false,
+            error: "Only the event's leaders and area admins can approve applications",
+          })
+        }
+
+        const existing = findRosterField(event, role, person_id)
+        if (!existing || !PENDING_FIELDS[role].includes(existing)) {
+          return res.status(400).json({
+            success: false,
+            error: "This person has no pending application for this event",
+          })
+        }
+
+        let to: RosterField | null = null
+        if (action === "approve") {
+          if (isAtCapacity(event, role)) {
+            return res.status(409).json({
+              success: false,
+              error: `The event has no open ${role} places`,
+            })
+          }
+          to = role === "staff" ? "committed_staff" : "committed_participants"
+        }
+
+        const updated = await saveRoster(event, moveOnRoster(event, role, person_id, to))
+        if (!updated) {
+          return sendRosterConflict(res)
+        }
+
+        await recordRosterChange(updated)
+
+        return res.json({
+          success: true,
+          data: updated,
+          message: action === "approve" ? "Application approved" : "Application declined",
+        })
+      }
+
+      default:
+        res.setHeader("Allow", ["POST", "PUT", "DELETE"])
+        return res.status(405).json({
+          success: false,
+          error: `Method ${method} not allowed`,
+        })
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: "Validation error",
+        details: error.errors,
+      })
+    }
+
+    console.error("[v0] Server error:", error)
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+    })
+  }
+}
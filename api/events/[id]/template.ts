@@ -0,0 +1,113 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node"
+import { z } from "zod"
+import { isSupabaseConfigured } from "../../_lib/supabase.js"
+import { authorizeRequest } from "../../_lib/auth.js"
+import { authorizeAreaScope } from "../../_lib/area-scope.js"
+import { SaveAsTemplateSchema, fetchSourceEvent, saveEventAsTemplate } from "../../_lib/event-templates.js"
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Access-Control-Allow-Origin", "*")
+  res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS")
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization")
+
+  if (req.method === "OPTIONS") {
+    return res.status(200).end()
+  }
+
+  if (!isSupabaseConfigured) {
+    return res.status(500).json({
+      success: false,
+      error: "Database not configured",
+    })
+  }
+
+  const auth = await authorizeRequest(req, res, { GET: "area_admin", POST: "area_admin" })
+  if (!auth) {
+    return
+  }
+
+  const { method, query } = req
+  const eventId = query.id as string
+
+  if (!eventId || !z.string().uuid().safeParse(eventId).success) {
+    return res.status(400).json({
+      success: false,
+      error: "Invalid event ID format",
+    })
+  }
+
+  try {
+    const source = await fetchSourceEvent(eventId)
+    if (!source) {
+      return res.status(404).json({
+        success: false,
+        error: "Event not found",
+      })
+    }
+
+    if (!(await authorizeAreaScope(res, auth, "events", eventId))) {
+      return
+    }
+
+    switch (method) {
+      case "GET":
+        // GET /api/events/[id]/template - Preview the event as template fields, schedule as offsets
+        console.log(`[v0] GET /api/events/${eventId}/template - Previewing template`)
+
+        return res.json({
+          success: true,
+          data: source.template,
+        })
+
+      case "POST": {
+        // POST /api/events/[id]/template - Save the event's format as a template for its event type
+        console.log(`[v0] POST /api/events/${eventId}/template - Saving event as template`)
+
+        const input = SaveAsTemplateSchema.parse(req.body)
+
+        if (!source.template.event_type_id) {
+          return res.status(400).json({
+            success: false,
+            error: "Give the event an event type before saving it as a template",
+          })
+        }
+
+        if (input.shared && !auth.is_national_admin) {
+          return res.status(403).json({
+            success: false,
+            error: "Only national admins can share templates with every area",
+          })
+        }
+
+        const data = await saveEventAsTemplate(auth, source, input)
+
+        return res.status(201).json({
+          success: true,
+          data,
+          message: "Template saved",
+        })
+      }
+
+      default:
+        res.setHeader("Allow", ["GET", "POST"])
+        return res.status(405).json({
+          success: false,
+          error: `Method ${method} not allowed`,
+        })
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: "Validation error",
+        details: error.errors,
+      })
+    }
+
+    console.error("[v0] Server error:", error)
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+    })
+  }
+}
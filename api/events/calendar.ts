@@ -0,0 +1,65 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node"
+import { z } from "zod"
+import { isSupabaseConfigured } from "../_lib/supabase.js"
+import { authorizeRequest } from "../_lib/auth.js"
+import { sendCalendar } from "../_lib/ical.js"
+import { EventFeedQuerySchema, buildEventsFeed } from "../_lib/calendar-feeds.js"
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Access-Control-Allow-Origin", "*")
+  res.setHeader("Access-Control-Allow-Methods", "GET, OPTIONS")
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization")
+
+  if (req.method === "OPTIONS") {
+    return res.status(200).end()
+  }
+
+  if (!isSupabaseConfigured) {
+    return res.status(500).json({
+      success: false,
+      error: "Database not configured",
+    })
+  }
+
+  const auth = await authorizeRequest(req, res, { GET: "public" })
+  if (!auth) {
+    return
+  }
+
+  const { method, query } = req
+
+  try {
+    switch (method) {
+      case "GET": {
+        // GET /api/events/calendar?area_id=&community_id=&event_type_id= - Published events as an iCalendar feed
+        console.log("[v0] GET /api/events/calendar - Building events calendar feed")
+
+        const filters = EventFeedQuerySchema.parse(query)
+        const feed = await buildEventsFeed(filters)
+
+        return sendCalendar(res, "mkp-events", feed)
+      }
+
+      default:
+        res.setHeader("Allow", ["GET"])
+        return res.status(405).json({
+          success: false,
+          error: `Method ${method} not allowed`,
+        })
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: "Validation error",
+        details: error.errors,
+      })
+    }
+
+    console.error("[v0] Server error:", error)
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+    })
+  }
+}
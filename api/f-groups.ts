@@ -1,6 +1,9 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node"
 import { z } from "zod"
 import { supabase, isSupabaseConfigured } from "./_lib/supabase.js"
+import { authorizeRequest } from "./_lib/auth.js"
+import { recordRecordChange } from "./_lib/activity-log.js"
+import { applyListParams, listMeta, parseListParams, searchFilter } from "./_lib/pagination.js"
 import type { FGroup } from "../src/types/group"
 import type { Area } from "../src/types/area"
 import type { Community } from "../src/types/community"
@@ -71,6 +74,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     })
   }
 
+  const auth = await authorizeRequest(req, res, { GET: "public", POST: "area_admin" })
+  if (!auth) {
+    return
+  }
+
   const { method, query } = req
 
   try {
@@ -78,7 +86,15 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       case "GET":
         console.log("[v0] GET /api/f-groups - Fetching all facilitation groups")
 
-        const { active, group_type, search } = query
+        const listParams = parseListParams(req, res, {
+          sortable: ["name", "created_at", "updated_at"],
+          defaultSort: "-created_at",
+        })
+        if (!listParams) {
+          return
+        }
+
+        const { active, group_type } = query
         let dbQuery = supabase.from("groups").select(`
             id,
             name,
@@ -92,6 +108,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
             is_publicly_listed,
             public_contact_id,
             primary_contact_id,
+            log_id,
             is_active,
             created_at,
             updated_at,
@@ -132,7 +149,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
             ),
             public_contact:people!groups_public_contact_id_fkey(id, first_name, last_name, email, phone),
             primary_contact:people!groups_primary_contact_id_fkey(id, first_name, last_name, email, phone)
-          `)
+          `, { count: "exact" })
 
         if (active !== undefined) {
           const isActive = active === "true"
@@ -143,14 +160,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           dbQuery = dbQuery.eq("f_groups.group_type", group_type)
         }
 
-        if (search && typeof search === "string") {
-          const searchTerm = search.trim()
-          if (searchTerm.length > 0) {
-            dbQuery = dbQuery.or(`name.ilike.*${searchTerm}*,description.ilike.*${searchTerm}*`)
-          }
+        if (listParams.q) {
+          dbQuery = dbQuery.or(searchFilter(["name", "description"], listParams.q))
         }
 
-        const { data, error } = await dbQuery.order("created_at", { ascending: false })
+        const { data, error, count: total } = await applyListParams(dbQuery, listParams)
 
         if (error) {
           console.error("[v0] Database error:", error)
@@ -176,6 +190,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
               is_publicly_listed: group.is_publicly_listed,
               public_contact_id: group.public_contact_id,
               primary_contact_id: group.primary_contact_id,
+              log_id: group.log_id,
               is_active: fGroupData.is_active,
               created_at: fGroupData.created_at,
               updated_at: fGroupData.updated_at,
@@ -202,6 +217,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           success: true,
           data: transformedData,
           count: transformedData.length,
+          ...listMeta(listParams, data || [], total),
         })
 
       case "POST":
@@ -271,6 +287,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
             updated_at,
             groups!inner (
               name,
+              log_id,
               description,
               url,
               members,
@@ -330,6 +347,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           is_publicly_listed: groupsData.is_publicly_listed,
           public_contact_id: groupsData.public_contact_id,
           primary_contact_id: groupsData.primary_contact_id,
+          log_id: groupsData.log_id,
           is_active: newData.is_active,
           created_at: newData.created_at,
           updated_at: newData.updated_at,
@@ -349,6 +367,13 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           venue: newData.venue,
         }
 
+        await recordRecordChange(auth, {
+          logId: transformedNewData.log_id,
+          entity: "F-Group",
+          action: "created",
+          after: transformedNewData,
+        })
+
         return res.status(201).json({
           success: true,
           data: transformedNewData,
@@ -1,6 +1,8 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node"
 import { z } from "zod"
 import { supabase, isSupabaseConfigured } from "../_lib/supabase.js"
+import { authorizeRequest } from "../_lib/auth.js"
+import { GROUP_MEMBERSHIP_FIELDS, recordRecordChange, snapshotGroupRecord } from "../_lib/activity-log.js"
 
 const FGroupUpdateSchema = z.object({
   name: z.string().min(1).optional(),
@@ -51,6 +53,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     })
   }
 
+  const auth = await authorizeRequest(req, res, { GET: "public", PUT: "area_admin", DELETE: "area_admin" })
+  if (!auth) {
+    return
+  }
+
   const { method, query } = req
   const { id } = query
 
@@ -85,6 +92,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
             updated_at,
             groups!inner (
               name,
+              log_id,
               description,
               url,
               members,
@@ -147,6 +155,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           is_publicly_listed: groupsData.is_publicly_listed,
           public_contact_id: groupsData.public_contact_id,
           primary_contact_id: groupsData.primary_contact_id,
+          log_id: groupsData.log_id,
           is_active: data.is_active,
           created_at: data.created_at,
           updated_at: data.updated_at,
@@ -177,6 +186,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         console.log(`[v0] PUT /api/f-groups/${id} - Updating facilitation group`)
 
         const validatedData = FGroupUpdateSchema.parse(req.body)
+        const fGroupBefore = await snapshotGroupRecord("f_groups", id)
 
         // Separate group fields from f_group fields
         const groupFields = {
@@ -277,6 +287,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
             updated_at,
             groups!inner (
               name,
+              log_id,
               description,
               url,
               members,
@@ -337,6 +348,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           is_publicly_listed: updatedGroupsData.is_publicly_listed,
           public_contact_id: updatedGroupsData.public_contact_id,
           primary_contact_id: updatedGroupsData.primary_contact_id,
+          log_id: updatedGroupsData.log_id,
           is_active: updatedData.is_active,
           created_at: updatedData.created_at,
           updated_at: updatedData.updated_at,
@@ -356,6 +368,15 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           venue: updatedData.venue,
         }
 
+        await recordRecordChange(auth, {
+          logId: transformedUpdatedData.log_id,
+          entity: "F-Group",
+          action: "updated",
+          before: fGroupBefore,
+          after: transformedUpdatedData,
+          membershipFields: GROUP_MEMBERSHIP_FIELDS,
+        })
+
         return res.json({
           success: true,
           data: transformedUpdatedData,
@@ -365,6 +386,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       case "DELETE":
         console.log(`[v0] DELETE /api/f-groups/${id} - Deleting facilitation group`)
 
+        const fGroupToDelete = await snapshotGroupRecord("f_groups", id)
+
         // Delete f_groups record first (due to foreign key)
         const { error: deleteFGroupError } = await supabase.from("f_groups").delete().eq("id", id)
 
@@ -387,6 +410,15 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           })
         }
 
+        if (fGroupToDelete) {
+          await recordRecordChange(auth, {
+            logId: fGroupToDelete.log_id,
+            entity: "F-Group",
+            action: "deleted",
+            before: fGroupToDelete,
+          })
+        }
+
         return res.json({
           success: true,
           message: "Facilitation group deleted successfully",
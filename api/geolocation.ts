@@ -35,6 +35,7 @@
  */
 
 import type { VercelRequest, VercelResponse } from "@vercel/node"
+import { authorizeRequest } from "./_lib/auth.js"
 
 interface LocationData {
   latitude: string | null
@@ -53,6 +54,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return res.status(200).end()
   }
 
+  const auth = await authorizeRequest(req, res, { GET: "public" })
+  if (!auth) {
+    return
+  }
+
   if (req.method !== "GET") {
     return res.status(405).json({
       success: false,
@@ -1,6 +1,9 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node"
 import { z } from "zod"
 import { supabase, isSupabaseConfigured } from "./_lib/supabase.js"
+import { authorizeRequest } from "./_lib/auth.js"
+import { recordRecordChange } from "./_lib/activity-log.js"
+import { listMeta, pageRows, parseListParams, searchFilter } from "./_lib/pagination.js"
 
 /**
  * Parse radius parameter which may have "mi" suffix (e.g., "25mi", "25.00mi")
@@ -58,9 +61,14 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     })
   }
 
+  const auth = await authorizeRequest(req, res, { GET: "public", POST: "area_admin" })
+  if (!auth) {
+    return
+  }
+
   try {
     if (req.method === "GET") {
-      const { active, search, publicly_listed, lat, latitude, lon, longitude, rad, radius, by, order } = req.query
+      const { active, publicly_listed, lat, latitude, lon, longitude, rad, radius, by, order } = req.query
       console.log("[v0] GET /api/groups — req.query: ", JSON.stringify(req.query))
 
       // Parse geolocation parameters
@@ -73,6 +81,15 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       const sortBy = Array.isArray(by) ? by[0] : (by || (hasGeolocation ? "distance" : "created_at"))
       const sortOrder = Array.isArray(order) ? order[0] : (order || (sortBy === "distance" ? "ascending" : "descending"))
 
+      // by/order are the older way of asking for a sort and still set the default for ?sort=
+      const listParams = parseListParams(req, res, {
+        sortable: ["name", "created_at", "distance"],
+        defaultSort: `${sortOrder === "ascending" ? "" : "-"}${sortBy === "name" || sortBy === "distance" ? sortBy : "created_at"}`,
+      })
+      if (!listParams) {
+        return
+      }
+
       // Handle geolocation-based filtering
       let distanceMap = new Map<string, number>()
       let filteredIds: string[] | null = null
@@ -107,6 +124,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
               success: true,
               data: [],
               count: 0,
+              ...listMeta(listParams, [], 0),
             })
           } else {
             console.error("[v0] RPC error:", nearbyError)
@@ -160,19 +178,18 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       }
 
       // Search functionality
-      if (search && typeof search === "string") {
-        query = query.or(`name.ilike.%${search}%,description.ilike.%${search}%`)
+      if (listParams.q) {
+        query = query.or(searchFilter(["name", "description"], listParams.q))
       }
 
       // Only apply database-level ordering if not sorting by distance
-      if (sortBy !== "distance") {
-        query = query.order(
-          sortBy === "name" ? "name" : "created_at",
-          { ascending: sortOrder === "ascending" }
-        )
+      if (listParams.sort !== "distance") {
+        query = query
+          .order(listParams.sort, { ascending: listParams.ascending })
+          .order("id", { ascending: listParams.ascending })
       }
 
-      const { data, error, count } = await query
+      const { data, error } = await query
 
       if (error) {
         console.error("Database error:", error)
@@ -198,19 +215,23 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         })
 
         // Sort by distance if requested (in-memory sorting)
-        if (sortBy === "distance") {
+        if (listParams.sort === "distance") {
           transformedData.sort((a: any, b: any) => {
             const distA = a.distance || Infinity
             const distB = b.distance || Infinity
-            return sortOrder === "ascending" ? distA - distB : distB - distA
+            return listParams.ascending ? distA - distB : distB - distA
           })
         }
       }
 
+      // Paged in memory because distance sorting happens after the query
+      const { rows, meta } = pageRows(listParams, transformedData)
+
       return res.status(200).json({
         success: true,
-        data: transformedData,
-        count: transformedData.length,
+        data: rows,
+        count: rows.length,
+        ...meta,
       })
     } else if (req.method === "POST") {
       const validation = CreateGroupSchema.safeParse(req.body)
@@ -261,6 +282,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         })
       }
 
+      await recordRecordChange(auth, { logId: data.log_id, entity: "Group", action: "created", after: data })
+
       return res.status(201).json({
         success: true,
         data,
@@ -1,6 +1,8 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node"
 import { z } from "zod"
 import { supabase, isSupabaseConfigured } from "../_lib/supabase.js"
+import { authorizeRequest } from "../_lib/auth.js"
+import { GROUP_MEMBERSHIP_FIELDS, recordRecordChange, snapshotRecord } from "../_lib/activity-log.js"
 
 const PersonSchema = z.object({
   id: z.string().uuid(),
@@ -45,6 +47,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     })
   }
 
+  const auth = await authorizeRequest(req, res, { GET: "public", PUT: "area_admin", DELETE: "area_admin" })
+  if (!auth) {
+    return
+  }
+
   const { id } = req.query
 
   if (!id || typeof id !== "string") {
@@ -115,6 +122,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       }
 
       const updateData = validation.data
+      const groupBefore = await snapshotRecord("groups", id)
 
       const { data, error } = await supabase
         .from("groups")
@@ -160,12 +168,23 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         })
       }
 
+      await recordRecordChange(auth, {
+        logId: data.log_id,
+        entity: "Group",
+        action: "updated",
+        before: groupBefore,
+        after: data,
+        membershipFields: GROUP_MEMBERSHIP_FIELDS,
+      })
+
       return res.status(200).json({
         success: true,
         data,
         message: "Group updated successfully",
       })
     } else if (req.method === "DELETE") {
+      const groupBefore = await snapshotRecord("groups", id)
+
       // Soft delete by setting deleted_at timestamp
       const { data, error } = await supabase
         .from("groups")
@@ -190,6 +209,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         })
       }
 
+      await recordRecordChange(auth, { logId: data.log_id, entity: "Group", action: "updated", before: groupBefore, after: data })
+
       return res.status(200).json({
         success: true,
         data,
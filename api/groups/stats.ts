@@ -1,5 +1,6 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node"
 import { supabase, isSupabaseConfigured } from "../_lib/supabase.js"
+import { authorizeRequest } from "../_lib/auth.js"
 
 /**
  * Parse radius parameter which may have "mi" suffix (e.g., "25mi", "25.00mi")
@@ -150,6 +151,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     })
   }
 
+  const auth = await authorizeRequest(req, res, { GET: "public" })
+  if (!auth) {
+    return
+  }
+
   if (req.method !== "GET") {
     res.setHeader("Allow", ["GET"])
     return res.status(405).json({
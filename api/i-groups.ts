@@ -1,6 +1,21 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node"
 import { z } from "zod"
 import { supabase, isSupabaseConfigured } from "./_lib/supabase.js"
+import { authorizeRequest } from "./_lib/auth.js"
+import { recordRecordChange } from "./_lib/activity-log.js"
+import { areaScopeFilter, authorizeAreaScope, getListScope } from "./_lib/area-scope.js"
+import { listMeta, pageRows, parseListParams, searchFilter } from "./_lib/pagination.js"
+import {
+  MEETING_ANCHOR_MESSAGE,
+  hasScheduleAnchor,
+  localMinuteOfDay,
+  localWeekday,
+  meetingScheduleFields,
+  meetingTimezone,
+  upcomingMeetings,
+} from "./_lib/meeting-schedule.js"
+import { syncMembershipHistory } from "./_lib/group-roster.js"
+import { findIGroupsWithinRadius, lookupCityCoordinates, lookupZipcodeCoordinates, parseRadius } from "./_lib/geo.js"
 import type { IGroup } from "../src/types/group"
 import type { Area } from "../src/types/area"
 import type { Community } from "../src/types/community"
@@ -14,19 +29,6 @@ interface IGroupWithRelations extends IGroup {
   distance_units?: string
 }
 
-/**
- * Parse radius parameter which may have "mi" suffix (e.g., "25mi", "25.00mi")
- * Returns radius in miles as a number, or null if invalid
- */
-function parseRadius(radiusParam: string | string[] | undefined): number | null {
-  if (!radiusParam) return null
-  const radiusStr = Array.isArray(radiusParam) ? radiusParam[0] : radiusParam
-  // Remove "mi" suffix if present
-  const cleanRadius = radiusStr.replace(/mi$/i, "").trim()
-  const radius = parseFloat(cleanRadius)
-  return isNaN(radius) ? null : radius
-}
-
 const IGroupSchema = z.object({
   id: z.string().uuid().optional(),
   name: z.string().min(1),
@@ -52,11 +54,16 @@ const IGroupSchema = z.object({
     )
     .default([]),
   schedule_description: z.string().optional().nullable(),
+  ...meetingScheduleFields,
   area_id: z.string().uuid().optional().nullable(),
   community_id: z.string().uuid().optional().nullable(),
   is_active: z.boolean().default(true),
   established_on: z.string().optional().nullable(),
-})
+}).refine(hasScheduleAnchor, { message: MEETING_ANCHOR_MESSAGE, path: ["schedule_dtstart"] })
+
+// A rule-less group's listed times, past ones included, are the best guide to its usual night
+const scheduleSample = (group: any) =>
+  group.schedule_rrule ? group.next_meetings : Array.isArray(group.schedule_events) ? group.schedule_events : []
 
 export type IGroupApiResponse = {
   success: boolean
@@ -83,6 +90,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     })
   }
 
+  const auth = await authorizeRequest(req, res, { GET: "public", POST: "area_admin" })
+  if (!auth) {
+    return
+  }
+
   const { method, query } = req
 
   try {
@@ -92,7 +104,6 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
         const {
           active,
-          search,
           name,
           city,
           state,
@@ -109,7 +120,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           rad,
           radius,
           by,
-          order
+          order,
+          managed
         } = query
 
         // Geography-based coordinate lookup for city/state or zipcode searches
@@ -124,21 +136,12 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
           console.log(`[v0] Looking up coordinates for city=${cityParam}, state=${stateParam}`)
 
-          const { data: cityData, error: cityError } = await supabase
-            .from("geography_us_cities")
-            .select("lat, lng")
-            .ilike("city", cityParam.trim())
-            .ilike("state_id", stateParam.trim())
-            .limit(1)
-            .single()
-
-          if (!cityError && cityData) {
-            geoLat = String(cityData.lat)
-            geoLon = String(cityData.lng)
+          const coordinates = await lookupCityCoordinates(cityParam, stateParam)
+          if (coordinates) {
+            geoLat = String(coordinates.lat)
+            geoLon = String(coordinates.lon)
             geoRad = "25" // Default to 25 miles for city searches
             console.log(`[v0] Found coordinates: lat=${geoLat}, lon=${geoLon}`)
-          } else {
-            console.log(`[v0] City not found in geography database:`, cityError?.message || "No results")
           }
         }
 
@@ -148,20 +151,12 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
           console.log(`[v0] Looking up coordinates for zipcode=${zipcodeParam}`)
 
-          const { data: zipcodeData, error: zipcodeError } = await supabase
-            .from("geography_us_zipcodes")
-            .select("lat, lng")
-            .eq("zip", zipcodeParam.trim())
-            .limit(1)
-            .single()
-
-          if (!zipcodeError && zipcodeData) {
-            geoLat = String(zipcodeData.lat)
-            geoLon = String(zipcodeData.lng)
+          const coordinates = await lookupZipcodeCoordinates(zipcodeParam)
+          if (coordinates) {
+            geoLat = String(coordinates.lat)
+            geoLon = String(coordinates.lon)
             geoRad = "25" // Default to 25 miles for zipcode searches
             console.log(`[v0] Found coordinates: lat=${geoLat}, lon=${geoLon}`)
-          } else {
-            console.log(`[v0] Zipcode not found in geography database:`, zipcodeError?.message || "No results")
           }
         }
 
@@ -175,6 +170,15 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         const sortBy = Array.isArray(by) ? by[0] : (by || (hasGeolocation ? "distance" : "created_at"))
         const sortOrder = Array.isArray(order) ? order[0] : (order || (sortBy === "distance" ? "ascending" : "descending"))
 
+        // by/order are the older way of asking for a sort and still set the default for ?sort=
+        const listParams = parseListParams(req, res, {
+          sortable: ["name", "created_at", "distance"],
+          defaultSort: `${sortOrder === "ascending" ? "" : "-"}${sortBy === "name" || sortBy === "distance" ? sortBy : "created_at"}`,
+        })
+        if (!listParams) {
+          return
+        }
+
         // Handle geolocation-based filtering
         let distanceMap = new Map<string, number>()
         let filteredIds: string[] | null = null
@@ -183,33 +187,25 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           const parsedLat = parseFloat(Array.isArray(latParam) ? latParam[0] : (latParam as string))
           const parsedLon = parseFloat(Array.isArray(lonParam) ? lonParam[0] : (lonParam as string))
           const radiusMiles = parseRadius(radParam) || 50
-          const radiusMeters = radiusMiles * 1609.34
 
           if (!isNaN(parsedLat) && !isNaN(parsedLon)) {
             console.log(`[v0] Geolocation filter: lat=${parsedLat}, lon=${parsedLon}, radius=${radiusMiles}mi`)
 
-            const { data: nearbyGroups, error: nearbyError } = await supabase.rpc("find_igroups_within_radius", {
-              point_lon: parsedLon,
-              point_lat: parsedLat,
-              radius_meters: radiusMeters,
-            })
+            const nearbyGroups = await findIGroupsWithinRadius({ lat: parsedLat, lon: parsedLon }, radiusMiles)
 
-            if (!nearbyError && nearbyGroups && nearbyGroups.length > 0) {
-              filteredIds = nearbyGroups.map((g: any) => g.id)
-              nearbyGroups.forEach((g: any) => {
-                distanceMap.set(g.id, g.distance_meters)
-              })
-              console.log(`[v0] Found ${filteredIds!.length} i-groups within ${radiusMiles} miles`)
-            } else if (!nearbyError) {
+            if (nearbyGroups && nearbyGroups.size > 0) {
+              distanceMap = nearbyGroups
+              filteredIds = [...nearbyGroups.keys()]
+              console.log(`[v0] Found ${filteredIds.length} i-groups within ${radiusMiles} miles`)
+            } else if (nearbyGroups) {
               // No groups found within radius, return empty result
               console.log(`[v0] No i-groups found within ${radiusMiles} miles`)
               return res.json({
                 success: true,
                 data: [],
                 count: 0,
+                ...listMeta(listParams, [], 0),
               })
-            } else {
-              console.error("[v0] RPC error:", nearbyError)
             }
           }
         }
@@ -234,11 +230,17 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
             latitude,
             longitude,
             i_groups!inner (
+              log_id,
               is_accepting_initiated_visitors,
               is_accepting_uninitiated_visitors,
               is_requiring_contact_before_visiting,
               schedule_events,
               schedule_description,
+              schedule_rrule,
+              schedule_dtstart,
+              schedule_duration_minutes,
+              schedule_timezone,
+              schedule_exdates,
               area_id,
               community_id,
               is_active,
@@ -286,12 +288,9 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           }
         }
 
-        // Legacy search parameter (searches both name and description)
-        if (search && typeof search === "string" && !name) {
-          const searchTerm = search.trim()
-          if (searchTerm.length > 0) {
-            dbQuery = dbQuery.or(`name.ilike.*${searchTerm}*,description.ilike.*${searchTerm}*`)
-          }
+        // General search (q, or the legacy search parameter) covers both name and description
+        if (listParams.q && !name) {
+          dbQuery = dbQuery.or(searchFilter(["name", "description"], listParams.q))
         }
 
         // Visitor type filters
@@ -305,14 +304,19 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           dbQuery = dbQuery.eq("i_groups.is_accepting_uninitiated_visitors", acceptsUninitiated)
         }
 
+        // Area admins asking for the groups they manage only get their own areas' groups
+        const scope = await getListScope(auth, managed === "true")
+        if (scope) {
+          dbQuery = dbQuery.or(areaScopeFilter(scope), { referencedTable: "i_groups" })
+        }
+
         // Only apply database-level ordering if not sorting by distance
         // (distance sorting requires the computed distance field, so we do it in-memory)
-        const { data, error } = sortBy === "distance"
+        const { data, error } = listParams.sort === "distance"
           ? await dbQuery
-          : await dbQuery.order(
-              sortBy === "name" ? "name" : "created_at",
-              { ascending: sortOrder === "ascending" }
-            )
+          : await dbQuery
+              .order(listParams.sort, { ascending: listParams.ascending })
+              .order("id", { ascending: listParams.ascending })
 
         if (error) {
           console.error("[v0] Database error:", error)
@@ -344,11 +348,18 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
               deleted_at: group.deleted_at,
               latitude: group.latitude,
               longitude: group.longitude,
+              log_id: iGroupData.log_id,
               is_accepting_initiated_visitors: iGroupData.is_accepting_initiated_visitors,
               is_accepting_uninitiated_visitors: iGroupData.is_accepting_uninitiated_visitors,
               is_requiring_contact_before_visiting: iGroupData.is_requiring_contact_before_visiting,
               schedule_events: iGroupData.schedule_events,
               schedule_description: iGroupData.schedule_description,
+              schedule_rrule: iGroupData.schedule_rrule,
+              schedule_dtstart: iGroupData.schedule_dtstart,
+              schedule_duration_minutes: iGroupData.schedule_duration_minutes,
+              schedule_timezone: iGroupData.schedule_timezone,
+              schedule_exdates: iGroupData.schedule_exdates,
+              next_meetings: upcomingMeetings(iGroupData, meetingTimezone(iGroupData, group.venue?.timezone)),
               area_id: iGroupData.area_id,
               community_id: iGroupData.community_id,
               area: iGroupData.area,
@@ -385,15 +396,12 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           }
           const requestedDayNumbers = requestedDays.map(d => dayMap[d.toLowerCase()]).filter(n => n !== undefined)
 
+          // Weekdays are taken where the group meets; the server's own timezone put evening groups a day late
           transformedData = transformedData.filter((group: any) => {
-            const scheduleEvents = group.schedule_events || []
-            if (!Array.isArray(scheduleEvents) || scheduleEvents.length === 0) return false
-
-            return scheduleEvents.some((event: any) => {
+            const timeZone = meetingTimezone(group, group.venue?.timezone)
+            return scheduleSample(group).some((event: any) => {
               if (!event.start) return false
-              const eventDate = new Date(event.start)
-              const eventDay = eventDate.getDay()
-              return requestedDayNumbers.includes(eventDay)
+              return requestedDayNumbers.includes(localWeekday(event.start, timeZone))
             })
           })
         }
@@ -403,19 +411,16 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           const datesParam = Array.isArray(dates) ? dates[0] : dates
           const requestedDate = new Date(datesParam)
 
-          transformedData = transformedData.filter((group: any) => {
-            const scheduleEvents = group.schedule_events || []
-            if (!Array.isArray(scheduleEvents) || scheduleEvents.length === 0) return false
-
-            return scheduleEvents.some((event: any) => {
-              if (!event.start) return false
-              const eventStart = new Date(event.start)
-              const eventEnd = event.end ? new Date(event.end) : eventStart
-
-              // Check if requested date falls within any event
-              return requestedDate >= eventStart && requestedDate <= eventEnd
-            })
-          })
+          // Check if requested date falls within any meeting, expanding recurring schedules as needed
+          transformedData = transformedData.filter(
+            (group: any) =>
+              !Number.isNaN(requestedDate.getTime()) &&
+              upcomingMeetings(group, meetingTimezone(group, group.venue?.timezone), {
+                from: requestedDate,
+                to: requestedDate,
+                limit: 1,
+              }).length > 0,
+          )
         }
 
         // Apply time-of-day filtering (in-memory)
@@ -426,35 +431,34 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           const requestedMinute = requestedTime.getMinutes()
 
           transformedData = transformedData.filter((group: any) => {
-            const scheduleEvents = group.schedule_events || []
-            if (!Array.isArray(scheduleEvents) || scheduleEvents.length === 0) return false
-
-            return scheduleEvents.some((event: any) => {
+            const timeZone = meetingTimezone(group, group.venue?.timezone)
+            return scheduleSample(group).some((event: any) => {
               if (!event.start) return false
-              const eventStart = new Date(event.start)
-              const eventHour = eventStart.getHours()
-              const eventMinute = eventStart.getMinutes()
 
-              // Match within 1 hour window
-              const timeDiffMinutes = Math.abs((eventHour * 60 + eventMinute) - (requestedHour * 60 + requestedMinute))
+              // Match within 1 hour window of the group's local start time
+              const timeDiffMinutes = Math.abs(localMinuteOfDay(event.start, timeZone) - (requestedHour * 60 + requestedMinute))
               return timeDiffMinutes <= 60
             })
           })
         }
 
         // Sort by distance if requested (in-memory sorting)
-        if (sortBy === "distance" && distanceMap.size > 0) {
+        if (listParams.sort === "distance" && distanceMap.size > 0) {
           transformedData.sort((a: any, b: any) => {
             const distA = a.distance || Infinity
             const distB = b.distance || Infinity
-            return sortOrder === "ascending" ? distA - distB : distB - distA
+            return listParams.ascending ? distA - distB : distB - distA
           })
         }
 
+        // Paged in memory because the schedule filters and distance sorting run after the query
+        const { rows, meta } = pageRows(listParams, transformedData)
+
         return res.json({
           success: true,
-          data: transformedData,
-          count: transformedData.length,
+          data: rows,
+          count: rows.length,
+          ...meta,
         })
 
       case "POST":
@@ -462,6 +466,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
         const validatedData = IGroupSchema.parse(req.body)
 
+        if (!(await authorizeAreaScope(res, auth, "i_groups", null, validatedData))) {
+          return
+        }
+
         // Create the base group record
         const { data: groupData, error: groupError } = await supabase
           .from("groups")
@@ -500,17 +508,28 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
             is_requiring_contact_before_visiting: validatedData.is_requiring_contact_before_visiting,
             schedule_events: validatedData.schedule_events,
             schedule_description: validatedData.schedule_description || null,
+            schedule_rrule: validatedData.schedule_rrule || null,
+            schedule_dtstart: validatedData.schedule_dtstart || null,
+            schedule_duration_minutes: validatedData.schedule_duration_minutes,
+            schedule_timezone: validatedData.schedule_timezone || null,
+            schedule_exdates: validatedData.schedule_exdates || [],
             area_id: validatedData.area_id || null,
             community_id: validatedData.community_id || null,
             is_active: validatedData.is_active,
           })
           .select(`
             id,
+            log_id,
             is_accepting_initiated_visitors,
             is_accepting_uninitiated_visitors,
             is_requiring_contact_before_visiting,
             schedule_events,
             schedule_description,
+            schedule_rrule,
+            schedule_dtstart,
+            schedule_duration_minutes,
+            schedule_timezone,
+            schedule_exdates,
             area_id,
             community_id,
             is_active,
@@ -563,6 +582,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           })
         }
 
+        await syncMembershipHistory(auth, groupData.id, [], validatedData.members)
+
         const groupsData = newData.groups as any
         const transformedNewData = {
           id: newData.id,
@@ -581,11 +602,18 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           created_at: newData.created_at,
           updated_at: newData.updated_at,
           deleted_at: groupsData.deleted_at,
+          log_id: newData.log_id,
           is_accepting_initiated_visitors: newData.is_accepting_initiated_visitors,
           is_accepting_uninitiated_visitors: newData.is_accepting_uninitiated_visitors,
           is_requiring_contact_before_visiting: newData.is_requiring_contact_before_visiting,
           schedule_events: newData.schedule_events,
           schedule_description: newData.schedule_description,
+          schedule_rrule: newData.schedule_rrule,
+          schedule_dtstart: newData.schedule_dtstart,
+          schedule_duration_minutes: newData.schedule_duration_minutes,
+          schedule_timezone: newData.schedule_timezone,
+          schedule_exdates: newData.schedule_exdates,
+          next_meetings: upcomingMeetings(newData, meetingTimezone(newData, (newData.venue as any)?.timezone)),
           area_id: newData.area_id,
           community_id: newData.community_id,
           area: newData.area,
@@ -593,6 +621,13 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           venue: newData.venue,
         }
 
+        await recordRecordChange(auth, {
+          logId: transformedNewData.log_id,
+          entity: "I-Group",
+          action: "created",
+          after: transformedNewData,
+        })
+
         return res.status(201).json({
           success: true,
           data: transformedNewData,
@@ -1,6 +1,19 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node"
 import { z } from "zod"
 import { supabase, isSupabaseConfigured } from "../_lib/supabase.js"
+import { authorizeRequest } from "../_lib/auth.js"
+import { GROUP_MEMBERSHIP_FIELDS, recordRecordChange, snapshotGroupRecord } from "../_lib/activity-log.js"
+import { authorizeAreaScope } from "../_lib/area-scope.js"
+import {
+  DEFAULT_NEXT_MEETINGS,
+  MAX_NEXT_MEETINGS,
+  MEETING_ANCHOR_MESSAGE,
+  hasScheduleAnchor,
+  meetingScheduleFields,
+  meetingTimezone,
+  upcomingMeetings,
+} from "../_lib/meeting-schedule.js"
+import { syncMembershipHistory } from "../_lib/group-roster.js"
 
 const IGroupUpdateSchema = z.object({
   name: z.string().min(1).optional(),
@@ -26,6 +39,7 @@ const IGroupUpdateSchema = z.object({
     )
     .optional(),
   schedule_description: z.string().optional().nullable(),
+  ...meetingScheduleFields,
   area_id: z.string().uuid().optional().nullable(),
   community_id: z.string().uuid().optional().nullable(),
   is_active: z.boolean().optional(),
@@ -48,6 +62,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     })
   }
 
+  const auth = await authorizeRequest(req, res, { GET: "public", PUT: "area_admin", DELETE: "area_admin" })
+  if (!auth) {
+    return
+  }
+
   const { method, query } = req
   const { id } = query
 
@@ -61,8 +80,17 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   try {
     switch (method) {
       case "GET":
+        // GET /api/i-groups/[id]?meetings=N - The group, with its next N meetings worked out from its schedule
         console.log(`[v0] GET /api/i-groups/${id} - Fetching integration group`)
 
+        const meetingCount = z.coerce
+          .number()
+          .int()
+          .min(1)
+          .max(MAX_NEXT_MEETINGS)
+          .default(DEFAULT_NEXT_MEETINGS)
+          .parse(query.meetings)
+
         const { data, error } = await supabase
           .from("groups")
           .select(`
@@ -84,11 +112,17 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
             deleted_at,
             established_on,
             i_groups!inner (
+              log_id,
               is_accepting_initiated_visitors,
               is_accepting_uninitiated_visitors,
               is_requiring_contact_before_visiting,
               schedule_events,
               schedule_description,
+              schedule_rrule,
+              schedule_dtstart,
+              schedule_duration_minutes,
+              schedule_timezone,
+              schedule_exdates,
               area_id,
               community_id,
               is_active,
@@ -178,11 +212,20 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           created_at: iGroupData.created_at,
           updated_at: iGroupData.updated_at,
           deleted_at: data.deleted_at,
+          log_id: iGroupData.log_id,
           is_accepting_initiated_visitors: iGroupData.is_accepting_initiated_visitors,
           is_accepting_uninitiated_visitors: iGroupData.is_accepting_uninitiated_visitors,
           is_requiring_contact_before_visiting: iGroupData.is_requiring_contact_before_visiting,
           schedule_events: iGroupData.schedule_events,
           schedule_description: iGroupData.schedule_description,
+          schedule_rrule: iGroupData.schedule_rrule,
+          schedule_dtstart: iGroupData.schedule_dtstart,
+          schedule_duration_minutes: iGroupData.schedule_duration_minutes,
+          schedule_timezone: iGroupData.schedule_timezone,
+          schedule_exdates: iGroupData.schedule_exdates,
+          next_meetings: upcomingMeetings(iGroupData, meetingTimezone(iGroupData, (data.venue as any)?.timezone), {
+            limit: meetingCount,
+          }),
           area_id: iGroupData.area_id,
           community_id: iGroupData.community_id,
           area: iGroupData.area,
@@ -202,6 +245,20 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
         const validatedData = IGroupUpdateSchema.parse(req.body)
 
+        if (!(await authorizeAreaScope(res, auth, "i_groups", id, validatedData))) {
+          return
+        }
+
+        const iGroupBefore = await snapshotGroupRecord("i_groups", id)
+
+        // The rule may arrive without its anchor when only the rule is being changed
+        if (!hasScheduleAnchor({ ...iGroupBefore, ...validatedData })) {
+          return res.status(400).json({
+            success: false,
+            error: MEETING_ANCHOR_MESSAGE,
+          })
+        }
+
         // Separate group fields from i_group fields
         const groupFields: any = {}
         const iGroupFields: any = {}
@@ -232,6 +289,13 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         if (validatedData.schedule_events !== undefined) iGroupFields.schedule_events = validatedData.schedule_events
         if (validatedData.schedule_description !== undefined)
           iGroupFields.schedule_description = validatedData.schedule_description
+        if (validatedData.schedule_rrule !== undefined) iGroupFields.schedule_rrule = validatedData.schedule_rrule || null
+        if (validatedData.schedule_dtstart !== undefined) iGroupFields.schedule_dtstart = validatedData.schedule_dtstart
+        if (validatedData.schedule_duration_minutes !== undefined)
+          iGroupFields.schedule_duration_minutes = validatedData.schedule_duration_minutes
+        if (validatedData.schedule_timezone !== undefined)
+          iGroupFields.schedule_timezone = validatedData.schedule_timezone
+        if (validatedData.schedule_exdates !== undefined) iGroupFields.schedule_exdates = validatedData.schedule_exdates
         if (validatedData.area_id !== undefined) iGroupFields.area_id = validatedData.area_id
         if (validatedData.community_id !== undefined) iGroupFields.community_id = validatedData.community_id
         if (validatedData.is_active !== undefined) iGroupFields.is_active = validatedData.is_active
@@ -262,6 +326,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           }
         }
 
+        if (validatedData.members !== undefined) {
+          await syncMembershipHistory(auth, id, (iGroupBefore?.members as string[]) || [], validatedData.members)
+        }
+
         // Fetch the updated record
         const { data: updatedData, error: fetchError } = await supabase
           .from("groups")
@@ -284,11 +352,17 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
             deleted_at,
             established_on,
             i_groups!inner (
+              log_id,
               is_accepting_initiated_visitors,
               is_accepting_uninitiated_visitors,
               is_requiring_contact_before_visiting,
               schedule_events,
               schedule_description,
+              schedule_rrule,
+              schedule_dtstart,
+              schedule_duration_minutes,
+              schedule_timezone,
+              schedule_exdates,
               area_id,
               community_id,
               is_active,
@@ -376,11 +450,21 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           created_at: updatedIGroupData.created_at,
           updated_at: updatedIGroupData.updated_at,
           deleted_at: updatedData.deleted_at,
+          log_id: updatedIGroupData.log_id,
           is_accepting_initiated_visitors: updatedIGroupData.is_accepting_initiated_visitors,
           is_accepting_uninitiated_visitors: updatedIGroupData.is_accepting_uninitiated_visitors,
           is_requiring_contact_before_visiting: updatedIGroupData.is_requiring_contact_before_visiting,
           schedule_events: updatedIGroupData.schedule_events,
           schedule_description: updatedIGroupData.schedule_description,
+          schedule_rrule: updatedIGroupData.schedule_rrule,
+          schedule_dtstart: updatedIGroupData.schedule_dtstart,
+          schedule_duration_minutes: updatedIGroupData.schedule_duration_minutes,
+          schedule_timezone: updatedIGroupData.schedule_timezone,
+          schedule_exdates: updatedIGroupData.schedule_exdates,
+          next_meetings: upcomingMeetings(
+            updatedIGroupData,
+            meetingTimezone(updatedIGroupData, (updatedData.venue as any)?.timezone),
+          ),
           area_id: updatedIGroupData.area_id,
           community_id: updatedIGroupData.community_id,
           area: updatedIGroupData.area,
@@ -390,6 +474,15 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           primary_contact: updatedData.primary_contact,
         }
 
+        await recordRecordChange(auth, {
+          logId: transformedUpdatedData.log_id,
+          entity: "I-Group",
+          action: "updated",
+          before: iGroupBefore,
+          after: { ...transformedUpdatedData, members: updatedMemberIds },
+          membershipFields: GROUP_MEMBERSHIP_FIELDS,
+        })
+
         return res.json({
           success: true,
           data: transformedUpdatedData,
@@ -399,6 +492,12 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       case "DELETE":
         console.log(`[v0] DELETE /api/i-groups/${id} - Soft deleting initiation group`)
 
+        if (!(await authorizeAreaScope(res, auth, "i_groups", id))) {
+          return
+        }
+
+        const iGroupToArchive = await snapshotGroupRecord("i_groups", id)
+
         const { error: deleteError } = await supabase
           .from("groups")
           .update({ deleted_at: new Date().toISOString() })
@@ -412,6 +511,16 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           })
         }
 
+        if (iGroupToArchive) {
+          await recordRecordChange(auth, {
+            logId: iGroupToArchive.log_id,
+            entity: "I-Group",
+            action: "updated",
+            before: iGroupToArchive,
+            after: { ...iGroupToArchive, deleted_at: new Date().toISOString() },
+          })
+        }
+
         return res.json({
           success: true,
           message: "Initiation group deleted successfully",
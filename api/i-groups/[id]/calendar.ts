@@ -0,0 +1,120 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node"
+import { z } from "zod"
+import { supabase, isSupabaseConfigured } from "../../_lib/supabase.js"
+import { authorizeRequest } from "../../_lib/auth.js"
+import { requestOrigin, sendCalendar } from "../../_lib/ical.js"
+import { iGroupFeedEntries } from "../../_lib/calendar-feeds.js"
+import { meetingTimezone } from "../../_lib/meeting-schedule.js"
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Access-Control-Allow-Origin", "*")
+  res.setHeader("Access-Control-Allow-Methods", "GET, OPTIONS")
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization")
+
+  if (req.method === "OPTIONS") {
+    return res.status(200).end()
+  }
+
+  if (!isSupabaseConfigured) {
+    return res.status(500).json({
+      success: false,
+      error: "Database not configured",
+    })
+  }
+
+  const auth = await authorizeRequest(req, res, { GET: "public" })
+  if (!auth) {
+    return
+  }
+
+  const { method, query } = req
+  const groupId = query.id as string
+
+  if (!groupId || !z.string().uuid().safeParse(groupId).success) {
+    return res.status(400).json({
+      success: false,
+      error: "Invalid I-Group ID format",
+    })
+  }
+
+  try {
+    switch (method) {
+      case "GET": {
+        // GET /api/i-groups/[id]/calendar - The group's meetings as an iCalendar feed
+        console.log(`[v0] GET /api/i-groups/${groupId}/calendar - Building meeting calendar feed`)
+
+        const { data: group, error } = await supabase
+          .from("groups")
+          .select(`
+            id,
+            name,
+            deleted_at,
+            updated_at,
+            i_groups!inner (
+              is_requiring_contact_before_visiting,
+              schedule_events,
+              schedule_description,
+              schedule_rrule,
+              schedule_dtstart,
+              schedule_duration_minutes,
+              schedule_timezone,
+              schedule_exdates,
+              is_active
+            ),
+            venue:venues(
+              name,
+              timezone,
+              physical_address:addresses!venues_physical_address_id_fkey(
+                address_1,
+                address_2,
+                city,
+                state,
+                postal_code,
+                country
+              )
+            )
+          `)
+          .eq("id", groupId)
+          .maybeSingle()
+
+        if (error) {
+          console.error("[v0] Database error fetching I-Group for calendar feed:", error)
+          throw error
+        }
+
+        if (!group || group.deleted_at) {
+          return res.status(404).json({
+            success: false,
+            error: "Integration group not found",
+          })
+        }
+
+        const iGroup = { ...(group.i_groups as any), id: group.id, name: group.name, updated_at: group.updated_at }
+        const venue = group.venue as any
+        const entries = iGroup.is_active
+          ? iGroupFeedEntries(iGroup, venue, `${requestOrigin(req)}/i-group/${group.id}`)
+          : []
+
+        return sendCalendar(res, group.name, {
+          name: `${group.name} I-Group`,
+          description: iGroup.schedule_description,
+          timeZone: meetingTimezone(iGroup, venue?.timezone),
+          entries,
+        })
+      }
+
+      default:
+        res.setHeader("Allow", ["GET"])
+        return res.status(405).json({
+          success: false,
+          error: `Method ${method} not allowed`,
+        })
+    }
+  } catch (error) {
+    console.error("[v0] Server error:", error)
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+    })
+  }
+}
@@ -0,0 +1,126 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node"
+import { z } from "zod"
+import { isSupabaseConfigured } from "../../_lib/supabase.js"
+import { authorizeRequest } from "../../_lib/auth.js"
+import { fetchVisitorGroup, managesVisitorGroup } from "../../_lib/visitor-requests.js"
+import {
+  CheckInSchema,
+  checkInAlerts,
+  duePeriod,
+  fetchAlertGroups,
+  fetchCheckIns,
+  periodOf,
+  saveCheckIn,
+} from "../../_lib/group-check-ins.js"
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Access-Control-Allow-Origin", "*")
+  res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS")
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization")
+
+  if (req.method === "OPTIONS") {
+    return res.status(200).end()
+  }
+
+  if (!isSupabaseConfigured) {
+    return res.status(500).json({
+      success: false,
+      error: "Database not configured",
+    })
+  }
+
+  const auth = await authorizeRequest(req, res, { GET: "warrior", POST: "warrior" })
+  if (!auth) {
+    return
+  }
+
+  const { method, query } = req
+  const groupId = query.id as string
+
+  if (!groupId || !z.string().uuid().safeParse(groupId).success) {
+    return res.status(400).json({
+      success: false,
+      error: "Invalid I-Group ID format",
+    })
+  }
+
+  try {
+    const group = await fetchVisitorGroup(groupId)
+    if (!group) {
+      return res.status(404).json({
+        success: false,
+        error: "Integration group not found",
+      })
+    }
+
+    if (!(await managesVisitorGroup(auth, group))) {
+      return res.status(403).json({
+        success: false,
+        error: "Only the group's contact, its community coordinator and area admins can see its check-ins",
+      })
+    }
+
+    switch (method) {
+      case "GET": {
+        // GET /api/i-groups/[id]/check-ins - Check-in history and the alerts it raises
+        console.log(`[v0] GET /api/i-groups/${groupId}/check-ins - Fetching check-ins`)
+
+        const checkIns = await fetchCheckIns([groupId])
+        const [alertGroup] = await fetchAlertGroups(`id.eq.${groupId}`)
+
+        return res.json({
+          success: true,
+          data: {
+            i_group_id: groupId,
+            due_period: duePeriod(),
+            check_ins: checkIns,
+            alerts: alertGroup ? checkInAlerts(alertGroup, checkIns) : [],
+          },
+          count: checkIns.length,
+        })
+      }
+
+      case "POST": {
+        // POST /api/i-groups/[id]/check-ins - Submit (or correct) a month's check-in
+        const input = CheckInSchema.parse(req.body)
+        console.log(`[v0] POST /api/i-groups/${groupId}/check-ins - Checking in for ${input.period}`)
+
+        if (`${input.period}-01` > periodOf(new Date())) {
+          return res.status(400).json({
+            success: false,
+            error: "Check-ins can't be filed for months that haven't started",
+          })
+        }
+
+        const checkIn = await saveCheckIn(auth, group, input)
+
+        return res.status(201).json({
+          success: true,
+          data: checkIn,
+          message: "Check-in saved",
+        })
+      }
+
+      default:
+        res.setHeader("Allow", ["GET", "POST"])
+        return res.status(405).json({
+          success: false,
+          error: `Method ${method} not allowed`,
+        })
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: "Validation error",
+        details: error.errors,
+      })
+    }
+
+    console.error("[v0] Server error:", error)
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+    })
+  }
+}
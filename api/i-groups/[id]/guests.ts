@@ -0,0 +1,113 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node"
+import { z } from "zod"
+import { isSupabaseConfigured } from "../../_lib/supabase.js"
+import { authorizeRequest } from "../../_lib/auth.js"
+import {
+  GuestSchema,
+  attachGroups,
+  fetchVisitorGroup,
+  fetchVisitorRequests,
+  managesVisitorGroup,
+  recordGuest,
+} from "../../_lib/visitor-requests.js"
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Access-Control-Allow-Origin", "*")
+  res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS")
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization")
+
+  if (req.method === "OPTIONS") {
+    return res.status(200).end()
+  }
+
+  if (!isSupabaseConfigured) {
+    return res.status(500).json({
+      success: false,
+      error: "Database not configured",
+    })
+  }
+
+  const auth = await authorizeRequest(req, res, { GET: "warrior", POST: "warrior" })
+  if (!auth) {
+    return
+  }
+
+  const { method, query } = req
+  const groupId = query.id as string
+
+  if (!groupId || !z.string().uuid().safeParse(groupId).success) {
+    return res.status(400).json({
+      success: false,
+      error: "Invalid I-Group ID format",
+    })
+  }
+
+  try {
+    const group = await fetchVisitorGroup(groupId)
+    if (!group) {
+      return res.status(404).json({
+        success: false,
+        error: "Integration group not found",
+      })
+    }
+
+    if (!(await managesVisitorGroup(auth, group))) {
+      return res.status(403).json({
+        success: false,
+        error: "Only the group's contacts, its community coordinator and area admins can record guests",
+      })
+    }
+
+    switch (method) {
+      case "GET": {
+        // GET /api/i-groups/[id]/guests - Everyone who has asked to visit or attended as a guest
+        console.log(`[v0] GET /api/i-groups/${groupId}/guests - Fetching visitors`)
+
+        const visitors = await attachGroups(await fetchVisitorRequests(null, { i_group_id: groupId }))
+        visitors.sort((a, b) => (b.created_at || "").localeCompare(a.created_at || ""))
+
+        return res.json({
+          success: true,
+          data: visitors,
+          count: visitors.length,
+        })
+      }
+
+      case "POST": {
+        // POST /api/i-groups/[id]/guests - Record a guest who attended a meeting
+        console.log(`[v0] POST /api/i-groups/${groupId}/guests - Recording guest attendance`)
+
+        const guest = GuestSchema.parse(req.body)
+        const created = await recordGuest(auth, group, guest)
+        const [data] = await attachGroups([created])
+
+        return res.status(201).json({
+          success: true,
+          data,
+          message: "Guest recorded",
+        })
+      }
+
+      default:
+        res.setHeader("Allow", ["GET", "POST"])
+        return res.status(405).json({
+          success: false,
+          error: `Method ${method} not allowed`,
+        })
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: "Validation error",
+        details: error.errors,
+      })
+    }
+
+    console.error("[v0] Server error:", error)
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+    })
+  }
+}
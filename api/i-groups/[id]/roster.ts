@@ -0,0 +1,179 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node"
+import { z } from "zod"
+import { isSupabaseConfigured } from "../../_lib/supabase.js"
+import { authorizeRequest } from "../../_lib/auth.js"
+import { fetchVisitorGroup, managesVisitorGroup } from "../../_lib/visitor-requests.js"
+import {
+  AddMemberSchema,
+  RemoveMemberSchema,
+  UpdateMemberSchema,
+  addMember,
+  changeRole,
+  fetchOpenMembership,
+  fetchRoster,
+  removeMember,
+} from "../../_lib/group-roster.js"
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Access-Control-Allow-Origin", "*")
+  res.setHeader("Access-Control-Allow-Methods", "GET, POST, PUT, DELETE, OPTIONS")
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization")
+
+  if (req.method === "OPTIONS") {
+    return res.status(200).end()
+  }
+
+  if (!isSupabaseConfigured) {
+    return res.status(500).json({
+      success: false,
+      error: "Database not configured",
+    })
+  }
+
+  // Changes are further limited to the group's contact, its coordinator and area admins below
+  const auth = await authorizeRequest(req, res, { GET: "warrior", POST: "warrior", PUT: "warrior", DELETE: "warrior" })
+  if (!auth) {
+    return
+  }
+
+  const { method, query } = req
+  const groupId = query.id as string
+
+  if (!groupId || !z.string().uuid().safeParse(groupId).success) {
+    return res.status(400).json({
+      success: false,
+      error: "Invalid I-Group ID format",
+    })
+  }
+
+  try {
+    const group = await fetchVisitorGroup(groupId)
+    if (!group) {
+      return res.status(404).json({
+        success: false,
+        error: "Integration group not found",
+      })
+    }
+
+    const canManage = await managesVisitorGroup(auth, group)
+    if (method !== "GET" && !canManage) {
+      return res.status(403).json({
+        success: false,
+        error: "Only the group's contact, its community coordinator and area admins can change its roster",
+      })
+    }
+
+    switch (method) {
+      case "GET": {
+        // GET /api/i-groups/[id]/roster - Current members with roles, and everyone who has left
+        console.log(`[v0] GET /api/i-groups/${groupId}/roster - Fetching roster`)
+
+        const roster = await fetchRoster(groupId)
+
+        return res.json({
+          success: true,
+          data: { ...roster, can_manage: canManage },
+          count: roster.current.length,
+        })
+      }
+
+      case "POST": {
+        // POST /api/i-groups/[id]/roster - Add a member
+        const input = AddMemberSchema.parse(req.body)
+        console.log(`[v0] POST /api/i-groups/${groupId}/roster - Adding ${input.person_id} as ${input.role}`)
+
+        if (await fetchOpenMembership(groupId, input.person_id)) {
+          return res.status(409).json({
+            success: false,
+            error: "This person is already a member of the group",
+          })
+        }
+
+        const membership = await addMember(auth, group, input)
+
+        return res.status(201).json({
+          success: true,
+          data: membership,
+          message: "Member added",
+        })
+      }
+
+      case "PUT": {
+        // PUT /api/i-groups/[id]/roster - Change a member's role, join date or notes
+        const update = UpdateMemberSchema.parse(req.body)
+        console.log(`[v0] PUT /api/i-groups/${groupId}/roster - Updating ${update.person_id}`)
+
+        const membership = await fetchOpenMembership(groupId, update.person_id)
+        if (!membership) {
+          return res.status(404).json({
+            success: false,
+            error: "This person is not a current member of the group",
+          })
+        }
+
+        const updated = await changeRole(auth, group, membership, update)
+
+        return res.json({
+          success: true,
+          data: updated,
+          message: "Member updated",
+        })
+      }
+
+      case "DELETE": {
+        // DELETE /api/i-groups/[id]/roster?person_id=&left_on=&reason=left|removed - Record a member leaving
+        const input = RemoveMemberSchema.parse({
+          person_id: query.person_id,
+          left_on: query.left_on || undefined,
+          reason: query.reason || undefined,
+          notes: query.notes || undefined,
+        })
+        console.log(`[v0] DELETE /api/i-groups/${groupId}/roster - Removing ${input.person_id}`)
+
+        const membership = await fetchOpenMembership(groupId, input.person_id)
+        if (!membership) {
+          return res.status(404).json({
+            success: false,
+            error: "This person is not a current member of the group",
+          })
+        }
+
+        if (input.left_on && input.left_on < membership.joined_on) {
+          return res.status(400).json({
+            success: false,
+            error: `The leaving date can't be before they joined on ${membership.joined_on}`,
+          })
+        }
+
+        const closed = await removeMember(auth, group, membership, input)
+
+        return res.json({
+          success: true,
+          data: closed,
+          message: "Member removed",
+        })
+      }
+
+      default:
+        res.setHeader("Allow", ["GET", "POST", "PUT", "DELETE"])
+        return res.status(405).json({
+          success: false,
+          error: `Method ${method} not allowed`,
+        })
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: "Validation error",
+        details: error.errors,
+      })
+    }
+
+    console.error("[v0] Server error:", error)
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+    })
+  }
+}
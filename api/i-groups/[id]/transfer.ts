@@ -0,0 +1,118 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node"
+import { z } from "zod"
+import { isSupabaseConfigured } from "../../_lib/supabase.js"
+import { authorizeRequest } from "../../_lib/auth.js"
+import { fetchVisitorGroup, managesVisitorGroup } from "../../_lib/visitor-requests.js"
+import { TransferMemberSchema, fetchOpenMembership, transferMember } from "../../_lib/group-roster.js"
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Access-Control-Allow-Origin", "*")
+  res.setHeader("Access-Control-Allow-Methods", "POST, OPTIONS")
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization")
+
+  if (req.method === "OPTIONS") {
+    return res.status(200).end()
+  }
+
+  if (!isSupabaseConfigured) {
+    return res.status(500).json({
+      success: false,
+      error: "Database not configured",
+    })
+  }
+
+  const auth = await authorizeRequest(req, res, { POST: "warrior" })
+  if (!auth) {
+    return
+  }
+
+  if (req.method !== "POST") {
+    res.setHeader("Allow", ["POST"])
+    return res.status(405).json({
+      success: false,
+      error: `Method ${req.method} not allowed`,
+    })
+  }
+
+  const groupId = req.query.id as string
+
+  if (!groupId || !z.string().uuid().safeParse(groupId).success) {
+    return res.status(400).json({
+      success: false,
+      error: "Invalid I-Group ID format",
+    })
+  }
+
+  try {
+    // POST /api/i-groups/[id]/transfer - Move a member to another I-Group
+    const input = TransferMemberSchema.parse(req.body)
+    console.log(`[v0] POST /api/i-groups/${groupId}/transfer - Moving ${input.person_id} to ${input.to_i_group_id}`)
+
+    if (input.to_i_group_id === groupId) {
+      return res.status(400).json({
+        success: false,
+        error: "Choose a different group to transfer to",
+      })
+    }
+
+    const [from, to] = await Promise.all([fetchVisitorGroup(groupId), fetchVisitorGroup(input.to_i_group_id)])
+    if (!from || !to) {
+      return res.status(404).json({
+        success: false,
+        error: "Integration group not found",
+      })
+    }
+
+    // Whoever manages the group the member is leaving can place them in any other active group
+    if (!(await managesVisitorGroup(auth, from))) {
+      return res.status(403).json({
+        success: false,
+        error: "Only the group's contact, its community coordinator and area admins can transfer its members",
+      })
+    }
+
+    if (!to.is_active) {
+      return res.status(400).json({
+        success: false,
+        error: `${to.name} is not meeting at the moment`,
+      })
+    }
+
+    const membership = await fetchOpenMembership(groupId, input.person_id)
+    if (!membership) {
+      return res.status(404).json({
+        success: false,
+        error: "This person is not a current member of the group",
+      })
+    }
+
+    if (input.transferred_on && input.transferred_on < membership.joined_on) {
+      return res.status(400).json({
+        success: false,
+        error: `The transfer date can't be before they joined on ${membership.joined_on}`,
+      })
+    }
+
+    const result = await transferMember(auth, from, to, membership, input)
+
+    return res.json({
+      success: true,
+      data: result,
+      message: `Transferred to ${to.name}`,
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: "Validation error",
+        details: error.errors,
+      })
+    }
+
+    console.error("[v0] Server error:", error)
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+    })
+  }
+}
@@ -0,0 +1,56 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node"
+import { isSupabaseConfigured } from "../_lib/supabase.js"
+import { authorizeRequest } from "../_lib/auth.js"
+import { getAreaScope } from "../_lib/area-scope.js"
+import { buildCheckInAlerts, checkInAlertFilter, duePeriod } from "../_lib/group-check-ins.js"
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Access-Control-Allow-Origin", "*")
+  res.setHeader("Access-Control-Allow-Methods", "GET, OPTIONS")
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization")
+
+  if (req.method === "OPTIONS") {
+    return res.status(200).end()
+  }
+
+  if (!isSupabaseConfigured) {
+    return res.status(500).json({
+      success: false,
+      error: "Database not configured",
+    })
+  }
+
+  const auth = await authorizeRequest(req, res, { GET: "warrior" })
+  if (!auth) {
+    return
+  }
+
+  if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET"])
+    return res.status(405).json({
+      success: false,
+      error: `Method ${req.method} not allowed`,
+    })
+  }
+
+  try {
+    // GET /api/i-groups/check-in-alerts - Missed check-ins and struggling groups for the caller's communities
+    console.log("[v0] GET /api/i-groups/check-in-alerts - Building check-in alerts")
+
+    const filter = await checkInAlertFilter(auth, await getAreaScope(auth))
+    const alerts = await buildCheckInAlerts(filter)
+
+    return res.json({
+      success: true,
+      data: alerts,
+      count: alerts.length,
+      due_period: duePeriod(),
+    })
+  } catch (error) {
+    console.error("[v0] Server error:", error)
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+    })
+  }
+}
@@ -0,0 +1,76 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node"
+import { z } from "zod"
+import { isSupabaseConfigured } from "../_lib/supabase.js"
+import { authorizeRequest } from "../_lib/auth.js"
+import { getAreaScope } from "../_lib/area-scope.js"
+import { sendCsv } from "../_lib/csv.js"
+import { buildGroupHealth, groupHealthCsv } from "../_lib/group-roster.js"
+
+const HealthQuerySchema = z.object({
+  community_id: z.string().uuid().optional(),
+  window_days: z.coerce.number().int().min(7).max(1095).optional(),
+})
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Access-Control-Allow-Origin", "*")
+  res.setHeader("Access-Control-Allow-Methods", "GET, OPTIONS")
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization")
+
+  if (req.method === "OPTIONS") {
+    return res.status(200).end()
+  }
+
+  if (!isSupabaseConfigured) {
+    return res.status(500).json({
+      success: false,
+      error: "Database not configured",
+    })
+  }
+
+  const auth = await authorizeRequest(req, res, { GET: "area_admin" })
+  if (!auth) {
+    return
+  }
+
+  if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET"])
+    return res.status(405).json({
+      success: false,
+      error: `Method ${req.method} not allowed`,
+    })
+  }
+
+  try {
+    // GET /api/i-groups/health[?community_id=&window_days=180&format=csv] - Shrinking rosters and stale contacts
+    const filters = HealthQuerySchema.parse({
+      community_id: req.query.community_id || undefined,
+      window_days: req.query.window_days || undefined,
+    })
+    console.log("[v0] GET /api/i-groups/health - Building group health report")
+
+    const report = await buildGroupHealth(await getAreaScope(auth), filters)
+
+    if (req.query.format === "csv") {
+      return sendCsv(res, "i-group-health.csv", groupHealthCsv(report))
+    }
+
+    return res.json({
+      success: true,
+      data: report,
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: "Validation error",
+        details: error.errors,
+      })
+    }
+
+    console.error("[v0] Server error:", error)
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+    })
+  }
+}
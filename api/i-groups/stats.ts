@@ -1,5 +1,7 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node"
 import { supabase, isSupabaseConfigured } from "../_lib/supabase.js"
+import { authorizeRequest } from "../_lib/auth.js"
+import { buildCheckInRollup } from "../_lib/group-check-ins.js"
 
 /**
  * Parse radius parameter which may have "mi" suffix (e.g., "25mi", "25.00mi")
@@ -209,6 +211,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     })
   }
 
+  const auth = await authorizeRequest(req, res, { GET: "authenticated" })
+  if (!auth) {
+    return
+  }
+
   if (req.method !== "GET") {
     res.setHeader("Allow", ["GET"])
     return res.status(405).json({
@@ -312,6 +319,13 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       console.error("[v0] Accepting uninitiated visitors count error:", acceptingUninitiatedError)
     }
 
+    // Monthly check-ins rolled up by area and community, on request (?check_ins=true&months=3)
+    let checkIns = null
+    if (req.query.check_ins === "true") {
+      const months = parseInt(req.query.months as string, 10)
+      checkIns = await buildCheckInRollup(months >= 1 && months <= 12 ? months : undefined)
+    }
+
     return res.json({
       success: true,
       data: {
@@ -320,6 +334,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         inactive: inactiveCount || 0,
         accepting_initiated_visitors: acceptingInitiatedCount || 0,
         accepting_uninitiated_visitors: acceptingUninitiatedCount || 0,
+        ...(checkIns && { check_ins: checkIns }),
       },
     })
   } catch (error) {
@@ -1,4 +1,5 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node"
+import { authorizeRequest } from "../_lib/auth.js"
 import type { EventBasic } from "../../src/types/event"
 import type { Warrior } from "../../src/types/person"
 import type { Area } from "../../src/types/area"
@@ -72,6 +73,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return res.status(200).end()
   }
 
+  const auth = await authorizeRequest(req, res, { GET: "authenticated" })
+  if (!auth) {
+    return
+  }
+
   // Only allow GET requests
   if (req.method !== "GET") {
     return res.status(405).json({
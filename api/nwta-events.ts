@@ -1,6 +1,11 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node"
 import { z } from "zod"
 import { supabase, isSupabaseConfigured } from "./_lib/supabase.js"
+import { authorizeRequest } from "./_lib/auth.js"
+import { recordRecordChange } from "./_lib/activity-log.js"
+import { areaScopeFilter, authorizeAreaScope, getListScope } from "./_lib/area-scope.js"
+import { applyListParams, listMeta, parseListParams, searchFilter } from "./_lib/pagination.js"
+import { checkVenueConflicts } from "./_lib/venue-availability.js"
 
 const EventTimeSchema = z.object({
   start: z.string().datetime({ message: "Start time must be a valid ISO datetime string" }),
@@ -61,9 +66,22 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     })
   }
 
+  const auth = await authorizeRequest(req, res, { GET: "public", POST: "area_admin" })
+  if (!auth) {
+    return
+  }
+
   try {
     if (req.method === "GET") {
-      const { active, search, published } = req.query
+      const { active, published, managed } = req.query
+
+      const listParams = parseListParams(req, res, {
+        sortable: ["name", "start_at", "end_at", "created_at", "updated_at"],
+        defaultSort: "-created_at",
+      })
+      if (!listParams) {
+        return
+      }
 
       if (published && published !== "true" && published !== "false") {
         return res.status(400).json({
@@ -129,8 +147,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
               )
             )
           )
-        `)
-        .order("created_at", { ascending: false })
+        `, { count: "exact" })
 
       // Filter by active status
       if (active === "true") {
@@ -147,11 +164,17 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       // When published parameter is not provided, return both published and unpublished events (no filter)
 
       // Search functionality
-      if (search && typeof search === "string") {
-        query = query.or(`name.ilike.%${search}%,description.ilike.%${search}%`)
+      if (listParams.q) {
+        query = query.or(searchFilter(["name", "description"], listParams.q))
       }
 
-      const { data, error, count } = await query
+      // Area admins asking for the events they manage only get their own areas' events
+      const scope = await getListScope(auth, managed === "true")
+      if (scope) {
+        query = query.or(areaScopeFilter(scope))
+      }
+
+      const { data, error, count: total } = await applyListParams(query, listParams)
 
       if (error) {
         console.error("Database error:", error)
@@ -207,7 +230,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       return res.status(200).json({
         success: true,
         data: transformedData,
-        count: count || 0,
+        count: transformedData.length,
+        ...listMeta(listParams, data || [], total),
       })
     } else if (req.method === "POST") {
       const validation = CreateNwtaEventSchema.safeParse(req.body)
@@ -222,6 +246,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
       const eventData = validation.data
 
+      if (!(await authorizeAreaScope(res, auth, "events", null, eventData))) {
+        return
+      }
+
       if (eventData.times && eventData.times.length > 0) {
         eventData.times = eventData.times.map((time) => ({
           start: normalizeDateTime(time.start),
@@ -398,9 +426,17 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           })) || [],
       }
 
+      await recordRecordChange(auth, {
+        logId: transformedEvent.log_id,
+        entity: "NWTA event",
+        action: "created",
+        after: transformedEvent,
+      })
+
       return res.status(201).json({
         success: true,
         data: transformedEvent,
+        conflicts: await checkVenueConflicts(transformedEvent),
         message: "NWTA event created successfully",
       })
     } else {
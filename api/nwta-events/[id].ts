@@ -1,6 +1,11 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node"
 import { z } from "zod"
 import { supabase, isSupabaseConfigured } from "../_lib/supabase.js"
+import { authorizeRequest } from "../_lib/auth.js"
+import { EVENT_MEMBERSHIP_FIELDS, recordRecordChange, snapshotRecord } from "../_lib/activity-log.js"
+import { authorizeAreaScope } from "../_lib/area-scope.js"
+import { planRosterUpdate, recordPromotions, type RosterPromotion, type RosterState } from "../_lib/event-roster.js"
+import { checkVenueConflicts } from "../_lib/venue-availability.js"
 
 const EventTimeSchema = z.object({
   start: z.string().datetime({ message: "Start time must be a valid ISO datetime string" }),
@@ -62,6 +67,21 @@ const calculateEventStartEnd = (participant_schedule: Array<{ start: string; end
   }
 }
 
+// The NWTA-specific rosters live on nwta_events, so the audit snapshot merges them into the event row
+const snapshotNwtaEvent = async (id: string): Promise<Record<string, any> | null> => {
+  const event = await snapshotRecord("events", id)
+  const nwtaEvent = await snapshotRecord("nwta_events", id)
+  if (!event) {
+    return null
+  }
+  return {
+    ...event,
+    rookies: nwtaEvent?.rookies || [],
+    elders: nwtaEvent?.elders || [],
+    mos: nwtaEvent?.mos || [],
+  }
+}
+
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   res.setHeader("Access-Control-Allow-Origin", "*")
   res.setHeader("Access-Control-Allow-Methods", "GET, POST, PUT, DELETE, OPTIONS")
@@ -78,6 +98,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     })
   }
 
+  const auth = await authorizeRequest(req, res, { GET: "public", PUT: "area_admin", DELETE: "area_admin" })
+  if (!auth) {
+    return
+  }
+
   const { method, query } = req
   const id = query.id as string
 
@@ -226,6 +251,27 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
         const updateData = UpdateNwtaEventSchema.parse(req.body)
 
+        if (!(await authorizeAreaScope(res, auth, "events", id, updateData))) {
+          return
+        }
+
+        const nwtaEventBefore = await snapshotNwtaEvent(id)
+
+        // The admin edit view moves people off the waitlist directly, so hold it to the same capacity
+        // rules as /api/events/[id] and fill any openings it leaves
+        let promotions: RosterPromotion[] = []
+        if (nwtaEventBefore) {
+          const rosterPlan = planRosterUpdate(nwtaEventBefore as RosterState, updateData)
+          if (rosterPlan.error) {
+            return res.status(409).json({
+              success: false,
+              error: rosterPlan.error,
+            })
+          }
+          Object.assign(updateData, rosterPlan.changes)
+          promotions = rosterPlan.promotions
+        }
+
         if (updateData.times && updateData.times.length > 0) {
           updateData.times = updateData.times.map((time) => ({
             start: normalizeDateTime(time.start),
@@ -431,15 +477,31 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
             })) || [],
         }
 
+        await recordRecordChange(auth, {
+          logId: transformedUpdatedData.log_id,
+          entity: "NWTA event",
+          action: "updated",
+          before: nwtaEventBefore,
+          after: transformedUpdatedData,
+          membershipFields: EVENT_MEMBERSHIP_FIELDS,
+        })
+        await recordPromotions(auth, transformedUpdatedData.log_id, promotions)
+
         return res.json({
           success: true,
           data: transformedUpdatedData,
+          promotions,
+          conflicts: await checkVenueConflicts(transformedUpdatedData),
           message: "NWTA event updated successfully",
         })
 
       case "DELETE":
         console.log(`[v0] DELETE /api/nwta-events/${id} - Deleting NWTA event`)
 
+        if (!(await authorizeAreaScope(res, auth, "events", id))) {
+          return
+        }
+
         // Delete the base event (cascade will handle nwta_events)
         const { data: deletedData, error: deleteError } = await supabase
           .from("events")
@@ -462,6 +524,13 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           })
         }
 
+        await recordRecordChange(auth, {
+          logId: deletedData.log_id,
+          entity: "NWTA event",
+          action: "deleted",
+          before: deletedData,
+        })
+
         return res.json({
           success: true,
           data: deletedData,
@@ -0,0 +1,148 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node"
+import { z } from "zod"
+import { supabase, isSupabaseConfigured } from "../../_lib/supabase.js"
+import { authorizeRequest } from "../../_lib/auth.js"
+import { IntakeSchema, fetchIntakeEvent, fetchIntakes, intakeAccess, saveIntake } from "../../_lib/rookie-intake.js"
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Access-Control-Allow-Origin", "*")
+  res.setHeader("Access-Control-Allow-Methods", "GET, PUT, DELETE, OPTIONS")
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization")
+
+  if (req.method === "OPTIONS") {
+    return res.status(200).end()
+  }
+
+  if (!isSupabaseConfigured) {
+    return res.status(500).json({
+      success: false,
+      error: "Database not configured",
+    })
+  }
+
+  // Rookies may have no account at all and come with their intake link's ?token= instead; who sees
+  // what is decided by intakeAccess below
+  const auth = await authorizeRequest(req, res, { GET: "public", PUT: "public", DELETE: "authenticated" })
+  if (!auth) {
+    return
+  }
+
+  const { method, query } = req
+  const eventId = query.id as string
+
+  if (!eventId || !z.string().uuid().safeParse(eventId).success) {
+    return res.status(400).json({
+      success: false,
+      error: "Invalid event ID format",
+    })
+  }
+
+  try {
+    const event = await fetchIntakeEvent(eventId)
+    if (!event) {
+      return res.status(404).json({
+        success: false,
+        error: "NWTA event not found",
+      })
+    }
+
+    const token = typeof query.token === "string" ? query.token : null
+    const caller = await intakeAccess(auth, event, token)
+    if (!caller) {
+      return res.status(403).json({
+        success: false,
+        error: "Only the NWTA's leaders and medical staff can see rookie intake",
+      })
+    }
+
+    switch (method) {
+      case "GET": {
+        // GET /api/nwta-events/[id]/intakes[?token=] - Every rookie's intake for staff, or the caller's own
+        console.log(`[v0] GET /api/nwta-events/${eventId}/intakes - Fetching ${caller.access} intake`)
+
+        return res.json({
+          success: true,
+          data: await fetchIntakes(event, caller.access, caller.person_id),
+        })
+      }
+
+      case "PUT": {
+        // PUT /api/nwta-events/[id]/intakes[?token=] - Save a rookie's intake and optionally sign the waiver
+        const intake = IntakeSchema.parse(req.body)
+        console.log(`[v0] PUT /api/nwta-events/${eventId}/intakes - Saving intake`)
+
+        if (!event.rookies.includes(intake.person_id)) {
+          return res.status(400).json({
+            success: false,
+            error: "This person is not a rookie on this NWTA",
+          })
+        }
+
+        if (caller.access === "self" && intake.person_id !== caller.person_id) {
+          return res.status(403).json({
+            success: false,
+            error: "You can only fill in your own intake",
+          })
+        }
+
+        const data = await saveIntake(auth, event, intake)
+
+        return res.json({
+          success: true,
+          data,
+          message: intake.accept_waiver ? "Intake saved and waiver signed" : "Intake saved",
+        })
+      }
+
+      case "DELETE": {
+        // DELETE /api/nwta-events/[id]/intakes?person_id= - Discard a rookie's intake
+        const personId = z.string().uuid("Invalid person ID").parse(query.person_id)
+        console.log(`[v0] DELETE /api/nwta-events/${eventId}/intakes - Deleting intake`)
+
+        if (caller.access !== "staff") {
+          return res.status(403).json({
+            success: false,
+            error: "Only the NWTA's leaders and medical staff can delete intake",
+          })
+        }
+
+        const { error } = await supabase
+          .from("rookie_intakes")
+          .delete()
+          .eq("nwta_event_id", eventId)
+          .eq("person_id", personId)
+
+        if (error) {
+          console.error("[v0] Database error deleting intake:", error)
+          throw error
+        }
+
+        return res.json({
+          success: true,
+          message: "Intake deleted",
+        })
+      }
+
+      default:
+        res.setHeader("Allow", ["GET", "PUT", "DELETE"])
+        return res.status(405).json({
+          success: false,
+          error: `Method ${method} not allowed`,
+        })
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: "Validation error",
+        details: error.errors,
+      })
+    }
+
+    console.error("[v0] Server error:", error)
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+    })
+  }
+}
@@ -0,0 +1,157 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node"
+import { z } from "zod"
+import { isSupabaseConfigured } from "../../_lib/supabase.js"
+import { authorizeRequest } from "../../_lib/auth.js"
+import { getPaymentProvider } from "../../_lib/payments.js"
+import { findPersonByEmail } from "../../_lib/people.js"
+import { fetchRegistration } from "../../_lib/prospect-funnel.js"
+import {
+  RegistrationSchema,
+  fetchRegistrationEvent,
+  isAlreadyRegistered,
+  registerForNwta,
+  registrationInfo,
+} from "../../_lib/nwta-registration.js"
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Access-Control-Allow-Origin", "*")
+  res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS")
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization")
+
+  if (req.method === "OPTIONS") {
+    return res.status(200).end()
+  }
+
+  if (!isSupabaseConfigured) {
+    return res.status(500).json({
+      success: false,
+      error: "Database not configured",
+    })
+  }
+
+  // Anyone may register for a published NWTA; most registrants have no account yet
+  const auth = await authorizeRequest(req, res, { GET: "public", POST: "public" })
+  if (!auth) {
+    return
+  }
+
+  const { method, query } = req
+  const eventId = query.id as string
+
+  if (!eventId || !z.string().uuid().safeParse(eventId).success) {
+    return res.status(400).json({
+      success: false,
+      error: "Invalid event ID format",
+    })
+  }
+
+  try {
+    const event = await fetchRegistrationEvent(eventId)
+    if (!event || !event.is_published) {
+      return res.status(404).json({
+        success: false,
+        error: "NWTA not found",
+      })
+    }
+
+    const provider = getPaymentProvider()
+    const info = registrationInfo(event, provider)
+
+    switch (method) {
+      case "GET": {
+        // GET /api/nwta-events/[id]/register - Whether registration is open, the deposit and how to pay it
+        console.log(`[v0] GET /api/nwta-events/${eventId}/register - Fetching registration details`)
+
+        return res.json({
+          success: true,
+          data: info,
+        })
+      }
+
+      case "POST": {
+        // POST /api/nwta-events/[id]/register - Register, paying the deposit unless waitlisted
+        const registration = RegistrationSchema.parse(req.body)
+        console.log(`[v0] POST /api/nwta-events/${eventId}/register - Registering`)
+
+        if (!info.is_open) {
+          return res.status(400).json({
+            success: false,
+            error: "Registration for this NWTA is not open",
+          })
+        }
+
+        if (!info.is_full && info.deposit > 0) {
+          if (!provider) {
+            console.error("[v0] PAYMENT_PROVIDER is not set; refusing a registration that owes a deposit")
+            return res.status(500).json({
+              success: false,
+              error: "Payments are not configured",
+            })
+          }
+          if (!registration.payment_token) {
+            return res.status(400).json({
+              success: false,
+              error: "A card is needed to pay the deposit",
+            })
+          }
+        }
+
+        const personId = await findPersonByEmail(registration.email)
+        const existing = personId ? await fetchRegistration(personId) : null
+
+        if ((existing && existing.event_id === eventId) || (await isAlreadyRegistered(eventId, registration.email))) {
+          return res.status(409).json({
+            success: false,
+            error: "Someone with this email address is already registered for this NWTA",
+          })
+        }
+
+        if (existing) {
+          return res.status(409).json({
+            success: false,
+            error: "Someone with this email address is already registered for another NWTA; please contact its leaders",
+          })
+        }
+
+        const result = await registerForNwta(auth, event, registration, provider, personId)
+
+        if (result.status === "declined" || result.status === "payment_required") {
+          return res.status(402).json({
+            success: false,
+            error: result.message,
+          })
+        }
+
+        return res.status(201).json({
+          success: true,
+          data: result,
+          message:
+            result.status === "waitlisted"
+              ? "This NWTA is full, so you are on the waitlist. We will contact you if a place opens."
+              : "You are registered. The NWTA's leaders will be in touch.",
+        })
+      }
+
+      default:
+        res.setHeader("Allow", ["GET", "POST"])
+        return res.status(405).json({
+          success: false,
+          error: `Method ${method} not allowed`,
+        })
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: "Validation error",
+        details: error.errors,
+      })
+    }
+
+    console.error("[v0] Server error:", error)
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+    })
+  }
+}
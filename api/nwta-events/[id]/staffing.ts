@@ -0,0 +1,177 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node"
+import { z } from "zod"
+import { supabase, isSupabaseConfigured } from "../../_lib/supabase.js"
+import { authorizeRequest } from "../../_lib/auth.js"
+import { recordActivity } from "../../_lib/activity-log.js"
+import { canManageRoster, fetchRosterEvent } from "../../_lib/event-roster.js"
+import { fetchStaffingBoard } from "../../_lib/nwta-staffing.js"
+
+const AssignmentSchema = z.object({
+  role_id: z.string().uuid("Invalid role ID"),
+  lead_warrior_id: z.string().uuid("Invalid warrior ID").nullable(),
+  warriors: z.array(z.string().uuid("Invalid warrior ID")),
+})
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Access-Control-Allow-Origin", "*")
+  res.setHeader("Access-Control-Allow-Methods", "GET, PUT, OPTIONS")
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization")
+
+  if (req.method === "OPTIONS") {
+    return res.status(200).end()
+  }
+
+  if (!isSupabaseConfigured) {
+    return res.status(500).json({
+      success: false,
+      error: "Database not configured",
+    })
+  }
+
+  // The board is further limited to the event's leaders and area admins below
+  const auth = await authorizeRequest(req, res, { GET: "warrior", PUT: "warrior" })
+  if (!auth) {
+    return
+  }
+
+  const { method, query } = req
+  const eventId = query.id as string
+
+  if (!eventId || !z.string().uuid().safeParse(eventId).success) {
+    return res.status(400).json({
+      success: false,
+      error: "Invalid event ID format",
+    })
+  }
+
+  try {
+    const event = await fetchRosterEvent(eventId)
+    if (!event) {
+      return res.status(404).json({
+        success: false,
+        error: "NWTA event not found",
+      })
+    }
+
+    if (!(await canManageRoster(auth, event))) {
+      return res.status(403).json({
+        success: false,
+        error: "Only the event's leaders and area admins can staff this NWTA",
+      })
+    }
+
+    switch (method) {
+      case "GET": {
+        // GET /api/nwta-events/[id]/staffing - Roles, candidates and fit scores
+        console.log(`[v0] GET /api/nwta-events/${eventId}/staffing - Fetching staffing board`)
+
+        return res.json({
+          success: true,
+          data: await fetchStaffingBoard(eventId),
+        })
+      }
+
+      case "PUT": {
+        // PUT /api/nwta-events/[id]/staffing - Set one role's lead and warriors
+        const { role_id, lead_warrior_id, warriors } = AssignmentSchema.parse(req.body)
+        console.log(`[v0] PUT /api/nwta-events/${eventId}/staffing - Staffing role ${role_id}`)
+
+        const { data: role, error: roleError } = await supabase
+          .from("nwta_roles")
+          .select("id, name, lead_warrior_id, warriors")
+          .eq("id", role_id)
+          .eq("nwta_event_id", eventId)
+          .maybeSingle()
+
+        if (roleError) {
+          console.error("[v0] Database error:", roleError)
+          return res.status(500).json({
+            success: false,
+            error: "Failed to fetch role",
+          })
+        }
+
+        if (!role) {
+          return res.status(404).json({
+            success: false,
+            error: "Role not found on this NWTA",
+          })
+        }
+
+        // Only people on the staff lists, or already in this role, can be placed in it
+        const eligible = new Set([
+          ...(event.potential_staff || []),
+          ...(event.committed_staff || []),
+          ...(event.alternate_staff || []),
+          ...(role.warriors || []),
+          ...(role.lead_warrior_id ? [role.lead_warrior_id] : []),
+        ])
+        const members = [...new Set(warriors)].filter((id) => id !== lead_warrior_id)
+        const people = lead_warrior_id ? [lead_warrior_id, ...members] : members
+
+        if (people.some((id) => !eligible.has(id))) {
+          return res.status(400).json({
+            success: false,
+            error: "Only people who applied to staff this NWTA can be assigned to its roles",
+          })
+        }
+
+        if (lead_warrior_id) {
+          const { data: lead } = await supabase.from("warriors").select("id").eq("id", lead_warrior_id).maybeSingle()
+          if (!lead) {
+            return res.status(400).json({
+              success: false,
+              error: "A role's lead must be an initiated warrior",
+            })
+          }
+        }
+
+        const { error: updateError } = await supabase
+          .from("nwta_roles")
+          .update({ lead_warrior_id, warriors: members, updated_at: new Date().toISOString() })
+          .eq("id", role_id)
+
+        if (updateError) {
+          console.error("[v0] Database error:", updateError)
+          return res.status(500).json({
+            success: false,
+            error: "Failed to update role",
+          })
+        }
+
+        await recordActivity(auth, event.log_id, {
+          name: "Staffing",
+          summary: `${role.name} staffed with ${people.length} ${people.length === 1 ? "person" : "people"}`,
+          data: { action: "staffing", role_id, lead_warrior_id, warriors: members },
+        })
+
+        return res.json({
+          success: true,
+          data: await fetchStaffingBoard(eventId),
+          message: "Role updated",
+        })
+      }
+
+      default:
+        res.setHeader("Allow", ["GET", "PUT"])
+        return res.status(405).json({
+          success: false,
+          error: `Method ${method} not allowed`,
+        })
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: "Validation error",
+        details: error.errors,
+      })
+    }
+
+    console.error("[v0] Server error:", error)
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+    })
+  }
+}
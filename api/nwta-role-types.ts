@@ -0,0 +1,66 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node"
+import { supabase, isSupabaseConfigured } from "./_lib/supabase.js"
+import { authorizeRequest } from "./_lib/auth.js"
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Access-Control-Allow-Origin", "*")
+  res.setHeader("Access-Control-Allow-Methods", "GET, OPTIONS")
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization")
+
+  if (req.method === "OPTIONS") {
+    return res.status(200).end()
+  }
+
+  if (!isSupabaseConfigured) {
+    return res.status(500).json({
+      success: false,
+      error: "Database not configured",
+    })
+  }
+
+  const auth = await authorizeRequest(req, res, { GET: "warrior" })
+  if (!auth) {
+    return
+  }
+
+  if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET"])
+    return res.status(405).json({
+      success: false,
+      error: `Method ${req.method} not allowed`,
+    })
+  }
+
+  try {
+    // GET /api/nwta-role-types[?active=true] - The NWTA role types
+    console.log("[v0] GET /api/nwta-role-types - Fetching NWTA role types")
+
+    let dbQuery = supabase.from("nwta_role_types").select("*").is("deleted_at", null).order("name")
+
+    if (req.query.active !== undefined) {
+      dbQuery = dbQuery.eq("is_active", req.query.active === "true")
+    }
+
+    const { data, error } = await dbQuery
+
+    if (error) {
+      console.error("[v0] Database error:", error)
+      return res.status(500).json({
+        success: false,
+        error: "Failed to fetch NWTA role types",
+      })
+    }
+
+    return res.json({
+      success: true,
+      data: data || [],
+      count: data?.length || 0,
+    })
+  } catch (error) {
+    console.error("[v0] Server error:", error)
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+    })
+  }
+}
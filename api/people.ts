@@ -1,6 +1,9 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node"
 import { z } from "zod"
 import { supabase, isSupabaseConfigured } from "./_lib/supabase.js"
+import { authorizeRequest, hasAccessLevel } from "./_lib/auth.js"
+import { recordRecordChange } from "./_lib/activity-log.js"
+import { applyListParams, listMeta, parseListParams, searchFilter } from "./_lib/pagination.js"
 
 interface Person {
   id: string
@@ -34,6 +37,15 @@ const PersonSchema = z.object({
   is_active: z.boolean().default(true),
 })
 
+// Fields anyone may see for a person named on an event or group page
+const PUBLIC_PERSON_FIELDS = "id, first_name, middle_name, last_name, photo_url"
+// What warriors additionally see, so they can get in touch; notes and addresses stay admin-only
+const CONTACT_PERSON_FIELDS = `${PUBLIC_PERSON_FIELDS}, email, phone`
+
+const MAX_LOOKUP_IDS = 200
+
+const LookupIdsSchema = z.array(z.string().uuid()).min(1).max(MAX_LOOKUP_IDS)
+
 export type PersonApiResponse = {
   success: boolean
   data: Person | Person[]
@@ -59,23 +71,100 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     })
   }
 
+  // ?ids= lookups return a reduced projection, so public event pages can name their leaders and staff
+  const auth = await authorizeRequest(req, res, {
+    GET: req.query.ids !== undefined ? "public" : "warrior",
+    POST: "area_admin",
+  })
+  if (!auth) {
+    return
+  }
+
   const { method, query } = req
 
   try {
     switch (method) {
       case "GET":
+        if (query.ids !== undefined) {
+          // GET /api/people?ids=<id>,<id> - Resolve specific people by id
+          const requestedIds = (Array.isArray(query.ids) ? query.ids.join(",") : query.ids)
+            .split(",")
+            .map((id) => id.trim())
+            .filter(Boolean)
+          const parsedIds = LookupIdsSchema.safeParse([...new Set(requestedIds)])
+
+          if (!parsedIds.success) {
+            return res.status(400).json({
+              success: false,
+              error: `Invalid ids parameter. Provide between 1 and ${MAX_LOOKUP_IDS} comma-separated UUIDs.`,
+            })
+          }
+
+          console.log(`[v0] GET /api/people - Looking up ${parsedIds.data.length} people by id`)
+
+          const { data: lookupData, error: lookupError } = await supabase
+            .from("people")
+            .select(hasAccessLevel(auth, "warrior") ? CONTACT_PERSON_FIELDS : PUBLIC_PERSON_FIELDS)
+            .in("id", parsedIds.data)
+
+          if (lookupError) {
+            console.error("[v0] Database error:", lookupError)
+            return res.status(500).json({
+              success: false,
+              error: "Failed to fetch people",
+            })
+          }
+
+          return res.json({
+            success: true,
+            data: lookupData || [],
+            count: lookupData?.length || 0,
+          })
+        }
+
         // GET /api/people - Retrieve all people
         console.log("[v0] GET /api/people - Fetching all people")
 
-        const { active } = query
-        let dbQuery = supabase.from("people").select("*")
+        const listParams = parseListParams(req, res, {
+          sortable: ["first_name", "last_name", "email", "created_at", "updated_at"],
+          defaultSort: "-created_at",
+        })
+        if (!listParams) {
+          return
+        }
+
+        const { active, contact } = query
+
+        if (contact !== undefined && contact !== "complete" && contact !== "partial" && contact !== "none") {
+          return res.status(400).json({
+            success: false,
+            error: "Invalid contact parameter. Only 'complete', 'partial' or 'none' are accepted.",
+          })
+        }
+
+        // Below area admin the list carries contact details only; the timestamps stay for cursor paging
+        const listFields = hasAccessLevel(auth, "area_admin") ? "*" : `${CONTACT_PERSON_FIELDS}, created_at, updated_at`
+        let dbQuery = supabase.from("people").select(listFields, { count: "exact" })
 
         if (active !== undefined) {
           const isActive = active === "true"
           dbQuery = dbQuery.eq("is_active", isActive)
         }
 
-        const { data, error } = await dbQuery.order("created_at", { ascending: false })
+        // contact=complete|partial|none - whether a person has both, one or neither of email and phone
+        if (contact === "complete") {
+          dbQuery = dbQuery.not("email", "is", null).not("phone", "is", null)
+        } else if (contact === "partial") {
+          dbQuery = dbQuery.or("and(email.not.is.null,phone.is.null),and(email.is.null,phone.not.is.null)")
+        } else if (contact === "none") {
+          dbQuery = dbQuery.is("email", null).is("phone", null)
+        }
+
+        if (listParams.q) {
+          dbQuery = dbQuery.or(searchFilter(["first_name", "last_name", "email", "phone"], listParams.q))
+        }
+
+        const { data, error, count: total } = await applyListParams(dbQuery, listParams)
 
         if (error) {
           console.error("[v0] Database error:", error)
@@ -89,6 +178,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           success: true,
           data: data || [],
           count: data?.length || 0,
+          ...listMeta(listParams, data || [], total),
         })
 
       case "POST":
@@ -123,6 +213,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           })
         }
 
+        await recordRecordChange(auth, { logId: newData.log_id, entity: "Person", action: "created", after: newData })
+
         return res.status(201).json({
           success: true,
           data: newData,
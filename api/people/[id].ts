@@ -1,6 +1,8 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node"
 import { z } from "zod"
 import { supabase, isSupabaseConfigured } from "../_lib/supabase.js"
+import { authorizeRequest } from "../_lib/auth.js"
+import { recordRecordChange, snapshotRecord } from "../_lib/activity-log.js"
 
 interface Person {
   id: string
@@ -59,6 +61,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     })
   }
 
+  const auth = await authorizeRequest(req, res, { GET: "warrior", PUT: "area_admin", DELETE: "national_admin" })
+  if (!auth) {
+    return
+  }
+
   const { method, query } = req
   const id = query.id as string
 
@@ -109,6 +116,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         //console.error(JSON.stringify(req.body))
 
         const updateData = PersonSchema.parse(req.body)
+        const personBefore = await snapshotRecord("people", id)
         const { data: updatedData, error: updateError } = await supabase
           .from("people")
           .update({
@@ -143,6 +151,14 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           })
         }
 
+        await recordRecordChange(auth, {
+          logId: updatedData.log_id,
+          entity: "Person",
+          action: "updated",
+          before: personBefore,
+          after: updatedData,
+        })
+
         return res.json({
           success: true,
           data: updatedData,
@@ -174,6 +190,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           })
         }
 
+        await recordRecordChange(auth, { logId: deletedData.log_id, entity: "Person", action: "deleted", before: deletedData })
+
         return res.json({
           success: true,
           data: deletedData,
@@ -1,5 +1,6 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node"
 import { supabase, isSupabaseConfigured } from "../_lib/supabase.js"
+import { authorizeRequest } from "../_lib/auth.js"
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   res.setHeader("Access-Control-Allow-Origin", "*")
@@ -17,6 +18,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     })
   }
 
+  const auth = await authorizeRequest(req, res, { GET: "area_admin" })
+  if (!auth) {
+    return
+  }
+
   if (req.method !== "GET") {
     res.setHeader("Allow", ["GET"])
     return res.status(405).json({
@@ -43,12 +49,36 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
     const inactive = (total || 0) - (active || 0)
 
+    // Contact completeness of active people: both email and phone, either one, or neither
+    const { count: complete, error: completeError } = await supabase
+      .from("people")
+      .select("*", { count: "exact", head: true })
+      .eq("is_active", true)
+      .not("email", "is", null)
+      .not("phone", "is", null)
+
+    if (completeError) throw completeError
+
+    const { count: incomplete, error: incompleteError } = await supabase
+      .from("people")
+      .select("*", { count: "exact", head: true })
+      .eq("is_active", true)
+      .is("email", null)
+      .is("phone", null)
+
+    if (incompleteError) throw incompleteError
+
+    const partial = (active || 0) - (complete || 0) - (incomplete || 0)
+
     return res.status(200).json({
       success: true,
       data: {
         active: active || 0,
         inactive: inactive || 0,
         total: total || 0,
+        complete: complete || 0,
+        partial,
+        incomplete: incomplete || 0,
       },
     })
   } catch (error) {
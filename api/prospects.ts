@@ -1,13 +1,23 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node"
 import { z } from "zod"
 import { supabase, isSupabaseConfigured } from "./_lib/supabase.js"
+import { authorizeRequest } from "./_lib/auth.js"
+import { areaScopeFilter, authorizeAreaScope, getAreaScope } from "./_lib/area-scope.js"
+import { applyListParams, listMeta, parseListParams, searchFilter } from "./_lib/pagination.js"
+import { COLD_AFTER_DAYS, ProspectStageSchema, funnelFields } from "./_lib/prospect-funnel.js"
 import type { Prospect } from "../src/types/person"
 
 const ProspectSchema = z.object({
   id: z.string().uuid().optional(),
   log_id: z.string().uuid().optional().nullable(),
   balked_events: z.array(z.string().uuid()).default([]),
+  area_id: z.string().uuid().optional().nullable(),
+  community_id: z.string().uuid().optional().nullable(),
   is_active: z.boolean().default(true),
+  // Enrollment funnel
+  stage: ProspectStageSchema.default("inquiry"),
+  enroller_id: z.string().uuid().optional().nullable(),
+  referred_by_id: z.string().uuid().optional().nullable(),
   // Person fields
   first_name: z.string().min(1),
   middle_name: z.string().optional().nullable(),
@@ -46,6 +56,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     })
   }
 
+  const auth = await authorizeRequest(req, res, { GET: "area_admin", POST: "area_admin" })
+  if (!auth) {
+    return
+  }
+
   const { method, query } = req
 
   try {
@@ -53,12 +68,30 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       case "GET":
         console.log("[v0] GET /api/prospects - Fetching all prospects")
 
-        const { active } = query
+        const listParams = parseListParams(req, res, {
+          sortable: ["created_at", "updated_at", "last_contact_at", "stage_changed_at"],
+          defaultSort: "-created_at",
+        })
+        if (!listParams) {
+          return
+        }
+
+        const { active, stage, enroller_id, cold } = query
         let dbQuery = supabase.from("prospects").select(`
             id,
             log_id,
             balked_events,
+            area_id,
+            community_id,
             is_active,
+            area:areas(id, name, code, color, is_active),
+            stage,
+            stage_changed_at,
+            last_contact_at,
+            enroller_id,
+            referred_by_id,
+            registered_event_id,
+            registered_at,
             created_at,
             updated_at,
             people!inner (
@@ -76,14 +109,45 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
               created_at,
               updated_at
             )
-          `)
+          `, { count: "exact" })
 
         if (active !== undefined) {
           const isActive = active === "true"
           dbQuery = dbQuery.eq("is_active", isActive)
         }
 
-        const { data, error } = await dbQuery.order("created_at", { ascending: false })
+        if (typeof stage === "string" && ProspectStageSchema.safeParse(stage).success) {
+          dbQuery = dbQuery.eq("stage", stage)
+        }
+
+        if (typeof enroller_id === "string" && enroller_id) {
+          dbQuery = dbQuery.eq("enroller_id", enroller_id)
+        }
+
+        // Cold leads: active, not yet registered, and nobody has spoken to them for COLD_AFTER_DAYS
+        if (cold === "true") {
+          const coldBefore = new Date(Date.now() - COLD_AFTER_DAYS * 24 * 60 * 60 * 1000).toISOString()
+          dbQuery = dbQuery
+            .eq("is_active", true)
+            .in("stage", ["inquiry", "intro_call", "attended_open_event"])
+            .lt("created_at", coldBefore)
+            .or(`stage_changed_at.is.null,stage_changed_at.lt.${coldBefore}`)
+            .or(`last_contact_at.is.null,last_contact_at.lt.${coldBefore}`)
+        }
+
+        // Prospects are admin-only, so area admins are always limited to their own areas
+        const scope = await getAreaScope(auth)
+        if (scope) {
+          dbQuery = dbQuery.or(areaScopeFilter(scope))
+        }
+
+        if (listParams.q) {
+          dbQuery = dbQuery.or(searchFilter(["first_name", "last_name", "email", "phone"], listParams.q), {
+            referencedTable: "people",
+          })
+        }
+
+        const { data, error, count: total } = await applyListParams(dbQuery, listParams)
 
         if (error) {
           console.error("[v0] Database error:", error)
@@ -100,7 +164,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
               id: prospect.id,
               log_id: prospect.log_id,
               balked_events: prospect.balked_events || [],
+              area_id: prospect.area_id,
+              community_id: prospect.community_id,
+              area: prospect.area,
               is_active: prospect.is_active,
+              ...funnelFields(prospect),
               created_at: prospect.created_at,
               updated_at: prospect.updated_at,
               first_name: peopleData.first_name,
@@ -120,6 +188,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           success: true,
           data: transformedData,
           count: transformedData.length,
+          ...listMeta(listParams, data || [], total),
         })
 
       case "POST":
@@ -127,6 +196,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
         const validatedData = ProspectSchema.parse(req.body)
 
+        if (!(await authorizeAreaScope(res, auth, "prospects", null, validatedData))) {
+          return
+        }
+
         const { data: personData, error: personError } = await supabase
           .from("people")
           .insert({
@@ -157,15 +230,30 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           .from("prospects")
           .insert({
             id: personData.id,
-            log_id: validatedData.log_id || null,
+            log_id: validatedData.log_id || undefined,
             balked_events: validatedData.balked_events,
+            area_id: validatedData.area_id || null,
+            community_id: validatedData.community_id || null,
             is_active: validatedData.is_active,
+            stage: validatedData.stage,
+            enroller_id: validatedData.enroller_id || null,
+            referred_by_id: validatedData.referred_by_id || null,
           })
           .select(`
             id,
             log_id,
             balked_events,
+            area_id,
+            community_id,
             is_active,
+            area:areas(id, name, code, color, is_active),
+            stage,
+            stage_changed_at,
+            last_contact_at,
+            enroller_id,
+            referred_by_id,
+            registered_event_id,
+            registered_at,
             created_at,
             updated_at,
             people!inner (
@@ -200,7 +288,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           id: prospectData.id,
           log_id: prospectData.log_id,
           balked_events: prospectData.balked_events || [],
+          area_id: prospectData.area_id,
+          community_id: prospectData.community_id,
+          area: prospectData.area,
           is_active: prospectData.is_active,
+          ...funnelFields(prospectData),
           created_at: prospectData.created_at,
           updated_at: prospectData.updated_at,
           first_name: peopleData.first_name,
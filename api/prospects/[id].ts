@@ -1,11 +1,26 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node"
 import { z } from "zod"
 import { supabase, isSupabaseConfigured } from "../_lib/supabase.js"
+import { authorizeRequest } from "../_lib/auth.js"
+import { authorizeAreaScope } from "../_lib/area-scope.js"
+import {
+  ProspectStageSchema,
+  fetchFunnelProspect,
+  funnelFields,
+  recordStageChange,
+  stageUpdate,
+} from "../_lib/prospect-funnel.js"
 
 const ProspectUpdateSchema = z.object({
   log_id: z.string().uuid().optional().nullable(),
   balked_events: z.array(z.string().uuid()).optional(),
+  area_id: z.string().uuid().optional().nullable(),
+  community_id: z.string().uuid().optional().nullable(),
   is_active: z.boolean().optional(),
+  // Enrollment funnel
+  stage: ProspectStageSchema.optional(),
+  enroller_id: z.string().uuid().optional().nullable(),
+  referred_by_id: z.string().uuid().optional().nullable(),
   // Person fields
   first_name: z.string().min(1).optional(),
   middle_name: z.string().optional().nullable(),
@@ -35,6 +50,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     })
   }
 
+  const auth = await authorizeRequest(req, res, { GET: "area_admin", PUT: "area_admin", DELETE: "area_admin" })
+  if (!auth) {
+    return
+  }
+
   const { method, query } = req
   const { id } = query
 
@@ -50,13 +70,27 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       case "GET":
         console.log(`[v0] GET /api/prospects/${id} - Fetching prospect`)
 
+        if (!(await authorizeAreaScope(res, auth, "prospects", id))) {
+          return
+        }
+
         const { data, error } = await supabase
           .from("prospects")
           .select(`
             id,
             log_id,
             balked_events,
+            area_id,
+            community_id,
             is_active,
+            area:areas(id, name, code, color, is_active),
+            stage,
+            stage_changed_at,
+            last_contact_at,
+            enroller_id,
+            referred_by_id,
+            registered_event_id,
+            registered_at,
             created_at,
             updated_at,
             people!inner (
@@ -91,7 +125,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           id: data.id,
           log_id: data.log_id,
           balked_events: data.balked_events || [],
+          area_id: data.area_id,
+          community_id: data.community_id,
+          area: data.area,
           is_active: data.is_active,
+          ...funnelFields(data),
           created_at: data.created_at,
           updated_at: data.updated_at,
           first_name: peopleData.first_name,
@@ -116,15 +154,28 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
         const validatedData = ProspectUpdateSchema.parse(req.body)
 
+        if (!(await authorizeAreaScope(res, auth, "prospects", id, validatedData))) {
+          return
+        }
+
         const prospectFields: any = {}
         const personFields: any = {}
 
         if (validatedData.log_id !== undefined) prospectFields.log_id = validatedData.log_id
         if (validatedData.balked_events !== undefined) prospectFields.balked_events = validatedData.balked_events
+        if (validatedData.area_id !== undefined) prospectFields.area_id = validatedData.area_id
+        if (validatedData.community_id !== undefined) prospectFields.community_id = validatedData.community_id
         if (validatedData.is_active !== undefined) {
           prospectFields.is_active = validatedData.is_active
           personFields.is_active = validatedData.is_active
         }
+        if (validatedData.enroller_id !== undefined) prospectFields.enroller_id = validatedData.enroller_id
+        if (validatedData.referred_by_id !== undefined) prospectFields.referred_by_id = validatedData.referred_by_id
+
+        const funnelBefore = validatedData.stage ? await fetchFunnelProspect(id) : null
+        if (funnelBefore && validatedData.stage) {
+          Object.assign(prospectFields, stageUpdate(funnelBefore.stage, validatedData.stage))
+        }
 
         if (validatedData.first_name !== undefined) personFields.first_name = validatedData.first_name
         if (validatedData.middle_name !== undefined) personFields.middle_name = validatedData.middle_name
@@ -166,13 +217,27 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           }
         }
 
+        if (funnelBefore && validatedData.stage) {
+          await recordStageChange(auth, funnelBefore, validatedData.stage)
+        }
+
         const { data: updatedData, error: fetchError } = await supabase
           .from("prospects")
           .select(`
             id,
             log_id,
             balked_events,
+            area_id,
+            community_id,
             is_active,
+            area:areas(id, name, code, color, is_active),
+            stage,
+            stage_changed_at,
+            last_contact_at,
+            enroller_id,
+            referred_by_id,
+            registered_event_id,
+            registered_at,
             created_at,
             updated_at,
             people!inner (
@@ -207,7 +272,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           id: updatedData.id,
           log_id: updatedData.log_id,
           balked_events: updatedData.balked_events || [],
+          area_id: updatedData.area_id,
+          community_id: updatedData.community_id,
+          area: updatedData.area,
           is_active: updatedData.is_active,
+          ...funnelFields(updatedData),
           created_at: updatedData.created_at,
           updated_at: updatedData.updated_at,
           first_name: updatedPeopleData.first_name,
@@ -231,6 +300,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       case "DELETE":
         console.log(`[v0] DELETE /api/prospects/${id} - Deleting prospect`)
 
+        if (!(await authorizeAreaScope(res, auth, "prospects", id))) {
+          return
+        }
+
         const { error: deleteError } = await supabase.from("prospects").delete().eq("id", id)
 
         if (deleteError) {
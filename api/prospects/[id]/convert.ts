@@ -0,0 +1,117 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node"
+import { z } from "zod"
+import { isSupabaseConfigured } from "../../_lib/supabase.js"
+import { authorizeRequest } from "../../_lib/auth.js"
+import { authorizeAreaScope } from "../../_lib/area-scope.js"
+import {
+  ConvertSchema,
+  convertToRegistrant,
+  fetchConversionEvent,
+  fetchFunnelProspect,
+  fetchRegistration,
+} from "../../_lib/prospect-funnel.js"
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Access-Control-Allow-Origin", "*")
+  res.setHeader("Access-Control-Allow-Methods", "POST, OPTIONS")
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization")
+
+  if (req.method === "OPTIONS") {
+    return res.status(200).end()
+  }
+
+  if (!isSupabaseConfigured) {
+    return res.status(500).json({
+      success: false,
+      error: "Database not configured",
+    })
+  }
+
+  const auth = await authorizeRequest(req, res, { POST: "area_admin" })
+  if (!auth) {
+    return
+  }
+
+  const { method, query } = req
+  const prospectId = query.id as string
+
+  if (!prospectId || !z.string().uuid().safeParse(prospectId).success) {
+    return res.status(400).json({
+      success: false,
+      error: "Invalid prospect ID format",
+    })
+  }
+
+  try {
+    switch (method) {
+      case "POST": {
+        // POST /api/prospects/[id]/convert - Register the prospect for an NWTA
+        const { event_id } = ConvertSchema.parse(req.body)
+        console.log(`[v0] POST /api/prospects/${prospectId}/convert - Registering for ${event_id}`)
+
+        if (!(await authorizeAreaScope(res, auth, "prospects", prospectId))) {
+          return
+        }
+
+        const [prospect, event, registration] = await Promise.all([
+          fetchFunnelProspect(prospectId),
+          fetchConversionEvent(event_id),
+          fetchRegistration(prospectId),
+        ])
+
+        if (!prospect) {
+          return res.status(404).json({
+            success: false,
+            error: "Prospect not found",
+          })
+        }
+
+        if (!event) {
+          return res.status(400).json({
+            success: false,
+            error: "NWTA event not found",
+          })
+        }
+
+        if (registration) {
+          return res.status(409).json({
+            success: false,
+            error:
+              registration.event_id === event.id
+                ? "This prospect is already registered for this NWTA"
+                : "This prospect is already registered for another event",
+          })
+        }
+
+        const data = await convertToRegistrant(auth, prospect, event)
+
+        return res.status(201).json({
+          success: true,
+          data,
+          message: data.waitlisted ? `Waitlisted for ${event.name}` : `Registered for ${event.name}`,
+        })
+      }
+
+      default:
+        res.setHeader("Allow", ["POST"])
+        return res.status(405).json({
+          success: false,
+          error: `Method ${method} not allowed`,
+        })
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: "Validation error",
+        details: error.errors,
+      })
+    }
+
+    console.error("[v0] Server error:", error)
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+    })
+  }
+}
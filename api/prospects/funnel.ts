@@ -0,0 +1,78 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node"
+import { z } from "zod"
+import { isSupabaseConfigured } from "../_lib/supabase.js"
+import { authorizeRequest } from "../_lib/auth.js"
+import { getAreaScope } from "../_lib/area-scope.js"
+import { sendCsv } from "../_lib/csv.js"
+import { buildFunnelReport, funnelReportCsv } from "../_lib/prospect-funnel.js"
+
+const FunnelQuerySchema = z.object({
+  area_id: z.string().uuid().optional(),
+  from: z.string().date("Dates must be YYYY-MM-DD").optional(),
+  to: z.string().date("Dates must be YYYY-MM-DD").optional(),
+})
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Access-Control-Allow-Origin", "*")
+  res.setHeader("Access-Control-Allow-Methods", "GET, OPTIONS")
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization")
+
+  if (req.method === "OPTIONS") {
+    return res.status(200).end()
+  }
+
+  if (!isSupabaseConfigured) {
+    return res.status(500).json({
+      success: false,
+      error: "Database not configured",
+    })
+  }
+
+  const auth = await authorizeRequest(req, res, { GET: "area_admin" })
+  if (!auth) {
+    return
+  }
+
+  if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET"])
+    return res.status(405).json({
+      success: false,
+      error: `Method ${req.method} not allowed`,
+    })
+  }
+
+  try {
+    // GET /api/prospects/funnel[?area_id=&from=&to=&format=csv] - Conversion by area and referring warrior
+    const filters = FunnelQuerySchema.parse({
+      area_id: req.query.area_id || undefined,
+      from: req.query.from || undefined,
+      to: req.query.to || undefined,
+    })
+    console.log("[v0] GET /api/prospects/funnel - Building conversion report")
+
+    const report = await buildFunnelReport(await getAreaScope(auth), filters)
+
+    if (req.query.format === "csv") {
+      return sendCsv(res, "prospect-funnel.csv", funnelReportCsv(report))
+    }
+
+    return res.json({
+      success: true,
+      data: report,
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: "Validation error",
+        details: error.errors,
+      })
+    }
+
+    console.error("[v0] Server error:", error)
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+    })
+  }
+}
@@ -1,6 +1,10 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node"
 import { z } from "zod"
 import { supabase, isSupabaseConfigured } from "./_lib/supabase.js"
+import { authorizeRequest } from "./_lib/auth.js"
+import { recordActivity, recordRecordChange } from "./_lib/activity-log.js"
+import { applyListParams, listMeta, parseListParams, searchFilter } from "./_lib/pagination.js"
+import { fetchRegistrantBalances } from "./_lib/payment-plans.js"
 import type { Registrant } from "../src/types/person"
 import type { EventBasic } from "../src/types/event"
 
@@ -50,6 +54,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     })
   }
 
+  const auth = await authorizeRequest(req, res, { GET: "area_admin", POST: "area_admin" })
+  if (!auth) {
+    return
+  }
+
   const { method, query } = req
 
   try {
@@ -57,6 +66,14 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       case "GET":
         console.log("[v0] GET /api/registrants - Fetching all registrants")
 
+        const listParams = parseListParams(req, res, {
+          sortable: ["created_at", "updated_at"],
+          defaultSort: "-created_at",
+        })
+        if (!listParams) {
+          return
+        }
+
         const { active, event_id } = query
         let dbQuery = supabase.from("registrants").select(`
             id,
@@ -86,11 +103,12 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
               id,
               name,
               description,
+              participant_cost,
               is_active,
               created_at,
               updated_at
             )
-          `)
+          `, { count: "exact" })
 
         if (active !== undefined) {
           const isActive = active === "true"
@@ -101,7 +119,13 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           dbQuery = dbQuery.eq("event_id", event_id)
         }
 
-        const { data, error } = await dbQuery.order("created_at", { ascending: false })
+        if (listParams.q) {
+          dbQuery = dbQuery.or(searchFilter(["first_name", "last_name", "email", "phone"], listParams.q), {
+            referencedTable: "people",
+          })
+        }
+
+        const { data, error, count: total } = await applyListParams(dbQuery, listParams)
 
         if (error) {
           console.error("[v0] Database error:", error)
@@ -111,6 +135,15 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           })
         }
 
+        const balances = await fetchRegistrantBalances(
+          (data || []).map((registrant: any) => ({
+            id: registrant.id,
+            payment_plan: registrant.payment_plan,
+            transaction_log: registrant.transaction_log,
+            cost: registrant.events?.participant_cost || 0,
+          })),
+        )
+
         const transformedData =
           data?.map((registrant: any) => {
             const peopleData = registrant.people as any
@@ -134,6 +167,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
               physical_address_id: peopleData.physical_address_id,
               notes: peopleData.notes,
               photo_url: peopleData.photo_url,
+              balance: balances.get(registrant.id)?.balance,
               event: {
                 id: registrant.event_id,
                 name: eventsData.name,
@@ -149,6 +183,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           success: true,
           data: transformedData,
           count: transformedData.length,
+          ...listMeta(listParams, data || [], total),
         })
 
       case "POST":
@@ -158,7 +193,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
         const { data: eventExists, error: eventError } = await supabase
           .from("events")
-          .select("id")
+          .select("id, log_id")
           .eq("id", validatedData.event_id)
           .single()
 
@@ -199,7 +234,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           .from("registrants")
           .insert({
             id: newPerson.id, // Use person's id as registrant's id
-            log_id: validatedData.log_id || null,
+            log_id: validatedData.log_id || undefined,
             payment_plan: validatedData.payment_plan || null,
             transaction_log: validatedData.transaction_log || null,
             event_id: validatedData.event_id,
@@ -280,6 +315,18 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           },
         }
 
+        await recordRecordChange(auth, {
+          logId: transformedNewData.log_id,
+          entity: "Registrant",
+          action: "created",
+          after: transformedNewData,
+        })
+        await recordActivity(auth, eventExists.log_id, {
+          name: "Membership Changed",
+          summary: `Registrant "${transformedNewData.first_name} ${transformedNewData.last_name}" added`,
+          data: { action: "membership", registrant_id: transformedNewData.id },
+        })
+
         return res.status(201).json({
           success: true,
           data: transformedNewData,
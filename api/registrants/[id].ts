@@ -1,6 +1,9 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node"
 import { z } from "zod"
 import { supabase, isSupabaseConfigured } from "../_lib/supabase.js"
+import { authorizeRequest } from "../_lib/auth.js"
+import { recordActivity, recordRecordChange, snapshotPersonRecord } from "../_lib/activity-log.js"
+import { fetchRegistrantBalances } from "../_lib/payment-plans.js"
 
 const RegistrantUpdateSchema = z.object({
   // Person fields
@@ -38,6 +41,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     })
   }
 
+  const auth = await authorizeRequest(req, res, { GET: "area_admin", PUT: "area_admin", DELETE: "area_admin" })
+  if (!auth) {
+    return
+  }
+
   const { method, query } = req
   const { id } = query
 
@@ -82,6 +90,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
             events!inner (
               name,
               description,
+              participant_cost,
               is_active,
               created_at,
               updated_at
@@ -100,6 +109,14 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
         const peopleData = data.people as any
         const eventsData = data.events as any
+        const balances = await fetchRegistrantBalances([
+          {
+            id: data.id,
+            payment_plan: data.payment_plan,
+            transaction_log: data.transaction_log,
+            cost: eventsData.participant_cost || 0,
+          },
+        ])
         const transformedData = {
           id: data.id,
           log_id: data.log_id,
@@ -119,6 +136,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           physical_address_id: peopleData.physical_address_id,
           notes: peopleData.notes,
           photo_url: peopleData.photo_url,
+          balance: balances.get(data.id)?.balance,
           event_name: eventsData.name,
           event_description: eventsData.description,
           event_is_active: eventsData.is_active,
@@ -135,6 +153,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         console.log(`[v0] PUT /api/registrants/${id} - Updating registrant`)
 
         const validatedData = RegistrantUpdateSchema.parse(req.body)
+        const registrantBefore = await snapshotPersonRecord("registrants", id)
 
         if (validatedData.event_id) {
           const { data: eventExists, error: eventError } = await supabase
@@ -288,6 +307,14 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           event_updated_at: updatedEventsData.updated_at,
         }
 
+        await recordRecordChange(auth, {
+          logId: transformedUpdatedData.log_id,
+          entity: "Registrant",
+          action: "updated",
+          before: registrantBefore,
+          after: transformedUpdatedData,
+        })
+
         return res.json({
           success: true,
           data: transformedUpdatedData,
@@ -297,6 +324,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       case "DELETE":
         console.log(`[v0] DELETE /api/registrants/${id} - Deleting registrant`)
 
+        const registrantToDelete = await snapshotPersonRecord("registrants", id)
+
         const { error: deleteError } = await supabase.from("people").delete().eq("id", id)
 
         if (deleteError) {
@@ -307,6 +336,26 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           })
         }
 
+        if (registrantToDelete) {
+          await recordRecordChange(auth, {
+            logId: registrantToDelete.log_id,
+            entity: "Registrant",
+            action: "deleted",
+            before: registrantToDelete,
+          })
+
+          const { data: registrantEvent } = await supabase
+            .from("events")
+            .select("log_id")
+            .eq("id", registrantToDelete.event_id)
+            .maybeSingle()
+          await recordActivity(auth, registrantEvent?.log_id, {
+            name: "Membership Changed",
+            summary: `Registrant "${registrantToDelete.first_name} ${registrantToDelete.last_name}" removed`,
+            data: { action: "membership", registrant_id: id },
+          })
+        }
+
         return res.json({
           success: true,
           message: "Registrant deleted successfully",
@@ -0,0 +1,180 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node"
+import { randomUUID } from "crypto"
+import { z } from "zod"
+import { supabase, isSupabaseConfigured } from "../../_lib/supabase.js"
+import { authorizeRequest } from "../../_lib/auth.js"
+import { recordActivity } from "../../_lib/activity-log.js"
+import { PaymentPlanSchema, fetchRegistrantBalances } from "../../_lib/payment-plans.js"
+
+const formatCents = (cents: number) => `$${(cents / 100).toFixed(2)}`
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Access-Control-Allow-Origin", "*")
+  res.setHeader("Access-Control-Allow-Methods", "GET, PUT, DELETE, OPTIONS")
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization")
+
+  if (req.method === "OPTIONS") {
+    return res.status(200).end()
+  }
+
+  if (!isSupabaseConfigured) {
+    return res.status(500).json({
+      success: false,
+      error: "Database not configured",
+    })
+  }
+
+  const auth = await authorizeRequest(req, res, { GET: "area_admin", PUT: "area_admin", DELETE: "area_admin" })
+  if (!auth) {
+    return
+  }
+
+  const { method, query } = req
+  const registrantId = query.id as string
+
+  if (!registrantId || !z.string().uuid().safeParse(registrantId).success) {
+    return res.status(400).json({
+      success: false,
+      error: "Invalid registrant ID format",
+    })
+  }
+
+  try {
+    const { data: registrant, error: registrantError } = await supabase
+      .from("registrants")
+      .select("id, log_id, payment_plan, transaction_log, events!inner(participant_cost)")
+      .eq("id", registrantId)
+      .maybeSingle()
+
+    if (registrantError) {
+      console.error("[v0] Database error:", registrantError)
+      return res.status(500).json({
+        success: false,
+        error: "Failed to fetch registrant",
+      })
+    }
+
+    if (!registrant) {
+      return res.status(404).json({
+        success: false,
+        error: "Registrant not found",
+      })
+    }
+
+    const cost = (registrant.events as any)?.participant_cost || 0
+
+    const respondWithBalance = async (paymentPlan: string | null, transactionLog: string | null, message?: string) => {
+      const balances = await fetchRegistrantBalances([
+        { id: registrantId, payment_plan: paymentPlan, transaction_log: transactionLog, cost },
+      ])
+      const { plan, balance } = balances.get(registrantId)!
+
+      return res.json({
+        success: true,
+        data: { payment_plan: paymentPlan, transaction_log: transactionLog, plan, balance },
+        message,
+      })
+    }
+
+    switch (method) {
+      case "GET":
+        // GET /api/registrants/[id]/payment-plan - Current plan and balance
+        console.log(`[v0] GET /api/registrants/${registrantId}/payment-plan - Fetching payment plan`)
+
+        return respondWithBalance(registrant.payment_plan, registrant.transaction_log)
+
+      case "PUT": {
+        // PUT /api/registrants/[id]/payment-plan - Replace the registrant's plan
+        console.log(`[v0] PUT /api/registrants/${registrantId}/payment-plan - Setting payment plan`)
+
+        const plan = PaymentPlanSchema.parse(req.body)
+
+        // Registrants created before transaction logs were assigned get one now
+        const logId = registrant.log_id || randomUUID()
+        const transactionLog = registrant.transaction_log || randomUUID()
+
+        const planEntryId = await recordActivity(auth, logId, {
+          name: "Payment Plan",
+          summary: `Payment plan set: ${formatCents(plan.deposit.amount)} deposit and ${plan.installments.length} installment${plan.installments.length === 1 ? "" : "s"}`,
+          data: { action: "payment_plan", plan },
+        })
+
+        if (!planEntryId) {
+          return res.status(500).json({
+            success: false,
+            error: "Failed to save payment plan",
+          })
+        }
+
+        const { error: updateError } = await supabase
+          .from("registrants")
+          .update({
+            log_id: logId,
+            payment_plan: planEntryId,
+            transaction_log: transactionLog,
+            updated_at: new Date().toISOString(),
+          })
+          .eq("id", registrantId)
+
+        if (updateError) {
+          console.error("[v0] Database error:", updateError)
+          return res.status(500).json({
+            success: false,
+            error: "Failed to save payment plan",
+          })
+        }
+
+        return respondWithBalance(planEntryId, transactionLog, "Payment plan saved")
+      }
+
+      case "DELETE": {
+        // DELETE /api/registrants/[id]/payment-plan - Remove the plan; past payments are kept
+        console.log(`[v0] DELETE /api/registrants/${registrantId}/payment-plan - Removing payment plan`)
+
+        const { error: updateError } = await supabase
+          .from("registrants")
+          .update({ payment_plan: null, updated_at: new Date().toISOString() })
+          .eq("id", registrantId)
+
+        if (updateError) {
+          console.error("[v0] Database error:", updateError)
+          return res.status(500).json({
+            success: false,
+            error: "Failed to remove payment plan",
+          })
+        }
+
+        if (registrant.payment_plan) {
+          await recordActivity(auth, registrant.log_id, {
+            name: "Payment Plan",
+            summary: "Payment plan removed",
+            data: { action: "payment_plan", plan: null },
+          })
+        }
+
+        return respondWithBalance(null, registrant.transaction_log, "Payment plan removed")
+      }
+
+      default:
+        res.setHeader("Allow", ["GET", "PUT", "DELETE"])
+        return res.status(405).json({
+          success: false,
+          error: `Method ${method} not allowed`,
+        })
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: "Validation error",
+        details: error.errors,
+      })
+    }
+
+    console.error("[v0] Server error:", error)
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+    })
+  }
+}
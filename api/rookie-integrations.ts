@@ -0,0 +1,161 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node"
+import { z } from "zod"
+import { isSupabaseConfigured } from "./_lib/supabase.js"
+import { authorizeRequest } from "./_lib/auth.js"
+import { recordRecordChange } from "./_lib/activity-log.js"
+import { authorizeAreaScope, fetchAreaScopedRecord, getAreaScope } from "./_lib/area-scope.js"
+import { pageRows, parseListParams } from "./_lib/pagination.js"
+import {
+  STALLED_AFTER_DAYS,
+  StartIntegrationSchema,
+  attachProgress,
+  fetchIntegrations,
+  startIntegrations,
+} from "./_lib/rookie-integration.js"
+import type { IntegrationStage } from "../src/types/rookie-integration"
+
+const ListQuerySchema = z.object({
+  area_id: z.string().uuid().optional(),
+  owner_id: z.string().uuid().optional(),
+  nwta_event_id: z.string().uuid().optional(),
+  stage: z.enum(["initiated", "contacted", "attended", "joined", "completed"]).optional(),
+  // "true" lists only rookies with no owner or stalled in their stage
+  attention: z.enum(["true", "false"]).optional(),
+  stalled_days: z.coerce.number().int().min(1).max(365).default(STALLED_AFTER_DAYS),
+})
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Access-Control-Allow-Origin", "*")
+  res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS")
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization")
+
+  if (req.method === "OPTIONS") {
+    return res.status(200).end()
+  }
+
+  if (!isSupabaseConfigured) {
+    return res.status(500).json({
+      success: false,
+      error: "Database not configured",
+    })
+  }
+
+  const auth = await authorizeRequest(req, res, { GET: "area_admin", POST: "area_admin" })
+  if (!auth) {
+    return
+  }
+
+  const { method } = req
+
+  try {
+    switch (method) {
+      case "GET": {
+        // GET /api/rookie-integrations - New warriors in the integration pipeline within the caller's areas
+        console.log("[v0] GET /api/rookie-integrations - Fetching rookie integrations")
+
+        const filters = ListQuerySchema.parse(req.query)
+        const listParams = parseListParams(req, res, {
+          sortable: ["name", "days_in_stage", "created_at"],
+          defaultSort: "-days_in_stage",
+        })
+        if (!listParams) {
+          return
+        }
+
+        const integrations = await attachProgress(
+          await fetchIntegrations(await getAreaScope(auth), filters),
+          filters.stalled_days,
+        )
+
+        const q = listParams.q?.toLowerCase()
+        const stage: IntegrationStage | undefined = filters.stage
+        const rows = integrations
+          .filter((integration) => !stage || integration.stage === stage)
+          .filter((integration) => filters.attention !== "true" || integration.flags.length > 0)
+          .filter(
+            (integration) =>
+              !q || `${integration.warrior?.first_name} ${integration.warrior?.last_name}`.toLowerCase().includes(q),
+          )
+          .sort((a, b) => {
+            const order =
+              listParams.sort === "name"
+                ? `${a.warrior?.last_name} ${a.warrior?.first_name}`.localeCompare(
+                    `${b.warrior?.last_name} ${b.warrior?.first_name}`,
+                  )
+                : listParams.sort === "days_in_stage"
+                  ? a.days_in_stage - b.days_in_stage
+                  : (a.created_at || "").localeCompare(b.created_at || "")
+            return listParams.ascending ? order : -order
+          })
+
+        // Paged in memory because stage and flags are worked out after the query
+        const { rows: page, meta } = pageRows(listParams, rows)
+
+        return res.json({
+          success: true,
+          data: page,
+          count: page.length,
+          ...meta,
+        })
+      }
+
+      case "POST": {
+        // POST /api/rookie-integrations - Start the pipeline for a warrior who isn't in it yet
+        console.log("[v0] POST /api/rookie-integrations - Starting rookie integration")
+
+        const { warrior_id, nwta_event_id, owner_id } = StartIntegrationSchema.parse(req.body)
+
+        const warrior = await fetchAreaScopedRecord("warriors", warrior_id)
+        if (!warrior) {
+          return res.status(404).json({
+            success: false,
+            error: "Warrior not found",
+          })
+        }
+
+        if (!(await authorizeAreaScope(res, auth, "warriors", warrior_id))) {
+          return
+        }
+
+        const [created] = await startIntegrations([warrior_id], nwta_event_id || null, owner_id || null)
+        if (!created) {
+          return res.status(409).json({
+            success: false,
+            error: "This warrior is already in the integration pipeline",
+          })
+        }
+
+        await recordRecordChange(auth, { logId: created.log_id, entity: "Rookie integration", action: "created", after: created })
+
+        const [data] = await attachProgress([created])
+
+        return res.status(201).json({
+          success: true,
+          data,
+          message: "Integration started",
+        })
+      }
+
+      default:
+        res.setHeader("Allow", ["GET", "POST"])
+        return res.status(405).json({
+          success: false,
+          error: `Method ${method} not allowed`,
+        })
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: "Validation error",
+        details: error.errors,
+      })
+    }
+
+    console.error("[v0] Server error:", error)
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+    })
+  }
+}
@@ -0,0 +1,156 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node"
+import { z } from "zod"
+import { supabase, isSupabaseConfigured } from "../_lib/supabase.js"
+import { authorizeRequest } from "../_lib/auth.js"
+import { recordRecordChange } from "../_lib/activity-log.js"
+import { authorizeAreaScope } from "../_lib/area-scope.js"
+import {
+  IntegrationUpdateSchema,
+  SUGGESTION_RADIUS_MILES,
+  attachProgress,
+  fetchIntegration,
+  suggestIGroups,
+} from "../_lib/rookie-integration.js"
+
+const RadiusSchema = z.coerce.number().min(1).max(250).default(SUGGESTION_RADIUS_MILES)
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Access-Control-Allow-Origin", "*")
+  res.setHeader("Access-Control-Allow-Methods", "GET, PUT, DELETE, OPTIONS")
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization")
+
+  if (req.method === "OPTIONS") {
+    return res.status(200).end()
+  }
+
+  if (!isSupabaseConfigured) {
+    return res.status(500).json({
+      success: false,
+      error: "Database not configured",
+    })
+  }
+
+  const auth = await authorizeRequest(req, res, { GET: "area_admin", PUT: "area_admin", DELETE: "area_admin" })
+  if (!auth) {
+    return
+  }
+
+  const { method, query } = req
+  const id = query.id as string
+
+  if (!id || !z.string().uuid().safeParse(id).success) {
+    return res.status(400).json({
+      success: false,
+      error: "Invalid integration ID format",
+    })
+  }
+
+  try {
+    const integration = await fetchIntegration(id)
+    if (!integration) {
+      return res.status(404).json({
+        success: false,
+        error: "Integration not found",
+      })
+    }
+
+    if (!(await authorizeAreaScope(res, auth, "rookie_integrations", id))) {
+      return
+    }
+
+    switch (method) {
+      case "GET": {
+        // GET /api/rookie-integrations/[id]?radius=25 - One warrior's progress and nearby I-Groups to invite them to
+        console.log(`[v0] GET /api/rookie-integrations/${id} - Fetching integration`)
+
+        const radius = RadiusSchema.parse(query.radius)
+        const [[data], suggestions] = await Promise.all([attachProgress([integration]), suggestIGroups(integration, radius)])
+
+        return res.json({
+          success: true,
+          data: { ...data, suggestions },
+        })
+      }
+
+      case "PUT": {
+        // PUT /api/rookie-integrations/[id] - Record a stage, change the owner or add notes
+        console.log(`[v0] PUT /api/rookie-integrations/${id} - Updating integration`)
+
+        const updateData = IntegrationUpdateSchema.parse(req.body)
+
+        const { data: updated, error } = await supabase
+          .from("rookie_integrations")
+          .update({ ...updateData, updated_at: new Date().toISOString() })
+          .eq("id", id)
+          .select()
+          .single()
+
+        if (error) {
+          console.error("[v0] Database error updating integration:", error)
+          throw error
+        }
+
+        await recordRecordChange(auth, {
+          logId: updated.log_id,
+          entity: "Rookie integration",
+          action: "updated",
+          before: integration,
+          after: updated,
+        })
+
+        const [data] = await attachProgress([updated])
+
+        return res.json({
+          success: true,
+          data,
+          message: "Integration updated",
+        })
+      }
+
+      case "DELETE": {
+        // DELETE /api/rookie-integrations/[id] - Take a warrior out of the pipeline
+        console.log(`[v0] DELETE /api/rookie-integrations/${id} - Removing integration`)
+
+        const { error } = await supabase.from("rookie_integrations").delete().eq("id", id)
+
+        if (error) {
+          console.error("[v0] Database error removing integration:", error)
+          throw error
+        }
+
+        await recordRecordChange(auth, {
+          logId: integration.log_id,
+          entity: "Rookie integration",
+          action: "deleted",
+          before: integration,
+        })
+
+        return res.json({
+          success: true,
+          message: "Integration removed",
+        })
+      }
+
+      default:
+        res.setHeader("Allow", ["GET", "PUT", "DELETE"])
+        return res.status(405).json({
+          success: false,
+          error: `Method ${method} not allowed`,
+        })
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: "Validation error",
+        details: error.errors,
+      })
+    }
+
+    console.error("[v0] Server error:", error)
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+    })
+  }
+}
@@ -1,6 +1,9 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node"
 import { z } from "zod"
 import { supabase, isSupabaseConfigured } from "./_lib/supabase.js"
+import { authorizeRequest } from "./_lib/auth.js"
+import { authorizeTransactionLogs, getAreaScope, getScopedTransactionLogIds } from "./_lib/area-scope.js"
+import { applyListParams, listMeta, parseListParams, searchFilter } from "./_lib/pagination.js"
 
 // Validation schemas
 const TransactionSchema = z.object({
@@ -38,10 +41,24 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     })
   }
 
+  const auth = await authorizeRequest(req, res, { GET: "area_admin", POST: "area_admin", PUT: "area_admin" })
+  if (!auth) {
+    return
+  }
+
   const { log } = req.query
 
   try {
     if (req.method === "GET") {
+      // A single log reads in its own order; the cross-log listing defaults to newest first
+      const listParams = parseListParams(req, res, {
+        sortable: ["ordering", "happened_at", "amount", "created_at", "updated_at"],
+        defaultSort: log ? "ordering" : "-created_at",
+      })
+      if (!listParams) {
+        return
+      }
+
       let query = supabase.from("transaction_logs").select(`
         id,
         log_id,
@@ -61,16 +78,27 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         happened_at,
         payor:people!payor_person_id(id, first_name, middle_name, last_name, photo_url),
         payee:people!payee_person_id(id, first_name, middle_name, last_name, photo_url)
-      `)
+      `, { count: "exact" })
 
       // Filter by log_id if provided
       if (log) {
-        query = query.eq("log_id", log).order("ordering", { ascending: true })
+        if (!(await authorizeTransactionLogs(res, auth, [log as string]))) {
+          return
+        }
+        query = query.eq("log_id", log)
       } else {
-        query = query.order("created_at", { ascending: false })
+        // Area admins only see the transactions of their own areas' events
+        const scope = await getAreaScope(auth)
+        if (scope) {
+          query = query.in("log_id", await getScopedTransactionLogIds(scope))
+        }
       }
 
-      const { data, error, count } = await query
+      if (listParams.q) {
+        query = query.or(searchFilter(["name", "payor_name", "payee_name", "details"], listParams.q))
+      }
+
+      const { data, error, count: total } = await applyListParams(query, listParams)
 
       if (error) {
         console.error("[v0] Database error:", error)
@@ -84,7 +112,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       return res.status(200).json({
         success: true,
         data: data || [],
-        count: count || data?.length || 0,
+        count: data?.length || 0,
+        ...listMeta(listParams, data || [], total),
       })
     }
 
@@ -93,6 +122,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
       // Handle bulk operations with log parameter
       if (log) {
+        if (!(await authorizeTransactionLogs(res, auth, [log as string]))) {
+          return
+        }
+
         const validation = BulkTransactionSchema.safeParse(req.body)
         if (!validation.success) {
           console.log("[v0] Bulk validation failed:", validation.error.errors)
@@ -157,6 +190,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           })
         }
 
+        if (!(await authorizeTransactionLogs(res, auth, [validation.data.log_id]))) {
+          return
+        }
+
         const { data, error } = await supabase
           .from("transaction_logs")
           .insert([validation.data])
@@ -200,6 +237,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     if (req.method === "PUT") {
       // Handle bulk updates with log parameter
       if (log) {
+        if (!(await authorizeTransactionLogs(res, auth, [log as string]))) {
+          return
+        }
+
         const validation = BulkTransactionSchema.safeParse(req.body)
         if (!validation.success) {
           return res.status(400).json({
@@ -1,6 +1,8 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node"
 import { z } from "zod"
 import { supabase, isSupabaseConfigured } from "../_lib/supabase.js"
+import { authorizeRequest } from "../_lib/auth.js"
+import { authorizeTransaction } from "../_lib/area-scope.js"
 
 const UpdateTransactionSchema = z.object({
   log_id: z.string().uuid().optional(),
@@ -34,6 +36,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     })
   }
 
+  const auth = await authorizeRequest(req, res, { GET: "area_admin", PUT: "area_admin", DELETE: "area_admin" })
+  if (!auth) {
+    return
+  }
+
   const { id } = req.query
 
   if (!id || typeof id !== "string") {
@@ -45,6 +52,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
   try {
     if (req.method === "GET") {
+      if (!(await authorizeTransaction(res, auth, id))) {
+        return
+      }
+
       const { data, error } = await supabase
         .from("transaction_logs")
         .select(`
@@ -100,6 +111,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         })
       }
 
+      if (!(await authorizeTransaction(res, auth, id, validation.data))) {
+        return
+      }
+
       const { data, error } = await supabase
         .from("transaction_logs")
         .update({
@@ -149,6 +164,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     }
 
     if (req.method === "DELETE") {
+      if (!(await authorizeTransaction(res, auth, id))) {
+        return
+      }
+
       const { data, error } = await supabase.from("transaction_logs").delete().eq("id", id).select("id").single()
 
       if (error) {
@@ -0,0 +1,157 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node"
+import { z } from "zod"
+import { supabase, isSupabaseConfigured } from "../_lib/supabase.js"
+import { authorizeRequest } from "../_lib/auth.js"
+import { authorizeTransactionLogs, getAreaScope, getScopedTransactionLogIds } from "../_lib/area-scope.js"
+import { sendCsv, sendDownload } from "../_lib/csv.js"
+import {
+  AccountMapSchema,
+  buildJournal,
+  journalCsvRows,
+  journalIif,
+  journalOfx,
+  resolveAccounts,
+  type JournalTransaction,
+} from "../_lib/accounting.js"
+
+const DateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD")
+  .optional()
+
+const ExportQuerySchema = z
+  .object({
+    format: z.enum(["csv", "iif", "ofx", "json"]).default("csv"),
+    log: z.string().uuid().optional(),
+    from: DateSchema,
+    to: DateSchema,
+    // Per-export account overrides, as JSON in the same shape as ACCOUNTING_ACCOUNTS
+    accounts: z
+      .string()
+      .optional()
+      .transform((value, ctx) => {
+        if (!value) {
+          return null
+        }
+        try {
+          return AccountMapSchema.parse(JSON.parse(value))
+        } catch {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: "accounts must be a JSON account map" })
+          return z.NEVER
+        }
+      }),
+  })
+  .refine((query) => query.log || query.from || query.to, {
+    message: "Choose a transaction log or a date range to export",
+  })
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Access-Control-Allow-Origin", "*")
+  res.setHeader("Access-Control-Allow-Methods", "GET, OPTIONS")
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization")
+
+  if (req.method === "OPTIONS") {
+    return res.status(200).end()
+  }
+
+  if (!isSupabaseConfigured) {
+    return res.status(500).json({
+      success: false,
+      error: "Database not configured",
+    })
+  }
+
+  const auth = await authorizeRequest(req, res, { GET: "area_admin" })
+  if (!auth) {
+    return
+  }
+
+  if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET"])
+    return res.status(405).json({
+      success: false,
+      error: `Method ${req.method} not allowed`,
+    })
+  }
+
+  try {
+    // GET /api/transactions/export?format=csv|iif|ofx|json&log=|from=&to= - Double-entry journal
+    const { format, log, from, to, accounts: accountOverrides } = ExportQuerySchema.parse(req.query)
+    console.log(`[v0] GET /api/transactions/export - Exporting ${format} journal`)
+
+    let query = supabase
+      .from("transaction_logs")
+      .select("id, log_id, type, method, name, details, amount, payor_name, payee_name, happened_at, created_at")
+      .is("deleted_at", null)
+      .order("happened_at", { ascending: true })
+      .order("ordering", { ascending: true })
+
+    if (log) {
+      if (!(await authorizeTransactionLogs(res, auth, [log]))) {
+        return
+      }
+      query = query.eq("log_id", log)
+    } else {
+      const scope = await getAreaScope(auth)
+      if (scope) {
+        query = query.in("log_id", await getScopedTransactionLogIds(scope))
+      }
+    }
+
+    // Entries without happened_at are dated by created_at in the journal, so the range has to match them that way too
+    if (from) {
+      const since = `"${from}T00:00:00Z"`
+      query = query.or(`happened_at.gte.${since},and(happened_at.is.null,created_at.gte.${since})`)
+    }
+    if (to) {
+      const until = `"${to}T23:59:59.999Z"`
+      query = query.or(`happened_at.lte.${until},and(happened_at.is.null,created_at.lte.${until})`)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      console.error("[v0] Database error:", error)
+      return res.status(500).json({
+        success: false,
+        error: "Failed to fetch transactions",
+      })
+    }
+
+    const accounts = resolveAccounts(accountOverrides)
+    const entries = buildJournal((data || []) as JournalTransaction[], accounts)
+    const filename = `journal-${log ? log.slice(0, 8) : `${from || "start"}-to-${to || "now"}`}`
+
+    switch (format) {
+      case "iif":
+        return sendDownload(res, `${filename}.iif`, "text/plain; charset=utf-8", journalIif(entries))
+
+      case "ofx":
+        return sendDownload(res, `${filename}.ofx`, "application/x-ofx", journalOfx(entries, accounts))
+
+      case "json":
+        return res.json({
+          success: true,
+          data: { accounts, entries },
+          count: entries.length,
+        })
+
+      default:
+        return sendCsv(res, `${filename}.csv`, journalCsvRows(entries))
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: "Validation error",
+        details: error.errors,
+      })
+    }
+
+    console.error("[v0] Server error:", error)
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+    })
+  }
+}
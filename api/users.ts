@@ -1,6 +1,8 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node"
 import { z } from "zod"
 import { supabase, isSupabaseConfigured } from "./_lib/supabase.js"
+import { authorizeRequest } from "./_lib/auth.js"
+import { applyListParams, listMeta, parseListParams, searchFilter } from "./_lib/pagination.js"
 import type { Person } from "../src/types/person"
 
 interface Address {
@@ -65,6 +67,7 @@ interface EmmaUserWithRelations {
 
   synchronized_at: string | null
   approved_at: string | null
+  is_national_admin: boolean
   created_at: string
   updated_at: string
   is_active: boolean
@@ -109,6 +112,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     })
   }
 
+  const auth = await authorizeRequest(req, res, { GET: "authenticated", POST: "authenticated", PUT: "authenticated" })
+  if (!auth) {
+    return
+  }
+
   const { method, query } = req
 
   try {
@@ -117,8 +125,21 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         // GET /api/users - Retrieve all users
         console.log("[v0] GET /api/users - Fetching all users")
 
-        const { approved, search, email } = query
-        let dbQuery = supabase?.from("emma_users").select("*")
+        const listParams = parseListParams(req, res, {
+          sortable: ["approved_at", "created_at", "updated_at"],
+          defaultSort: "-created_at",
+        })
+        if (!listParams) {
+          return
+        }
+
+        const { approved, email } = query
+        let dbQuery = supabase?.from("emma_users").select("*", { count: "exact" })
+
+        // Only national admins can browse other users; everyone else only sees their own row
+        if (!auth.is_national_admin) {
+          dbQuery = dbQuery.eq("auth0_user->>sub", auth.claims?.sub || "")
+        }
 
         if (approved !== undefined) {
           if (approved === "true") {
@@ -135,17 +156,24 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           )
         }
 
-        if (search && typeof search === "string") {
-          const searchTerm = search.trim()
-          if (searchTerm.length > 0) {
-            // Search in various name fields across user objects
-            dbQuery = dbQuery.or(
-              `auth0_user->>given_name.ilike.*${searchTerm}*,auth0_user->>family_name.ilike.*${searchTerm}*,civicrm_user->>first_name.ilike.*${searchTerm}*,civicrm_user->>last_name.ilike.*${searchTerm}*,drupal_user->>first_name.ilike.*${searchTerm}*,drupal_user->>last_name.ilike.*${searchTerm}*`,
-            )
-          }
+        if (listParams.q) {
+          // Search in various name fields across user objects
+          dbQuery = dbQuery.or(
+            searchFilter(
+              [
+                "auth0_user->>given_name",
+                "auth0_user->>family_name",
+                "civicrm_user->>first_name",
+                "civicrm_user->>last_name",
+                "drupal_user->>first_name",
+                "drupal_user->>last_name",
+              ],
+              listParams.q,
+            ),
+          )
         }
 
-        const { data, error } = await dbQuery.order("created_at", { ascending: false })
+        const { data, error, count: total } = await applyListParams(dbQuery, listParams)
 
         if (error) {
           console.error("[v0] Database error:", error)
@@ -159,6 +187,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           success: true,
           data: data || [],
           count: data?.length || 0,
+          ...listMeta(listParams, data || [], total),
         })
 
       case "POST":
@@ -167,6 +196,17 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
         const validatedData = UserSchema.parse(req.body)
 
+        if (!auth.is_national_admin) {
+          if (validatedData.auth0_user?.sub !== auth.claims?.sub) {
+            return res.status(403).json({
+              success: false,
+              error: "Users can only create their own account",
+            })
+          }
+          validatedData.approved_at = null
+          validatedData.other_auth0_users = []
+        }
+
         const { data: newData, error: createError } = await supabase
           .from("emma_users")
           .insert({
@@ -207,8 +247,23 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           })
         }
 
+        if (!auth.is_national_admin && id !== auth.user_id) {
+          return res.status(403).json({
+            success: false,
+            error: "Users can only update their own account",
+          })
+        }
+
         const updateData = UserSchema.partial().parse(req.body)
 
+        // The linked logins decide who this account is (auth.ts matches on auth0_user->>sub), so only
+        // national admins may change them
+        if (!auth.is_national_admin) {
+          delete updateData.approved_at
+          delete updateData.auth0_user
+          delete updateData.other_auth0_users
+        }
+
         const { data: updatedData, error: updateError } = await supabase
           .from("emma_users")
           .update({
@@ -1,6 +1,7 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node"
 import { z } from "zod"
 import { supabase, isSupabaseConfigured } from "../_lib/supabase.js"
+import { authorizeRequest } from "../_lib/auth.js"
 
 const UserUpdateSchema = z.object({
   auth0_user: z.any().optional().nullable(),
@@ -29,6 +30,15 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     })
   }
 
+  const auth = await authorizeRequest(req, res, {
+    GET: "authenticated",
+    PUT: "authenticated",
+    DELETE: "national_admin",
+  })
+  if (!auth) {
+    return
+  }
+
   const { method, query } = req
   const { id } = query
 
@@ -39,6 +49,13 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     })
   }
 
+  if (!auth.is_national_admin && id !== auth.user_id) {
+    return res.status(403).json({
+      success: false,
+      error: "Insufficient permissions",
+    })
+  }
+
   try {
     switch (method) {
       case "GET":
@@ -66,6 +83,14 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
         const validatedData = UserUpdateSchema.parse(req.body)
 
+        // The linked logins decide who this account is (auth.ts matches on auth0_user->>sub), so only
+        // national admins may change them
+        if (!auth.is_national_admin) {
+          delete validatedData.approved_at
+          delete validatedData.auth0_user
+          delete validatedData.other_auth0_users
+        }
+
         const updateFields = Object.fromEntries(
           Object.entries(validatedData).filter(([_, value]) => value !== undefined),
         )
@@ -0,0 +1,161 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node"
+import { randomBytes } from "crypto"
+import { z } from "zod"
+import { supabase, isSupabaseConfigured } from "../_lib/supabase.js"
+import { authorizeRequest } from "../_lib/auth.js"
+import { sendCalendar } from "../_lib/ical.js"
+import { PersonalFeedQuerySchema, buildPersonalFeed } from "../_lib/calendar-feeds.js"
+
+const FeedTokenSchema = z.object({
+  rotate: z.boolean().default(false),
+})
+
+const feedPath = (token: string) => `/api/users/calendar?token=${token}`
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Access-Control-Allow-Origin", "*")
+  res.setHeader("Access-Control-Allow-Methods", "GET, POST, DELETE, OPTIONS")
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization")
+
+  if (req.method === "OPTIONS") {
+    return res.status(200).end()
+  }
+
+  if (!isSupabaseConfigured) {
+    return res.status(500).json({
+      success: false,
+      error: "Database not configured",
+    })
+  }
+
+  // Calendar apps fetch the feed without a bearer token; the token in the URL stands in for one
+  const auth = await authorizeRequest(req, res, { GET: "public", POST: "warrior", DELETE: "warrior" })
+  if (!auth) {
+    return
+  }
+
+  const { method, query } = req
+
+  try {
+    switch (method) {
+      case "GET": {
+        // GET /api/users/calendar?token= - The user's staffing, leading and attending commitments as an iCalendar feed
+        console.log("[v0] GET /api/users/calendar - Building personal calendar feed")
+
+        const { token } = PersonalFeedQuerySchema.parse(query)
+
+        const { data: user, error } = await supabase
+          .from("emma_users")
+          .select("id, person")
+          .eq("calendar_token", token)
+          .is("deleted_at", null)
+          .maybeSingle()
+
+        if (error) {
+          console.error("[v0] Database error looking up calendar token:", error)
+          throw error
+        }
+
+        const personId = user?.person?.id
+        if (!personId) {
+          return res.status(404).json({
+            success: false,
+            error: "Calendar feed not found",
+          })
+        }
+
+        const name = [user.person.first_name, user.person.last_name].filter(Boolean).join(" ") || "My"
+        const feed = await buildPersonalFeed(personId, name)
+
+        return sendCalendar(res, "mkp-commitments", feed, true)
+      }
+
+      case "POST": {
+        // POST /api/users/calendar - Get the caller's feed link, creating it (or, with rotate, replacing it)
+        console.log(`[v0] POST /api/users/calendar - Issuing calendar feed for user ${auth.user_id}`)
+
+        const { rotate } = FeedTokenSchema.parse(req.body || {})
+
+        const { data: user, error } = await supabase
+          .from("emma_users")
+          .select("id, calendar_token")
+          .eq("id", auth.user_id)
+          .maybeSingle()
+
+        if (error) {
+          console.error("[v0] Database error fetching user:", error)
+          throw error
+        }
+
+        if (!user) {
+          return res.status(404).json({
+            success: false,
+            error: "User not found",
+          })
+        }
+
+        let token: string = user.calendar_token
+        if (!token || rotate) {
+          token = randomBytes(24).toString("base64url")
+
+          const { error: updateError } = await supabase
+            .from("emma_users")
+            .update({ calendar_token: token, updated_at: new Date().toISOString() })
+            .eq("id", user.id)
+
+          if (updateError) {
+            console.error("[v0] Database error saving calendar token:", updateError)
+            throw updateError
+          }
+        }
+
+        return res.json({
+          success: true,
+          data: { path: feedPath(token) },
+          message: rotate ? "Calendar link replaced. Subscriptions using the old link will stop updating." : undefined,
+        })
+      }
+
+      case "DELETE": {
+        // DELETE /api/users/calendar - Turn the caller's feed off
+        console.log(`[v0] DELETE /api/users/calendar - Revoking calendar feed for user ${auth.user_id}`)
+
+        const { error } = await supabase
+          .from("emma_users")
+          .update({ calendar_token: null, updated_at: new Date().toISOString() })
+          .eq("id", auth.user_id)
+
+        if (error) {
+          console.error("[v0] Database error revoking calendar token:", error)
+          throw error
+        }
+
+        return res.json({
+          success: true,
+          message: "Calendar feed turned off",
+        })
+      }
+
+      default:
+        res.setHeader("Allow", ["GET", "POST", "DELETE"])
+        return res.status(405).json({
+          success: false,
+          error: `Method ${method} not allowed`,
+        })
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: "Validation error",
+        details: error.errors,
+      })
+    }
+
+    console.error("[v0] Server error:", error)
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+    })
+  }
+}
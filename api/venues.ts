@@ -1,6 +1,9 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node"
 import { z } from "zod"
 import { supabase, isSupabaseConfigured } from "./_lib/supabase.js"
+import { authorizeRequest } from "./_lib/auth.js"
+import { areaScopeFilter, authorizeAreaScope, getListScope } from "./_lib/area-scope.js"
+import { applyListParams, listMeta, parseListParams, searchFilter } from "./_lib/pagination.js"
 
 interface Venue {
   id: string
@@ -95,6 +98,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     })
   }
 
+  const auth = await authorizeRequest(req, res, { GET: "public", POST: "area_admin" })
+  if (!auth) {
+    return
+  }
+
   const { method, query } = req
 
   try {
@@ -103,7 +111,15 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         // GET /api/venues - Retrieve all venues
         console.log("[v0] GET /api/venues - Fetching all venues")
 
-        const { active, search, rejected } = query
+        const listParams = parseListParams(req, res, {
+          sortable: ["name", "email", "created_at", "updated_at"],
+          defaultSort: "-created_at",
+        })
+        if (!listParams) {
+          return
+        }
+
+        const { active, rejected, managed } = query
         let dbQuery = supabase.from("venues").select(`
           *,
           mailing_address:addresses!mailing_address_id(
@@ -124,7 +140,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
             postal_code,
             country
           )
-        `)
+        `, { count: "exact" })
 
         if (active !== undefined) {
           const isActive = active === "true"
@@ -136,11 +152,16 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           dbQuery = dbQuery.eq("is_rejected", isRejected)
         }
 
-        if (search && typeof search === "string") {
-          dbQuery = dbQuery.or(`name.ilike.%${search}%,email.ilike.%${search}%`)
+        if (listParams.q) {
+          dbQuery = dbQuery.or(searchFilter(["name", "email"], listParams.q))
         }
 
-        const { data, error } = await dbQuery.order("created_at", { ascending: false })
+        const scope = await getListScope(auth, managed === "true")
+        if (scope) {
+          dbQuery = dbQuery.or(areaScopeFilter(scope))
+        }
+
+        const { data, error, count: total } = await applyListParams(dbQuery, listParams)
 
         if (error) {
           console.error("[v0] Database error:", error)
@@ -154,6 +175,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           success: true,
           data: data || [],
           count: data?.length || 0,
+          ...listMeta(listParams, data || [], total),
         })
 
       case "POST":
@@ -162,6 +184,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
         const validatedData = VenueSchema.parse(req.body)
 
+        if (!(await authorizeAreaScope(res, auth, "venues", null, validatedData))) {
+          return
+        }
+
         const { data: newData, error: createError } = await supabase
           .from("venues")
           .insert({
@@ -1,6 +1,8 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node"
 import { z } from "zod"
 import { supabase, isSupabaseConfigured } from "../_lib/supabase.js"
+import { authorizeRequest } from "../_lib/auth.js"
+import { authorizeAreaScope } from "../_lib/area-scope.js"
 
 const VenueUpdateSchema = z.object({
   name: z.string().min(1, "Name is required").optional(),
@@ -41,6 +43,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     })
   }
 
+  const auth = await authorizeRequest(req, res, { GET: "public", PUT: "area_admin", DELETE: "area_admin" })
+  if (!auth) {
+    return
+  }
+
   const { method, query } = req
   const { id } = query
 
@@ -108,6 +115,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
         const validatedData = VenueUpdateSchema.parse(req.body)
 
+        if (!(await authorizeAreaScope(res, auth, "venues", id, validatedData))) {
+          return
+        }
+
         const updateData: any = {}
         Object.keys(validatedData).forEach((key) => {
           const value = (validatedData as any)[key]
@@ -167,6 +178,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         // DELETE /api/venues/[id] - Delete a venue (soft delete)
         console.log(`[v0] DELETE /api/venues/${id} - Soft deleting venue`)
 
+        if (!(await authorizeAreaScope(res, auth, "venues", id))) {
+          return
+        }
+
         const { data: deletedData, error: deleteError } = await supabase
           .from("venues")
           .update({ is_active: false })
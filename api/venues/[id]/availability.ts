@@ -0,0 +1,196 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node"
+import { z } from "zod"
+import { supabase, isSupabaseConfigured } from "../../_lib/supabase.js"
+import { authorizeRequest } from "../../_lib/auth.js"
+import { authorizeAreaScope } from "../../_lib/area-scope.js"
+import { AvailabilityQuerySchema, PeriodSchema, buildVenueAvailability } from "../../_lib/venue-availability.js"
+
+// Without a window the calendar gets the last three months and the coming year
+const DEFAULT_PAST_DAYS = 90
+const DEFAULT_FUTURE_DAYS = 365
+const MAX_WINDOW_DAYS = 731
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Access-Control-Allow-Origin", "*")
+  res.setHeader("Access-Control-Allow-Methods", "GET, POST, PUT, DELETE, OPTIONS")
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization")
+
+  if (req.method === "OPTIONS") {
+    return res.status(200).end()
+  }
+
+  if (!isSupabaseConfigured) {
+    return res.status(500).json({
+      success: false,
+      error: "Database not configured",
+    })
+  }
+
+  const auth = await authorizeRequest(req, res, {
+    GET: "area_admin",
+    POST: "area_admin",
+    PUT: "area_admin",
+    DELETE: "area_admin",
+  })
+  if (!auth) {
+    return
+  }
+
+  const { method, query } = req
+  const venueId = query.id as string
+
+  if (!venueId || !z.string().uuid().safeParse(venueId).success) {
+    return res.status(400).json({
+      success: false,
+      error: "Invalid venue ID format",
+    })
+  }
+
+  try {
+    const { data: venue, error: venueError } = await supabase
+      .from("venues")
+      .select("id, timezone")
+      .eq("id", venueId)
+      .maybeSingle()
+
+    if (venueError) {
+      console.error("[v0] Database error fetching venue:", venueError)
+      throw venueError
+    }
+
+    if (!venue) {
+      return res.status(404).json({
+        success: false,
+        error: "Venue not found",
+      })
+    }
+
+    // Any admin may look at a venue's calendar; only the venue's own area admins may change it
+    if (method !== "GET" && !(await authorizeAreaScope(res, auth, "venues", venueId))) {
+      return
+    }
+
+    switch (method) {
+      case "GET": {
+        // GET /api/venues/[id]/availability?from=&to= - Events, blackouts and holds at the venue, with double bookings
+        console.log(`[v0] GET /api/venues/${venueId}/availability - Fetching venue availability`)
+
+        const window = AvailabilityQuerySchema.parse(query)
+        const now = Date.now()
+        const from = window.from ? new Date(window.from) : new Date(now - DEFAULT_PAST_DAYS * DAY_MS)
+        const to = window.to ? new Date(window.to) : new Date(now + DEFAULT_FUTURE_DAYS * DAY_MS)
+
+        if (to <= from || to.getTime() - from.getTime() > MAX_WINDOW_DAYS * DAY_MS) {
+          return res.status(400).json({
+            success: false,
+            error: `The window must end after it starts and span at most ${MAX_WINDOW_DAYS} days`,
+          })
+        }
+
+        return res.json({
+          success: true,
+          data: await buildVenueAvailability(venue, from, to),
+        })
+      }
+
+      case "POST": {
+        // POST /api/venues/[id]/availability - Record a blackout or hold
+        console.log(`[v0] POST /api/venues/${venueId}/availability - Adding venue period`)
+
+        const period = PeriodSchema.parse(req.body)
+
+        const { data, error } = await supabase
+          .from("venue_periods")
+          .insert({ ...period, venue_id: venueId, created_by: auth.person_id })
+          .select()
+          .single()
+
+        if (error) {
+          console.error("[v0] Database error adding venue period:", error)
+          throw error
+        }
+
+        return res.status(201).json({
+          success: true,
+          data,
+          message: period.kind === "blackout" ? "Blackout recorded" : "Hold placed",
+        })
+      }
+
+      case "PUT": {
+        // PUT /api/venues/[id]/availability?period_id= - Move or relabel a blackout or hold
+        const periodId = z.string().uuid("Invalid period ID").parse(query.period_id)
+        console.log(`[v0] PUT /api/venues/${venueId}/availability - Updating venue period ${periodId}`)
+
+        const period = PeriodSchema.parse(req.body)
+
+        const { data, error } = await supabase
+          .from("venue_periods")
+          .update({ ...period, updated_at: new Date().toISOString() })
+          .eq("id", periodId)
+          .eq("venue_id", venueId)
+          .select()
+          .maybeSingle()
+
+        if (error) {
+          console.error("[v0] Database error updating venue period:", error)
+          throw error
+        }
+
+        if (!data) {
+          return res.status(404).json({
+            success: false,
+            error: "Period not found",
+          })
+        }
+
+        return res.json({
+          success: true,
+          data,
+          message: "Period updated",
+        })
+      }
+
+      case "DELETE": {
+        // DELETE /api/venues/[id]/availability?period_id= - Lift a blackout or release a hold
+        const periodId = z.string().uuid("Invalid period ID").parse(query.period_id)
+        console.log(`[v0] DELETE /api/venues/${venueId}/availability - Removing venue period ${periodId}`)
+
+        const { error } = await supabase.from("venue_periods").delete().eq("id", periodId).eq("venue_id", venueId)
+
+        if (error) {
+          console.error("[v0] Database error removing venue period:", error)
+          throw error
+        }
+
+        return res.json({
+          success: true,
+          message: "Period removed",
+        })
+      }
+
+      default:
+        res.setHeader("Allow", ["GET", "POST", "PUT", "DELETE"])
+        return res.status(405).json({
+          success: false,
+          error: `Method ${method} not allowed`,
+        })
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: "Validation error",
+        details: error.errors,
+      })
+    }
+
+    console.error("[v0] Server error:", error)
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+    })
+  }
+}
@@ -0,0 +1,157 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node"
+import { z } from "zod"
+import { isSupabaseConfigured } from "./_lib/supabase.js"
+import { authorizeRequest } from "./_lib/auth.js"
+import { getAreaScope } from "./_lib/area-scope.js"
+import { pageRows, parseListParams } from "./_lib/pagination.js"
+import {
+  VisitorRequestSchema,
+  VisitorStatusSchema,
+  attachGroups,
+  createVisitorRequest,
+  fetchVisitorGroup,
+  fetchVisitorRequests,
+  hasOpenRequest,
+  visitorInboxFilter,
+  visitorRefusal,
+} from "./_lib/visitor-requests.js"
+
+const ListQuerySchema = z.object({
+  i_group_id: z.string().uuid().optional(),
+  community_id: z.string().uuid().optional(),
+  status: VisitorStatusSchema.optional(),
+  // "true" lists only pending requests past the escalation period
+  overdue: z.enum(["true", "false"]).optional(),
+})
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Access-Control-Allow-Origin", "*")
+  res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS")
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization")
+
+  if (req.method === "OPTIONS") {
+    return res.status(200).end()
+  }
+
+  if (!isSupabaseConfigured) {
+    return res.status(500).json({
+      success: false,
+      error: "Database not configured",
+    })
+  }
+
+  // Anyone may ask to visit from a group's public page; the inbox is for group contacts and admins
+  const auth = await authorizeRequest(req, res, { GET: "warrior", POST: "public" })
+  if (!auth) {
+    return
+  }
+
+  const { method } = req
+
+  try {
+    switch (method) {
+      case "GET": {
+        // GET /api/visitor-requests - Requests for the groups the caller looks after, or escalated to them
+        console.log("[v0] GET /api/visitor-requests - Fetching visitor requests")
+
+        const filters = ListQuerySchema.parse(req.query)
+        const listParams = parseListParams(req, res, {
+          sortable: ["name", "created_at", "days_waiting"],
+          defaultSort: "-created_at",
+        })
+        if (!listParams) {
+          return
+        }
+
+        const inboxFilter = await visitorInboxFilter(auth, await getAreaScope(auth))
+        const requests = await attachGroups(await fetchVisitorRequests(inboxFilter, filters))
+
+        const q = listParams.q?.toLowerCase()
+        const rows = requests
+          .filter((request) => filters.overdue !== "true" || request.is_overdue)
+          .filter(
+            (request) =>
+              !q ||
+              `${request.first_name} ${request.last_name} ${request.i_group?.name || ""}`.toLowerCase().includes(q),
+          )
+          .sort((a, b) => {
+            const order =
+              listParams.sort === "name"
+                ? `${a.last_name} ${a.first_name}`.localeCompare(`${b.last_name} ${b.first_name}`)
+                : listParams.sort === "days_waiting"
+                  ? (a.days_waiting ?? -1) - (b.days_waiting ?? -1)
+                  : (a.created_at || "").localeCompare(b.created_at || "")
+            return listParams.ascending ? order : -order
+          })
+
+        // Paged in memory because overdue and membership are worked out after the query
+        const { rows: page, meta } = pageRows(listParams, rows)
+
+        return res.json({
+          success: true,
+          data: page,
+          count: page.length,
+          ...meta,
+        })
+      }
+
+      case "POST": {
+        // POST /api/visitor-requests - Ask to visit an I-Group
+        const request = VisitorRequestSchema.parse(req.body)
+        console.log(`[v0] POST /api/visitor-requests - Visitor request for I-Group ${request.i_group_id}`)
+
+        const group = await fetchVisitorGroup(request.i_group_id)
+        if (!group) {
+          return res.status(404).json({
+            success: false,
+            error: "Integration group not found",
+          })
+        }
+
+        const refusal = visitorRefusal(group, request.is_initiated)
+        if (refusal) {
+          return res.status(400).json({
+            success: false,
+            error: refusal,
+          })
+        }
+
+        if (await hasOpenRequest(group.id, request.email)) {
+          return res.status(409).json({
+            success: false,
+            error: "You have already asked to visit this group; its contact will be in touch",
+          })
+        }
+
+        const created = await createVisitorRequest(auth, group, request)
+
+        return res.status(201).json({
+          success: true,
+          data: { id: created.id, status: created.status },
+          message: `Thanks, ${created.first_name}. Your request has been sent to ${group.name}, and someone will be in touch soon.`,
+        })
+      }
+
+      default:
+        res.setHeader("Allow", ["GET", "POST"])
+        return res.status(405).json({
+          success: false,
+          error: `Method ${method} not allowed`,
+        })
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: "Validation error",
+        details: error.errors,
+      })
+    }
+
+    console.error("[v0] Server error:", error)
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+    })
+  }
+}
@@ -0,0 +1,112 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node"
+import { z } from "zod"
+import { isSupabaseConfigured } from "../_lib/supabase.js"
+import { authorizeRequest } from "../_lib/auth.js"
+import {
+  VisitorUpdateSchema,
+  attachGroups,
+  fetchVisitorGroup,
+  fetchVisitorRequest,
+  managesVisitorRequest,
+  updateVisitorRequest,
+} from "../_lib/visitor-requests.js"
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Access-Control-Allow-Origin", "*")
+  res.setHeader("Access-Control-Allow-Methods", "GET, PUT, OPTIONS")
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization")
+
+  if (req.method === "OPTIONS") {
+    return res.status(200).end()
+  }
+
+  if (!isSupabaseConfigured) {
+    return res.status(500).json({
+      success: false,
+      error: "Database not configured",
+    })
+  }
+
+  const auth = await authorizeRequest(req, res, { GET: "warrior", PUT: "warrior" })
+  if (!auth) {
+    return
+  }
+
+  const { method, query } = req
+  const id = query.id as string
+
+  if (!id || !z.string().uuid().safeParse(id).success) {
+    return res.status(400).json({
+      success: false,
+      error: "Invalid visitor request ID format",
+    })
+  }
+
+  try {
+    const request = await fetchVisitorRequest(id)
+    if (!request) {
+      return res.status(404).json({
+        success: false,
+        error: "Visitor request not found",
+      })
+    }
+
+    const group = await fetchVisitorGroup(request.i_group_id)
+    if (!(await managesVisitorRequest(auth, request, group))) {
+      return res.status(403).json({
+        success: false,
+        error: "Only the group's contacts, its community coordinator and area admins can see this request",
+      })
+    }
+
+    switch (method) {
+      case "GET": {
+        // GET /api/visitor-requests/[id] - One visitor request
+        console.log(`[v0] GET /api/visitor-requests/${id} - Fetching visitor request`)
+
+        const [data] = await attachGroups([request])
+
+        return res.json({
+          success: true,
+          data,
+        })
+      }
+
+      case "PUT": {
+        // PUT /api/visitor-requests/[id] - Accept, decline or record attendance; reassign or link to a person
+        console.log(`[v0] PUT /api/visitor-requests/${id} - Updating visitor request`)
+
+        const update = VisitorUpdateSchema.parse(req.body)
+        const updated = await updateVisitorRequest(auth, request, update)
+        const [data] = await attachGroups([updated])
+
+        return res.json({
+          success: true,
+          data,
+          message: "Visitor request updated",
+        })
+      }
+
+      default:
+        res.setHeader("Allow", ["GET", "PUT"])
+        return res.status(405).json({
+          success: false,
+          error: `Method ${method} not allowed`,
+        })
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: "Validation error",
+        details: error.errors,
+      })
+    }
+
+    console.error("[v0] Server error:", error)
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+    })
+  }
+}
@@ -0,0 +1,56 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node"
+import { isSupabaseConfigured } from "../_lib/supabase.js"
+import { authorizeRequest, isCronRequest } from "../_lib/auth.js"
+import { escalateOverdueRequests, escalationDays } from "../_lib/visitor-requests.js"
+
+// Vercel Cron calls GET; national admins can also POST to escalate now
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Access-Control-Allow-Origin", "*")
+  res.setHeader("Access-Control-Allow-Methods", "POST, OPTIONS")
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization")
+
+  if (req.method === "OPTIONS") {
+    return res.status(200).end()
+  }
+
+  if (!isSupabaseConfigured) {
+    return res.status(500).json({
+      success: false,
+      error: "Database not configured",
+    })
+  }
+
+  if (!(req.method === "GET" && isCronRequest(req))) {
+    const auth = await authorizeRequest(req, res, { POST: "national_admin" })
+    if (!auth) {
+      return
+    }
+
+    if (req.method !== "POST") {
+      res.setHeader("Allow", ["POST"])
+      return res.status(405).json({
+        success: false,
+        error: `Method ${req.method} not allowed`,
+      })
+    }
+  }
+
+  try {
+    // POST /api/visitor-requests/escalate - Hand unanswered visitor requests to community coordinators
+    console.log("[v0] /api/visitor-requests/escalate - Escalating overdue visitor requests")
+
+    const escalated = await escalateOverdueRequests()
+
+    return res.json({
+      success: true,
+      data: { escalated, escalate_after_days: escalationDays() },
+      message: `Escalated ${escalated} visitor requests`,
+    })
+  } catch (error) {
+    console.error("[v0] Server error:", error)
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+    })
+  }
+}
@@ -0,0 +1,72 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node"
+import { supabase, isSupabaseConfigured } from "../_lib/supabase.js"
+import { authorizeRequest } from "../_lib/auth.js"
+import { areaScopeFilter, getAreaScope } from "../_lib/area-scope.js"
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Access-Control-Allow-Origin", "*")
+  res.setHeader("Access-Control-Allow-Methods", "GET, OPTIONS")
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization")
+
+  if (req.method === "OPTIONS") {
+    return res.status(200).end()
+  }
+
+  if (!isSupabaseConfigured) {
+    return res.status(500).json({
+      success: false,
+      error: "Database not configured",
+    })
+  }
+
+  const auth = await authorizeRequest(req, res, { GET: "area_admin" })
+  if (!auth) {
+    return
+  }
+
+  if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET"])
+    return res.status(405).json({
+      success: false,
+      error: `Method ${req.method} not allowed`,
+    })
+  }
+
+  try {
+    const scope = await getAreaScope(auth)
+
+    // Get total count
+    let totalQuery = supabase.from("visitor_requests").select("*", { count: "exact", head: true })
+    if (scope) totalQuery = totalQuery.or(areaScopeFilter(scope))
+    const { count: total, error: totalError } = await totalQuery
+
+    if (totalError) throw totalError
+
+    // Active means still waiting on an answer from the group
+    let activeQuery = supabase
+      .from("visitor_requests")
+      .select("*", { count: "exact", head: true })
+      .eq("status", "pending")
+    if (scope) activeQuery = activeQuery.or(areaScopeFilter(scope))
+    const { count: active, error: activeError } = await activeQuery
+
+    if (activeError) throw activeError
+
+    const inactive = (total || 0) - (active || 0)
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        active: active || 0,
+        inactive: inactive || 0,
+        total: total || 0,
+      },
+    })
+  } catch (error) {
+    console.error("Error fetching visitor request stats:", error)
+    return res.status(500).json({
+      success: false,
+      error: "Failed to fetch visitor request stats",
+    })
+  }
+}
@@ -1,6 +1,10 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node"
 import { z } from "zod"
 import { supabase, isSupabaseConfigured } from "./_lib/supabase.js"
+import { authorizeRequest } from "./_lib/auth.js"
+import { recordRecordChange } from "./_lib/activity-log.js"
+import { areaScopeFilter, authorizeAreaScope, getListScope } from "./_lib/area-scope.js"
+import { applyListParams, listMeta, parseListParams, searchFilter } from "./_lib/pagination.js"
 import type { Warrior } from "../src/types/person"
 import type { Area } from "../src/types/area"
 import type { Community } from "../src/types/community"
@@ -65,6 +69,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     })
   }
 
+  const auth = await authorizeRequest(req, res, { GET: "warrior", POST: "area_admin" })
+  if (!auth) {
+    return
+  }
+
   const { method, query } = req
 
   try {
@@ -72,7 +81,15 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       case "GET":
         console.log("[v0] GET /api/warriors - Fetching all warriors")
 
-        const { active, status, search } = query
+        const listParams = parseListParams(req, res, {
+          sortable: ["first_name", "last_name", "email", "created_at", "updated_at"],
+          defaultSort: "-created_at",
+        })
+        if (!listParams) {
+          return
+        }
+
+        const { active, status, managed } = query
         let dbQuery = supabase.from("people").select(`
             id,
             first_name,
@@ -159,7 +176,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
               ),
               primary_leader:people(id, first_name, last_name)
             ))
-          `)
+          `, { count: "exact" })
 
         if (active !== undefined) {
           const isActive = active === "true"
@@ -170,14 +187,17 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           dbQuery = dbQuery.eq("warriors.status", status)
         }
 
-        if (search && typeof search === "string") {
-          const searchTerm = search.trim()
-          if (searchTerm.length > 0) {
-            dbQuery = dbQuery.or(`first_name.ilike.*${searchTerm}*,last_name.ilike.*${searchTerm}*`)
-          }
+        if (listParams.q) {
+          dbQuery = dbQuery.or(searchFilter(["first_name", "last_name", "email"], listParams.q))
         }
 
-        const { data, error } = await dbQuery.order("created_at", { ascending: false })
+        // Area admins asking for the warriors they manage only get their own areas' warriors
+        const scope = await getListScope(auth, managed === "true")
+        if (scope) {
+          dbQuery = dbQuery.or(areaScopeFilter(scope), { referencedTable: "warriors" })
+        }
+
+        const { data, error, count: total } = await applyListParams(dbQuery, listParams)
 
         if (error) {
           console.error("[v0] Database error:", error)
@@ -271,6 +291,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           success: true,
           data: transformedData,
           count: transformedData.length,
+          ...listMeta(listParams, data || [], total),
         })
 
       case "POST":
@@ -278,6 +299,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
         const validatedData = WarriorSchema.parse(req.body)
 
+        if (!(await authorizeAreaScope(res, auth, "warriors", null, validatedData))) {
+          return
+        }
+
         if (validatedData.initiation_id) {
           const { data: eventExists, error: eventError } = await supabase
             .from("events")
@@ -323,7 +348,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           .from("warriors")
           .insert({
             id: personData.id,
-            log_id: validatedData.log_id || null,
+            log_id: validatedData.log_id || undefined,
             initiation_id: validatedData.initiation_id || null,
             initiation_on: validatedData.initiation_on || null,
             initiation_text: validatedData.initiation_text || null,
@@ -508,6 +533,13 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
             : undefined,
         }
 
+        await recordRecordChange(auth, {
+          logId: transformedNewData.log_id,
+          entity: "Warrior",
+          action: "created",
+          after: transformedNewData,
+        })
+
         return res.status(201).json({
           success: true,
           data: transformedNewData,
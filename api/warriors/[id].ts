@@ -1,6 +1,10 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node"
 import { z } from "zod"
 import { supabase, isSupabaseConfigured } from "../_lib/supabase.js"
+import { authorizeRequest } from "../_lib/auth.js"
+import { recordRecordChange, snapshotPersonRecord } from "../_lib/activity-log.js"
+import { authorizeAreaScope } from "../_lib/area-scope.js"
+import { recordStatusChange } from "../_lib/advancement.js"
 
 const WarriorUpdateSchema = z.object({
   first_name: z.string().min(1).optional(),
@@ -18,6 +22,7 @@ const WarriorUpdateSchema = z.object({
   initiation_on: z.string().optional().nullable(),
   initiation_text: z.string().optional().nullable(),
   status: z.string().optional(),
+  status_justification: z.string().trim().optional(),
   training_events: z.array(z.string().uuid()).optional(),
   staffed_events: z.array(z.string().uuid()).optional(),
   lead_events: z.array(z.string().uuid()).optional(),
@@ -43,6 +48,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     })
   }
 
+  const auth = await authorizeRequest(req, res, { GET: "warrior", PUT: "area_admin", DELETE: "area_admin" })
+  if (!auth) {
+    return
+  }
+
   const { method, query } = req
   const { id } = query
 
@@ -243,6 +253,20 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
         const validatedData = WarriorUpdateSchema.parse(req.body)
 
+        if (!(await authorizeAreaScope(res, auth, "warriors", id, validatedData))) {
+          return
+        }
+
+        const warriorBefore = await snapshotPersonRecord("warriors", id)
+
+        const statusChanged = validatedData.status !== undefined && validatedData.status !== warriorBefore?.status
+        if (statusChanged && !validatedData.status_justification) {
+          return res.status(400).json({
+            success: false,
+            error: "A justification is required to change a warrior's status",
+          })
+        }
+
         if (validatedData.initiation_id) {
           const { data: eventExists, error: eventError } = await supabase
             .from("events")
@@ -508,6 +532,23 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
             : undefined,
         }
 
+        await recordRecordChange(auth, {
+          logId: transformedUpdatedData.log_id,
+          entity: "Warrior",
+          action: "updated",
+          before: warriorBefore,
+          after: transformedUpdatedData,
+        })
+
+        if (statusChanged && warriorBefore) {
+          await recordStatusChange(
+            auth,
+            warriorBefore,
+            validatedData.status as string,
+            validatedData.status_justification as string,
+          )
+        }
+
         return res.json({
           success: true,
           data: transformedUpdatedData,
@@ -517,6 +558,12 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       case "DELETE":
         console.log(`[v0] DELETE /api/warriors/${id} - Deleting warrior`)
 
+        if (!(await authorizeAreaScope(res, auth, "warriors", id))) {
+          return
+        }
+
+        const warriorToDelete = await snapshotPersonRecord("warriors", id)
+
         const { error: deleteWarriorError } = await supabase.from("warriors").delete().eq("id", id)
 
         if (deleteWarriorError) {
@@ -537,6 +584,15 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           })
         }
 
+        if (warriorToDelete) {
+          await recordRecordChange(auth, {
+            logId: warriorToDelete.log_id,
+            entity: "Warrior",
+            action: "deleted",
+            before: warriorToDelete,
+          })
+        }
+
         return res.json({
           success: true,
           message: "Warrior deleted successfully",
@@ -0,0 +1,144 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node"
+import { z } from "zod"
+import { supabase, isSupabaseConfigured } from "../../_lib/supabase.js"
+import { authorizeRequest } from "../../_lib/auth.js"
+import { authorizeAreaScope } from "../../_lib/area-scope.js"
+import { StatusChangeSchema, fetchWarriorAdvancement, recordStatusChange } from "../../_lib/advancement.js"
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Access-Control-Allow-Origin", "*")
+  res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS")
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization")
+
+  if (req.method === "OPTIONS") {
+    return res.status(200).end()
+  }
+
+  if (!isSupabaseConfigured) {
+    return res.status(500).json({
+      success: false,
+      error: "Database not configured",
+    })
+  }
+
+  const auth = await authorizeRequest(req, res, { GET: "warrior", POST: "area_admin" })
+  if (!auth) {
+    return
+  }
+
+  const { method } = req
+  const warriorId = req.query.id as string
+
+  if (!warriorId || !z.string().uuid().safeParse(warriorId).success) {
+    return res.status(400).json({
+      success: false,
+      error: "Invalid warrior ID format",
+    })
+  }
+
+  try {
+    switch (method) {
+      case "GET":
+        // GET /api/warriors/[id]/advancement - Progress against the advancement criteria
+        console.log(`[v0] GET /api/warriors/${warriorId}/advancement - Measuring advancement progress`)
+
+        const advancement = await fetchWarriorAdvancement(warriorId)
+
+        if (!advancement) {
+          return res.status(404).json({
+            success: false,
+            error: "Warrior not found",
+          })
+        }
+
+        return res.json({
+          success: true,
+          data: advancement,
+        })
+
+      case "POST":
+        // POST /api/warriors/[id]/advancement - Change the warrior's status, with a justification
+        console.log(`[v0] POST /api/warriors/${warriorId}/advancement - Changing warrior status`)
+
+        const { status, justification } = StatusChangeSchema.parse(req.body)
+
+        if (!(await authorizeAreaScope(res, auth, "warriors", warriorId))) {
+          return
+        }
+
+        const { data: warrior, error: warriorError } = await supabase
+          .from("warriors")
+          .select("id, log_id, status")
+          .eq("id", warriorId)
+          .maybeSingle()
+
+        if (warriorError) {
+          console.error("[v0] Database error:", warriorError)
+          return res.status(500).json({
+            success: false,
+            error: "Failed to fetch warrior",
+          })
+        }
+
+        if (!warrior) {
+          return res.status(404).json({
+            success: false,
+            error: "Warrior not found",
+          })
+        }
+
+        if (warrior.status === status) {
+          return res.status(400).json({
+            success: false,
+            error: `Warrior is already ${status}`,
+          })
+        }
+
+        // Measure against the criteria before the change, so the record shows what the decision was based on
+        const before = await fetchWarriorAdvancement(warriorId)
+        const progress = before?.ladder.find((criteria) => criteria.status === status) || null
+
+        const { error: updateError } = await supabase
+          .from("warriors")
+          .update({ status, updated_at: new Date().toISOString() })
+          .eq("id", warriorId)
+
+        if (updateError) {
+          console.error("[v0] Warrior update error:", updateError)
+          return res.status(500).json({
+            success: false,
+            error: "Failed to update warrior status",
+          })
+        }
+
+        await recordStatusChange(auth, warrior, status, justification, progress)
+
+        return res.json({
+          success: true,
+          data: await fetchWarriorAdvancement(warriorId),
+          message: `Warrior status changed to ${status}`,
+        })
+
+      default:
+        res.setHeader("Allow", ["GET", "POST"])
+        return res.status(405).json({
+          success: false,
+          error: `Method ${method} not allowed`,
+        })
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: "Validation error",
+        details: error.errors,
+      })
+    }
+
+    console.error("[v0] Server error:", error)
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+    })
+  }
+}
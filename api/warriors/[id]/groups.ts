@@ -0,0 +1,63 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node"
+import { z } from "zod"
+import { isSupabaseConfigured } from "../../_lib/supabase.js"
+import { authorizeRequest } from "../../_lib/auth.js"
+import { fetchGroupHistory } from "../../_lib/group-roster.js"
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Access-Control-Allow-Origin", "*")
+  res.setHeader("Access-Control-Allow-Methods", "GET, OPTIONS")
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization")
+
+  if (req.method === "OPTIONS") {
+    return res.status(200).end()
+  }
+
+  if (!isSupabaseConfigured) {
+    return res.status(500).json({
+      success: false,
+      error: "Database not configured",
+    })
+  }
+
+  const auth = await authorizeRequest(req, res, { GET: "warrior" })
+  if (!auth) {
+    return
+  }
+
+  if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET"])
+    return res.status(405).json({
+      success: false,
+      error: `Method ${req.method} not allowed`,
+    })
+  }
+
+  const warriorId = req.query.id as string
+
+  if (!warriorId || !z.string().uuid().safeParse(warriorId).success) {
+    return res.status(400).json({
+      success: false,
+      error: "Invalid warrior ID format",
+    })
+  }
+
+  try {
+    // GET /api/warriors/[id]/groups - I-Groups the warrior has belonged to, with dates and roles
+    console.log(`[v0] GET /api/warriors/${warriorId}/groups - Fetching group history`)
+
+    const history = await fetchGroupHistory(warriorId)
+
+    return res.json({
+      success: true,
+      data: history,
+      count: history.length,
+    })
+  } catch (error) {
+    console.error("[v0] Server error:", error)
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+    })
+  }
+}
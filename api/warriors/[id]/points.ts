@@ -0,0 +1,79 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node"
+import { z } from "zod"
+import { isSupabaseConfigured } from "../../_lib/supabase.js"
+import { authorizeRequest } from "../../_lib/auth.js"
+import { WindowMonthsSchema, fetchWarriorPoints } from "../../_lib/warrior-points.js"
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Access-Control-Allow-Origin", "*")
+  res.setHeader("Access-Control-Allow-Methods", "GET, OPTIONS")
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization")
+
+  if (req.method === "OPTIONS") {
+    return res.status(200).end()
+  }
+
+  if (!isSupabaseConfigured) {
+    return res.status(500).json({
+      success: false,
+      error: "Database not configured",
+    })
+  }
+
+  const auth = await authorizeRequest(req, res, { GET: "warrior" })
+  if (!auth) {
+    return
+  }
+
+  if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET"])
+    return res.status(405).json({
+      success: false,
+      error: `Method ${req.method} not allowed`,
+    })
+  }
+
+  const warriorId = req.query.id as string
+
+  if (!warriorId || !z.string().uuid().safeParse(warriorId).success) {
+    return res.status(400).json({
+      success: false,
+      error: "Invalid warrior ID format",
+    })
+  }
+
+  try {
+    // GET /api/warriors/[id]/points[?months=24] - Work and preparation points ledger
+    console.log(`[v0] GET /api/warriors/${warriorId}/points - Building points ledger`)
+
+    const months = WindowMonthsSchema.parse(req.query.months)
+    const points = await fetchWarriorPoints(warriorId, months)
+
+    if (!points) {
+      return res.status(404).json({
+        success: false,
+        error: "Warrior not found",
+      })
+    }
+
+    return res.json({
+      success: true,
+      data: points,
+      count: points.entries.length,
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: "Validation error",
+        details: error.errors,
+      })
+    }
+
+    console.error("[v0] Server error:", error)
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+    })
+  }
+}
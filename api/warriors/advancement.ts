@@ -0,0 +1,54 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node"
+import { isSupabaseConfigured } from "../_lib/supabase.js"
+import { authorizeRequest } from "../_lib/auth.js"
+import { getAreaScope } from "../_lib/area-scope.js"
+import { fetchEligibleWarriors } from "../_lib/advancement.js"
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Access-Control-Allow-Origin", "*")
+  res.setHeader("Access-Control-Allow-Methods", "GET, OPTIONS")
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization")
+
+  if (req.method === "OPTIONS") {
+    return res.status(200).end()
+  }
+
+  if (!isSupabaseConfigured) {
+    return res.status(500).json({
+      success: false,
+      error: "Database not configured",
+    })
+  }
+
+  const auth = await authorizeRequest(req, res, { GET: "area_admin" })
+  if (!auth) {
+    return
+  }
+
+  if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET"])
+    return res.status(405).json({
+      success: false,
+      error: `Method ${req.method} not allowed`,
+    })
+  }
+
+  try {
+    // GET /api/warriors/advancement - Warriors in the caller's areas who are eligible for promotion
+    console.log("[v0] GET /api/warriors/advancement - Finding warriors eligible for promotion")
+
+    const eligible = await fetchEligibleWarriors(await getAreaScope(auth))
+
+    return res.json({
+      success: true,
+      data: eligible,
+      count: eligible.length,
+    })
+  } catch (error) {
+    console.error("[v0] Server error:", error)
+    return res.status(500).json({
+      success: false,
+      error: "Internal server error",
+    })
+  }
+}
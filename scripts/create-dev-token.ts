@@ -0,0 +1,105 @@
+#!/usr/bin/env tsx
+
+/*
+ * Creates a local RSA key pair and signs an access token with it, so the /api request guard
+ * (api/_lib/auth.ts) can be exercised without a real Auth0 tenant.
+ *
+ * Usage:
+ *   pnpm create:dev-token --sub "auth0|12345" [--email someone@example.com] [--hours 12]
+ *
+ * The script prints an AUTH0_JWKS value for your .env and a bearer token. The key pair is kept
+ * in scripts/data/dev-jwt-key.json so that tokens minted on later runs keep verifying.
+ */
+
+import * as fs from "node:fs/promises"
+import * as path from "node:path"
+import { fileURLToPath } from "node:url"
+import { config } from "dotenv"
+import { exportJWK, generateKeyPair, importJWK, SignJWT, type JWK } from "jose"
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = path.dirname(__filename)
+
+const KEY_FILE = path.join(__dirname, "data", "dev-jwt-key.json")
+const KEY_ID = "emma-dev-key"
+
+interface StoredKeyPair {
+  publicJwk: JWK
+  privateJwk: JWK
+}
+
+async function loadOrCreateKeyPair(): Promise<StoredKeyPair> {
+  try {
+    return JSON.parse(await fs.readFile(KEY_FILE, "utf-8")) as StoredKeyPair
+  } catch {
+    const { publicKey, privateKey } = await generateKeyPair("RS256", { extractable: true })
+    const stored: StoredKeyPair = {
+      publicJwk: { ...(await exportJWK(publicKey)), kid: KEY_ID, alg: "RS256", use: "sig" },
+      privateJwk: { ...(await exportJWK(privateKey)), kid: KEY_ID, alg: "RS256" },
+    }
+    await fs.mkdir(path.dirname(KEY_FILE), { recursive: true })
+    await fs.writeFile(KEY_FILE, JSON.stringify(stored, null, 2))
+    console.log(`Created new key pair: ${KEY_FILE}`)
+    return stored
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2)
+
+  let envFilePath = ".env"
+  let sub: string | null = null
+  let email: string | null = null
+  let hours = 12
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]
+    if (arg === "--sub") {
+      sub = args[++i]
+    } else if (arg === "--email") {
+      email = args[++i]
+    } else if (arg === "--hours") {
+      hours = parseInt(args[++i], 10)
+    } else if (!arg.startsWith("--")) {
+      envFilePath = arg
+    }
+  }
+
+  if (!sub) {
+    console.error("Error: --sub is required (the auth0_user.sub of an emma_users row)")
+    process.exit(1)
+  }
+
+  config({ path: path.isAbsolute(envFilePath) ? envFilePath : path.resolve(process.cwd(), envFilePath) })
+
+  const domain = process.env.AUTH0_DOMAIN || process.env.VITE_AUTH0_DOMAIN || "emma.local"
+  const issuer = process.env.AUTH0_ISSUER || `https://${domain}/`
+  const audience = process.env.AUTH0_AUDIENCE
+
+  const { publicJwk, privateJwk } = await loadOrCreateKeyPair()
+  const privateKey = await importJWK(privateJwk, "RS256")
+
+  let jwt = new SignJWT(email ? { email } : {})
+    .setProtectedHeader({ alg: "RS256", kid: KEY_ID })
+    .setSubject(sub)
+    .setIssuer(issuer)
+    .setIssuedAt()
+    .setExpirationTime(`${hours}h`)
+  if (audience) {
+    jwt = jwt.setAudience(audience)
+  }
+  const token = await jwt.sign(privateKey)
+
+  console.log("\nAdd this to the .env used by the API:\n")
+  console.log(`AUTH0_JWKS='${JSON.stringify({ keys: [publicJwk] })}'`)
+  if (!process.env.AUTH0_DOMAIN && !process.env.AUTH0_ISSUER) {
+    console.log(`AUTH0_ISSUER=${issuer}`)
+  }
+  console.log("\nThen call the API with:\n")
+  console.log(`Authorization: Bearer ${token}`)
+}
+
+main().catch((error) => {
+  console.error("Fatal error:", error)
+  process.exit(1)
+})
@@ -0,0 +1,6 @@
+alter table public.emma_users
+  add column if not exists is_national_admin boolean not null default false;
+
+create index IF not exists idx_emma_users_auth0_sub on public.emma_users using btree (((auth0_user ->> 'sub'::text))) TABLESPACE pg_default;
+
+create index IF not exists idx_emma_users_is_national_admin on public.emma_users using btree (is_national_admin) TABLESPACE pg_default;
@@ -0,0 +1,7 @@
+alter table public.prospects
+  add column if not exists area_id uuid null references areas (id),
+  add column if not exists community_id uuid null references communities (id);
+
+create index IF not exists idx_prospects_area_id on public.prospects using btree (area_id) TABLESPACE pg_default;
+
+create index IF not exists idx_prospects_community_id on public.prospects using btree (community_id) TABLESPACE pg_default;
@@ -0,0 +1,40 @@
+-- activity_logs.log_id groups the entries belonging to one record, so a record's log_id is a
+-- grouping key rather than the id of a single activity_logs row.
+alter table public.prospects drop constraint if exists prospects_new_log_id_fkey;
+
+alter table public.registrants drop constraint if exists registrants_new_log_id_fkey;
+
+alter table public.people
+  add column if not exists log_id uuid null default gen_random_uuid ();
+
+alter table public.events
+  add column if not exists log_id uuid null default gen_random_uuid ();
+
+alter table public.groups
+  add column if not exists log_id uuid null default gen_random_uuid ();
+
+alter table public.prospects alter column log_id set default gen_random_uuid ();
+
+alter table public.registrants alter column log_id set default gen_random_uuid ();
+
+alter table public.i_groups alter column log_id set default gen_random_uuid ();
+
+update public.people set log_id = gen_random_uuid () where log_id is null;
+
+update public.events set log_id = gen_random_uuid () where log_id is null;
+
+update public.groups set log_id = gen_random_uuid () where log_id is null;
+
+update public.prospects set log_id = gen_random_uuid () where log_id is null;
+
+update public.registrants set log_id = gen_random_uuid () where log_id is null;
+
+update public.warriors set log_id = gen_random_uuid () where log_id is null;
+
+update public.i_groups set log_id = gen_random_uuid () where log_id is null;
+
+create index IF not exists idx_people_log_id on public.people using btree (log_id) TABLESPACE pg_default;
+
+create index IF not exists idx_events_log_id on public.events using btree (log_id) TABLESPACE pg_default;
+
+create index IF not exists idx_groups_log_id on public.groups using btree (log_id) TABLESPACE pg_default;
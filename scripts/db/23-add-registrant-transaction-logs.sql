@@ -0,0 +1,6 @@
+-- Each registrant gets a transaction log of their own for payments against their payment plan
+-- (see api/_lib/payment-plans.ts). registrants.payment_plan points at the activity_logs entry
+-- holding the current plan.
+alter table public.registrants alter column transaction_log set default gen_random_uuid ();
+
+update public.registrants set transaction_log = gen_random_uuid () where transaction_log is null;
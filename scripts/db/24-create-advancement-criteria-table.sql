@@ -0,0 +1,31 @@
+-- What a warrior must have done to move from from_status to status (see api/_lib/advancement.ts).
+-- role_type_requirements is [{ "role_type_id": uuid, "count": n }]: NWTAs staffed in that role type.
+-- training_requirements is [{ "event_type_id": uuid, "count": n }]: trainings attended of that type.
+create table public.advancement_criteria (
+  id uuid not null default gen_random_uuid (),
+  status character varying(50) not null,
+  from_status character varying(50) not null,
+  summary text null,
+  min_staffed integer not null default 0,
+  role_type_requirements jsonb not null default '[]'::jsonb,
+  min_lead integer not null default 0,
+  training_requirements jsonb not null default '[]'::jsonb,
+  min_months_initiated integer not null default 0,
+  is_active boolean null default true,
+  created_at timestamp with time zone null default now(),
+  updated_at timestamp with time zone null default now(),
+  deleted_at timestamp with time zone null,
+  constraint advancement_criteria_pkey primary key (id),
+  constraint advancement_criteria_status_unique unique (status)
+) TABLESPACE pg_default;
+
+create index IF not exists idx_advancement_criteria_from_status on public.advancement_criteria using btree (from_status) TABLESPACE pg_default;
+
+create index IF not exists idx_advancement_criteria_active on public.advancement_criteria using btree (is_active) TABLESPACE pg_default;
+
+insert into public.advancement_criteria (status, from_status, summary, min_staffed, min_lead, min_months_initiated)
+values
+  ('staff', 'initiated', 'Has staffed an NWTA', 1, 0, 0),
+  ('leader_track', 'staff', 'Experienced staff ready to begin leader training', 5, 1, 24),
+  ('full_leader', 'leader_track', 'Completed the leader track', 10, 3, 48)
+on conflict (status) do nothing;
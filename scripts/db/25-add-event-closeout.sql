@@ -0,0 +1,9 @@
+-- Closing out an event copies its roster into warrior histories (see api/_lib/event-closeout.ts).
+-- closeout records exactly what the close-out changed, so reopening the event can undo it.
+alter table public.events
+  add column if not exists closed_at timestamp with time zone null;
+
+alter table public.events
+  add column if not exists closeout jsonb null;
+
+create index IF not exists idx_events_closed_at on public.events using btree (closed_at) TABLESPACE pg_default;
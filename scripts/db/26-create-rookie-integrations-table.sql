@@ -0,0 +1,37 @@
+-- A new warrior's path from their NWTA into an I-Group (see api/_lib/rookie-integration.ts).
+-- Each stage is recorded as the date it was reached; the current stage is the furthest one with a date.
+create table public.rookie_integrations (
+  id uuid not null default gen_random_uuid (),
+  log_id uuid null default gen_random_uuid (),
+  warrior_id uuid not null,
+  nwta_event_id uuid null,
+  owner_id uuid null,
+  area_id uuid null,
+  community_id uuid null,
+  contacted_on date null,
+  attended_on date null,
+  attended_i_group_id uuid null,
+  joined_on date null,
+  joined_i_group_id uuid null,
+  completed_on date null,
+  notes text null,
+  created_at timestamp with time zone null default now(),
+  updated_at timestamp with time zone null default now(),
+  constraint rookie_integrations_pkey primary key (id),
+  constraint rookie_integrations_warrior_unique unique (warrior_id),
+  constraint rookie_integrations_warrior_id_fkey foreign KEY (warrior_id) references warriors (id) on delete CASCADE,
+  constraint rookie_integrations_nwta_event_id_fkey foreign KEY (nwta_event_id) references events (id) on delete set null,
+  constraint rookie_integrations_owner_id_fkey foreign KEY (owner_id) references people (id) on delete set null,
+  constraint rookie_integrations_area_id_fkey foreign KEY (area_id) references areas (id) on delete set null,
+  constraint rookie_integrations_community_id_fkey foreign KEY (community_id) references communities (id) on delete set null,
+  constraint rookie_integrations_attended_i_group_id_fkey foreign KEY (attended_i_group_id) references i_groups (id) on delete set null,
+  constraint rookie_integrations_joined_i_group_id_fkey foreign KEY (joined_i_group_id) references i_groups (id) on delete set null
+) TABLESPACE pg_default;
+
+create index IF not exists idx_rookie_integrations_nwta_event_id on public.rookie_integrations using btree (nwta_event_id) TABLESPACE pg_default;
+
+create index IF not exists idx_rookie_integrations_owner_id on public.rookie_integrations using btree (owner_id) TABLESPACE pg_default;
+
+create index IF not exists idx_rookie_integrations_area_id on public.rookie_integrations using btree (area_id) TABLESPACE pg_default;
+
+create index IF not exists idx_rookie_integrations_community_id on public.rookie_integrations using btree (community_id) TABLESPACE pg_default;
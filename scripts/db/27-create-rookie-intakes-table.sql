@@ -0,0 +1,37 @@
+-- NWTA intake for each rookie: emergency contacts, medical and dietary information and the signed
+-- waiver (see api/_lib/rookie-intake.ts). Only the NWTA's leaders, staff in a medical role and the
+-- rookie themselves can read it, and rows are purged a set number of days after the NWTA ends.
+-- emergency_contacts is [{ "name", "relationship", "phone", "email" }].
+-- medications is [{ "name", "dosage", "schedule", "notes" }].
+create table public.rookie_intakes (
+  id uuid not null default gen_random_uuid (),
+  nwta_event_id uuid not null,
+  person_id uuid not null,
+  emergency_contacts jsonb not null default '[]'::jsonb,
+  medical_conditions text null,
+  allergies text null,
+  dietary_needs text null,
+  medications jsonb not null default '[]'::jsonb,
+  medical_notes text null,
+  waiver_version text null,
+  waiver_signed_name text null,
+  waiver_signed_at timestamp with time zone null,
+  waiver_recorded_by uuid null,
+  created_at timestamp with time zone null default now(),
+  updated_at timestamp with time zone null default now(),
+  constraint rookie_intakes_pkey primary key (id),
+  constraint rookie_intakes_event_person_unique unique (nwta_event_id, person_id),
+  constraint rookie_intakes_nwta_event_id_fkey foreign KEY (nwta_event_id) references events (id) on delete CASCADE,
+  constraint rookie_intakes_person_id_fkey foreign KEY (person_id) references people (id) on delete CASCADE,
+  constraint rookie_intakes_waiver_recorded_by_fkey foreign KEY (waiver_recorded_by) references people (id) on delete set null
+) TABLESPACE pg_default;
+
+create index IF not exists idx_rookie_intakes_nwta_event_id on public.rookie_intakes using btree (nwta_event_id) TABLESPACE pg_default;
+
+create index IF not exists idx_rookie_intakes_person_id on public.rookie_intakes using btree (person_id) TABLESPACE pg_default;
+
+-- Staff holding a role of a medical role type on an NWTA may read its rookies' intake
+alter table public.nwta_role_types
+  add column if not exists is_medical boolean not null default false;
+
+update public.nwta_role_types set is_medical = true where name ilike '%medic%';
@@ -0,0 +1,37 @@
+-- Enrollment funnel for prospects (see api/_lib/prospect-funnel.ts).
+-- stage is where the prospect stands: inquiry, intro_call, attended_open_event, registered, initiated.
+-- last_contact_at is set by each enrollment conversation recorded on the prospect's activity log.
+alter table public.prospects
+  add column if not exists stage character varying(32) not null default 'inquiry';
+
+alter table public.prospects
+  add column if not exists stage_changed_at timestamp with time zone null default now();
+
+alter table public.prospects
+  add column if not exists last_contact_at timestamp with time zone null;
+
+alter table public.prospects
+  add column if not exists enroller_id uuid null references people (id) on delete set null;
+
+alter table public.prospects
+  add column if not exists referred_by_id uuid null references people (id) on delete set null;
+
+alter table public.prospects
+  add column if not exists registered_event_id uuid null references events (id) on delete set null;
+
+alter table public.prospects
+  add column if not exists registered_at timestamp with time zone null;
+
+alter table public.prospects
+  drop constraint if exists prospects_stage_check;
+
+alter table public.prospects
+  add constraint prospects_stage_check check (
+    stage in ('inquiry', 'intro_call', 'attended_open_event', 'registered', 'initiated')
+  );
+
+create index IF not exists idx_prospects_stage on public.prospects using btree (stage) TABLESPACE pg_default;
+
+create index IF not exists idx_prospects_enroller_id on public.prospects using btree (enroller_id) TABLESPACE pg_default;
+
+create index IF not exists idx_prospects_referred_by_id on public.prospects using btree (referred_by_id) TABLESPACE pg_default;
@@ -0,0 +1,40 @@
+-- Reusable event formats (see api/_lib/event-templates.ts). Schedules and sign-up windows are stored
+-- as minute offsets from the event's start in the venue's local time, so a template can be laid down
+-- on any date: [{"start_offset": -180, "end_offset": 0}] is a staff call three hours before the start.
+-- area_id/community_id null means the template is shared by every area.
+create table public.event_templates (
+  id uuid not null default gen_random_uuid (),
+  log_id uuid null default gen_random_uuid (),
+  event_type_id uuid not null,
+  name text not null,
+  description text null,
+  area_id uuid null,
+  community_id uuid null,
+  venue_id uuid null,
+  is_nwta boolean not null default false,
+  staff_cost integer null default 0,
+  staff_capacity integer null default 0,
+  participant_cost integer null default 0,
+  participant_capacity integer null default 0,
+  participant_schedule jsonb null default '[]'::jsonb,
+  staff_schedule jsonb null default '[]'::jsonb,
+  participant_published_time jsonb null,
+  staff_published_time jsonb null,
+  roles jsonb null default '[]'::jsonb,
+  is_active boolean null default true,
+  created_at timestamp with time zone null default now(),
+  updated_at timestamp with time zone null default now(),
+  constraint event_templates_pkey primary key (id),
+  constraint event_templates_event_type_id_fkey foreign KEY (event_type_id) references event_types (id) on delete CASCADE,
+  constraint event_templates_area_id_fkey foreign KEY (area_id) references areas (id) on delete set null,
+  constraint event_templates_community_id_fkey foreign KEY (community_id) references communities (id) on delete set null,
+  constraint event_templates_venue_id_fkey foreign KEY (venue_id) references venues (id) on delete set null
+) TABLESPACE pg_default;
+
+create index IF not exists idx_event_templates_event_type_id on public.event_templates using btree (event_type_id) TABLESPACE pg_default;
+
+create index IF not exists idx_event_templates_area_id on public.event_templates using btree (area_id) TABLESPACE pg_default;
+
+create index IF not exists idx_event_templates_community_id on public.event_templates using btree (community_id) TABLESPACE pg_default;
+
+create index IF not exists idx_event_templates_active on public.event_templates using btree (is_active) TABLESPACE pg_default;
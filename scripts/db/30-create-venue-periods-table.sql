@@ -0,0 +1,25 @@
+-- Periods when a venue can't take another booking (see api/_lib/venue-availability.ts): a blackout is
+-- the venue being unavailable to us, a hold is a tentative reservation for an event not yet on the
+-- calendar (or, with event_id, for that event). Events themselves are read from events.venue_id.
+create table public.venue_periods (
+  id uuid not null default gen_random_uuid (),
+  venue_id uuid not null,
+  kind text not null default 'blackout',
+  start_at timestamp with time zone not null,
+  end_at timestamp with time zone not null,
+  reason text null,
+  event_id uuid null,
+  created_by uuid null,
+  created_at timestamp with time zone null default now(),
+  updated_at timestamp with time zone null default now(),
+  constraint venue_periods_pkey primary key (id),
+  constraint venue_periods_kind_check check (kind in ('blackout', 'hold')),
+  constraint venue_periods_range_check check (end_at > start_at),
+  constraint venue_periods_venue_id_fkey foreign KEY (venue_id) references venues (id) on delete CASCADE,
+  constraint venue_periods_event_id_fkey foreign KEY (event_id) references events (id) on delete set null,
+  constraint venue_periods_created_by_fkey foreign KEY (created_by) references people (id) on delete set null
+) TABLESPACE pg_default;
+
+create index IF not exists idx_venue_periods_venue_id on public.venue_periods using btree (venue_id, start_at, end_at) TABLESPACE pg_default;
+
+create index IF not exists idx_events_venue_id on public.events using btree (venue_id, start_at) TABLESPACE pg_default;
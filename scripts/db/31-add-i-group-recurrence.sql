@@ -0,0 +1,17 @@
+-- Recurring I-Group meetings (see api/_lib/meeting-schedule.ts). schedule_rrule is an RFC 5545 RRULE
+-- anchored at schedule_dtstart, the first meeting's local date and time in schedule_timezone (or the
+-- venue's timezone when that is null). schedule_exdates lists local dates the group skips.
+alter table public.i_groups
+  add column if not exists schedule_rrule text null;
+
+alter table public.i_groups
+  add column if not exists schedule_dtstart timestamp without time zone null;
+
+alter table public.i_groups
+  add column if not exists schedule_duration_minutes integer not null default 150;
+
+alter table public.i_groups
+  add column if not exists schedule_timezone text null;
+
+alter table public.i_groups
+  add column if not exists schedule_exdates jsonb not null default '[]'::jsonb;
@@ -0,0 +1,8 @@
+-- Secret for a user's personal calendar feed (GET /api/users/calendar?token=). Calendar apps can't send
+-- an Auth0 token, so the URL itself is the credential; rotating the token cuts off old subscriptions.
+alter table public.emma_users
+  add column if not exists calendar_token text null;
+
+create unique index IF not exists idx_emma_users_calendar_token on public.emma_users using btree (calendar_token) TABLESPACE pg_default
+where
+  (calendar_token is not null);
@@ -0,0 +1,54 @@
+-- Requests to visit an I-Group, and guests the group recorded as attending (see api/_lib/visitor-requests.ts).
+-- status is pending, accepted, declined or attended. A request is routed to the group's primary contact
+-- (routed_to_id) or, failing that, its contact_email; one still pending after the escalation period is
+-- escalated to the community's coordinator (escalated_to_id, escalated_at).
+-- source is "request" for the public form and "guest" for attendance a group recorded itself.
+create table public.visitor_requests (
+  id uuid not null default gen_random_uuid (),
+  log_id uuid null default gen_random_uuid (),
+  i_group_id uuid not null,
+  person_id uuid null,
+  first_name text not null,
+  last_name text not null,
+  email text null,
+  phone text null,
+  is_initiated boolean not null default false,
+  message text null,
+  preferred_date date null,
+  source character varying(16) not null default 'request',
+  status character varying(16) not null default 'pending',
+  routed_to_id uuid null,
+  routed_to_email text null,
+  responded_at timestamp with time zone null,
+  responded_by_id uuid null,
+  response_note text null,
+  escalated_at timestamp with time zone null,
+  escalated_to_id uuid null,
+  attended_on date null,
+  area_id uuid null,
+  community_id uuid null,
+  created_at timestamp with time zone null default now(),
+  updated_at timestamp with time zone null default now(),
+  constraint visitor_requests_pkey primary key (id),
+  constraint visitor_requests_status_check check (status in ('pending', 'accepted', 'declined', 'attended')),
+  constraint visitor_requests_source_check check (source in ('request', 'guest')),
+  constraint visitor_requests_i_group_id_fkey foreign KEY (i_group_id) references i_groups (id) on delete CASCADE,
+  constraint visitor_requests_person_id_fkey foreign KEY (person_id) references people (id) on delete set null,
+  constraint visitor_requests_routed_to_id_fkey foreign KEY (routed_to_id) references people (id) on delete set null,
+  constraint visitor_requests_responded_by_id_fkey foreign KEY (responded_by_id) references people (id) on delete set null,
+  constraint visitor_requests_escalated_to_id_fkey foreign KEY (escalated_to_id) references people (id) on delete set null,
+  constraint visitor_requests_area_id_fkey foreign KEY (area_id) references areas (id) on delete set null,
+  constraint visitor_requests_community_id_fkey foreign KEY (community_id) references communities (id) on delete set null
+) TABLESPACE pg_default;
+
+create index IF not exists idx_visitor_requests_i_group_id on public.visitor_requests using btree (i_group_id) TABLESPACE pg_default;
+
+create index IF not exists idx_visitor_requests_status on public.visitor_requests using btree (status) TABLESPACE pg_default;
+
+create index IF not exists idx_visitor_requests_routed_to_id on public.visitor_requests using btree (routed_to_id) TABLESPACE pg_default;
+
+create index IF not exists idx_visitor_requests_escalated_to_id on public.visitor_requests using btree (escalated_to_id) TABLESPACE pg_default;
+
+create index IF not exists idx_visitor_requests_area_id on public.visitor_requests using btree (area_id) TABLESPACE pg_default;
+
+create index IF not exists idx_visitor_requests_community_id on public.visitor_requests using btree (community_id) TABLESPACE pg_default;
@@ -0,0 +1,55 @@
+-- Dated I-Group membership history (see api/_lib/group-roster.ts). groups.members still holds the current
+-- roster; each row here is one stretch of membership, open while left_on is null. role is member,
+-- facilitator or contact. left_reason is left, removed or transferred, and a transfer records the group the
+-- member moved to in transferred_to_id.
+create table public.group_memberships (
+  id uuid not null default gen_random_uuid (),
+  i_group_id uuid not null,
+  person_id uuid not null,
+  role character varying(16) not null default 'member',
+  joined_on date not null default CURRENT_DATE,
+  left_on date null,
+  left_reason character varying(16) null,
+  transferred_to_id uuid null,
+  notes text null,
+  recorded_by_id uuid null,
+  created_at timestamp with time zone null default now(),
+  updated_at timestamp with time zone null default now(),
+  constraint group_memberships_pkey primary key (id),
+  constraint group_memberships_role_check check (role in ('member', 'facilitator', 'contact')),
+  constraint group_memberships_left_reason_check check (left_reason in ('left', 'removed', 'transferred')),
+  constraint group_memberships_dates_check check (left_on is null or left_on >= joined_on),
+  constraint group_memberships_i_group_id_fkey foreign KEY (i_group_id) references i_groups (id) on delete CASCADE,
+  constraint group_memberships_person_id_fkey foreign KEY (person_id) references people (id) on delete CASCADE,
+  constraint group_memberships_transferred_to_id_fkey foreign KEY (transferred_to_id) references i_groups (id) on delete set null,
+  constraint group_memberships_recorded_by_id_fkey foreign KEY (recorded_by_id) references people (id) on delete set null
+) TABLESPACE pg_default;
+
+create index IF not exists idx_group_memberships_i_group_id on public.group_memberships using btree (i_group_id) TABLESPACE pg_default;
+
+create index IF not exists idx_group_memberships_person_id on public.group_memberships using btree (person_id) TABLESPACE pg_default;
+
+-- Someone can only hold one open membership in a group at a time
+create unique index IF not exists idx_group_memberships_open on public.group_memberships using btree (i_group_id, person_id) TABLESPACE pg_default
+where
+  left_on is null;
+
+-- Open a membership for everyone already on an I-Group roster. Their real join dates are unknown, so they
+-- date from when the group was established (or created).
+insert into public.group_memberships (i_group_id, person_id, role, joined_on)
+select
+  ig.id,
+  member.person_id,
+  case when member.person_id = g.primary_contact_id then 'contact' else 'member' end,
+  coalesce(g.established_on, g.created_at::date, CURRENT_DATE)
+from
+  public.i_groups ig
+  join public.groups g on g.id = ig.id
+  cross join lateral (
+    select distinct value::uuid as person_id
+    from jsonb_array_elements_text(coalesce(g.members, '[]'::jsonb))
+  ) member
+  join public.people p on p.id = member.person_id
+where
+  g.deleted_at is null
+on conflict do nothing;
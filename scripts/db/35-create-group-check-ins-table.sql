@@ -0,0 +1,35 @@
+-- Monthly I-Group check-ins filled in by the group's contact (see api/_lib/group-check-ins.ts). One row per
+-- group and month; period is the first day of the month reported on. area_id and community_id are copied from
+-- the group when the check-in is saved so roll-ups keep the geography the group had at the time.
+create table public.group_check_ins (
+  id uuid not null default gen_random_uuid (),
+  i_group_id uuid not null,
+  period date not null,
+  meetings_held integer not null default 0,
+  average_attendance numeric(5, 1) not null default 0,
+  visitors integer not null default 0,
+  open_seats integer not null default 0,
+  needs_support boolean not null default false,
+  support_note text null,
+  submitted_by_id uuid null,
+  area_id uuid null,
+  community_id uuid null,
+  created_at timestamp with time zone null default now(),
+  updated_at timestamp with time zone null default now(),
+  constraint group_check_ins_pkey primary key (id),
+  constraint group_check_ins_i_group_id_period_key unique (i_group_id, period),
+  constraint group_check_ins_period_check check (extract(day from period) = 1),
+  constraint group_check_ins_counts_check check (
+    meetings_held >= 0 and average_attendance >= 0 and visitors >= 0 and open_seats >= 0
+  ),
+  constraint group_check_ins_i_group_id_fkey foreign KEY (i_group_id) references i_groups (id) on delete CASCADE,
+  constraint group_check_ins_submitted_by_id_fkey foreign KEY (submitted_by_id) references people (id) on delete set null,
+  constraint group_check_ins_area_id_fkey foreign KEY (area_id) references areas (id) on delete set null,
+  constraint group_check_ins_community_id_fkey foreign KEY (community_id) references communities (id) on delete set null
+) TABLESPACE pg_default;
+
+create index IF not exists idx_group_check_ins_period on public.group_check_ins using btree (period) TABLESPACE pg_default;
+
+create index IF not exists idx_group_check_ins_area_id on public.group_check_ins using btree (area_id) TABLESPACE pg_default;
+
+create index IF not exists idx_group_check_ins_community_id on public.group_check_ins using btree (community_id) TABLESPACE pg_default;
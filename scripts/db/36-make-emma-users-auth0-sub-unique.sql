@@ -0,0 +1,7 @@
+-- A user is found by their token's sub (auth.ts), so two rows sharing a sub would let one login act as
+-- either account. Resolve any duplicates before running this; the index creation fails while they exist.
+drop index if exists public.idx_emma_users_auth0_sub;
+
+create unique index IF not exists idx_emma_users_auth0_sub on public.emma_users using btree (((auth0_user ->> 'sub'::text))) TABLESPACE pg_default
+where
+  ((auth0_user ->> 'sub'::text) is not null);
@@ -0,0 +1,8 @@
+-- Secret in a rookie's intake link (/nwta/<id>?intake=<token>), issued when they register. Rookies who
+-- registered online may have no account to sign in with, so the link itself lets them fill in their intake.
+alter table public.registrants
+  add column if not exists intake_token text null;
+
+create unique index IF not exists idx_registrants_intake_token on public.registrants using btree (intake_token) TABLESPACE pg_default
+where
+  (intake_token is not null);
@@ -43,6 +43,9 @@ interface ImportedIGroup extends ImportedGroup {
   is_requiring_contact_before_visiting: boolean
   schedule_events: EventTime[]
   schedule_description: string | null
+  schedule_rrule?: string | null
+  schedule_dtstart?: string | null
+  schedule_duration_minutes?: number
   area_id: string | null
   community_id: string | null
   contact_email: string | null
@@ -205,6 +208,9 @@ async function importIGroup(
         is_requiring_contact_before_visiting: igroup.is_requiring_contact_before_visiting,
         schedule_events: igroup.schedule_events,
         schedule_description: igroup.schedule_description,
+        schedule_rrule: igroup.schedule_rrule ?? null,
+        schedule_dtstart: igroup.schedule_dtstart ?? null,
+        schedule_duration_minutes: igroup.schedule_duration_minutes,
         area_id: igroup.area_id,
         community_id: igroup.community_id,
         contact_email: igroup.contact_email,
@@ -262,6 +268,9 @@ async function importIGroup(
       is_requiring_contact_before_visiting: igroup.is_requiring_contact_before_visiting,
       schedule_events: igroup.schedule_events,
       schedule_description: igroup.schedule_description,
+      schedule_rrule: igroup.schedule_rrule ?? null,
+      schedule_dtstart: igroup.schedule_dtstart ?? null,
+      schedule_duration_minutes: igroup.schedule_duration_minutes,
       area_id: igroup.area_id,
       community_id: igroup.community_id,
       contact_email: igroup.contact_email,
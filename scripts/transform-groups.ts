@@ -72,7 +72,13 @@ interface TranslatedGroup {
   mkpconnect_data: MkpConnectIGroup
 }
 
-interface TranslatedIGroup extends TranslatedGroup {
+interface MeetingRule {
+  schedule_rrule: string | null
+  schedule_dtstart: string | null
+  schedule_duration_minutes: number
+}
+
+interface TranslatedIGroup extends TranslatedGroup, MeetingRule {
   is_accepting_initiated_visitors: boolean
   is_accepting_uninitiated_visitors: boolean
   is_requiring_contact_before_visiting: boolean
@@ -239,6 +245,83 @@ function parseScheduleEvents(
   return []
 }
 
+const RRULE_WEEKDAYS: [RegExp, string][] = [
+  [/\bsun/i, "SU"],
+  [/\bmon/i, "MO"],
+  [/\btue/i, "TU"],
+  [/\bwed/i, "WE"],
+  [/\bthu/i, "TH"],
+  [/\bfri/i, "FR"],
+  [/\bsat/i, "SA"],
+]
+
+const RRULE_ORDINALS: [RegExp, number][] = [
+  [/\b(1st|first)\b/i, 1],
+  [/\b(2nd|second)\b/i, 2],
+  [/\b(3rd|third)\b/i, 3],
+  [/\b(4th|fourth)\b/i, 4],
+  [/\blast\b/i, -1],
+]
+
+const DEFAULT_MEETING_MINUTES = 150
+
+// "7pm", "7:00 PM", "19:00" -> minutes after midnight
+function parseClockTime(text: string): number | null {
+  const match = /(\d{1,2})(?::(\d{2}))?\s*(am|pm|a\.m\.|p\.m\.)?/i.exec(text)
+  if (!match) return null
+
+  let hour = parseInt(match[1], 10)
+  const minute = match[2] ? parseInt(match[2], 10) : 0
+  const meridiem = match[3]?.toLowerCase().charAt(0)
+  if (meridiem === "p" && hour < 12) hour += 12
+  if (meridiem === "a" && hour === 12) hour = 0
+  // Evening is the overwhelmingly common case when MKPConnect leaves off am/pm
+  if (!meridiem && hour >= 1 && hour <= 10) hour += 12
+  if (hour > 23 || minute > 59) return null
+
+  return hour * 60 + minute
+}
+
+/*
+ * Turns MKPConnect's meeting night, time and frequency into an RRULE anchored at today's date. Only
+ * unambiguous schedules become rules ("Monthly" with no week named does not); the rest keep just the
+ * schedule description. The timezone is left to the venue, which is assigned after import.
+ */
+function parseMeetingRule(night: string | null, time: string | null, frequency: string | null): MeetingRule {
+  const none: MeetingRule = {
+    schedule_rrule: null,
+    schedule_dtstart: null,
+    schedule_duration_minutes: DEFAULT_MEETING_MINUTES,
+  }
+
+  const weekdays = RRULE_WEEKDAYS.filter(([pattern]) => pattern.test(night || "")).map(([, code]) => code)
+  const [startText, endText] = (time || "").split(/\s*(?:-|–|to)\s*/i)
+  const start = startText ? parseClockTime(startText) : null
+  if (weekdays.length === 0 || start === null) return none
+
+  let end = endText ? parseClockTime(endText) : null
+  if (end !== null && end <= start) end += 12 * 60
+  const duration = end !== null && end - start <= 6 * 60 ? end - start : DEFAULT_MEETING_MINUTES
+
+  const text = (frequency || "weekly").toLowerCase()
+  const ordinals = RRULE_ORDINALS.filter(([pattern]) => pattern.test(text)).map(([, ordinal]) => ordinal)
+
+  let rule: string | null = null
+  if (ordinals.length > 0) {
+    rule = `FREQ=MONTHLY;BYDAY=${ordinals.flatMap((ordinal) => weekdays.map((day) => `${ordinal}${day}`)).join(",")}`
+  } else if (/other|bi-?weekly|every\s+(2|two)\s+weeks/.test(text)) {
+    rule = `FREQ=WEEKLY;INTERVAL=2;BYDAY=${weekdays.join(",")}`
+  } else if (/week/.test(text)) {
+    rule = `FREQ=WEEKLY;BYDAY=${weekdays.join(",")}`
+  }
+  if (!rule) return none
+
+  const today = new Date().toISOString().slice(0, 10)
+  const clock = `${String(Math.floor(start / 60)).padStart(2, "0")}:${String(start % 60).padStart(2, "0")}:00`
+
+  return { schedule_rrule: rule, schedule_dtstart: `${today}T${clock}`, schedule_duration_minutes: duration }
+}
+
 function sanitizeForFilename(name: string): string {
   return name
     .replace(/[^a-zA-Z0-9-_]/g, "_")
@@ -356,6 +439,7 @@ function translateToIGroup(
     ),
     schedule_events: parseScheduleEvents(data.meeting_night, data.meeting_time, data.meeting_frequency),
     schedule_description: buildScheduleDescription(data.meeting_night, data.meeting_time, data.meeting_frequency),
+    ...parseMeetingRule(data.meeting_night, data.meeting_time, data.meeting_frequency),
     area_id: lookupAreaId(data.area_name, data.area_id, areasMap),
     community_id: lookupCommunityId(data.community_name, data.community_id, communitiesMap),
     contact_email: data.igroup_email,
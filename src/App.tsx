@@ -16,6 +16,7 @@ import Warrior from "./pages/Warrior"
 import WarriorSearch from "./pages/WarriorSearch"
 import Nwta from "./pages/Nwta"
 import NwtaSearch from "./pages/NwtaSearch"
+import NwtaRegister from "./pages/NwtaRegister"
 
 import AboutEmma from "./pages/about/AboutEmma"
 import AboutManKindProject from "./pages/about/AboutManKindProject"
@@ -31,6 +32,10 @@ import AdminAreas from "./pages/admin/AdminAreas"
 import AdminCommunities from "./pages/admin/AdminCommunities"
 import AdminNwtaEvents from "./pages/admin/AdminNwtaEvents"
 import AdminNwtaRoles from "./pages/admin/AdminNwtaRoles"
+import AdminNwtaStaffing from "./pages/admin/AdminNwtaStaffing"
+import AdminAdvancement from "./pages/admin/AdminAdvancement"
+import AdminRookieIntegration from "./pages/admin/AdminRookieIntegration"
+import AdminVisitorRequests from "./pages/admin/AdminVisitorRequests"
 import AdminEvents from "./pages/admin/AdminEvents"
 import AdminEventTypes from "./pages/admin/AdminEventTypes"
 import AdminProspects from "./pages/admin/AdminProspects"
@@ -72,6 +77,7 @@ function App() {
             <Route path="/training/:uuid" element={<Training />} />
             <Route path="/nwta" element={<NwtaSearch />} />
             <Route path="/nwta/:uuid" element={<Nwta />} />
+            <Route path="/nwta/:uuid/register" element={<NwtaRegister />} />
             <Route path="/warrior" element={<WarriorSearch />} />
             <Route path="/warrior/:uuid" element={<Warrior />} />
 
@@ -93,11 +99,15 @@ function App() {
             <Route path="/admin/areas" element={<AdminAreas />} />
             <Route path="/admin/communities" element={<AdminCommunities />} />
             <Route path="/admin/nwtas" element={<AdminNwtaEvents />} />
+            <Route path="/admin/nwtas/:uuid/staffing" element={<AdminNwtaStaffing />} />
             <Route path="/admin/nwta-roles" element={<AdminNwtaRoles />} />
             <Route path="/admin/events" element={<AdminEvents />} />
             <Route path="/admin/event-types" element={<AdminEventTypes />} />
             <Route path="/admin/prospects" element={<AdminProspects />} />
             <Route path="/admin/warriors" element={<AdminWarriors />} />
+            <Route path="/admin/advancement" element={<AdminAdvancement />} />
+            <Route path="/admin/rookie-integration" element={<AdminRookieIntegration />} />
+            <Route path="/admin/visitor-requests" element={<AdminVisitorRequests />} />
             <Route path="/admin/members" element={<AdminMembers />} />
             <Route path="/admin/registrants" element={<AdminRegistrants />} />
             <Route path="/admin/friends" element={<AdminFriends />} />
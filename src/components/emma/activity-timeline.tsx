@@ -0,0 +1,158 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Loader2 } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { EmmaTimeline, type TimelineEvent } from "./timeline"
+import { EmmaPersonDisplay } from "./person-display"
+import type { ActivityLogEntry } from "../../types/activity-log"
+import type { Person } from "../../types/person"
+import { apiFetch } from "../../lib/api-client"
+
+interface EmmaActivityTimelineProps {
+  logId?: string | null
+  title?: string
+  color?: string
+  refreshKey?: unknown // change to refetch, e.g. after the record is saved
+}
+
+interface ActivityLogApiResponse {
+  success: boolean
+  data: ActivityLogEntry[]
+  count: number
+  error?: string
+}
+
+const formatFieldName = (field: string) => field.replace(/_/g, " ")
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === "") {
+    return "—"
+  }
+  if (Array.isArray(value)) {
+    return value.length === 0 ? "none" : `${value.length} item${value.length !== 1 ? "s" : ""}`
+  }
+  if (typeof value === "object") {
+    return JSON.stringify(value)
+  }
+  return String(value)
+}
+
+export function EmmaActivityTimeline({
+  logId,
+  title = "Activity History",
+  color = "#ea580c",
+  refreshKey,
+}: EmmaActivityTimelineProps) {
+  const [entries, setEntries] = useState<ActivityLogEntry[]>([])
+  const [selectedIndex, setSelectedIndex] = useState(0)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!logId) {
+      setEntries([])
+      return
+    }
+
+    const fetchActivity = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+
+        const response = await apiFetch(`/api/activity-logs?log=${logId}`)
+        if (!response.ok) {
+          throw new Error(`Failed to fetch activity: ${response.statusText}`)
+        }
+
+        const activityApiResponse: ActivityLogApiResponse = await response.json()
+        setEntries(activityApiResponse.data)
+        setSelectedIndex(Math.max(0, activityApiResponse.data.length - 1))
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to fetch activity")
+        console.error("[v0] Error fetching activity:", err)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchActivity()
+  }, [logId, refreshKey])
+
+  const timelineEvents: TimelineEvent[] = entries.map((entry) => ({
+    date: new Date(entry.created_at).toISOString().split("T")[0],
+    label: entry.name,
+    description: entry.summary,
+    data: entry,
+  }))
+
+  const selectedEntry = entries[selectedIndex]
+  const changes = Object.entries(selectedEntry?.data?.changes || {})
+
+  return (
+    <div className="space-y-4">
+      <h4 className="text-lg font-medium text-gray-900">{title}</h4>
+
+      {loading ? (
+        <div className="flex items-center text-sm text-gray-500">
+          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          Loading activity...
+        </div>
+      ) : error ? (
+        <div className="text-sm text-red-600">{error}</div>
+      ) : entries.length === 0 ? (
+        <div className="text-sm text-gray-500">No activity has been recorded yet.</div>
+      ) : (
+        <>
+          <EmmaTimeline
+            events={timelineEvents}
+            selectedIndex={selectedIndex}
+            onEventSelect={setSelectedIndex}
+            getLabel={(event) => event.label || ""}
+            getDescription={(event) => event.description || ""}
+            styles={{
+              background: color,
+              foreground: "#ffffff",
+              outline: "#e5e7eb",
+            }}
+          />
+
+          {selectedEntry && (
+            <div className="border rounded-lg p-4 space-y-3 text-sm">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <Badge variant="secondary">{selectedEntry.name}</Badge>
+                  <span className="text-gray-900">{selectedEntry.summary}</span>
+                </div>
+                <span className="text-xs text-gray-500">{new Date(selectedEntry.created_at).toLocaleString()}</span>
+              </div>
+
+              <div className="flex items-center gap-2 text-gray-600">
+                <span>By:</span>
+                {selectedEntry.by ? (
+                  <EmmaPersonDisplay person={selectedEntry.by as Person} showAvatar={true} size="w-6 h-6" />
+                ) : (
+                  <span className="text-gray-500">System</span>
+                )}
+              </div>
+
+              {selectedEntry.details && <div className="text-gray-600">{selectedEntry.details}</div>}
+
+              {changes.length > 0 && (
+                <div className="space-y-1">
+                  {changes.map(([field, change]) => (
+                    <div key={field} className="grid grid-cols-3 gap-2">
+                      <span className="font-medium text-gray-700 capitalize">{formatFieldName(field)}</span>
+                      <span className="text-gray-500 truncate">{formatValue(change.from)}</span>
+                      <span className="text-gray-900 truncate">{formatValue(change.to)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -14,6 +14,7 @@ import {
 } from "@/components/ui/dialog"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Search, Plus, Edit, Save, X, MapPin, Loader2 } from "lucide-react"
+import { apiFetch } from "../../lib/api-client"
 
 interface Address {
   id: string
@@ -94,7 +95,7 @@ export function EmmaAddressModal({
   const fetchAddresses = async () => {
     setLoading(true)
     try {
-      const response = await fetch("/api/addresses")
+      const response = await apiFetch("/api/addresses")
       if (response.ok) {
         const data = await response.json()
         setAddresses(data.data || [])
@@ -114,7 +115,7 @@ export function EmmaAddressModal({
       const method = isEditing ? "PUT" : "POST"
       const body = isEditing ? { id: editingAddress.id, ...formData } : formData
 
-      const response = await fetch(url, {
+      const response = await apiFetch(url, {
         method,
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(body),
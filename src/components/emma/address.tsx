@@ -6,6 +6,7 @@ import { useState } from "react"
 import { Button } from "@/components/ui/button"
 import { MapPin, Plus } from "lucide-react"
 import { EmmaAddressModal } from "./address-modal"
+import { apiFetch } from "../../lib/api-client"
 
 interface Address {
   id: string
@@ -37,7 +38,7 @@ export function EmmaAddress({ label, addressId, onAddressChange, className = ""
 
     setLoading(true)
     try {
-      const response = await fetch(`/api/addresses/${id}`)
+      const response = await apiFetch(`/api/addresses/${id}`)
       if (response.ok) {
         const data = await response.json()
         setAddress(data.data)
@@ -0,0 +1,285 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Progress } from "@/components/ui/progress"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import { CheckCircle2, Circle, Loader2, TrendingUp } from "lucide-react"
+import type { AdvancementProgress, WarriorAdvancement } from "../../types/advancement"
+import { apiFetch } from "../../lib/api-client"
+
+export const WARRIOR_STATUSES: Array<{ value: string; label: string }> = [
+  { value: "rookie", label: "Rookie" },
+  { value: "initiated", label: "Initiated" },
+  { value: "staff", label: "Staff" },
+  { value: "leader_track", label: "Leader Track" },
+  { value: "full_leader", label: "Full Leader" },
+]
+
+export const statusLabel = (status: string | null | undefined) =>
+  WARRIOR_STATUSES.find((option) => option.value === status)?.label || status || "None"
+
+interface EmmaRequirementListProps {
+  progress: AdvancementProgress
+}
+
+export function EmmaRequirementList({ progress }: EmmaRequirementListProps) {
+  if (progress.requirements.length === 0) {
+    return <p className="text-sm text-gray-500 italic">No requirements configured</p>
+  }
+
+  return (
+    <div className="space-y-2">
+      {progress.requirements.map((requirement) => (
+        <div key={requirement.key} className="space-y-1">
+          <div className="flex items-center justify-between text-sm">
+            <span className="flex items-center gap-2">
+              {requirement.met ? (
+                <CheckCircle2 className="w-4 h-4 text-green-600" />
+              ) : (
+                <Circle className="w-4 h-4 text-gray-400" />
+              )}
+              {requirement.label}
+            </span>
+            <span className="font-mono text-gray-600">
+              {requirement.actual} / {requirement.required}
+            </span>
+          </div>
+          <Progress value={Math.min(100, (requirement.actual / requirement.required) * 100)} className="h-1.5" />
+        </div>
+      ))}
+    </div>
+  )
+}
+
+interface EmmaStatusChangeDialogProps {
+  warriorId: string
+  warriorName: string
+  currentStatus: string | null
+  suggestedStatus?: string | null
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onChanged?: (advancement: WarriorAdvancement) => void
+}
+
+export function EmmaStatusChangeDialog({
+  warriorId,
+  warriorName,
+  currentStatus,
+  suggestedStatus,
+  open,
+  onOpenChange,
+  onChanged,
+}: EmmaStatusChangeDialogProps) {
+  const [status, setStatus] = useState(suggestedStatus || "")
+  const [justification, setJustification] = useState("")
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (open) {
+      setStatus(suggestedStatus || "")
+      setJustification("")
+      setError(null)
+    }
+  }, [open, suggestedStatus])
+
+  const handleSave = async () => {
+    try {
+      setSaving(true)
+      setError(null)
+
+      const response = await apiFetch(`/api/warriors/${warriorId}/advancement`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status, justification }),
+      })
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || "Failed to change status")
+      }
+
+      onChanged?.(result.data)
+      onOpenChange(false)
+    } catch (err) {
+      console.error("[v0] Error changing warrior status:", err)
+      setError(err instanceof Error ? err.message : "Failed to change status")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Change Status</DialogTitle>
+          <DialogDescription>
+            {warriorName} is currently {statusLabel(currentStatus)}. The change and its justification are kept in
+            the warrior's activity log.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>New Status</Label>
+            <Select value={status} onValueChange={setStatus}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a status" />
+              </SelectTrigger>
+              <SelectContent>
+                {WARRIOR_STATUSES.filter((option) => option.value !== currentStatus).map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="status_justification">Justification</Label>
+            <Textarea
+              id="status_justification"
+              value={justification}
+              onChange={(e) => setJustification(e.target.value)}
+              placeholder="Why the Leader Body approved this change"
+              rows={4}
+            />
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || !status || !justification.trim()}>
+            {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Change Status
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+interface EmmaAdvancementProgressProps {
+  warriorId: string
+  canChangeStatus?: boolean
+  refreshKey?: unknown
+  onStatusChanged?: () => void
+}
+
+export function EmmaAdvancementProgress({
+  warriorId,
+  canChangeStatus = false,
+  refreshKey,
+  onStatusChanged,
+}: EmmaAdvancementProgressProps) {
+  const [advancement, setAdvancement] = useState<WarriorAdvancement | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+
+  useEffect(() => {
+    const fetchAdvancement = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+
+        const response = await apiFetch(`/api/warriors/${warriorId}/advancement`)
+        const result = await response.json()
+        if (!response.ok || !result.success) {
+          throw new Error(result.error || "Failed to fetch advancement progress")
+        }
+
+        setAdvancement(result.data)
+      } catch (err) {
+        console.error("[v0] Error fetching advancement progress:", err)
+        setError(err instanceof Error ? err.message : "Failed to fetch advancement progress")
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchAdvancement()
+  }, [warriorId, refreshKey])
+
+  if (loading && !advancement) {
+    return <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+  }
+
+  if (error) {
+    return <p className="text-sm text-destructive">{error}</p>
+  }
+
+  if (!advancement) {
+    return null
+  }
+
+  const next = advancement.next
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h4 className="flex items-center gap-2 font-medium text-gray-900">
+          <TrendingUp className="w-4 h-4" />
+          {next ? `Progress to ${statusLabel(next.status)}` : "Advancement"}
+        </h4>
+        <div className="flex items-center gap-2">
+          {next &&
+            (next.eligible ? (
+              <Badge className="bg-green-100 text-green-800 border-green-300">Eligible for promotion</Badge>
+            ) : (
+              <Badge variant="outline">
+                {next.requirements.filter((requirement) => requirement.met).length} of {next.requirements.length}{" "}
+                requirements met
+              </Badge>
+            ))}
+          {canChangeStatus && (
+            <Button variant="outline" size="sm" onClick={() => setIsDialogOpen(true)}>
+              Change Status
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {next ? (
+        <>
+          {next.summary && <p className="text-sm text-gray-600">{next.summary}</p>}
+          <EmmaRequirementList progress={next} />
+        </>
+      ) : (
+        <p className="text-sm text-gray-500 italic">
+          No advancement criteria apply to {statusLabel(advancement.status)} warriors
+        </p>
+      )}
+
+      {canChangeStatus && (
+        <EmmaStatusChangeDialog
+          warriorId={warriorId}
+          warriorName={`${advancement.first_name} ${advancement.last_name}`}
+          currentStatus={advancement.status}
+          suggestedStatus={next?.eligible ? next.status : null}
+          open={isDialogOpen}
+          onOpenChange={setIsDialogOpen}
+          onChanged={(updated) => {
+            setAdvancement(updated)
+            onStatusChanged?.()
+          }}
+        />
+      )}
+    </div>
+  )
+}
@@ -7,6 +7,7 @@ import { Input } from "@/components/ui/input"
 import { Search, Loader2 } from "lucide-react"
 import { EmmaAreaTag } from "./area-tag"
 import type { Area } from "../../types/area"
+import { apiFetch } from "../../lib/api-client"
 
 interface EmmaAreaModalProps {
   isOpen: boolean
@@ -54,7 +55,7 @@ export function EmmaAreaModal({
       setLoading(true)
       setError(null)
 
-      const response = await fetch("/api/areas?active=true")
+      const response = await apiFetch("/api/areas?active=true")
       if (!response.ok) {
         throw new Error(`Failed to fetch areas: ${response.statusText}`)
       }
@@ -0,0 +1,144 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { CalendarPlus, Copy, Loader2, RefreshCw } from "lucide-react"
+import { apiFetch } from "../../lib/api-client"
+
+// Feed paths come back relative; calendar apps need the full address, and webcal:// opens them directly
+const feedUrl = (path: string) => `${window.location.origin}${path}`
+const webcalUrl = (path: string) => feedUrl(path).replace(/^https?:/, "webcal:")
+
+const errorMessage = async (response: Response, fallback: string) => {
+  const body = await response.json().catch(() => ({}))
+  return body.details?.[0]?.message || body.error || fallback
+}
+
+interface EmmaCalendarSubscribeProps {
+  path: string
+  label?: string
+}
+
+// Subscribe and download links for a public feed, e.g. /api/i-groups/[id]/calendar
+export function EmmaCalendarSubscribe({ path, label = "Add to Calendar" }: EmmaCalendarSubscribeProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Button variant="outline" size="sm" asChild>
+        <a href={webcalUrl(path)}>
+          <CalendarPlus className="w-4 h-4 mr-2" />
+          {label}
+        </a>
+      </Button>
+      <a href={path} className="text-sm text-muted-foreground underline" download>
+        Download .ics
+      </a>
+    </div>
+  )
+}
+
+/*
+ * The signed-in user's private feed of the events they lead, staff or attend. The link is made on
+ * first request and can be replaced if it has been shared by mistake.
+ */
+export function EmmaPersonalCalendarFeed() {
+  const [path, setPath] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const requestLink = async (rotate: boolean) => {
+    try {
+      setLoading(true)
+      setError(null)
+      setMessage(null)
+
+      const response = await apiFetch("/api/users/calendar", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ rotate }),
+      })
+      if (!response.ok) {
+        throw new Error(await errorMessage(response, "Failed to get your calendar link"))
+      }
+
+      const result = await response.json()
+      setPath(result.data.path)
+      setMessage(result.message || null)
+    } catch (err) {
+      console.error("[v0] Error requesting calendar feed:", err)
+      setError(err instanceof Error ? err.message : "Failed to get your calendar link")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const turnOff = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await apiFetch("/api/users/calendar", { method: "DELETE" })
+      if (!response.ok) {
+        throw new Error(await errorMessage(response, "Failed to turn off your calendar feed"))
+      }
+
+      setPath(null)
+      setMessage("Your calendar feed is off. Subscriptions using the old link will stop updating.")
+    } catch (err) {
+      console.error("[v0] Error revoking calendar feed:", err)
+      setError(err instanceof Error ? err.message : "Failed to turn off your calendar feed")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const copyLink = async () => {
+    if (!path) return
+    await navigator.clipboard.writeText(feedUrl(path))
+    setMessage("Link copied")
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        Subscribe from Google Calendar, Apple Calendar or Outlook to see the events you're leading, staffing or
+        attending. Keep the link private: anyone with it can see your commitments.
+      </p>
+
+      {path ? (
+        <>
+          <div className="flex gap-2">
+            <Input readOnly value={feedUrl(path)} className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+            <Button variant="outline" size="sm" onClick={copyLink} title="Copy link">
+              <Copy className="w-4 h-4" />
+            </Button>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button size="sm" asChild>
+              <a href={webcalUrl(path)}>
+                <CalendarPlus className="w-4 h-4 mr-2" />
+                Subscribe
+              </a>
+            </Button>
+            <Button variant="outline" size="sm" disabled={loading} onClick={() => requestLink(true)}>
+              <RefreshCw className="w-4 h-4 mr-2" />
+              Replace Link
+            </Button>
+            <Button variant="ghost" size="sm" disabled={loading} onClick={turnOff}>
+              Turn Off
+            </Button>
+          </div>
+        </>
+      ) : (
+        <Button size="sm" disabled={loading} onClick={() => requestLink(false)}>
+          {loading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <CalendarPlus className="w-4 h-4 mr-2" />}
+          Get My Calendar Link
+        </Button>
+      )}
+
+      {message && <p className="text-sm text-muted-foreground">{message}</p>}
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  )
+}
@@ -62,26 +62,36 @@ const formatDateForDisplay = (dateString: string, timezone?: string): string =>
   return date.toLocaleDateString([], { timeZone: timezone })
 }
 
+// Milliseconds the timezone is ahead of UTC at the given instant
+const getTimezoneOffset = (timezone: string, instant: number): number => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+    })
+      .formatToParts(new Date(instant))
+      .map((part) => [part.type, part.value]),
+  )
+  const wallClock = Date.UTC(+parts.year, +parts.month - 1, +parts.day, +parts.hour, +parts.minute)
+  return wallClock - (instant - (instant % 60000))
+}
+
 // Helper function to create timezone-aware date
 const createTimezoneAwareDate = (dateString: string, timeString: string, timezone?: string): Date => {
   if (timezone) {
-    // Create date in the specified timezone
+    // Read the date and time as the venue's wall clock, then find the instant it falls on
     const [year, month, day] = dateString.split("-").map(Number)
     const [hour, minute] = timeString.split(":").map(Number)
+    const wallClock = Date.UTC(year, month - 1, day, hour, minute)
 
-    // Create a date string in ISO format with timezone offset
-    const tempDate = new Date()
-    tempDate.setFullYear(year, month - 1, day)
-    tempDate.setHours(hour, minute, 0, 0)
-
-    // Get timezone offset for the specified timezone
-    const formatter = new Intl.DateTimeFormat("en", {
-      timeZone: timezone,
-      timeZoneName: "longOffset",
-    })
-
-    // This is a simplified approach - for production, consider using a library like date-fns-tz
-    return tempDate
+    // The second pass settles on the right offset when the date is on the far side of a DST change
+    const guess = wallClock - getTimezoneOffset(timezone, wallClock)
+    return new Date(wallClock - getTimezoneOffset(timezone, guess))
   } else {
     // Fallback to local timezone
     const date = new Date(dateString)
@@ -7,6 +7,7 @@ import { Input } from "@/components/ui/input"
 import { Search, Loader2 } from "lucide-react"
 import { EmmaCommunityTag } from "./community-tag"
 import type { Community } from "../../types/community"
+import { apiFetch } from "../../lib/api-client"
 
 interface EmmaCommunityModalProps {
   isOpen: boolean
@@ -54,7 +55,7 @@ export function EmmaCommunityModal({
       setLoading(true)
       setError(null)
 
-      const response = await fetch("/api/communities?active=true")
+      const response = await apiFetch("/api/communities?active=true")
       if (!response.ok) {
         throw new Error(`Failed to fetch communities: ${response.statusText}`)
       }
@@ -0,0 +1,170 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { ClipboardCheck, Loader2, RotateCcw } from "lucide-react"
+import type { CloseoutPlan, HistoryField } from "../../types/event-closeout"
+import { apiFetch } from "../../lib/api-client"
+import { EmmaPersonDisplay } from "./person-display"
+
+const FIELD_LABELS: Record<HistoryField, string> = {
+  training_events: "Training history",
+  staffed_events: "Staffed history",
+  lead_events: "Lead history",
+  mos_events: "MOS history",
+}
+
+function PersonList({ label, personIds }: { label: string; personIds: string[] }) {
+  if (personIds.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium text-gray-700">
+        {label} ({personIds.length})
+      </p>
+      <div className="flex flex-wrap gap-3">
+        {personIds.map((personId) => (
+          <EmmaPersonDisplay key={personId} personId={personId} showAvatar={true} size="w-6 h-6" />
+        ))}
+      </div>
+    </div>
+  )
+}
+
+interface EmmaEventCloseoutProps {
+  eventId: string
+  onChange?: (plan: CloseoutPlan) => void
+}
+
+export function EmmaEventCloseout({ eventId, onChange }: EmmaEventCloseoutProps) {
+  const [plan, setPlan] = useState<CloseoutPlan | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchPlan = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+
+        const response = await apiFetch(`/api/events/${eventId}/closeout`)
+        const result = await response.json()
+        if (!response.ok || !result.success) {
+          throw new Error(result.error || "Failed to fetch close-out")
+        }
+
+        setPlan(result.data)
+      } catch (err) {
+        console.error("[v0] Error fetching event close-out:", err)
+        setError(err instanceof Error ? err.message : "Failed to fetch close-out")
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchPlan()
+  }, [eventId])
+
+  const submit = async (method: "POST" | "DELETE") => {
+    if (method === "DELETE" && !confirm("Reopen this event and undo the history changes its close-out made?")) return
+
+    try {
+      setSaving(true)
+      setError(null)
+
+      const response = await apiFetch(`/api/events/${eventId}/closeout`, { method })
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || (method === "POST" ? "Failed to close the event" : "Failed to reopen the event"))
+      }
+
+      setPlan(result.data)
+      onChange?.(result.data)
+    } catch (err) {
+      console.error("[v0] Error updating event close-out:", err)
+      setError(err instanceof Error ? err.message : "Failed to update close-out")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading && !plan) {
+    return <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+  }
+
+  if (!plan) {
+    return error ? <p className="text-sm text-destructive">{error}</p> : null
+  }
+
+  const pendingByField = (Object.keys(FIELD_LABELS) as HistoryField[])
+    .map((field) => ({
+      field,
+      personIds: plan.history.filter((entry) => entry.field === field).map((entry) => entry.person_id),
+    }))
+    .filter((group) => group.personIds.length > 0)
+  const hasPending = plan.history.length > 0 || plan.rookies_to_create.length > 0 || plan.rookies_to_initiate.length > 0
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h4 className="flex items-center gap-2 text-lg font-medium text-gray-900">
+          <ClipboardCheck className="w-5 h-5" />
+          Close-out
+        </h4>
+        <div className="flex items-center gap-2">
+          {plan.closed_at ? (
+            <Badge className="bg-green-100 text-green-800 border-green-300">
+              Closed {new Date(plan.closed_at).toLocaleDateString()}
+            </Badge>
+          ) : (
+            <Badge variant="outline">Open</Badge>
+          )}
+          {(!plan.closed_at || hasPending) && (
+            <Button size="sm" onClick={() => submit("POST")} disabled={saving}>
+              {saving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <ClipboardCheck className="w-4 h-4 mr-2" />}
+              {plan.closed_at ? "Sync Close-out" : "Close Out"}
+            </Button>
+          )}
+          {plan.closed_at && (
+            <Button variant="outline" size="sm" onClick={() => submit("DELETE")} disabled={saving}>
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Reopen
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {plan.closeout && (
+        <p className="text-sm text-gray-600">
+          This close-out added {plan.closeout.history.length} history entries
+          {plan.is_nwta &&
+            `, created ${plan.closeout.created_warriors.length} rookie warriors and initiated ${plan.closeout.initiated_warriors.length} existing ones`}
+          .
+        </p>
+      )}
+
+      {hasPending ? (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-600">
+            {plan.closed_at ? "The roster has changed since the close-out." : "Closing this event will make these changes:"}
+          </p>
+          {pendingByField.map((group) => (
+            <PersonList key={group.field} label={`Add to ${FIELD_LABELS[group.field]}`} personIds={group.personIds} />
+          ))}
+          <PersonList label="Create rookie warriors" personIds={plan.rookies_to_create} />
+          <PersonList label="Record initiation" personIds={plan.rookies_to_initiate} />
+        </div>
+      ) : (
+        !plan.closed_at && <p className="text-sm text-gray-500 italic">Closing this event changes no warrior records</p>
+      )}
+
+      <PersonList label="Skipped, no warrior record" personIds={plan.skipped} />
+    </div>
+  )
+}
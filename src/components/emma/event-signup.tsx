@@ -0,0 +1,137 @@
+"use client"
+
+import { useState, type ReactNode } from "react"
+import { Button } from "@/components/ui/button"
+import { Loader2 } from "lucide-react"
+import { useAuth0 } from "../../lib/auth0-provider"
+import { useEmma } from "../../lib/emma-provider"
+import { apiFetch } from "../../lib/api-client"
+import type { EventWithRelations } from "../../types/event"
+
+type SignupRole = "staff" | "participant"
+
+interface EmmaEventSignupProps {
+  event: EventWithRelations
+  role: SignupRole
+  // Called after a successful signup or withdrawal so the page can reload the event
+  onChange?: () => void
+}
+
+const ROSTER_STATUS: Record<string, { label: string; pending: boolean }> = {
+  potential_staff: { label: "Your staff application is waiting for a leader to approve it.", pending: true },
+  alternate_staff: { label: "You are on the alternate staff list.", pending: true },
+  committed_staff: { label: "You are committed to staff this event.", pending: false },
+  potential_participants: { label: "Your registration is waiting for a leader to approve it.", pending: true },
+  waitlist_participants: { label: "You are on the waitlist for this event.", pending: true },
+  committed_participants: { label: "You are registered for this event.", pending: false },
+}
+
+const ROLE_FIELDS: Record<SignupRole, (keyof EventWithRelations)[]> = {
+  staff: ["potential_staff", "committed_staff", "alternate_staff"],
+  participant: ["potential_participants", "committed_participants", "waitlist_participants"],
+}
+
+const isWindowOpen = (event: EventWithRelations, role: SignupRole, now: Date) => {
+  const window = role === "staff" ? event.staff_published_time : event.participant_published_time
+  return !!window && event.is_active && new Date(window.start) <= now && now <= new Date(window.end)
+}
+
+export function EmmaEventSignup({ event, role, onChange }: EmmaEventSignupProps) {
+  const { isAuthenticated, loginWithPopup } = useAuth0()
+  const { emmaUser, isEmmaUserLoading } = useEmma()
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  const personId = emmaUser?.person?.id
+  const rosterField = personId
+    ? ROLE_FIELDS[role].find((field) => ((event[field] as string[] | undefined) || []).includes(personId))
+    : undefined
+  const status = rosterField ? ROSTER_STATUS[rosterField] : null
+  const isOpen = isWindowOpen(event, role, new Date())
+  const isFull =
+    role === "participant" &&
+    event.participant_capacity > 0 &&
+    event.committed_participants.length >= event.participant_capacity
+
+  const submit = async (method: "POST" | "DELETE") => {
+    setSubmitting(true)
+    setError(null)
+    setMessage(null)
+
+    try {
+      const response =
+        method === "POST"
+          ? await apiFetch(`/api/events/${event.id}/roster`, {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({ role }),
+            })
+          : await apiFetch(`/api/events/${event.id}/roster?role=${role}`, { method: "DELETE" })
+
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || "Failed to update your application")
+      }
+
+      setMessage(result.message || null)
+      onChange?.()
+    } catch (err) {
+      console.error("[v0] Error updating event signup:", err)
+      setError(err instanceof Error ? err.message : "Failed to update your application")
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const applyLabel =
+    role === "staff" ? "Apply to Staff" : isFull ? "Join the Waitlist" : "Register as a Participant"
+
+  let body: ReactNode
+  if (!isAuthenticated) {
+    if (!isOpen) {
+      return null
+    }
+    body = (
+      <Button variant="outline" onClick={loginWithPopup}>
+        Log in to {role === "staff" ? "apply" : "register"}
+      </Button>
+    )
+  } else if (isEmmaUserLoading) {
+    body = <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+  } else if (!personId) {
+    if (!isOpen) {
+      return null
+    }
+    body = <p className="text-sm text-muted-foreground">Finish joining EMMA to apply for events.</p>
+  } else if (status) {
+    body = (
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-sm font-medium">{status.label}</p>
+        {status.pending && (
+          <Button variant="outline" size="sm" onClick={() => submit("DELETE")} disabled={submitting}>
+            {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Withdraw
+          </Button>
+        )}
+      </div>
+    )
+  } else if (isOpen) {
+    body = (
+      <Button onClick={() => submit("POST")} disabled={submitting}>
+        {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+        {applyLabel}
+      </Button>
+    )
+  } else {
+    return null
+  }
+
+  return (
+    <div className="mt-4 space-y-2">
+      {body}
+      {message && <p className="text-sm text-green-700">{message}</p>}
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,367 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Copy, LayoutTemplate, Loader2, Trash2 } from "lucide-react"
+import { apiFetch } from "../../lib/api-client"
+import { formatCurrency } from "../../pages/admin/AdminEventHelperMethods"
+import { describeVenueConflicts } from "./venue-calendar"
+import type { CreatedFromTemplate, EventTemplateWithRelations, ScheduleOffset } from "../../types/event-template"
+
+const errorMessage = async (response: Response, fallback: string) => {
+  const body = await response.json().catch(() => ({}))
+  return body.details?.[0]?.message || body.error || fallback
+}
+
+// "2 days 3 hours" from the template's first session to its last
+const describeLength = (schedule: ScheduleOffset[]) => {
+  if (schedule.length === 0) return "No schedule"
+  const minutes = Math.max(...schedule.map((slot) => slot.end_offset)) - Math.min(...schedule.map((slot) => slot.start_offset))
+  const days = Math.floor(minutes / (24 * 60))
+  const hours = Math.round((minutes % (24 * 60)) / 60)
+  return [days > 0 && `${days} day${days === 1 ? "" : "s"}`, hours > 0 && `${hours} hour${hours === 1 ? "" : "s"}`]
+    .filter(Boolean)
+    .join(" ") || "Under an hour"
+}
+
+interface EmmaEventReuseProps {
+  eventId: string
+  eventName: string
+  onCreated?: (created: CreatedFromTemplate) => void
+}
+
+// Duplicate an event onto a new date, or save its format as a template for its event type
+export function EmmaEventReuse({ eventId, eventName, onCreated }: EmmaEventReuseProps) {
+  const [mode, setMode] = useState<"duplicate" | "template" | null>(null)
+  const [startAt, setStartAt] = useState("")
+  const [name, setName] = useState("")
+  const [description, setDescription] = useState("")
+  const [shared, setShared] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  const open = (next: "duplicate" | "template") => {
+    setMode(next)
+    setStartAt("")
+    setName(eventName)
+    setDescription("")
+    setShared(false)
+    setError(null)
+  }
+
+  const save = async () => {
+    try {
+      setSaving(true)
+      setError(null)
+
+      const response =
+        mode === "duplicate"
+          ? await apiFetch(`/api/events/${eventId}/duplicate`, {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({ start_at: new Date(startAt).toISOString(), name: name.trim() || undefined }),
+            })
+          : await apiFetch(`/api/events/${eventId}/template`, {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({ name: name.trim(), description: description || null, shared }),
+            })
+
+      if (!response.ok) {
+        throw new Error(
+          await errorMessage(response, mode === "duplicate" ? "Failed to duplicate event" : "Failed to save template"),
+        )
+      }
+
+      const result = await response.json()
+      if (mode === "duplicate") {
+        const created: CreatedFromTemplate = result.data
+        setMessage(
+          created.conflicts.length > 0 ? `${result.message}. ${describeVenueConflicts(created.conflicts)}` : result.message,
+        )
+        onCreated?.(created)
+      } else {
+        setMessage(result.message)
+      }
+      setMode(null)
+    } catch (err) {
+      console.error("[v0] Error reusing event:", err)
+      setError(err instanceof Error ? err.message : "Failed to save")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h4 className="flex items-center gap-2 text-lg font-medium text-gray-900">
+          <Copy className="w-5 h-5" />
+          Run Again
+        </h4>
+        <div className="flex items-center gap-2">
+          <Button size="sm" variant="outline" onClick={() => open("duplicate")}>
+            <Copy className="w-4 h-4 mr-2" />
+            Duplicate
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => open("template")}>
+            <LayoutTemplate className="w-4 h-4 mr-2" />
+            Save as Template
+          </Button>
+        </div>
+      </div>
+      {message && <p className="text-sm text-green-700">{message}</p>}
+
+      <Dialog open={mode !== null} onOpenChange={(isOpen) => !isOpen && setMode(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{mode === "duplicate" ? "Duplicate Event" : "Save as Template"}</DialogTitle>
+            <DialogDescription>
+              {mode === "duplicate"
+                ? "Copies the schedule, costs, capacities, venue and roles onto a new start. Rosters, leaders and role assignments start empty, and the copy is unpublished."
+                : "Keeps the schedule, costs, capacities, venue and roles so future events of this type can start from them."}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            {mode === "duplicate" && (
+              <div>
+                <Label>New Start</Label>
+                <Input type="datetime-local" value={startAt} onChange={(e) => setStartAt(e.target.value)} />
+                <p className="mt-1 text-xs text-muted-foreground">
+                  When the first participant session begins; every other time moves with it.
+                </p>
+              </div>
+            )}
+            <div>
+              <Label>{mode === "duplicate" ? "Event Name" : "Template Name"}</Label>
+              <Input value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+            {mode === "template" && (
+              <>
+                <div>
+                  <Label>Description</Label>
+                  <Textarea value={description} onChange={(e) => setDescription(e.target.value)} rows={3} />
+                </div>
+                <label className="flex items-center gap-2 text-sm">
+                  <input type="checkbox" checked={shared} onChange={(e) => setShared(e.target.checked)} />
+                  Share with every area (national admins only)
+                </label>
+              </>
+            )}
+            {error && <p className="text-sm text-red-600">{error}</p>}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMode(null)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={save} disabled={saving || !name.trim() || (mode === "duplicate" && !startAt)}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {mode === "duplicate" ? "Duplicate" : "Save Template"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
+
+interface EmmaEventTemplateDialogProps {
+  open: boolean
+  isNwta: boolean
+  onClose: () => void
+  onCreated: (created: CreatedFromTemplate) => void
+}
+
+// Starts a new event from one of the templates the caller can use
+export function EmmaEventTemplateDialog({ open, isNwta, onClose, onCreated }: EmmaEventTemplateDialogProps) {
+  const [templates, setTemplates] = useState<EventTemplateWithRelations[]>([])
+  const [templateId, setTemplateId] = useState("")
+  const [startAt, setStartAt] = useState("")
+  const [name, setName] = useState("")
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!open) return
+
+    const fetchTemplates = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+        setTemplateId("")
+        setStartAt("")
+        setName("")
+
+        const response = await apiFetch(`/api/event-templates?is_nwta=${isNwta}&active=true&pageSize=200`)
+        if (!response.ok) {
+          throw new Error(await errorMessage(response, "Failed to fetch templates"))
+        }
+
+        const result = await response.json()
+        setTemplates(result.data || [])
+      } catch (err) {
+        console.error("[v0] Error fetching event templates:", err)
+        setError(err instanceof Error ? err.message : "Failed to fetch templates")
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchTemplates()
+  }, [open, isNwta])
+
+  const template = templates.find((candidate) => candidate.id === templateId)
+
+  const create = async () => {
+    if (!template) return
+
+    try {
+      setSaving(true)
+      setError(null)
+
+      const response = await apiFetch(`/api/event-templates/${template.id}/events`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ start_at: new Date(startAt).toISOString(), name: name.trim() || undefined }),
+      })
+      if (!response.ok) {
+        throw new Error(await errorMessage(response, "Failed to create event"))
+      }
+
+      const result = await response.json()
+      onCreated(result.data)
+    } catch (err) {
+      console.error("[v0] Error creating event from template:", err)
+      setError(err instanceof Error ? err.message : "Failed to create event")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const remove = async () => {
+    if (!template || !confirm(`Delete the template "${template.name}"? Events created from it are kept.`)) return
+
+    try {
+      setSaving(true)
+      setError(null)
+
+      const response = await apiFetch(`/api/event-templates/${template.id}`, { method: "DELETE" })
+      if (!response.ok) {
+        throw new Error(await errorMessage(response, "Failed to delete template"))
+      }
+
+      setTemplates((prev) => prev.filter((candidate) => candidate.id !== template.id))
+      setTemplateId("")
+    } catch (err) {
+      console.error("[v0] Error deleting event template:", err)
+      setError(err instanceof Error ? err.message : "Failed to delete template")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>New {isNwta ? "NWTA" : "Event"} from Template</DialogTitle>
+          <DialogDescription>
+            The template's schedule is laid down from the start you choose. Templates are saved from an existing
+            event's details.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+        ) : templates.length === 0 ? (
+          <p className="text-sm text-gray-500">No templates yet. Open an event and choose "Save as Template".</p>
+        ) : (
+          <div className="space-y-4">
+            <div>
+              <Label>Template</Label>
+              <Select
+                value={templateId}
+                onValueChange={(value) => {
+                  setTemplateId(value)
+                  setName(templates.find((candidate) => candidate.id === value)?.name || "")
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a template" />
+                </SelectTrigger>
+                <SelectContent>
+                  {templates.map((candidate) => (
+                    <SelectItem key={candidate.id} value={candidate.id}>
+                      {candidate.name}
+                      {candidate.event_type ? ` (${candidate.event_type.code})` : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {template && (
+              <div className="rounded-md border p-3 text-sm space-y-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  {template.event_type && <Badge variant="outline">{template.event_type.name}</Badge>}
+                  <Badge variant="outline">{template.area ? template.area.name : "Shared"}</Badge>
+                  {template.venue && <Badge variant="outline">{template.venue.name}</Badge>}
+                </div>
+                {template.description && <p className="text-gray-600">{template.description}</p>}
+                <p className="text-gray-600">
+                  {describeLength(template.participant_schedule)} · {template.participant_capacity || "Unlimited"}{" "}
+                  participants at {formatCurrency(template.participant_cost)} · {template.staff_capacity || "Unlimited"}{" "}
+                  staff at {formatCurrency(template.staff_cost)}
+                  {template.is_nwta && ` · ${template.roles.length} roles`}
+                </p>
+              </div>
+            )}
+
+            <div>
+              <Label>Start</Label>
+              <Input type="datetime-local" value={startAt} onChange={(e) => setStartAt(e.target.value)} />
+            </div>
+            <div>
+              <Label>Event Name</Label>
+              <Input value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+          </div>
+        )}
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <DialogFooter>
+          {template && (
+            <Button variant="outline" className="mr-auto text-red-700" onClick={remove} disabled={saving}>
+              <Trash2 className="w-4 h-4 mr-2" />
+              Delete Template
+            </Button>
+          )}
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={create} disabled={saving || !template || !startAt || !name.trim()}>
+            {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Create {isNwta ? "NWTA" : "Event"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,259 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Download, Loader2 } from "lucide-react"
+import type { AreaFinanceRollup, EventFinanceReport } from "../../types/finance"
+import { apiDownload, apiFetch } from "../../lib/api-client"
+
+const formatCurrency = (cents: number) => {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  }).format(cents / 100)
+}
+
+const signedClass = (cents: number) => (cents < 0 ? "text-red-600" : cents > 0 ? "text-green-700" : "text-gray-900")
+
+type FinanceTotals = Pick<
+  EventFinanceReport,
+  | "expected_revenue"
+  | "payments"
+  | "refunds"
+  | "net_revenue"
+  | "expenses"
+  | "reimbursements"
+  | "net_income"
+  | "variance"
+  | "outstanding"
+>
+
+function FinanceSummary({ totals }: { totals: FinanceTotals }) {
+  const figures: Array<{ label: string; value: number; signed?: boolean }> = [
+    { label: "Expected Revenue", value: totals.expected_revenue },
+    { label: "Payments", value: totals.payments },
+    { label: "Refunds", value: totals.refunds },
+    { label: "Net Revenue", value: totals.net_revenue },
+    { label: "Expenses", value: totals.expenses },
+    { label: "Reimbursements", value: totals.reimbursements },
+    { label: "Net Income", value: totals.net_income, signed: true },
+    { label: "Budget Variance", value: totals.variance, signed: true },
+    { label: "Outstanding", value: totals.outstanding },
+  ]
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm">
+      {figures.map((figure) => (
+        <div key={figure.label}>
+          <p className="font-medium text-gray-700">{figure.label}</p>
+          <p className={figure.signed ? signedClass(figure.value) : "text-gray-900"}>{formatCurrency(figure.value)}</p>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+function useFinanceReport<T>(path: string | null, refreshKey?: unknown) {
+  const [report, setReport] = useState<T | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!path) {
+      setReport(null)
+      return
+    }
+
+    const fetchReport = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+
+        const response = await apiFetch(path)
+        const result = await response.json()
+        if (!response.ok || !result.success) {
+          throw new Error(result.error || "Failed to fetch financial report")
+        }
+
+        setReport(result.data)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to fetch financial report")
+        console.error("[v0] Error fetching financial report:", err)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchReport()
+  }, [path, refreshKey])
+
+  return { report, loading, error, setError }
+}
+
+interface ExportButtonProps {
+  path: string
+  filename: string
+  onError: (message: string) => void
+}
+
+function ExportButton({ path, filename, onError }: ExportButtonProps) {
+  const [exporting, setExporting] = useState(false)
+
+  const exportCsv = async () => {
+    try {
+      setExporting(true)
+      await apiDownload(`${path}${path.includes("?") ? "&" : "?"}format=csv`, filename)
+    } catch (err) {
+      console.error("[v0] Error exporting financial report:", err)
+      onError(err instanceof Error ? err.message : "Failed to export financial report")
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  return (
+    <Button variant="outline" size="sm" onClick={exportCsv} disabled={exporting}>
+      {exporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+      Export CSV
+    </Button>
+  )
+}
+
+interface EmmaEventFinanceReportProps {
+  eventId: string
+  refreshKey?: unknown // change to refetch, e.g. after transactions are edited
+}
+
+export function EmmaEventFinanceReport({ eventId, refreshKey }: EmmaEventFinanceReportProps) {
+  const path = `/api/events/${eventId}/finance`
+  const { report, loading, error, setError } = useFinanceReport<EventFinanceReport>(path, refreshKey)
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="text-lg font-medium text-gray-900">Financial Report</h4>
+        {report && <ExportButton path={path} filename={`${report.event_name}-finance.csv`} onError={setError} />}
+      </div>
+
+      {loading && !report ? (
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      ) : error ? (
+        <p className="text-sm text-destructive">{error}</p>
+      ) : report ? (
+        <>
+          <FinanceSummary totals={report} />
+          <p className="text-sm text-gray-600">
+            Expected from {report.committed_staff} committed staff ({formatCurrency(report.expected_staff_revenue)})
+            and {report.committed_participants} committed participants (
+            {formatCurrency(report.expected_participant_revenue)}).
+          </p>
+
+          {report.receivables.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Person</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead className="text-right">Expected</TableHead>
+                  <TableHead className="text-right">Paid</TableHead>
+                  <TableHead className="text-right">Outstanding</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.receivables.map((receivable) => (
+                  <TableRow key={`${receivable.role}-${receivable.person_id}`}>
+                    <TableCell>
+                      {[receivable.first_name, receivable.last_name].filter(Boolean).join(" ") || "Unknown person"}
+                    </TableCell>
+                    <TableCell className="capitalize">{receivable.role}</TableCell>
+                    <TableCell className="text-right font-mono">{formatCurrency(receivable.expected)}</TableCell>
+                    <TableCell className="text-right font-mono">{formatCurrency(receivable.paid)}</TableCell>
+                    <TableCell
+                      className={`text-right font-mono ${receivable.outstanding > 0 ? "text-red-600" : "text-gray-900"}`}
+                    >
+                      {formatCurrency(receivable.outstanding)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </>
+      ) : null}
+    </div>
+  )
+}
+
+interface EmmaAreaFinanceReportProps {
+  areaId: string
+}
+
+export function EmmaAreaFinanceReport({ areaId }: EmmaAreaFinanceReportProps) {
+  const [from, setFrom] = useState("")
+  const [to, setTo] = useState("")
+
+  const params = new URLSearchParams()
+  if (from) params.set("from", from)
+  if (to) params.set("to", to)
+  const path = `/api/areas/${areaId}/finance${params.toString() ? `?${params.toString()}` : ""}`
+  const { report, loading, error, setError } = useFinanceReport<AreaFinanceRollup>(path)
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <h4 className="font-medium text-gray-900">Financial Rollup</h4>
+        <div className="flex flex-wrap items-end gap-2">
+          <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="w-40" aria-label="From" />
+          <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="w-40" aria-label="To" />
+          {report && <ExportButton path={path} filename={`${report.area_name}-finance.csv`} onError={setError} />}
+        </div>
+      </div>
+
+      {loading && !report ? (
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      ) : error ? (
+        <p className="text-sm text-destructive">{error}</p>
+      ) : report ? (
+        <>
+          <FinanceSummary totals={report} />
+
+          {report.events.length === 0 ? (
+            <p className="text-sm text-gray-500 italic">No events in this period</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Event</TableHead>
+                  <TableHead className="text-right">Expected</TableHead>
+                  <TableHead className="text-right">Net Revenue</TableHead>
+                  <TableHead className="text-right">Net Income</TableHead>
+                  <TableHead className="text-right">Outstanding</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.events.map((event) => (
+                  <TableRow key={event.event_id}>
+                    <TableCell>
+                      <div>{event.event_name}</div>
+                      {event.starts_at && (
+                        <div className="text-xs text-gray-500">{new Date(event.starts_at).toLocaleDateString()}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">{formatCurrency(event.expected_revenue)}</TableCell>
+                    <TableCell className="text-right font-mono">{formatCurrency(event.net_revenue)}</TableCell>
+                    <TableCell className={`text-right font-mono ${signedClass(event.net_income)}`}>
+                      {formatCurrency(event.net_income)}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">{formatCurrency(event.outstanding)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </>
+      ) : null}
+    </div>
+  )
+}
@@ -0,0 +1,504 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Link } from "react-router-dom"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { AlertTriangle, ClipboardCheck, Loader2 } from "lucide-react"
+import { apiFetch } from "../../lib/api-client"
+import type {
+  CheckInAlert,
+  CheckInAlertKind,
+  CheckInRollup,
+  CheckInRollupRow,
+  GroupCheckInHistory,
+} from "../../types/group-check-in"
+
+export const CHECK_IN_ALERT_LABELS: Record<CheckInAlertKind, string> = {
+  missed_check_ins: "Missed check-ins",
+  declining_attendance: "Declining attendance",
+  not_meeting: "Not meeting",
+  needs_support: "Needs support",
+}
+
+const CHECK_IN_ALERT_COLORS: Record<CheckInAlertKind, string> = {
+  missed_check_ins: "bg-amber-100 text-amber-800",
+  declining_attendance: "bg-amber-100 text-amber-800",
+  not_meeting: "bg-red-100 text-red-800",
+  needs_support: "bg-red-100 text-red-800",
+}
+
+const monthLabel = (period: string) =>
+  new Date(`${period}T00:00:00Z`).toLocaleString("en-US", { month: "long", year: "numeric", timeZone: "UTC" })
+
+const emptyCheckIn = (period: string) => ({
+  period: period.slice(0, 7),
+  meetings_held: "",
+  average_attendance: "",
+  visitors: "0",
+  open_seats: "0",
+  needs_support: false,
+  support_note: "",
+})
+
+function AlertBadges({ alerts }: { alerts: CheckInAlert[] }) {
+  return (
+    <div className="flex flex-wrap gap-1">
+      {alerts.map((alert) => (
+        <Badge key={alert.kind} className={CHECK_IN_ALERT_COLORS[alert.kind]} title={alert.detail}>
+          {CHECK_IN_ALERT_LABELS[alert.kind]}
+        </Badge>
+      ))}
+    </div>
+  )
+}
+
+interface EmmaGroupCheckInProps {
+  groupId: string
+}
+
+/*
+ * The monthly check-in form and history for an I-Group's contact. Hidden from everyone who can't
+ * file check-ins for the group.
+ */
+export function EmmaGroupCheckIn({ groupId }: EmmaGroupCheckInProps) {
+  const [history, setHistory] = useState<GroupCheckInHistory | null>(null)
+  const [form, setForm] = useState(emptyCheckIn(""))
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const [forbidden, setForbidden] = useState(false)
+  const [refreshKey, setRefreshKey] = useState(0)
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      try {
+        setLoading(true)
+        const response = await apiFetch(`/api/i-groups/${groupId}/check-ins`)
+        if (response.status === 401 || response.status === 403) {
+          setForbidden(true)
+          return
+        }
+        const result = await response.json()
+        if (!response.ok || !result.success) {
+          throw new Error(result.error || "Failed to fetch check-ins")
+        }
+        const data = result.data as GroupCheckInHistory
+        setHistory(data)
+        setForm((current) => (current.period ? current : emptyCheckIn(data.due_period)))
+      } catch (err) {
+        console.error("[v0] Error fetching check-ins:", err)
+        setError(err instanceof Error ? err.message : "Failed to fetch check-ins")
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchHistory()
+  }, [groupId, refreshKey])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    try {
+      setSaving(true)
+      setError(null)
+      setMessage(null)
+
+      const response = await apiFetch(`/api/i-groups/${groupId}/check-ins`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          period: form.period,
+          meetings_held: Number(form.meetings_held),
+          average_attendance: Number(form.average_attendance),
+          visitors: Number(form.visitors),
+          open_seats: Number(form.open_seats),
+          needs_support: form.needs_support,
+          support_note: form.needs_support ? form.support_note || null : null,
+        }),
+      })
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || "Failed to save check-in")
+      }
+
+      setMessage(`Check-in for ${monthLabel(`${form.period}-01`)} saved`)
+      setRefreshKey((key) => key + 1)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save check-in")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (forbidden) {
+    return null
+  }
+
+  const isDue = !!history && !history.check_ins.some((checkIn) => checkIn.period === history.due_period)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardCheck className="h-5 w-5" />
+          Monthly Check-in
+        </CardTitle>
+        <CardDescription>
+          {history && isDue
+            ? `The check-in for ${monthLabel(history.due_period)} is due.`
+            : "A few numbers each month help the community coordinator see how the group is doing."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading && !history ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+          </div>
+        ) : (
+          <>
+            {history && history.alerts.length > 0 && (
+              <div className="rounded-lg border border-amber-200 bg-amber-50 p-3 space-y-1">
+                {history.alerts.map((alert) => (
+                  <p key={alert.kind} className="text-sm text-amber-900">
+                    <span className="font-medium">{CHECK_IN_ALERT_LABELS[alert.kind]}:</span> {alert.detail}
+                  </p>
+                ))}
+              </div>
+            )}
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="check_in_period">Month</Label>
+                  <Input
+                    id="check_in_period"
+                    type="month"
+                    value={form.period}
+                    onChange={(e) => setForm({ ...form, period: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="check_in_meetings">Meetings held</Label>
+                  <Input
+                    id="check_in_meetings"
+                    type="number"
+                    min={0}
+                    value={form.meetings_held}
+                    onChange={(e) => setForm({ ...form, meetings_held: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="check_in_attendance">Average attendance</Label>
+                  <Input
+                    id="check_in_attendance"
+                    type="number"
+                    min={0}
+                    step={0.1}
+                    value={form.average_attendance}
+                    onChange={(e) => setForm({ ...form, average_attendance: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="check_in_visitors">Visitors</Label>
+                  <Input
+                    id="check_in_visitors"
+                    type="number"
+                    min={0}
+                    value={form.visitors}
+                    onChange={(e) => setForm({ ...form, visitors: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="check_in_open_seats">Open seats</Label>
+                  <Input
+                    id="check_in_open_seats"
+                    type="number"
+                    min={0}
+                    value={form.open_seats}
+                    onChange={(e) => setForm({ ...form, open_seats: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="check_in_needs_support"
+                  checked={form.needs_support}
+                  onCheckedChange={(checked) => setForm({ ...form, needs_support: checked === true })}
+                />
+                <Label htmlFor="check_in_needs_support">The group needs support from the community</Label>
+              </div>
+
+              {form.needs_support && (
+                <Textarea
+                  placeholder="What would help?"
+                  value={form.support_note}
+                  onChange={(e) => setForm({ ...form, support_note: e.target.value })}
+                  rows={2}
+                />
+              )}
+
+              {error && <p className="text-sm text-red-600">{error}</p>}
+              {message && <p className="text-sm text-green-700">{message}</p>}
+
+              <Button type="submit" disabled={saving}>
+                {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Save Check-in
+              </Button>
+            </form>
+
+            {history && history.check_ins.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Month</TableHead>
+                    <TableHead className="text-right">Meetings</TableHead>
+                    <TableHead className="text-right">Attendance</TableHead>
+                    <TableHead className="text-right">Visitors</TableHead>
+                    <TableHead className="text-right">Open Seats</TableHead>
+                    <TableHead>Support</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {history.check_ins.map((checkIn) => (
+                    <TableRow
+                      key={checkIn.id}
+                      className="cursor-pointer"
+                      onClick={() =>
+                        setForm({
+                          period: checkIn.period.slice(0, 7),
+                          meetings_held: String(checkIn.meetings_held),
+                          average_attendance: String(checkIn.average_attendance),
+                          visitors: String(checkIn.visitors),
+                          open_seats: String(checkIn.open_seats),
+                          needs_support: checkIn.needs_support,
+                          support_note: checkIn.support_note || "",
+                        })
+                      }
+                    >
+                      <TableCell>{monthLabel(checkIn.period)}</TableCell>
+                      <TableCell className="text-right">{checkIn.meetings_held}</TableCell>
+                      <TableCell className="text-right">{checkIn.average_attendance}</TableCell>
+                      <TableCell className="text-right">{checkIn.visitors}</TableCell>
+                      <TableCell className="text-right">{checkIn.open_seats}</TableCell>
+                      <TableCell>{checkIn.needs_support ? checkIn.support_note || "Requested" : "—"}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+// Alerts for the groups the signed-in coordinator, contact or admin looks after; renders nothing when all is well
+export function EmmaCheckInAlerts() {
+  const [alerts, setAlerts] = useState<CheckInAlert[]>([])
+
+  useEffect(() => {
+    const fetchAlerts = async () => {
+      try {
+        const response = await apiFetch("/api/i-groups/check-in-alerts")
+        if (!response.ok) {
+          return
+        }
+        const result = await response.json()
+        setAlerts(result.data || [])
+      } catch (err) {
+        console.error("[v0] Error fetching check-in alerts:", err)
+      }
+    }
+
+    fetchAlerts()
+  }, [])
+
+  if (alerts.length === 0) {
+    return null
+  }
+
+  const byGroup = new Map<string, CheckInAlert[]>()
+  for (const alert of alerts) {
+    byGroup.set(alert.i_group_id, [...(byGroup.get(alert.i_group_id) || []), alert])
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <AlertTriangle className="w-5 h-5 text-amber-600" />
+          I-Group Alerts
+        </CardTitle>
+        <CardDescription>Groups that have missed check-ins or may be struggling.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {[...byGroup.entries()].map(([groupId, groupAlerts]) => (
+          <div key={groupId} className="flex flex-wrap items-start justify-between gap-2">
+            <div>
+              <Link to={`/i-group/${groupId}`} className="font-medium hover:underline">
+                {groupAlerts[0].i_group_name}
+              </Link>
+              {groupAlerts[0].community_name && (
+                <p className="text-xs text-muted-foreground">{groupAlerts[0].community_name}</p>
+              )}
+              {groupAlerts.map((alert) => (
+                <p key={alert.kind} className="text-xs text-muted-foreground">
+                  {alert.detail}
+                </p>
+              ))}
+            </div>
+            <AlertBadges alerts={groupAlerts} />
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
+
+function RollupTable({ title, rows }: { title: string; rows: CheckInRollupRow[] }) {
+  return (
+    <div>
+      <h4 className="font-medium text-sm mb-2">{title}</h4>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Name</TableHead>
+            <TableHead className="text-right">Reporting</TableHead>
+            <TableHead className="text-right">Meetings</TableHead>
+            <TableHead className="text-right">Avg Attendance</TableHead>
+            <TableHead className="text-right">Visitors</TableHead>
+            <TableHead className="text-right">Open Seats</TableHead>
+            <TableHead className="text-right">Need Support</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((row) => (
+            <TableRow key={row.key ?? "none"}>
+              <TableCell>{row.label}</TableCell>
+              <TableCell className="text-right">
+                {row.groups_reporting} / {row.groups_active}
+              </TableCell>
+              <TableCell className="text-right">{row.meetings_held}</TableCell>
+              <TableCell className="text-right">{row.average_attendance}</TableCell>
+              <TableCell className="text-right">{row.visitors}</TableCell>
+              <TableCell className="text-right">{row.open_seats}</TableCell>
+              <TableCell className="text-right">{row.needs_support}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
+
+// Check-ins across all I-Groups, by area and community
+export function EmmaCheckInRollup() {
+  const [rollup, setRollup] = useState<CheckInRollup | null>(null)
+  const [months, setMonths] = useState(3)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchRollup = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+        const response = await apiFetch(`/api/i-groups/stats?check_ins=true&months=${months}`)
+        if (!response.ok) {
+          throw new Error(`Failed to fetch check-in summary: ${response.statusText}`)
+        }
+        const result = await response.json()
+        setRollup((result.data?.check_ins as CheckInRollup) || null)
+      } catch (err) {
+        console.error("[v0] Error fetching check-in summary:", err)
+        setError(err instanceof Error ? err.message : "Failed to fetch check-in summary")
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchRollup()
+  }, [months])
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-start gap-4">
+          <div>
+            <CardTitle>Monthly Check-ins</CardTitle>
+            <CardDescription>
+              {rollup
+                ? `What groups reported from ${monthLabel(rollup.since)} to ${monthLabel(rollup.until)}.`
+                : "What groups reported in their monthly check-ins."}
+            </CardDescription>
+          </div>
+          <Select value={String(months)} onValueChange={(value) => setMonths(Number(value))}>
+            <SelectTrigger className="h-8 w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {[1, 3, 6, 12].map((option) => (
+                <SelectItem key={option} value={String(option)}>
+                  Last {option === 1 ? "month" : `${option} months`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading && !rollup ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : rollup ? (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+              <div className="rounded-lg p-3 bg-gray-100 text-gray-800">
+                <p className="text-xs">Groups reporting</p>
+                <p className="text-2xl font-bold">
+                  {rollup.totals.groups_reporting} / {rollup.totals.groups_active}
+                </p>
+              </div>
+              <div className="rounded-lg p-3 bg-blue-100 text-blue-800">
+                <p className="text-xs">Meetings</p>
+                <p className="text-2xl font-bold">{rollup.totals.meetings_held}</p>
+              </div>
+              <div className="rounded-lg p-3 bg-green-100 text-green-800">
+                <p className="text-xs">Avg attendance</p>
+                <p className="text-2xl font-bold">{rollup.totals.average_attendance}</p>
+              </div>
+              <div className="rounded-lg p-3 bg-purple-100 text-purple-800">
+                <p className="text-xs">Visitors</p>
+                <p className="text-2xl font-bold">{rollup.totals.visitors}</p>
+              </div>
+              <div className="rounded-lg p-3 bg-amber-100 text-amber-800">
+                <p className="text-xs">Need support</p>
+                <p className="text-2xl font-bold">{rollup.totals.needs_support}</p>
+              </div>
+            </div>
+            {rollup.by_area.length > 0 && <RollupTable title="By Area" rows={rollup.by_area} />}
+            {rollup.by_community.length > 0 && <RollupTable title="By Community" rows={rollup.by_community} />}
+          </div>
+        ) : null}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,716 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Link } from "react-router-dom"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { ArrowRightLeft, Download, History, Loader2, UserMinus, UserPlus, Users } from "lucide-react"
+import { EmmaPeopleDropdown } from "./people-dropdown"
+import { apiDownload, apiFetch } from "../../lib/api-client"
+import type {
+  GroupHealthFlag,
+  GroupHealthReport,
+  GroupHistoryEntry,
+  GroupMemberRole,
+  GroupRoster,
+  MembershipEndReason,
+  RosterMember,
+} from "../../types/group-roster"
+
+export const MEMBER_ROLE_LABELS: Record<GroupMemberRole, string> = {
+  contact: "Contact",
+  facilitator: "Facilitator",
+  member: "Member",
+}
+
+const MEMBER_ROLE_COLORS: Record<GroupMemberRole, string> = {
+  contact: "bg-blue-100 text-blue-800",
+  facilitator: "bg-purple-100 text-purple-800",
+  member: "bg-gray-100 text-gray-700",
+}
+
+const END_REASON_LABELS: Record<MembershipEndReason, string> = {
+  left: "Left",
+  removed: "Removed",
+  transferred: "Transferred",
+}
+
+export const HEALTH_FLAG_LABELS: Record<GroupHealthFlag, string> = {
+  shrinking: "Shrinking",
+  below_minimum: "Below minimum",
+  no_contact: "No contact",
+  contact_left: "Contact left",
+  contact_unreachable: "Contact unreachable",
+}
+
+const HEALTH_FLAG_COLORS: Record<GroupHealthFlag, string> = {
+  shrinking: "bg-amber-100 text-amber-800",
+  below_minimum: "bg-red-100 text-red-800",
+  no_contact: "bg-red-100 text-red-800",
+  contact_left: "bg-amber-100 text-amber-800",
+  contact_unreachable: "bg-amber-100 text-amber-800",
+}
+
+const fullName = (member: RosterMember) =>
+  member.person ? `${member.person.first_name} ${member.person.last_name}` : "Unknown person"
+
+type RosterDialog = { mode: "add" } | { mode: "remove"; member: RosterMember } | { mode: "transfer"; member: RosterMember }
+
+const emptyForm = {
+  person_id: null as string | null,
+  role: "member" as GroupMemberRole,
+  date: "",
+  reason: "left" as Exclude<MembershipEndReason, "transferred">,
+  to_i_group_id: "",
+  notes: "",
+}
+
+interface EmmaGroupRosterProps {
+  groupId: string
+  onChange?: () => void
+}
+
+/*
+ * An I-Group's roster with roles and join dates, plus everyone who has left. The group's contact,
+ * its community coordinator and area admins can add, remove and transfer members and change roles;
+ * anyone else sees the roster read-only. Hidden from visitors who aren't signed in as warriors.
+ */
+export function EmmaGroupRoster({ groupId, onChange }: EmmaGroupRosterProps) {
+  const [roster, setRoster] = useState<GroupRoster | null>(null)
+  const [groups, setGroups] = useState<{ id: string; name: string }[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [forbidden, setForbidden] = useState(false)
+  const [refreshKey, setRefreshKey] = useState(0)
+  const [dialog, setDialog] = useState<RosterDialog | null>(null)
+  const [form, setForm] = useState(emptyForm)
+  const [saving, setSaving] = useState(false)
+  const [formError, setFormError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchRoster = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+        const response = await apiFetch(`/api/i-groups/${groupId}/roster`)
+        if (response.status === 401 || response.status === 403) {
+          setForbidden(true)
+          return
+        }
+        const result = await response.json()
+        if (!response.ok || !result.success) {
+          throw new Error(result.error || "Failed to fetch roster")
+        }
+        setRoster(result.data as GroupRoster)
+      } catch (err) {
+        console.error("[v0] Error fetching roster:", err)
+        setError(err instanceof Error ? err.message : "Failed to fetch roster")
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchRoster()
+  }, [groupId, refreshKey])
+
+  const openDialog = async (next: RosterDialog) => {
+    setForm(emptyForm)
+    setFormError(null)
+    setDialog(next)
+
+    if (next.mode === "transfer" && groups.length === 0) {
+      try {
+        const response = await apiFetch("/api/i-groups?active=true&pageSize=200")
+        const result = await response.json()
+        if (result.success) {
+          setGroups((result.data || []).filter((group: { id: string }) => group.id !== groupId))
+        }
+      } catch (err) {
+        console.error("[v0] Error fetching I-Groups for transfer:", err)
+      }
+    }
+  }
+
+  const afterChange = () => {
+    setDialog(null)
+    setRefreshKey((key) => key + 1)
+    onChange?.()
+  }
+
+  const send = async (path: string, init: RequestInit) => {
+    const response = await apiFetch(path, {
+      ...init,
+      headers: { "Content-Type": "application/json" },
+    })
+    const result = await response.json()
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || "Failed to update roster")
+    }
+    return result
+  }
+
+  const handleSave = async () => {
+    if (!dialog) return
+
+    try {
+      setSaving(true)
+      setFormError(null)
+
+      if (dialog.mode === "add") {
+        if (!form.person_id) {
+          setFormError("Choose who is joining")
+          return
+        }
+        await send(`/api/i-groups/${groupId}/roster`, {
+          method: "POST",
+          body: JSON.stringify({
+            person_id: form.person_id,
+            role: form.role,
+            joined_on: form.date || undefined,
+            notes: form.notes || null,
+          }),
+        })
+      } else if (dialog.mode === "remove") {
+        const params = new URLSearchParams({ person_id: dialog.member.person_id, reason: form.reason })
+        if (form.date) params.set("left_on", form.date)
+        if (form.notes) params.set("notes", form.notes)
+        await send(`/api/i-groups/${groupId}/roster?${params.toString()}`, { method: "DELETE" })
+      } else {
+        if (!form.to_i_group_id) {
+          setFormError("Choose the group they are moving to")
+          return
+        }
+        await send(`/api/i-groups/${groupId}/transfer`, {
+          method: "POST",
+          body: JSON.stringify({
+            person_id: dialog.member.person_id,
+            to_i_group_id: form.to_i_group_id,
+            transferred_on: form.date || undefined,
+            notes: form.notes || null,
+          }),
+        })
+      }
+
+      afterChange()
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : "Failed to update roster")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleRoleChange = async (member: RosterMember, role: GroupMemberRole) => {
+    try {
+      setError(null)
+      await send(`/api/i-groups/${groupId}/roster`, {
+        method: "PUT",
+        body: JSON.stringify({ person_id: member.person_id, role }),
+      })
+      afterChange()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to change role")
+    }
+  }
+
+  if (forbidden) {
+    return null
+  }
+
+  const canManage = !!roster?.can_manage
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-start gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Roster
+            </CardTitle>
+            <CardDescription>Who is in the circle, their role and when they joined.</CardDescription>
+          </div>
+          {canManage && (
+            <Button size="sm" onClick={() => openDialog({ mode: "add" })}>
+              <UserPlus className="w-4 h-4 mr-2" />
+              Add Member
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        {loading && !roster ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+          </div>
+        ) : roster ? (
+          <>
+            {roster.current.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No current members recorded</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TableHead>Joined</TableHead>
+                    {canManage && <TableHead className="text-right">Actions</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {roster.current.map((member) => (
+                    <TableRow key={member.id}>
+                      <TableCell>
+                        <Link to={`/warrior/${member.person_id}`} className="hover:underline">
+                          {fullName(member)}
+                        </Link>
+                      </TableCell>
+                      <TableCell>
+                        {canManage ? (
+                          <Select
+                            value={member.role}
+                            onValueChange={(value) => handleRoleChange(member, value as GroupMemberRole)}
+                          >
+                            <SelectTrigger className="h-8 w-36">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {Object.entries(MEMBER_ROLE_LABELS).map(([role, label]) => (
+                                <SelectItem key={role} value={role}>
+                                  {label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          <Badge className={MEMBER_ROLE_COLORS[member.role]}>{MEMBER_ROLE_LABELS[member.role]}</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>{member.joined_on}</TableCell>
+                      {canManage && (
+                        <TableCell className="text-right space-x-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Transfer to another group"
+                            onClick={() => openDialog({ mode: "transfer", member })}
+                          >
+                            <ArrowRightLeft className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Record leaving"
+                            onClick={() => openDialog({ mode: "remove", member })}
+                          >
+                            <UserMinus className="w-4 h-4" />
+                          </Button>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            {roster.past.length > 0 && (
+              <div>
+                <h4 className="font-medium text-sm mb-2">Past Members</h4>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Joined</TableHead>
+                      <TableHead>Left</TableHead>
+                      <TableHead>Reason</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {roster.past.map((member) => (
+                      <TableRow key={member.id}>
+                        <TableCell>
+                          <Link to={`/warrior/${member.person_id}`} className="hover:underline">
+                            {fullName(member)}
+                          </Link>
+                        </TableCell>
+                        <TableCell>{member.joined_on}</TableCell>
+                        <TableCell>{member.left_on}</TableCell>
+                        <TableCell>{member.left_reason ? END_REASON_LABELS[member.left_reason] : "—"}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </>
+        ) : null}
+      </CardContent>
+
+      <Dialog open={!!dialog} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {dialog?.mode === "add"
+                ? "Add Member"
+                : dialog?.mode === "remove"
+                  ? `${fullName(dialog.member)} Is Leaving`
+                  : dialog
+                    ? `Transfer ${fullName(dialog.member)}`
+                    : ""}
+            </DialogTitle>
+            <DialogDescription>
+              {dialog?.mode === "transfer"
+                ? "Their membership here ends and a new one starts in the other group on the same day."
+                : "Dates default to today."}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            {dialog?.mode === "add" && (
+              <>
+                <div className="space-y-2">
+                  <Label>Person</Label>
+                  <EmmaPeopleDropdown
+                    value={form.person_id}
+                    onValueChange={(value) => setForm({ ...form, person_id: value })}
+                    placeholder="Who is joining..."
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Role</Label>
+                  <Select value={form.role} onValueChange={(value) => setForm({ ...form, role: value as GroupMemberRole })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(MEMBER_ROLE_LABELS).map(([role, label]) => (
+                        <SelectItem key={role} value={role}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </>
+            )}
+
+            {dialog?.mode === "remove" && (
+              <div className="space-y-2">
+                <Label>Reason</Label>
+                <Select
+                  value={form.reason}
+                  onValueChange={(value) => setForm({ ...form, reason: value as typeof form.reason })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="left">Left the group</SelectItem>
+                    <SelectItem value="removed">Removed from the roster</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {dialog?.mode === "transfer" && (
+              <div className="space-y-2">
+                <Label>Moving To</Label>
+                <Select value={form.to_i_group_id} onValueChange={(value) => setForm({ ...form, to_i_group_id: value })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose an I-Group" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {groups.map((group) => (
+                      <SelectItem key={group.id} value={group.id}>
+                        {group.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="roster_date">
+                {dialog?.mode === "add" ? "Joined On" : dialog?.mode === "remove" ? "Left On" : "Transferred On"}
+              </Label>
+              <Input
+                id="roster_date"
+                type="date"
+                value={form.date}
+                onChange={(e) => setForm({ ...form, date: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="roster_notes">Notes</Label>
+              <Textarea
+                id="roster_notes"
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                rows={2}
+              />
+            </div>
+
+            {formError && <p className="text-sm text-red-600">{formError}</p>}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialog(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
+
+interface EmmaGroupHistoryProps {
+  warriorId: string
+}
+
+// The I-Groups a warrior has sat in, for their profile page
+export function EmmaGroupHistory({ warriorId }: EmmaGroupHistoryProps) {
+  const [history, setHistory] = useState<GroupHistoryEntry[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+        const response = await apiFetch(`/api/warriors/${warriorId}/groups`)
+        const result = await response.json()
+        if (!response.ok || !result.success) {
+          throw new Error(result.error || "Failed to fetch group history")
+        }
+        setHistory(result.data)
+      } catch (err) {
+        console.error("[v0] Error fetching group history:", err)
+        setError(err instanceof Error ? err.message : "Failed to fetch group history")
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchHistory()
+  }, [warriorId])
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          I-Group History
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+        ) : error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : history.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Not a member of any I-Group yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>I-Group</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Joined</TableHead>
+                <TableHead>Left</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {history.map((entry) => (
+                <TableRow key={entry.id}>
+                  <TableCell>
+                    {entry.i_group ? (
+                      <Link to={`/i-group/${entry.i_group.id}`} className="hover:underline">
+                        {entry.i_group.name}
+                      </Link>
+                    ) : (
+                      "Unknown I-Group"
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge className={MEMBER_ROLE_COLORS[entry.role]}>{MEMBER_ROLE_LABELS[entry.role]}</Badge>
+                  </TableCell>
+                  <TableCell>{entry.joined_on}</TableCell>
+                  <TableCell>
+                    {entry.left_on ? (
+                      <span>
+                        {entry.left_on}
+                        {entry.left_reason === "transferred" && entry.transferred_to
+                          ? ` · moved to ${entry.transferred_to.name}`
+                          : entry.left_reason === "removed"
+                            ? " · removed"
+                            : ""}
+                      </span>
+                    ) : (
+                      <Badge variant="secondary">Current</Badge>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+// Roster health for the groups an area admin looks after
+export function EmmaGroupHealthReport() {
+  const [report, setReport] = useState<GroupHealthReport | null>(null)
+  const [windowDays, setWindowDays] = useState(180)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [forbidden, setForbidden] = useState(false)
+
+  const buildQuery = (format?: "csv") =>
+    `/api/i-groups/health?window_days=${windowDays}${format ? `&format=${format}` : ""}`
+
+  useEffect(() => {
+    const fetchReport = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+        const response = await apiFetch(buildQuery())
+        if (response.status === 403) {
+          setForbidden(true)
+          return
+        }
+        if (!response.ok) {
+          throw new Error(`Failed to fetch group health: ${response.statusText}`)
+        }
+        const result = await response.json()
+        setReport(result.data as GroupHealthReport)
+      } catch (err) {
+        console.error("[v0] Error fetching group health:", err)
+        setError(err instanceof Error ? err.message : "Failed to fetch group health")
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchReport()
+  }, [windowDays])
+
+  if (forbidden) {
+    return null
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-start gap-4">
+          <div>
+            <CardTitle>Group Health</CardTitle>
+            <CardDescription>
+              Groups that have lost members, fallen below {report?.minimum_members ?? 4}, or whose contact has left
+              or can't be reached.
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={String(windowDays)} onValueChange={(value) => setWindowDays(Number(value))}>
+              <SelectTrigger className="h-8 w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {[90, 180, 365].map((days) => (
+                  <SelectItem key={days} value={String(days)}>
+                    Last {days} days
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => apiDownload(buildQuery("csv"), "i-group-health.csv").catch((err) => setError(err.message))}
+            >
+              <Download className="w-4 h-4 mr-2" />
+              CSV
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading && !report ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : report ? (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {report.flagged} of {report.groups.length} active groups need attention
+            </p>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>I-Group</TableHead>
+                  <TableHead className="text-right">Members</TableHead>
+                  <TableHead className="text-right">Since {report.since}</TableHead>
+                  <TableHead className="text-right">Joined / Left</TableHead>
+                  <TableHead>Contact</TableHead>
+                  <TableHead>Flags</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.groups.map((row) => (
+                  <TableRow key={row.i_group_id}>
+                    <TableCell>
+                      <Link to={`/i-group/${row.i_group_id}`} className="hover:underline">
+                        {row.name}
+                      </Link>
+                      {row.community_name && <p className="text-xs text-muted-foreground">{row.community_name}</p>}
+                    </TableCell>
+                    <TableCell className="text-right">{row.members}</TableCell>
+                    <TableCell className="text-right">{row.members_before}</TableCell>
+                    <TableCell className="text-right">
+                      +{row.joined} / −{row.left}
+                    </TableCell>
+                    <TableCell>{row.contact?.name || "—"}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {row.flags.map((flag) => (
+                          <Badge key={flag} className={HEALTH_FLAG_COLORS[flag]}>
+                            {HEALTH_FLAG_LABELS[flag]}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ) : null}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,226 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { BookOpen, Download, Loader2 } from "lucide-react"
+import { apiDownload, apiFetch } from "../../lib/api-client"
+
+interface EmmaJournalExportProps {
+  // Export one transaction log (an event's or a registrant's); otherwise a date range is required
+  logId?: string | null
+  label?: string
+}
+
+type JournalFormat = "csv" | "iif" | "ofx"
+
+interface AccountMap {
+  types: Record<string, string>
+  methods: Record<string, string>
+}
+
+const FORMATS: Record<JournalFormat, string> = {
+  csv: "CSV journal",
+  iif: "QuickBooks IIF",
+  ofx: "OFX statements",
+}
+
+export function EmmaJournalExport({ logId, label = "Export Journal" }: EmmaJournalExportProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [format, setFormat] = useState<JournalFormat>("csv")
+  const [from, setFrom] = useState("")
+  const [to, setTo] = useState("")
+  const [defaults, setDefaults] = useState<AccountMap | null>(null)
+  const [accounts, setAccounts] = useState<AccountMap | null>(null)
+  const [entryCount, setEntryCount] = useState<number | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [exporting, setExporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const hasSelection = !!logId || !!from || !!to
+
+  const buildQuery = (exportFormat: JournalFormat | "json") => {
+    const params = new URLSearchParams({ format: exportFormat })
+    if (logId) params.set("log", logId)
+    if (from) params.set("from", from)
+    if (to) params.set("to", to)
+
+    // Only send the accounts that differ from the server's mapping
+    if (accounts && defaults) {
+      const changed = (group: keyof AccountMap) =>
+        Object.fromEntries(
+          Object.entries(accounts[group]).filter(([key, value]) => value.trim() && value !== defaults[group][key]),
+        )
+      const overrides = { types: changed("types"), methods: changed("methods") }
+      if (Object.keys(overrides.types).length > 0 || Object.keys(overrides.methods).length > 0) {
+        params.set("accounts", JSON.stringify(overrides))
+      }
+    }
+
+    return `/api/transactions/export?${params.toString()}`
+  }
+
+  // Preview how many entries the selection holds, and load the account mapping the first time
+  useEffect(() => {
+    if (!isOpen || !hasSelection) {
+      setEntryCount(null)
+      return
+    }
+
+    const fetchPreview = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+
+        const response = await apiFetch(buildQuery("json"))
+        const result = await response.json()
+        if (!response.ok || !result.success) {
+          throw new Error(result.error || "Failed to preview the journal")
+        }
+
+        setEntryCount(result.count)
+        if (!defaults) {
+          setDefaults(result.data.accounts)
+          setAccounts(result.data.accounts)
+        }
+      } catch (err) {
+        console.error("[v0] Error previewing journal export:", err)
+        setError(err instanceof Error ? err.message : "Failed to preview the journal")
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchPreview()
+  }, [isOpen, logId, from, to])
+
+  const handleExport = async () => {
+    try {
+      setExporting(true)
+      setError(null)
+      await apiDownload(buildQuery(format), `journal.${format}`)
+      setIsOpen(false)
+    } catch (err) {
+      console.error("[v0] Error exporting journal:", err)
+      setError(err instanceof Error ? err.message : "Failed to export the journal")
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  const updateAccount = (group: keyof AccountMap, key: string, value: string) => {
+    setAccounts((prev) => (prev ? { ...prev, [group]: { ...prev[group], [key]: value } } : prev))
+  }
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={() => setIsOpen(true)}>
+        <BookOpen className="w-4 h-4 mr-2" />
+        {label}
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Export Accounting Journal</DialogTitle>
+            <DialogDescription>
+              Each transaction becomes a balanced entry between its payment method's clearing account and its income
+              or expense account.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Format</Label>
+                <Select value={format} onValueChange={(value) => setFormat(value as JournalFormat)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(FORMATS) as JournalFormat[]).map((key) => (
+                      <SelectItem key={key} value={key}>
+                        {FORMATS[key]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="journal_from">From</Label>
+                <Input id="journal_from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="journal_to">To</Label>
+                <Input id="journal_to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+              </div>
+            </div>
+
+            {!hasSelection ? (
+              <p className="text-sm text-gray-600">Choose a date range to export.</p>
+            ) : loading ? (
+              <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+            ) : entryCount !== null ? (
+              <p className="text-sm text-gray-600">
+                {entryCount} transaction{entryCount === 1 ? "" : "s"} will be exported.
+              </p>
+            ) : null}
+
+            {accounts && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="space-y-2">
+                  <h4 className="font-medium text-gray-900">Income and Expense Accounts</h4>
+                  {Object.entries(accounts.types).map(([type, account]) => (
+                    <div key={type} className="grid grid-cols-[7rem_1fr] items-center gap-2">
+                      <Label htmlFor={`account_type_${type}`}>{type}</Label>
+                      <Input
+                        id={`account_type_${type}`}
+                        value={account}
+                        onChange={(e) => updateAccount("types", type, e.target.value)}
+                      />
+                    </div>
+                  ))}
+                </div>
+                <div className="space-y-2">
+                  <h4 className="font-medium text-gray-900">Clearing Accounts</h4>
+                  {Object.entries(accounts.methods).map(([method, account]) => (
+                    <div key={method} className="grid grid-cols-[7rem_1fr] items-center gap-2">
+                      <Label htmlFor={`account_method_${method}`}>{method}</Label>
+                      <Input
+                        id={`account_method_${method}`}
+                        value={account}
+                        onChange={(e) => updateAccount("methods", method, e.target.value)}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleExport} disabled={exporting || !hasSelection || entryCount === 0}>
+              {exporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+              Export {FORMATS[format]}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
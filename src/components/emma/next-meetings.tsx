@@ -0,0 +1,52 @@
+"use client"
+
+import { Calendar } from "lucide-react"
+import type { EventTime } from "../../types/event"
+import type { IGroup } from "../../types/group"
+
+type MeetingGroup = Pick<IGroup, "schedule_rrule" | "schedule_timezone" | "next_meetings"> & {
+  venue?: { timezone?: string | null } | null
+}
+
+/*
+ * The zone a group's meetings are shown in. A recurring schedule with no timezone was expanded as a
+ * floating local time, so it reads correctly in UTC; listed times with none keep the viewer's zone.
+ */
+export const meetingDisplayZone = (group: MeetingGroup): string | undefined =>
+  group.schedule_timezone || group.venue?.timezone || (group.schedule_rrule ? "UTC" : undefined)
+
+export const formatMeeting = (meeting: EventTime, timeZone?: string) => {
+  const start = new Date(meeting.start)
+  const end = new Date(meeting.end)
+  const day = start.toLocaleDateString("en-US", { weekday: "short", month: "short", day: "numeric", timeZone })
+  const time = (date: Date) => date.toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit", timeZone })
+  return `${day}, ${time(start)} – ${time(end)}`
+}
+
+interface EmmaNextMeetingsProps {
+  group: MeetingGroup
+  limit?: number
+  showZone?: boolean
+}
+
+// The group's upcoming meetings as the API worked them out, in the group's own timezone
+export function EmmaNextMeetings({ group, limit, showZone = false }: EmmaNextMeetingsProps) {
+  const meetings = (group.next_meetings || []).slice(0, limit)
+  if (meetings.length === 0) {
+    return null
+  }
+
+  const zone = meetingDisplayZone(group)
+
+  return (
+    <div className="space-y-1">
+      {meetings.map((meeting) => (
+        <div key={meeting.start} className="flex items-center gap-2 text-sm">
+          <Calendar className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+          <span>{formatMeeting(meeting, zone)}</span>
+        </div>
+      ))}
+      {showZone && zone && zone !== "UTC" && <p className="text-xs text-muted-foreground">Times in {zone}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,62 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { ChevronLeft, ChevronRight } from "lucide-react"
+
+interface EmmaPaginationProps {
+  page: number
+  pageCount: number
+  pageSize: number
+  total: number
+  onPageChange: (page: number) => void
+  disabled?: boolean
+  className?: string
+}
+
+export function EmmaPagination({
+  page,
+  pageCount,
+  pageSize,
+  total,
+  onPageChange,
+  disabled = false,
+  className = "",
+}: EmmaPaginationProps) {
+  if (total === 0) {
+    return null
+  }
+
+  const first = (page - 1) * pageSize + 1
+  const last = Math.min(page * pageSize, total)
+
+  return (
+    <div className={`flex items-center justify-between gap-4 ${className}`}>
+      <p className="text-sm text-gray-600">
+        Showing {first.toLocaleString()}–{last.toLocaleString()} of {total.toLocaleString()}
+      </p>
+      <div className="flex items-center gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onPageChange(page - 1)}
+          disabled={disabled || page <= 1}
+        >
+          <ChevronLeft className="w-4 h-4 mr-1" />
+          Previous
+        </Button>
+        <span className="text-sm text-gray-600">
+          Page {page} of {pageCount}
+        </span>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onPageChange(page + 1)}
+          disabled={disabled || page >= pageCount}
+        >
+          Next
+          <ChevronRight className="w-4 h-4 ml-1" />
+        </Button>
+      </div>
+    </div>
+  )
+}
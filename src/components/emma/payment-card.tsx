@@ -0,0 +1,56 @@
+"use client"
+
+import { useEffect } from "react"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { CreditCard } from "lucide-react"
+
+interface EmmaPaymentCardProps {
+  provider: string
+  token: string | null
+  onTokenChange: (token: string | null) => void
+}
+
+// Test outcomes of the local stand-in provider (api/_lib/payments.ts)
+const FAKE_TOKENS = {
+  tok_fake_approve: "Test card — approved",
+  tok_fake_decline: "Test card — declined",
+}
+
+/*
+ * Collects a card through the payment provider's own client and reports the one-time token it
+ * issues; card details never reach our API. Each provider gets a branch here.
+ */
+export function EmmaPaymentCard({ provider, token, onTokenChange }: EmmaPaymentCardProps) {
+  useEffect(() => {
+    if (provider === "fake" && !token) {
+      onTokenChange("tok_fake_approve")
+    }
+  }, [provider, token, onTokenChange])
+
+  if (provider === "fake") {
+    return (
+      <div className="space-y-2">
+        <Label className="flex items-center gap-2">
+          <CreditCard className="w-4 h-4" />
+          Card
+        </Label>
+        <Select value={token || "tok_fake_approve"} onValueChange={onTokenChange}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(FAKE_TOKENS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-amber-700">Test mode: no real card is charged.</p>
+      </div>
+    )
+  }
+
+  return <p className="text-sm text-destructive">Card payments through "{provider}" are not supported in this app.</p>
+}
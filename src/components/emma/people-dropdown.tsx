@@ -7,6 +7,7 @@ import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { ChevronDown, X, User } from "lucide-react"
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { apiFetch } from "../../lib/api-client"
 
 interface Person {
   id: string
@@ -60,7 +61,7 @@ export function EmmaPeopleDropdown({
     const fetchPeople = async () => {
       try {
         setLoading(true)
-        const response = await fetch("/api/people")
+        const response = await apiFetch("/api/people")
         if (!response.ok) {
           throw new Error(`Failed to fetch people: ${response.statusText}`)
         }
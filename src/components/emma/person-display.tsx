@@ -1,7 +1,9 @@
 "use client"
 
+import { useEffect, useState } from "react"
 import { Phone, Mail } from "lucide-react"
-import type { Person as PersonType } from "../../types/person"
+import type { PersonSummary as PersonType } from "../../types/person"
+import { fetchPeopleByIds } from "../../lib/people-lookup"
 
 interface PersonDisplayProps {
   personId?: string | null | undefined
@@ -22,15 +24,43 @@ export function EmmaPersonDisplay({
   size = "w-8 h-8",
   onClick,
 }: PersonDisplayProps) {
-  if (person) {
-    // We can skip the following checks...
+  const knownPerson = person || (personId ? people.find((p) => p.id === personId) : null) || null
+  // People not passed in are resolved through the batched /api/people?ids= lookup
+  const lookupId = !knownPerson && personId ? personId : null
+  const [lookedUp, setLookedUp] = useState<{ id: string; person: PersonType | null } | null>(null)
+
+  useEffect(() => {
+    if (!lookupId) {
+      return
+    }
+
+    let cancelled = false
+    fetchPeopleByIds([lookupId])
+      .then(([found]) => found || null)
+      .catch((err) => {
+        console.error("[v0] Error looking up person:", err)
+        return null
+      })
+      .then((found) => {
+        if (!cancelled) {
+          setLookedUp({ id: lookupId, person: found })
+        }
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [lookupId])
+
+  if (knownPerson) {
+    person = knownPerson
   } else if (!personId) {
     return <span className="text-gray-500">Not assigned</span>
+  } else if (lookedUp?.id !== personId) {
+    return <span className="text-gray-500">Loading...</span>
+  } else if (!lookedUp.person) {
+    return <span className="text-gray-500">Unknown person</span>
   } else {
-    person = people.find((p) => p.id === personId) || null
-    if (!person) {
-      return <span className="text-gray-500">Unknown person</span>
-    }
+    person = lookedUp.person
   }
 
   const fullName = `${person.first_name} ${person.last_name}`
@@ -16,6 +16,7 @@ import {
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Search, Plus, Edit, Save, X, Loader2 } from "lucide-react"
 import type { Person } from "../../types/person"
+import { apiFetch } from "../../lib/api-client"
 
 interface EmmaPersonModalProps {
   isOpen: boolean
@@ -90,7 +91,7 @@ export function EmmaPersonModal({
   const fetchPeople = async () => {
     setLoading(true)
     try {
-      const response = await fetch("/api/people?active=true")
+      const response = await apiFetch("/api/people?active=true")
       if (response.ok) {
         const data = await response.json()
         setPeople(data.data || [])
@@ -110,7 +111,7 @@ export function EmmaPersonModal({
       const method = isEditing ? "PUT" : "POST"
       const body = isEditing ? { id: editingPerson.id, ...formData } : formData
 
-      const response = await fetch(url, {
+      const response = await apiFetch(url, {
         method,
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(body),
@@ -129,7 +130,7 @@ export function EmmaPersonModal({
         if (createRegistrant && eventId && !isEditing) {
           try {
             console.log("[v0] Creating registrant record for person:", savedPerson.id, "event:", eventId)
-            const registrantResponse = await fetch("/api/registrants", {
+            const registrantResponse = await apiFetch("/api/registrants", {
               method: "POST",
               headers: { "Content-Type": "application/json" },
               body: JSON.stringify({
@@ -0,0 +1,449 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Download, Loader2, MessageSquare, UserCheck } from "lucide-react"
+import { apiDownload, apiFetch } from "../../lib/api-client"
+import type { Prospect } from "../../types/person"
+import type { NwtaEvent } from "../../types/nwta-event"
+import type { ConversationChannel, FunnelReport, FunnelRow, ProspectStage } from "../../types/prospect-funnel"
+
+export const PROSPECT_STAGE_LABELS: Record<ProspectStage, string> = {
+  inquiry: "Inquiry",
+  intro_call: "Intro Call",
+  attended_open_event: "Attended Open Event",
+  registered: "Registered",
+  initiated: "Initiated",
+}
+
+export const PROSPECT_STAGE_COLORS: Record<ProspectStage, string> = {
+  inquiry: "bg-gray-100 text-gray-800",
+  intro_call: "bg-blue-100 text-blue-800",
+  attended_open_event: "bg-purple-100 text-purple-800",
+  registered: "bg-green-100 text-green-800",
+  initiated: "bg-amber-100 text-amber-800",
+}
+
+const CHANNEL_LABELS: Record<ConversationChannel, string> = {
+  phone: "Phone call",
+  in_person: "In person",
+  email: "Email",
+  text: "Text message",
+  video: "Video call",
+  other: "Other",
+}
+
+const personName = (prospect: Prospect) =>
+  [prospect.first_name, prospect.middle_name, prospect.last_name].filter(Boolean).join(" ")
+
+const errorMessage = async (response: Response, fallback: string) => {
+  const body = await response.json().catch(() => ({}))
+  return body.details?.[0]?.message || body.error || fallback
+}
+
+interface EmmaProspectConversationDialogProps {
+  prospect: Prospect | null
+  onClose: () => void
+  onRecorded: () => void
+}
+
+// Records an enrollment conversation on the prospect's activity log, optionally moving them along
+export function EmmaProspectConversationDialog({ prospect, onClose, onRecorded }: EmmaProspectConversationDialogProps) {
+  const [channel, setChannel] = useState<ConversationChannel>("phone")
+  const [summary, setSummary] = useState("")
+  const [details, setDetails] = useState("")
+  const [nextStepOn, setNextStepOn] = useState("")
+  const [stage, setStage] = useState<ProspectStage | "unchanged">("unchanged")
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setChannel("phone")
+    setSummary("")
+    setDetails("")
+    setNextStepOn("")
+    setStage("unchanged")
+    setError(null)
+  }, [prospect])
+
+  const save = async () => {
+    if (!prospect) return
+
+    try {
+      setSaving(true)
+      setError(null)
+      const response = await apiFetch(`/api/prospects/${prospect.id}/conversations`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          channel,
+          summary,
+          details: details || null,
+          next_step_on: nextStepOn || null,
+          stage: stage === "unchanged" ? null : stage,
+        }),
+      })
+
+      if (!response.ok) {
+        throw new Error(await errorMessage(response, "Failed to record conversation"))
+      }
+
+      onRecorded()
+    } catch (err) {
+      console.error("[v0] Error recording conversation:", err)
+      setError(err instanceof Error ? err.message : "Failed to record conversation")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={prospect !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Record Conversation</DialogTitle>
+          <DialogDescription>
+            {prospect ? `An enrollment conversation with ${personName(prospect)}.` : ""} It is kept on their
+            activity history and counts as contact, so they drop off the cold list.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label>How</Label>
+              <Select value={channel} onValueChange={(value) => setChannel(value as ConversationChannel)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(CHANNEL_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Move to Stage</Label>
+              <Select value={stage} onValueChange={(value) => setStage(value as ProspectStage | "unchanged")}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="unchanged">Leave as is</SelectItem>
+                  {(["inquiry", "intro_call", "attended_open_event"] as ProspectStage[]).map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {PROSPECT_STAGE_LABELS[value]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div>
+            <Label>Summary</Label>
+            <Input value={summary} onChange={(e) => setSummary(e.target.value)} placeholder="Intro call, wants the spring NWTA" />
+          </div>
+          <div>
+            <Label>Notes</Label>
+            <Textarea value={details} onChange={(e) => setDetails(e.target.value)} rows={4} />
+          </div>
+          <div>
+            <Label>Next Follow-up</Label>
+            <Input type="date" value={nextStepOn} onChange={(e) => setNextStepOn(e.target.value)} />
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={save} disabled={saving || !summary.trim()}>
+            {saving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <MessageSquare className="w-4 h-4 mr-2" />}
+            Record
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+interface EmmaProspectConvertDialogProps {
+  prospect: Prospect | null
+  onClose: () => void
+  onConverted: () => void
+}
+
+// Registers a prospect for an upcoming NWTA in one step
+export function EmmaProspectConvertDialog({ prospect, onClose, onConverted }: EmmaProspectConvertDialogProps) {
+  const [events, setEvents] = useState<NwtaEvent[]>([])
+  const [eventId, setEventId] = useState("")
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setEventId("")
+    setError(null)
+    if (!prospect) return
+
+    const fetchEvents = async () => {
+      try {
+        setLoading(true)
+        const response = await apiFetch("/api/nwta-events?active=true")
+        if (!response.ok) {
+          throw new Error(`Failed to fetch NWTAs: ${response.statusText}`)
+        }
+        const result = await response.json()
+        const now = Date.now()
+        setEvents(
+          ((result.data || []) as NwtaEvent[])
+            .filter((event) => !event.start_at || new Date(event.start_at).getTime() >= now)
+            .sort((a, b) => (a.start_at || "").localeCompare(b.start_at || "")),
+        )
+      } catch (err) {
+        console.error("[v0] Error fetching NWTAs:", err)
+        setError(err instanceof Error ? err.message : "Failed to fetch NWTAs")
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchEvents()
+  }, [prospect])
+
+  const convert = async () => {
+    if (!prospect || !eventId) return
+
+    try {
+      setSaving(true)
+      setError(null)
+      const response = await apiFetch(`/api/prospects/${prospect.id}/convert`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ event_id: eventId }),
+      })
+
+      if (!response.ok) {
+        throw new Error(await errorMessage(response, "Failed to register prospect"))
+      }
+
+      onConverted()
+    } catch (err) {
+      console.error("[v0] Error converting prospect:", err)
+      setError(err instanceof Error ? err.message : "Failed to register prospect")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={prospect !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Register for an NWTA</DialogTitle>
+          <DialogDescription>
+            {prospect ? personName(prospect) : ""} becomes a registrant and a rookie on the chosen NWTA (on its waitlist when it is full), and moves to
+            the Registered stage.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+          </div>
+        ) : events.length === 0 ? (
+          <p className="text-sm text-gray-600">There are no upcoming NWTAs to register for.</p>
+        ) : (
+          <div>
+            <Label>NWTA</Label>
+            <Select value={eventId} onValueChange={setEventId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose an NWTA" />
+              </SelectTrigger>
+              <SelectContent>
+                {events.map((event) => (
+                  <SelectItem key={event.id} value={event.id}>
+                    {event.name}
+                    {event.start_at ? ` — ${new Date(event.start_at).toLocaleDateString()}` : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={convert} disabled={saving || !eventId} className="bg-green-600 hover:bg-green-700">
+            {saving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <UserCheck className="w-4 h-4 mr-2" />}
+            Register
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+const STAGES = Object.keys(PROSPECT_STAGE_LABELS) as ProspectStage[]
+
+function FunnelTable({ title, rows }: { title: string; rows: FunnelRow[] }) {
+  return (
+    <div>
+      <h4 className="text-sm font-semibold text-gray-900 mb-2">{title}</h4>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Name</TableHead>
+            <TableHead className="text-right">Prospects</TableHead>
+            {STAGES.slice(1).map((stage) => (
+              <TableHead key={stage} className="text-right">
+                {PROSPECT_STAGE_LABELS[stage]}
+              </TableHead>
+            ))}
+            <TableHead className="text-right">Cold</TableHead>
+            <TableHead className="text-right">Converted</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((row) => (
+            <TableRow key={row.key || "none"}>
+              <TableCell>{row.label}</TableCell>
+              <TableCell className="text-right">{row.total}</TableCell>
+              {STAGES.slice(1).map((stage) => (
+                <TableCell key={stage} className="text-right">
+                  {row.reached[stage]}
+                </TableCell>
+              ))}
+              <TableCell className={`text-right ${row.cold > 0 ? "text-sky-700 font-medium" : ""}`}>{row.cold}</TableCell>
+              <TableCell className="text-right">{Math.round(row.conversion_rate * 100)}%</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
+
+interface EmmaProspectFunnelReportProps {
+  refreshKey?: number
+}
+
+// Conversion from inquiry to initiation, by area and by the warrior who referred each prospect
+export function EmmaProspectFunnelReport({ refreshKey }: EmmaProspectFunnelReportProps) {
+  const [report, setReport] = useState<FunnelReport | null>(null)
+  const [from, setFrom] = useState("")
+  const [to, setTo] = useState("")
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const buildQuery = (format?: "csv") => {
+    const params = new URLSearchParams()
+    if (from) params.set("from", from)
+    if (to) params.set("to", to)
+    if (format) params.set("format", format)
+    return `/api/prospects/funnel?${params.toString()}`
+  }
+
+  useEffect(() => {
+    const fetchReport = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+        const response = await apiFetch(buildQuery())
+        if (!response.ok) {
+          throw new Error(`Failed to fetch funnel report: ${response.statusText}`)
+        }
+        const result = await response.json()
+        setReport(result.data as FunnelReport)
+      } catch (err) {
+        console.error("[v0] Error fetching funnel report:", err)
+        setError(err instanceof Error ? err.message : "Failed to fetch funnel report")
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchReport()
+  }, [from, to, refreshKey])
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex justify-between items-start gap-4">
+          <div>
+            <CardTitle>Enrollment Funnel</CardTitle>
+            <CardDescription>
+              How far prospects get, by area and by referring warrior. Leads nobody has spoken to for{" "}
+              {report?.cold_after_days ?? 21} days count as cold.
+            </CardDescription>
+          </div>
+          <div className="flex items-end gap-2">
+            <div>
+              <Label className="text-xs">Created from</Label>
+              <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="h-8" />
+            </div>
+            <div>
+              <Label className="text-xs">to</Label>
+              <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="h-8" />
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => apiDownload(buildQuery("csv"), "prospect-funnel.csv").catch((err) => setError(err.message))}
+            >
+              <Download className="w-4 h-4 mr-2" />
+              CSV
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading && !report ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : report ? (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+              {STAGES.map((stage) => (
+                <div key={stage} className={`rounded-lg p-3 ${PROSPECT_STAGE_COLORS[stage]}`}>
+                  <p className="text-xs">{PROSPECT_STAGE_LABELS[stage]}</p>
+                  <p className="text-2xl font-bold">{report.totals.reached[stage]}</p>
+                </div>
+              ))}
+              <div className="rounded-lg p-3 bg-sky-100 text-sky-800">
+                <p className="text-xs">Cold</p>
+                <p className="text-2xl font-bold">{report.totals.cold}</p>
+              </div>
+            </div>
+            {report.by_area.length > 0 && <FunnelTable title="By Area" rows={report.by_area} />}
+            {report.by_referrer.length > 0 && <FunnelTable title="By Referring Warrior" rows={report.by_referrer} />}
+          </div>
+        ) : null}
+      </CardContent>
+    </Card>
+  )
+}
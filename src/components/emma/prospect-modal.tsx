@@ -16,6 +16,7 @@ import {
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Search, Plus, Edit, Save, X, Loader2 } from "lucide-react"
 import type { Prospect } from "../../types/person"
+import { apiFetch } from "../../lib/api-client"
 
 interface EmmaProspectModalProps {
   isOpen: boolean
@@ -88,7 +89,7 @@ export function EmmaProspectModal({
   const fetchProspects = async () => {
     setLoading(true)
     try {
-      const response = await fetch("/api/prospects?active=true")
+      const response = await apiFetch("/api/prospects?active=true")
       if (response.ok) {
         const data = await response.json()
         setProspects(data.data || [])
@@ -108,7 +109,7 @@ export function EmmaProspectModal({
       const method = isEditing ? "PUT" : "POST"
       const body = isEditing ? { id: editingProspect.id, ...formData } : formData
 
-      const response = await fetch(url, {
+      const response = await apiFetch(url, {
         method,
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(body),
@@ -14,9 +14,11 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
-import { Search, Plus, Edit, Save, X, Loader2 } from "lucide-react"
+import { Search, Plus, Edit, Save, X, Loader2, BanknoteIcon } from "lucide-react"
+import { EmmaRegistrantPaymentPlan } from "./registrant-payment-plan"
 import type { EventBasic } from "../../types/event"
 import type { Registrant } from "../../types/person"
+import { apiFetch } from "../../lib/api-client"
 
 interface EmmaRegistrantModalProps {
   isOpen: boolean
@@ -89,7 +91,7 @@ export function EmmaRegistrantModal({
   const fetchRegistrants = async () => {
     setLoading(true)
     try {
-      const response = await fetch("/api/registrants?active=true")
+      const response = await apiFetch("/api/registrants?active=true")
       if (response.ok) {
         const data = await response.json()
         setRegistrants(data.data || [])
@@ -109,7 +111,7 @@ export function EmmaRegistrantModal({
       const method = isEditing ? "PUT" : "POST"
       const body = isEditing ? { id: editingRegistrant.id, ...formData } : formData
 
-      const response = await fetch(url, {
+      const response = await apiFetch(url, {
         method,
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(body),
@@ -175,12 +177,12 @@ export function EmmaRegistrantModal({
         <DialogHeader>
           <DialogTitle>{title}</DialogTitle>
           <DialogDescription>
-            Search for an existing registrant, create a new one, or edit the current registrant.
+            Search for an existing registrant, create a new one, or edit the current registrant and their payments.
           </DialogDescription>
         </DialogHeader>
 
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="search">
               <Search className="w-4 h-4 mr-2" />
               Search
@@ -193,6 +195,10 @@ export function EmmaRegistrantModal({
               <Edit className="w-4 h-4 mr-2" />
               Edit Current
             </TabsTrigger>
+            <TabsTrigger value="payments" disabled={!currentRegistrant}>
+              <BanknoteIcon className="w-4 h-4 mr-2" />
+              Payments
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="search" className="space-y-4">
@@ -381,6 +387,10 @@ export function EmmaRegistrantModal({
               </div>
             )}
           </TabsContent>
+
+          <TabsContent value="payments" className="space-y-4">
+            {currentRegistrant && <EmmaRegistrantPaymentPlan registrantId={currentRegistrant.id} />}
+          </TabsContent>
         </Tabs>
 
         <DialogFooter className="flex justify-between">
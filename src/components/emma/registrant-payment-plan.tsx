@@ -0,0 +1,312 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Plus, Trash, Save, Loader2 } from "lucide-react"
+import { EmmaTransactionTable } from "./transaction-table"
+import type { PaymentPlan, PaymentPlanInstallment, RegistrantBalance } from "../../types/payment-plan"
+import type { Transaction } from "../../types/transaction"
+import { apiFetch } from "../../lib/api-client"
+
+interface EmmaRegistrantPaymentPlanProps {
+  registrantId: string
+  // Called whenever the plan or the registrant's payments change so the caller can refresh balances
+  onChange?: (balance: RegistrantBalance) => void
+}
+
+interface PaymentPlanResponse {
+  payment_plan: string | null
+  transaction_log: string | null
+  plan: PaymentPlan | null
+  balance: RegistrantBalance
+}
+
+const formatCurrency = (cents: number) => {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  }).format(cents / 100)
+}
+
+const formatDueDate = (dueOn: string) => {
+  return new Date(`${dueOn}T00:00:00`).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  })
+}
+
+export function EmmaBalanceBadge({ balance }: { balance?: RegistrantBalance | null }) {
+  if (!balance) {
+    return null
+  }
+
+  switch (balance.status) {
+    case "paid_in_full":
+      return (
+        <Badge variant="outline" className="text-green-700 border-green-300 bg-green-50">
+          Paid in full
+        </Badge>
+      )
+    case "overdue":
+      return (
+        <Badge variant="outline" className="text-red-700 border-red-300 bg-red-50">
+          Overdue {formatCurrency(balance.overdue)}
+        </Badge>
+      )
+    case "on_track":
+      return (
+        <Badge variant="outline" className="text-blue-700 border-blue-300 bg-blue-50">
+          On track
+        </Badge>
+      )
+    default:
+      return (
+        <Badge variant="outline" className="text-gray-600 border-gray-300 bg-gray-50">
+          No plan
+        </Badge>
+      )
+  }
+}
+
+export function EmmaBalanceSummary({ balance }: { balance: RegistrantBalance }) {
+  return (
+    <div className="grid grid-cols-3 gap-4 text-sm">
+      <div>
+        <p className="font-medium text-gray-700">Cost</p>
+        <p className="text-gray-900">{formatCurrency(balance.cost)}</p>
+      </div>
+      <div>
+        <p className="font-medium text-gray-700">Paid</p>
+        <p className="text-gray-900">{formatCurrency(balance.paid)}</p>
+      </div>
+      <div>
+        <p className="font-medium text-gray-700">Balance</p>
+        <p className={balance.overdue > 0 ? "text-red-600 font-semibold" : "text-gray-900"}>
+          {formatCurrency(balance.balance)}
+        </p>
+      </div>
+      {balance.next_due && (
+        <p className="col-span-3 text-gray-600">
+          Next due: {formatCurrency(balance.next_due.amount)} on {formatDueDate(balance.next_due.due_on)}
+        </p>
+      )}
+    </div>
+  )
+}
+
+const emptyInstallment = (): PaymentPlanInstallment => ({ amount: 0, due_on: "" })
+
+export function EmmaRegistrantPaymentPlan({ registrantId, onChange }: EmmaRegistrantPaymentPlanProps) {
+  const [details, setDetails] = useState<PaymentPlanResponse | null>(null)
+  const [transactions, setTransactions] = useState<Transaction[]>([])
+  const [deposit, setDeposit] = useState<PaymentPlanInstallment>(emptyInstallment())
+  const [installments, setInstallments] = useState<PaymentPlanInstallment[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchPaymentPlan()
+  }, [registrantId])
+
+  const applyDetails = async (data: PaymentPlanResponse) => {
+    setDetails(data)
+    setDeposit(data.plan?.deposit || emptyInstallment())
+    setInstallments(data.plan?.installments || [])
+    onChange?.(data.balance)
+
+    if (data.transaction_log) {
+      const response = await apiFetch(`/api/transactions?log=${data.transaction_log}`)
+      const result = await response.json()
+      if (response.ok && result.success) {
+        setTransactions(result.data || [])
+      }
+    }
+  }
+
+  const fetchPaymentPlan = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await apiFetch(`/api/registrants/${registrantId}/payment-plan`)
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || "Failed to fetch payment plan")
+      }
+
+      await applyDetails(result.data)
+    } catch (err) {
+      console.error("[v0] Error fetching payment plan:", err)
+      setError(err instanceof Error ? err.message : "Failed to fetch payment plan")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const savePlan = async (method: "PUT" | "DELETE") => {
+    try {
+      setSaving(true)
+      setError(null)
+
+      const response = await apiFetch(`/api/registrants/${registrantId}/payment-plan`, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: method === "PUT" ? JSON.stringify({ deposit, installments }) : undefined,
+      })
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || "Failed to save payment plan")
+      }
+
+      await applyDetails(result.data)
+    } catch (err) {
+      console.error("[v0] Error saving payment plan:", err)
+      setError(err instanceof Error ? err.message : "Failed to save payment plan")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleTransactionCreate = async (newTransaction: Omit<Transaction, "id" | "created_at" | "updated_at">) => {
+    if (!details?.transaction_log) {
+      return
+    }
+
+    try {
+      const response = await apiFetch("/api/transactions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...newTransaction, log_id: details.transaction_log }),
+      })
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || "Failed to record payment")
+      }
+
+      await fetchPaymentPlan()
+    } catch (err) {
+      console.error("[v0] Error recording payment:", err)
+      setError(err instanceof Error ? err.message : "Failed to record payment")
+    }
+  }
+
+  const updateInstallment = (index: number, changes: Partial<PaymentPlanInstallment>) => {
+    setInstallments((prev) => prev.map((installment, i) => (i === index ? { ...installment, ...changes } : installment)))
+  }
+
+  const isPlanComplete = !!deposit.due_on && installments.every((installment) => !!installment.due_on)
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {details && (
+        <div className="space-y-3">
+          <div className="flex items-center gap-2">
+            <h4 className="font-medium">Balance</h4>
+            <EmmaBalanceBadge balance={details.balance} />
+          </div>
+          <EmmaBalanceSummary balance={details.balance} />
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <h4 className="font-medium">Payment Plan</h4>
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="deposit_amount">Deposit ($)</Label>
+            <Input
+              id="deposit_amount"
+              type="number"
+              min="0"
+              step="0.01"
+              value={(deposit.amount / 100).toFixed(2)}
+              onChange={(e) => setDeposit((prev) => ({ ...prev, amount: Math.round(Number(e.target.value) * 100) }))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="deposit_due_on">Deposit Due</Label>
+            <Input
+              id="deposit_due_on"
+              type="date"
+              value={deposit.due_on}
+              onChange={(e) => setDeposit((prev) => ({ ...prev, due_on: e.target.value }))}
+            />
+          </div>
+        </div>
+
+        {installments.map((installment, index) => (
+          <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor={`installment_amount_${index}`}>Installment {index + 1} ($)</Label>
+              <Input
+                id={`installment_amount_${index}`}
+                type="number"
+                min="0"
+                step="0.01"
+                value={(installment.amount / 100).toFixed(2)}
+                onChange={(e) => updateInstallment(index, { amount: Math.round(Number(e.target.value) * 100) })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`installment_due_on_${index}`}>Due</Label>
+              <Input
+                id={`installment_due_on_${index}`}
+                type="date"
+                value={installment.due_on}
+                onChange={(e) => updateInstallment(index, { due_on: e.target.value })}
+              />
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setInstallments((prev) => prev.filter((_, i) => i !== index))}
+              className="text-red-600 hover:text-red-700"
+            >
+              <Trash className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={() => setInstallments((prev) => [...prev, emptyInstallment()])}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Installment
+          </Button>
+          <Button size="sm" onClick={() => savePlan("PUT")} disabled={saving || !isPlanComplete}>
+            {saving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+            Save Plan
+          </Button>
+          {details?.plan && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => savePlan("DELETE")}
+              disabled={saving}
+              className="text-red-600 hover:text-red-700 bg-transparent"
+            >
+              Remove Plan
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {details?.transaction_log && (
+        <EmmaTransactionTable transactions={transactions} onCreate={handleTransactionCreate} title="Payments" />
+      )}
+    </div>
+  )
+}
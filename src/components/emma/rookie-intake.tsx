@@ -0,0 +1,523 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Textarea } from "@/components/ui/textarea"
+import { CheckCircle2, Circle, HeartPulse, Link2, Loader2, Plus, X } from "lucide-react"
+import type {
+  EmergencyContact,
+  Medication,
+  NwtaIntakes,
+  RookieIntake,
+  RookieIntakeStatus,
+} from "../../types/rookie-intake"
+import { apiFetch } from "../../lib/api-client"
+
+type IntakeForm = Pick<
+  RookieIntake,
+  "emergency_contacts" | "medical_conditions" | "allergies" | "dietary_needs" | "medications" | "medical_notes"
+>
+
+const emptyContact = (): EmergencyContact => ({ name: "", relationship: "", phone: "", email: "" })
+const emptyMedication = (): Medication => ({ name: "", dosage: "", schedule: "", notes: "" })
+
+const toForm = (intake: RookieIntake | null): IntakeForm => ({
+  emergency_contacts: intake?.emergency_contacts.length ? intake.emergency_contacts : [emptyContact()],
+  medical_conditions: intake?.medical_conditions || "",
+  allergies: intake?.allergies || "",
+  dietary_needs: intake?.dietary_needs || "",
+  medications: intake?.medications || [],
+  medical_notes: intake?.medical_notes || "",
+})
+
+function Done({ done, label }: { done: boolean; label: string }) {
+  return (
+    <span className="flex items-center gap-1 text-sm">
+      {done ? <CheckCircle2 className="w-4 h-4 text-green-600" /> : <Circle className="w-4 h-4 text-gray-400" />}
+      {label}
+    </span>
+  )
+}
+
+// Query string for a rookie's intake link token, when they came in through one
+const tokenQuery = (token?: string | null) => (token ? `?token=${encodeURIComponent(token)}` : "")
+
+interface EmmaIntakeFormProps {
+  eventId: string
+  token?: string | null
+  rookie: RookieIntakeStatus
+  waiverVersion: string
+  // Staff record a waiver signed on paper; a rookie signs their own
+  recordingForRookie: boolean
+  onSaved: (intake: RookieIntake) => void
+}
+
+export function EmmaIntakeForm({
+  eventId,
+  token,
+  rookie,
+  waiverVersion,
+  recordingForRookie,
+  onSaved,
+}: EmmaIntakeFormProps) {
+  const [formData, setFormData] = useState<IntakeForm>(toForm(rookie.intake))
+  const [acceptWaiver, setAcceptWaiver] = useState(false)
+  const [signedName, setSignedName] = useState("")
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setFormData(toForm(rookie.intake))
+    setAcceptWaiver(false)
+    setSignedName("")
+    setError(null)
+  }, [rookie])
+
+  const updateContact = (index: number, field: keyof EmergencyContact, value: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      emergency_contacts: prev.emergency_contacts.map((contact, i) => (i === index ? { ...contact, [field]: value } : contact)),
+    }))
+  }
+
+  const updateMedication = (index: number, field: keyof Medication, value: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      medications: prev.medications.map((medication, i) => (i === index ? { ...medication, [field]: value } : medication)),
+    }))
+  }
+
+  const handleSave = async () => {
+    try {
+      setSaving(true)
+      setError(null)
+
+      const response = await apiFetch(`/api/nwta-events/${eventId}/intakes${tokenQuery(token)}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...formData,
+          person_id: rookie.person_id,
+          // Rows left blank are dropped rather than failing validation
+          emergency_contacts: formData.emergency_contacts.filter((contact) => contact.name || contact.phone),
+          medications: formData.medications.filter((medication) => medication.name),
+          accept_waiver: acceptWaiver,
+          waiver_signed_name: acceptWaiver ? signedName : null,
+        }),
+      })
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        const detail = result.details?.[0]?.message
+        throw new Error(detail || result.error || "Failed to save intake")
+      }
+
+      setAcceptWaiver(false)
+      setSignedName("")
+      onSaved(result.data)
+    } catch (err) {
+      console.error("[v0] Error saving rookie intake:", err)
+      setError(err instanceof Error ? err.message : "Failed to save intake")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h4 className="font-medium text-gray-900">Emergency Contacts</h4>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              setFormData((prev) => ({ ...prev, emergency_contacts: [...prev.emergency_contacts, emptyContact()] }))
+            }
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add Contact
+          </Button>
+        </div>
+        {formData.emergency_contacts.map((contact, index) => (
+          <div key={index} className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_1fr_1fr_auto] gap-2">
+            <Input placeholder="Name" value={contact.name} onChange={(e) => updateContact(index, "name", e.target.value)} />
+            <Input
+              placeholder="Relationship"
+              value={contact.relationship || ""}
+              onChange={(e) => updateContact(index, "relationship", e.target.value)}
+            />
+            <Input placeholder="Phone" value={contact.phone} onChange={(e) => updateContact(index, "phone", e.target.value)} />
+            <Input
+              placeholder="Email"
+              type="email"
+              value={contact.email || ""}
+              onChange={(e) => updateContact(index, "email", e.target.value)}
+            />
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() =>
+                setFormData((prev) => ({
+                  ...prev,
+                  emergency_contacts: prev.emergency_contacts.filter((_, i) => i !== index),
+                }))
+              }
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="medical_conditions">Medical Conditions</Label>
+          <Textarea
+            id="medical_conditions"
+            value={formData.medical_conditions || ""}
+            onChange={(e) => setFormData((prev) => ({ ...prev, medical_conditions: e.target.value }))}
+            rows={3}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="allergies">Allergies</Label>
+          <Textarea
+            id="allergies"
+            value={formData.allergies || ""}
+            onChange={(e) => setFormData((prev) => ({ ...prev, allergies: e.target.value }))}
+            rows={3}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="dietary_needs">Dietary Needs</Label>
+          <Textarea
+            id="dietary_needs"
+            value={formData.dietary_needs || ""}
+            onChange={(e) => setFormData((prev) => ({ ...prev, dietary_needs: e.target.value }))}
+            rows={3}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="medical_notes">Other Notes for the Medical Team</Label>
+          <Textarea
+            id="medical_notes"
+            value={formData.medical_notes || ""}
+            onChange={(e) => setFormData((prev) => ({ ...prev, medical_notes: e.target.value }))}
+            rows={3}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h4 className="font-medium text-gray-900">Medications</h4>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setFormData((prev) => ({ ...prev, medications: [...prev.medications, emptyMedication()] }))}
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add Medication
+          </Button>
+        </div>
+        {formData.medications.length === 0 && <p className="text-sm text-gray-500 italic">No medications listed</p>}
+        {formData.medications.map((medication, index) => (
+          <div key={index} className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_1fr_1fr_auto] gap-2">
+            <Input
+              placeholder="Medication"
+              value={medication.name}
+              onChange={(e) => updateMedication(index, "name", e.target.value)}
+            />
+            <Input
+              placeholder="Dosage"
+              value={medication.dosage || ""}
+              onChange={(e) => updateMedication(index, "dosage", e.target.value)}
+            />
+            <Input
+              placeholder="When taken"
+              value={medication.schedule || ""}
+              onChange={(e) => updateMedication(index, "schedule", e.target.value)}
+            />
+            <Input
+              placeholder="Notes"
+              value={medication.notes || ""}
+              onChange={(e) => updateMedication(index, "notes", e.target.value)}
+            />
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() =>
+                setFormData((prev) => ({ ...prev, medications: prev.medications.filter((_, i) => i !== index) }))
+              }
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-3 border rounded-lg p-4">
+        <h4 className="font-medium text-gray-900">Waiver</h4>
+        {rookie.waiver_signed && rookie.intake?.waiver_signed_at ? (
+          <p className="text-sm text-gray-600">
+            Signed by {rookie.intake.waiver_signed_name} on {new Date(rookie.intake.waiver_signed_at).toLocaleString()}
+          </p>
+        ) : (
+          <>
+            {rookie.intake?.waiver_signed_at && (
+              <p className="text-sm text-amber-700">
+                The waiver has changed since it was last signed and needs to be signed again.
+              </p>
+            )}
+            <div className="flex items-start gap-2">
+              <Checkbox
+                id="accept_waiver"
+                checked={acceptWaiver}
+                onCheckedChange={(checked) => setAcceptWaiver(checked === true)}
+              />
+              <Label htmlFor="accept_waiver" className="text-sm font-normal leading-snug">
+                {recordingForRookie
+                  ? `The rookie has signed the NWTA waiver (version ${waiverVersion})`
+                  : `I have read and accept the NWTA waiver (version ${waiverVersion})`}
+              </Label>
+            </div>
+            {acceptWaiver && (
+              <div className="space-y-2">
+                <Label htmlFor="waiver_signed_name">{recordingForRookie ? "Name as signed" : "Type your full name"}</Label>
+                <Input id="waiver_signed_name" value={signedName} onChange={(e) => setSignedName(e.target.value)} />
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <div className="flex justify-end">
+        <Button onClick={handleSave} disabled={saving || (acceptWaiver && !signedName.trim())}>
+          {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Save Intake
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+interface EmmaRookieIntakeProps {
+  eventId: string
+  token?: string | null // from the rookie's intake link
+}
+
+// Renders nothing for anyone who is not a leader, medical staff or rookie on the NWTA
+export function EmmaRookieIntake({ eventId, token }: EmmaRookieIntakeProps) {
+  const [intakes, setIntakes] = useState<NwtaIntakes | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [selected, setSelected] = useState<RookieIntakeStatus | null>(null)
+  const [copied, setCopied] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchIntakes = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+
+        const response = await apiFetch(`/api/nwta-events/${eventId}/intakes${tokenQuery(token)}`)
+        if (response.status === 401 || response.status === 403) {
+          setIntakes(null)
+          return
+        }
+
+        const result = await response.json()
+        if (!response.ok || !result.success) {
+          throw new Error(result.error || "Failed to fetch rookie intake")
+        }
+
+        setIntakes(result.data)
+      } catch (err) {
+        console.error("[v0] Error fetching rookie intake:", err)
+        setError(err instanceof Error ? err.message : "Failed to fetch rookie intake")
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchIntakes()
+  }, [eventId, token])
+
+  const copyLink = async (rookie: RookieIntakeStatus) => {
+    if (!rookie.intake_path) return
+    await navigator.clipboard.writeText(`${window.location.origin}${rookie.intake_path}`)
+    setCopied(rookie.person_id)
+  }
+
+  const handleSaved = (intake: RookieIntake) => {
+    setIntakes((prev) =>
+      prev
+        ? {
+            ...prev,
+            rookies: prev.rookies.map((rookie) =>
+              rookie.person_id === intake.person_id
+                ? {
+                    ...rookie,
+                    intake,
+                    has_emergency_contact: intake.emergency_contacts.length > 0,
+                    waiver_signed: !!intake.waiver_signed_at && intake.waiver_version === prev.waiver_version,
+                  }
+                : rookie,
+            ),
+          }
+        : prev,
+    )
+    setSelected(null)
+  }
+
+  if (loading && !intakes) {
+    return <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+  }
+
+  if (error) {
+    return <p className="text-sm text-destructive">{error}</p>
+  }
+
+  if (!intakes) {
+    return null
+  }
+
+  const retention = intakes.purge_on
+    ? `This information is deleted on ${new Date(intakes.purge_on).toLocaleDateString()}.`
+    : "This information is deleted after the NWTA ends."
+
+  if (intakes.access === "self") {
+    const own = intakes.rookies[0]
+    return own ? (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <HeartPulse className="h-5 w-5" />
+            Your NWTA Intake
+          </CardTitle>
+          <CardDescription>
+            Only the NWTA's leaders and medical staff can see what you enter here. {retention}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <EmmaIntakeForm
+            eventId={eventId}
+            token={token}
+            rookie={own}
+            waiverVersion={intakes.waiver_version}
+            recordingForRookie={false}
+            onSaved={handleSaved}
+          />
+        </CardContent>
+      </Card>
+    ) : null
+  }
+
+  const complete = intakes.rookies.filter((rookie) => rookie.has_emergency_contact && rookie.waiver_signed).length
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h4 className="flex items-center gap-2 text-lg font-medium text-gray-900">
+          <HeartPulse className="w-5 h-5" />
+          Rookie Intake
+        </h4>
+        <Badge variant="outline">
+          {complete} of {intakes.rookies.length} complete
+        </Badge>
+      </div>
+      <p className="text-sm text-gray-600">Visible only to the NWTA's leaders and medical staff. {retention}</p>
+
+      {intakes.rookies.length === 0 ? (
+        <p className="text-sm text-gray-500 italic">No rookies on this NWTA yet</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Rookie</TableHead>
+              <TableHead>Emergency Contact</TableHead>
+              <TableHead>Waiver</TableHead>
+              <TableHead>Medical</TableHead>
+              <TableHead></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {intakes.rookies.map((rookie) => (
+              <TableRow key={rookie.person_id}>
+                <TableCell className="font-medium">
+                  {rookie.first_name} {rookie.last_name}
+                </TableCell>
+                <TableCell>
+                  <Done done={rookie.has_emergency_contact} label={rookie.has_emergency_contact ? "On file" : "Missing"} />
+                </TableCell>
+                <TableCell>
+                  <Done done={rookie.waiver_signed} label={rookie.waiver_signed ? "Signed" : "Not signed"} />
+                </TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap gap-1">
+                    {rookie.intake?.allergies && <Badge className="bg-red-100 text-red-800 border-red-300">Allergies</Badge>}
+                    {(rookie.intake?.medications.length || 0) > 0 && (
+                      <Badge variant="outline">{rookie.intake?.medications.length} medications</Badge>
+                    )}
+                    {rookie.intake?.dietary_needs && <Badge variant="outline">Dietary</Badge>}
+                  </div>
+                </TableCell>
+                <TableCell className="text-right space-x-2">
+                  {rookie.intake_path && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title="Copy the rookie's intake link, which works without signing in"
+                      onClick={() => copyLink(rookie)}
+                    >
+                      <Link2 className="w-4 h-4 mr-1" />
+                      {copied === rookie.person_id ? "Copied" : "Copy Link"}
+                    </Button>
+                  )}
+                  <Button variant="outline" size="sm" onClick={() => setSelected(rookie)}>
+                    {rookie.intake ? "Open" : "Fill In"}
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {selected?.first_name} {selected?.last_name}
+            </DialogTitle>
+            <DialogDescription>NWTA intake</DialogDescription>
+          </DialogHeader>
+          {selected && (
+            <EmmaIntakeForm
+              eventId={eventId}
+              rookie={selected}
+              waiverVersion={intakes.waiver_version}
+              recordingForRookie={true}
+              onSaved={handleSaved}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useMemo, useEffect } from "react"
+import { useState, useMemo } from "react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
@@ -60,27 +60,11 @@ export function EmmaTransactionTable({
     amount: 0,
     ordering: 1,
   })
-  const [people, setPeople] = useState<Person[]>([])
   const [payorModalOpen, setPayorModalOpen] = useState(false)
   const [payeeModalOpen, setPayeeModalOpen] = useState(false)
   const [editingPayorModalOpen, setEditingPayorModalOpen] = useState(false)
   const [editingPayeeModalOpen, setEditingPayeeModalOpen] = useState(false)
 
-  useEffect(() => {
-    const fetchPeople = async () => {
-      try {
-        const response = await fetch("/api/people?active=true")
-        if (response.ok) {
-          const data = await response.json()
-          setPeople(data.data || [])
-        }
-      } catch (error) {
-        console.error("[v0] Error fetching people:", error)
-      }
-    }
-    fetchPeople()
-  }, [])
-
   const formatCurrency = (cents: number) => {
     return new Intl.NumberFormat("en-US", {
       style: "currency",
@@ -344,7 +328,6 @@ export function EmmaTransactionTable({
                   <div className="mt-1">
                     <EmmaPersonDisplay
                       personId={newTransaction.payor_person_id}
-                      people={people}
                       showAvatar={true}
                       size="w-6 h-6"
                     />
@@ -376,7 +359,6 @@ export function EmmaTransactionTable({
                   <div className="mt-1">
                     <EmmaPersonDisplay
                       personId={newTransaction.payee_person_id}
-                      people={people}
                       showAvatar={true}
                       size="w-6 h-6"
                     />
@@ -512,7 +494,6 @@ export function EmmaTransactionTable({
                         {transaction.payor_person_id ? (
                           <EmmaPersonDisplay
                             personId={transaction.payor_person_id}
-                            people={people}
                             showAvatar={true}
                             size="w-6 h-6"
                           />
@@ -548,7 +529,6 @@ export function EmmaTransactionTable({
                         {transaction.payee_person_id ? (
                           <EmmaPersonDisplay
                             personId={transaction.payee_person_id}
-                            people={people}
                             showAvatar={true}
                             size="w-6 h-6"
                           />
@@ -0,0 +1,273 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { AlertTriangle, CalendarDays, Loader2, Trash2 } from "lucide-react"
+import { EmmaCalendar, type EventList, type EventTime } from "./calendar"
+import { apiFetch } from "../../lib/api-client"
+import type { VenueAvailability, VenueConflict, VenuePeriod, VenuePeriodKind } from "../../types/venue-availability"
+
+const PERIOD_LABELS: Record<VenuePeriodKind, string> = {
+  blackout: "Blackout",
+  hold: "Hold",
+}
+
+const PERIOD_COLORS: Record<VenuePeriodKind, string> = {
+  blackout: "#1f2937",
+  hold: "#fbbf24",
+}
+
+const formatRange = (start: string, end: string, timezone?: string | null) => {
+  const options: Intl.DateTimeFormatOptions = { month: "short", day: "numeric", timeZone: timezone || undefined }
+  return `${new Date(start).toLocaleDateString([], options)} – ${new Date(end).toLocaleDateString([], options)}`
+}
+
+// One line per conflict, for the warning shown after an event is saved
+export const describeVenueConflicts = (conflicts: VenueConflict[]): string =>
+  `The venue is already booked on these dates: ${conflicts
+    .map(
+      (conflict) =>
+        `${conflict.kind === "event" ? conflict.name : `${PERIOD_LABELS[conflict.kind]} (${conflict.name})`} ${formatRange(conflict.start_at, conflict.end_at)}`,
+    )
+    .join("; ")}`
+
+const errorMessage = async (response: Response, fallback: string) => {
+  const body = await response.json().catch(() => ({}))
+  return body.details?.[0]?.message || body.error || fallback
+}
+
+const sameTime = (time: EventTime, period: VenuePeriod) =>
+  new Date(time.start).getTime() === new Date(period.start_at).getTime() &&
+  new Date(time.end).getTime() === new Date(period.end_at).getTime()
+
+interface EmmaVenueCalendarProps {
+  venueId: string
+  timezone?: string | null
+}
+
+/*
+ * Everything booked at a venue: its events (read-only, from first staff session to last participant
+ * session) plus blackouts and holds, which admins add by dragging across days on the calendar.
+ */
+export function EmmaVenueCalendar({ venueId, timezone }: EmmaVenueCalendarProps) {
+  const [availability, setAvailability] = useState<VenueAvailability | null>(null)
+  const [addKind, setAddKind] = useState<VenuePeriodKind>("blackout")
+  const [reason, setReason] = useState("")
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchAvailability = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await apiFetch(`/api/venues/${venueId}/availability`)
+      if (!response.ok) {
+        throw new Error(await errorMessage(response, "Failed to fetch venue calendar"))
+      }
+
+      const result = await response.json()
+      setAvailability(result.data)
+    } catch (err) {
+      console.error("[v0] Error fetching venue availability:", err)
+      setError(err instanceof Error ? err.message : "Failed to fetch venue calendar")
+    } finally {
+      setLoading(false)
+    }
+  }, [venueId])
+
+  useEffect(() => {
+    fetchAvailability()
+  }, [fetchAvailability])
+
+  const send = async (path: string, init: RequestInit, fallback: string) => {
+    const response = await apiFetch(`/api/venues/${venueId}/availability${path}`, {
+      ...init,
+      headers: { "Content-Type": "application/json" },
+    })
+    if (!response.ok) {
+      throw new Error(await errorMessage(response, fallback))
+    }
+  }
+
+  // The kind being added always comes first, since EmmaCalendar adds new times to its first list
+  const kinds: VenuePeriodKind[] = addKind === "blackout" ? ["blackout", "hold"] : ["hold", "blackout"]
+  const periodsOf = (kind: VenuePeriodKind) => (availability?.periods || []).filter((period) => period.kind === kind)
+
+  const handleTimesChange = async (listIndex: number, newTimes: EventTime[]) => {
+    const kind = kinds[listIndex]
+    if (!kind) return
+
+    const current = periodsOf(kind)
+    const removed = current.filter((period) => !newTimes.some((time) => sameTime(time, period)))
+    const added = newTimes.filter((time) => !current.some((period) => sameTime(time, period)))
+
+    try {
+      setSaving(true)
+      setError(null)
+
+      if (removed.length === 1 && added.length === 1) {
+        // Editing a segment on the calendar moves the period rather than replacing it
+        const [period] = removed
+        await send(
+          `?period_id=${period.id}`,
+          {
+            method: "PUT",
+            body: JSON.stringify({
+              kind,
+              start_at: added[0].start,
+              end_at: added[0].end,
+              reason: period.reason,
+              event_id: period.event_id,
+            }),
+          },
+          "Failed to update period",
+        )
+      } else {
+        for (const period of removed) {
+          await send(`?period_id=${period.id}`, { method: "DELETE" }, "Failed to remove period")
+        }
+        for (const time of added) {
+          await send(
+            "",
+            {
+              method: "POST",
+              body: JSON.stringify({ kind, start_at: time.start, end_at: time.end, reason: reason.trim() || null }),
+            },
+            `Failed to add ${PERIOD_LABELS[kind].toLowerCase()}`,
+          )
+        }
+      }
+    } catch (err) {
+      console.error("[v0] Error saving venue period:", err)
+      setError(err instanceof Error ? err.message : "Failed to save period")
+    } finally {
+      setSaving(false)
+      fetchAvailability()
+    }
+  }
+
+  const removePeriod = async (period: VenuePeriod) => {
+    try {
+      setSaving(true)
+      setError(null)
+      await send(`?period_id=${period.id}`, { method: "DELETE" }, "Failed to remove period")
+    } catch (err) {
+      console.error("[v0] Error removing venue period:", err)
+      setError(err instanceof Error ? err.message : "Failed to remove period")
+    } finally {
+      setSaving(false)
+      fetchAvailability()
+    }
+  }
+
+  if (loading && !availability) {
+    return <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+  }
+
+  if (!availability) {
+    return error ? <p className="text-sm text-destructive">{error}</p> : null
+  }
+
+  const zone = timezone || availability.timezone || undefined
+  const doubleBooked = availability.events.filter((event) => event.conflicts.length > 0)
+
+  const eventLists: EventList[] = [
+    ...kinds.map((kind) => ({
+      name: `${PERIOD_LABELS[kind]}s`,
+      color: PERIOD_COLORS[kind],
+      times: periodsOf(kind).map((period) => ({ start: period.start_at, end: period.end_at })),
+    })),
+    ...availability.events.map((event) => ({
+      name: event.name,
+      color: event.conflicts.length > 0 ? "#dc2626" : event.color || "#ea580c",
+      times: [{ start: event.start_at, end: event.end_at }],
+      description: event.conflicts.length > 0 ? "Double-booked" : event.is_published ? "Published" : "Unpublished",
+      showTooltip: true,
+      readOnly: true,
+    })),
+  ]
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <h4 className="flex items-center gap-2 text-lg font-medium text-gray-900">
+          <CalendarDays className="w-5 h-5" />
+          Venue Calendar
+          {saving && <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />}
+        </h4>
+        <div className="flex flex-wrap items-end gap-2">
+          <div>
+            <Label className="text-xs">Drag on the calendar to add</Label>
+            <Select value={addKind} onValueChange={(value) => setAddKind(value as VenuePeriodKind)}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="blackout">Blackout</SelectItem>
+                <SelectItem value="hold">Hold</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="text-xs">Reason</Label>
+            <Input
+              className="w-56"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder={addKind === "blackout" ? "Camp closed for repairs" : "Spring NWTA"}
+            />
+          </div>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {doubleBooked.length > 0 && (
+        <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-800 space-y-1">
+          <p className="flex items-center gap-2 font-medium">
+            <AlertTriangle className="w-4 h-4" />
+            Double bookings
+          </p>
+          {doubleBooked.map((event) => (
+            <p key={event.id}>
+              {event.name} ({formatRange(event.start_at, event.end_at, zone)}) overlaps{" "}
+              {event.conflicts.map((conflict) => conflict.name).join(", ")}
+            </p>
+          ))}
+        </div>
+      )}
+
+      <EmmaCalendar eventLists={eventLists} onTimesChange={handleTimesChange} timezone={zone} />
+
+      {availability.periods.length > 0 && (
+        <div className="space-y-2">
+          {availability.periods.map((period) => (
+            <div key={period.id} className="flex items-center justify-between gap-2 text-sm">
+              <div className="flex items-center gap-2">
+                <Badge variant="outline">{PERIOD_LABELS[period.kind]}</Badge>
+                <span>{formatRange(period.start_at, period.end_at, zone)}</span>
+                {period.reason && <span className="text-gray-500">{period.reason}</span>}
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0 text-red-700"
+                title="Remove"
+                disabled={saving}
+                onClick={() => removePeriod(period)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,344 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { CheckCircle, Download, Loader2, UserPlus } from "lucide-react"
+import { useEmma } from "../../lib/emma-provider"
+import { apiDownload, apiFetch } from "../../lib/api-client"
+import type { IGroup } from "../../types/group"
+import type { VisitorReport, VisitorReportRow, VisitorRequestStatus } from "../../types/visitor-request"
+
+export const VISITOR_STATUS_LABELS: Record<VisitorRequestStatus, string> = {
+  pending: "Pending",
+  accepted: "Accepted",
+  declined: "Declined",
+  attended: "Attended",
+}
+
+export const VISITOR_STATUS_COLORS: Record<VisitorRequestStatus, string> = {
+  pending: "bg-amber-100 text-amber-800",
+  accepted: "bg-blue-100 text-blue-800",
+  declined: "bg-gray-100 text-gray-700",
+  attended: "bg-green-100 text-green-800",
+}
+
+interface EmmaVisitorRequestProps {
+  group: Pick<
+    IGroup,
+    "id" | "name" | "is_accepting_initiated_visitors" | "is_accepting_uninitiated_visitors" | "is_requiring_contact_before_visiting"
+  >
+}
+
+/*
+ * "Ask to visit" form for an I-Group's public page. The request goes to the group's contact, who
+ * answers it from their visitor inbox; signed-in warriors get their name and email filled in.
+ */
+export function EmmaVisitorRequest({ group }: EmmaVisitorRequestProps) {
+  const { emmaUser } = useEmma()
+  const person = emmaUser?.person
+  const acceptsBoth = group.is_accepting_initiated_visitors && group.is_accepting_uninitiated_visitors
+
+  const [open, setOpen] = useState(false)
+  const [form, setForm] = useState({
+    first_name: person?.first_name || "",
+    last_name: person?.last_name || "",
+    email: person?.email || "",
+    phone: "",
+    message: "",
+    preferred_date: "",
+  })
+  const [isInitiated, setIsInitiated] = useState(!group.is_accepting_uninitiated_visitors)
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [sent, setSent] = useState<string | null>(null)
+
+  if (!group.is_accepting_initiated_visitors && !group.is_accepting_uninitiated_visitors) {
+    return null
+  }
+
+  const update = (field: keyof typeof form) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+    setForm((prev) => ({ ...prev, [field]: e.target.value }))
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    try {
+      setSubmitting(true)
+      setError(null)
+      const response = await apiFetch("/api/visitor-requests", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...form,
+          i_group_id: group.id,
+          is_initiated: isInitiated,
+          email: form.email || null,
+          phone: form.phone || null,
+          message: form.message || null,
+          preferred_date: form.preferred_date || null,
+        }),
+      })
+      const body = await response.json()
+      if (!response.ok || !body.success) {
+        throw new Error(body.details?.[0]?.message || body.error || "Failed to send your request")
+      }
+      setSent(body.message)
+    } catch (err) {
+      console.error("[v0] Error sending visitor request:", err)
+      setError(err instanceof Error ? err.message : "Failed to send your request")
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  if (sent) {
+    return (
+      <p className="flex items-start gap-2 text-sm">
+        <CheckCircle className="w-4 h-4 mt-0.5 text-green-600 shrink-0" />
+        {sent}
+      </p>
+    )
+  }
+
+  if (!open) {
+    return (
+      <Button onClick={() => setOpen(true)}>
+        <UserPlus className="w-4 h-4 mr-2" />
+        Ask to Visit
+      </Button>
+    )
+  }
+
+  return (
+    <form onSubmit={submit} className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        {group.is_requiring_contact_before_visiting
+          ? `${group.name} asks visitors to get in touch before coming along.`
+          : `Let ${group.name} know you'd like to come along.`}{" "}
+        Their contact will reply by email or phone.
+      </p>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="visitor_first_name">First Name *</Label>
+          <Input id="visitor_first_name" value={form.first_name} onChange={update("first_name")} required />
+        </div>
+        <div>
+          <Label htmlFor="visitor_last_name">Last Name *</Label>
+          <Input id="visitor_last_name" value={form.last_name} onChange={update("last_name")} required />
+        </div>
+        <div>
+          <Label htmlFor="visitor_email">Email</Label>
+          <Input id="visitor_email" type="email" value={form.email} onChange={update("email")} />
+        </div>
+        <div>
+          <Label htmlFor="visitor_phone">Phone</Label>
+          <Input id="visitor_phone" type="tel" value={form.phone} onChange={update("phone")} />
+        </div>
+        <div>
+          <Label htmlFor="visitor_preferred_date">Meeting You'd Like to Attend</Label>
+          <Input id="visitor_preferred_date" type="date" value={form.preferred_date} onChange={update("preferred_date")} />
+        </div>
+      </div>
+
+      {acceptsBoth ? (
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="visitor_is_initiated"
+            checked={isInitiated}
+            onCheckedChange={(checked) => setIsInitiated(checked === true)}
+          />
+          <Label htmlFor="visitor_is_initiated">I have done the New Warrior Training Adventure</Label>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          {group.is_accepting_initiated_visitors
+            ? "This group welcomes visitors who have done the New Warrior Training Adventure."
+            : "This group welcomes visitors who haven't done the New Warrior Training Adventure yet."}
+        </p>
+      )}
+
+      <div>
+        <Label htmlFor="visitor_message">Anything the group should know?</Label>
+        <Textarea id="visitor_message" value={form.message} onChange={update("message")} rows={3} />
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <div className="flex gap-2">
+        <Button type="submit" disabled={submitting || (!form.email && !form.phone)}>
+          {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Send Request
+        </Button>
+        <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+          Cancel
+        </Button>
+      </div>
+    </form>
+  )
+}
+
+function VisitorTable({ title, rows }: { title: string; rows: VisitorReportRow[] }) {
+  return (
+    <div>
+      <h4 className="text-sm font-semibold text-gray-900 mb-2">{title}</h4>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Name</TableHead>
+            <TableHead className="text-right">Visitors</TableHead>
+            <TableHead className="text-right">Accepted</TableHead>
+            <TableHead className="text-right">Declined</TableHead>
+            <TableHead className="text-right">Attended</TableHead>
+            <TableHead className="text-right">Joined</TableHead>
+            <TableHead className="text-right">Overdue</TableHead>
+            <TableHead className="text-right">Converted</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((row) => (
+            <TableRow key={row.key || "none"}>
+              <TableCell>{row.label}</TableCell>
+              <TableCell className="text-right">{row.requests}</TableCell>
+              <TableCell className="text-right">{row.accepted}</TableCell>
+              <TableCell className="text-right">{row.declined}</TableCell>
+              <TableCell className="text-right">{row.attended}</TableCell>
+              <TableCell className="text-right">{row.members}</TableCell>
+              <TableCell className={`text-right ${row.overdue > 0 ? "text-amber-700 font-medium" : ""}`}>
+                {row.overdue}
+              </TableCell>
+              <TableCell className="text-right">{Math.round(row.conversion_rate * 100)}%</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
+
+interface EmmaVisitorReportProps {
+  refreshKey?: number
+}
+
+// Visitor to member conversion, by community and by I-Group; only area admins can load it
+export function EmmaVisitorReport({ refreshKey }: EmmaVisitorReportProps) {
+  const [report, setReport] = useState<VisitorReport | null>(null)
+  const [from, setFrom] = useState("")
+  const [to, setTo] = useState("")
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [forbidden, setForbidden] = useState(false)
+
+  const buildQuery = (format?: "csv") => {
+    const params = new URLSearchParams()
+    if (from) params.set("from", from)
+    if (to) params.set("to", to)
+    if (format) params.set("format", format)
+    return `/api/visitor-requests/report?${params.toString()}`
+  }
+
+  useEffect(() => {
+    const fetchReport = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+        const response = await apiFetch(buildQuery())
+        if (response.status === 403) {
+          setForbidden(true)
+          return
+        }
+        if (!response.ok) {
+          throw new Error(`Failed to fetch visitor report: ${response.statusText}`)
+        }
+        const result = await response.json()
+        setReport(result.data as VisitorReport)
+      } catch (err) {
+        console.error("[v0] Error fetching visitor report:", err)
+        setError(err instanceof Error ? err.message : "Failed to fetch visitor report")
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchReport()
+  }, [from, to, refreshKey])
+
+  if (forbidden) {
+    return null
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-start gap-4">
+          <div>
+            <CardTitle>Visitor Conversion</CardTitle>
+            <CardDescription>
+              How many visitors were welcomed, came along and went on to join. Requests unanswered after{" "}
+              {report?.escalate_after_days ?? 3} days are overdue and go to the community coordinator.
+            </CardDescription>
+          </div>
+          <div className="flex items-end gap-2">
+            <div>
+              <Label className="text-xs">Requested from</Label>
+              <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="h-8" />
+            </div>
+            <div>
+              <Label className="text-xs">to</Label>
+              <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="h-8" />
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => apiDownload(buildQuery("csv"), "visitor-conversion.csv").catch((err) => setError(err.message))}
+            >
+              <Download className="w-4 h-4 mr-2" />
+              CSV
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading && !report ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : report ? (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+              <div className="rounded-lg p-3 bg-gray-100 text-gray-800">
+                <p className="text-xs">Visitors</p>
+                <p className="text-2xl font-bold">{report.totals.requests}</p>
+              </div>
+              <div className={`rounded-lg p-3 ${VISITOR_STATUS_COLORS.accepted}`}>
+                <p className="text-xs">Accepted</p>
+                <p className="text-2xl font-bold">{report.totals.accepted}</p>
+              </div>
+              <div className={`rounded-lg p-3 ${VISITOR_STATUS_COLORS.attended}`}>
+                <p className="text-xs">Attended</p>
+                <p className="text-2xl font-bold">{report.totals.attended}</p>
+              </div>
+              <div className="rounded-lg p-3 bg-emerald-100 text-emerald-800">
+                <p className="text-xs">Joined</p>
+                <p className="text-2xl font-bold">{report.totals.members}</p>
+              </div>
+              <div className={`rounded-lg p-3 ${VISITOR_STATUS_COLORS.pending}`}>
+                <p className="text-xs">Overdue</p>
+                <p className="text-2xl font-bold">{report.totals.overdue}</p>
+              </div>
+            </div>
+            {report.by_community.length > 0 && <VisitorTable title="By Community" rows={report.by_community} />}
+            {report.by_i_group.length > 0 && <VisitorTable title="By I-Group" rows={report.by_i_group} />}
+          </div>
+        ) : null}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,232 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Download, Loader2, Trophy } from "lucide-react"
+import type { PointsEntry, PointsLeaderboard, PointsTotals, WarriorPoints } from "../../types/warrior-points"
+import { apiDownload, apiFetch } from "../../lib/api-client"
+
+const WINDOWS = [12, 24, 36, 60]
+
+const SOURCE_LABELS: Record<PointsEntry["source"], string> = {
+  role: "Role",
+  staffed: "Staffed",
+  lead: "Led",
+}
+
+function WindowSelect({ months, onChange }: { months: number; onChange: (months: number) => void }) {
+  return (
+    <Select value={String(months)} onValueChange={(value) => onChange(Number(value))}>
+      <SelectTrigger className="w-40">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {WINDOWS.map((option) => (
+          <SelectItem key={option} value={String(option)}>
+            Last {option} months
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
+function usePoints<T>(path: string) {
+  const [data, setData] = useState<T | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchPoints = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+
+        const response = await apiFetch(path)
+        const result = await response.json()
+        if (!response.ok || !result.success) {
+          throw new Error(result.error || "Failed to fetch points")
+        }
+
+        setData(result.data)
+      } catch (err) {
+        console.error("[v0] Error fetching points:", err)
+        setError(err instanceof Error ? err.message : "Failed to fetch points")
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchPoints()
+  }, [path])
+
+  return { data, loading, error, setError }
+}
+
+function TotalsGrid({ label, totals }: { label: string; totals: PointsTotals }) {
+  return (
+    <div className="p-4 bg-muted/50 rounded-lg space-y-2">
+      <p className="font-medium text-sm text-muted-foreground">{label}</p>
+      <p className="text-2xl font-bold">{totals.total}</p>
+      <p className="text-xs text-muted-foreground">
+        {totals.work_points} work · {totals.preparation_points} preparation · {totals.events} NWTA
+        {totals.events === 1 ? "" : "s"}
+      </p>
+    </div>
+  )
+}
+
+interface EmmaWarriorPointsProps {
+  warriorId: string
+}
+
+export function EmmaWarriorPoints({ warriorId }: EmmaWarriorPointsProps) {
+  const [months, setMonths] = useState(24)
+  const { data: points, loading, error } = usePoints<WarriorPoints>(`/api/warriors/${warriorId}/points?months=${months}`)
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2">
+            <Trophy className="h-5 w-5" />
+            Service Points
+          </CardTitle>
+          <WindowSelect months={months} onChange={setMonths} />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading && !points ? (
+          <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+        ) : error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : points ? (
+          <>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <TotalsGrid label="Lifetime" totals={points.lifetime} />
+              <TotalsGrid label={`Last ${points.window_months} months`} totals={points.window} />
+            </div>
+
+            {points.entries.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No NWTA service recorded yet</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>NWTA</TableHead>
+                    <TableHead>Service</TableHead>
+                    <TableHead className="text-right">Work</TableHead>
+                    <TableHead className="text-right">Preparation</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {points.entries.map((entry) => (
+                    <TableRow key={`${entry.event_id}-${entry.source}-${entry.role_id || ""}`}>
+                      <TableCell>
+                        <div>{entry.event_name || "Unknown event"}</div>
+                        {entry.date && (
+                          <div className="text-xs text-muted-foreground">{new Date(entry.date).toLocaleDateString()}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          {entry.role_name || SOURCE_LABELS[entry.source]}
+                          {entry.pending && <Badge variant="outline">Upcoming</Badge>}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right font-mono">{entry.work_points}</TableCell>
+                      <TableCell className="text-right font-mono">{entry.preparation_points}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </>
+        ) : null}
+      </CardContent>
+    </Card>
+  )
+}
+
+interface EmmaPointsLeaderboardProps {
+  areaId: string
+}
+
+export function EmmaPointsLeaderboard({ areaId }: EmmaPointsLeaderboardProps) {
+  const [months, setMonths] = useState(24)
+  const [exporting, setExporting] = useState(false)
+  const path = `/api/areas/${areaId}/points?months=${months}`
+  const { data: leaderboard, loading, error, setError } = usePoints<PointsLeaderboard>(path)
+
+  const handleExport = async () => {
+    if (!leaderboard) return
+    try {
+      setExporting(true)
+      await apiDownload(`${path}&format=csv`, `${leaderboard.area_name}-points.csv`)
+    } catch (err) {
+      console.error("[v0] Error exporting points leaderboard:", err)
+      setError(err instanceof Error ? err.message : "Failed to export the leaderboard")
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <h4 className="font-medium text-gray-900">Service Points Leaderboard</h4>
+        <div className="flex flex-wrap items-end gap-2">
+          <WindowSelect months={months} onChange={setMonths} />
+          {leaderboard && (
+            <Button variant="outline" size="sm" onClick={handleExport} disabled={exporting}>
+              {exporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+              Export CSV
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {loading && !leaderboard ? (
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      ) : error ? (
+        <p className="text-sm text-destructive">{error}</p>
+      ) : leaderboard ? (
+        leaderboard.rows.length === 0 ? (
+          <p className="text-sm text-gray-500 italic">No warriors in this area have earned points yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-12">#</TableHead>
+                <TableHead>Warrior</TableHead>
+                <TableHead className="text-right">Last {leaderboard.window_months} Months</TableHead>
+                <TableHead className="text-right">Lifetime</TableHead>
+                <TableHead className="text-right">NWTAs</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {leaderboard.rows.map((row, index) => (
+                <TableRow key={row.warrior_id}>
+                  <TableCell>{index + 1}</TableCell>
+                  <TableCell>
+                    <div>
+                      {row.first_name} {row.last_name}
+                    </div>
+                    {row.status && <div className="text-xs text-gray-500">{row.status}</div>}
+                  </TableCell>
+                  <TableCell className="text-right font-mono">{row.window.total}</TableCell>
+                  <TableCell className="text-right font-mono">{row.lifetime.total}</TableCell>
+                  <TableCell className="text-right font-mono">{row.lifetime.events}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )
+      ) : null}
+    </div>
+  )
+}
@@ -1,4 +1,6 @@
 import { useState, useEffect } from "react"
+import { apiFetch } from "../lib/api-client"
+import type { CheckInRollup } from "../types/group-check-in"
 
 interface NearbyStats {
   radius_miles: number
@@ -42,6 +44,7 @@ export interface GroupStatsData {
   community?: CommunityStats | null
   accepting_initiated_visitors?: number
   accepting_uninitiated_visitors?: number
+  check_ins?: CheckInRollup // only with ?check_ins=true
 }
 
 interface GroupStatsResponse {
@@ -95,7 +98,7 @@ export function useGroupStats(
 
         console.log(`[useGroupStats] Fetching from: ${url}`)
 
-        const response = await fetch(url)
+        const response = await apiFetch(url)
 
         if (!response.ok) {
           throw new Error(`Failed to fetch group stats: ${response.status}`)
@@ -0,0 +1,137 @@
+import { useState, useEffect, useCallback, useRef } from "react"
+import type { Dispatch, SetStateAction } from "react"
+import { apiFetch } from "../lib/api-client"
+
+interface PagedListResponse<T> {
+  success: boolean
+  data: T[]
+  count: number
+  total: number
+  page: number | null
+  pageSize: number | null
+  nextCursor: string | null
+  error?: string
+}
+
+export interface UsePagedListOptions {
+  pageSize?: number
+  // Column to sort by; prefix with "-" for descending (see api/_lib/pagination.ts)
+  sort?: string
+  // Free-text search, sent as q once the user stops typing
+  q?: string
+  // Extra query parameters for the route (active, status, managed, ...); undefined values are skipped
+  filters?: Record<string, string | undefined>
+  enabled?: boolean
+}
+
+export interface UsePagedListResult<T> {
+  items: T[]
+  setItems: Dispatch<SetStateAction<T[]>>
+  total: number
+  page: number
+  pageCount: number
+  pageSize: number
+  setPage: (page: number) => void
+  isLoading: boolean
+  error: string | null
+  refresh: () => Promise<void>
+}
+
+const SEARCH_DEBOUNCE_MS = 300
+
+/**
+ * Custom hook to load one page of a collection route at a time
+ * @param endpoint - Collection route, e.g. "/api/people"
+ * @param options - Page size, sort, search text and route-specific filters
+ *
+ * Changing the search text, sort or filters goes back to the first page.
+ */
+export function usePagedList<T>(endpoint: string, options: UsePagedListOptions = {}): UsePagedListResult<T> {
+  const { pageSize = 25, sort, q = "", filters = {}, enabled = true } = options
+  const [items, setItems] = useState<T[]>([])
+  const [total, setTotal] = useState(0)
+  const [page, setPage] = useState(1)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [debouncedQ, setDebouncedQ] = useState(q)
+  const requestId = useRef(0)
+
+  const filtersKey = JSON.stringify(filters)
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQ(q.trim()), SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+  }, [q])
+
+  useEffect(() => {
+    setPage(1)
+  }, [debouncedQ, sort, filtersKey, pageSize])
+
+  const fetchPage = useCallback(async () => {
+    const currentRequest = ++requestId.current
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const params = new URLSearchParams({ page: String(page), pageSize: String(pageSize) })
+      if (sort) {
+        params.append("sort", sort)
+      }
+      if (debouncedQ) {
+        params.append("q", debouncedQ)
+      }
+      Object.entries(JSON.parse(filtersKey) as Record<string, string | undefined>).forEach(([key, value]) => {
+        if (value !== undefined) {
+          params.append(key, value)
+        }
+      })
+
+      const response = await apiFetch(`${endpoint}?${params.toString()}`)
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch ${endpoint}: ${response.statusText}`)
+      }
+
+      const result: PagedListResponse<T> = await response.json()
+
+      // A newer request (the user kept typing or paging) has superseded this one
+      if (currentRequest !== requestId.current) {
+        return
+      }
+
+      setItems(result.data || [])
+      setTotal(result.total ?? result.count ?? 0)
+    } catch (err) {
+      if (currentRequest !== requestId.current) {
+        return
+      }
+      console.error(`[usePagedList] Error fetching ${endpoint}:`, err)
+      setError(err instanceof Error ? err.message : `Failed to fetch ${endpoint}`)
+      setItems([])
+      setTotal(0)
+    } finally {
+      if (currentRequest === requestId.current) {
+        setIsLoading(false)
+      }
+    }
+  }, [endpoint, page, pageSize, sort, debouncedQ, filtersKey])
+
+  useEffect(() => {
+    if (enabled) {
+      fetchPage()
+    }
+  }, [enabled, fetchPage])
+
+  return {
+    items,
+    setItems,
+    total,
+    page,
+    pageCount: Math.max(1, Math.ceil(total / pageSize)),
+    pageSize,
+    setPage,
+    isLoading,
+    error,
+    refresh: fetchPage,
+  }
+}
@@ -0,0 +1,48 @@
+/*
+ * Thin wrapper around fetch() for calls to our own /api handlers. Every handler verifies the
+ * caller's Auth0 access token (see api/_lib/auth.ts), so this attaches it as a bearer token
+ * whenever the user is logged in. Anonymous callers are sent through unchanged, which is all
+ * the public routes need.
+ *
+ * The Auth0Provider registers the token getter once its client is ready.
+ */
+
+type AccessTokenGetter = () => Promise<string | null>
+
+let accessTokenGetter: AccessTokenGetter | null = null
+
+export const setAccessTokenGetter = (getter: AccessTokenGetter | null) => {
+  accessTokenGetter = getter
+}
+
+export const apiFetch = async (input: string, init: RequestInit = {}): Promise<Response> => {
+  const headers = new Headers(init.headers)
+
+  if (accessTokenGetter && !headers.has("Authorization")) {
+    const token = await accessTokenGetter()
+    if (token) {
+      headers.set("Authorization", `Bearer ${token}`)
+    }
+  }
+
+  return fetch(input, { ...init, headers })
+}
+
+/*
+ * Fetches a file from one of our handlers (with the bearer token) and saves it in the browser,
+ * for report exports that a plain link couldn't authenticate.
+ */
+export const apiDownload = async (input: string, filename: string): Promise<void> => {
+  const response = await apiFetch(input)
+  if (!response.ok) {
+    const result = await response.json().catch(() => null)
+    throw new Error(result?.error || "Download failed")
+  }
+
+  const url = URL.createObjectURL(await response.blob())
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
@@ -2,6 +2,7 @@
 
 import { createAuth0Client, type Auth0Client, type User } from "@auth0/auth0-spa-js"
 import { createContext, useContext, useEffect, useState, type ReactNode } from "react"
+import { setAccessTokenGetter } from "./api-client"
 
 interface Auth0ContextType {
   user: User | null
@@ -38,6 +39,7 @@ export const Auth0Provider = ({ children }: Auth0ProviderProps) => {
       try {
         const domain = import.meta.env.VITE_AUTH0_DOMAIN
         const clientId = import.meta.env.VITE_AUTH0_CLIENT_ID
+        const audience = import.meta.env.VITE_AUTH0_AUDIENCE
 
         if (!domain || !clientId) {
           throw new Error("Auth0 domain and client ID must be provided")
@@ -51,11 +53,20 @@ export const Auth0Provider = ({ children }: Auth0ProviderProps) => {
           clientId,
           authorizationParams: {
             redirect_uri: window.location.origin,
+            audience,
           },
         })
 
         console.log("[v0] Auth0 client created successfully")
         setAuth0Client(client)
+        setAccessTokenGetter(async () => {
+          try {
+            return (await client.isAuthenticated()) ? await client.getTokenSilently() : null
+          } catch (err) {
+            console.error("[v0] Failed to get access token:", err)
+            return null
+          }
+        })
 
         // Check if user is authenticated
         const isAuthenticated = await client.isAuthenticated()
@@ -12,6 +12,7 @@
 import { createContext, useContext, useEffect, useState, type ReactNode } from "react"
 import { useAuth0 } from "./auth0-provider"
 import type { EmmaUserWithRelations } from "../../api/users"
+import { apiFetch } from "./api-client"
 
 interface LocationData {
   latitude: string | null
@@ -64,7 +65,7 @@ export const EmmaProvider = ({ children }: EmmaUserProviderProps) => {
 
     try {
       console.log("[v0] Fetching EmmaUser for email:", auth0User.email)
-      const response = await fetch(`/api/users?email=${encodeURIComponent(auth0User.email)}`)
+      const response = await apiFetch(`/api/users?email=${encodeURIComponent(auth0User.email)}`)
 
       if (!response.ok) {
         throw new Error(`Failed to fetch user: ${response.status}`)
@@ -120,7 +121,7 @@ export const EmmaProvider = ({ children }: EmmaUserProviderProps) => {
 
       // No cookie found, fetch from API
       console.log("[v0] No location cookie found, fetching from API...")
-      const response = await fetch("/api/geolocation")
+      const response = await apiFetch("/api/geolocation")
 
       if (!response.ok) {
         throw new Error(`Failed to fetch geolocation: ${response.status}`)
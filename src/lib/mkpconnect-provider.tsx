@@ -11,6 +11,7 @@
 
 import { createContext, useContext, useState, type ReactNode } from "react"
 import type { WarriorWithRelations } from "../../api/mkp-connect/warriors"
+import { apiFetch } from "./api-client"
 
 interface WarriorProfile {
   id: string
@@ -81,7 +82,7 @@ export const MkpConnectProvider = ({ children }: MkpConnectProviderProps) => {
     setMkpConnectWarriorError(null)
 
     try {
-      const response = await fetch(`/api/mkp-connect/warriors?email=${encodeURIComponent(trimmedEmail)}`)
+      const response = await apiFetch(`/api/mkp-connect/warriors?email=${encodeURIComponent(trimmedEmail)}`)
       if (response.ok) {
         const responseObj = await response.json()
         const responseData: WarriorWithRelations[] = responseObj.data || []
@@ -138,7 +139,7 @@ export const MkpConnectProvider = ({ children }: MkpConnectProviderProps) => {
     setMkpConnectWarriorError(null)
 
     try {
-      const response = await fetch(`/api/mkp-connect/warriors?userid=${encodeURIComponent(trimmedUserId)}`)
+      const response = await apiFetch(`/api/mkp-connect/warriors?userid=${encodeURIComponent(trimmedUserId)}`)
       if (response.ok) {
         const responseObj = await response.json()
         const responseData: WarriorWithRelations[] = responseObj.data || []
@@ -208,7 +209,7 @@ export const MkpConnectProvider = ({ children }: MkpConnectProviderProps) => {
         (trimmedMiddleName ? "&middlename=" + encodeURIComponent(trimmedMiddleName) : "") +
         "&lastname=" +
         encodeURIComponent(trimmedLastName)
-      const response = await fetch(`/api/mkp-connect/warriors?${nameParams}`)
+      const response = await apiFetch(`/api/mkp-connect/warriors?${nameParams}`)
       if (response.ok) {
         const responseObj = await response.json()
         const responseData: WarriorWithRelations[] = responseObj.data || []
@@ -0,0 +1,84 @@
+import { apiFetch } from "./api-client"
+import type { PersonSummary } from "../types/person"
+
+/*
+ * Resolves people by id through GET /api/people?ids=, which only returns the requested people and
+ * only their public-safe fields. Lookups made in the same tick are coalesced into one request, so
+ * a page full of EmmaPersonDisplays costs a single call, and results are cached until the page reloads
+ * (logging in or out reloads it, so the cached projection always matches the caller).
+ * Ids that don't resolve are cached as null so they aren't requested again.
+ */
+
+// Matches MAX_LOOKUP_IDS in api/people.ts
+const MAX_IDS_PER_REQUEST = 200
+
+const cache = new Map<string, Promise<PersonSummary | null>>()
+let queued = new Map<
+  string,
+  { resolve: (person: PersonSummary | null) => void; reject: (reason: unknown) => void }
+>()
+let flushScheduled = false
+
+const requestPeople = async (ids: string[]): Promise<PersonSummary[]> => {
+  const response = await apiFetch(`/api/people?ids=${ids.map(encodeURIComponent).join(",")}`)
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch people: ${response.statusText}`)
+  }
+
+  const result = await response.json()
+  if (!result.success) {
+    throw new Error(result.error || "Failed to load people")
+  }
+
+  return result.data || []
+}
+
+const flush = async () => {
+  const batch = queued
+  queued = new Map()
+  flushScheduled = false
+
+  const ids = [...batch.keys()]
+  for (let start = 0; start < ids.length; start += MAX_IDS_PER_REQUEST) {
+    const chunk = ids.slice(start, start + MAX_IDS_PER_REQUEST)
+    try {
+      const people = await requestPeople(chunk)
+      const byId = new Map(people.map((person) => [person.id, person]))
+      chunk.forEach((id) => batch.get(id)?.resolve(byId.get(id) || null))
+    } catch (err) {
+      // Let a later call try these ids again
+      chunk.forEach((id) => {
+        cache.delete(id)
+        batch.get(id)?.reject(err)
+      })
+    }
+  }
+}
+
+const lookupPerson = (id: string): Promise<PersonSummary | null> => {
+  const cached = cache.get(id)
+  if (cached) {
+    return cached
+  }
+
+  const pending = new Promise<PersonSummary | null>((resolve, reject) => queued.set(id, { resolve, reject }))
+  cache.set(id, pending)
+
+  if (!flushScheduled) {
+    flushScheduled = true
+    setTimeout(flush, 0)
+  }
+
+  return pending
+}
+
+/**
+ * Fetch the people with the given ids, in no particular order. Unknown ids are left out.
+ * @param ids - Person ids; duplicates and empty values are ignored
+ */
+export const fetchPeopleByIds = async (ids: (string | null | undefined)[]): Promise<PersonSummary[]> => {
+  const uniqueIds = [...new Set(ids.filter((id): id is string => !!id))]
+  const people = await Promise.all(uniqueIds.map(lookupPerson))
+  return people.filter((person): person is PersonSummary => person !== null)
+}
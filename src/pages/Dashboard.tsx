@@ -3,9 +3,11 @@ import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { Badge } from "@/components/ui/badge"
-import { User, Calendar, Loader2, Mail, Shield } from "lucide-react"
+import { User, Calendar, Loader2, Mail, Shield, UserPlus } from "lucide-react"
 import { Link } from "react-router-dom"
 import { EmmaTitleBar } from "../components/emma/titlebar"
+import { EmmaPersonalCalendarFeed } from "../components/emma/calendar-feeds"
+import { EmmaCheckInAlerts } from "../components/emma/group-check-ins"
 
 export default function Dashboard() {
   const { user, isAuthenticated, isLoading } = useAuth0()
@@ -150,6 +152,38 @@ export default function Dashboard() {
               </CardContent>
             </Card>
           </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Calendar className="w-5 h-5" />
+                My Calendar
+              </CardTitle>
+              <CardDescription>Your MKP commitments in your own calendar app.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <EmmaPersonalCalendarFeed />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <UserPlus className="w-5 h-5" />
+                Visitor Requests
+              </CardTitle>
+              <CardDescription>
+                People asking to visit the I-Groups you are the contact for or whose community you coordinate.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button variant="outline" size="sm" asChild>
+                <Link to="/admin/visitor-requests">Open Visitor Inbox</Link>
+              </Button>
+            </CardContent>
+          </Card>
+
+          <EmmaCheckInAlerts />
         </div>
       </main>
     </div>
@@ -7,6 +7,7 @@ import { EmmaTitleBar } from "../components/emma/titlebar"
 import { Card, CardContent } from "@/components/ui/card"
 import { useEmma } from "../lib/emma-provider"
 import type { GroupWithRelations } from "../types/group"
+import { apiFetch } from "../lib/api-client"
 
 interface GroupWithDistance extends GroupWithRelations {
   distance?: number
@@ -50,7 +51,7 @@ export default function GroupNearby() {
       const url = `/api/groups?lat=${location.latitude}&lon=${location.longitude}&rad=25mi`
       console.log("[GroupNearby] Fetching from:", url)
 
-      const response = await fetch(url)
+      const response = await apiFetch(url)
 
       if (!response.ok) {
         throw new Error("Failed to fetch groups")
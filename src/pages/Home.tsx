@@ -11,6 +11,7 @@ import { useState, useEffect } from "react"
 import { useNavigate } from "react-router-dom"
 import { useGroupStats } from "../hooks/useGroupStats"
 import { formatGroupsMessage } from "../lib/formatGroupsMessage"
+import { apiFetch } from "../lib/api-client"
 
 export default function Home() {
   const { user, error, isLoading, isAuthenticated, loginWithPopup } = useAuth0()
@@ -30,7 +31,7 @@ export default function Home() {
   useEffect(() => {
     const fetchNextEvent = async () => {
       try {
-        const response = await fetch("/api/nwta-events?published=true")
+        const response = await apiFetch("/api/nwta-events?published=true")
         if (response.ok) {
           const result = await response.json()
           if (result.success && result.data && result.data.length > 0) {
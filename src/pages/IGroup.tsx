@@ -18,12 +18,19 @@ import {
   ExternalLink,
   CheckCircle,
   XCircle,
+  UserPlus,
 } from "lucide-react"
 import { EmmaAreaTag } from "../components/emma/area-tag"
 import { EmmaCommunityTag } from "../components/emma/community-tag"
+import { EmmaNextMeetings } from "../components/emma/next-meetings"
+import { EmmaCalendarSubscribe } from "../components/emma/calendar-feeds"
+import { EmmaVisitorRequest } from "../components/emma/visitor-request"
+import { EmmaGroupRoster } from "../components/emma/group-roster"
+import { EmmaGroupCheckIn } from "../components/emma/group-check-ins"
 import type { IGroupWithRelations } from "../types/group"
 import type { Person } from "../types/person"
 import type { EventTime } from "../types/event"
+import { apiFetch } from "../lib/api-client"
 
 interface IGroupApiResponse {
   success: boolean
@@ -31,6 +38,8 @@ interface IGroupApiResponse {
   error?: string
 }
 
+const NEXT_MEETINGS = 6
+
 function getFullName(person: Person): string {
   return [person.first_name, person.middle_name, person.last_name].filter(Boolean).join(" ")
 }
@@ -52,13 +61,16 @@ function formatDate(dateString: string | null): string {
 function formatScheduleEvent(event: EventTime, timezone?: string): string {
   const start = new Date(event.start)
   const end = new Date(event.end)
-  const dayOfWeek = start.toLocaleDateString("en-US", { weekday: "long" })
+  // Formatted where the group meets, so the weekday matches the night it actually meets
+  const dayOfWeek = start.toLocaleDateString("en-US", { weekday: "long", timeZone: timezone })
   const timeRange = `${start.toLocaleTimeString("en-US", {
     hour: "numeric",
     minute: "2-digit",
+    timeZone: timezone,
   })} - ${end.toLocaleTimeString("en-US", {
     hour: "numeric",
     minute: "2-digit",
+    timeZone: timezone,
   })}`
   return timezone ? `${dayOfWeek}, ${timeRange} (${timezone})` : `${dayOfWeek}, ${timeRange}`
 }
@@ -80,6 +92,7 @@ export default function IGroup() {
   const [iGroupData, setIGroupData] = useState<IGroupWithRelations | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [refreshKey, setRefreshKey] = useState(0)
 
   const backLink = location.state?.backLink || { href: "/i-group/search", label: "Search I-Groups" }
 
@@ -92,7 +105,7 @@ export default function IGroup() {
       }
 
       try {
-        const response = await fetch(`/api/i-groups/${uuid}`)
+        const response = await apiFetch(`/api/i-groups/${uuid}?meetings=${NEXT_MEETINGS}`)
         const result: IGroupApiResponse = await response.json()
 
         if (!result.success) {
@@ -110,7 +123,7 @@ export default function IGroup() {
     }
 
     fetchIGroup()
-  }, [uuid])
+  }, [uuid, refreshKey])
 
   if (loading) {
     return (
@@ -346,7 +359,12 @@ export default function IGroup() {
                   <p className="whitespace-pre-wrap">{iGroupData.schedule_description}</p>
                 </div>
               )}
-              {iGroupData.schedule_events && iGroupData.schedule_events.length > 0 ? (
+              {iGroupData.next_meetings && iGroupData.next_meetings.length > 0 ? (
+                <div>
+                  <h4 className="font-medium text-sm text-muted-foreground mb-2">Next Meetings</h4>
+                  <EmmaNextMeetings group={iGroupData} showZone />
+                </div>
+              ) : iGroupData.schedule_events && iGroupData.schedule_events.length > 0 ? (
                 <div>
                   <h4 className="font-medium text-sm text-muted-foreground mb-2">Meeting Times</h4>
                   <div className="space-y-2">
@@ -361,9 +379,28 @@ export default function IGroup() {
               ) : (
                 <p className="text-muted-foreground">No scheduled meetings</p>
               )}
+              {(iGroupData.schedule_rrule || iGroupData.schedule_events?.length > 0) && (
+                <EmmaCalendarSubscribe path={`/api/i-groups/${iGroupData.id}/calendar`} />
+              )}
             </CardContent>
           </Card>
 
+          {/* Visit Card */}
+          {iGroupData.is_active &&
+            (iGroupData.is_accepting_initiated_visitors || iGroupData.is_accepting_uninitiated_visitors) && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <UserPlus className="h-5 w-5" />
+                    Visit This Group
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <EmmaVisitorRequest group={iGroupData} />
+                </CardContent>
+              </Card>
+            )}
+
           {/* Contact Information Card */}
           {(iGroupData.primary_contact || iGroupData.public_contact) && (
             <Card>
@@ -485,6 +522,10 @@ export default function IGroup() {
               )}
             </CardContent>
           </Card>
+
+          <EmmaGroupRoster groupId={iGroupData.id} onChange={() => setRefreshKey((key) => key + 1)} />
+
+          <EmmaGroupCheckIn groupId={iGroupData.id} />
         </div>
       </div>
     </div>
@@ -6,10 +6,12 @@ import { MapPin, Calendar, Users, Loader2 } from "lucide-react"
 import { EmmaTitleBar } from "../components/emma/titlebar"
 import { EmmaAreaTag } from "../components/emma/area-tag"
 import { EmmaCommunityTag } from "../components/emma/community-tag"
+import { EmmaNextMeetings } from "../components/emma/next-meetings"
 import { Card, CardContent } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { useEmma } from "../lib/emma-provider"
 import type { IGroupWithRelations } from "../types/group"
+import { apiFetch } from "../lib/api-client"
 
 interface IGroupWithDistance extends IGroupWithRelations {
   distance?: number
@@ -53,7 +55,7 @@ export default function IGroupNearby() {
       const url = `/api/i-groups?lat=${location.latitude}&lon=${location.longitude}&rad=25mi`
       console.log("[IGroupNearby] Fetching from:", url)
 
-      const response = await fetch(url)
+      const response = await apiFetch(url)
 
       if (!response.ok) {
         throw new Error("Failed to fetch i-groups")
@@ -202,6 +204,14 @@ export default function IGroupNearby() {
                         </div>
                       )}
 
+                      {/* Upcoming meetings, so visitors come on the right night */}
+                      {group.next_meetings && group.next_meetings.length > 0 && (
+                        <div>
+                          <p className="text-xs font-medium text-muted-foreground mb-1">Next meetings</p>
+                          <EmmaNextMeetings group={group} limit={3} />
+                        </div>
+                      )}
+
                       {/* Footer: Members and Distance */}
                       <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
                         <div className="flex items-center gap-1">
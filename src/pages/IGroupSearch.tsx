@@ -13,6 +13,7 @@ import { Button } from "@/components/ui/button"
 import { Checkbox } from "@/components/ui/checkbox"
 import { Label } from "@/components/ui/label"
 import type { IGroupWithRelations } from "../types/group"
+import { apiFetch } from "../lib/api-client"
 
 interface IGroupWithDistance extends IGroupWithRelations {
   distance?: number
@@ -127,7 +128,7 @@ export default function IGroupSearch() {
       if (params.uninitiated) queryParams.set('uninitiated', 'true')
       queryParams.set('active', 'true')
 
-      const response = await fetch(`/api/i-groups?${queryParams.toString()}`)
+      const response = await apiFetch(`/api/i-groups?${queryParams.toString()}`)
       const result = await response.json()
 
       if (result.success) {
@@ -1,24 +1,30 @@
 "use client"
 
 import { useState, useEffect } from "react"
-import { useParams, useNavigate } from "react-router-dom"
+import { useParams, useNavigate, useSearchParams, Link } from "react-router-dom"
 import { EmmaTitleBar } from "../components/emma/titlebar"
 import { EmmaEventTypeTag } from "../components/emma/eventtype"
 import { EmmaAreaTag } from "../components/emma/area-tag"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
-import { MapPin, Calendar, Users, Clock } from "lucide-react"
+import { MapPin, Calendar, Users, Clock, UserPlus } from "lucide-react"
+import { Button } from "@/components/ui/button"
 import { EmmaCalendar } from "../components/emma/calendar"
 import { EmmaPersonDisplay } from "../components/emma/person-display"
 import { formatCurrency } from "./admin/AdminEventHelperMethods"
 import type { EventWithRelations } from "../types/event"
-import type { Person } from "../types/person"
+import type { PersonSummary } from "../types/person"
 import { EmmaEventPublishedTag } from "../components/emma/event-published-tag"
+import { EmmaRookieIntake } from "../components/emma/rookie-intake"
+import { apiFetch } from "../lib/api-client"
+import { fetchPeopleByIds } from "../lib/people-lookup"
 
 export default function Nwta() {
   const { uuid } = useParams<{ uuid: string }>()
   const navigate = useNavigate()
+  // A rookie's intake link carries ?intake=<token>, which stands in for signing in
+  const [searchParams] = useSearchParams()
   const [event, setEvent] = useState<EventWithRelations | null>(null)
-  const [people, setPeople] = useState<Person[]>([])
+  const [people, setPeople] = useState<PersonSummary[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
@@ -47,7 +53,7 @@ export default function Nwta() {
   const fetchEvent = async () => {
     try {
       setLoading(true)
-      const response = await fetch(`/api/nwta-events/${uuid}`)
+      const response = await apiFetch(`/api/nwta-events/${uuid}`)
 
       if (!response.ok) {
         throw new Error("Failed to fetch NWTA details")
@@ -99,20 +105,7 @@ export default function Nwta() {
         return
       }
 
-      // TODO This is very unbounded; need to rewrite this to request just the list of people we want.
-      const response = await fetch("/api/people")
-
-      if (!response.ok) {
-        throw new Error("Failed to fetch people data")
-      }
-
-      const data = await response.json()
-      if (data.success) {
-        const relevantPeople = data.data.filter((person: Person) => uniquePersonIds.includes(person.id))
-        setPeople(relevantPeople)
-      } else {
-        throw new Error(data.error || "Failed to load people")
-      }
+      setPeople(await fetchPeopleByIds(uniquePersonIds))
     } catch (err) {
       console.error("Error fetching people:", err)
       setError(err instanceof Error ? err.message : "Failed to load people")
@@ -188,6 +181,14 @@ export default function Nwta() {
                   <h1 className="text-2xl sm:text-3xl font-bold text-balance">{event.name}</h1>
                   {event.description && <p className="text-muted-foreground">{event.description}</p>}
                 </div>
+                {event.is_published && (
+                  <Button asChild className="bg-orange-600 hover:bg-orange-700">
+                    <Link to={`/nwta/${event.id}/register`}>
+                      <UserPlus className="h-4 w-4 mr-2" />
+                      Register
+                    </Link>
+                  </Button>
+                )}
               </div>
 
               <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
@@ -407,6 +408,8 @@ export default function Nwta() {
               </CardContent>
             </Card>
           )}
+
+          <EmmaRookieIntake eventId={event.id} token={searchParams.get("intake")} />
         </div>
       </div>
     </div>
@@ -0,0 +1,214 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { useParams, Link } from "react-router-dom"
+import { EmmaTitleBar } from "../components/emma/titlebar"
+import { EmmaPaymentCard } from "../components/emma/payment-card"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { CheckCircle, Clock, Loader2 } from "lucide-react"
+import { formatCurrency } from "./admin/AdminEventHelperMethods"
+import type { NwtaRegistrationInfo, NwtaRegistrationResult } from "../types/nwta-registration"
+import { apiFetch } from "../lib/api-client"
+
+const EMPTY_FORM = { first_name: "", last_name: "", email: "", phone: "", notes: "" }
+
+export default function NwtaRegister() {
+  const { uuid } = useParams<{ uuid: string }>()
+  const [info, setInfo] = useState<NwtaRegistrationInfo | null>(null)
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [paymentToken, setPaymentToken] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [result, setResult] = useState<{ data: NwtaRegistrationResult; message: string } | null>(null)
+
+  const handleTokenChange = useCallback((token: string | null) => setPaymentToken(token), [])
+
+  useEffect(() => {
+    const fetchInfo = async () => {
+      try {
+        setLoading(true)
+        const response = await apiFetch(`/api/nwta-events/${uuid}/register`)
+        const body = await response.json()
+        if (!response.ok || !body.success) {
+          throw new Error(body.error || "Failed to load NWTA registration")
+        }
+        setInfo(body.data)
+      } catch (err) {
+        console.error("Error fetching NWTA registration:", err)
+        setError(err instanceof Error ? err.message : "Failed to load NWTA registration")
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    if (uuid) {
+      fetchInfo()
+    }
+  }, [uuid])
+
+  const depositDue = !!info && !info.is_full && info.deposit > 0
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    try {
+      setSubmitting(true)
+      setError(null)
+      const response = await apiFetch(`/api/nwta-events/${uuid}/register`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...form,
+          notes: form.notes || null,
+          payment_token: depositDue ? paymentToken : null,
+        }),
+      })
+      const body = await response.json()
+      if (!response.ok || !body.success) {
+        throw new Error(body.details?.[0]?.message || body.error || "Registration failed")
+      }
+      setResult({ data: body.data, message: body.message })
+    } catch (err) {
+      console.error("Error registering:", err)
+      setError(err instanceof Error ? err.message : "Registration failed")
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const update = (field: keyof typeof EMPTY_FORM) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+    setForm((prev) => ({ ...prev, [field]: e.target.value }))
+
+  return (
+    <div className="min-h-screen bg-background">
+      <EmmaTitleBar backLink={{ href: `/nwta/${uuid}`, label: "NWTA" }} />
+      <div className="pt-20 container mx-auto px-4 py-8 max-w-2xl">
+        {loading ? (
+          <div className="text-center">
+            <p>Loading registration...</p>
+          </div>
+        ) : !info ? (
+          <div className="text-center">
+            <p className="text-destructive">{error || "NWTA not found"}</p>
+          </div>
+        ) : result ? (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                {result.data.status === "waitlisted" ? (
+                  <Clock className="h-5 w-5 text-orange-500" />
+                ) : (
+                  <CheckCircle className="h-5 w-5 text-green-600" />
+                )}
+                {result.data.status === "waitlisted" ? "You're on the Waitlist" : "You're Registered"}
+              </CardTitle>
+              <CardDescription>{info.event_name}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <p>{result.message}</p>
+              {"payment" in result.data && result.data.payment && (
+                <p className="text-sm text-muted-foreground">
+                  Deposit of {formatCurrency(result.data.payment.amount)} received (reference{" "}
+                  {result.data.payment.reference}).
+                </p>
+              )}
+              {"intake_path" in result.data && (
+                <p className="text-sm">
+                  Before the weekend, fill in your{" "}
+                  <Link to={result.data.intake_path} className="text-blue-600 hover:underline">
+                    emergency contacts, medical information and waiver
+                  </Link>
+                  . Keep the link: it opens your intake without signing in.
+                </p>
+              )}
+              <Link to={`/nwta/${uuid}`} className="text-sm text-blue-600 hover:underline">
+                Back to the NWTA
+              </Link>
+            </CardContent>
+          </Card>
+        ) : !info.is_open ? (
+          <Card>
+            <CardHeader>
+              <CardTitle>{info.event_name}</CardTitle>
+              <CardDescription>Registration for this NWTA is not open right now.</CardDescription>
+            </CardHeader>
+          </Card>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle>Register for {info.event_name}</CardTitle>
+              <CardDescription>
+                {info.is_full
+                  ? "This NWTA is full. Register to join the waitlist; no deposit is taken until a place opens."
+                  : `The NWTA costs ${formatCurrency(info.cost)}.${
+                      info.deposit > 0 ? ` A deposit of ${formatCurrency(info.deposit)} holds your place.` : ""
+                    }`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={submit} className="space-y-4">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="first_name">First Name *</Label>
+                    <Input id="first_name" value={form.first_name} onChange={update("first_name")} required />
+                  </div>
+                  <div>
+                    <Label htmlFor="last_name">Last Name *</Label>
+                    <Input id="last_name" value={form.last_name} onChange={update("last_name")} required />
+                  </div>
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="email">Email *</Label>
+                    <Input id="email" type="email" value={form.email} onChange={update("email")} required />
+                  </div>
+                  <div>
+                    <Label htmlFor="phone">Phone *</Label>
+                    <Input id="phone" type="tel" value={form.phone} onChange={update("phone")} required />
+                  </div>
+                </div>
+                <div>
+                  <Label htmlFor="notes">Anything the leaders should know?</Label>
+                  <Textarea id="notes" value={form.notes} onChange={update("notes")} rows={3} />
+                </div>
+
+                {depositDue &&
+                  (info.payments ? (
+                    <EmmaPaymentCard
+                      provider={info.payments.provider}
+                      token={paymentToken}
+                      onTokenChange={handleTokenChange}
+                    />
+                  ) : (
+                    <p className="text-sm text-destructive">
+                      Online payment is not available right now. Please contact the NWTA's leaders to register.
+                    </p>
+                  ))}
+
+                {error && <p className="text-sm text-destructive">{error}</p>}
+
+                <Button
+                  type="submit"
+                  className="w-full"
+                  disabled={submitting || (depositDue && (!info.payments || !paymentToken))}
+                >
+                  {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  {info.is_full
+                    ? "Join the Waitlist"
+                    : depositDue
+                      ? `Register and Pay ${formatCurrency(info.deposit)}`
+                      : "Register"}
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -12,13 +12,15 @@ import { Input } from "@/components/ui/input"
 import { Card, CardContent } from "@/components/ui/card"
 import { EmmaEventPublishedTag } from "../components/emma/event-published-tag"
 import type { EventWithRelations } from "../types/event"
-import type { Person } from "../types/person"
+import type { PersonSummary } from "../types/person"
 import { formatCurrency } from "./admin/AdminEventHelperMethods"
+import { apiFetch } from "../lib/api-client"
+import { fetchPeopleByIds } from "../lib/people-lookup"
 
 export default function NwtaSearch() {
   const [searchTerm, setSearchTerm] = useState("")
   const [events, setEvents] = useState<EventWithRelations[]>([])
-  const [leaders, setLeaders] = useState<Person[]>([])
+  const [leaders, setLeaders] = useState<PersonSummary[]>([])
   const [loading, setLoading] = useState(false)
   const [hasSearched, setHasSearched] = useState(false)
   const navigate = useNavigate()
@@ -49,7 +51,7 @@ export default function NwtaSearch() {
   const loadAllUpcomingEvents = async () => {
     setLoading(true)
     try {
-      const response = await fetch("/api/nwta-events?published=true&active=true&upcoming=true")
+      const response = await apiFetch("/api/nwta-events?published=true&active=true&upcoming=true")
       const result = await response.json()
 
       if (result.success) {
@@ -70,7 +72,7 @@ export default function NwtaSearch() {
     setLoading(true)
     setHasSearched(true)
     try {
-      const response = await fetch(`/api/nwta-events?search=${encodeURIComponent(term)}&published=true&active=true`)
+      const response = await apiFetch(`/api/nwta-events?search=${encodeURIComponent(term)}&published=true&active=true`)
       const result = await response.json()
 
       if (result.success) {
@@ -107,19 +109,7 @@ export default function NwtaSearch() {
         return
       }
 
-      const response = await fetch("/api/people")
-
-      if (!response.ok) {
-        throw new Error("Failed to fetch people data")
-      }
-
-      const data = await response.json()
-      if (data.success) {
-        const leaderPeople = data.data.filter((person: Person) => uniqueLeaderIds.includes(person.id))
-        setLeaders(leaderPeople)
-      } else {
-        throw new Error(data.error || "Failed to load people")
-      }
+      setLeaders(await fetchPeopleByIds(uniqueLeaderIds))
     } catch (err) {
       console.error("Error fetching leaders:", err)
     }
@@ -12,13 +12,15 @@ import { Input } from "@/components/ui/input"
 import { Card, CardContent } from "@/components/ui/card"
 import { EmmaEventPublishedTag } from "../components/emma/event-published-tag"
 import type { EventWithRelations } from "../types/event"
-import type { Person } from "../types/person"
+import type { PersonSummary } from "../types/person"
 import { formatCurrency } from "./admin/AdminEventHelperMethods"
+import { apiFetch } from "../lib/api-client"
+import { fetchPeopleByIds } from "../lib/people-lookup"
 
 export default function StaffingSearch() {
   const [searchTerm, setSearchTerm] = useState("")
   const [events, setEvents] = useState<EventWithRelations[]>([])
-  const [leaders, setLeaders] = useState<Person[]>([])
+  const [leaders, setLeaders] = useState<PersonSummary[]>([])
   const [loading, setLoading] = useState(false)
   const [hasSearched, setHasSearched] = useState(false)
   const navigate = useNavigate()
@@ -50,8 +52,8 @@ export default function StaffingSearch() {
     setLoading(true)
     try {
       const [eventsResponse, nwtaEventsResponse] = await Promise.all([
-        fetch("/api/events?published=true&upcoming=true"),
-        fetch("/api/nwta-events?published=true&upcoming=true"),
+        apiFetch("/api/events?published=true&upcoming=true"),
+        apiFetch("/api/nwta-events?published=true&upcoming=true"),
       ])
 
       const eventsResult = await eventsResponse.json()
@@ -90,8 +92,8 @@ export default function StaffingSearch() {
     setHasSearched(true)
     try {
       const [eventsResponse, nwtaEventsResponse] = await Promise.all([
-        fetch(`/api/events?published=true&search=${encodeURIComponent(term)}`),
-        fetch(`/api/nwta-events?published=true&search=${encodeURIComponent(term)}`),
+        apiFetch(`/api/events?published=true&search=${encodeURIComponent(term)}`),
+        apiFetch(`/api/nwta-events?published=true&search=${encodeURIComponent(term)}`),
       ])
 
       const eventsResult = await eventsResponse.json()
@@ -141,19 +143,7 @@ export default function StaffingSearch() {
         return
       }
 
-      const response = await fetch("/api/people")
-
-      if (!response.ok) {
-        throw new Error("Failed to fetch people data")
-      }
-
-      const data = await response.json()
-      if (data.success) {
-        const leaderPeople = data.data.filter((person: Person) => uniqueLeaderIds.includes(person.id))
-        setLeaders(leaderPeople)
-      } else {
-        throw new Error(data.error || "Failed to load people")
-      }
+      setLeaders(await fetchPeopleByIds(uniqueLeaderIds))
     } catch (err) {
       console.error("Error fetching leaders:", err)
     }
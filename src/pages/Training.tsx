@@ -12,7 +12,10 @@ import { EmmaPersonDisplay } from "../components/emma/person-display"
 import { formatCurrency } from "./admin/AdminEventHelperMethods"
 import { EmmaEventPublishedTag } from "../components/emma/event-published-tag"
 import type { EventWithRelations } from "../types/event"
-import type { Person } from "../types/person"
+import type { PersonSummary } from "../types/person"
+import { apiFetch } from "../lib/api-client"
+import { fetchPeopleByIds } from "../lib/people-lookup"
+import { EmmaEventSignup } from "../components/emma/event-signup"
 
 function getSignupWindowMessage(event: EventWithRelations): string | null {
   const currentDate = new Date()
@@ -66,7 +69,7 @@ export default function Training() {
   const { uuid } = useParams<{ uuid: string }>()
   const navigate = useNavigate()
   const [event, setEvent] = useState<EventWithRelations | null>(null)
-  const [people, setPeople] = useState<Person[]>([])
+  const [people, setPeople] = useState<PersonSummary[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
@@ -92,10 +95,11 @@ export default function Training() {
     }
   }, [event])
 
-  const fetchEvent = async () => {
+  // Reloads without the full-page spinner after a signup so the signup panel keeps its message
+  const fetchEvent = async (showLoading = true) => {
     try {
-      setLoading(true)
-      const response = await fetch(`/api/events/${uuid}`)
+      setLoading(showLoading)
+      const response = await apiFetch(`/api/events/${uuid}`)
 
       if (!response.ok) {
         throw new Error("Failed to fetch training details")
@@ -147,20 +151,7 @@ export default function Training() {
         return
       }
 
-      // TODO This is very unbounded; need to rewrite this to request just the list of people we want.
-      const response = await fetch("/api/people")
-
-      if (!response.ok) {
-        throw new Error("Failed to fetch people data")
-      }
-
-      const data = await response.json()
-      if (data.success) {
-        const relevantPeople = data.data.filter((person: Person) => uniquePersonIds.includes(person.id))
-        setPeople(relevantPeople)
-      } else {
-        throw new Error(data.error || "Failed to load people")
-      }
+      setPeople(await fetchPeopleByIds(uniquePersonIds))
     } catch (err) {
       console.error("Error fetching people:", err)
       setError(err instanceof Error ? err.message : "Failed to load people")
@@ -282,6 +273,8 @@ export default function Training() {
                 }
                 return null
               })()}
+
+              <EmmaEventSignup event={event} role="participant" onChange={() => fetchEvent(false)} />
             </CardContent>
           </Card>
 
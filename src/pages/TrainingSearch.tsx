@@ -12,13 +12,15 @@ import { Input } from "@/components/ui/input"
 import { Card, CardContent } from "@/components/ui/card"
 import { EmmaEventPublishedTag } from "../components/emma/event-published-tag"
 import type { EventWithRelations } from "../types/event"
-import type { Person } from "../types/person"
+import type { PersonSummary } from "../types/person"
 import { formatCurrency } from "./admin/AdminEventHelperMethods"
+import { apiFetch } from "../lib/api-client"
+import { fetchPeopleByIds } from "../lib/people-lookup"
 
 export default function TrainingSearch() {
   const [searchTerm, setSearchTerm] = useState("")
   const [events, setEvents] = useState<EventWithRelations[]>([])
-  const [leaders, setLeaders] = useState<Person[]>([])
+  const [leaders, setLeaders] = useState<PersonSummary[]>([])
   const [loading, setLoading] = useState(false)
   const [hasSearched, setHasSearched] = useState(false)
   const navigate = useNavigate()
@@ -49,7 +51,7 @@ export default function TrainingSearch() {
   const loadAllUpcomingEvents = async () => {
     setLoading(true)
     try {
-      const [eventsResponse] = await Promise.all([fetch("/api/events?published=true&upcoming=true")])
+      const [eventsResponse] = await Promise.all([apiFetch("/api/events?published=true&upcoming=true")])
 
       const eventsResult = await eventsResponse.json()
 
@@ -80,7 +82,7 @@ export default function TrainingSearch() {
     setLoading(true)
     setHasSearched(true)
     try {
-      const eventsResponse = await fetch(`/api/events?search=${encodeURIComponent(term)}&published=true&active=true`)
+      const eventsResponse = await apiFetch(`/api/events?search=${encodeURIComponent(term)}&published=true&active=true`)
       const eventsResult = await eventsResponse.json()
 
       const allEvents: EventWithRelations[] = []
@@ -122,19 +124,7 @@ export default function TrainingSearch() {
         return
       }
 
-      const response = await fetch("/api/people")
-
-      if (!response.ok) {
-        throw new Error("Failed to fetch people data")
-      }
-
-      const data = await response.json()
-      if (data.success) {
-        const leaderPeople = data.data.filter((person: Person) => uniqueLeaderIds.includes(person.id))
-        setLeaders(leaderPeople)
-      } else {
-        throw new Error(data.error || "Failed to load people")
-      }
+      setLeaders(await fetchPeopleByIds(uniqueLeaderIds))
     } catch (err) {
       console.error("Error fetching leaders:", err)
     }
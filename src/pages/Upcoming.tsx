@@ -1,4 +1,5 @@
 import { EmmaTitleBar } from "../components/emma/titlebar"
+import { EmmaCalendarSubscribe } from "../components/emma/calendar-feeds"
 
 export default function Upcoming() {
   return (
@@ -8,6 +9,9 @@ export default function Upcoming() {
         <div className="max-w-4xl mx-auto">
           <h1 className="text-3xl font-bold mb-6">Upcoming Events</h1>
           <p className="text-muted-foreground">Content for upcoming events will be added here.</p>
+          <div className="mt-6">
+            <EmmaCalendarSubscribe path="/api/events/calendar" label="Subscribe to Events" />
+          </div>
         </div>
       </div>
     </div>
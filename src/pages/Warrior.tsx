@@ -11,8 +11,12 @@ import type { Warrior } from "../types/person"
 import type { EventWithRelations } from "../types/event"
 import { EmmaAreaTag } from "../components/emma/area-tag"
 import { EmmaCommunityTag } from "../components/emma/community-tag"
+import { EmmaWarriorPoints } from "../components/emma/warrior-points"
+import { EmmaGroupHistory } from "../components/emma/group-roster"
+import { EmmaAdvancementProgress } from "../components/emma/advancement"
 import type { Area } from "../types/area"
 import type { Community } from "../types/community"
+import { apiFetch } from "../lib/api-client"
 
 interface WarriorWithRelations<E> extends Warrior<EventWithRelations> {
   area: Area
@@ -44,7 +48,7 @@ export default function WarriorPage() {
       }
 
       try {
-        const response = await fetch(`/api/warriors/${uuid}`)
+        const response = await apiFetch(`/api/warriors/${uuid}`)
         const result: WarriorApiResponse = await response.json()
 
         if (!result.success) {
@@ -237,6 +241,16 @@ export default function WarriorPage() {
             </CardContent>
           </Card>
 
+          <EmmaWarriorPoints warriorId={warriorData.id} />
+
+          <EmmaGroupHistory warriorId={warriorData.id} />
+
+          <Card>
+            <CardContent className="pt-6">
+              <EmmaAdvancementProgress warriorId={warriorData.id} />
+            </CardContent>
+          </Card>
+
           {warriorData.notes && (
             <Card>
               <CardHeader>
@@ -14,6 +14,7 @@ import type { Warrior } from "../types/person"
 import type { EventWithRelations } from "../types/event"
 import type { Area } from "../types/area"
 import type { Community } from "../types/community"
+import { apiFetch } from "../lib/api-client"
 
 interface WarriorWithRelations<E> extends Warrior<EventWithRelations> {
   area: Area
@@ -47,7 +48,7 @@ export default function WarriorSearch() {
   const loadAllWarriors = async () => {
     setLoading(true)
     try {
-      const response = await fetch("/api/warriors?active=true")
+      const response = await apiFetch("/api/warriors?active=true")
       const result = await response.json()
 
       if (result.success) {
@@ -68,7 +69,7 @@ export default function WarriorSearch() {
     setLoading(true)
     setHasSearched(true)
     try {
-      const response = await fetch(`/api/warriors?search=${encodeURIComponent(term)}&active=true`)
+      const response = await apiFetch(`/api/warriors?search=${encodeURIComponent(term)}&active=true`)
       const result = await response.json()
 
       if (result.success) {
@@ -0,0 +1,575 @@
+"use client"
+
+import { useAuth0 } from "../../lib/auth0-provider"
+import { Navigate } from "react-router-dom"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Switch } from "@/components/ui/switch"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { ArrowRight, Edit, Loader2, Plus, Trash2, X } from "lucide-react"
+import { EmmaTitleBar } from "../../components/emma/titlebar"
+import {
+  EmmaRequirementList,
+  EmmaStatusChangeDialog,
+  WARRIOR_STATUSES,
+  statusLabel,
+} from "../../components/emma/advancement"
+import type { AdvancementCriteria, WarriorAdvancement } from "../../types/advancement"
+import type { EventType } from "../../types/event"
+import type { NwtaRoleType } from "../../types/nwta-staffing"
+import { useState, useEffect } from "react"
+import { apiFetch } from "../../lib/api-client"
+
+type CriteriaForm = Omit<AdvancementCriteria, "id" | "created_at" | "updated_at">
+
+const emptyCriteria = (): CriteriaForm => ({
+  status: "",
+  from_status: "",
+  summary: "",
+  min_staffed: 0,
+  role_type_requirements: [],
+  min_lead: 0,
+  training_requirements: [],
+  min_months_initiated: 0,
+  is_active: true,
+})
+
+export default function AdminAdvancement() {
+  const { isAuthenticated, isLoading } = useAuth0()
+  const [eligible, setEligible] = useState<WarriorAdvancement[]>([])
+  const [criteria, setCriteria] = useState<AdvancementCriteria[]>([])
+  const [roleTypes, setRoleTypes] = useState<NwtaRoleType[]>([])
+  const [eventTypes, setEventTypes] = useState<EventType[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const [promoting, setPromoting] = useState<WarriorAdvancement | null>(null)
+  const [editing, setEditing] = useState<AdvancementCriteria | null>(null)
+  const [isCriteriaModalOpen, setIsCriteriaModalOpen] = useState(false)
+  const [formData, setFormData] = useState<CriteriaForm>(emptyCriteria())
+  const [saving, setSaving] = useState(false)
+  const [formError, setFormError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      fetchData()
+    }
+  }, [isAuthenticated])
+
+  const fetchData = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const [eligibleResponse, criteriaResponse, roleTypesResponse, eventTypesResponse] = await Promise.all([
+        apiFetch("/api/warriors/advancement"),
+        apiFetch("/api/advancement-criteria?active=false"),
+        apiFetch("/api/nwta-role-types?active=true"),
+        apiFetch("/api/event-types?active=true"),
+      ])
+
+      if (!eligibleResponse.ok || !criteriaResponse.ok) {
+        throw new Error("Failed to fetch advancement data")
+      }
+
+      const [eligibleData, criteriaData, roleTypesData, eventTypesData] = await Promise.all([
+        eligibleResponse.json(),
+        criteriaResponse.json(),
+        roleTypesResponse.ok ? roleTypesResponse.json() : { data: [] },
+        eventTypesResponse.ok ? eventTypesResponse.json() : { data: [] },
+      ])
+
+      setEligible(eligibleData.data || [])
+      setCriteria(criteriaData.data || [])
+      setRoleTypes(roleTypesData.data || [])
+      setEventTypes(eventTypesData.data || [])
+    } catch (err) {
+      console.error("[v0] Error fetching advancement data:", err)
+      setError(err instanceof Error ? err.message : "Failed to fetch advancement data")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleCreate = () => {
+    setEditing(null)
+    setFormData(emptyCriteria())
+    setFormError(null)
+    setIsCriteriaModalOpen(true)
+  }
+
+  const handleEdit = (item: AdvancementCriteria) => {
+    setEditing(item)
+    setFormData({
+      status: item.status,
+      from_status: item.from_status,
+      summary: item.summary || "",
+      min_staffed: item.min_staffed,
+      role_type_requirements: item.role_type_requirements,
+      min_lead: item.min_lead,
+      training_requirements: item.training_requirements,
+      min_months_initiated: item.min_months_initiated,
+      is_active: item.is_active,
+    })
+    setFormError(null)
+    setIsCriteriaModalOpen(true)
+  }
+
+  const saveCriteria = async () => {
+    try {
+      setSaving(true)
+      setFormError(null)
+
+      const response = await apiFetch(editing ? `/api/advancement-criteria/${editing.id}` : "/api/advancement-criteria", {
+        method: editing ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...formData, summary: formData.summary || null }),
+      })
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || "Failed to save advancement criteria")
+      }
+
+      setIsCriteriaModalOpen(false)
+      await fetchData()
+    } catch (err) {
+      console.error("[v0] Error saving advancement criteria:", err)
+      setFormError(err instanceof Error ? err.message : "Failed to save advancement criteria")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const deleteCriteria = async (item: AdvancementCriteria) => {
+    if (!confirm(`Delete the criteria for ${statusLabel(item.status)}?`)) return
+
+    try {
+      const response = await apiFetch(`/api/advancement-criteria/${item.id}`, { method: "DELETE" })
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || "Failed to delete advancement criteria")
+      }
+      await fetchData()
+    } catch (err) {
+      console.error("[v0] Error deleting advancement criteria:", err)
+      setError(err instanceof Error ? err.message : "Failed to delete advancement criteria")
+    }
+  }
+
+  const setCount = (field: "min_staffed" | "min_lead" | "min_months_initiated", value: string) => {
+    setFormData((prev) => ({ ...prev, [field]: Math.max(0, Number.parseInt(value) || 0) }))
+  }
+
+  const roleTypeName = (id: string) => roleTypes.find((type) => type.id === id)?.name || "Unknown role type"
+  const eventTypeName = (id: string) => eventTypes.find((type) => type.id === id)?.name || "Unknown event type"
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-lg">Loading...</div>
+      </div>
+    )
+  }
+
+  if (!isAuthenticated) {
+    return <Navigate to="/" replace />
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background to-muted">
+      <EmmaTitleBar title="Leader Advancement" backLink={{ href: "/admin", label: "Back to Admin" }} />
+
+      <div className="p-6 pt-20">
+        <div className="max-w-6xl mx-auto">
+          {error && (
+            <Card className="mb-6">
+              <CardContent className="pt-6">
+                <p className="text-sm text-destructive">{error}</p>
+              </CardContent>
+            </Card>
+          )}
+
+          <Tabs defaultValue="eligible">
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="eligible">Eligible for Promotion ({eligible.length})</TabsTrigger>
+              <TabsTrigger value="criteria">Criteria ({criteria.length})</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="eligible">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Eligible for Promotion</CardTitle>
+                  <CardDescription>
+                    Active warriors in your areas who meet every requirement for their next status. Promotion is
+                    still the Leader Body's decision.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {loading ? (
+                    <div className="text-center py-8">
+                      <Loader2 className="w-6 h-6 animate-spin text-blue-600 mx-auto" />
+                    </div>
+                  ) : eligible.length === 0 ? (
+                    <p className="text-sm text-gray-500 text-center py-8">Nobody is eligible for promotion right now</p>
+                  ) : (
+                    <div className="space-y-4">
+                      {eligible.map((warrior) => (
+                        <div key={warrior.warrior_id} className="border rounded-lg p-4 space-y-3">
+                          <div className="flex flex-wrap items-center justify-between gap-2">
+                            <div className="flex items-center gap-2">
+                              <span className="font-medium">
+                                {warrior.first_name} {warrior.last_name}
+                              </span>
+                              <Badge variant="outline">{statusLabel(warrior.status)}</Badge>
+                              <ArrowRight className="w-4 h-4 text-gray-400" />
+                              <Badge className="bg-green-100 text-green-800 border-green-300">
+                                {statusLabel(warrior.next?.status)}
+                              </Badge>
+                            </div>
+                            <Button size="sm" onClick={() => setPromoting(warrior)}>
+                              Promote
+                            </Button>
+                          </div>
+                          {warrior.next && <EmmaRequirementList progress={warrior.next} />}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="criteria">
+              <Card>
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <CardTitle>Advancement Criteria</CardTitle>
+                      <CardDescription>What a warrior must have done to move up each step</CardDescription>
+                    </div>
+                    <Button onClick={handleCreate} className="bg-blue-600 hover:bg-blue-700">
+                      <Plus className="w-4 h-4 mr-2" />
+                      Add Criteria
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  {loading ? (
+                    <div className="text-center py-8">
+                      <Loader2 className="w-6 h-6 animate-spin text-blue-600 mx-auto" />
+                    </div>
+                  ) : criteria.length === 0 ? (
+                    <p className="text-sm text-gray-500 text-center py-8">No advancement criteria configured</p>
+                  ) : (
+                    <div className="space-y-4">
+                      {criteria.map((item) => (
+                        <div key={item.id} className="border rounded-lg p-4 space-y-2">
+                          <div className="flex flex-wrap items-center justify-between gap-2">
+                            <div className="flex items-center gap-2">
+                              <Badge variant="outline">{statusLabel(item.from_status)}</Badge>
+                              <ArrowRight className="w-4 h-4 text-gray-400" />
+                              <Badge variant="outline">{statusLabel(item.status)}</Badge>
+                              {!item.is_active && <Badge variant="secondary">Inactive</Badge>}
+                            </div>
+                            <div className="flex items-center gap-2">
+                              <Button variant="outline" size="sm" onClick={() => handleEdit(item)}>
+                                <Edit className="w-4 h-4" />
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => deleteCriteria(item)}
+                                className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            </div>
+                          </div>
+                          {item.summary && <p className="text-sm text-gray-600">{item.summary}</p>}
+                          <ul className="text-sm text-gray-600 list-disc pl-5">
+                            {item.min_staffed > 0 && <li>{item.min_staffed} NWTAs staffed</li>}
+                            {item.role_type_requirements.map((r) => (
+                              <li key={r.role_type_id}>
+                                {r.count} NWTAs as {roleTypeName(r.role_type_id)}
+                              </li>
+                            ))}
+                            {item.min_lead > 0 && <li>{item.min_lead} lead assignments</li>}
+                            {item.training_requirements.map((r) => (
+                              <li key={r.event_type_id}>
+                                {r.count} {eventTypeName(r.event_type_id)} trainings
+                              </li>
+                            ))}
+                            {item.min_months_initiated > 0 && (
+                              <li>{item.min_months_initiated} months since initiation</li>
+                            )}
+                          </ul>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+          </Tabs>
+        </div>
+      </div>
+
+      {promoting && (
+        <EmmaStatusChangeDialog
+          warriorId={promoting.warrior_id}
+          warriorName={`${promoting.first_name} ${promoting.last_name}`}
+          currentStatus={promoting.status}
+          suggestedStatus={promoting.next?.status}
+          open={!!promoting}
+          onOpenChange={(open) => !open && setPromoting(null)}
+          onChanged={fetchData}
+        />
+      )}
+
+      <Dialog open={isCriteriaModalOpen} onOpenChange={setIsCriteriaModalOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Advancement Criteria" : "Add Advancement Criteria"}</DialogTitle>
+            <DialogDescription>Requirements left at zero are not checked.</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>From Status</Label>
+                <Select
+                  value={formData.from_status}
+                  onValueChange={(value) => setFormData((prev) => ({ ...prev, from_status: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a status" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WARRIOR_STATUSES.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Promotes To</Label>
+                <Select
+                  value={formData.status}
+                  onValueChange={(value) => setFormData((prev) => ({ ...prev, status: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a status" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WARRIOR_STATUSES.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="criteria_summary">Summary</Label>
+              <Textarea
+                id="criteria_summary"
+                value={formData.summary || ""}
+                onChange={(e) => setFormData((prev) => ({ ...prev, summary: e.target.value }))}
+                rows={2}
+              />
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="min_staffed">NWTAs Staffed</Label>
+                <Input
+                  id="min_staffed"
+                  type="number"
+                  min={0}
+                  value={formData.min_staffed}
+                  onChange={(e) => setCount("min_staffed", e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="min_lead">Lead Assignments</Label>
+                <Input
+                  id="min_lead"
+                  type="number"
+                  min={0}
+                  value={formData.min_lead}
+                  onChange={(e) => setCount("min_lead", e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="min_months_initiated">Months Since Initiation</Label>
+                <Input
+                  id="min_months_initiated"
+                  type="number"
+                  min={0}
+                  value={formData.min_months_initiated}
+                  onChange={(e) => setCount("min_months_initiated", e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>NWTAs Staffed by Role Type</Label>
+                <Select
+                  value=""
+                  onValueChange={(value) =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      role_type_requirements: [...prev.role_type_requirements, { role_type_id: value, count: 1 }],
+                    }))
+                  }
+                >
+                  <SelectTrigger className="w-56">
+                    <SelectValue placeholder="Add a role type" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {roleTypes
+                      .filter((type) => !formData.role_type_requirements.some((r) => r.role_type_id === type.id))
+                      .map((type) => (
+                        <SelectItem key={type.id} value={type.id}>
+                          {type.name}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {formData.role_type_requirements.map((requirement, index) => (
+                <div key={requirement.role_type_id} className="flex items-center gap-2">
+                  <span className="flex-1 text-sm">{roleTypeName(requirement.role_type_id)}</span>
+                  <Input
+                    type="number"
+                    min={1}
+                    className="w-24"
+                    value={requirement.count}
+                    onChange={(e) =>
+                      setFormData((prev) => ({
+                        ...prev,
+                        role_type_requirements: prev.role_type_requirements.map((r, i) =>
+                          i === index ? { ...r, count: Math.max(1, Number.parseInt(e.target.value) || 1) } : r,
+                        ),
+                      }))
+                    }
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() =>
+                      setFormData((prev) => ({
+                        ...prev,
+                        role_type_requirements: prev.role_type_requirements.filter((_, i) => i !== index),
+                      }))
+                    }
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Trainings by Event Type</Label>
+                <Select
+                  value=""
+                  onValueChange={(value) =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      training_requirements: [...prev.training_requirements, { event_type_id: value, count: 1 }],
+                    }))
+                  }
+                >
+                  <SelectTrigger className="w-56">
+                    <SelectValue placeholder="Add an event type" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {eventTypes
+                      .filter((type) => !formData.training_requirements.some((r) => r.event_type_id === type.id))
+                      .map((type) => (
+                        <SelectItem key={type.id} value={type.id}>
+                          {type.name}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {formData.training_requirements.map((requirement, index) => (
+                <div key={requirement.event_type_id} className="flex items-center gap-2">
+                  <span className="flex-1 text-sm">{eventTypeName(requirement.event_type_id)}</span>
+                  <Input
+                    type="number"
+                    min={1}
+                    className="w-24"
+                    value={requirement.count}
+                    onChange={(e) =>
+                      setFormData((prev) => ({
+                        ...prev,
+                        training_requirements: prev.training_requirements.map((r, i) =>
+                          i === index ? { ...r, count: Math.max(1, Number.parseInt(e.target.value) || 1) } : r,
+                        ),
+                      }))
+                    }
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() =>
+                      setFormData((prev) => ({
+                        ...prev,
+                        training_requirements: prev.training_requirements.filter((_, i) => i !== index),
+                      }))
+                    }
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="criteria_active"
+                checked={formData.is_active}
+                onCheckedChange={(checked) => setFormData((prev) => ({ ...prev, is_active: checked }))}
+              />
+              <Label htmlFor="criteria_active">Active</Label>
+            </div>
+
+            {formError && <p className="text-sm text-destructive">{formError}</p>}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsCriteriaModalOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={saveCriteria} disabled={saving || !formData.status || !formData.from_status}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {editing ? "Update Criteria" : "Create Criteria"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -39,6 +39,7 @@ import {
 } from "@/components/ui/dialog"
 import { EmmaTitleBar } from "../../components/emma/titlebar"
 import { useState, useEffect } from "react"
+import { apiFetch } from "../../lib/api-client"
 
 interface Affiliate {
   id: string
@@ -239,7 +240,7 @@ export default function AdminAffiliates() {
 
     try {
       // Simulate API call - in real implementation, this would be:
-      // const response = await fetch(`/api/affiliates/${id}`, { method: "PUT", ... })
+      // const response = await apiFetch(`/api/affiliates/${id}`, { method: "PUT", ... })
 
       // For now, just update local state
       setAffiliates((prev) =>
@@ -314,7 +315,7 @@ export default function AdminAffiliates() {
 
     try {
       // Simulate API call - in real implementation, this would be:
-      // const response = await fetch("/api/affiliates", { method: "POST", ... })
+      // const response = await apiFetch("/api/affiliates", { method: "POST", ... })
 
       const newAffiliate: Affiliate = {
         id: `affiliate-${Date.now()}`, // Temporary ID
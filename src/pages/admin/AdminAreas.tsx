@@ -21,8 +21,11 @@ import {
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
 import { EmmaTitleBar } from "../../components/emma/titlebar"
 import { GoogleMap } from "../../components/emma/google-map"
+import { EmmaAreaFinanceReport } from "../../components/emma/finance-report"
+import { EmmaPointsLeaderboard } from "../../components/emma/warrior-points"
 import type { Area } from "../../types/area"
 import { useState, useEffect } from "react"
+import { apiFetch } from "../../lib/api-client"
 
 interface Person {
   id: string
@@ -261,7 +264,7 @@ export default function AdminAreas() {
 
       console.log("[v0] Submitting area data:", body)
 
-      const response = await fetch(url, {
+      const response = await apiFetch(url, {
         method,
         headers: {
           "Content-Type": "application/json",
@@ -283,7 +286,7 @@ export default function AdminAreas() {
 
       if (!isNewArea && adminIds.length >= 0) {
         try {
-          const adminsResponse = await fetch(`/api/areas/${savedArea.id}/admins`, {
+          const adminsResponse = await apiFetch(`/api/areas/${savedArea.id}/admins`, {
             method: "PUT",
             headers: {
               "Content-Type": "application/json",
@@ -307,7 +310,7 @@ export default function AdminAreas() {
       if (isNewArea) {
         if (adminIds.length > 0) {
           try {
-            await fetch(`/api/areas/${savedArea.id}/admins`, {
+            await apiFetch(`/api/areas/${savedArea.id}/admins`, {
               method: "PUT",
               headers: {
                 "Content-Type": "application/json",
@@ -364,7 +367,7 @@ export default function AdminAreas() {
       formData.append("file", file)
       formData.append("positioning", JSON.stringify(positioning))
 
-      const response = await fetch(`/api/areas/${areaId}/image`, {
+      const response = await apiFetch(`/api/areas/${areaId}/image`, {
         method: "POST",
         body: formData,
       })
@@ -401,7 +404,7 @@ export default function AdminAreas() {
       const formData = new FormData()
       formData.append("positioning", JSON.stringify(positioning))
 
-      const response = await fetch(`/api/areas/${areaId}/image`, {
+      const response = await apiFetch(`/api/areas/${areaId}/image`, {
         method: "PUT",
         body: formData,
       })
@@ -440,7 +443,7 @@ export default function AdminAreas() {
     }
 
     try {
-      const response = await fetch(`/api/areas/${areaId}/image`, {
+      const response = await apiFetch(`/api/areas/${areaId}/image`, {
         method: "DELETE",
       })
 
@@ -484,7 +487,7 @@ export default function AdminAreas() {
     setArchivingItems((prev) => new Set(prev).add(area.id))
 
     try {
-      const response = await fetch(`/api/areas/${area.id}`, {
+      const response = await apiFetch(`/api/areas/${area.id}`, {
         method: "PUT",
         headers: {
           "Content-Type": "application/json",
@@ -519,7 +522,7 @@ export default function AdminAreas() {
     setArchivingItems((prev) => new Set(prev).add(area.id))
 
     try {
-      const response = await fetch(`/api/areas/${area.id}`, {
+      const response = await apiFetch(`/api/areas/${area.id}`, {
         method: "PUT",
         headers: {
           "Content-Type": "application/json",
@@ -610,7 +613,7 @@ export default function AdminAreas() {
         setLoading(true)
 
         // Fetch areas
-        const areasResponse = await fetch("/api/areas")
+        const areasResponse = await apiFetch("/api/areas")
         if (!areasResponse.ok) {
           throw new Error(`Failed to fetch areas: ${areasResponse.statusText}`)
         }
@@ -618,7 +621,7 @@ export default function AdminAreas() {
         setAreas(areasApiResponse.data as Area[])
 
         // Fetch people for dropdowns
-        const peopleResponse = await fetch("/api/people")
+        const peopleResponse = await apiFetch("/api/people")
         if (!peopleResponse.ok) {
           throw new Error(`Failed to fetch people: ${peopleResponse.statusText}`)
         }
@@ -1365,6 +1368,8 @@ export default function AdminAreas() {
                                       />
                                     </div>
                                   )}
+                                  <EmmaAreaFinanceReport areaId={area.id} />
+                                  <EmmaPointsLeaderboard areaId={area.id} />
                                 </div>
                               )}
                             </div>
@@ -16,6 +16,7 @@ import { GoogleMap } from "../../components/emma/google-map"
 import type { AreaBasic } from "../../types/area"
 import type { Community } from "../../types/community"
 import { useState, useEffect } from "react"
+import { apiFetch } from "../../lib/api-client"
 
 interface Person {
   id: string
@@ -67,7 +68,7 @@ export default function AdminCommunities() {
   const fetchCommunities = async () => {
     try {
       setLoading(true)
-      const response = await fetch(`/api/communities?archived=${showArchived}`)
+      const response = await apiFetch(`/api/communities?archived=${showArchived}`)
       if (!response.ok) throw new Error(`Failed to fetch communities: ${response.statusText}`)
       const result = await response.json()
       const communitiesData = Array.isArray(result.data) ? result.data : [result.data]
@@ -81,7 +82,7 @@ export default function AdminCommunities() {
 
   const fetchPeople = async () => {
     try {
-      const response = await fetch("/api/people")
+      const response = await apiFetch("/api/people")
       if (!response.ok) throw new Error(`Failed to fetch people: ${response.statusText}`)
       const result = await response.json()
       const peopleData = Array.isArray(result.data) ? result.data : [result.data]
@@ -98,7 +99,7 @@ export default function AdminCommunities() {
 
   const fetchAreas = async () => {
     try {
-      const response = await fetch("/api/areas")
+      const response = await apiFetch("/api/areas")
       if (!response.ok) throw new Error(`Failed to fetch areas: ${response.statusText}`)
       const result = await response.json()
       const areasData = Array.isArray(result.data) ? result.data : [result.data]
@@ -191,7 +192,7 @@ export default function AdminCommunities() {
 
       console.log("[v0] Saving community with geo_json:", formData.geo_json)
 
-      const response = await fetch(url, {
+      const response = await apiFetch(url, {
         method,
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(formData),
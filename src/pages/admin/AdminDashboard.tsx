@@ -24,9 +24,13 @@ import {
   UserPlus,
   Zap,
   UserCog,
+  TrendingUp,
+  Route,
+  DoorOpen,
 } from "lucide-react"
 import { EmmaTitleBar } from "../../components/emma/titlebar"
 import { useState, useEffect } from "react"
+import { apiFetch } from "../../lib/api-client"
 
 interface AdminStats {
   [key: string]: {
@@ -163,6 +167,33 @@ const adminSections = [
     color: "text-amber-600",
     statsEndpoint: "/api/warriors/stats",
   },
+  {
+    type: "card",
+    title: "Advancement",
+    description: "Manage leader-track advancement criteria and promote eligible warriors",
+    icon: TrendingUp,
+    path: "/admin/advancement",
+    color: "text-rose-600",
+    statsEndpoint: "/api/advancement-criteria/stats",
+  },
+  {
+    type: "card",
+    title: "Rookie Integration",
+    description: "Follow new warriors from their NWTA into an I-Group",
+    icon: Route,
+    path: "/admin/rookie-integration",
+    color: "text-teal-600",
+    statsEndpoint: "/api/rookie-integrations/stats",
+  },
+  {
+    type: "card",
+    title: "Visitor Requests",
+    description: "Answer requests to visit I-Groups and track guests who go on to join",
+    icon: DoorOpen,
+    path: "/admin/visitor-requests",
+    color: "text-cyan-600",
+    statsEndpoint: "/api/visitor-requests/stats",
+  },
   {
     type: "card",
     title: "Members",
@@ -295,7 +326,7 @@ export default function AdminDashboard() {
         .filter((s) => s.type === "card")
         .map(async (section) => {
           console.log("[v0] Fetching stats for:", section.title, "from:", section.statsEndpoint)
-          const response = await fetch(section.statsEndpoint)
+          const response = await apiFetch(section.statsEndpoint)
 
           if (!response.ok) {
             console.log("[v0] Failed to fetch stats for:", section.title, "Status:", response.status)
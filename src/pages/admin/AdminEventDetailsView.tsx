@@ -1,22 +1,88 @@
 import { EmmaPersonDisplay } from "@/src/components/emma/person-display"
 import { formatCurrency } from "@/src/pages/admin/AdminEventHelperMethods"
 import { EmmaTransactionTable } from "@/src/components/emma/transaction-table"
+import { EmmaEventFinanceReport } from "@/src/components/emma/finance-report"
+import { EmmaJournalExport } from "@/src/components/emma/journal-export"
+import { EmmaEventCloseout } from "@/src/components/emma/event-closeout"
+import { EmmaEventReuse } from "@/src/components/emma/event-templates"
 import { EmmaCalendar } from "@/src/components/emma/calendar"
 import { EmmaTimeline } from "@/src/components/emma/timeline"
+import { EmmaActivityTimeline } from "@/src/components/emma/activity-timeline"
 import { Badge } from "@/components/ui/badge"
-import type { EventWithRelations } from "@/src/types/event"
+import { Button } from "@/components/ui/button"
+import { Check, X } from "lucide-react"
+import { useState } from "react"
+import type { Event, EventWithRelations } from "@/src/types/event"
 import type { Person } from "@/src/types/person"
+import { apiFetch } from "@/src/lib/api-client"
 
 interface AdminEventDetailsViewProps {
   event: EventWithRelations
   people: Person[]
+  // Receives the updated roster lists after an application is approved or declined
+  onRosterChange?: (eventId: string, roster: Partial<Event>) => void
+  // Called after the event is duplicated so the list can pick up the copy
+  onEventCreated?: () => void
 }
 
-export default function AdminEventDetailsView({ event, people }: AdminEventDetailsViewProps) {
+export default function AdminEventDetailsView({ event, people, onRosterChange, onEventCreated }: AdminEventDetailsViewProps) {
+  const [decidingId, setDecidingId] = useState<string | null>(null)
+  const [rosterError, setRosterError] = useState<string | null>(null)
+
   const getPersonById = (personId: string) => {
     return people.find((p) => p.id === personId)
   }
 
+  const decideApplication = async (personId: string, role: "staff" | "participant", action: "approve" | "decline") => {
+    setDecidingId(personId)
+    setRosterError(null)
+
+    try {
+      const response = await apiFetch(`/api/events/${event.id}/roster`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ person_id: personId, role, action }),
+      })
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || `Failed to ${action} application`)
+      }
+
+      onRosterChange?.(event.id, result.data)
+    } catch (error) {
+      console.error("[v0] Error updating event roster:", error)
+      setRosterError(error instanceof Error ? error.message : `Failed to ${action} application`)
+    } finally {
+      setDecidingId(null)
+    }
+  }
+
+  const renderApplicationActions = (personId: string, role: "staff" | "participant") => (
+    <div className="flex items-center gap-1">
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-7 w-7 p-0 text-green-700"
+        title="Approve"
+        disabled={decidingId !== null}
+        onClick={() => decideApplication(personId, role, "approve")}
+      >
+        <Check className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-7 w-7 p-0 text-red-700"
+        title="Decline"
+        disabled={decidingId !== null}
+        onClick={() => decideApplication(personId, role, "decline")}
+      >
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  )
+
   return (
     <div className="space-y-6">
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -178,6 +244,10 @@ export default function AdminEventDetailsView({ event, people }: AdminEventDetai
         </div>
       </div>
 
+      {rosterError && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-800">{rosterError}</div>
+      )}
+
       <div className="space-y-4">
         <h4 className="text-lg font-medium text-gray-900">Staff Details</h4>
         <div className="space-y-4">
@@ -268,6 +338,7 @@ export default function AdminEventDetailsView({ event, people }: AdminEventDetai
                         <div className="flex items-center gap-2">
                           <EmmaPersonDisplay person={person} size="w-6 h-6" showAvatar={true} />
                         </div>
+                        {renderApplicationActions(personId, "staff")}
                       </div>
                     )
                   })
@@ -310,6 +381,7 @@ export default function AdminEventDetailsView({ event, people }: AdminEventDetai
                         <div className="flex items-center gap-2">
                           <EmmaPersonDisplay person={person} size="w-6 h-6" showAvatar={true} />
                         </div>
+                        {renderApplicationActions(personId, "staff")}
                       </div>
                     )
                   })
@@ -366,6 +438,7 @@ export default function AdminEventDetailsView({ event, people }: AdminEventDetai
                         <div className="flex items-center gap-2">
                           <EmmaPersonDisplay person={person} size="w-6 h-6" showAvatar={true} />
                         </div>
+                        {renderApplicationActions(personId, "participant")}
                       </div>
                     )
                   })
@@ -408,6 +481,7 @@ export default function AdminEventDetailsView({ event, people }: AdminEventDetai
                         <div className="flex items-center gap-2">
                           <EmmaPersonDisplay person={person} size="w-6 h-6" showAvatar={true} />
                         </div>
+                        {renderApplicationActions(personId, "participant")}
                       </div>
                     )
                   })
@@ -474,9 +548,20 @@ export default function AdminEventDetailsView({ event, people }: AdminEventDetai
       )}
 
       <div className="space-y-4">
-        <h4 className="text-lg font-medium text-gray-900">Event Transactions</h4>
+        <div className="flex items-center justify-between">
+          <h4 className="text-lg font-medium text-gray-900">Event Transactions</h4>
+          <EmmaJournalExport logId={event.transaction_log_id} />
+        </div>
         <EmmaTransactionTable transactions={event.transactions || []} readOnly={true} showActions={false} />
       </div>
+
+      <EmmaEventFinanceReport eventId={event.id} refreshKey={event.transactions} />
+
+      <EmmaEventCloseout eventId={event.id} />
+
+      <EmmaEventReuse eventId={event.id} eventName={event.name} onCreated={onEventCreated} />
+
+      <EmmaActivityTimeline logId={event.log_id} color={event.event_type?.color || "#ea580c"} />
     </div>
   )
 }
@@ -19,6 +19,8 @@ import type { Transaction } from "@/src/types/transaction"
 import { EmmaCalendar } from "../../components/emma/calendar"
 import { EmmaTimeline } from "../../components/emma/timeline"
 import { calculateEventStartEnd, syncEventBasicFields, validateScheduleSync } from "./AdminEventHelperMethods"
+import { planRosterUpdate } from "@/api/_lib/roster-plan"
+import { apiFetch } from "../../lib/api-client"
 
 interface AdminEventEditViewProps {
   event: EventWithRelations
@@ -75,6 +77,10 @@ export default function AdminEventEditView({
 }: AdminEventEditViewProps) {
   const [error, setError] = useState<string | null>(null)
   const [selectedTimelineEvents, setSelectedTimelineEvents] = useState<Record<string, number>>({})
+  // The event as it was when editing started; staff moves update `event` in place
+  const [savedEvent] = useState(event)
+  // What saving will do to the roster, planned by the same rules the API applies
+  const rosterPreview = planRosterUpdate(savedEvent, formData)
 
   const getPersonById = (personId: string) => {
     return people.find((p) => p.id === personId)
@@ -114,7 +120,7 @@ export default function AdminEventEditView({
   ) => {
     try {
       newTransaction.log_id = ev.transaction_log_id
-      const response = await fetch("/api/transactions", {
+      const response = await apiFetch("/api/transactions", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(newTransaction),
@@ -184,7 +190,7 @@ export default function AdminEventEditView({
 
   const handleTransactionUpdate = async (eventId: string, updatedTransaction: Transaction) => {
     try {
-      const response = await fetch(`/api/transactions/${updatedTransaction.id}`, {
+      const response = await apiFetch(`/api/transactions/${updatedTransaction.id}`, {
         method: "PUT",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(updatedTransaction),
@@ -205,7 +211,7 @@ export default function AdminEventEditView({
 
   const handleTransactionDelete = async (eventId: string, transactionId: string) => {
     try {
-      const response = await fetch(`/api/transactions/${transactionId}`, {
+      const response = await apiFetch(`/api/transactions/${transactionId}`, {
         method: "DELETE",
       })
 
@@ -645,6 +651,26 @@ export default function AdminEventEditView({
         )}
       </div>
 
+      {(rosterPreview.error || rosterPreview.promotions.length > 0) && (
+        <div className="p-3 bg-amber-50 border border-amber-200 rounded-md space-y-2">
+          <h5 className="text-sm font-medium text-amber-900">When you save</h5>
+          {rosterPreview.error ? (
+            <p className="text-sm text-red-600">{rosterPreview.error}</p>
+          ) : (
+            rosterPreview.promotions.map((promotion) => (
+              <div key={promotion.person_id} className="flex items-center gap-2 text-sm text-amber-900">
+                <EmmaPersonDisplay personId={promotion.person_id} people={people} size="w-6 h-6" showAvatar={true} />
+                <span>
+                  {promotion.role === "staff"
+                    ? "moves from alternate staff to committed staff"
+                    : "moves from the waitlist to committed participants"}
+                </span>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+
       <div className="flex items-center justify-between">
         <h4 className="text-lg font-medium text-gray-900">Staff Management</h4>
         <Button onClick={() => openStaffModal(event.id)} size="sm" className="bg-blue-600 hover:bg-blue-700">
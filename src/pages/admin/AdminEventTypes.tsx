@@ -20,6 +20,7 @@ import { EmmaTitleBar } from "../../components/emma/titlebar"
 import { EmmaEventTypeTag } from "../../components/emma/eventtype"
 import type { EventTypeApiResponse } from "@/api/event-types"
 import { useState, useEffect } from "react"
+import { apiFetch } from "../../lib/api-client"
 
 interface EventType {
   id: string
@@ -117,7 +118,7 @@ export default function AdminEventTypes() {
     setSavingItems((prev) => new Set(prev).add(id))
 
     try {
-      const response = await fetch(`/api/event-types/${id}`, {
+      const response = await apiFetch(`/api/event-types/${id}`, {
         method: "PUT",
         headers: {
           "Content-Type": "application/json",
@@ -166,7 +167,7 @@ export default function AdminEventTypes() {
     setArchivingItems((prev) => new Set(prev).add(eventType.id))
 
     try {
-      const response = await fetch(`/api/event-types/${eventType.id}`, {
+      const response = await apiFetch(`/api/event-types/${eventType.id}`, {
         method: "PUT",
         headers: {
           "Content-Type": "application/json",
@@ -205,7 +206,7 @@ export default function AdminEventTypes() {
     setArchivingItems((prev) => new Set(prev).add(eventType.id))
 
     try {
-      const response = await fetch(`/api/event-types/${eventType.id}`, {
+      const response = await apiFetch(`/api/event-types/${eventType.id}`, {
         method: "PUT",
         headers: {
           "Content-Type": "application/json",
@@ -276,7 +277,7 @@ export default function AdminEventTypes() {
     setCreating(true)
 
     try {
-      const response = await fetch("/api/event-types", {
+      const response = await apiFetch("/api/event-types", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -303,7 +304,7 @@ export default function AdminEventTypes() {
     const fetchEventTypes = async () => {
       try {
         setLoading(true)
-        const response = await fetch("/api/event-types")
+        const response = await apiFetch("/api/event-types")
         if (!response.ok) {
           throw new Error(`Failed to fetch event types: ${response.statusText}`)
         }
@@ -5,7 +5,7 @@ import { Navigate } from "react-router-dom"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Switch } from "@/components/ui/switch"
-import { Plus, Loader2, Calendar } from "lucide-react"
+import { Plus, Loader2, Calendar, LayoutTemplate } from "lucide-react"
 import { EmmaTitleBar } from "../../components/emma/titlebar"
 import type { Event, EventType, EventWithRelations } from "../../types/event"
 import type { Area } from "../../types/area"
@@ -15,6 +15,9 @@ import { useState, useEffect } from "react"
 import type { Transaction } from "../../types/transaction"
 import type { Venue } from "../../types/venue"
 import { EmmaPersonModal } from "../../components/emma/person-modal"
+import { EmmaJournalExport } from "../../components/emma/journal-export"
+import { EmmaEventTemplateDialog } from "../../components/emma/event-templates"
+import { describeVenueConflicts } from "../../components/emma/venue-calendar"
 import {
   Dialog,
   DialogContent,
@@ -26,6 +29,7 @@ import {
 import AdminEventSummaryView from "./AdminEventSummaryView"
 import AdminEventEditView from "./AdminEventEditView"
 import AdminEventDetailsView from "./AdminEventDetailsView"
+import { apiFetch } from "../../lib/api-client"
 
 export default function AdminEvents() {
   const { isAuthenticated, isLoading } = useAuth0()
@@ -37,6 +41,7 @@ export default function AdminEvents() {
   const [people, setPeople] = useState<PersonType[]>([])
   const [loadingData, setLoadingData] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [conflictWarning, setConflictWarning] = useState<string | null>(null)
   const [expandedItem, setExpandedItem] = useState<string | null>(null)
   const [editingItems, setEditingItems] = useState<Set<string>>(new Set())
   const [editFormData, setEditFormData] = useState<Record<string, Partial<Event>>>({})
@@ -59,6 +64,7 @@ export default function AdminEvents() {
   const [selectedTimelineEvents, setSelectedTimelineEvents] = useState<Record<string, number>>({})
   const [loadedTransactions, setLoadedTransactions] = useState<Set<string>>(new Set())
   const [paymentStats, setPaymentStats] = useState<Record<string, any>>({})
+  const [templateDialogOpen, setTemplateDialogOpen] = useState(false)
 
   const filteredEvents = events.filter((event) => (showArchived ? !event.is_active : event.is_active))
 
@@ -76,7 +82,7 @@ export default function AdminEvents() {
       setError(null)
 
       // Fetch events
-      const eventsResponse = await fetch(`/api/events?active=${!showArchived}`)
+      const eventsResponse = await apiFetch(`/api/events?active=${!showArchived}&managed=true`)
       if (!eventsResponse.ok) throw new Error(`Failed to fetch events: ${eventsResponse.statusText}`)
       const eventsResult = await eventsResponse.json()
       const eventsData = Array.isArray(eventsResult.data) ? eventsResult.data : [eventsResult.data]
@@ -85,11 +91,11 @@ export default function AdminEvents() {
 
       // Fetch related data
       const [eventTypesRes, venuesRes, areasRes, communitiesRes, peopleRes] = await Promise.all([
-        fetch("/api/event-types"),
-        fetch("/api/venues"),
-        fetch("/api/areas"),
-        fetch("/api/communities"),
-        fetch("/api/people"),
+        apiFetch("/api/event-types"),
+        apiFetch("/api/venues"),
+        apiFetch("/api/areas"),
+        apiFetch("/api/communities"),
+        apiFetch("/api/people"),
       ])
 
       if (eventTypesRes.ok) {
@@ -124,7 +130,7 @@ export default function AdminEvents() {
       .filter((event) => event.transaction_log_id && !paymentStats[event.id])
       .map(async (event) => {
         try {
-          const response = await fetch(`/api/transactions/stats?log=${event.transaction_log_id}`)
+          const response = await apiFetch(`/api/transactions/stats?log=${event.transaction_log_id}`)
           const result = await response.json()
 
           if (result.success && result.data.payments) {
@@ -158,7 +164,7 @@ export default function AdminEvents() {
     console.log("[v0] Fetching transactions for event:", event.id, "log_id:", event.transaction_log_id)
 
     try {
-      const response = await fetch(`/api/transactions?log=${event.transaction_log_id}`)
+      const response = await apiFetch(`/api/transactions?log=${event.transaction_log_id}`)
       const result = await response.json()
 
       console.log("[v0] Transaction API response:", result)
@@ -183,6 +189,10 @@ export default function AdminEvents() {
     }
   }
 
+  const handleRosterChange = (eventId: string, roster: Partial<Event>) => {
+    setEvents((prevEvents) => prevEvents.map((e) => (e.id === eventId ? { ...e, ...roster } : e)))
+  }
+
   const toggleExpanded = (id: string) => {
     const newExpandedId = id === expandedItem ? null : id
     setExpandedItem(newExpandedId)
@@ -285,7 +295,7 @@ export default function AdminEvents() {
       const url = isNewEvent ? "/api/events" : `/api/events/${id}`
       const method = isNewEvent ? "POST" : "PUT"
 
-      const response = await fetch(url, {
+      const response = await apiFetch(url, {
         method,
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(formData),
@@ -298,11 +308,12 @@ export default function AdminEvents() {
 
       const updatedEvent = await response.json()
       setEvents((prev) => prev.map((event) => (event.id === id ? updatedEvent.data : event)))
+      setConflictWarning(updatedEvent.conflicts?.length > 0 ? describeVenueConflicts(updatedEvent.conflicts) : null)
 
       // TODO Schedule this to run asynchronously?
       if (updatedEvent.data.transaction_log_id) {
         try {
-          const statsResponse = await fetch(`/api/transactions/stats?log=${updatedEvent.data.transaction_log_id}`)
+          const statsResponse = await apiFetch(`/api/transactions/stats?log=${updatedEvent.data.transaction_log_id}`)
           const statsResult = await statsResponse.json()
 
           if (statsResult.success && statsResult.data.payments) {
@@ -550,7 +561,7 @@ export default function AdminEvents() {
     setArchivingItems((prev) => new Set(prev).add(event.id))
 
     try {
-      const response = await fetch(`/api/events/${event.id}`, {
+      const response = await apiFetch(`/api/events/${event.id}`, {
         method: "PUT",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ is_active: false }),
@@ -625,6 +636,20 @@ export default function AdminEvents() {
             </div>
           )}
 
+          {conflictWarning && (
+            <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-lg">
+              <p className="text-amber-800">{conflictWarning}</p>
+              <Button
+                variant="outline"
+                size="sm"
+                className="mt-2 bg-transparent"
+                onClick={() => setConflictWarning(null)}
+              >
+                Dismiss
+              </Button>
+            </div>
+          )}
+
           <div className="mb-8 flex justify-between items-center">
             <p className="text-gray-600">Manage events, scheduling, and participant registration</p>
           </div>
@@ -645,6 +670,13 @@ export default function AdminEvents() {
                     Show Archived
                   </label>
                 </div>
+                <EmmaJournalExport />
+                {!showArchived && (
+                  <Button variant="outline" onClick={() => setTemplateDialogOpen(true)}>
+                    <LayoutTemplate className="w-4 h-4" />
+                    From Template
+                  </Button>
+                )}
                 {!showArchived && (
                   <Button onClick={createNewEvent} className="bg-blue-600 hover:bg-blue-700">
                     <Plus className="w-4 h-4" />
@@ -733,7 +765,12 @@ export default function AdminEvents() {
                                   />
                                 ) : (
                                   /* Details View (Read-only) */
-                                  <AdminEventDetailsView event={event} people={people} />
+                                  <AdminEventDetailsView
+                                    event={event}
+                                    people={people}
+                                    onRosterChange={handleRosterChange}
+                                    onEventCreated={fetchData}
+                                  />
                                 )}
                               </div>
                             )}
@@ -750,6 +787,17 @@ export default function AdminEvents() {
       </div>
 
       {/* Modals */}
+      <EmmaEventTemplateDialog
+        open={templateDialogOpen}
+        isNwta={false}
+        onClose={() => setTemplateDialogOpen(false)}
+        onCreated={(created) => {
+          setTemplateDialogOpen(false)
+          setConflictWarning(created.conflicts.length > 0 ? describeVenueConflicts(created.conflicts) : null)
+          fetchData()
+        }}
+      />
+
       <EmmaPersonModal
         isOpen={staffModalOpen}
         onClose={() => setStaffModalOpen(false)}
@@ -13,6 +13,7 @@ import { EmmaTitleBar } from "../../components/emma/titlebar"
 import { EmmaPersonDisplay } from "../../components/emma/person-display"
 import type { Person } from "../../types/person"
 import { useState, useEffect } from "react"
+import { apiFetch } from "../../lib/api-client"
 
 export default function AdminFriends() {
   const { isAuthenticated, isLoading } = useAuth0()
@@ -55,7 +56,7 @@ export default function AdminFriends() {
     try {
       setLoading(true)
 
-      const response = await fetch("/api/people")
+      const response = await apiFetch("/api/people")
       if (!response.ok) {
         throw new Error("Failed to fetch people")
       }
@@ -26,6 +26,7 @@ import type { Group } from "../../types/group"
 import type { Person } from "../../types/person"
 import type { Venue } from "../../types/venue"
 import { useState, useEffect } from "react"
+import { apiFetch } from "../../lib/api-client"
 
 interface GroupWithRelations extends Group {
   venue?: Venue | null
@@ -99,14 +100,14 @@ export default function AdminGroups() {
       setError(null)
 
       // Fetch groups
-      const groupsResponse = await fetch(`/api/groups?active=${!showArchived}`)
+      const groupsResponse = await apiFetch(`/api/groups?active=${!showArchived}`)
       if (!groupsResponse.ok) throw new Error(`Failed to fetch groups: ${groupsResponse.statusText}`)
       const groupsResult = await groupsResponse.json()
       const groupsData = Array.isArray(groupsResult.data) ? groupsResult.data : [groupsResult.data]
       setGroups(groupsData)
 
       // Fetch related data
-      const [peopleRes, venuesRes] = await Promise.all([fetch("/api/people"), fetch("/api/venues")])
+      const [peopleRes, venuesRes] = await Promise.all([apiFetch("/api/people"), apiFetch("/api/venues")])
 
       if (peopleRes.ok) {
         const result = await peopleRes.json()
@@ -252,7 +253,7 @@ export default function AdminGroups() {
 
       const body = isNewGroup ? cleanedData : { id, ...cleanedData }
 
-      const response = await fetch(url, {
+      const response = await apiFetch(url, {
         method,
         headers: {
           "Content-Type": "application/json",
@@ -303,7 +304,7 @@ export default function AdminGroups() {
     setArchivingItems((prev) => new Set(prev).add(group.id))
 
     try {
-      const response = await fetch(`/api/groups/${group.id}`, {
+      const response = await apiFetch(`/api/groups/${group.id}`, {
         method: "PUT",
         headers: {
           "Content-Type": "application/json",
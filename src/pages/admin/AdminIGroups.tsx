@@ -21,13 +21,18 @@ import {
 } from "@/components/ui/dialog"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
 import { EmmaTitleBar } from "../../components/emma/titlebar"
+import { EmmaActivityTimeline } from "../../components/emma/activity-timeline"
 import { GoogleMap } from "../../components/emma/google-map"
+import { EmmaNextMeetings } from "../../components/emma/next-meetings"
+import { EmmaGroupHealthReport } from "../../components/emma/group-roster"
+import { EmmaCheckInAlerts, EmmaCheckInRollup } from "../../components/emma/group-check-ins"
 import type { IGroup } from "../../types/group"
 import type { Person } from "../../types/person"
 import type { Venue } from "../../types/venue"
 import type { Area } from "../../types/area"
 import type { Community } from "../../types/community"
 import { useState, useEffect } from "react"
+import { apiFetch } from "../../lib/api-client"
 
 interface IGroupWithRelations extends IGroup {
   venue?: Venue | null
@@ -109,7 +114,7 @@ export default function AdminIGroups() {
       setError(null)
 
       // Fetch i-groups
-      const igroupsResponse = await fetch(`/api/i-groups?active=${!showArchived}`)
+      const igroupsResponse = await apiFetch(`/api/i-groups?active=${!showArchived}&managed=true`)
       if (!igroupsResponse.ok) throw new Error(`Failed to fetch i-groups: ${igroupsResponse.statusText}`)
       const igroupsResult = await igroupsResponse.json()
       const igroupsData = Array.isArray(igroupsResult.data) ? igroupsResult.data : [igroupsResult.data]
@@ -117,10 +122,10 @@ export default function AdminIGroups() {
 
       // Fetch related data
       const [peopleRes, venuesRes, areasRes, communitiesRes] = await Promise.all([
-        fetch("/api/people"),
-        fetch("/api/venues"),
-        fetch("/api/areas"),
-        fetch("/api/communities"),
+        apiFetch("/api/people"),
+        apiFetch("/api/venues"),
+        apiFetch("/api/areas"),
+        apiFetch("/api/communities"),
       ])
 
       if (peopleRes.ok) {
@@ -173,6 +178,11 @@ export default function AdminIGroups() {
         is_requiring_contact_before_visiting: igroup.is_requiring_contact_before_visiting,
         schedule_events: igroup.schedule_events,
         schedule_description: igroup.schedule_description,
+        schedule_rrule: igroup.schedule_rrule,
+        schedule_dtstart: igroup.schedule_dtstart,
+        schedule_duration_minutes: igroup.schedule_duration_minutes,
+        schedule_timezone: igroup.schedule_timezone,
+        schedule_exdates: igroup.schedule_exdates,
         area_id: igroup.area_id,
         community_id: igroup.community_id,
         contact_email: igroup.contact_email,
@@ -305,6 +315,11 @@ export default function AdminIGroups() {
         is_requiring_contact_before_visiting: formData.is_requiring_contact_before_visiting ?? false,
         schedule_events: formData.schedule_events || [],
         schedule_description: formData.schedule_description || null,
+        schedule_rrule: formData.schedule_rrule || null,
+        schedule_dtstart: formData.schedule_dtstart ? formData.schedule_dtstart.slice(0, 16) : null,
+        schedule_duration_minutes: formData.schedule_duration_minutes || undefined,
+        schedule_timezone: formData.schedule_timezone || null,
+        schedule_exdates: (formData.schedule_exdates || []).filter(Boolean),
         area_id: formData.area_id || null,
         community_id: formData.community_id || null,
         is_active: formData.is_active ?? true,
@@ -312,7 +327,7 @@ export default function AdminIGroups() {
 
       const body = isNewIGroup ? cleanedData : { id, ...cleanedData }
 
-      const response = await fetch(url, {
+      const response = await apiFetch(url, {
         method,
         headers: {
           "Content-Type": "application/json",
@@ -363,7 +378,7 @@ export default function AdminIGroups() {
     setArchivingItems((prev) => new Set(prev).add(igroup.id))
 
     try {
-      const response = await fetch(`/api/i-groups/${igroup.id}`, {
+      const response = await apiFetch(`/api/i-groups/${igroup.id}`, {
         method: "PUT",
         headers: {
           "Content-Type": "application/json",
@@ -686,6 +701,82 @@ export default function AdminIGroups() {
                                         />
                                       </div>
 
+                                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                        <div>
+                                          <label className="block text-sm font-medium text-gray-700 mb-2">
+                                            Recurrence Rule
+                                          </label>
+                                          <Input
+                                            value={formData.schedule_rrule || ""}
+                                            onChange={(e) =>
+                                              updateFormData(igroup.id, "schedule_rrule", e.target.value || null)
+                                            }
+                                            placeholder="e.g., FREQ=MONTHLY;BYDAY=1TU,3TU"
+                                            className="w-full font-mono"
+                                          />
+                                        </div>
+                                        <div>
+                                          <label className="block text-sm font-medium text-gray-700 mb-2">
+                                            First Meeting (local time)
+                                          </label>
+                                          <Input
+                                            type="datetime-local"
+                                            value={formData.schedule_dtstart?.slice(0, 16) || ""}
+                                            onChange={(e) =>
+                                              updateFormData(igroup.id, "schedule_dtstart", e.target.value || null)
+                                            }
+                                            className="w-full"
+                                          />
+                                        </div>
+                                        <div>
+                                          <label className="block text-sm font-medium text-gray-700 mb-2">
+                                            Meeting Length (minutes)
+                                          </label>
+                                          <Input
+                                            type="number"
+                                            min={15}
+                                            value={formData.schedule_duration_minutes ?? ""}
+                                            onChange={(e) =>
+                                              updateFormData(
+                                                igroup.id,
+                                                "schedule_duration_minutes",
+                                                e.target.value ? Number(e.target.value) : undefined,
+                                              )
+                                            }
+                                            placeholder="150"
+                                            className="w-full"
+                                          />
+                                        </div>
+                                        <div>
+                                          <label className="block text-sm font-medium text-gray-700 mb-2">Timezone</label>
+                                          <Input
+                                            value={formData.schedule_timezone || ""}
+                                            onChange={(e) =>
+                                              updateFormData(igroup.id, "schedule_timezone", e.target.value || null)
+                                            }
+                                            placeholder={igroup.venue?.timezone || "e.g., America/Chicago"}
+                                            className="w-full"
+                                          />
+                                        </div>
+                                        <div className="md:col-span-2">
+                                          <label className="block text-sm font-medium text-gray-700 mb-2">
+                                            Skipped Dates
+                                          </label>
+                                          <Input
+                                            value={(formData.schedule_exdates || []).join(", ")}
+                                            onChange={(e) =>
+                                              updateFormData(
+                                                igroup.id,
+                                                "schedule_exdates",
+                                                e.target.value.split(",").map((date) => date.trim()),
+                                              )
+                                            }
+                                            placeholder="e.g., 2026-12-22, 2026-12-29"
+                                            className="w-full"
+                                          />
+                                        </div>
+                                      </div>
+
                                       <div>
                                         <label className="block text-sm font-medium text-gray-700 mb-2">
                                           Contact Email
@@ -896,6 +987,18 @@ export default function AdminIGroups() {
                                         </div>
                                       )}
 
+                                      {igroup.next_meetings && igroup.next_meetings.length > 0 && (
+                                        <div>
+                                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                                            Next Meetings
+                                          </label>
+                                          <EmmaNextMeetings group={igroup} showZone />
+                                          {igroup.schedule_rrule && (
+                                            <div className="text-xs text-gray-500 font-mono mt-1">{igroup.schedule_rrule}</div>
+                                          )}
+                                        </div>
+                                      )}
+
                                       {igroup.contact_email && (
                                         <div>
                                           <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -1005,6 +1108,10 @@ export default function AdminIGroups() {
                                       )}
                                     </div>
                                   </div>
+
+                                  <div className="mt-6">
+                                    <EmmaActivityTimeline logId={igroup.log_id} refreshKey={igroup.updated_at} />
+                                  </div>
                                 </div>
                               )}
                             </div>
@@ -1017,6 +1124,12 @@ export default function AdminIGroups() {
               )}
             </CardContent>
           </Card>
+
+          <div className="mt-8 space-y-8">
+            <EmmaCheckInAlerts />
+            <EmmaGroupHealthReport />
+            <EmmaCheckInRollup />
+          </div>
         </div>
       </div>
 
@@ -37,8 +37,11 @@ import {
 import { EmmaTitleBar } from "../../components/emma/titlebar"
 import { EmmaPersonDisplay } from "../../components/emma/person-display"
 import { EmmaAddress } from "../../components/emma/address"
+import { EmmaPagination } from "../../components/emma/pagination"
 import type { Person } from "../../types/person"
 import { useState, useEffect } from "react"
+import { apiFetch } from "../../lib/api-client"
+import { usePagedList } from "../../hooks/usePagedList"
 
 interface Address {
   id: string
@@ -66,6 +69,30 @@ const getMembershipStatus = (person: Person) => {
   return "Incomplete"
 }
 
+interface MemberStats {
+  total: number
+  active: number
+  partial: number
+  incomplete: number
+  inactive: number
+}
+
+// Membership statuses map onto the people route's active and contact filters
+const getStatusFilters = (statusFilter: string, showInactive: boolean): Record<string, string | undefined> => {
+  switch (statusFilter) {
+    case "Active":
+      return { active: "true", contact: "complete" }
+    case "Partial":
+      return { active: "true", contact: "partial" }
+    case "Incomplete":
+      return { active: "true", contact: "none" }
+    case "Inactive":
+      return { active: "false" }
+    default:
+      return { active: showInactive ? undefined : "true" }
+  }
+}
+
 const getStatusBadge = (status: string) => {
   switch (status) {
     case "Active":
@@ -103,9 +130,14 @@ const getStatusBadge = (status: string) => {
 
 export default function AdminMembers() {
   const { isAuthenticated, isLoading } = useAuth0()
-  const [members, setMembers] = useState<MemberWithAddresses[]>([])
-  const [addresses, setAddresses] = useState<Address[]>([])
-  const [loading, setLoading] = useState(true)
+  const [addressesById, setAddressesById] = useState<Record<string, Address>>({})
+  const [memberStats, setMemberStats] = useState<MemberStats>({
+    total: 0,
+    active: 0,
+    partial: 0,
+    incomplete: 0,
+    inactive: 0,
+  })
   const [error, setError] = useState<string | null>(null)
   const [searchTerm, setSearchTerm] = useState("")
   const [statusFilter, setStatusFilter] = useState<string>("all")
@@ -126,78 +158,88 @@ export default function AdminMembers() {
   })
   const [creating, setCreating] = useState(false)
 
-  const filteredMembers = members.filter((member) => {
-    const matchesSearch =
-      `${member.first_name} ${member.last_name}`.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      member.email?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      member.phone?.includes(searchTerm)
-
-    const memberStatus = getMembershipStatus(member)
-    const matchesStatus = statusFilter === "all" || memberStatus === statusFilter
-    const matchesActive = showInactive || member.is_active
-
-    return matchesSearch && matchesStatus && matchesActive
+  const {
+    items: people,
+    setItems: setPeople,
+    total,
+    page,
+    pageCount,
+    pageSize,
+    setPage,
+    isLoading: loading,
+    error: loadError,
+  } = usePagedList<Person>("/api/people", {
+    sort: "last_name",
+    q: searchTerm,
+    filters: getStatusFilters(statusFilter, showInactive),
+    enabled: isAuthenticated,
   })
 
-  const memberStats = {
-    total: members.length,
-    active: members.filter((m) => getMembershipStatus(m) === "Active").length,
-    partial: members.filter((m) => getMembershipStatus(m) === "Partial").length,
-    incomplete: members.filter((m) => getMembershipStatus(m) === "Incomplete").length,
-    inactive: members.filter((m) => !m.is_active).length,
-  }
+  // Enhance people with address information
+  const members: MemberWithAddresses[] = people.map((person) => ({
+    ...person,
+    physical_address: person.physical_address_id ? addressesById[person.physical_address_id] : undefined,
+    mailing_address: person.mailing_address_id ? addressesById[person.mailing_address_id] : undefined,
+    billing_address: person.billing_address_id ? addressesById[person.billing_address_id] : undefined,
+  }))
 
   useEffect(() => {
     if (isAuthenticated) {
-      fetchData()
+      fetchStats()
     }
   }, [isAuthenticated])
 
-  const fetchData = async () => {
-    try {
-      setLoading(true)
+  // Only the addresses referenced by the current page are loaded
+  useEffect(() => {
+    const missingIds = Array.from(
+      new Set(
+        people.flatMap((person) => [person.physical_address_id, person.mailing_address_id, person.billing_address_id]),
+      ),
+    ).filter((id): id is string => !!id && !addressesById[id])
+
+    if (missingIds.length > 0) {
+      fetchAddresses(missingIds)
+    }
+  }, [people])
 
-      // Fetch people and addresses in parallel
-      const [peopleResponse, addressesResponse] = await Promise.all([fetch("/api/people"), fetch("/api/addresses")])
+  const fetchStats = async () => {
+    try {
+      const response = await apiFetch("/api/people/stats")
 
-      if (!peopleResponse.ok || !addressesResponse.ok) {
-        throw new Error("Failed to fetch data")
+      if (!response.ok) {
+        throw new Error("Failed to fetch member stats")
       }
 
-      const peopleData = await peopleResponse.json()
-      const addressesData = await addressesResponse.json()
-
-      const peopleArray = peopleData.data || []
-      const addressesArray = addressesData.data || []
-
-      setAddresses(addressesArray)
-
-      // Enhance people with address information
-      const membersWithAddresses: MemberWithAddresses[] = peopleArray.map((person: Person) => {
-        const physical_address = person.physical_address_id
-          ? addressesArray.find((addr: Address) => addr.id === person.physical_address_id)
-          : undefined
-        const mailing_address = person.mailing_address_id
-          ? addressesArray.find((addr: Address) => addr.id === person.mailing_address_id)
-          : undefined
-        const billing_address = person.billing_address_id
-          ? addressesArray.find((addr: Address) => addr.id === person.billing_address_id)
-          : undefined
-
-        return {
-          ...person,
-          physical_address,
-          mailing_address,
-          billing_address,
-        }
+      const statsData = await response.json()
+      setMemberStats({
+        total: statsData.data.total,
+        active: statsData.data.complete,
+        partial: statsData.data.partial,
+        incomplete: statsData.data.incomplete,
+        inactive: statsData.data.inactive,
       })
+    } catch (err) {
+      console.error("Error fetching member stats:", err)
+    }
+  }
 
-      setMembers(membersWithAddresses)
+  const fetchAddresses = async (addressIds: string[]) => {
+    try {
+      const response = await apiFetch(`/api/addresses?ids=${addressIds.join(",")}`)
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch addresses")
+      }
+
+      const addressesData = await response.json()
+      const addressesArray: Address[] = addressesData.data || []
+
+      setAddressesById((prev) => ({
+        ...prev,
+        ...Object.fromEntries(addressesArray.map((address) => [address.id, address])),
+      }))
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to fetch members")
-      console.error("Error fetching members:", err)
-    } finally {
-      setLoading(false)
+      console.error("Error fetching member addresses:", err)
     }
   }
 
@@ -273,7 +315,7 @@ export default function AdminMembers() {
     setSavingItems((prev) => new Set(prev).add(id))
 
     try {
-      const response = await fetch(`/api/people/${id}`, {
+      const response = await apiFetch(`/api/people/${id}`, {
         method: "PUT",
         headers: {
           "Content-Type": "application/json",
@@ -290,7 +332,7 @@ export default function AdminMembers() {
 
       const updatedMember = await response.json()
 
-      setMembers((prev) =>
+      setPeople((prev) =>
         prev.map((member) =>
           member.id === id
             ? {
@@ -302,6 +344,7 @@ export default function AdminMembers() {
       )
 
       cancelEditing(id)
+      fetchStats()
     } catch (err) {
       console.error("Error updating member:", err)
       setError(err instanceof Error ? err.message : "Failed to update member")
@@ -356,7 +399,7 @@ export default function AdminMembers() {
     setCreating(true)
 
     try {
-      const response = await fetch("/api/people", {
+      const response = await apiFetch("/api/people", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -369,8 +412,9 @@ export default function AdminMembers() {
       }
 
       const newMember = await response.json()
-      setMembers((prev) => [newMember.data, ...prev])
+      setPeople((prev) => [newMember.data, ...prev])
       closeCreateDialog()
+      fetchStats()
     } catch (err) {
       console.error("Error creating member:", err)
       setError(err instanceof Error ? err.message : "Failed to create member")
@@ -487,7 +531,7 @@ export default function AdminMembers() {
           {/* Members List */}
           <Card>
             <CardHeader>
-              <CardTitle>Members ({filteredMembers.length})</CardTitle>
+              <CardTitle>Members ({total.toLocaleString()})</CardTitle>
               <CardDescription>Organization membership directory and contact management</CardDescription>
             </CardHeader>
             <CardContent>
@@ -496,11 +540,11 @@ export default function AdminMembers() {
                   <Loader2 className="w-8 h-8 text-blue-600 mx-auto mb-4 animate-spin" />
                   <p className="text-gray-600">Loading members...</p>
                 </div>
-              ) : error ? (
+              ) : error || loadError ? (
                 <div className="text-center py-12">
                   <Users className="w-16 h-16 text-red-400 mx-auto mb-4" />
                   <h3 className="text-lg font-semibold text-red-900 mb-2">Error Loading Members</h3>
-                  <p className="text-red-600 mb-4">{error}</p>
+                  <p className="text-red-600 mb-4">{error || loadError}</p>
                   <Button
                     onClick={() => window.location.reload()}
                     variant="outline"
@@ -509,7 +553,7 @@ export default function AdminMembers() {
                     Try Again
                   </Button>
                 </div>
-              ) : filteredMembers.length === 0 ? (
+              ) : members.length === 0 ? (
                 <div className="text-center py-12">
                   <Users className="w-16 h-16 text-gray-400 mx-auto mb-4" />
                   <h3 className="text-lg font-semibold text-gray-900 mb-2">No Members Found</h3>
@@ -528,7 +572,7 @@ export default function AdminMembers() {
               ) : (
                 <TooltipProvider>
                   <div className="space-y-4">
-                    {filteredMembers.map((member) => {
+                    {members.map((member) => {
                       const isExpanded = expandedItems.has(member.id)
                       const isEditing = editingItems.has(member.id)
                       const isSaving = savingItems.has(member.id)
@@ -789,6 +833,15 @@ export default function AdminMembers() {
                       )
                     })}
                   </div>
+                  <EmmaPagination
+                    className="mt-6"
+                    page={page}
+                    pageCount={pageCount}
+                    pageSize={pageSize}
+                    total={total}
+                    onPageChange={setPage}
+                    disabled={loading}
+                  />
                 </TooltipProvider>
               )}
             </CardContent>
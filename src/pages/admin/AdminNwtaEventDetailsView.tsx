@@ -1,9 +1,18 @@
 "use client"
 
 import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Link } from "react-router-dom"
+import { LayoutGrid } from "lucide-react"
 import { EmmaPersonDisplay } from "../../components/emma/person-display"
 import { EmmaTimeline } from "../../components/emma/timeline"
+import { EmmaActivityTimeline } from "../../components/emma/activity-timeline"
 import { EmmaTransactionTable } from "../../components/emma/transaction-table"
+import { EmmaEventFinanceReport } from "../../components/emma/finance-report"
+import { EmmaJournalExport } from "../../components/emma/journal-export"
+import { EmmaEventCloseout } from "../../components/emma/event-closeout"
+import { EmmaEventReuse } from "../../components/emma/event-templates"
+import { EmmaRookieIntake } from "../../components/emma/rookie-intake"
 import { EmmaCalendar } from "../../components/emma/calendar"
 import type { NwtaEventWithRelations } from "../../types/nwta-event"
 import type { Person } from "../../types/person"
@@ -12,9 +21,10 @@ import { formatCurrency } from "./AdminNwtaEventHelperMethods"
 interface AdminNwtaEventDetailsViewProps {
   event: NwtaEventWithRelations
   people: Person[]
+  onEventCreated?: () => void
 }
 
-export default function AdminNwtaEventDetailsView({ event, people }: AdminNwtaEventDetailsViewProps) {
+export default function AdminNwtaEventDetailsView({ event, people, onEventCreated }: AdminNwtaEventDetailsViewProps) {
   const getPersonById = (personId: string) => {
     return people.find((p) => p.id === personId)
   }
@@ -106,7 +116,15 @@ export default function AdminNwtaEventDetailsView({ event, people }: AdminNwtaEv
       </div>
 
       <div className="space-y-4">
-        <h4 className="text-lg font-medium text-gray-900">NWTA Roles</h4>
+        <div className="flex items-center justify-between">
+          <h4 className="text-lg font-medium text-gray-900">NWTA Roles</h4>
+          <Button variant="outline" size="sm" asChild>
+            <Link to={`/admin/nwtas/${event.id}/staffing`}>
+              <LayoutGrid className="w-4 h-4 mr-2" />
+              Staffing Board
+            </Link>
+          </Button>
+        </div>
         <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
           <div className="space-y-3">
             <div className="flex items-center justify-between">
@@ -528,9 +546,22 @@ export default function AdminNwtaEventDetailsView({ event, people }: AdminNwtaEv
       )}
 
       <div className="space-y-4">
-        <h4 className="text-lg font-medium text-gray-900">Event Transactions</h4>
+        <div className="flex items-center justify-between">
+          <h4 className="text-lg font-medium text-gray-900">Event Transactions</h4>
+          <EmmaJournalExport logId={event.transaction_log_id} />
+        </div>
         <EmmaTransactionTable transactions={event.transactions || []} readOnly={true} showActions={false} />
       </div>
+
+      <EmmaEventFinanceReport eventId={event.id} refreshKey={event.transactions} />
+
+      <EmmaRookieIntake eventId={event.id} />
+
+      <EmmaEventCloseout eventId={event.id} />
+
+      <EmmaEventReuse eventId={event.id} eventName={event.name} onCreated={onEventCreated} />
+
+      <EmmaActivityTimeline logId={event.log_id} color={event.event_type?.color || "#ea580c"} />
     </div>
   )
 }
@@ -19,6 +19,7 @@ import type { Area } from "../../types/area"
 import type { Community } from "../../types/community"
 import type { Person } from "../../types/person"
 import type { Transaction } from "../../types/transaction"
+import { apiFetch } from "../../lib/api-client"
 
 interface EventType {
   id: string
@@ -133,7 +134,7 @@ export default function AdminNwtaEventEditView({
   ) => {
     try {
       newTransaction.log_id = ev.transaction_log_id
-      const response = await fetch("/api/transactions", {
+      const response = await apiFetch("/api/transactions", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(newTransaction),
@@ -154,7 +155,7 @@ export default function AdminNwtaEventEditView({
 
   const handleTransactionUpdate = async (eventId: string, updatedTransaction: Transaction) => {
     try {
-      const response = await fetch(`/api/transactions/${updatedTransaction.id}`, {
+      const response = await apiFetch(`/api/transactions/${updatedTransaction.id}`, {
         method: "PUT",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(updatedTransaction),
@@ -175,7 +176,7 @@ export default function AdminNwtaEventEditView({
 
   const handleTransactionDelete = async (eventId: string, transactionId: string) => {
     try {
-      const response = await fetch(`/api/transactions/${transactionId}`, {
+      const response = await apiFetch(`/api/transactions/${transactionId}`, {
         method: "DELETE",
       })
 
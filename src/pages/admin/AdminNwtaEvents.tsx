@@ -5,7 +5,7 @@ import { Navigate } from "react-router-dom"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Switch } from "@/components/ui/switch"
-import { Plus, Loader2, Calendar } from "lucide-react"
+import { Plus, Loader2, Calendar, LayoutTemplate } from "lucide-react"
 import { EmmaTitleBar } from "../../components/emma/titlebar"
 import type { NwtaEventWithRelations } from "../../types/nwta-event"
 import type { Area } from "../../types/area"
@@ -14,6 +14,9 @@ import type { Person as PersonType } from "../../types/person"
 import { useState, useEffect } from "react"
 import type { Transaction } from "../../types/transaction"
 import { EmmaPersonModal } from "../../components/emma/person-modal"
+import { EmmaJournalExport } from "../../components/emma/journal-export"
+import { EmmaEventTemplateDialog } from "../../components/emma/event-templates"
+import { describeVenueConflicts } from "../../components/emma/venue-calendar"
 import { EmmaProspectModal } from "../../components/emma/prospect-modal"
 import {
   Dialog,
@@ -26,6 +29,7 @@ import {
 import AdminNwtaEventSummaryView from "./AdminNwtaEventSummaryView"
 import AdminNwtaEventEditView from "./AdminNwtaEventEditView"
 import AdminNwtaEventDetailsView from "./AdminNwtaEventDetailsView"
+import { apiFetch } from "../../lib/api-client"
 
 interface EventType {
   id: string
@@ -55,6 +59,7 @@ export default function AdminNwtaEvents() {
   const [people, setPeople] = useState<PersonType[]>([])
   const [loadingData, setLoadingData] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [conflictWarning, setConflictWarning] = useState<string | null>(null)
   const [expandedItem, setExpandedItem] = useState<string | null>(null)
   const [editingItems, setEditingItems] = useState<Set<string>>(new Set())
   const [editFormData, setEditFormData] = useState<Record<string, Partial<NwtaEventWithRelations>>>({})
@@ -78,6 +83,7 @@ export default function AdminNwtaEvents() {
   const [selectedTimelineEvents, setSelectedTimelineEvents] = useState<Record<string, number>>({})
   const [loadedTransactions, setLoadedTransactions] = useState<Set<string>>(new Set())
   const [paymentStats, setPaymentStats] = useState<Record<string, any>>({})
+  const [templateDialogOpen, setTemplateDialogOpen] = useState(false)
 
   const filteredEvents = events.filter((event) => (showArchived ? !event.is_active : event.is_active))
   const activeEventCount = events.filter((e) => e.is_active).length
@@ -94,7 +100,7 @@ export default function AdminNwtaEvents() {
       setError(null)
 
       // Fetch NWTA events
-      const eventsResponse = await fetch(`/api/nwta-events?active=${!showArchived}`)
+      const eventsResponse = await apiFetch(`/api/nwta-events?active=${!showArchived}&managed=true`)
       if (!eventsResponse.ok) throw new Error(`Failed to fetch NWTA events: ${eventsResponse.statusText}`)
       const eventsResult = await eventsResponse.json()
       const eventsData = Array.isArray(eventsResult.data) ? eventsResult.data : [eventsResult.data]
@@ -103,11 +109,11 @@ export default function AdminNwtaEvents() {
 
       // Fetch related data
       const [eventTypesRes, venuesRes, areasRes, communitiesRes, peopleRes] = await Promise.all([
-        fetch("/api/event-types"),
-        fetch("/api/venues"),
-        fetch("/api/areas"),
-        fetch("/api/communities"),
-        fetch("/api/people"),
+        apiFetch("/api/event-types"),
+        apiFetch("/api/venues"),
+        apiFetch("/api/areas"),
+        apiFetch("/api/communities"),
+        apiFetch("/api/people"),
       ])
 
       if (eventTypesRes.ok) {
@@ -142,7 +148,7 @@ export default function AdminNwtaEvents() {
       .filter((event) => event.transaction_log_id && !paymentStats[event.id])
       .map(async (event) => {
         try {
-          const response = await fetch(`/api/transactions/stats?log=${event.transaction_log_id}`)
+          const response = await apiFetch(`/api/transactions/stats?log=${event.transaction_log_id}`)
           const result = await response.json()
 
           if (result.success && result.data.payments) {
@@ -176,7 +182,7 @@ export default function AdminNwtaEvents() {
     console.log("[v0] Fetching transactions for event:", event.id, "log_id:", event.transaction_log_id)
 
     try {
-      const response = await fetch(`/api/transactions?log=${event.transaction_log_id}`)
+      const response = await apiFetch(`/api/transactions?log=${event.transaction_log_id}`)
       const result = await response.json()
 
       console.log("[v0] Transaction API response:", result)
@@ -308,7 +314,7 @@ export default function AdminNwtaEvents() {
       const url = isNewEvent ? "/api/nwta-events" : `/api/nwta-events/${id}`
       const method = isNewEvent ? "POST" : "PUT"
 
-      const response = await fetch(url, {
+      const response = await apiFetch(url, {
         method,
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(formData),
@@ -321,11 +327,12 @@ export default function AdminNwtaEvents() {
 
       const updatedEvent = await response.json()
       setEvents((prev) => prev.map((event) => (event.id === id ? updatedEvent.data : event)))
+      setConflictWarning(updatedEvent.conflicts?.length > 0 ? describeVenueConflicts(updatedEvent.conflicts) : null)
 
       // TODO Schedule this to run asynchronously?
       if (updatedEvent.data.transaction_log_id) {
         try {
-          const statsResponse = await fetch(`/api/transactions/stats?log=${updatedEvent.data.transaction_log_id}`)
+          const statsResponse = await apiFetch(`/api/transactions/stats?log=${updatedEvent.data.transaction_log_id}`)
           const statsResult = await statsResponse.json()
 
           if (statsResult.success && statsResult.data.payments) {
@@ -696,7 +703,7 @@ export default function AdminNwtaEvents() {
     setArchivingItems((prev) => new Set(prev).add(event.id))
 
     try {
-      const response = await fetch(`/api/nwta-events/${event.id}`, {
+      const response = await apiFetch(`/api/nwta-events/${event.id}`, {
         method: "PUT",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ is_active: false }),
@@ -726,7 +733,7 @@ export default function AdminNwtaEvents() {
   ) => {
     try {
       newTransaction.log_id = ev.transaction_log_id
-      const response = await fetch("/api/transactions", {
+      const response = await apiFetch("/api/transactions", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(newTransaction),
@@ -759,7 +766,7 @@ export default function AdminNwtaEvents() {
 
   const handleTransactionUpdate = async (eventId: string, updatedTransaction: Transaction) => {
     try {
-      const response = await fetch(`/api/transactions/${updatedTransaction.id}`, {
+      const response = await apiFetch(`/api/transactions/${updatedTransaction.id}`, {
         method: "PUT",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(updatedTransaction),
@@ -795,7 +802,7 @@ export default function AdminNwtaEvents() {
 
   const handleTransactionDelete = async (eventId: string, transactionId: string) => {
     try {
-      const response = await fetch(`/api/transactions/${transactionId}`, {
+      const response = await apiFetch(`/api/transactions/${transactionId}`, {
         method: "DELETE",
       })
 
@@ -905,6 +912,20 @@ export default function AdminNwtaEvents() {
             </div>
           )}
 
+          {conflictWarning && (
+            <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-lg">
+              <p className="text-amber-800">{conflictWarning}</p>
+              <Button
+                variant="outline"
+                size="sm"
+                className="mt-2 bg-transparent"
+                onClick={() => setConflictWarning(null)}
+              >
+                Dismiss
+              </Button>
+            </div>
+          )}
+
           <div className="mb-8 flex justify-between items-center">
             <p className="text-gray-600">Manage NWTA events, scheduling, and participant registration</p>
           </div>
@@ -925,6 +946,13 @@ export default function AdminNwtaEvents() {
                     Show Archived
                   </label>
                 </div>
+                <EmmaJournalExport />
+                {!showArchived && (
+                  <Button variant="outline" onClick={() => setTemplateDialogOpen(true)}>
+                    <LayoutTemplate className="w-4 h-4" />
+                    From Template
+                  </Button>
+                )}
                 {!showArchived && (
                   <Button onClick={createNewEvent} className="bg-blue-600 hover:bg-blue-700">
                     <Plus className="w-4 h-4" />
@@ -998,7 +1026,7 @@ export default function AdminNwtaEvents() {
                                     people={people}
                                   />
                                 ) : (
-                                  <AdminNwtaEventDetailsView event={event} people={people} />
+                                  <AdminNwtaEventDetailsView event={event} people={people} onEventCreated={fetchData} />
                                 )}
                               </div>
                             )}
@@ -1015,6 +1043,17 @@ export default function AdminNwtaEvents() {
       </div>
 
       {/* Modals */}
+      <EmmaEventTemplateDialog
+        open={templateDialogOpen}
+        isNwta={true}
+        onClose={() => setTemplateDialogOpen(false)}
+        onCreated={(created) => {
+          setTemplateDialogOpen(false)
+          setConflictWarning(created.conflicts.length > 0 ? describeVenueConflicts(created.conflicts) : null)
+          fetchData()
+        }}
+      />
+
       <EmmaPersonModal
         isOpen={staffModalOpen}
         onClose={() => setStaffModalOpen(false)}
@@ -20,6 +20,7 @@ import {
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
 import { EmmaTitleBar } from "../../components/emma/titlebar"
 import { useState, useEffect } from "react"
+import { apiFetch } from "../../lib/api-client"
 
 interface NwtaRole {
   id: string
@@ -84,9 +85,9 @@ export default function AdminNwtaRoles() {
       setError(null)
 
       const [rolesResponse, roleTypesResponse, eventsResponse] = await Promise.all([
-        fetch("/api/nwta-roles"),
-        fetch("/api/nwta-role-types"),
-        fetch("/api/nwta-events"),
+        apiFetch("/api/nwta-roles"),
+        apiFetch("/api/nwta-role-types"),
+        apiFetch("/api/nwta-events"),
       ])
 
       if (!rolesResponse.ok || !roleTypesResponse.ok || !eventsResponse.ok) {
@@ -156,7 +157,7 @@ export default function AdminNwtaRoles() {
     setSavingItems((prev) => new Set(prev).add(id))
 
     try {
-      const response = await fetch(`/api/nwta-roles/${id}`, {
+      const response = await apiFetch(`/api/nwta-roles/${id}`, {
         method: "PUT",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(formData),
@@ -210,7 +211,7 @@ export default function AdminNwtaRoles() {
     setSavingItems((prev) => new Set(prev).add("new"))
 
     try {
-      const response = await fetch("/api/nwta-roles", {
+      const response = await apiFetch("/api/nwta-roles", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(formData),
@@ -251,7 +252,7 @@ export default function AdminNwtaRoles() {
     setArchivingItems((prev) => new Set(prev).add(role.id))
 
     try {
-      const response = await fetch(`/api/nwta-roles/${role.id}`, {
+      const response = await apiFetch(`/api/nwta-roles/${role.id}`, {
         method: "PUT",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ is_active: false }),
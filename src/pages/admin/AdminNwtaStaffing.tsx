@@ -0,0 +1,391 @@
+"use client"
+
+import { useAuth0 } from "../../lib/auth0-provider"
+import { Navigate, useParams } from "react-router-dom"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
+import { AlertTriangle, Crown, Loader2, X } from "lucide-react"
+import { EmmaTitleBar } from "../../components/emma/titlebar"
+import type { StaffingBoard, StaffingCandidate, StaffingRole } from "../../types/nwta-staffing"
+import { useState, useEffect, type DragEvent } from "react"
+import { apiFetch } from "../../lib/api-client"
+
+// Where a dragged candidate came from: the pool, or a role (as its lead or one of its warriors)
+interface DragSource {
+  person_id: string
+  role_id: string | null
+}
+
+type DropSlot = "lead" | "warriors"
+
+const LIST_LABELS: Record<string, string> = {
+  committed_staff: "Committed",
+  potential_staff: "Applied",
+  alternate_staff: "Alternate",
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  rookie: "Rookie",
+  initiated: "Initiated",
+  staff: "Staff",
+  leader_track: "Leader Track",
+  full_leader: "Full Leader",
+}
+
+const scoreClass = (score: number, meetsRequirement: boolean) => {
+  if (!meetsRequirement) return "bg-red-50 text-red-700 border-red-300"
+  if (score >= 60) return "bg-green-50 text-green-700 border-green-300"
+  if (score >= 30) return "bg-yellow-50 text-yellow-700 border-yellow-300"
+  return "bg-gray-50 text-gray-700 border-gray-300"
+}
+
+// A role with the person removed from it, and from its lead slot
+const withoutPerson = (role: StaffingRole, personId: string): StaffingRole => ({
+  ...role,
+  lead_warrior_id: role.lead_warrior_id === personId ? null : role.lead_warrior_id,
+  warriors: role.warriors.filter((id) => id !== personId),
+})
+
+export default function AdminNwtaStaffing() {
+  const { isAuthenticated, isLoading } = useAuth0()
+  const { uuid } = useParams<{ uuid: string }>()
+  const [board, setBoard] = useState<StaffingBoard | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [dragging, setDragging] = useState<DragSource | null>(null)
+  const [dropTarget, setDropTarget] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (isAuthenticated && uuid) {
+      fetchBoard()
+    }
+  }, [isAuthenticated, uuid])
+
+  const fetchBoard = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await apiFetch(`/api/nwta-events/${uuid}/staffing`)
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || "Failed to fetch staffing board")
+      }
+
+      setBoard(result.data)
+    } catch (err) {
+      console.error("[v0] Error fetching staffing board:", err)
+      setError(err instanceof Error ? err.message : "Failed to fetch staffing board")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const saveRoles = async (roles: StaffingRole[]) => {
+    try {
+      setSaving(true)
+      setError(null)
+
+      let latest: StaffingBoard | null = null
+      for (const role of roles) {
+        const response = await apiFetch(`/api/nwta-events/${uuid}/staffing`, {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ role_id: role.id, lead_warrior_id: role.lead_warrior_id, warriors: role.warriors }),
+        })
+        const result = await response.json()
+        if (!response.ok || !result.success) {
+          throw new Error(result.error || `Failed to update ${role.name}`)
+        }
+        latest = result.data
+      }
+
+      if (latest) {
+        setBoard(latest)
+      }
+    } catch (err) {
+      console.error("[v0] Error updating staffing:", err)
+      setError(err instanceof Error ? err.message : "Failed to update staffing")
+      fetchBoard()
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const assign = (source: DragSource, roleId: string, slot: DropSlot) => {
+    if (!board) return
+
+    const target = board.roles.find((role) => role.id === roleId)
+    if (!target) return
+
+    // Dragging out of a role moves the person; dragging from the pool adds them
+    const changed = new Map<string, StaffingRole>()
+    if (source.role_id && source.role_id !== roleId) {
+      const from = board.roles.find((role) => role.id === source.role_id)
+      if (from) changed.set(from.id, withoutPerson(from, source.person_id))
+    }
+
+    const cleared = withoutPerson(target, source.person_id)
+    const updated: StaffingRole =
+      slot === "lead"
+        ? {
+            ...cleared,
+            lead_warrior_id: source.person_id,
+            // The previous lead stays in the role as one of its warriors
+            warriors:
+              cleared.lead_warrior_id && cleared.lead_warrior_id !== source.person_id
+                ? [...cleared.warriors, cleared.lead_warrior_id]
+                : cleared.warriors,
+          }
+        : { ...cleared, warriors: [...cleared.warriors, source.person_id] }
+    changed.set(updated.id, updated)
+
+    setBoard({ ...board, roles: board.roles.map((role) => changed.get(role.id) || role) })
+    saveRoles([...changed.values()])
+  }
+
+  const unassign = (role: StaffingRole, personId: string) => {
+    if (!board) return
+    const updated = withoutPerson(role, personId)
+    setBoard({ ...board, roles: board.roles.map((r) => (r.id === role.id ? updated : r)) })
+    saveRoles([updated])
+  }
+
+  const handleDragStart = (e: DragEvent, source: DragSource) => {
+    e.dataTransfer.effectAllowed = "move"
+    e.dataTransfer.setData("text/plain", source.person_id)
+    setDragging(source)
+  }
+
+  const dropHandlers = (roleId: string, slot: DropSlot) => {
+    const key = `${roleId}-${slot}`
+    return {
+      onDragOver: (e: DragEvent) => {
+        e.preventDefault()
+        setDropTarget(key)
+      },
+      onDragLeave: () => setDropTarget((current) => (current === key ? null : current)),
+      onDrop: (e: DragEvent) => {
+        e.preventDefault()
+        e.stopPropagation()
+        setDropTarget(null)
+        if (dragging) {
+          assign(dragging, roleId, slot)
+        }
+        setDragging(null)
+      },
+      className: dropTarget === key ? "ring-2 ring-blue-400" : "",
+    }
+  }
+
+  const candidateById = (personId: string) => board?.candidates.find((c) => c.person_id === personId)
+
+  const renderCandidate = (candidate: StaffingCandidate | undefined, personId: string, role: StaffingRole | null) => {
+    const fit = role ? candidate?.fits[role.id] : undefined
+    const bestFit = candidate ? Math.max(0, ...Object.values(candidate.fits).map((f) => f.score)) : 0
+
+    return (
+      <div
+        key={`${role?.id || "pool"}-${personId}`}
+        draggable={!saving}
+        onDragStart={(e) => handleDragStart(e, { person_id: personId, role_id: role?.id || null })}
+        onDragEnd={() => setDragging(null)}
+        className="flex items-center justify-between gap-2 p-2 bg-white border rounded-md cursor-grab active:cursor-grabbing"
+      >
+        <div className="min-w-0">
+          <p className="text-sm font-medium truncate">
+            {candidate ? `${candidate.first_name} ${candidate.last_name}` : "Unknown person"}
+          </p>
+          {candidate && (
+            <p className="text-xs text-gray-500">
+              {candidate.status ? STATUS_LABELS[candidate.status] || candidate.status : "No warrior record"}
+              {" · "}
+              {candidate.staffed_count} staffed · {candidate.lead_count} led · {candidate.mos_count} MOS
+            </p>
+          )}
+        </div>
+        <div className="flex items-center gap-1 shrink-0">
+          {candidate && (
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Badge
+                  variant="outline"
+                  className={fit ? scoreClass(fit.score, fit.meets_requirement) : scoreClass(bestFit, true)}
+                >
+                  {fit ? fit.score : bestFit}
+                </Badge>
+              </TooltipTrigger>
+              <TooltipContent>
+                {fit ? (
+                  fit.meets_requirement ? (
+                    <p>Fit score for {role?.name}</p>
+                  ) : (
+                    fit.shortfalls.map((shortfall) => <p key={shortfall}>Short of this role: {shortfall}</p>)
+                  )
+                ) : (
+                  <p>Best fit score across all roles</p>
+                )}
+              </TooltipContent>
+            </Tooltip>
+          )}
+          {role && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0"
+              onClick={() => unassign(role, personId)}
+              disabled={saving}
+            >
+              <X className="w-3 h-3" />
+            </Button>
+          )}
+        </div>
+      </div>
+    )
+  }
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-lg">Loading...</div>
+      </div>
+    )
+  }
+
+  if (!isAuthenticated) {
+    return <Navigate to="/" replace />
+  }
+
+  const assignedIds = new Set(board?.roles.flatMap((role) => [role.lead_warrior_id, ...role.warriors]) || [])
+  const pool = (board?.candidates || []).filter((candidate) => candidate.list)
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background to-muted">
+      <EmmaTitleBar title="NWTA Staffing Board" backLink={{ href: "/admin/nwtas", label: "Back to NWTA Events" }} />
+
+      <div className="p-6 pt-20">
+        <div className="max-w-full mx-auto">
+          {loading && !board ? (
+            <div className="text-center py-12">
+              <Loader2 className="w-8 h-8 text-blue-600 mx-auto mb-4 animate-spin" />
+              <p className="text-gray-600">Loading staffing board...</p>
+            </div>
+          ) : !board ? (
+            <div className="text-center py-12">
+              <p className="text-red-600 mb-4">{error || "Staffing board not found"}</p>
+              <Button variant="outline" onClick={fetchBoard}>
+                Try Again
+              </Button>
+            </div>
+          ) : (
+            <TooltipProvider>
+              <Card className="mb-6">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    {board.event_name}
+                    {saving && <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />}
+                  </CardTitle>
+                  <CardDescription>
+                    Drag staff applicants onto a role, or onto its lead slot. Scores weigh each warrior's staffing,
+                    leading and man of service history and status against the role's experience requirement.
+                  </CardDescription>
+                </CardHeader>
+                {error && (
+                  <CardContent>
+                    <p className="text-sm text-destructive">{error}</p>
+                  </CardContent>
+                )}
+              </Card>
+
+              <div className="flex gap-4 overflow-x-auto pb-4 items-start">
+                <div className="w-72 shrink-0 space-y-2 bg-gray-50 rounded-lg p-3">
+                  <div className="flex items-center justify-between">
+                    <h3 className="font-medium text-gray-900">Staff Pool</h3>
+                    <Badge variant="outline">{pool.length}</Badge>
+                  </div>
+                  {pool.length === 0 ? (
+                    <p className="text-sm text-gray-500 text-center py-4">Nobody has applied to staff yet</p>
+                  ) : (
+                    pool.map((candidate) => (
+                      <div key={candidate.person_id} className={assignedIds.has(candidate.person_id) ? "opacity-60" : ""}>
+                        <p className="text-xs text-gray-500 mb-1">{LIST_LABELS[candidate.list || ""]}</p>
+                        {renderCandidate(candidate, candidate.person_id, null)}
+                      </div>
+                    ))
+                  )}
+                </div>
+
+                {board.roles.length === 0 ? (
+                  <p className="text-sm text-gray-500 py-4">This NWTA has no roles yet. Add them under NWTA Roles.</p>
+                ) : (
+                  board.roles.map((role) => {
+                    const leadDrop = dropHandlers(role.id, "lead")
+                    const warriorsDrop = dropHandlers(role.id, "warriors")
+
+                    return (
+                      <div
+                        key={role.id}
+                        {...warriorsDrop}
+                        className={`w-72 shrink-0 space-y-2 bg-gray-50 rounded-lg p-3 ${warriorsDrop.className}`}
+                      >
+                        <div>
+                          <div className="flex items-center justify-between">
+                            <h3 className="font-medium text-gray-900">{role.name}</h3>
+                            <Badge variant="outline">
+                              {role.warriors.length + (role.lead_warrior_id ? 1 : 0)}
+                            </Badge>
+                          </div>
+                          {role.role_type && (
+                            <p className="text-xs text-gray-500">
+                              {role.role_type.name}
+                              {role.role_type.experience_level > 0 &&
+                                ` · needs ${role.role_type.experience_level} NWTAs staffed`}
+                              {role.role_type.needs_experience && ` · ${role.role_type.needs_experience}`}
+                            </p>
+                          )}
+                        </div>
+
+                        {role.warnings.length > 0 && (
+                          <div className="space-y-1 p-2 rounded-md border border-amber-300 bg-amber-50">
+                            {role.warnings.map((warning) => (
+                              <p key={warning} className="flex items-start gap-1 text-xs text-amber-800">
+                                <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+                                {warning}
+                              </p>
+                            ))}
+                          </div>
+                        )}
+
+                        <div {...leadDrop} className={`p-2 rounded-md border border-dashed ${leadDrop.className}`}>
+                          <p className="flex items-center gap-1 text-xs font-medium text-gray-600 mb-1">
+                            <Crown className="w-3 h-3" />
+                            Lead
+                          </p>
+                          {role.lead_warrior_id ? (
+                            renderCandidate(candidateById(role.lead_warrior_id), role.lead_warrior_id, role)
+                          ) : (
+                            <p className="text-xs text-gray-400 text-center py-2">Drop the lead here</p>
+                          )}
+                        </div>
+
+                        <div className="space-y-2 min-h-[80px]">
+                          {role.warriors.map((personId) => renderCandidate(candidateById(personId), personId, role))}
+                          {role.warriors.length === 0 && (
+                            <p className="text-xs text-gray-400 text-center py-4">Drop warriors here</p>
+                          )}
+                        </div>
+                      </div>
+                    )
+                  })
+                )}
+              </div>
+            </TooltipProvider>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -7,7 +7,7 @@ import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Textarea } from "@/components/ui/textarea"
-import { Users, Plus, Edit, Archive, Loader2, Eye, EyeOff, Save, X } from "lucide-react"
+import { Users, Plus, Edit, Archive, Loader2, Eye, EyeOff, Save, X, Search } from "lucide-react"
 import {
   Dialog,
   DialogContent,
@@ -20,7 +20,10 @@ import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/comp
 import { EmmaTitleBar } from "../../components/emma/titlebar"
 import { EmmaAddress } from "../../components/emma/address"
 import { EmmaPhotoUploadModal } from "../../components/emma/photo-upload-modal"
+import { EmmaPagination } from "../../components/emma/pagination"
 import { useState, useEffect } from "react"
+import { apiFetch } from "../../lib/api-client"
+import { usePagedList } from "../../hooks/usePagedList"
 
 interface Person {
   id: string
@@ -59,10 +62,9 @@ interface PersonApiResponse {
 
 export default function AdminPeople() {
   const { isAuthenticated, isLoading } = useAuth0()
-  const [people, setPeople] = useState<Person[]>([])
-  const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [showArchived, setShowArchived] = useState(false)
+  const [searchTerm, setSearchTerm] = useState("")
   const [expandedItems, setExpandedItems] = useState<Set<string>>(new Set())
   const [editingItems, setEditingItems] = useState<Set<string>>(new Set())
   const [editFormData, setEditFormData] = useState<Record<string, Partial<Person>>>({})
@@ -84,6 +86,23 @@ export default function AdminPeople() {
   })
   const [addressCache, setAddressCache] = useState<Record<string, Address>>({})
 
+  const {
+    items: people,
+    setItems: setPeople,
+    total,
+    page,
+    pageCount,
+    pageSize,
+    setPage,
+    isLoading: loading,
+    error: loadError,
+  } = usePagedList<Person>("/api/people", {
+    sort: "last_name",
+    q: searchTerm,
+    filters: { active: showArchived ? "false" : "true" },
+    enabled: isAuthenticated,
+  })
+
   const filteredPeople = people.filter((person) => (showArchived ? !person.is_active : person.is_active))
   const displayedPeople = creatingPerson && !showArchived ? [creatingPerson, ...filteredPeople] : filteredPeople
 
@@ -220,7 +239,7 @@ export default function AdminPeople() {
 
       console.log("[v0] Submitting person data:", body)
 
-      const response = await fetch(url, {
+      const response = await apiFetch(url, {
         method,
         headers: {
           "Content-Type": "application/json",
@@ -288,7 +307,7 @@ export default function AdminPeople() {
       formData.append("file", file)
       formData.append("positioning", JSON.stringify(positioning))
 
-      const response = await fetch(`/api/people/${personId}/photo`, {
+      const response = await apiFetch(`/api/people/${personId}/photo`, {
         method: "POST",
         body: formData,
       })
@@ -322,7 +341,7 @@ export default function AdminPeople() {
 
   const handlePhotoDelete = async (personId: string) => {
     try {
-      const response = await fetch(`/api/people/${personId}/photo`, {
+      const response = await apiFetch(`/api/people/${personId}/photo`, {
         method: "DELETE",
       })
 
@@ -367,7 +386,7 @@ export default function AdminPeople() {
       const newPhotoUrl = url.toString()
 
       // Update the person's photo_url in the database
-      const response = await fetch(`/api/people/${personId}`, {
+      const response = await apiFetch(`/api/people/${personId}`, {
         method: "PUT",
         headers: {
           "Content-Type": "application/json",
@@ -418,7 +437,7 @@ export default function AdminPeople() {
     setArchivingItems((prev) => new Set(prev).add(person.id))
 
     try {
-      const response = await fetch(`/api/people/${person.id}`, {
+      const response = await apiFetch(`/api/people/${person.id}`, {
         method: "PUT",
         headers: {
           "Content-Type": "application/json",
@@ -453,7 +472,7 @@ export default function AdminPeople() {
     setArchivingItems((prev) => new Set(prev).add(person.id))
 
     try {
-      const response = await fetch(`/api/people/${person.id}`, {
+      const response = await apiFetch(`/api/people/${person.id}`, {
         method: "PUT",
         headers: {
           "Content-Type": "application/json",
@@ -487,29 +506,6 @@ export default function AdminPeople() {
     return parts.join(" ")
   }
 
-  useEffect(() => {
-    const fetchPeople = async () => {
-      try {
-        setLoading(true)
-        const response = await fetch("/api/people")
-        if (!response.ok) {
-          throw new Error(`Failed to fetch people: ${response.statusText}`)
-        }
-        const personApiResponse: PersonApiResponse = await response.json()
-        setPeople(personApiResponse.data as Person[])
-      } catch (err) {
-        setError(err instanceof Error ? err.message : "Failed to fetch people")
-        console.error("[v0] Error fetching people:", err)
-      } finally {
-        setLoading(false)
-      }
-    }
-
-    if (isAuthenticated) {
-      fetchPeople()
-    }
-  }, [isAuthenticated])
-
   if (isLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -528,7 +524,7 @@ export default function AdminPeople() {
     }
 
     try {
-      const response = await fetch(`/api/addresses/${addressId}`)
+      const response = await apiFetch(`/api/addresses/${addressId}`)
       if (!response.ok) {
         return null
       }
@@ -664,12 +660,23 @@ export default function AdminPeople() {
             <CardHeader>
               <div className="flex justify-between items-start">
                 <div>
-                  <CardTitle>People ({displayedPeople.length})</CardTitle>
+                  <CardTitle>People ({total.toLocaleString()})</CardTitle>
                   <CardDescription>Manage contacts, users, and their information</CardDescription>
                 </div>
-                <Button variant="outline" onClick={() => setShowArchived(!showArchived)} className="ml-4">
-                  {showArchived ? "Show Active" : "Show Archived"}
-                </Button>
+                <div className="flex items-center gap-4 ml-4">
+                  <div className="relative">
+                    <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+                    <Input
+                      placeholder="Search by name, email, or phone..."
+                      value={searchTerm}
+                      onChange={(e) => setSearchTerm(e.target.value)}
+                      className="pl-10 w-72"
+                    />
+                  </div>
+                  <Button variant="outline" onClick={() => setShowArchived(!showArchived)}>
+                    {showArchived ? "Show Active" : "Show Archived"}
+                  </Button>
+                </div>
               </div>
             </CardHeader>
             <CardContent>
@@ -678,11 +685,11 @@ export default function AdminPeople() {
                   <Loader2 className="w-8 h-8 text-blue-600 mx-auto mb-4 animate-spin" />
                   <p className="text-gray-600">Loading people...</p>
                 </div>
-              ) : error ? (
+              ) : error || loadError ? (
                 <div className="text-center py-12">
                   <Users className="w-16 h-16 text-red-400 mx-auto mb-4" />
                   <h3 className="text-lg font-semibold text-red-900 mb-2">Error Loading People</h3>
-                  <p className="text-red-600 mb-4">{error}</p>
+                  <p className="text-red-600 mb-4">{error || loadError}</p>
                   <Button
                     onClick={() => window.location.reload()}
                     variant="outline"
@@ -698,11 +705,13 @@ export default function AdminPeople() {
                     {showArchived ? "No Archived People" : "No People Found"}
                   </h3>
                   <p className="text-gray-600 mb-4">
-                    {showArchived
-                      ? "No people have been archived yet."
-                      : "Get started by adding your first person to the system."}
+                    {searchTerm
+                      ? "Try adjusting your search criteria."
+                      : showArchived
+                        ? "No people have been archived yet."
+                        : "Get started by adding your first person to the system."}
                   </p>
-                  {!showArchived && (
+                  {!showArchived && !searchTerm && (
                     <Button className="bg-blue-600 hover:bg-blue-700" onClick={createNewPerson}>
                       <Plus className="w-4 h-4 mr-2" />
                       Add First Person
@@ -1138,6 +1147,15 @@ export default function AdminPeople() {
                       )
                     })}
                   </div>
+                  <EmmaPagination
+                    className="mt-6"
+                    page={page}
+                    pageCount={pageCount}
+                    pageSize={pageSize}
+                    total={total}
+                    onPageChange={setPage}
+                    disabled={loading}
+                  />
                 </TooltipProvider>
               )}
             </CardContent>
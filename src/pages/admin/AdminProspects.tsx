@@ -6,7 +6,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
-import { Plus, Edit, Archive, Loader2, Eye, EyeOff, Save, X, UserPlus } from "lucide-react"
+import { Plus, Edit, Archive, Loader2, Eye, EyeOff, Save, X, UserPlus, MessageSquare, UserCheck, Snowflake } from "lucide-react"
 import {
   Dialog,
   DialogContent,
@@ -16,10 +16,25 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { EmmaPersonModal } from "../../components/emma/person-modal"
+import { EmmaAreaModal } from "../../components/emma/area-modal"
+import { EmmaAreaTag } from "../../components/emma/area-tag"
 import { EmmaTitleBar } from "../../components/emma/titlebar"
+import { EmmaPeopleDropdown } from "../../components/emma/people-dropdown"
+import { EmmaActivityTimeline } from "../../components/emma/activity-timeline"
+import {
+  EmmaProspectConversationDialog,
+  EmmaProspectConvertDialog,
+  EmmaProspectFunnelReport,
+  PROSPECT_STAGE_COLORS,
+  PROSPECT_STAGE_LABELS,
+} from "../../components/emma/prospect-funnel"
 import type { Prospect, Person } from "../../types/person"
+import type { Area } from "../../types/area"
+import type { ProspectStage } from "../../types/prospect-funnel"
 import { useState, useEffect } from "react"
+import { apiFetch } from "../../lib/api-client"
 
 interface ProspectApiResponse {
   data: Prospect | Prospect[]
@@ -53,8 +68,15 @@ export default function AdminProspects() {
   const [personModalOpen, setPersonModalOpen] = useState(false)
   const [currentPersonForModal, setCurrentPersonForModal] = useState<Person | null>(null)
   const [editingProspectForPerson, setEditingProspectForPerson] = useState<string | null>(null)
-
-  const filteredProspects = prospects.filter((prospect) => (showArchived ? !prospect.is_active : prospect.is_active))
+  const [editingProspectForArea, setEditingProspectForArea] = useState<string | null>(null)
+  const [showColdOnly, setShowColdOnly] = useState(false)
+  const [conversationProspect, setConversationProspect] = useState<Prospect | null>(null)
+  const [convertingProspect, setConvertingProspect] = useState<Prospect | null>(null)
+  const [refreshKey, setRefreshKey] = useState(0)
+
+  const filteredProspects = prospects.filter(
+    (prospect) => (showArchived ? !prospect.is_active : prospect.is_active) && (!showColdOnly || prospect.is_cold),
+  )
   const displayedProspects =
     creatingProspect && !showArchived ? [creatingProspect, ...filteredProspects] : filteredProspects
 
@@ -77,7 +99,12 @@ export default function AdminProspects() {
       [prospect.id]: {
         log_id: prospect.log_id,
         balked_events: prospect.balked_events,
+        area_id: prospect.area_id,
+        area: prospect.area,
         is_active: prospect.is_active,
+        stage: prospect.stage || "inquiry",
+        enroller_id: prospect.enroller_id ?? null,
+        referred_by_id: prospect.referred_by_id ?? null,
       },
     }))
   }
@@ -111,7 +138,12 @@ export default function AdminProspects() {
       [tempId]: {
         log_id: undefined,
         balked_events: [],
+        area_id: null,
+        area: null,
         is_active: true,
+        stage: "inquiry",
+        enroller_id: null,
+        referred_by_id: null,
       },
     }))
   }
@@ -162,14 +194,18 @@ export default function AdminProspects() {
       const cleanedData = {
         log_id: formData.log_id || null,
         balked_events: formData.balked_events || [],
+        area_id: formData.area_id || null,
         is_active: formData.is_active ?? true,
+        stage: formData.stage || "inquiry",
+        enroller_id: formData.enroller_id || null,
+        referred_by_id: formData.referred_by_id || null,
       }
 
       const body = isNewProspect ? cleanedData : { id, ...cleanedData }
 
       console.log("[v0] Submitting prospect data:", body)
 
-      const response = await fetch(url, {
+      const response = await apiFetch(url, {
         method,
         headers: {
           "Content-Type": "application/json",
@@ -234,7 +270,7 @@ export default function AdminProspects() {
     setArchivingItems((prev) => new Set(prev).add(prospect.id))
 
     try {
-      const response = await fetch(`/api/prospects/${prospect.id}`, {
+      const response = await apiFetch(`/api/prospects/${prospect.id}`, {
         method: "PUT",
         headers: {
           "Content-Type": "application/json",
@@ -269,7 +305,7 @@ export default function AdminProspects() {
     setArchivingItems((prev) => new Set(prev).add(prospect.id))
 
     try {
-      const response = await fetch(`/api/prospects/${prospect.id}`, {
+      const response = await apiFetch(`/api/prospects/${prospect.id}`, {
         method: "PUT",
         headers: {
           "Content-Type": "application/json",
@@ -339,6 +375,20 @@ export default function AdminProspects() {
     setEditingProspectForPerson(null)
   }
 
+  const handleAreaSelect = (area: Area | null) => {
+    if (editingProspectForArea) {
+      setEditFormData((prev) => ({
+        ...prev,
+        [editingProspectForArea]: {
+          ...prev[editingProspectForArea],
+          area_id: area?.id || null,
+          area,
+        },
+      }))
+    }
+    setEditingProspectForArea(null)
+  }
+
   const openPersonModal = (prospectId: string) => {
     const prospect = prospects.find((p) => p.id === prospectId) || creatingProspect
     setCurrentPersonForModal(prospect || null)
@@ -346,19 +396,33 @@ export default function AdminProspects() {
     setPersonModalOpen(true)
   }
 
+  // A conversation or a registration changes the prospect on the server; reload the list and report
+  const refreshProspect = async (id: string) => {
+    try {
+      const response = await apiFetch(`/api/prospects/${id}`)
+      if (response.ok) {
+        const prospectApiResponse: ProspectApiResponse = await response.json()
+        setProspects((prev) => prev.map((p) => (p.id === id ? (prospectApiResponse.data as Prospect) : p)))
+      }
+    } catch (err) {
+      console.error("[v0] Error refreshing prospect:", err)
+    }
+    setRefreshKey((key) => key + 1)
+  }
+
   useEffect(() => {
     const fetchData = async () => {
       try {
         setLoading(true)
 
-        const prospectsResponse = await fetch("/api/prospects")
+        const prospectsResponse = await apiFetch("/api/prospects")
         if (!prospectsResponse.ok) {
           throw new Error(`Failed to fetch prospects: ${prospectsResponse.statusText}`)
         }
         const prospectApiResponse: ProspectApiResponse = await prospectsResponse.json()
         setProspects(prospectApiResponse.data as Prospect[])
 
-        const peopleResponse = await fetch("/api/people?active=true")
+        const peopleResponse = await apiFetch("/api/people?active=true")
         if (!peopleResponse.ok) {
           throw new Error(`Failed to fetch people: ${peopleResponse.statusText}`)
         }
@@ -403,6 +467,8 @@ export default function AdminProspects() {
             </Button>
           </div>
 
+          <EmmaProspectFunnelReport refreshKey={refreshKey} />
+
           <Card>
             <CardHeader>
               <div className="flex justify-between items-start">
@@ -410,9 +476,18 @@ export default function AdminProspects() {
                   <CardTitle>Prospects ({displayedProspects.length})</CardTitle>
                   <CardDescription>Manage people interested in initiation</CardDescription>
                 </div>
-                <Button variant="outline" onClick={() => setShowArchived(!showArchived)} className="ml-4">
-                  {showArchived ? "Show Active" : "Show Archived"}
-                </Button>
+                <div className="flex items-center gap-2 ml-4">
+                  <Button
+                    variant={showColdOnly ? "default" : "outline"}
+                    onClick={() => setShowColdOnly(!showColdOnly)}
+                  >
+                    <Snowflake className="w-4 h-4 mr-2" />
+                    {showColdOnly ? "All Leads" : "Cold Leads"}
+                  </Button>
+                  <Button variant="outline" onClick={() => setShowArchived(!showArchived)}>
+                    {showArchived ? "Show Active" : "Show Archived"}
+                  </Button>
+                </div>
               </div>
             </CardHeader>
             <CardContent>
@@ -501,6 +576,62 @@ export default function AdminProspects() {
                                         className="text-sm"
                                       />
                                     </div>
+                                    <div>
+                                      <label className="text-sm font-medium text-gray-700 mb-1 block">Area</label>
+                                      <div className="flex items-center gap-2">
+                                        {formData.area ? (
+                                          <EmmaAreaTag area={formData.area} />
+                                        ) : (
+                                          <span className="text-sm text-gray-500">No area selected</span>
+                                        )}
+                                        <Button
+                                          type="button"
+                                          variant="outline"
+                                          size="sm"
+                                          onClick={() => setEditingProspectForArea(prospect.id)}
+                                        >
+                                          {formData.area ? "Change Area" : "Select Area"}
+                                        </Button>
+                                      </div>
+                                    </div>
+                                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                                      <div>
+                                        <label className="text-sm font-medium text-gray-700 mb-1 block">Stage</label>
+                                        <Select
+                                          value={formData.stage || "inquiry"}
+                                          onValueChange={(value) => updateFormData(prospect.id, "stage", value)}
+                                        >
+                                          <SelectTrigger>
+                                            <SelectValue />
+                                          </SelectTrigger>
+                                          <SelectContent>
+                                            {(Object.keys(PROSPECT_STAGE_LABELS) as ProspectStage[]).map((stage) => (
+                                              <SelectItem key={stage} value={stage}>
+                                                {PROSPECT_STAGE_LABELS[stage]}
+                                              </SelectItem>
+                                            ))}
+                                          </SelectContent>
+                                        </Select>
+                                      </div>
+                                      <div>
+                                        <label className="text-sm font-medium text-gray-700 mb-1 block">Enroller</label>
+                                        <EmmaPeopleDropdown
+                                          value={formData.enroller_id ?? null}
+                                          onValueChange={(value) => updateFormData(prospect.id, "enroller_id", value)}
+                                          placeholder="Who is enrolling them..."
+                                        />
+                                      </div>
+                                      <div>
+                                        <label className="text-sm font-medium text-gray-700 mb-1 block">
+                                          Referred By
+                                        </label>
+                                        <EmmaPeopleDropdown
+                                          value={formData.referred_by_id ?? null}
+                                          onValueChange={(value) => updateFormData(prospect.id, "referred_by_id", value)}
+                                          placeholder="Referring warrior..."
+                                        />
+                                      </div>
+                                    </div>
                                   </div>
                                 ) : (
                                   <>
@@ -516,6 +647,16 @@ export default function AdminProspects() {
                                       )}
                                     </div>
                                     <div className="flex items-center space-x-2 mt-1">
+                                      <Badge className={PROSPECT_STAGE_COLORS[prospect.stage || "inquiry"]}>
+                                        {PROSPECT_STAGE_LABELS[prospect.stage || "inquiry"]}
+                                      </Badge>
+                                      {prospect.is_cold && (
+                                        <Badge className="bg-sky-100 text-sky-800">
+                                          <Snowflake className="w-3 h-3 mr-1" />
+                                          Cold
+                                        </Badge>
+                                      )}
+                                      {prospect.area && <EmmaAreaTag area={prospect.area} />}
                                       <Badge variant={prospect.is_active ? "default" : "secondary"}>
                                         {prospect.is_active ? "Active" : "Inactive"}
                                       </Badge>
@@ -584,6 +725,41 @@ export default function AdminProspects() {
                                       <p>{isExpanded ? "Hide details" : "Show details"}</p>
                                     </TooltipContent>
                                   </Tooltip>
+                                  {prospect.is_active && (
+                                    <Tooltip>
+                                      <TooltipTrigger asChild>
+                                        <Button
+                                          variant="outline"
+                                          size="sm"
+                                          onClick={() => setConversationProspect(prospect)}
+                                          disabled={!prospect.log_id}
+                                          className="text-purple-600 hover:text-purple-700 hover:bg-purple-50"
+                                        >
+                                          <MessageSquare className="w-4 h-4" />
+                                        </Button>
+                                      </TooltipTrigger>
+                                      <TooltipContent>
+                                        <p>Record conversation</p>
+                                      </TooltipContent>
+                                    </Tooltip>
+                                  )}
+                                  {prospect.is_active && !prospect.registered_event_id && (
+                                    <Tooltip>
+                                      <TooltipTrigger asChild>
+                                        <Button
+                                          variant="outline"
+                                          size="sm"
+                                          onClick={() => setConvertingProspect(prospect)}
+                                          className="text-green-600 hover:text-green-700 hover:bg-green-50"
+                                        >
+                                          <UserCheck className="w-4 h-4" />
+                                        </Button>
+                                      </TooltipTrigger>
+                                      <TooltipContent>
+                                        <p>Register for an NWTA</p>
+                                      </TooltipContent>
+                                    </Tooltip>
+                                  )}
                                   <Tooltip>
                                     <TooltipTrigger asChild>
                                       <Button
@@ -686,6 +862,26 @@ export default function AdminProspects() {
                                           : "None"}
                                       </p>
                                     </div>
+                                    <div>
+                                      <label className="text-sm font-medium text-gray-700">Enroller</label>
+                                      <p className="text-sm text-gray-900">
+                                        {prospect.enroller_id ? getPersonName(prospect.enroller_id) : "Not assigned"}
+                                      </p>
+                                    </div>
+                                    <div>
+                                      <label className="text-sm font-medium text-gray-700">Referred By</label>
+                                      <p className="text-sm text-gray-900">
+                                        {prospect.referred_by_id ? getPersonName(prospect.referred_by_id) : "Unknown"}
+                                      </p>
+                                    </div>
+                                    <div>
+                                      <label className="text-sm font-medium text-gray-700">Last Contact</label>
+                                      <p className="text-sm text-gray-900">
+                                        {prospect.last_contact_at
+                                          ? new Date(prospect.last_contact_at).toLocaleString()
+                                          : "Never"}
+                                      </p>
+                                    </div>
                                     <div>
                                       <label className="text-sm font-medium text-gray-700">Created</label>
                                       <p className="text-sm text-gray-900">
@@ -700,6 +896,16 @@ export default function AdminProspects() {
                                     </div>
                                   </div>
                                 </div>
+                                {prospect.log_id && (
+                                  <div className="mt-4">
+                                    <EmmaActivityTimeline
+                                      logId={prospect.log_id}
+                                      title="Enrollment History"
+                                      color="#16a34a"
+                                      refreshKey={refreshKey}
+                                    />
+                                  </div>
+                                )}
                               </div>
                             </div>
                           )}
@@ -749,6 +955,24 @@ export default function AdminProspects() {
         </DialogContent>
       </Dialog>
 
+      <EmmaProspectConversationDialog
+        prospect={conversationProspect}
+        onClose={() => setConversationProspect(null)}
+        onRecorded={() => {
+          if (conversationProspect) refreshProspect(conversationProspect.id)
+          setConversationProspect(null)
+        }}
+      />
+
+      <EmmaProspectConvertDialog
+        prospect={convertingProspect}
+        onClose={() => setConvertingProspect(null)}
+        onConverted={() => {
+          if (convertingProspect) refreshProspect(convertingProspect.id)
+          setConvertingProspect(null)
+        }}
+      />
+
       <EmmaPersonModal
         isOpen={personModalOpen}
         onClose={() => {
@@ -760,6 +984,14 @@ export default function AdminProspects() {
         currentPerson={currentPersonForModal}
         title="Manage Prospect Person"
       />
+
+      <EmmaAreaModal
+        isOpen={editingProspectForArea !== null}
+        onClose={() => setEditingProspectForArea(null)}
+        onAreaSelect={handleAreaSelect}
+        selectedAreaId={editingProspectForArea ? editFormData[editingProspectForArea]?.area_id : undefined}
+        title="Select Prospect Area"
+      />
     </div>
   )
 }
@@ -12,9 +12,12 @@ import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/comp
 import { EmmaTitleBar } from "../../components/emma/titlebar"
 import { EmmaPersonDisplay } from "../../components/emma/person-display"
 import { EmmaAreaTag } from "../../components/emma/area-tag"
+import { EmmaBalanceBadge, EmmaRegistrantPaymentPlan } from "../../components/emma/registrant-payment-plan"
 import type { EventWithRelations } from "../../types/event"
 import type { Registrant } from "../../types/person"
+import type { RegistrantBalance } from "../../types/payment-plan"
 import { useState, useEffect } from "react"
+import { apiFetch } from "../../lib/api-client"
 
 interface RegistrantWithDetails extends Registrant<EventWithRelations> {
   position?: number // for ordered lists (potential and waitlist)
@@ -29,6 +32,7 @@ export default function AdminRegistrants() {
   const [searchTerm, setSearchTerm] = useState("")
   const [statusFilter, setStatusFilter] = useState<string>("all")
   const [eventFilter, setEventFilter] = useState<string>("all")
+  const [paymentFilter, setPaymentFilter] = useState<string>("all")
   const [expandedItems, setExpandedItems] = useState<Set<string>>(new Set())
 
   const filteredRegistrants = registrants.filter((registrant) => {
@@ -39,8 +43,9 @@ export default function AdminRegistrants() {
 
     const matchesStatus = statusFilter === "all" || registrant.status === statusFilter
     const matchesEvent = eventFilter === "all" || registrant?.event?.id === eventFilter
+    const matchesPayment = paymentFilter === "all" || registrant.balance?.status === paymentFilter
 
-    return matchesSearch && matchesStatus && matchesEvent
+    return matchesSearch && matchesStatus && matchesEvent && matchesPayment
   })
 
   const registrantStats = {
@@ -61,8 +66,8 @@ export default function AdminRegistrants() {
       setLoading(true)
 
       const [eventsResponse, registrantsResponse] = await Promise.all([
-        fetch("/api/events?active=true"),
-        fetch("/api/registrants?active=true"),
+        apiFetch("/api/events?active=true&managed=true"),
+        apiFetch("/api/registrants?active=true"),
       ])
 
       if (!eventsResponse.ok || !registrantsResponse.ok) {
@@ -112,6 +117,10 @@ export default function AdminRegistrants() {
     }
   }
 
+  const updateBalance = (id: string, balance: RegistrantBalance) => {
+    setRegistrants((prev) => prev.map((registrant) => (registrant.id === id ? { ...registrant, balance } : registrant)))
+  }
+
   const toggleExpanded = (id: string) => {
     setExpandedItems((prev) => {
       const newSet = new Set(prev)
@@ -269,6 +278,18 @@ export default function AdminRegistrants() {
                     ))}
                   </SelectContent>
                 </Select>
+                <Select value={paymentFilter} onValueChange={setPaymentFilter}>
+                  <SelectTrigger className="w-full md:w-48">
+                    <SelectValue placeholder="Filter by payment" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Payments</SelectItem>
+                    <SelectItem value="overdue">Overdue</SelectItem>
+                    <SelectItem value="on_track">On Track</SelectItem>
+                    <SelectItem value="paid_in_full">Paid in Full</SelectItem>
+                    <SelectItem value="no_plan">No Plan</SelectItem>
+                  </SelectContent>
+                </Select>
               </div>
             </CardContent>
           </Card>
@@ -302,7 +323,7 @@ export default function AdminRegistrants() {
                   <Users className="w-16 h-16 text-gray-400 mx-auto mb-4" />
                   <h3 className="text-lg font-semibold text-gray-900 mb-2">No Registrants Found</h3>
                   <p className="text-gray-600 mb-4">
-                    {searchTerm || statusFilter !== "all" || eventFilter !== "all"
+                    {searchTerm || statusFilter !== "all" || eventFilter !== "all" || paymentFilter !== "all"
                       ? "No registrants match your current filters."
                       : "No event registrations found in the system."}
                   </p>
@@ -328,6 +349,7 @@ export default function AdminRegistrants() {
                                       #{registrant.position}
                                     </Badge>
                                   )}
+                                  <EmmaBalanceBadge balance={registrant.balance} />
                                 </div>
                                 <div className="flex items-center gap-2">
                                   <span className="text-sm font-medium text-gray-900">
@@ -404,6 +426,12 @@ export default function AdminRegistrants() {
                                   </div>
                                 </div>
                               </div>
+                              <div className="mt-4 pt-4 border-t">
+                                <EmmaRegistrantPaymentPlan
+                                  registrantId={registrant.id}
+                                  onChange={(balance) => updateBalance(registrant.id, balance)}
+                                />
+                              </div>
                             </div>
                           )}
                         </div>
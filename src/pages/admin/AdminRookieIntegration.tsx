@@ -0,0 +1,489 @@
+"use client"
+
+import { useAuth0 } from "../../lib/auth0-provider"
+import { Navigate } from "react-router-dom"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Switch } from "@/components/ui/switch"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { AlertTriangle, Loader2, MapPin, Search } from "lucide-react"
+import { EmmaTitleBar } from "../../components/emma/titlebar"
+import { EmmaPersonDisplay } from "../../components/emma/person-display"
+import { EmmaPeopleDropdown } from "../../components/emma/people-dropdown"
+import type {
+  IGroupSuggestion,
+  IntegrationStage,
+  RookieIntegration,
+  RookieIntegrationWithProgress,
+} from "../../types/rookie-integration"
+import { useState, useEffect } from "react"
+import { apiFetch } from "../../lib/api-client"
+
+const STAGES: Array<{ value: IntegrationStage; label: string }> = [
+  { value: "initiated", label: "Initiated" },
+  { value: "contacted", label: "Contacted" },
+  { value: "attended", label: "Attended an I-Group" },
+  { value: "joined", label: "Joined an I-Group" },
+  { value: "completed", label: "Integration Complete" },
+]
+
+const stageLabel = (stage: IntegrationStage) => STAGES.find((option) => option.value === stage)?.label || stage
+
+type IntegrationForm = Pick<
+  RookieIntegration,
+  | "owner_id"
+  | "contacted_on"
+  | "attended_on"
+  | "attended_i_group_id"
+  | "joined_on"
+  | "joined_i_group_id"
+  | "completed_on"
+  | "notes"
+>
+
+interface IGroupOption {
+  id: string
+  name: string
+}
+
+export default function AdminRookieIntegration() {
+  const { isAuthenticated, isLoading } = useAuth0()
+  const [integrations, setIntegrations] = useState<RookieIntegrationWithProgress[]>([])
+  const [iGroups, setIGroups] = useState<IGroupOption[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const [stageFilter, setStageFilter] = useState<IntegrationStage | "all">("all")
+  const [attentionOnly, setAttentionOnly] = useState(false)
+  const [searchTerm, setSearchTerm] = useState("")
+
+  const [editing, setEditing] = useState<RookieIntegrationWithProgress | null>(null)
+  const [suggestions, setSuggestions] = useState<IGroupSuggestion[] | null>(null)
+  const [formData, setFormData] = useState<IntegrationForm | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [formError, setFormError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      fetchData()
+    }
+  }, [isAuthenticated])
+
+  const fetchData = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const [integrationsResponse, iGroupsResponse] = await Promise.all([
+        apiFetch("/api/rookie-integrations"),
+        apiFetch("/api/i-groups?active=true&managed=true"),
+      ])
+
+      if (!integrationsResponse.ok) {
+        throw new Error("Failed to fetch rookie integrations")
+      }
+
+      const [integrationsData, iGroupsData] = await Promise.all([
+        integrationsResponse.json(),
+        iGroupsResponse.ok ? iGroupsResponse.json() : { data: [] },
+      ])
+
+      setIntegrations(integrationsData.data || [])
+      setIGroups((iGroupsData.data || []).map((group: IGroupOption) => ({ id: group.id, name: group.name })))
+    } catch (err) {
+      console.error("[v0] Error fetching rookie integrations:", err)
+      setError(err instanceof Error ? err.message : "Failed to fetch rookie integrations")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const openIntegration = async (integration: RookieIntegrationWithProgress) => {
+    setEditing(integration)
+    setFormData({
+      owner_id: integration.owner_id,
+      contacted_on: integration.contacted_on,
+      attended_on: integration.attended_on,
+      attended_i_group_id: integration.attended_i_group_id,
+      joined_on: integration.joined_on,
+      joined_i_group_id: integration.joined_i_group_id,
+      completed_on: integration.completed_on,
+      notes: integration.notes,
+    })
+    setSuggestions(null)
+    setFormError(null)
+
+    try {
+      const response = await apiFetch(`/api/rookie-integrations/${integration.id}`)
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || "Failed to fetch I-Group suggestions")
+      }
+      setSuggestions(result.data.suggestions || [])
+    } catch (err) {
+      console.error("[v0] Error fetching I-Group suggestions:", err)
+      setSuggestions([])
+    }
+  }
+
+  const saveIntegration = async () => {
+    if (!editing || !formData) return
+
+    try {
+      setSaving(true)
+      setFormError(null)
+
+      const response = await apiFetch(`/api/rookie-integrations/${editing.id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...formData, notes: formData.notes || null }),
+      })
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || "Failed to save integration")
+      }
+
+      setIntegrations((prev) => prev.map((item) => (item.id === editing.id ? result.data : item)))
+      setEditing(null)
+    } catch (err) {
+      console.error("[v0] Error saving rookie integration:", err)
+      setFormError(err instanceof Error ? err.message : "Failed to save integration")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const setField = <K extends keyof IntegrationForm>(field: K, value: IntegrationForm[K]) => {
+    setFormData((prev) => (prev ? { ...prev, [field]: value } : prev))
+  }
+
+  const groupName = (id: string | null) => (id ? iGroups.find((group) => group.id === id)?.name || "Another I-Group" : null)
+
+  const filteredIntegrations = integrations.filter((integration) => {
+    const name = `${integration.warrior?.first_name} ${integration.warrior?.last_name}`.toLowerCase()
+    return (
+      (stageFilter === "all" || integration.stage === stageFilter) &&
+      (!attentionOnly || integration.flags.length > 0) &&
+      (!searchTerm || name.includes(searchTerm.toLowerCase()))
+    )
+  })
+  const needsAttention = integrations.filter((integration) => integration.flags.length > 0).length
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-lg">Loading...</div>
+      </div>
+    )
+  }
+
+  if (!isAuthenticated) {
+    return <Navigate to="/" replace />
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background to-muted">
+      <EmmaTitleBar title="Rookie Integration" backLink={{ href: "/admin", label: "Back to Admin" }} />
+
+      <div className="p-6 pt-20">
+        <div className="max-w-6xl mx-auto space-y-6">
+          {error && (
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm text-destructive">{error}</p>
+              </CardContent>
+            </Card>
+          )}
+
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            {STAGES.map((option) => (
+              <Card
+                key={option.value}
+                className={`cursor-pointer ${stageFilter === option.value ? "ring-2 ring-blue-500" : ""}`}
+                onClick={() => setStageFilter(stageFilter === option.value ? "all" : option.value)}
+              >
+                <CardContent className="pt-6">
+                  <p className="text-2xl font-bold">
+                    {integrations.filter((integration) => integration.stage === option.value).length}
+                  </p>
+                  <p className="text-sm text-muted-foreground">{option.label}</p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>New Warriors</CardTitle>
+              <CardDescription>
+                Rookies from recent NWTAs on their way into an I-Group. {needsAttention} need attention: they have no
+                owner or haven't moved on in over a month.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-wrap items-center gap-4">
+                <div className="relative flex-1 min-w-[200px]">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+                  <Input
+                    placeholder="Search by name..."
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                    className="pl-10"
+                  />
+                </div>
+                <Select value={stageFilter} onValueChange={(value) => setStageFilter(value as IntegrationStage | "all")}>
+                  <SelectTrigger className="w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All stages</SelectItem>
+                    {STAGES.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <div className="flex items-center gap-2">
+                  <Switch id="attention_only" checked={attentionOnly} onCheckedChange={setAttentionOnly} />
+                  <Label htmlFor="attention_only">Needs attention only</Label>
+                </div>
+              </div>
+
+              {loading ? (
+                <div className="text-center py-8">
+                  <Loader2 className="w-6 h-6 animate-spin text-blue-600 mx-auto" />
+                </div>
+              ) : filteredIntegrations.length === 0 ? (
+                <p className="text-sm text-gray-500 text-center py-8">No new warriors match these filters</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Warrior</TableHead>
+                      <TableHead>Stage</TableHead>
+                      <TableHead>Owner</TableHead>
+                      <TableHead className="text-right">Days in Stage</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filteredIntegrations.map((integration) => (
+                      <TableRow key={integration.id}>
+                        <TableCell>
+                          <div className="font-medium">
+                            {integration.warrior?.first_name} {integration.warrior?.last_name}
+                          </div>
+                          {integration.nwta_event && (
+                            <div className="text-xs text-gray-500">{integration.nwta_event.name}</div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap items-center gap-1">
+                            <Badge variant="outline">{stageLabel(integration.stage)}</Badge>
+                            {integration.flags.includes("stalled") && (
+                              <Badge className="bg-amber-100 text-amber-800 border-amber-300">
+                                <AlertTriangle className="w-3 h-3 mr-1" />
+                                Stalled
+                              </Badge>
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          {integration.owner_id ? (
+                            <EmmaPersonDisplay personId={integration.owner_id} />
+                          ) : (
+                            <Badge className="bg-red-100 text-red-800 border-red-300">No owner</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">{integration.days_in_stage}</TableCell>
+                        <TableCell className="text-right">
+                          <Button variant="outline" size="sm" onClick={() => openIntegration(integration)}>
+                            Update
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {editing?.warrior?.first_name} {editing?.warrior?.last_name}
+            </DialogTitle>
+            <DialogDescription>
+              Record the date each step was reached. {editing?.warrior?.email || editing?.warrior?.phone || ""}
+            </DialogDescription>
+          </DialogHeader>
+
+          {formData && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>Owner</Label>
+                <EmmaPeopleDropdown
+                  value={formData.owner_id}
+                  onValueChange={(value) => setField("owner_id", value)}
+                  placeholder="Who is following up..."
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label className="flex items-center gap-2">
+                  <MapPin className="w-4 h-4" />
+                  Suggested I-Groups
+                </Label>
+                {suggestions === null ? (
+                  <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+                ) : suggestions.length === 0 ? (
+                  <p className="text-sm text-gray-500 italic">No nearby I-Groups are accepting initiated visitors</p>
+                ) : (
+                  <div className="space-y-2">
+                    {suggestions.map((suggestion) => (
+                      <div key={suggestion.id} className="flex items-center justify-between gap-2 border rounded p-2">
+                        <div className="text-sm">
+                          <div className="font-medium">{suggestion.name}</div>
+                          <div className="text-xs text-gray-500">
+                            {suggestion.distance_miles !== null ? `${suggestion.distance_miles} mi` : "In their community"}
+                            {suggestion.schedule_description && ` · ${suggestion.schedule_description}`}
+                            {suggestion.is_requiring_contact_before_visiting && " · Contact before visiting"}
+                          </div>
+                        </div>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setField("attended_i_group_id", suggestion.id)}
+                          disabled={formData.attended_i_group_id === suggestion.id}
+                        >
+                          Visited
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="contacted_on">Contacted</Label>
+                  <Input
+                    id="contacted_on"
+                    type="date"
+                    value={formData.contacted_on || ""}
+                    onChange={(e) => setField("contacted_on", e.target.value || null)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="completed_on">Completed Integration Training</Label>
+                  <Input
+                    id="completed_on"
+                    type="date"
+                    value={formData.completed_on || ""}
+                    onChange={(e) => setField("completed_on", e.target.value || null)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="attended_on">Attended an Open I-Group</Label>
+                  <Input
+                    id="attended_on"
+                    type="date"
+                    value={formData.attended_on || ""}
+                    onChange={(e) => setField("attended_on", e.target.value || null)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Attended</Label>
+                  <Select
+                    value={formData.attended_i_group_id || "none"}
+                    onValueChange={(value) => setField("attended_i_group_id", value === "none" ? null : value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue>{groupName(formData.attended_i_group_id) || "Not recorded"}</SelectValue>
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Not recorded</SelectItem>
+                      {iGroups.map((group) => (
+                        <SelectItem key={group.id} value={group.id}>
+                          {group.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="joined_on">Joined an I-Group</Label>
+                  <Input
+                    id="joined_on"
+                    type="date"
+                    value={formData.joined_on || ""}
+                    onChange={(e) => setField("joined_on", e.target.value || null)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Joined</Label>
+                  <Select
+                    value={formData.joined_i_group_id || "none"}
+                    onValueChange={(value) => setField("joined_i_group_id", value === "none" ? null : value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue>{groupName(formData.joined_i_group_id) || "Not recorded"}</SelectValue>
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Not recorded</SelectItem>
+                      {iGroups.map((group) => (
+                        <SelectItem key={group.id} value={group.id}>
+                          {group.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="integration_notes">Notes</Label>
+                <Textarea
+                  id="integration_notes"
+                  value={formData.notes || ""}
+                  onChange={(e) => setField("notes", e.target.value)}
+                  rows={3}
+                />
+              </div>
+
+              {formError && <p className="text-sm text-destructive">{formError}</p>}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button onClick={saveIntegration} disabled={saving}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
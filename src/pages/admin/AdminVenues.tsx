@@ -26,7 +26,9 @@ import { VenueMap, type VenueMapRef } from "../../components/emma/venue-map"
 import type { Area } from "../../types/area"
 import type { Person } from "../../types/person"
 import { EmmaAreaTag } from "../../components/emma/area-tag"
+import { EmmaVenueCalendar } from "../../components/emma/venue-calendar"
 import { useState, useEffect, useRef } from "react"
+import { apiFetch } from "../../lib/api-client"
 
 interface Venue {
   id: string
@@ -384,7 +386,7 @@ export default function AdminVenues() {
 
       console.log("[v0] Submitting venue data:", body)
 
-      const response = await fetch(url, {
+      const response = await apiFetch(url, {
         method,
         headers: {
           "Content-Type": "application/json",
@@ -446,7 +448,7 @@ export default function AdminVenues() {
     setArchivingItems((prev) => new Set(prev).add(venue.id))
 
     try {
-      const response = await fetch(`/api/venues/${venue.id}`, {
+      const response = await apiFetch(`/api/venues/${venue.id}`, {
         method: "PUT",
         headers: {
           "Content-Type": "application/json",
@@ -481,7 +483,7 @@ export default function AdminVenues() {
     setArchivingItems((prev) => new Set(prev).add(venue.id))
 
     try {
-      const response = await fetch(`/api/venues/${venue.id}`, {
+      const response = await apiFetch(`/api/venues/${venue.id}`, {
         method: "PUT",
         headers: {
           "Content-Type": "application/json",
@@ -678,7 +680,7 @@ export default function AdminVenues() {
         setLoading(true)
 
         // Fetch venues
-        const venuesResponse = await fetch("/api/venues")
+        const venuesResponse = await apiFetch("/api/venues?managed=true")
         if (!venuesResponse.ok) {
           throw new Error(`Failed to fetch venues: ${venuesResponse.statusText}`)
         }
@@ -686,7 +688,7 @@ export default function AdminVenues() {
         setVenues(venuesApiResponse.data as Venue[])
 
         // Fetch people for dropdowns
-        const peopleResponse = await fetch("/api/people")
+        const peopleResponse = await apiFetch("/api/people")
         if (!peopleResponse.ok) {
           throw new Error(`Failed to fetch people: ${peopleResponse.statusText}`)
         }
@@ -694,7 +696,7 @@ export default function AdminVenues() {
         setPeople(peopleApiResponse.data as Person[])
 
         // Fetch event types
-        const eventTypesResponse = await fetch("/api/event-types")
+        const eventTypesResponse = await apiFetch("/api/event-types")
         if (!eventTypesResponse.ok) {
           throw new Error(`Failed to fetch event types: ${eventTypesResponse.statusText}`)
         }
@@ -708,14 +710,14 @@ export default function AdminVenues() {
         })
         setEventTypesCache(cache)
 
-        const areasResponse = await fetch("/api/areas")
+        const areasResponse = await apiFetch("/api/areas")
         if (!areasResponse.ok) {
           throw new Error(`Failed to fetch areas: ${areasResponse.statusText}`)
         }
         const areasApiResponse: AreaApiResponse = await areasResponse.json()
         setAreas(areasApiResponse.data as Area[])
 
-        const communitiesResponse = await fetch("/api/communities")
+        const communitiesResponse = await apiFetch("/api/communities")
         if (!communitiesResponse.ok) {
           throw new Error(`Failed to fetch communities: ${communitiesResponse.statusText}`)
         }
@@ -1462,6 +1464,8 @@ export default function AdminVenues() {
                                       )}
                                     </div>
                                   )}
+
+                                  <EmmaVenueCalendar venueId={venue.id} timezone={venue.timezone} />
                                 </div>
                               )}
                             </div>
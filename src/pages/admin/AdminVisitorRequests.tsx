@@ -0,0 +1,606 @@
+"use client"
+
+import { useAuth0 } from "../../lib/auth0-provider"
+import { Navigate } from "react-router-dom"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Switch } from "@/components/ui/switch"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { AlertTriangle, Loader2, Mail, Phone, Plus, Search } from "lucide-react"
+import { EmmaTitleBar } from "../../components/emma/titlebar"
+import { EmmaPersonDisplay } from "../../components/emma/person-display"
+import { EmmaPeopleDropdown } from "../../components/emma/people-dropdown"
+import {
+  EmmaVisitorReport,
+  VISITOR_STATUS_COLORS,
+  VISITOR_STATUS_LABELS,
+} from "../../components/emma/visitor-request"
+import type { VisitorRequest, VisitorRequestStatus, VisitorRequestWithGroup } from "../../types/visitor-request"
+import { useState, useEffect } from "react"
+import { apiFetch } from "../../lib/api-client"
+
+const STATUSES = Object.keys(VISITOR_STATUS_LABELS) as VisitorRequestStatus[]
+
+type ResponseForm = Pick<VisitorRequest, "status" | "response_note" | "attended_on" | "person_id" | "routed_to_id">
+
+const EMPTY_GUEST = {
+  i_group_id: "",
+  person_id: null as string | null,
+  first_name: "",
+  last_name: "",
+  email: "",
+  phone: "",
+  is_initiated: true,
+  attended_on: new Date().toISOString().slice(0, 10),
+  response_note: "",
+}
+
+interface IGroupOption {
+  id: string
+  name: string
+}
+
+export default function AdminVisitorRequests() {
+  const { isAuthenticated, isLoading } = useAuth0()
+  const [requests, setRequests] = useState<VisitorRequestWithGroup[]>([])
+  const [iGroups, setIGroups] = useState<IGroupOption[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [refreshKey, setRefreshKey] = useState(0)
+
+  const [statusFilter, setStatusFilter] = useState<VisitorRequestStatus | "all">("pending")
+  const [overdueOnly, setOverdueOnly] = useState(false)
+  const [searchTerm, setSearchTerm] = useState("")
+
+  const [editing, setEditing] = useState<VisitorRequestWithGroup | null>(null)
+  const [formData, setFormData] = useState<ResponseForm | null>(null)
+  const [guest, setGuest] = useState<typeof EMPTY_GUEST | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [formError, setFormError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      fetchData()
+    }
+  }, [isAuthenticated])
+
+  const fetchData = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const [requestsResponse, iGroupsResponse] = await Promise.all([
+        apiFetch("/api/visitor-requests"),
+        apiFetch("/api/i-groups?active=true&managed=true"),
+      ])
+
+      if (!requestsResponse.ok) {
+        throw new Error("Failed to fetch visitor requests")
+      }
+
+      const [requestsData, iGroupsData] = await Promise.all([
+        requestsResponse.json(),
+        iGroupsResponse.ok ? iGroupsResponse.json() : { data: [] },
+      ])
+
+      const loaded: VisitorRequestWithGroup[] = requestsData.data || []
+      const options = new Map<string, string>()
+      for (const group of iGroupsData.data || []) options.set(group.id, group.name)
+      // Group contacts who aren't admins can still record guests for the groups their requests are for
+      for (const request of loaded) if (request.i_group) options.set(request.i_group.id, request.i_group.name)
+
+      setRequests(loaded)
+      setIGroups([...options].map(([id, name]) => ({ id, name })).sort((a, b) => a.name.localeCompare(b.name)))
+    } catch (err) {
+      console.error("[v0] Error fetching visitor requests:", err)
+      setError(err instanceof Error ? err.message : "Failed to fetch visitor requests")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const openRequest = (request: VisitorRequestWithGroup) => {
+    setEditing(request)
+    setFormData({
+      status: request.status,
+      response_note: request.response_note,
+      attended_on: request.attended_on,
+      person_id: request.person_id,
+      routed_to_id: request.routed_to_id,
+    })
+    setFormError(null)
+  }
+
+  const saveRequest = async () => {
+    if (!editing || !formData) return
+
+    try {
+      setSaving(true)
+      setFormError(null)
+
+      const response = await apiFetch(`/api/visitor-requests/${editing.id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...formData,
+          response_note: formData.response_note || null,
+          attended_on: formData.status === "attended" ? formData.attended_on || undefined : null,
+        }),
+      })
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        throw new Error(result.details?.[0]?.message || result.error || "Failed to save visitor request")
+      }
+
+      setRequests((prev) => prev.map((item) => (item.id === editing.id ? result.data : item)))
+      setEditing(null)
+      setRefreshKey((key) => key + 1)
+    } catch (err) {
+      console.error("[v0] Error saving visitor request:", err)
+      setFormError(err instanceof Error ? err.message : "Failed to save visitor request")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const saveGuest = async () => {
+    if (!guest) return
+
+    try {
+      setSaving(true)
+      setFormError(null)
+
+      const { i_group_id, ...fields } = guest
+      const response = await apiFetch(`/api/i-groups/${i_group_id}/guests`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...fields,
+          email: fields.email || null,
+          phone: fields.phone || null,
+          response_note: fields.response_note || null,
+        }),
+      })
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        throw new Error(result.details?.[0]?.message || result.error || "Failed to record guest")
+      }
+
+      setRequests((prev) => [result.data, ...prev])
+      setGuest(null)
+      setRefreshKey((key) => key + 1)
+    } catch (err) {
+      console.error("[v0] Error recording guest:", err)
+      setFormError(err instanceof Error ? err.message : "Failed to record guest")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const setField = <K extends keyof ResponseForm>(field: K, value: ResponseForm[K]) => {
+    setFormData((prev) => (prev ? { ...prev, [field]: value } : prev))
+  }
+
+  const setGuestField = <K extends keyof typeof EMPTY_GUEST>(field: K, value: (typeof EMPTY_GUEST)[K]) => {
+    setGuest((prev) => (prev ? { ...prev, [field]: value } : prev))
+  }
+
+  const filteredRequests = requests.filter((request) => {
+    const name = `${request.first_name} ${request.last_name} ${request.i_group?.name || ""}`.toLowerCase()
+    return (
+      (statusFilter === "all" || request.status === statusFilter) &&
+      (!overdueOnly || request.is_overdue) &&
+      (!searchTerm || name.includes(searchTerm.toLowerCase()))
+    )
+  })
+  const overdue = requests.filter((request) => request.is_overdue).length
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-lg">Loading...</div>
+      </div>
+    )
+  }
+
+  if (!isAuthenticated) {
+    return <Navigate to="/" replace />
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background to-muted">
+      <EmmaTitleBar title="Visitor Requests" backLink={{ href: "/admin", label: "Back to Admin" }} />
+
+      <div className="p-6 pt-20">
+        <div className="max-w-6xl mx-auto space-y-6">
+          {error && (
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm text-destructive">{error}</p>
+              </CardContent>
+            </Card>
+          )}
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {STATUSES.map((status) => (
+              <Card
+                key={status}
+                className={`cursor-pointer ${statusFilter === status ? "ring-2 ring-blue-500" : ""}`}
+                onClick={() => setStatusFilter(statusFilter === status ? "all" : status)}
+              >
+                <CardContent className="pt-6">
+                  <p className="text-2xl font-bold">{requests.filter((request) => request.status === status).length}</p>
+                  <p className="text-sm text-muted-foreground">{VISITOR_STATUS_LABELS[status]}</p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <Card>
+            <CardHeader>
+              <div className="flex justify-between items-start gap-4">
+                <div>
+                  <CardTitle>Visitors</CardTitle>
+                  <CardDescription>
+                    People who asked to visit the groups you look after, and guests your groups recorded. {overdue}{" "}
+                    {overdue === 1 ? "request is" : "requests are"} waiting past the escalation period.
+                  </CardDescription>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={iGroups.length === 0}
+                  onClick={() => {
+                    setGuest({ ...EMPTY_GUEST, i_group_id: iGroups[0]?.id || "" })
+                    setFormError(null)
+                  }}
+                >
+                  <Plus className="w-4 h-4 mr-2" />
+                  Record Guest
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-wrap items-center gap-4">
+                <div className="relative flex-1 min-w-[200px]">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+                  <Input
+                    placeholder="Search by visitor or group..."
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                    className="pl-10"
+                  />
+                </div>
+                <Select
+                  value={statusFilter}
+                  onValueChange={(value) => setStatusFilter(value as VisitorRequestStatus | "all")}
+                >
+                  <SelectTrigger className="w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All statuses</SelectItem>
+                    {STATUSES.map((status) => (
+                      <SelectItem key={status} value={status}>
+                        {VISITOR_STATUS_LABELS[status]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <div className="flex items-center gap-2">
+                  <Switch id="overdue_only" checked={overdueOnly} onCheckedChange={setOverdueOnly} />
+                  <Label htmlFor="overdue_only">Overdue only</Label>
+                </div>
+              </div>
+
+              {loading ? (
+                <div className="text-center py-8">
+                  <Loader2 className="w-6 h-6 animate-spin text-blue-600 mx-auto" />
+                </div>
+              ) : filteredRequests.length === 0 ? (
+                <p className="text-sm text-gray-500 text-center py-8">No visitors match these filters</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Visitor</TableHead>
+                      <TableHead>I-Group</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Routed To</TableHead>
+                      <TableHead className="text-right">Days Waiting</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filteredRequests.map((request) => (
+                      <TableRow key={request.id}>
+                        <TableCell>
+                          <div className="font-medium">
+                            {request.first_name} {request.last_name}
+                          </div>
+                          <div className="text-xs text-gray-500">
+                            {request.is_initiated ? "Initiated" : "Not yet initiated"}
+                            {request.preferred_date && ` · hoping for ${request.preferred_date}`}
+                          </div>
+                        </TableCell>
+                        <TableCell>{request.i_group?.name || "—"}</TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap items-center gap-1">
+                            <Badge className={VISITOR_STATUS_COLORS[request.status]}>
+                              {VISITOR_STATUS_LABELS[request.status]}
+                            </Badge>
+                            {request.source === "guest" && <Badge variant="outline">Guest</Badge>}
+                            {request.is_member && (
+                              <Badge className="bg-emerald-100 text-emerald-800 border-emerald-300">Joined</Badge>
+                            )}
+                            {request.is_overdue && (
+                              <Badge className="bg-red-100 text-red-800 border-red-300">
+                                <AlertTriangle className="w-3 h-3 mr-1" />
+                                {request.escalated_at ? "Escalated" : "Overdue"}
+                              </Badge>
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          {request.routed_to_id ? (
+                            <EmmaPersonDisplay personId={request.routed_to_id} />
+                          ) : (
+                            <span className="text-sm text-gray-500">{request.routed_to_email || "No contact"}</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">{request.days_waiting ?? "—"}</TableCell>
+                        <TableCell className="text-right">
+                          <Button variant="outline" size="sm" onClick={() => openRequest(request)}>
+                            Respond
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          <EmmaVisitorReport refreshKey={refreshKey} />
+        </div>
+      </div>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {editing?.first_name} {editing?.last_name}
+            </DialogTitle>
+            <DialogDescription>
+              Asked to visit {editing?.i_group?.name || "the group"}
+              {editing?.created_at && ` on ${editing.created_at.slice(0, 10)}`}.
+            </DialogDescription>
+          </DialogHeader>
+
+          {editing && formData && (
+            <div className="space-y-4">
+              <div className="flex flex-wrap gap-4 text-sm">
+                {editing.email && (
+                  <a href={`mailto:${editing.email}`} className="flex items-center gap-1 text-blue-600 hover:underline">
+                    <Mail className="w-4 h-4" />
+                    {editing.email}
+                  </a>
+                )}
+                {editing.phone && (
+                  <a href={`tel:${editing.phone}`} className="flex items-center gap-1 text-blue-600 hover:underline">
+                    <Phone className="w-4 h-4" />
+                    {editing.phone}
+                  </a>
+                )}
+              </div>
+              {editing.message && <p className="text-sm whitespace-pre-wrap border rounded p-3">{editing.message}</p>}
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Status</Label>
+                  <Select
+                    value={formData.status}
+                    onValueChange={(value) => setField("status", value as VisitorRequestStatus)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {STATUSES.map((status) => (
+                        <SelectItem key={status} value={status}>
+                          {VISITOR_STATUS_LABELS[status]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {formData.status === "attended" && (
+                  <div className="space-y-2">
+                    <Label htmlFor="attended_on">Attended On</Label>
+                    <Input
+                      id="attended_on"
+                      type="date"
+                      value={formData.attended_on || ""}
+                      onChange={(e) => setField("attended_on", e.target.value || null)}
+                    />
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label>Person Record</Label>
+                <EmmaPeopleDropdown
+                  value={formData.person_id}
+                  onValueChange={(value) => setField("person_id", value)}
+                  placeholder="Link the visitor to a person..."
+                />
+                <p className="text-xs text-muted-foreground">
+                  Linking the visitor lets the conversion report see when they join the group.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Routed To</Label>
+                <EmmaPeopleDropdown
+                  value={formData.routed_to_id}
+                  onValueChange={(value) => setField("routed_to_id", value)}
+                  placeholder="Who is answering this request..."
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="response_note">Notes</Label>
+                <Textarea
+                  id="response_note"
+                  value={formData.response_note || ""}
+                  onChange={(e) => setField("response_note", e.target.value)}
+                  rows={3}
+                />
+              </div>
+
+              {formError && <p className="text-sm text-destructive">{formError}</p>}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button onClick={saveRequest} disabled={saving}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!guest} onOpenChange={(open) => !open && setGuest(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Record a Guest</DialogTitle>
+            <DialogDescription>Someone who came along to a meeting without asking first.</DialogDescription>
+          </DialogHeader>
+
+          {guest && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>I-Group</Label>
+                  <Select value={guest.i_group_id} onValueChange={(value) => setGuestField("i_group_id", value)}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select an I-Group" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {iGroups.map((group) => (
+                        <SelectItem key={group.id} value={group.id}>
+                          {group.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="guest_attended_on">Attended On</Label>
+                  <Input
+                    id="guest_attended_on"
+                    type="date"
+                    value={guest.attended_on}
+                    onChange={(e) => setGuestField("attended_on", e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="guest_first_name">First Name</Label>
+                  <Input
+                    id="guest_first_name"
+                    value={guest.first_name}
+                    onChange={(e) => setGuestField("first_name", e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="guest_last_name">Last Name</Label>
+                  <Input
+                    id="guest_last_name"
+                    value={guest.last_name}
+                    onChange={(e) => setGuestField("last_name", e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="guest_email">Email</Label>
+                  <Input
+                    id="guest_email"
+                    type="email"
+                    value={guest.email}
+                    onChange={(e) => setGuestField("email", e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="guest_phone">Phone</Label>
+                  <Input
+                    id="guest_phone"
+                    type="tel"
+                    value={guest.phone}
+                    onChange={(e) => setGuestField("phone", e.target.value)}
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="guest_is_initiated"
+                  checked={guest.is_initiated}
+                  onCheckedChange={(checked) => setGuestField("is_initiated", checked)}
+                />
+                <Label htmlFor="guest_is_initiated">Initiated</Label>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Person Record</Label>
+                <EmmaPeopleDropdown
+                  value={guest.person_id}
+                  onValueChange={(value) => setGuestField("person_id", value)}
+                  placeholder="Link the guest to a person..."
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="guest_note">Notes</Label>
+                <Textarea
+                  id="guest_note"
+                  value={guest.response_note}
+                  onChange={(e) => setGuestField("response_note", e.target.value)}
+                  rows={2}
+                />
+              </div>
+
+              {formError && <p className="text-sm text-destructive">{formError}</p>}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setGuest(null)}>
+              Cancel
+            </Button>
+            <Button onClick={saveGuest} disabled={saving || !guest?.i_group_id}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Record Guest
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -17,6 +17,7 @@ import {
 } from "@/components/ui/dialog"
 import { Label } from "@/components/ui/label"
 import { Switch } from "@/components/ui/switch"
+import { Textarea } from "@/components/ui/textarea"
 import {
   ChefHat,
   Crown,
@@ -40,12 +41,17 @@ import { EmmaPersonModal } from "../../components/emma/person-modal"
 import { EmmaAreaTag } from "../../components/emma/area-tag"
 import { EmmaCommunityTag } from "../../components/emma/community-tag"
 import { EmmaAreaModal } from "../../components/emma/area-modal"
+import { EmmaActivityTimeline } from "../../components/emma/activity-timeline"
 import { EmmaCommunityModal } from "../../components/emma/community-modal"
+import { EmmaPagination } from "../../components/emma/pagination"
+import { EmmaAdvancementProgress } from "../../components/emma/advancement"
 import type { Person, Warrior } from "../../types/person"
 import type { EventWithRelations } from "../../types/event"
 import type { Area } from "../../types/area"
 import type { Community } from "../../types/community"
 import { useState, useEffect } from "react"
+import { apiFetch } from "../../lib/api-client"
+import { usePagedList } from "../../hooks/usePagedList"
 
 interface WarriorStats {
   total: number
@@ -104,9 +110,7 @@ const getStatusBadge = (status: string) => {
 
 export default function AdminWarriors() {
   const { isAuthenticated, isLoading } = useAuth0()
-  const [warriors, setWarriors] = useState<WarriorWithRelations<EventWithRelations>[]>([])
   const [stats, setStats] = useState<WarriorStats | null>(null)
-  const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [searchTerm, setSearchTerm] = useState("")
   const [statusFilter, setStatusFilter] = useState<string>("all")
@@ -143,6 +147,7 @@ export default function AdminWarriors() {
     initiation_id: "",
     initiation_on: "",
     status: "Initiated",
+    status_justification: "",
     training_events: [] as string[],
     staffed_events: [] as string[],
     lead_events: [] as string[],
@@ -152,62 +157,57 @@ export default function AdminWarriors() {
     community_id: null as string | null,
   })
 
-  const filteredWarriors = warriors.filter((warrior) => {
-    if (!warrior) {
-      return false
-    }
-
-    const matchesSearch =
-      `${warrior.first_name || ""} ${warrior.last_name || ""}`.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      warrior.email?.toLowerCase().includes(searchTerm.toLowerCase())
-
-    const matchesStatus = statusFilter === "all" || warrior.status === statusFilter
-    const matchesActive =
-      activeFilter === "all" ||
-      (activeFilter === "active" && warrior.is_active) ||
-      (activeFilter === "inactive" && !warrior.is_active)
-
-    return matchesSearch && matchesStatus && matchesActive
+  const {
+    items: warriors,
+    total,
+    page,
+    pageCount,
+    pageSize,
+    setPage,
+    isLoading: loading,
+    error: loadError,
+    refresh: refreshWarriors,
+  } = usePagedList<WarriorWithRelations<EventWithRelations>>("/api/warriors", {
+    sort: "last_name",
+    q: searchTerm,
+    filters: {
+      managed: "true",
+      status: statusFilter === "all" ? undefined : statusFilter,
+      active: activeFilter === "all" ? undefined : String(activeFilter === "active"),
+    },
+    enabled: isAuthenticated,
   })
 
   useEffect(() => {
     if (isAuthenticated) {
-      fetchData()
+      fetchStats()
     }
   }, [isAuthenticated])
 
-  const fetchData = async () => {
+  const fetchStats = async () => {
     try {
-      setLoading(true)
-      setError(null)
+      const statsResponse = await apiFetch("/api/warriors/stats")
 
-      const [warriorsResponse, statsResponse] = await Promise.all([
-        fetch("/api/warriors"),
-        fetch("/api/warriors/stats"),
-      ])
-
-      if (!warriorsResponse.ok || !statsResponse.ok) {
+      if (!statsResponse.ok) {
         throw new Error("Failed to fetch warriors data")
       }
 
-      const warriorsData = await warriorsResponse.json()
       const statsData = await statsResponse.json()
 
-      console.log("[v0] Warriors API response:", warriorsData)
-      console.log("[v0] Warriors data structure:", typeof warriorsData, Array.isArray(warriorsData))
-      console.log("[v0] Warriors data.data:", warriorsData.data)
       console.log("[v0] Stats API response:", statsData)
 
-      setWarriors(warriorsData.data || [])
       setStats(statsData.data || null)
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to fetch warriors")
       console.error("Error fetching warriors:", err)
-    } finally {
-      setLoading(false)
     }
   }
 
+  const fetchData = async () => {
+    setError(null)
+    await Promise.all([refreshWarriors(), fetchStats()])
+  }
+
   const resetForm = () => {
     setFormData({
       first_name: "",
@@ -224,6 +224,7 @@ export default function AdminWarriors() {
       initiation_id: "",
       initiation_on: "",
       status: "Initiated",
+      status_justification: "",
       training_events: [],
       staffed_events: [],
       lead_events: [],
@@ -259,6 +260,7 @@ export default function AdminWarriors() {
       initiation_id: warrior.initiation_id || "",
       initiation_on: warrior.initiation_on || "",
       status: warrior.status,
+      status_justification: "",
       training_events: warrior.training_events,
       staffed_events: warrior.staffed_events,
       lead_events: warrior.lead_events,
@@ -333,6 +335,7 @@ export default function AdminWarriors() {
         initiation_on: formData.initiation_on || null,
         area_id: formData.area_id || null,
         community_id: formData.community_id || null,
+        status_justification: formData.status_justification || undefined,
       }
 
       console.log("[v0] Saving warrior with payload:", payload)
@@ -340,7 +343,7 @@ export default function AdminWarriors() {
       const url = selectedWarrior ? `/api/warriors/${selectedWarrior.id}` : "/api/warriors"
       const method = selectedWarrior ? "PUT" : "POST"
 
-      const response = await fetch(url, {
+      const response = await apiFetch(url, {
         method,
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(payload),
@@ -370,7 +373,7 @@ export default function AdminWarriors() {
     try {
       setDeleting(true)
 
-      const response = await fetch(`/api/warriors/${selectedWarrior.id}`, {
+      const response = await apiFetch(`/api/warriors/${selectedWarrior.id}`, {
         method: "DELETE",
       })
 
@@ -513,7 +516,7 @@ export default function AdminWarriors() {
           {/* Warriors List */}
           <Card>
             <CardHeader>
-              <CardTitle>Warriors ({filteredWarriors.length})</CardTitle>
+              <CardTitle>Warriors ({total.toLocaleString()})</CardTitle>
               <CardDescription>Brotherhood members and their progression</CardDescription>
             </CardHeader>
             <CardContent>
@@ -522,11 +525,11 @@ export default function AdminWarriors() {
                   <Loader2 className="w-8 h-8 text-blue-600 mx-auto mb-4 animate-spin" />
                   <p className="text-gray-600">Loading warriors...</p>
                 </div>
-              ) : error ? (
+              ) : error || loadError ? (
                 <div className="text-center py-12">
                   <Shield className="w-16 h-16 text-red-400 mx-auto mb-4" />
                   <h3 className="text-lg font-semibold text-red-900 mb-2">Error Loading Warriors</h3>
-                  <p className="text-red-600 mb-4">{error}</p>
+                  <p className="text-red-600 mb-4">{error || loadError}</p>
                   <Button
                     onClick={fetchData}
                     variant="outline"
@@ -535,7 +538,7 @@ export default function AdminWarriors() {
                     Try Again
                   </Button>
                 </div>
-              ) : filteredWarriors.length === 0 ? (
+              ) : warriors.length === 0 ? (
                 <div className="text-center py-12">
                   <Shield className="w-16 h-16 text-gray-400 mx-auto mb-4" />
                   <h3 className="text-lg font-semibold text-gray-900 mb-2">No Warriors Found</h3>
@@ -552,7 +555,7 @@ export default function AdminWarriors() {
               ) : (
                 <TooltipProvider>
                   <div className="space-y-4">
-                    {filteredWarriors.map((warrior) => {
+                    {warriors.map((warrior) => {
                       if (!warrior) {
                         return null
                       }
@@ -685,6 +688,13 @@ export default function AdminWarriors() {
                                     )}
                                   </div>
                                 </div>
+                                <EmmaAdvancementProgress
+                                  warriorId={warrior.id}
+                                  canChangeStatus={true}
+                                  refreshKey={warrior.updated_at}
+                                  onStatusChanged={fetchData}
+                                />
+                                <EmmaActivityTimeline logId={warrior.log_id} refreshKey={warrior.updated_at} />
                               </div>
                             </div>
                           )}
@@ -692,6 +702,15 @@ export default function AdminWarriors() {
                       )
                     })}
                   </div>
+                  <EmmaPagination
+                    className="mt-6"
+                    page={page}
+                    pageCount={pageCount}
+                    pageSize={pageSize}
+                    total={total}
+                    onPageChange={setPage}
+                    disabled={loading}
+                  />
                 </TooltipProvider>
               )}
             </CardContent>
@@ -802,6 +821,19 @@ export default function AdminWarriors() {
               </div>
             </div>
 
+            {selectedWarrior && formData.status !== selectedWarrior.status && (
+              <div>
+                <Label htmlFor="status_justification">Status Change Justification</Label>
+                <Textarea
+                  id="status_justification"
+                  value={formData.status_justification}
+                  onChange={(e) => setFormData((prev) => ({ ...prev, status_justification: e.target.value }))}
+                  placeholder="Why this warrior's status is changing"
+                  rows={3}
+                />
+              </div>
+            )}
+
             <div>
               <Label htmlFor="area">Area</Label>
               <div className="flex items-center gap-2 mt-2">
@@ -879,7 +911,17 @@ export default function AdminWarriors() {
             >
               Cancel
             </Button>
-            <Button onClick={saveWarrior} disabled={saving || !formData.first_name || !formData.last_name}>
+            <Button
+              onClick={saveWarrior}
+              disabled={
+                saving ||
+                !formData.first_name ||
+                !formData.last_name ||
+                (!!selectedWarrior &&
+                  formData.status !== selectedWarrior.status &&
+                  !formData.status_justification.trim())
+              }
+            >
               {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
               {selectedWarrior ? "Update Warrior" : "Create Warrior"}
             </Button>
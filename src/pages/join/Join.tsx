@@ -14,6 +14,7 @@ import type { Community } from "../../types/community"
 import type { EventWithRelations } from "../../types/event"
 import type { Person, Warrior } from "../../types/person"
 import type { EmmaUserWithRelations } from "../../../api/users"
+import { apiFetch } from "../../lib/api-client"
 
 interface WarriorWithRelations<E> extends Warrior<EventWithRelations> {
   area: Area
@@ -46,7 +47,7 @@ export default function Join() {
 
     setLoading(true)
     try {
-      const response = await fetch(`/api/mkp-connect/warriors?email=${encodeURIComponent(user.email)}`)
+      const response = await apiFetch(`/api/mkp-connect/warriors?email=${encodeURIComponent(user.email)}`)
       if (response.ok) {
         const data = await response.json()
         if (data.data && data.data.length > 0) {
@@ -64,7 +65,7 @@ export default function Join() {
     if (!user?.email) return
 
     try {
-      const response = await fetch(`/api/users?email=${encodeURIComponent(user.email)}`)
+      const response = await apiFetch(`/api/users?email=${encodeURIComponent(user.email)}`)
       if (response.ok) {
         const data = await response.json()
         if (data && data.person_or_warrior) {
@@ -80,7 +81,7 @@ export default function Join() {
     if (!user?.email) return
 
     try {
-      const response = await fetch(`/api/users?email=${encodeURIComponent(user.email)}`)
+      const response = await apiFetch(`/api/users?email=${encodeURIComponent(user.email)}`)
       if (response.ok) {
         const data = await response.json()
         if (data && data.data && data.data.length > 0) {
@@ -28,6 +28,7 @@ import {
 import { EmmaTitleBar } from "../../components/emma/titlebar"
 import type { WarriorWithRelations } from "../../../api/mkp-connect/warriors"
 import { useNavigate } from "react-router-dom"
+import { apiFetch } from "../../lib/api-client"
 
 interface WarriorProfile {
   id: string
@@ -89,7 +90,7 @@ export default function JoinProfileImport() {
     setSelections([])
 
     try {
-      const response = await fetch(`/api/mkp-connect/warriors?userid=${encodeURIComponent(searchUserId)}`)
+      const response = await apiFetch(`/api/mkp-connect/warriors?userid=${encodeURIComponent(searchUserId)}`)
       if (response.ok) {
         const responseObj = await response.json()
         const responseData: WarriorWithRelations[] = responseObj.data || []
@@ -149,7 +150,7 @@ export default function JoinProfileImport() {
         (searchMiddleName.trim() ? "&middlename=" + encodeURIComponent(searchMiddleName.trim()) : "") +
         "&lastname=" +
         encodeURIComponent(searchLastName.trim())
-      const response = await fetch(`/api/mkp-connect/warriors?${nameParams}`)
+      const response = await apiFetch(`/api/mkp-connect/warriors?${nameParams}`)
       if (response.ok) {
         const responseObj = await response.json()
         const responseData: WarriorWithRelations[] = responseObj.data || []
@@ -203,7 +204,7 @@ export default function JoinProfileImport() {
     setSelections([])
 
     try {
-      const response = await fetch(`/api/mkp-connect/warriors?email=${encodeURIComponent(searchEmail)}`)
+      const response = await apiFetch(`/api/mkp-connect/warriors?email=${encodeURIComponent(searchEmail)}`)
       if (response.ok) {
         const responseObj = await response.json()
         const responseData: WarriorWithRelations[] = responseObj.data || []
@@ -303,7 +304,7 @@ export default function JoinProfileImport() {
       // This follows the same pattern as JoinProfileSetup.tsx
 
       // First, check if user already exists in Emma
-      const userResponse = await fetch(`/api/users?email=${encodeURIComponent(user?.email || "")}`)
+      const userResponse = await apiFetch(`/api/users?email=${encodeURIComponent(user?.email || "")}`)
       let userData = null
 
       if (userResponse.ok) {
@@ -345,14 +346,14 @@ export default function JoinProfileImport() {
       let saveResponse
       if (userData) {
         // Update existing user
-        saveResponse = await fetch(`/api/users?id=${userData.id}`, {
+        saveResponse = await apiFetch(`/api/users?id=${userData.id}`, {
           method: "PUT",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify(userPayload),
         })
       } else {
         // Create new user
-        saveResponse = await fetch("/api/users", {
+        saveResponse = await apiFetch("/api/users", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify(userPayload),
@@ -14,6 +14,7 @@ import type { Person, Warrior } from "../../types/person"
 import type { EventWithRelations } from "../../types/event"
 import type { Area } from "../../types/area"
 import type { Community } from "../../types/community"
+import { apiFetch } from "../../lib/api-client"
 
 interface WarriorWithRelations extends Warrior<EventWithRelations> {
   area: Area
@@ -58,7 +59,7 @@ export default function JoinProfileSetup() {
 
     setLoading(true)
     try {
-      const response = await fetch(`/api/mkp-connect/warriors?email=${encodeURIComponent(user.email)}`)
+      const response = await apiFetch(`/api/mkp-connect/warriors?email=${encodeURIComponent(user.email)}`)
       if (response.ok) {
         const data = await response.json()
         if (data.data && data.data.length > 0) {
@@ -84,7 +85,7 @@ export default function JoinProfileSetup() {
     if (!user?.email) return
 
     try {
-      const response = await fetch(`/api/users?email=${encodeURIComponent(user.email)}`)
+      const response = await apiFetch(`/api/users?email=${encodeURIComponent(user.email)}`)
       if (response.ok) {
         const data = await response.json()
         if (data && data.person_or_warrior) {
@@ -154,7 +155,7 @@ export default function JoinProfileSetup() {
         saveData.id = emmaPersonOrWarrior.id
       }
 
-      const response = await fetch(url, {
+      const response = await apiFetch(url, {
         method,
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(saveData),
@@ -8,6 +8,7 @@ import { EmmaTitleBar } from "../../components/emma/titlebar"
 import type { EmmaUserWithRelations } from "../../../api/users"
 import { useState, useEffect } from "react"
 import { useNavigate } from "react-router-dom"
+import { apiFetch } from "../../lib/api-client"
 
 interface WarriorData {
   id: string
@@ -58,7 +59,7 @@ export default function JoinWelcome() {
     setApiError(null)
 
     try {
-      const response = await fetch(`/api/mkp-connect/warriors?email=${encodeURIComponent(user.email)}`)
+      const response = await apiFetch(`/api/mkp-connect/warriors?email=${encodeURIComponent(user.email)}`)
       if (response.ok) {
         const data = await response.json()
         setWarriorData(data.data)
@@ -79,7 +80,7 @@ export default function JoinWelcome() {
     setApiError(null)
 
     try {
-      const response = await fetch(`/api/users/?email=${encodeURIComponent(user.email)}`)
+      const response = await apiFetch(`/api/users/?email=${encodeURIComponent(user.email)}`)
       if (response.ok) {
         const data = await response.json()
         setEmmaUserData(data)
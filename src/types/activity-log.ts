@@ -0,0 +1,26 @@
+import type { Person } from "./person"
+
+export type ActivityAction = "created" | "updated" | "archived" | "restored" | "membership" | "deleted"
+
+export interface ActivityFieldChange {
+  from: unknown
+  to: unknown
+}
+
+export interface ActivityLogEntry {
+  id: string
+  log_id: string
+  by_id: string | null
+  name: string
+  summary: string
+  details: string | null
+  data: {
+    action?: ActivityAction
+    changes?: Record<string, ActivityFieldChange>
+    [key: string]: unknown
+  } | null
+  ordering: number
+  created_at: string
+  updated_at: string
+  by?: Pick<Person, "id" | "first_name" | "middle_name" | "last_name" | "photo_url"> | null
+}
@@ -0,0 +1,52 @@
+export interface RoleTypeRequirement {
+  role_type_id: string
+  count: number
+}
+
+export interface TrainingRequirement {
+  event_type_id: string
+  count: number
+}
+
+// What a warrior at from_status must have done to be promoted to status
+export interface AdvancementCriteria {
+  id: string
+  status: string
+  from_status: string
+  summary?: string | null
+  min_staffed: number
+  role_type_requirements: RoleTypeRequirement[]
+  min_lead: number
+  training_requirements: TrainingRequirement[]
+  min_months_initiated: number
+  is_active: boolean
+  created_at?: string
+  updated_at?: string
+}
+
+export interface RequirementProgress {
+  key: string // "staffed", "lead", "months", "role_type:<id>" or "training:<id>"
+  label: string
+  required: number
+  actual: number
+  met: boolean
+}
+
+export interface AdvancementProgress {
+  criteria_id: string
+  status: string
+  from_status: string
+  summary?: string | null
+  eligible: boolean // every requirement is met
+  requirements: RequirementProgress[]
+}
+
+export interface WarriorAdvancement {
+  warrior_id: string
+  first_name: string
+  last_name: string
+  status: string | null
+  initiation_on: string | null
+  next: AdvancementProgress | null // the criteria for promotion from the warrior's current status
+  ladder: AdvancementProgress[] // every active criteria, for the full picture
+}
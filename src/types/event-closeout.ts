@@ -0,0 +1,28 @@
+export type HistoryField = "training_events" | "staffed_events" | "lead_events" | "mos_events"
+
+export interface HistoryAddition {
+  person_id: string
+  field: HistoryField
+}
+
+// What a close-out changed, kept on the event so that reopening it can undo exactly that
+export interface EventCloseout {
+  closed_at: string
+  closed_by: string | null
+  history: HistoryAddition[]
+  created_warriors: string[] // rookies who had no warrior record
+  initiated_warriors: string[] // existing warriors whose initiation fields were empty and got set
+  initiated_prospects?: string[] // prospects moved to the "initiated" funnel stage (absent on older close-outs)
+}
+
+export interface CloseoutPlan {
+  event_id: string
+  event_name: string
+  is_nwta: boolean
+  closed_at: string | null
+  closeout: EventCloseout | null
+  history: HistoryAddition[] // additions still to be made
+  rookies_to_create: string[]
+  rookies_to_initiate: string[]
+  skipped: string[] // people on the roster without a warrior record, whose history can't be kept
+}
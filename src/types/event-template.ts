@@ -0,0 +1,55 @@
+import type { VenueConflict } from "./venue-availability"
+
+// Minutes from the event's start in venue-local time; negative for anything before it (e.g. staff call)
+export interface ScheduleOffset {
+  start_offset: number
+  end_offset: number
+}
+
+// An nwta_roles row without the people, who change from one weekend to the next
+export interface TemplateRole {
+  name: string
+  summary: string | null
+  role_type_id: string | null
+}
+
+export interface EventTemplate {
+  id: string
+  log_id: string | null
+  event_type_id: string
+  name: string
+  description: string | null
+  area_id: string | null // null with community_id null: shared by every area
+  community_id: string | null
+  venue_id: string | null
+  is_nwta: boolean
+  staff_cost: number
+  staff_capacity: number
+  participant_cost: number
+  participant_capacity: number
+  participant_schedule: ScheduleOffset[]
+  staff_schedule: ScheduleOffset[]
+  participant_published_time: ScheduleOffset | null
+  staff_published_time: ScheduleOffset | null
+  roles: TemplateRole[]
+  is_active: boolean
+  created_at?: string
+  updated_at?: string
+}
+
+export interface EventTemplateWithRelations extends EventTemplate {
+  event_type?: { id: string; name: string; code: string; color: string | null } | null
+  area?: { id: string; name: string; code: string } | null
+  venue?: { id: string; name: string; timezone: string | null } | null
+}
+
+// Result of duplicating an event or laying a template down on a date
+export interface CreatedFromTemplate {
+  event_id: string
+  name: string
+  start_at: string | null
+  end_at: string | null
+  is_nwta: boolean
+  roles_copied: number
+  conflicts: VenueConflict[] // bookings already at the venue on the new dates
+}
@@ -1,4 +1,5 @@
 import type { Transaction } from "@/src/types/transaction"
+import type { EventCloseout } from "@/src/types/event-closeout"
 
 export interface EventBasic {
   id: string
@@ -14,12 +15,15 @@ export interface EventBasic {
   created_at: string
   updated_at: string
   deleted_at?: string | null
+  closed_at?: string | null
+  closeout?: EventCloseout | null
 }
 
 // Centralized Event type definitions
 export interface Event extends EventBasic {
   description: string | null
   transaction_log_id: string
+  log_id?: string | null
   staff_cost: number // stored in cents
   staff_capacity: number // maximum number of staff slots
   potential_staff: string[] // array of person UUIDs
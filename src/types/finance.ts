@@ -0,0 +1,50 @@
+// A committed staff member or participant and what they still owe for an event
+export interface PersonReceivable {
+  person_id: string
+  first_name: string | null
+  last_name: string | null
+  role: "staff" | "participant"
+  expected: number // staff_cost or participant_cost, in cents
+  paid: number // payments less refunds made by this person, in cents
+  outstanding: number // expected - paid, never negative
+}
+
+export interface EventFinanceReport {
+  event_id: string
+  event_name: string
+  area_id: string | null
+  starts_at: string | null // first participant session, if scheduled
+  committed_staff: number
+  committed_participants: number
+  // Budget: what the committed roster should bring in
+  expected_staff_revenue: number // staff_cost × committed staff, in cents
+  expected_participant_revenue: number // participant_cost × committed participants, in cents
+  expected_revenue: number
+  // Actual: everything recorded on the event's log and its registrants' logs, in cents
+  payments: number
+  refunds: number
+  expenses: number
+  reimbursements: number
+  net_revenue: number // payments - refunds
+  net_income: number // net_revenue - expenses - reimbursements
+  variance: number // net_revenue - expected_revenue
+  outstanding: number // sum of the receivables below
+  receivables: PersonReceivable[]
+}
+
+export interface AreaFinanceRollup {
+  area_id: string
+  area_name: string
+  finance_coordinator_id: string | null
+  event_count: number
+  expected_revenue: number
+  payments: number
+  refunds: number
+  expenses: number
+  reimbursements: number
+  net_revenue: number
+  net_income: number
+  variance: number
+  outstanding: number
+  events: EventFinanceReport[]
+}
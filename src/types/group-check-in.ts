@@ -0,0 +1,62 @@
+export interface GroupCheckIn {
+  id: string
+  i_group_id: string
+  period: string // first day of the month reported on, YYYY-MM-01
+  meetings_held: number
+  average_attendance: number
+  visitors: number
+  open_seats: number
+  needs_support: boolean
+  support_note: string | null
+  submitted_by_id: string | null
+  area_id: string | null
+  community_id: string | null
+  created_at?: string
+  updated_at?: string
+}
+
+export type CheckInAlertKind =
+  | "missed_check_ins" // no check-in for the last months that were due
+  | "declining_attendance" // recent attendance well below the months before
+  | "not_meeting" // the latest check-in reported no meetings
+  | "needs_support" // the latest check-in asked for help
+
+export interface CheckInAlert {
+  i_group_id: string
+  i_group_name: string
+  community_id: string | null
+  community_name: string | null
+  coordinator_id: string | null
+  kind: CheckInAlertKind
+  detail: string
+  last_period: string | null // latest month reported on, if any
+}
+
+export interface GroupCheckInHistory {
+  i_group_id: string
+  due_period: string // the most recent month whose check-in is due
+  check_ins: GroupCheckIn[] // most recent first
+  alerts: CheckInAlert[]
+}
+
+// One row of the check-in roll-up in /api/i-groups/stats
+export interface CheckInRollupRow {
+  key: string | null // area or community id; null for groups without one
+  label: string
+  groups_active: number
+  groups_reporting: number // active groups with at least one check-in in the window
+  meetings_held: number
+  average_attendance: number // per meeting, across every meeting reported
+  visitors: number
+  open_seats: number // from each group's latest check-in
+  needs_support: number // groups whose latest check-in asked for help
+}
+
+export interface CheckInRollup {
+  months: number
+  since: string // first period in the window
+  until: string // last period in the window
+  totals: CheckInRollupRow
+  by_area: CheckInRollupRow[]
+  by_community: CheckInRollupRow[]
+}
@@ -0,0 +1,65 @@
+export type GroupMemberRole = "member" | "facilitator" | "contact"
+
+// "transferred" memberships name the group the member moved to in transferred_to_id
+export type MembershipEndReason = "left" | "removed" | "transferred"
+
+export interface GroupMembership {
+  id: string
+  i_group_id: string
+  person_id: string
+  role: GroupMemberRole
+  joined_on: string
+  left_on: string | null
+  left_reason: MembershipEndReason | null
+  transferred_to_id: string | null
+  notes: string | null
+  recorded_by_id: string | null
+  created_at?: string
+  updated_at?: string
+}
+
+export interface RosterMember extends GroupMembership {
+  person: { id: string; first_name: string; last_name: string; email: string | null; phone: string | null } | null
+}
+
+export interface GroupRoster {
+  i_group_id: string
+  current: RosterMember[]
+  past: RosterMember[] // closed memberships, most recent first
+  can_manage: boolean // the caller may add, change and remove members
+}
+
+// One stretch of a person's membership, for their group history
+export interface GroupHistoryEntry extends GroupMembership {
+  i_group: { id: string; name: string; is_active: boolean } | null
+  transferred_to: { id: string; name: string } | null
+}
+
+export type GroupHealthFlag =
+  | "shrinking" // lost members over the report window
+  | "below_minimum" // fewer members than a group needs to sit in circle
+  | "no_contact" // no primary contact and no contact email
+  | "contact_left" // the primary contact is no longer on the roster
+  | "contact_unreachable" // the primary contact has no email or phone
+
+export interface GroupHealthRow {
+  i_group_id: string
+  name: string
+  community_id: string | null
+  community_name: string | null
+  members: number
+  members_before: number // on the roster at the start of the window
+  joined: number
+  left: number
+  contact: { id: string; name: string } | null
+  last_roster_change: string | null
+  flags: GroupHealthFlag[]
+}
+
+export interface GroupHealthReport {
+  window_days: number
+  minimum_members: number
+  since: string
+  flagged: number
+  groups: GroupHealthRow[]
+}
@@ -64,6 +64,7 @@ export interface Group {
   is_publicly_listed: boolean
   public_contact_id?: string | null
   primary_contact_id?: string | null
+  log_id?: string | null
   latitude?: number | null
   longitude?: number | null
   is_active: boolean
@@ -105,6 +106,13 @@ export interface IGroup extends Group {
   is_requiring_contact_before_visiting: boolean
   schedule_events: EventTime[]
   schedule_description: string | null
+  // RFC 5545 RRULE (e.g. "FREQ=MONTHLY;BYDAY=1TU,3TU"); when set it replaces schedule_events
+  schedule_rrule?: string | null
+  schedule_dtstart?: string | null // first meeting, local date and time ("2026-01-06T19:00:00")
+  schedule_duration_minutes?: number
+  schedule_timezone?: string | null // falls back to the venue's timezone
+  schedule_exdates?: string[] // local dates (YYYY-MM-DD) the group doesn't meet
+  next_meetings?: EventTime[] // computed by the API
   area_id: string | null
   community_id: string | null
   contact_email?: string | null
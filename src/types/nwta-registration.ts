@@ -0,0 +1,20 @@
+// What the public registration form needs to know about an NWTA before showing itself
+export interface NwtaRegistrationInfo {
+  event_id: string
+  event_name: string
+  is_open: boolean // published and inside the participant registration window
+  is_full: boolean // at participant_capacity: new registrants go on the waitlist
+  cost: number // cents
+  deposit: number // cents, taken online when a place is held
+  payments: { provider: string; test_mode: boolean } | null
+  can_pay_online: boolean
+}
+
+export type NwtaRegistrationResult =
+  | {
+      status: "registered" | "waitlisted"
+      person_id: string
+      payment: { amount: number; reference: string } | null
+      intake_path: string // the rookie's own intake link, which works without signing in
+    }
+  | { status: "declined" | "payment_required"; message: string }
@@ -0,0 +1,50 @@
+export type StaffPoolList = "potential_staff" | "committed_staff" | "alternate_staff"
+
+export interface NwtaRoleType {
+  id: string
+  name: string
+  summary?: string | null
+  needs_experience?: string | null
+  experience_level: number // prior NWTAs staffed the role calls for
+  work_points: number
+  preparation_points: number
+  is_medical?: boolean
+}
+
+// How well a candidate suits one role on the board
+export interface RoleFit {
+  score: number // 0-100
+  meets_requirement: boolean
+  shortfalls: string[] // why the role's experience requirement isn't met
+}
+
+export interface StaffingCandidate {
+  person_id: string
+  first_name: string
+  last_name: string
+  photo_url?: string | null
+  status: string | null // the warrior's status, or null when they have no warrior record
+  list: StaffPoolList | null // null when assigned to a role but no longer on the staff lists
+  staffed_count: number
+  lead_count: number
+  mos_count: number
+  fits: Record<string, RoleFit> // keyed by role id
+}
+
+export interface StaffingRole {
+  id: string
+  name: string
+  summary?: string | null
+  role_type: NwtaRoleType | null
+  lead_warrior_id: string | null
+  warriors: string[]
+  warnings: string[]
+}
+
+export interface StaffingBoard {
+  event_id: string
+  event_name: string
+  updated_at: string | null
+  roles: StaffingRole[]
+  candidates: StaffingCandidate[]
+}
@@ -0,0 +1,22 @@
+export interface PaymentPlanInstallment {
+  amount: number // stored in cents
+  due_on: string // YYYY-MM-DD
+}
+
+// A registrant's agreed schedule: a deposit followed by any number of installments
+export interface PaymentPlan {
+  deposit: PaymentPlanInstallment
+  installments: PaymentPlanInstallment[]
+}
+
+export type BalanceStatus = "paid_in_full" | "overdue" | "on_track" | "no_plan"
+
+export interface RegistrantBalance {
+  cost: number // the event's participant_cost, in cents
+  paid: number // payments less refunds on the registrant's transaction log, in cents
+  balance: number // cost - paid
+  due_to_date: number // what the plan expects to have been paid by today, in cents
+  overdue: number // due_to_date - paid, when positive
+  next_due: PaymentPlanInstallment | null // the next scheduled amount still owed
+  status: BalanceStatus
+}
@@ -1,4 +1,7 @@
 import type { EventBasic } from "../types/event"
+import type { Area } from "../types/area"
+import type { RegistrantBalance } from "../types/payment-plan"
+import type { ProspectStage } from "../types/prospect-funnel"
 
 export interface Person {
   id: string
@@ -12,21 +15,38 @@ export interface Person {
   physical_address_id?: string | null
   notes?: string | null
   photo_url?: string | null
+  log_id?: string | null
   is_active: boolean
   created_at: string
   updated_at: string
 }
 
+// What GET /api/people?ids= returns: email and phone are only included for signed-in warriors
+export type PersonSummary = Pick<Person, "id" | "first_name" | "middle_name" | "last_name" | "photo_url"> &
+  Partial<Pick<Person, "email" | "phone">>
+
 export interface Prospect extends Person {
   log_id?: string
   balked_events: string[]
+  area_id?: string | null
+  community_id?: string | null
+  area?: Area | null
+  stage?: ProspectStage
+  stage_changed_at?: string | null
+  last_contact_at?: string | null
+  enroller_id?: string | null
+  referred_by_id?: string | null
+  registered_event_id?: string | null
+  registered_at?: string | null
+  is_cold?: boolean // no contact for COLD_AFTER_DAYS and not yet registered
 }
 
 export interface Registrant<E extends EventBasic> extends Person {
   event_id?: string
   log_id?: string
-  payment_plan?: string
+  payment_plan?: string // the activity_logs entry holding the current PaymentPlan
   transaction_log?: string
+  balance?: RegistrantBalance
   status: "potential" | "committed" | "waitlist"
   event?: E
   position?: number // for ordered lists (potential and waitlist)
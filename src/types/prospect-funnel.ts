@@ -0,0 +1,29 @@
+export type ProspectStage = "inquiry" | "intro_call" | "attended_open_event" | "registered" | "initiated"
+
+export type ConversationChannel = "phone" | "in_person" | "email" | "text" | "video" | "other"
+
+// An enrollment conversation as recorded on the prospect's activity log
+export interface EnrollmentConversation {
+  channel: ConversationChannel
+  summary: string
+  details?: string | null
+  next_step_on?: string | null
+  stage?: ProspectStage | null // set when the conversation moved the prospect along
+}
+
+// One row of the conversion report: how far the prospects in a group have got
+export interface FunnelRow {
+  key: string | null // area or referring warrior id; null for prospects with neither
+  label: string
+  total: number
+  reached: Record<ProspectStage, number> // prospects at or past each stage
+  cold: number
+  conversion_rate: number // share of prospects who registered, 0..1
+}
+
+export interface FunnelReport {
+  cold_after_days: number
+  totals: FunnelRow
+  by_area: FunnelRow[]
+  by_referrer: FunnelRow[]
+}
@@ -0,0 +1,51 @@
+export interface EmergencyContact {
+  name: string
+  relationship?: string | null
+  phone: string
+  email?: string | null
+}
+
+export interface Medication {
+  name: string
+  dosage?: string | null
+  schedule?: string | null
+  notes?: string | null
+}
+
+export interface RookieIntake {
+  id: string
+  nwta_event_id: string
+  person_id: string
+  emergency_contacts: EmergencyContact[]
+  medical_conditions: string | null
+  allergies: string | null
+  dietary_needs: string | null
+  medications: Medication[]
+  medical_notes: string | null
+  waiver_version: string | null
+  waiver_signed_name: string | null
+  waiver_signed_at: string | null
+  waiver_recorded_by: string | null
+  created_at?: string
+  updated_at?: string
+}
+
+// A rookie on the NWTA and where their intake stands
+export interface RookieIntakeStatus {
+  person_id: string
+  first_name: string
+  last_name: string
+  intake: RookieIntake | null
+  has_emergency_contact: boolean
+  waiver_signed: boolean
+  intake_path: string | null // staff only: the rookie's intake link, for rookies who can't sign in
+}
+
+export interface NwtaIntakes {
+  event_id: string
+  // "staff" for the leaders and medical staff, who see every rookie; "self" for a rookie, who sees only their own
+  access: "staff" | "self"
+  waiver_version: string
+  purge_on: string | null // date the intakes will be deleted, once the NWTA has a start or end date
+  rookies: RookieIntakeStatus[]
+}
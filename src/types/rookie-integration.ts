@@ -0,0 +1,41 @@
+export type IntegrationStage = "initiated" | "contacted" | "attended" | "joined" | "completed"
+
+// Why a new warrior shows up on the "falling through the cracks" list
+export type IntegrationFlag = "no_owner" | "stalled"
+
+export interface RookieIntegration {
+  id: string
+  log_id: string | null
+  warrior_id: string
+  nwta_event_id: string | null
+  owner_id: string | null
+  area_id: string | null
+  community_id: string | null
+  contacted_on: string | null
+  attended_on: string | null
+  attended_i_group_id: string | null
+  joined_on: string | null
+  joined_i_group_id: string | null
+  completed_on: string | null
+  notes: string | null
+  created_at?: string
+  updated_at?: string
+}
+
+export interface RookieIntegrationWithProgress extends RookieIntegration {
+  warrior: { id: string; first_name: string; last_name: string; email: string | null; phone: string | null } | null
+  nwta_event: { id: string; name: string; end_at: string | null } | null
+  stage: IntegrationStage
+  stage_since: string // date the current stage was reached (or the pipeline started)
+  days_in_stage: number
+  flags: IntegrationFlag[]
+}
+
+export interface IGroupSuggestion {
+  id: string
+  name: string
+  community_id: string | null
+  schedule_description: string | null
+  is_requiring_contact_before_visiting: boolean
+  distance_miles: number | null // null when suggested by community rather than distance
+}
@@ -0,0 +1,44 @@
+// A blackout is the venue being unavailable to us; a hold is a tentative reservation we've made
+export type VenuePeriodKind = "blackout" | "hold"
+
+export interface VenuePeriod {
+  id: string
+  venue_id: string
+  kind: VenuePeriodKind
+  start_at: string
+  end_at: string
+  reason: string | null
+  event_id: string | null // the event a hold is for, if it's on the calendar yet
+  created_by: string | null
+  created_at?: string
+  updated_at?: string
+}
+
+// Something already occupying the venue during an event's dates
+export interface VenueConflict {
+  kind: "event" | VenuePeriodKind
+  id: string
+  name: string
+  start_at: string
+  end_at: string
+}
+
+// An event at the venue, spanning from the first staff session to the last participant one
+export interface VenueBooking {
+  id: string
+  name: string
+  start_at: string
+  end_at: string
+  color: string | null
+  is_published: boolean
+  conflicts: VenueConflict[]
+}
+
+export interface VenueAvailability {
+  venue_id: string
+  timezone: string | null
+  from: string
+  to: string
+  events: VenueBooking[]
+  periods: VenuePeriod[]
+}
@@ -0,0 +1,59 @@
+export type VisitorRequestStatus = "pending" | "accepted" | "declined" | "attended"
+
+// "request" came in through the public form; "guest" is attendance the group recorded itself
+export type VisitorRequestSource = "request" | "guest"
+
+export interface VisitorRequest {
+  id: string
+  log_id: string | null
+  i_group_id: string
+  person_id: string | null
+  first_name: string
+  last_name: string
+  email: string | null
+  phone: string | null
+  is_initiated: boolean
+  message: string | null
+  preferred_date: string | null
+  source: VisitorRequestSource
+  status: VisitorRequestStatus
+  routed_to_id: string | null
+  routed_to_email: string | null
+  responded_at: string | null
+  responded_by_id: string | null
+  response_note: string | null
+  escalated_at: string | null
+  escalated_to_id: string | null
+  attended_on: string | null
+  area_id: string | null
+  community_id: string | null
+  created_at?: string
+  updated_at?: string
+}
+
+export interface VisitorRequestWithGroup extends VisitorRequest {
+  i_group: { id: string; name: string } | null
+  days_waiting: number | null // days since the request came in, while it is still pending
+  is_overdue: boolean // pending past the escalation period
+  is_member: boolean // the visitor has since joined the group
+}
+
+// One row of the visitor conversion report
+export interface VisitorReportRow {
+  key: string | null // I-Group or community id; null for requests with no community
+  label: string
+  requests: number
+  accepted: number // accepted or attended
+  declined: number
+  attended: number
+  members: number
+  overdue: number
+  conversion_rate: number // share of visitors who became members, 0..1
+}
+
+export interface VisitorReport {
+  escalate_after_days: number
+  totals: VisitorReportRow
+  by_community: VisitorReportRow[]
+  by_i_group: VisitorReportRow[]
+}
@@ -0,0 +1,47 @@
+export type PointsSource = "role" | "staffed" | "lead"
+
+// One line of a warrior's points ledger
+export interface PointsEntry {
+  event_id: string
+  event_name: string | null
+  date: string | null // the event's start
+  source: PointsSource
+  role_id: string | null
+  role_name: string | null
+  work_points: number
+  preparation_points: number
+  pending: boolean // the event hasn't started, so the points aren't earned yet
+}
+
+export interface PointsTotals {
+  work_points: number
+  preparation_points: number
+  total: number
+  events: number // distinct NWTAs that earned points
+}
+
+export interface WarriorPoints {
+  warrior_id: string
+  window_months: number
+  window_start: string
+  lifetime: PointsTotals
+  window: PointsTotals
+  entries: PointsEntry[] // newest first
+}
+
+export interface LeaderboardRow {
+  warrior_id: string
+  first_name: string
+  last_name: string
+  status: string | null
+  lifetime: PointsTotals
+  window: PointsTotals
+}
+
+export interface PointsLeaderboard {
+  area_id: string
+  area_name: string
+  window_months: number
+  window_start: string
+  rows: LeaderboardRow[] // highest window total first
+}
@@ -28,6 +28,7 @@ export default defineConfig({
     "import.meta.env.VITE_GOOGLE_MAPS_API_KEY": JSON.stringify(process.env.VITE_GOOGLE_MAPS_API_KEY),
     "import.meta.env.VITE_AUTH0_DOMAIN": JSON.stringify(process.env.VITE_AUTH0_DOMAIN),
     "import.meta.env.VITE_AUTH0_CLIENT_ID": JSON.stringify(process.env.VITE_AUTH0_CLIENT_ID),
+    "import.meta.env.VITE_AUTH0_AUDIENCE": JSON.stringify(process.env.VITE_AUTH0_AUDIENCE),
   },
   assetsInclude: ["site.webmanifest", "**/*.json", "**/*.png", "**/*.ico"],
 })